@@ -0,0 +1,19 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('contact_lists', 'is_dynamic', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  });
+
+  await queryInterface.addColumn('contact_lists', 'last_evaluated_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('contact_lists', 'last_evaluated_at');
+  await queryInterface.removeColumn('contact_lists', 'is_dynamic');
+};
@@ -0,0 +1,25 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('campaigns', 'sender_pool', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+
+  await queryInterface.addColumn('campaigns', 'sender_rotation', {
+    type: DataTypes.ENUM('ROUND_ROBIN', 'WEIGHTED'),
+    allowNull: false,
+    defaultValue: 'ROUND_ROBIN',
+  });
+
+  // Per-mailbox quota lookups count scheduled emails by sending address
+  await queryInterface.addIndex('email_messages', ['sent_from_email', 'scheduled_send_at'], {
+    name: 'idx_email_messages_sender_schedule',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeIndex('email_messages', 'idx_email_messages_sender_schedule');
+  await queryInterface.removeColumn('campaigns', 'sender_rotation');
+  await queryInterface.removeColumn('campaigns', 'sender_pool');
+};
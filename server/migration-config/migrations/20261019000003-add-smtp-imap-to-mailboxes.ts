@@ -0,0 +1,92 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('gmail_oauth_tokens', 'provider', {
+    type: DataTypes.ENUM('GMAIL', 'SMTP'),
+    allowNull: false,
+    defaultValue: 'GMAIL',
+  });
+
+  // SMTP mailboxes have no OAuth tokens
+  await queryInterface.changeColumn('gmail_oauth_tokens', 'access_token_encrypted', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.changeColumn('gmail_oauth_tokens', 'refresh_token_encrypted', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+
+  await queryInterface.addColumn('gmail_oauth_tokens', 'smtp_host', {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'smtp_port', {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'smtp_secure', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'imap_host', {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'imap_port', {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'imap_secure', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'mailbox_username', {
+    type: DataTypes.STRING(255),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'mailbox_password_encrypted', {
+    type: DataTypes.TEXT,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'imap_uid_validity', {
+    type: DataTypes.STRING(32),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('gmail_oauth_tokens', 'imap_last_uid', {
+    type: DataTypes.INTEGER,
+    allowNull: true,
+  });
+
+  await queryInterface.addIndex('gmail_oauth_tokens', ['provider', 'status'], {
+    name: 'idx_gmail_tokens_provider',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeIndex('gmail_oauth_tokens', 'idx_gmail_tokens_provider');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'imap_last_uid');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'imap_uid_validity');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'mailbox_password_encrypted');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'mailbox_username');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'imap_secure');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'imap_port');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'imap_host');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'smtp_secure');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'smtp_port');
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'smtp_host');
+
+  // SMTP mailboxes cannot satisfy the OAuth columns again
+  await queryInterface.bulkDelete('gmail_oauth_tokens', { provider: 'SMTP' });
+  await queryInterface.changeColumn('gmail_oauth_tokens', 'refresh_token_encrypted', {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  });
+  await queryInterface.changeColumn('gmail_oauth_tokens', 'access_token_encrypted', {
+    type: DataTypes.TEXT,
+    allowNull: false,
+  });
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'provider');
+};
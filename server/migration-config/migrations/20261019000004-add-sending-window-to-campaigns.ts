@@ -0,0 +1,12 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('campaigns', 'sending_window', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('campaigns', 'sending_window');
+};
@@ -0,0 +1,12 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('campaign_steps', 'send_conditions', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('campaign_steps', 'send_conditions');
+};
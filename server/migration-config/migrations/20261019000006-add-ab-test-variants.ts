@@ -0,0 +1,26 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('campaign_steps', 'variants', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('campaign_steps', 'ab_test', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('email_messages', 'variant_id', {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+  });
+  await queryInterface.addIndex('email_messages', ['campaign_step', 'variant_id'], {
+    name: 'idx_email_messages_step_variant',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeIndex('email_messages', 'idx_email_messages_step_variant');
+  await queryInterface.removeColumn('email_messages', 'variant_id');
+  await queryInterface.removeColumn('campaign_steps', 'ab_test');
+  await queryInterface.removeColumn('campaign_steps', 'variants');
+};
@@ -0,0 +1,76 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('suppression_entries', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    type: {
+      type: DataTypes.ENUM('EMAIL', 'DOMAIN', 'PATTERN'),
+      allowNull: false,
+    },
+    value: {
+      type: DataTypes.STRING(320),
+      allowNull: false,
+    },
+    reason: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    source: {
+      type: DataTypes.ENUM('MANUAL', 'IMPORT'),
+      allowNull: false,
+      defaultValue: 'MANUAL',
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  try {
+    await queryInterface.addIndex(
+      'suppression_entries',
+      ['organization_id', 'type', 'value'],
+      { name: 'unique_suppression_org_type_value', unique: true }
+    );
+  } catch (error: any) {
+    if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('suppression_entries');
+};
@@ -0,0 +1,12 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('email_messages', 'skip_reason', {
+    type: DataTypes.STRING(50),
+    allowNull: true,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('email_messages', 'skip_reason');
+};
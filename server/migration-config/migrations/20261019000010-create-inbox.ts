@@ -0,0 +1,254 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('inbox_threads', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    mailbox_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'gmail_oauth_tokens',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    mailbox_email: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    gmail_thread_id: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    campaign_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+      references: {
+        model: 'campaigns',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    },
+    contact_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+      references: {
+        model: 'contacts',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    },
+    email_message_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+      references: {
+        model: 'email_messages',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL',
+    },
+    subject: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.ENUM('UNREAD', 'READ', 'REPLIED', 'ARCHIVED'),
+      allowNull: false,
+      defaultValue: 'UNREAD',
+    },
+    message_count: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    last_message_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    last_inbound_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    last_message_snippet: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  await queryInterface.createTable('inbox_messages', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    thread_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'inbox_threads',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    direction: {
+      type: DataTypes.ENUM('INBOUND', 'OUTBOUND'),
+      allowNull: false,
+    },
+    provider_message_id: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    message_id_header: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    from_email: {
+      type: DataTypes.STRING(320),
+      allowNull: true,
+    },
+    from_name: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    to_addresses: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    cc_addresses: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    subject: {
+      type: DataTypes.STRING(500),
+      allowNull: true,
+    },
+    text_body: {
+      type: DataTypes.TEXT('long'),
+      allowNull: true,
+    },
+    html_body: {
+      type: DataTypes.TEXT('long'),
+      allowNull: true,
+    },
+    headers: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    attachments: {
+      type: DataTypes.JSON,
+      allowNull: true,
+    },
+    message_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  const indexes: Array<{ table: string; fields: string[]; name: string; unique?: boolean }> = [
+    {
+      table: 'inbox_threads',
+      fields: ['mailbox_id', 'gmail_thread_id'],
+      name: 'unique_inbox_thread_mailbox_thread',
+      unique: true,
+    },
+    {
+      table: 'inbox_threads',
+      fields: ['organization_id', 'last_message_at'],
+      name: 'idx_inbox_threads_org_last_message',
+    },
+    {
+      table: 'inbox_messages',
+      fields: ['thread_id', 'provider_message_id'],
+      name: 'unique_inbox_message_thread_provider_id',
+      unique: true,
+    },
+  ];
+
+  for (const index of indexes) {
+    try {
+      await queryInterface.addIndex(index.table, index.fields, { name: index.name, unique: index.unique });
+    } catch (error: any) {
+      if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+        throw error;
+      }
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('inbox_messages');
+  await queryInterface.dropTable('inbox_threads');
+};
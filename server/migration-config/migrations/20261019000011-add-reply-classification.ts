@@ -0,0 +1,44 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('email_messages', 'reply_classification', {
+    type: DataTypes.STRING(30),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('email_messages', 'reply_classified_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('contacts', 'out_of_office_until', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+
+  // Not interested replies add the contact to the suppression list
+  await queryInterface.sequelize.query(
+    "ALTER TABLE `suppression_entries` MODIFY COLUMN `source` ENUM('MANUAL', 'IMPORT', 'REPLY') NOT NULL DEFAULT 'MANUAL'"
+  );
+  // Interested replies notify the campaign owner
+  await queryInterface.sequelize.query(
+    "ALTER TABLE `notifications` MODIFY COLUMN `type` ENUM('CAMPAIGN_COMPLETED', 'CAMPAIGN_STARTED', 'CAMPAIGN_PAUSED', 'CAMPAIGN_FAILED', 'REPLY_INTERESTED') NOT NULL"
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.sequelize.query(
+    "DELETE FROM `notifications` WHERE `type` = 'REPLY_INTERESTED'"
+  );
+  await queryInterface.sequelize.query(
+    "ALTER TABLE `notifications` MODIFY COLUMN `type` ENUM('CAMPAIGN_COMPLETED', 'CAMPAIGN_STARTED', 'CAMPAIGN_PAUSED', 'CAMPAIGN_FAILED') NOT NULL"
+  );
+  await queryInterface.sequelize.query(
+    "UPDATE `suppression_entries` SET `source` = 'MANUAL' WHERE `source` = 'REPLY'"
+  );
+  await queryInterface.sequelize.query(
+    "ALTER TABLE `suppression_entries` MODIFY COLUMN `source` ENUM('MANUAL', 'IMPORT') NOT NULL DEFAULT 'MANUAL'"
+  );
+
+  await queryInterface.removeColumn('contacts', 'out_of_office_until');
+  await queryInterface.removeColumn('email_messages', 'reply_classified_at');
+  await queryInterface.removeColumn('email_messages', 'reply_classification');
+};
@@ -0,0 +1,37 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.addColumn('email_tracking_events', 'traffic_type', {
+    type: DataTypes.STRING(20),
+    allowNull: true,
+  });
+  await queryInterface.addColumn('email_messages', 'human_opened_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('email_messages', 'human_clicked_at', {
+    type: DataTypes.DATE,
+    allowNull: true,
+  });
+  await queryInterface.addColumn('campaigns', 'human_engagement_only', {
+    type: DataTypes.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  });
+
+  // Earlier opens and clicks were never classified, keep counting them as human
+  await queryInterface.sequelize.query(
+    "UPDATE `email_tracking_events` SET `traffic_type` = 'HUMAN' WHERE `event_type` IN ('OPENED', 'CLICKED')"
+  );
+  await queryInterface.sequelize.query(
+    'UPDATE `email_messages` SET `human_opened_at` = `opened_at`, `human_clicked_at` = `clicked_at` ' +
+    'WHERE `opened_at` IS NOT NULL OR `clicked_at` IS NOT NULL'
+  );
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('campaigns', 'human_engagement_only');
+  await queryInterface.removeColumn('email_messages', 'human_clicked_at');
+  await queryInterface.removeColumn('email_messages', 'human_opened_at');
+  await queryInterface.removeColumn('email_tracking_events', 'traffic_type');
+};
@@ -0,0 +1,75 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('campaign_blueprints', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(255),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    settings: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    steps: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  try {
+    await queryInterface.addIndex(
+      'campaign_blueprints',
+      ['organization_id', 'name'],
+      { name: 'unique_campaign_blueprint_org_name', unique: true }
+    );
+  } catch (error: any) {
+    if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('campaign_blueprints');
+};
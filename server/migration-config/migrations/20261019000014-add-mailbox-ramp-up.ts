@@ -0,0 +1,13 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  // Mailboxes connected before ramp-up schedules existed keep sending at the plan limit
+  await queryInterface.addColumn('gmail_oauth_tokens', 'ramp_up', {
+    type: DataTypes.JSON,
+    allowNull: true,
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('gmail_oauth_tokens', 'ramp_up');
+};
@@ -0,0 +1,179 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('webhook_endpoints', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    url: {
+      type: DataTypes.STRING(2048),
+      allowNull: false,
+    },
+    description: {
+      type: DataTypes.STRING(255),
+      allowNull: true,
+    },
+    events: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    secret_encrypted: {
+      type: DataTypes.STRING(512),
+      allowNull: false,
+    },
+    is_active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  await queryInterface.createTable('webhook_deliveries', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    endpoint_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'webhook_endpoints',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    event: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    event_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+    },
+    payload: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('PENDING', 'SUCCEEDED', 'FAILED'),
+      allowNull: false,
+      defaultValue: 'PENDING',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    response_status: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    response_body: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    error: {
+      type: DataTypes.STRING(1000),
+      allowNull: true,
+    },
+    last_attempt_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    delivered_at: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    redelivery_of: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  const indexes: Array<{ fields: string[]; name: string }> = [
+    { fields: ['organization_id', 'created_at'], name: 'idx_webhook_deliveries_org_created' },
+    { fields: ['endpoint_id', 'created_at'], name: 'idx_webhook_deliveries_endpoint_created' },
+  ];
+  for (const index of indexes) {
+    try {
+      await queryInterface.addIndex('webhook_deliveries', index.fields, { name: index.name });
+    } catch (error: any) {
+      if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+        throw error;
+      }
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('webhook_deliveries');
+  await queryInterface.dropTable('webhook_endpoints');
+};
@@ -0,0 +1,67 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('contact_import_mapping_presets', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: DataTypes.STRING(100),
+      allowNull: false,
+    },
+    mapping: {
+      type: DataTypes.JSON,
+      allowNull: false,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  try {
+    await queryInterface.addIndex(
+      'contact_import_mapping_presets',
+      ['organization_id', 'name'],
+      { name: 'unique_contact_import_mapping_preset_org_name', unique: true }
+    );
+  } catch (error: any) {
+    if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+      throw error;
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('contact_import_mapping_presets');
+};
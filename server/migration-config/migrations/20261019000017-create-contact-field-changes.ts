@@ -0,0 +1,93 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.createTable('contact_field_changes', {
+    id: {
+      type: DataTypes.CHAR(36),
+      primaryKey: true,
+      defaultValue: DataTypes.UUIDV4,
+    },
+    contact_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'contacts',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    organization_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: false,
+      references: {
+        model: 'organizations',
+        key: 'id',
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'CASCADE',
+    },
+    field: {
+      type: DataTypes.STRING(120),
+      allowNull: false,
+    },
+    previous_value: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    new_value: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    source: {
+      type: DataTypes.STRING(20),
+      allowNull: false,
+      defaultValue: 'IMPORT',
+    },
+    source_id: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    created_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    updated_at: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW(),
+    },
+    created_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    updated_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+    deleted_by: {
+      type: DataTypes.CHAR(36),
+      allowNull: true,
+    },
+  });
+
+  const indexes: Array<{ fields: string[]; name: string }> = [
+    { fields: ['contact_id', 'created_at'], name: 'idx_contact_field_changes_contact_created' },
+    { fields: ['organization_id', 'source_id'], name: 'idx_contact_field_changes_org_source' },
+  ];
+
+  for (const index of indexes) {
+    try {
+      await queryInterface.addIndex('contact_field_changes', index.fields, { name: index.name });
+    } catch (error: any) {
+      if (!error.message?.includes('Duplicate key name') && !error.message?.includes('already exists')) {
+        throw error;
+      }
+    }
+  }
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.dropTable('contact_field_changes');
+};
@@ -0,0 +1,29 @@
+import { QueryInterface, DataTypes } from 'sequelize';
+
+export const up = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.changeColumn('contacts', 'email_verification_status', {
+    type: DataTypes.ENUM('VERIFIED', 'UNVERIFIED', 'PENDING', 'FAILED', 'RISKY'),
+    allowNull: true,
+    defaultValue: 'UNVERIFIED',
+  });
+
+  await queryInterface.addColumn('campaigns', 'verification_filter', {
+    type: DataTypes.ENUM('ALL', 'EXCLUDE_RISKY', 'VERIFIED_ONLY'),
+    allowNull: false,
+    defaultValue: 'ALL',
+  });
+};
+
+export const down = async (queryInterface: QueryInterface): Promise<void> => {
+  await queryInterface.removeColumn('campaigns', 'verification_filter');
+
+  // RISKY has no equivalent in the old set, those contacts go back to unverified
+  await queryInterface.sequelize.query(
+    "UPDATE `contacts` SET `email_verification_status` = 'UNVERIFIED' WHERE `email_verification_status` = 'RISKY'"
+  );
+  await queryInterface.changeColumn('contacts', 'email_verification_status', {
+    type: DataTypes.ENUM('VERIFIED', 'UNVERIFIED', 'PENDING', 'FAILED'),
+    allowNull: true,
+    defaultValue: 'UNVERIFIED',
+  });
+};
@@ -38,6 +38,10 @@ import { AnalyticsModule } from './resources/analytics/analytics.module';
 import { EmployeesModule } from './resources/employees/employees.module';
 import { NotificationsModule } from './resources/notifications/notifications.module';
 import { AssetsModule } from './resources/assets/assets.module';
+import { SuppressionsModule } from './resources/suppressions/suppressions.module';
+import { InboxModule } from './resources/inbox/inbox.module';
+import { WebhooksModule } from './resources/webhooks/webhooks.module';
+import { EmailVerificationModule } from './resources/email-verification/email-verification.module';
 
 @Module({
   imports: [
@@ -72,6 +76,10 @@ import { AssetsModule } from './resources/assets/assets.module';
     EmployeesModule,
     NotificationsModule,
     AssetsModule,
+    SuppressionsModule,
+    InboxModule,
+    WebhooksModule,
+    EmailVerificationModule,
     RouterModule.register(routes),
   ],
   controllers: [AppController],
@@ -6,11 +6,20 @@ import { CryptoUtilityService } from './services/crypto-utility.service';
 import { TransactionManager } from './services/transaction-manager.service';
 import { RedisProgressService } from './services/redis-progress.service';
 import { GmailService } from './services/gmail.service';
+import { GmailMailSenderService } from './services/gmail-mail-sender.service';
+import { SmtpMailSenderService } from './services/smtp-mail-sender.service';
+import { MailSenderService } from './services/mail-sender.service';
+import { ImapMailboxService } from './services/imap-mailbox.service';
 import { EmailPersonalizationService } from './services/email-personalization.service';
 import { RateLimiterService } from './services/rate-limiter.service';
 import { EmailTrackingService } from './services/email-tracking.service';
+import { TrackingTokenService } from './services/tracking-token.service';
+import { GeoIpService } from './services/geo-ip.service';
 import { BounceDetectionService } from './services/bounce-detection.service';
 import { ReplyDetectionService } from './services/reply-detection.service';
+import { ConversationStoreService } from './services/conversation-store.service';
+import { ReplyClassifierService } from './services/reply-classifier.service';
+import { KeywordReplyClassifier } from './services/keyword-reply-classifier.service';
 import { ScheduledTasksService } from './services/scheduled-tasks.service';
 import { NotificationsModule } from 'src/resources/notifications/notifications.module';
 import { TokenRefreshService } from './services/token-refresh.service';
@@ -25,6 +34,8 @@ import { UserContextInterceptor } from './interceptors/user-context.interceptor'
 import { AuditLogMiddleware } from './middleware/audit-log.middleware';
 import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
 import { SubscriptionsModule } from 'src/resources/subscriptions/subscriptions.module';
+import { SuppressionsModule } from 'src/resources/suppressions/suppressions.module';
+import { WebhooksModule } from 'src/resources/webhooks/webhooks.module';
 import { User } from 'src/resources/users/entities/user.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
@@ -35,6 +46,8 @@ import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.ent
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
 import { Subscription } from 'src/resources/subscriptions/entities/subscription.entity';
 import { SubscriptionPlan } from 'src/resources/subscriptions/entities/subscription-plan.entity';
+import { InboxThread } from 'src/resources/inbox/entities/inbox-thread.entity';
+import { InboxMessage } from 'src/resources/inbox/entities/inbox-message.entity';
 import { APP_INTERCEPTOR } from '@nestjs/core';
 import { CampaignsModule } from 'src/resources/campaigns/campaigns.module';
 import { BullModule } from 'src/configuration/bull/bull.module';
@@ -47,6 +60,8 @@ import { BullModule } from 'src/configuration/bull/bull.module';
     forwardRef(() => CampaignsModule), // Forward ref to avoid circular dependency
     forwardRef(() => SubscriptionsModule), // For subscription expiry and renewal services
     forwardRef(() => NotificationsModule), // For notification services
+    forwardRef(() => SuppressionsModule), // For suppressing contacts who reply not interested
+    WebhooksModule, // For pushing tracking events to organization webhooks
     BullModule, // For queue services (CampaignProcessorQueue, BounceDetectionQueue, ReplyDetectionQueue) - NO processors
     SequelizeModule.forFeature([
       GmailOAuthToken,
@@ -59,6 +74,8 @@ import { BullModule } from 'src/configuration/bull/bull.module';
       User,
       Subscription,
       SubscriptionPlan,
+      InboxThread,
+      InboxMessage,
     ]),
   ],
   providers: [
@@ -67,11 +84,20 @@ import { BullModule } from 'src/configuration/bull/bull.module';
     TransactionManager,
     RedisProgressService,
     GmailService,
+    GmailMailSenderService,
+    SmtpMailSenderService,
+    MailSenderService,
     EmailPersonalizationService,
     RateLimiterService,
     EmailTrackingService,
+    TrackingTokenService,
+    GeoIpService,
     BounceDetectionService,
     ReplyDetectionService,
+    ConversationStoreService,
+    ReplyClassifierService,
+    KeywordReplyClassifier,
+    ImapMailboxService,
     ScheduledTasksService,
     TokenRefreshService,
     CircuitBreakerService,
@@ -93,11 +119,20 @@ import { BullModule } from 'src/configuration/bull/bull.module';
     TransactionManager,
     RedisProgressService,
     GmailService,
+    GmailMailSenderService,
+    SmtpMailSenderService,
+    MailSenderService,
     EmailPersonalizationService,
     RateLimiterService,
     EmailTrackingService,
+    TrackingTokenService,
+    GeoIpService,
     BounceDetectionService,
     ReplyDetectionService,
+    ConversationStoreService,
+    ReplyClassifierService,
+    KeywordReplyClassifier,
+    ImapMailboxService,
     ScheduledTasksService,
     TokenRefreshService,
     CircuitBreakerService,
@@ -4,6 +4,8 @@ export enum NotificationType {
   CAMPAIGN_STARTED = 'CAMPAIGN_STARTED',
   CAMPAIGN_PAUSED = 'CAMPAIGN_PAUSED',
   CAMPAIGN_FAILED = 'CAMPAIGN_FAILED',
+  // Reply events
+  REPLY_INTERESTED = 'REPLY_INTERESTED',
   // Future: Add more types here
   // SUBSCRIPTION_EXPIRING = 'SUBSCRIPTION_EXPIRING',
   // CONTACT_IMPORT_COMPLETED = 'CONTACT_IMPORT_COMPLETED',
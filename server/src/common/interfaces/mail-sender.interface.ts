@@ -0,0 +1,45 @@
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { ListUnsubscribeOptions } from '../utils/list-unsubscribe.util';
+
+export interface MailSendRequest {
+  to: string;
+  from: string;
+  fromName?: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  threadHeaders?: {
+    inReplyTo?: string; // Message-ID of the email being replied to (wrapped in < >)
+    references?: string; // References header value
+    threadId?: string; // Thread ID stored on the previous email (gmailThreadId column)
+  };
+  listUnsubscribe?: ListUnsubscribeOptions; // Adds List-Unsubscribe and one-click List-Unsubscribe-Post headers
+}
+
+export interface MailSendResult {
+  id: string; // Provider message ID, stored in gmailMessageId column
+  threadId: string; // Conversation ID, stored in gmailThreadId column
+}
+
+/**
+ * Delivery backend of a connected mailbox (Gmail API, SMTP)
+ * Resolved per mailbox by MailSenderService
+ */
+export interface MailSenderProvider {
+  /**
+   * Make sure the mailbox credentials are usable before sending (e.g. refresh an expired OAuth token)
+   */
+  prepare(mailbox: GmailOAuthToken): Promise<void>;
+
+  send(mailbox: GmailOAuthToken, request: MailSendRequest): Promise<MailSendResult>;
+
+  /**
+   * Clean Message-ID header (without < >) of a message sent from the mailbox
+   * @param messageId - Value stored in the gmailMessageId column
+   */
+  getMessageIdHeader(mailbox: GmailOAuthToken, messageId: string): Promise<string>;
+
+  isTemporaryError(error: any): boolean;
+
+  getErrorCode(error: any): string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Attachment metadata of a received message, the content stays with the mail provider
+ */
+export interface MessageAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string; // Gmail attachment ID
+}
+
+/**
+ * Decoded body of a received message
+ */
+export interface MessageContent {
+  text: string;
+  html: string | null;
+  attachments: MessageAttachment[];
+}
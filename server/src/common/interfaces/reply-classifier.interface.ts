@@ -0,0 +1,32 @@
+import { ReplyClassification } from 'src/resources/campaigns/entities/email-message.entity';
+
+export interface ReplyClassificationInput {
+  subject: string;
+  /** Plain-text body, quoted history removed */
+  text: string;
+  headers: Array<{ name: string; value: string }>;
+  receivedAt: Date;
+}
+
+export interface ReplyClassificationResult {
+  classification: ReplyClassification;
+  /** 0 to 1 */
+  confidence: number;
+  /** Return date read from an out-of-office reply */
+  returnDate?: Date | null;
+  /** Name of the classifier that produced the result */
+  classifier: string;
+}
+
+/**
+ * Labels a reply (keyword rules, a model...)
+ * Registered with ReplyClassifierService, the first classifier returning a result wins.
+ */
+export interface ReplyClassifier {
+  readonly name: string;
+
+  /**
+   * @returns null when the classifier has no opinion, the next one is tried
+   */
+  classify(input: ReplyClassificationInput): Promise<ReplyClassificationResult | null>;
+}
@@ -1,7 +1,10 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op } from 'sequelize';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { EmailMessage, EmailMessageStatus, BounceType } from 'src/resources/campaigns/entities/email-message.entity';
 import { EmailTrackingEvent, EmailEventType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
@@ -68,9 +71,10 @@ export class BounceDetectionService {
     };
 
     try {
-      // Get all active Gmail tokens
+      // Get all active Gmail tokens (SMTP mailboxes are polled over IMAP)
       const tokens = await this.gmailTokenModel.findAll({
         where: {
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
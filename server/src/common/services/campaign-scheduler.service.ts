@@ -5,7 +5,10 @@ import { ConfigService } from '@nestjs/config';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
 import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { RateLimiterService } from './rate-limiter.service';
 import { QuotaManagementService } from './quota-management.service';
 import { CampaignProcessorQueue } from 'src/configuration/bull/queues/campaign-processor.queue';
@@ -257,6 +260,7 @@ export class ScheduledTasksService {
           userId: {
             [Op.in]: eligibleUserIds,
           },
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
         attributes: ['userId', 'email', 'organizationId'],
@@ -342,6 +346,7 @@ export class ScheduledTasksService {
           userId: {
             [Op.in]: eligibleUserIds,
           },
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
         attributes: ['userId', 'email', 'organizationId'],
@@ -0,0 +1,303 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { EmailMessage } from 'src/resources/campaigns/entities/email-message.entity';
+import { InboxThread, InboxThreadStatus } from 'src/resources/inbox/entities/inbox-thread.entity';
+import {
+  InboxMessage,
+  InboxMessageAddress,
+  InboxMessageDirection,
+} from 'src/resources/inbox/entities/inbox-message.entity';
+import { MessageContent } from '../interfaces/message-content.interface';
+import { GmailService } from './gmail.service';
+
+/**
+ * Received message in the shape used by reply detection (Gmail API, or IMAP through ImapMailboxService)
+ */
+export interface InboundMessage {
+  id: string;
+  headers: Array<{ name: string; value: string }>;
+  snippet: string;
+  payload?: any;
+  internalDate?: string;
+  content?: MessageContent;
+}
+
+/**
+ * Outbound message sent from the inbox
+ */
+export interface OutboundMessage {
+  providerMessageId: string;
+  messageIdHeader: string | null;
+  fromEmail: string;
+  fromName?: string;
+  to: string;
+  subject: string;
+  html?: string;
+  text?: string;
+  userId: string;
+}
+
+const SNIPPET_LENGTH = 500;
+
+/**
+ * Conversation Store Service
+ * Keeps the full messages of campaign reply threads for the inbox, one InboxThread per mailbox and gmailThreadId
+ */
+@Injectable()
+export class ConversationStoreService {
+  private readonly logger = new Logger(ConversationStoreService.name);
+
+  constructor(
+    @InjectModel(InboxThread)
+    private readonly inboxThreadModel: typeof InboxThread,
+    @InjectModel(InboxMessage)
+    private readonly inboxMessageModel: typeof InboxMessage,
+    @InjectModel(GmailOAuthToken)
+    private readonly gmailTokenModel: typeof GmailOAuthToken,
+    private readonly gmailService: GmailService,
+  ) {}
+
+  /**
+   * Save a prospect's reply to the conversation of the campaign email it answers
+   * The campaign email is added first so the thread reads in order. Saving the same message twice is a no-op.
+   * @returns the stored message, null when the mailbox or thread is unknown
+   */
+  async recordInboundMessage(
+    emailMessage: EmailMessage,
+    message: InboundMessage,
+    mailboxEmail: string,
+  ): Promise<InboxMessage | null> {
+    if (!emailMessage.gmailThreadId) {
+      return null;
+    }
+
+    const mailbox = await this.gmailTokenModel.findOne({
+      where: { email: mailboxEmail, organizationId: emailMessage.organizationId },
+      attributes: ['id', 'email'],
+    });
+    if (!mailbox) {
+      this.logger.warn(`Mailbox ${mailboxEmail} not found, reply ${message.id} not added to the inbox`);
+      return null;
+    }
+
+    const [thread] = await this.inboxThreadModel.findOrCreate({
+      where: { mailboxId: mailbox.id, gmailThreadId: emailMessage.gmailThreadId },
+      defaults: {
+        organizationId: emailMessage.organizationId,
+        mailboxId: mailbox.id,
+        mailboxEmail: mailbox.email,
+        gmailThreadId: emailMessage.gmailThreadId,
+        campaignId: emailMessage.campaignId,
+        contactId: emailMessage.contactId,
+        emailMessageId: emailMessage.id,
+        subject: emailMessage.subject?.substring(0, 500) || null,
+      } as Partial<InboxThread>,
+    });
+
+    await this.recordCampaignEmail(thread, emailMessage);
+
+    const existing = await this.inboxMessageModel.findOne({
+      where: { threadId: thread.id, providerMessageId: message.id },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const content = message.content || (message.payload ? this.gmailService.extractMessageContent(message.payload) : null);
+    const from = this.parseAddressList(this.getHeader(message.headers, 'From'))[0];
+    const messageAt = message.internalDate ? new Date(parseInt(message.internalDate, 10)) : new Date();
+
+    const stored = await this.inboxMessageModel.create({
+      organizationId: thread.organizationId,
+      threadId: thread.id,
+      direction: InboxMessageDirection.INBOUND,
+      providerMessageId: message.id,
+      messageIdHeader: this.cleanMessageId(this.getHeader(message.headers, 'Message-ID')),
+      fromEmail: from?.email || null,
+      fromName: from?.name || null,
+      toAddresses: this.parseAddressList(this.getHeader(message.headers, 'To')),
+      ccAddresses: this.parseAddressList(this.getHeader(message.headers, 'Cc')),
+      subject: this.getHeader(message.headers, 'Subject')?.substring(0, 500) || null,
+      textBody: content?.text || message.snippet || null,
+      htmlBody: content?.html || null,
+      headers: message.headers,
+      attachments: content?.attachments || [],
+      messageAt,
+    } as Partial<InboxMessage>);
+
+    await this.touchThread(thread, stored, {
+      status: InboxThreadStatus.UNREAD,
+      lastInboundAt: messageAt,
+      campaignId: emailMessage.campaignId,
+      contactId: emailMessage.contactId,
+      emailMessageId: emailMessage.id,
+    });
+
+    this.logger.log(`📥 Reply ${message.id} added to inbox thread ${thread.id}`);
+    return stored;
+  }
+
+  /**
+   * Gmail thread IDs of a mailbox that have an inbox conversation
+   * Reply detection keeps scanning these threads for the prospect's answers to inbox replies.
+   */
+  async findConversationThreadIds(mailboxEmail: string, gmailThreadIds: string[]): Promise<Set<string>> {
+    if (gmailThreadIds.length === 0) {
+      return new Set();
+    }
+
+    const mailboxes = await this.gmailTokenModel.findAll({
+      where: { email: mailboxEmail },
+      attributes: ['id'],
+    });
+    if (mailboxes.length === 0) {
+      return new Set();
+    }
+
+    const threads = await this.inboxThreadModel.findAll({
+      where: {
+        mailboxId: { [Op.in]: mailboxes.map((mailbox) => mailbox.id) },
+        gmailThreadId: { [Op.in]: gmailThreadIds },
+      },
+      attributes: ['gmailThreadId'],
+    });
+    return new Set(threads.map((thread) => thread.gmailThreadId));
+  }
+
+  /**
+   * Whether a received message is already saved to the conversation of the campaign email it answers
+   */
+  async hasInboundMessage(
+    emailMessage: EmailMessage,
+    providerMessageId: string,
+    mailboxEmail: string,
+  ): Promise<boolean> {
+    if (!emailMessage.gmailThreadId) {
+      return false;
+    }
+
+    const mailbox = await this.gmailTokenModel.findOne({
+      where: { email: mailboxEmail, organizationId: emailMessage.organizationId },
+      attributes: ['id'],
+    });
+    const thread = mailbox
+      ? await this.inboxThreadModel.findOne({
+          where: { mailboxId: mailbox.id, gmailThreadId: emailMessage.gmailThreadId },
+          attributes: ['id'],
+        })
+      : null;
+    if (!thread) {
+      return false;
+    }
+
+    const existing = await this.inboxMessageModel.findOne({
+      where: { threadId: thread.id, providerMessageId },
+      attributes: ['id'],
+    });
+    return !!existing;
+  }
+
+  /**
+   * Save a message sent from the inbox to its thread and mark the thread REPLIED
+   */
+  async recordOutboundMessage(thread: InboxThread, message: OutboundMessage): Promise<InboxMessage> {
+    const stored = await this.inboxMessageModel.create({
+      organizationId: thread.organizationId,
+      threadId: thread.id,
+      direction: InboxMessageDirection.OUTBOUND,
+      providerMessageId: message.providerMessageId,
+      messageIdHeader: message.messageIdHeader,
+      fromEmail: message.fromEmail,
+      fromName: message.fromName || null,
+      toAddresses: [{ email: message.to }],
+      ccAddresses: [],
+      subject: message.subject.substring(0, 500),
+      textBody: message.text || null,
+      htmlBody: message.html || null,
+      attachments: [],
+      messageAt: new Date(),
+      createdBy: message.userId,
+    } as Partial<InboxMessage>);
+
+    await this.touchThread(thread, stored, { status: InboxThreadStatus.REPLIED });
+    return stored;
+  }
+
+  /**
+   * Add the campaign email being replied to as the outbound message it was
+   */
+  private async recordCampaignEmail(thread: InboxThread, emailMessage: EmailMessage): Promise<void> {
+    const providerMessageId = emailMessage.gmailMessageId || emailMessage.id;
+    const existing = await this.inboxMessageModel.findOne({
+      where: { threadId: thread.id, providerMessageId },
+      attributes: ['id'],
+    });
+    if (existing) {
+      return;
+    }
+
+    const stored = await this.inboxMessageModel.create({
+      organizationId: thread.organizationId,
+      threadId: thread.id,
+      direction: InboxMessageDirection.OUTBOUND,
+      providerMessageId,
+      messageIdHeader: null,
+      fromEmail: emailMessage.sentFromEmail,
+      fromName: null,
+      toAddresses: emailMessage.contact?.email ? [{ email: emailMessage.contact.email }] : [],
+      ccAddresses: [],
+      subject: emailMessage.subject?.substring(0, 500) || null,
+      textBody: emailMessage.textContent || null,
+      htmlBody: emailMessage.htmlContent || null,
+      attachments: [],
+      messageAt: emailMessage.sentAt || new Date(),
+    } as Partial<InboxMessage>);
+
+    await this.touchThread(thread, stored, {});
+  }
+
+  private async touchThread(
+    thread: InboxThread,
+    message: InboxMessage,
+    changes: Partial<InboxThread>,
+  ): Promise<void> {
+    const isLatest = !thread.lastMessageAt || new Date(message.messageAt) >= new Date(thread.lastMessageAt);
+    const snippet = (message.textBody || message.htmlBody?.replace(/<[^>]*>/g, ' ') || '')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, SNIPPET_LENGTH);
+
+    await thread.update({
+      ...changes,
+      messageCount: (thread.messageCount || 0) + 1,
+      ...(isLatest ? { lastMessageAt: message.messageAt, lastMessageSnippet: snippet || null } : {}),
+    });
+  }
+
+  /**
+   * Parse an address header (`"Jane Doe" <jane@acme.com>, bob@acme.com`)
+   */
+  private parseAddressList(header: string | null): InboxMessageAddress[] {
+    if (!header) return [];
+
+    return (header.match(/(?:"[^"]*"|[^,])+/g) || [])
+      .map((part) => {
+        const match = part.match(/^\s*"?([^"<]*?)"?\s*<([^>]+)>\s*$/);
+        const email = (match ? match[2] : part).trim().toLowerCase();
+        const name = match?.[1]?.trim();
+        return name ? { email, name } : { email };
+      })
+      .filter((address) => address.email.includes('@'));
+  }
+
+  private cleanMessageId(value: string | null): string | null {
+    return value ? value.trim().replace(/^</, '').replace(/>$/, '') : null;
+  }
+
+  private getHeader(headers: Array<{ name: string; value: string }>, name: string): string | null {
+    const header = headers.find((h) => h.name.toLowerCase() === name.toLowerCase());
+    return header?.value || null;
+  }
+}
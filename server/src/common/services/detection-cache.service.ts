@@ -21,10 +21,12 @@ export class DetectionCacheService implements OnModuleInit, OnModuleDestroy {
   // Redis key prefixes
   private readonly BOUNCE_PREFIX = 'detection:bounce:';
   private readonly REPLY_PREFIX = 'detection:reply:';
+  private readonly UNSUBSCRIBE_PREFIX = 'detection:unsubscribe:';
 
   // TTL in seconds
   private readonly BOUNCE_TTL = 7 * 24 * 60 * 60; // 7 days
   private readonly REPLY_TTL = 30 * 24 * 60 * 60; // 30 days
+  private readonly UNSUBSCRIBE_TTL = 7 * 24 * 60 * 60; // 7 days
 
   constructor(private readonly configService: ConfigService) {
     this.initializeRedis();
@@ -160,6 +162,41 @@ export class DetectionCacheService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * Check if an unsubscribe request message ID has been processed
+   */
+  async isUnsubscribeProcessed(messageId: string): Promise<boolean> {
+    if (!this.isConnected || !this.redis) {
+      return false; // If Redis unavailable, allow processing (fallback behavior)
+    }
+
+    try {
+      const key = `${this.UNSUBSCRIBE_PREFIX}${messageId}`;
+      const exists = await this.redis.exists(key);
+      return exists === 1;
+    } catch (error) {
+      this.logger.warn(`Error checking unsubscribe cache for ${messageId}: ${error instanceof Error ? error.message : String(error)}`);
+      return false; // On error, allow processing
+    }
+  }
+
+  /**
+   * Mark an unsubscribe request message ID as processed
+   */
+  async markUnsubscribeProcessed(messageId: string): Promise<void> {
+    if (!this.isConnected || !this.redis) {
+      return; // Silently fail if Redis unavailable
+    }
+
+    try {
+      const key = `${this.UNSUBSCRIBE_PREFIX}${messageId}`;
+      await this.redis.setex(key, this.UNSUBSCRIBE_TTL, '1');
+    } catch (error) {
+      this.logger.warn(`Error marking unsubscribe as processed for ${messageId}: ${error instanceof Error ? error.message : String(error)}`);
+      // Don't throw - cache failures shouldn't block processing
+    }
+  }
+
   /**
    * Batch mark multiple bounce message IDs as processed
    */
@@ -1,5 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import {
+  TemplateNode,
+  TemplateSyntaxError,
+  collectTemplateVariables,
+  parseTemplate,
+  renderTemplate,
+} from '../utils/personalization-template.util';
 
 export interface PersonalizedContent {
   subject: string;
@@ -7,12 +14,49 @@ export interface PersonalizedContent {
   text: string;
 }
 
+/** Contact columns available as {{variable}} */
+export const CONTACT_VARIABLE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'company',
+  'jobTitle',
+  'website',
+  'city',
+  'state',
+  'country',
+  'department',
+  'industry',
+  'linkedin',
+  'twitter',
+  'facebook',
+  'companyDomain',
+  'companyWebsite',
+  'companyIndustry',
+  'companySize',
+  'companyRevenue',
+] as const;
+
+/** Contact variables match case-insensitively, like the original {{variable}} replacement */
+const CONTACT_FIELDS_BY_LOWERCASE = new Map<string, (typeof CONTACT_VARIABLE_FIELDS)[number]>(
+  CONTACT_VARIABLE_FIELDS.map((field) => [field.toLowerCase(), field]),
+);
+
+/** Prefix of variables reading Contact.customFields, e.g. {{custom.plan_tier}} */
+export const CUSTOM_FIELD_PREFIX = 'custom.';
+
+/** Parsed templates kept in memory; campaign batches render the same few templates many times */
+const MAX_CACHED_TEMPLATES = 200;
+
 @Injectable()
 export class EmailPersonalizationService {
   private readonly logger = new Logger(EmailPersonalizationService.name);
+  private readonly templateCache = new Map<string, TemplateNode[]>();
 
   /**
-   * Personalize email content by replacing variables with contact data
+   * Personalize email content by rendering variables, conditionals and spintax with contact data
+   * @throws TemplateSyntaxError when the content is not a valid template
    */
   personalizeContent(
     subject: string,
@@ -20,159 +64,148 @@ export class EmailPersonalizationService {
     textContent: string,
     contact: Contact,
   ): PersonalizedContent {
-    const personalizedSubject = this.replaceVariables(subject, contact);
-    const personalizedHtml = this.replaceVariables(htmlContent, contact);
-    const personalizedText = this.replaceVariables(textContent, contact);
+    const renderedSubject = this.renderForContact(subject, contact);
+    const renderedHtml = this.renderForContact(htmlContent, contact);
+    const renderedText = this.renderForContact(textContent, contact);
+
+    const missing = new Set([...renderedSubject.missing, ...renderedHtml.missing, ...renderedText.missing]);
+    if (missing.size > 0) {
+      this.logger.debug(
+        `Empty variables rendered for contact ${contact.email}: ${Array.from(missing).join(', ')}`,
+      );
+    }
 
     return {
-      subject: personalizedSubject,
-      html: personalizedHtml,
-      text: personalizedText,
+      subject: renderedSubject.output,
+      html: renderedHtml.output,
+      text: renderedText.output,
     };
   }
 
   /**
-   * Replace {{variable}} patterns with contact data
+   * Render content for a contact and report the variables that rendered empty
    */
-  private replaceVariables(content: string, contact: Contact): string {
-    if (!content) return '';
-
-    let result = content;
-
-    // Define variable mappings
-    const variableMap: Record<string, any> = {
-      firstName: contact.firstName,
-      lastName: contact.lastName,
-      email: contact.email,
-      phone: contact.phone,
-      company: contact.company,
-      jobTitle: contact.jobTitle,
-      website: contact.website,
-      city: contact.city,
-      state: contact.state,
-      country: contact.country,
-      department: contact.department,
-      industry: contact.industry,
-      linkedin: contact.linkedin,
-      twitter: contact.twitter,
-      facebook: contact.facebook,
-      companyDomain: contact.companyDomain,
-      companyWebsite: contact.companyWebsite,
-      companyIndustry: contact.companyIndustry,
-      companySize: contact.companySize,
-      companyRevenue: contact.companyRevenue,
-    };
-
-    // Replace each variable
-    for (const [key, value] of Object.entries(variableMap)) {
-      const regex = new RegExp(`{{\\s*${key}\\s*}}`, 'gi');
-      result = result.replace(regex, value || '');
-    }
+  renderForContact(content: string, contact: Contact): { output: string; missing: string[] } {
+    if (!content) return { output: '', missing: [] };
 
-    // Log if there are still unreplaced variables
-    const remainingVariables = result.match(/{{[^}]+}}/g);
-    if (remainingVariables && remainingVariables.length > 0) {
-      this.logger.warn(
-        `Unreplaced variables found in content for contact ${contact.email}: ${remainingVariables.join(', ')}`,
-      );
-    }
+    return renderTemplate(this.parse(content), {
+      resolve: (path) => this.resolveContactValue(contact, path),
+      seed: contact.id || contact.email,
+    });
+  }
 
-    return result;
+  /**
+   * Render content with plain preview data, e.g. { firstName: 'John', 'custom.plan': 'pro' }
+   */
+  renderWithData(content: string, data: Record<string, unknown>): string {
+    if (!content) return '';
+    return renderTemplate(this.parse(content), {
+      resolve: (path) => {
+        if (path in data) return data[path];
+        if (path.startsWith(CUSTOM_FIELD_PREFIX)) {
+          const customFields = data.customFields as Record<string, unknown> | undefined;
+          return customFields?.[path.slice(CUSTOM_FIELD_PREFIX.length)];
+        }
+        return undefined;
+      },
+    }).output;
   }
 
   /**
-   * Extract all variables from content
+   * Extract all variables from content, including the ones used by conditionals
    */
   extractVariables(content: string): string[] {
     if (!content) return [];
+    try {
+      return collectTemplateVariables(this.parse(content));
+    } catch {
+      return [];
+    }
+  }
 
-    const matches = content.match(/{{[^}]+}}/g);
-    if (!matches) return [];
+  /**
+   * Validate the syntax and variables of template content
+   * @returns one message per problem, empty when the content is valid
+   */
+  validateContent(...contents: Array<string | null | undefined>): string[] {
+    const errors = new Set<string>();
+
+    for (const content of contents) {
+      if (!content) continue;
+
+      let nodes: TemplateNode[];
+      try {
+        nodes = this.parse(content);
+      } catch (error) {
+        if (error instanceof TemplateSyntaxError) {
+          errors.add(error.message);
+          continue;
+        }
+        throw error;
+      }
+
+      for (const variable of collectTemplateVariables(nodes)) {
+        if (!this.isKnownVariable(variable)) {
+          errors.add(`Unknown variable "${variable}"`);
+        }
+      }
+    }
 
-    // Extract variable names without {{ }}
-    return matches.map(match => 
-      match.replace(/[{}]/g, '').trim()
-    ).filter((v, i, arr) => arr.indexOf(v) === i); // Remove duplicates
+    return Array.from(errors);
   }
 
   /**
-   * Validate that all variables in content exist in contact
+   * Variables of the content that would render empty for a contact
    */
-  validateVariables(
-    subject: string,
-    htmlContent: string,
-    textContent: string,
-    contact: Contact,
-  ): { isValid: boolean; missingVariables: string[] } {
-    // Extract all variables from all content
-    const subjectVars = this.extractVariables(subject);
-    const htmlVars = this.extractVariables(htmlContent);
-    const textVars = this.extractVariables(textContent);
-
-    const allVariables = [
-      ...new Set([...subjectVars, ...htmlVars, ...textVars]),
-    ];
-
-    // Check which variables are missing in contact
-    const validVariables = [
-      'firstName',
-      'lastName',
-      'email',
-      'phone',
-      'company',
-      'jobTitle',
-      'website',
-      'city',
-      'state',
-      'country',
-      'department',
-      'industry',
-      'linkedin',
-      'twitter',
-      'facebook',
-      'companyDomain',
-      'companyWebsite',
-      'companyIndustry',
-      'companySize',
-      'companyRevenue',
-    ];
-
-    const missingVariables = allVariables.filter(
-      variable => !validVariables.includes(variable),
-    );
-
-    return {
-      isValid: missingVariables.length === 0,
-      missingVariables,
-    };
+  findMissingValues(contents: Array<string | null | undefined>, contact: Contact): string[] {
+    const missing = new Set<string>();
+    for (const content of contents) {
+      if (!content) continue;
+      this.renderForContact(content, contact).missing.forEach((variable) => missing.add(variable));
+    }
+    return Array.from(missing);
   }
 
   /**
    * Get a list of available variables for documentation
    */
   getAvailableVariables(): string[] {
-    return [
-      'firstName',
-      'lastName',
-      'email',
-      'phone',
-      'company',
-      'jobTitle',
-      'website',
-      'city',
-      'state',
-      'country',
-      'department',
-      'industry',
-      'linkedin',
-      'twitter',
-      'facebook',
-      'companyDomain',
-      'companyWebsite',
-      'companyIndustry',
-      'companySize',
-      'companyRevenue',
-    ];
+    return [...CONTACT_VARIABLE_FIELDS];
   }
-}
 
+  private isKnownVariable(variable: string): boolean {
+    return (
+      CONTACT_FIELDS_BY_LOWERCASE.has(variable.toLowerCase()) ||
+      (variable.startsWith(CUSTOM_FIELD_PREFIX) && variable.length > CUSTOM_FIELD_PREFIX.length)
+    );
+  }
+
+  private resolveContactValue(contact: Contact, path: string): unknown {
+    if (path.startsWith(CUSTOM_FIELD_PREFIX)) {
+      let customFields = contact.customFields;
+      if (typeof customFields === 'string') {
+        try {
+          customFields = JSON.parse(customFields);
+        } catch {
+          return undefined;
+        }
+      }
+      return customFields?.[path.slice(CUSTOM_FIELD_PREFIX.length)];
+    }
+
+    const field = CONTACT_FIELDS_BY_LOWERCASE.get(path.toLowerCase());
+    return field ? contact[field] : undefined;
+  }
+
+  private parse(content: string): TemplateNode[] {
+    const cached = this.templateCache.get(content);
+    if (cached) return cached;
+
+    const nodes = parseTemplate(content);
+    if (this.templateCache.size >= MAX_CACHED_TEMPLATES) {
+      this.templateCache.delete(this.templateCache.keys().next().value as string);
+    }
+    this.templateCache.set(content, nodes);
+    return nodes;
+  }
+}
@@ -3,19 +3,56 @@ import { ConfigService } from '@nestjs/config';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op, Sequelize } from 'sequelize';
 import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
-import { EmailTrackingEvent, EmailEventType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
+import {
+  DeviceType,
+  EmailTrackingEvent,
+  EmailEventType,
+  TrackingTrafficType,
+} from 'src/resources/campaigns/entities/email-tracking-event.entity';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
 import { CampaignsService } from 'src/resources/campaigns/campaigns.service';
+import { TrackingTokenPurpose, TrackingTokenService } from './tracking-token.service';
+import { ListUnsubscribeOptions } from '../utils/list-unsubscribe.util';
+import {
+  HONEYPOT_LINK_ID,
+  TrackingTrafficResult,
+  classifyTrackingTraffic,
+} from '../utils/tracking-traffic.util';
+import { parseUserAgent } from '../utils/user-agent.util';
+import { GeoIpService } from './geo-ip.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
+import { WebhookEvent } from 'src/resources/webhooks/entities/webhook-endpoint.entity';
+import * as crypto from 'crypto';
 
 export interface TrackingUrls {
   openPixelUrl: string;
   unsubscribeUrl: string;
-  clickBaseUrl: string;
 }
 
+export interface ResolvedClick {
+  emailMessageId: string;
+  linkId: string | null;
+  url: string;
+}
+
+/** Raw email message IDs used by links sent before tracking links were signed */
+const LEGACY_MESSAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Webhook events of recorded tracking events */
+const TRACKING_WEBHOOK_EVENTS: Partial<Record<EmailEventType, WebhookEvent>> = {
+  [EmailEventType.OPENED]: WebhookEvent.EMAIL_OPENED,
+  [EmailEventType.CLICKED]: WebhookEvent.EMAIL_CLICKED,
+  [EmailEventType.REPLIED]: WebhookEvent.EMAIL_REPLIED,
+  [EmailEventType.BOUNCED]: WebhookEvent.EMAIL_BOUNCED,
+  [EmailEventType.UNSUBSCRIBED]: WebhookEvent.CONTACT_UNSUBSCRIBED,
+};
+
+/** Prefix of the message IDs of test sends, which have no EmailMessage and record no events */
+export const TEST_SEND_MESSAGE_ID_PREFIX = 'test-';
+
 @Injectable()
 export class EmailTrackingService {
   private readonly logger = new Logger(EmailTrackingService.name);
@@ -34,18 +71,18 @@ export class EmailTrackingService {
     @Inject(forwardRef(() => CampaignsService))
     private readonly campaignsService: CampaignsService,
     private readonly configService: ConfigService,
+    private readonly trackingTokenService: TrackingTokenService,
+    private readonly geoIpService: GeoIpService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
   ) {}
 
   /**
-   * Generate tracking URLs for an email message
+   * Generate signed tracking URLs for an email message
    */
   generateTrackingUrls(emailMessageId: string): TrackingUrls {
-    const baseUrl = this.configService.get('APP_URL') || 'http://localhost:4000';
-    
     const urls = {
-      openPixelUrl: `${baseUrl}/api/v1/tracking/open/${emailMessageId}`,
-      unsubscribeUrl: `${baseUrl}/api/v1/tracking/unsubscribe/${emailMessageId}`,
-      clickBaseUrl: `${baseUrl}/api/v1/tracking/click/${emailMessageId}`,
+      openPixelUrl: `${this.getTrackingBaseUrl()}/open/${this.trackingTokenService.sign(emailMessageId, 'open')}`,
+      unsubscribeUrl: `${this.getTrackingBaseUrl()}/unsubscribe/${this.trackingTokenService.sign(emailMessageId, 'unsubscribe')}`,
     };
     
     this.logger.debug(`📧 Generated tracking URLs for email ${emailMessageId}:`, urls);
@@ -53,8 +90,57 @@ export class EmailTrackingService {
     return urls;
   }
 
+  /**
+   * List-Unsubscribe targets of an email: the signed one-click URL and a mailto to the sending mailbox
+   */
+  generateListUnsubscribe(emailMessageId: string, mailboxEmail: string): ListUnsubscribeOptions {
+    return {
+      url: `${this.getTrackingBaseUrl()}/unsubscribe/${this.trackingTokenService.sign(emailMessageId, 'unsubscribe')}`,
+      mailto: mailboxEmail,
+    };
+  }
+
+  /**
+   * Signed click URL of one link of an email
+   */
+  generateClickUrl(emailMessageId: string, linkId: string, url?: string): string {
+    return `${this.getTrackingBaseUrl()}/click/${this.trackingTokenService.sign(emailMessageId, 'click', linkId, url)}`;
+  }
+
+  /**
+   * Whether the message ID is the one of a test send
+   */
+  isTestSend(emailMessageId: string): boolean {
+    return emailMessageId.startsWith(TEST_SEND_MESSAGE_ID_PREFIX);
+  }
+
+  /**
+   * Stable ID of a link URL, the same in every email containing it
+   */
+  getLinkId(url: string): string {
+    return crypto.createHash('sha256').update(url).digest('hex').slice(0, 12);
+  }
+
+  private getTrackingBaseUrl(): string {
+    const baseUrl = this.configService.get('APP_URL') || 'http://localhost:4000';
+    return `${baseUrl}/api/v1/tracking`;
+  }
+
+  /**
+   * Rewrite a link for click tracking and remember its URL
+   */
+  private rewriteLink(url: string, emailMessageId: string, trackedLinks?: Record<string, string>): string {
+    const linkId = this.getLinkId(url);
+    if (trackedLinks) {
+      trackedLinks[linkId] = url;
+    }
+    // Test sends aren't stored, their tokens carry the destination
+    return this.generateClickUrl(emailMessageId, linkId, this.isTestSend(emailMessageId) ? url : undefined);
+  }
+
   /**
    * Inject tracking pixel and rewrite links in HTML
+   * @param trackedLinks Filled with the link ID -> URL of every rewritten link
    */
   injectTracking(
     htmlContent: string,
@@ -65,6 +151,7 @@ export class EmailTrackingService {
     addUnsubscribe: boolean = true,
     unsubscribeReplyEnabled: boolean = false,
     unsubscribeCustomMessage?: string,
+    trackedLinks?: Record<string, string>,
   ): string {
     const urls = this.generateTrackingUrls(emailMessageId);
     let trackedHtml = htmlContent;
@@ -81,9 +168,8 @@ export class EmailTrackingService {
             return match;
           }
           
-          // Encode the original URL
-          const encodedUrl = encodeURIComponent(url);
-          const trackingUrl = `${urls.clickBaseUrl}?url=${encodedUrl}`;
+          // Redirects go to the URL as the browser would follow it
+          const trackingUrl = this.rewriteLink(url.replace(/&amp;/g, '&'), emailMessageId, trackedLinks);
           this.logger.debug(`📧 Rewriting link: ${url} → ${trackingUrl}`);
           
           return `<a href="${trackingUrl}"${rest}>`;
@@ -125,6 +211,14 @@ export class EmailTrackingService {
       trackedHtml += customMessageFooter;
     }
 
+    // Hidden link humans can't see or click, scanners following every link give themselves away
+    if (trackClicks) {
+      const honeypotHtml = `<a href="${this.generateClickUrl(emailMessageId, HONEYPOT_LINK_ID)}" style="display:none !important;" aria-hidden="true" tabindex="-1"></a>`;
+      trackedHtml = trackedHtml.includes('</body>')
+        ? trackedHtml.replace('</body>', `${honeypotHtml}</body>`)
+        : trackedHtml + honeypotHtml;
+    }
+
     // Inject tracking pixel at the END (after signature)
     if (trackOpens) {
       const pixelHtml = `<img src="${urls.openPixelUrl}" width="1" height="1" style="display:none !important;" alt="" />`;
@@ -148,6 +242,7 @@ export class EmailTrackingService {
   /**
    * Inject click tracking into plain text content
    * Rewrites URLs to point to tracking redirect endpoint
+   * @param trackedLinks Filled with the link ID -> URL of every rewritten link
    */
   injectTextTracking(
     textContent: string,
@@ -157,6 +252,7 @@ export class EmailTrackingService {
     addUnsubscribe: boolean = true,
     unsubscribeReplyEnabled: boolean = false,
     unsubscribeCustomMessage?: string,
+    trackedLinks?: Record<string, string>,
   ): string {
     const urls = this.generateTrackingUrls(emailMessageId);
     let trackedText = textContent;
@@ -177,9 +273,7 @@ export class EmailTrackingService {
           // Ensure URL has protocol
           const fullUrl = match.startsWith('http') ? match : `https://${match}`;
           
-          // Encode the original URL
-          const encodedUrl = encodeURIComponent(fullUrl);
-          const trackingUrl = `${urls.clickBaseUrl}?url=${encodedUrl}`;
+          const trackingUrl = this.rewriteLink(fullUrl, emailMessageId, trackedLinks);
           this.logger.debug(`📧 Rewriting text URL: ${match} → ${trackingUrl}`);
           
           return trackingUrl;
@@ -259,6 +353,11 @@ export class EmailTrackingService {
       [key: string]: any; // Allow additional properties for event-specific data
     },
   ): Promise<void> {
+    if (this.isTestSend(emailMessageId)) {
+      this.logger.debug(`Ignoring ${eventType} event of test send ${emailMessageId}`);
+      return;
+    }
+
     try {
       this.logger.log(`📊 Recording ${eventType} event for email ${emailMessageId}`);
       
@@ -278,6 +377,16 @@ export class EmailTrackingService {
 
       this.logger.debug(`Found email message: ID=${emailMessage.id}, Status=${emailMessage.status}, Campaign=${emailMessage.campaignId}, Step=${emailMessage.campaignStepId}`);
 
+      // Tell human opens and clicks from prefetches, image proxies and link scanners
+      const traffic = eventType === EmailEventType.OPENED || eventType === EmailEventType.CLICKED
+        ? await this.classifyTraffic(emailMessage, eventType, eventData)
+        : null;
+      const isHuman = traffic?.type === TrackingTrafficType.HUMAN;
+      if (traffic && !isHuman) {
+        this.logger.debug(`${eventType} of email ${emailMessageId} classified as ${traffic.type}: ${traffic.reason}`);
+      }
+      const client = traffic ? this.describeClient(traffic.type, eventData?.userAgent, eventData?.ipAddress) : {};
+
       // CRITICAL: Check for duplicate events BEFORE creating to prevent multiple counts
       // For REPLIED and BOUNCED events with gmailMessageId, check by gmailMessageId
       // For OPENED, CLICKED, and UNSUBSCRIBED, check if event already exists for this email
@@ -297,7 +406,77 @@ export class EmailTrackingService {
           );
           return; // Skip creating duplicate event
         }
-      } else if (eventType === EmailEventType.OPENED || eventType === EmailEventType.CLICKED || eventType === EmailEventType.UNSUBSCRIBED) {
+      } else if (eventType === EmailEventType.CLICKED) {
+        // Keep one event per clicked link so follow-up steps can target a specific link,
+        // but only the first click of the email counts towards the aggregates
+        // A human click after a scanner's on the same link is still recorded
+        const existingClicks = await this.emailTrackingEventModel.findAll({
+          where: { emailMessageId, eventType },
+          attributes: ['clickedUrl', 'trafficType'],
+        });
+
+        if (existingClicks.some((click) =>
+          click.clickedUrl === (eventData?.clickedUrl ?? null) &&
+          (!isHuman || click.trafficType === TrackingTrafficType.HUMAN)
+        )) {
+          this.logger.warn(
+            `⚠️ Duplicate ${eventType} event detected for email ${emailMessageId} and link ${eventData?.clickedUrl}. Skipping creation to prevent duplicate counting.`,
+          );
+          return;
+        }
+
+        if (existingClicks.length > 0) {
+          await this.emailTrackingEventModel.create({
+            emailMessageId,
+            eventType,
+            clickedUrl: eventData?.clickedUrl,
+            linkId: eventData?.linkId,
+            userAgent: eventData?.userAgent,
+            ipAddress: eventData?.ipAddress,
+            ...client,
+            trafficType: traffic?.type,
+            eventData: {
+              ...(eventData?.clickedUrl && { clickedUrl: eventData.clickedUrl }),
+              ...(eventData?.linkId && { linkId: eventData.linkId }),
+              ...(traffic?.reason && { trafficReason: traffic.reason }),
+            },
+            occurredAt: new Date(),
+          });
+          if (isHuman && !emailMessage.humanClickedAt) {
+            await emailMessage.update({ humanClickedAt: new Date() });
+          }
+          this.logger.debug(`Recorded another click of email ${emailMessageId}, aggregates unchanged`);
+          return;
+        }
+      } else if (eventType === EmailEventType.OPENED) {
+        // Keep the first open, and the first human open when a machine opened the email before
+        const existingOpens = await this.emailTrackingEventModel.findAll({
+          where: { emailMessageId, eventType },
+          attributes: ['trafficType'],
+        });
+
+        if (existingOpens.length > 0) {
+          if (!isHuman || existingOpens.some((open) => open.trafficType === TrackingTrafficType.HUMAN)) {
+            this.logger.warn(
+              `⚠️ Duplicate ${eventType} event detected for email ${emailMessageId}. Skipping creation to prevent duplicate counting.`,
+            );
+            return;
+          }
+
+          await this.emailTrackingEventModel.create({
+            emailMessageId,
+            eventType,
+            userAgent: eventData?.userAgent,
+            ipAddress: eventData?.ipAddress,
+            ...client,
+            trafficType: traffic?.type,
+            occurredAt: new Date(),
+          });
+          await emailMessage.update({ humanOpenedAt: new Date() });
+          this.logger.debug(`Recorded first human open of email ${emailMessageId}, aggregates unchanged`);
+          return;
+        }
+      } else if (eventType === EmailEventType.UNSUBSCRIBED) {
         // Check if this event type already exists for this email message
         const existingEvent = await this.emailTrackingEventModel.findOne({
           where: {
@@ -322,13 +501,17 @@ export class EmailTrackingService {
         linkId: eventData?.linkId,
         userAgent: eventData?.userAgent,
         ipAddress: eventData?.ipAddress,
+        ...client,
         gmailMessageId: eventData?.gmailMessageId || null, // Store in dedicated column
+        trafficType: traffic?.type ?? null,
         eventData: eventData ? {
           ...(eventData.snippet && { snippet: eventData.snippet }),
           ...(eventData.clickedUrl && { clickedUrl: eventData.clickedUrl }),
           ...(eventData.linkId && { linkId: eventData.linkId }),
           ...(eventData.bounceReason && { bounceReason: eventData.bounceReason }),
           ...(eventData.bounceType && { bounceType: eventData.bounceType }),
+          ...(eventData.classification && { classification: eventData.classification }),
+          ...(traffic?.reason && { trafficReason: traffic.reason }),
         } : null,
         occurredAt: new Date(),
       });
@@ -345,6 +528,9 @@ export class EmailTrackingService {
             updateData.firstOpenedAt = new Date();
             updateData.openedAt = new Date();
           }
+          if (isHuman && !emailMessage.humanOpenedAt) {
+            updateData.humanOpenedAt = new Date();
+          }
           updateData.lastOpenedAt = new Date();
           break;
         
@@ -354,6 +540,9 @@ export class EmailTrackingService {
             updateData.firstClickedAt = new Date();
             updateData.clickedAt = new Date();
           }
+          if (isHuman && !emailMessage.humanClickedAt) {
+            updateData.humanClickedAt = new Date();
+          }
           updateData.lastClickedAt = new Date();
           break;
         
@@ -430,6 +619,20 @@ export class EmailTrackingService {
         }
       }
 
+      // Push the event to the organization's webhooks, repeated opens and clicks returned above
+      const webhookEvent = TRACKING_WEBHOOK_EVENTS[eventType];
+      if (webhookEvent) {
+        await this.webhookDispatcherService.dispatchEmailEvent(emailMessage, webhookEvent, {
+          occurredAt: event.occurredAt,
+          ...(traffic && { trafficType: traffic.type, ...client }),
+          ...(eventData?.clickedUrl && { clickedUrl: eventData.clickedUrl }),
+          ...(eventData?.classification && { classification: eventData.classification }),
+          ...(eventData?.snippet && { snippet: eventData.snippet }),
+          ...(eventData?.bounceType && { bounceType: eventData.bounceType }),
+          ...(eventData?.bounceReason && { bounceReason: eventData.bounceReason }),
+        });
+      }
+
       this.logger.log(`✅ Successfully recorded ${eventType} event for email ${emailMessageId}`);
     } catch (error) {
       const err = error as Error;
@@ -438,6 +641,66 @@ export class EmailTrackingService {
     }
   }
 
+  /**
+   * Device, email client and location of an open or click
+   * Prefetches and image proxies only tell the mailbox provider, scanners nothing about the reader.
+   */
+  private describeClient(
+    trafficType: TrackingTrafficType,
+    userAgent?: string,
+    ipAddress?: string,
+  ): Partial<Pick<EmailTrackingEvent, 'deviceType' | 'emailClient' | 'country' | 'city'>> {
+    const { deviceType, emailClient } = parseUserAgent(userAgent);
+    switch (trafficType) {
+      case TrackingTrafficType.HUMAN: {
+        const location = this.geoIpService.lookup(ipAddress);
+        return {
+          deviceType,
+          ...(emailClient && { emailClient }),
+          ...(location?.country && { country: location.country }),
+          ...(location?.city && { city: location.city }),
+        };
+      }
+      case TrackingTrafficType.MACHINE_OPEN:
+      case TrackingTrafficType.PROXY:
+        return { deviceType: DeviceType.UNKNOWN, ...(emailClient && { emailClient }) };
+      default:
+        return { deviceType: DeviceType.UNKNOWN };
+    }
+  }
+
+  /**
+   * Classify an open or click, clicks from an IP that followed the email's honeypot link are scanners
+   */
+  private async classifyTraffic(
+    emailMessage: EmailMessage,
+    eventType: EmailEventType.OPENED | EmailEventType.CLICKED,
+    eventData?: { linkId?: string; userAgent?: string; ipAddress?: string },
+  ): Promise<TrackingTrafficResult> {
+    let honeypotClickedFromIp = false;
+    if (eventType === EmailEventType.CLICKED && eventData?.ipAddress && eventData.linkId !== HONEYPOT_LINK_ID) {
+      honeypotClickedFromIp = !!(await this.emailTrackingEventModel.findOne({
+        where: {
+          emailMessageId: emailMessage.id,
+          eventType,
+          linkId: HONEYPOT_LINK_ID,
+          ipAddress: eventData.ipAddress,
+        },
+        attributes: ['id'],
+      }));
+    }
+
+    return classifyTrackingTraffic({
+      eventType,
+      userAgent: eventData?.userAgent,
+      ipAddress: eventData?.ipAddress,
+      sentAt: emailMessage.sentAt,
+      occurredAt: new Date(),
+      linkId: eventData?.linkId,
+      honeypotClickedFromIp,
+    });
+  }
+
   /**
    * Update step-level aggregates
    */
@@ -556,10 +819,101 @@ export class EmailTrackingService {
     }
   }
 
+  /**
+   * Email message of a signed open or unsubscribe token
+   * Raw message IDs are still accepted for emails sent before links were signed, within the token lifetime.
+   * @returns null for forged, expired or unknown tokens
+   */
+  async resolveTrackingToken(
+    token: string,
+    purpose: Exclude<TrackingTokenPurpose, 'click'>,
+  ): Promise<string | null> {
+    const payload = this.trackingTokenService.verify(token, purpose);
+    if (payload) {
+      return payload.emailMessageId;
+    }
+
+    const legacyMessage = await this.findLegacyMessage(token);
+    return legacyMessage ? legacyMessage.id : null;
+  }
+
+  /**
+   * Email message, link and destination of a click
+   * Signed tokens only redirect to links stored when the email was sent, or signed into the
+   * token of a test send. Legacy links
+   * (raw message ID and ?url=) only redirect to URLs found in the stored email content, and expire like
+   * signed tokens.
+   * @returns null when the click can't be trusted
+   */
+  async resolveClick(token: string, legacyUrl?: string): Promise<ResolvedClick | null> {
+    const payload = this.trackingTokenService.verify(token, 'click');
+    if (payload?.linkId === HONEYPOT_LINK_ID) {
+      // Recorded as a scanner click, the redirect goes to the app's home page
+      return { emailMessageId: payload.emailMessageId, linkId: HONEYPOT_LINK_ID, url: this.configService.get('APP_URL') || 'http://localhost:4000' };
+    }
+    if (payload && this.isTestSend(payload.emailMessageId)) {
+      return payload.url ? { emailMessageId: payload.emailMessageId, linkId: payload.linkId ?? null, url: payload.url } : null;
+    }
+    if (payload) {
+      const emailMessage = await this.emailMessageModel.findByPk(payload.emailMessageId, {
+        attributes: ['id', 'trackedLinks'],
+      });
+      const url = payload.linkId ? emailMessage?.trackedLinks?.[payload.linkId] : undefined;
+      if (!emailMessage || !url) {
+        this.logger.warn(`Click token for email ${payload.emailMessageId} references unknown link ${payload.linkId}`);
+        return null;
+      }
+      return { emailMessageId: emailMessage.id, linkId: payload.linkId!, url };
+    }
+
+    if (!legacyUrl) {
+      return null;
+    }
+    const legacyMessage = await this.findLegacyMessage(token, ['htmlContent', 'textContent']);
+    const content = `${legacyMessage?.htmlContent || ''}\n${legacyMessage?.textContent || ''}`.replace(/&amp;/g, '&');
+    if (!legacyMessage || !content.includes(legacyUrl)) {
+      return null;
+    }
+    return { emailMessageId: legacyMessage.id, linkId: null, url: legacyUrl };
+  }
+
+  /**
+   * Email message of a raw message ID link
+   * Raw IDs can be enumerated, so they only work for as long as a signed token would have.
+   */
+  private async findLegacyMessage(
+    emailMessageId: string,
+    attributes: Array<keyof EmailMessage> = [],
+  ): Promise<EmailMessage | null> {
+    if (!LEGACY_MESSAGE_ID_PATTERN.test(emailMessageId)) {
+      return null;
+    }
+    const emailMessage = await this.emailMessageModel.findByPk(emailMessageId, {
+      attributes: ['id', 'trackedLinks', 'sentAt', ...attributes],
+    });
+    // Emails with tracked links were sent with signed links only
+    if (!emailMessage || emailMessage.trackedLinks !== null || !emailMessage.sentAt) {
+      return null;
+    }
+
+    const oldestAcceptedSentAt = Date.now() - this.trackingTokenService.getTokenTtlDays() * 24 * 60 * 60 * 1000;
+    if (new Date(emailMessage.sentAt).getTime() < oldestAcceptedSentAt) {
+      this.logger.debug(`Rejected expired legacy tracking link for email ${emailMessageId}`);
+      return null;
+    }
+    return emailMessage;
+  }
+
   /**
    * Handle unsubscribe request
    */
   async handleUnsubscribe(emailMessageId: string): Promise<void> {
+    if (this.isTestSend(emailMessageId)) {
+      // Seed addresses of test sends aren't contacts
+      this.logger.debug(`Ignoring unsubscribe of test send ${emailMessageId}`);
+      return;
+    }
+
     try {
       this.logger.log(`🔔 Processing unsubscribe request for email ${emailMessageId}`);
       
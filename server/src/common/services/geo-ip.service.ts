@@ -0,0 +1,66 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CityResponse, Reader, open } from 'maxmind';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface GeoLocation {
+  /** ISO 3166-1 alpha-2 code */
+  country: string | null;
+  city: string | null;
+}
+
+const DEFAULT_DATABASE_PATH = 'geoip/GeoLite2-City.mmdb';
+
+/**
+ * Looks up the country and city of tracking event IPs in a local MaxMind database
+ * (GeoLite2/GeoIP2 City or Country, .mmdb), so no request leaves the server.
+ * Set GEOIP_DATABASE_PATH, defaults to geoip/GeoLite2-City.mmdb. Replacing the file
+ * reloads it without a restart. Without a database lookups return null.
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private reader: Reader<CityResponse> | null = null;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    const databasePath = path.resolve(this.configService.get('GEOIP_DATABASE_PATH') || DEFAULT_DATABASE_PATH);
+    if (!fs.existsSync(databasePath)) {
+      this.logger.warn(`GeoIP database not found at ${databasePath}, tracking events won't have a location`);
+      return;
+    }
+
+    try {
+      this.reader = await open<CityResponse>(databasePath, {
+        watchForUpdates: true,
+        watchForUpdatesNonPersistent: true,
+        watchForUpdatesHook: () => this.logger.log(`Reloaded GeoIP database ${databasePath}`),
+      });
+      this.logger.log(`Loaded GeoIP database ${databasePath}`);
+    } catch (error) {
+      this.logger.error(`Failed to load GeoIP database ${databasePath}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * @returns null for private, unknown or invalid addresses and when no database is loaded
+   */
+  lookup(ipAddress: string | null | undefined): GeoLocation | null {
+    const ip = (ipAddress || '').trim().replace(/^::ffff:/i, '');
+    if (!this.reader || !ip) {
+      return null;
+    }
+
+    try {
+      const result = this.reader.get(ip);
+      const country = result?.country?.iso_code || result?.registered_country?.iso_code || null;
+      const city = result?.city?.names?.en || null;
+      return country || city ? { country, city: city ? city.slice(0, 100) : null } : null;
+    } catch {
+      // Not an IP address
+      return null;
+    }
+  }
+}
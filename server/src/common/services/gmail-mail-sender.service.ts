@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { google } from 'googleapis';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  MailSendRequest,
+  MailSendResult,
+  MailSenderProvider,
+} from '../interfaces/mail-sender.interface';
+import { GmailService } from './gmail.service';
+import { CryptoUtilityService } from './crypto-utility.service';
+
+/**
+ * Gmail API delivery for mailboxes connected through Google OAuth
+ */
+@Injectable()
+export class GmailMailSenderService implements MailSenderProvider {
+  private readonly logger = new Logger(GmailMailSenderService.name);
+
+  constructor(
+    private readonly gmailService: GmailService,
+    private readonly cryptoUtilityService: CryptoUtilityService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async prepare(mailbox: GmailOAuthToken): Promise<void> {
+    await this.getAccessToken(mailbox);
+  }
+
+  async send(mailbox: GmailOAuthToken, request: MailSendRequest): Promise<MailSendResult> {
+    const accessToken = await this.getAccessToken(mailbox);
+    const result = await this.gmailService.sendEmail({ accessToken, ...request });
+
+    this.logger.log(
+      `📧 [GMAIL RESPONSE] Response: { id: "${result.id}", threadId: "${result.threadId}", ` +
+      `labelIds: [${result.labelIds?.join(', ') || 'none'}] }`
+    );
+
+    return { id: result.id, threadId: result.threadId };
+  }
+
+  async getMessageIdHeader(mailbox: GmailOAuthToken, messageId: string): Promise<string> {
+    const accessToken = await this.getAccessToken(mailbox);
+
+    const oauth2Client = new google.auth.OAuth2();
+    oauth2Client.setCredentials({
+      access_token: accessToken,
+    });
+
+    const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+    return this.gmailService.getRealMessageId(gmail, messageId);
+  }
+
+  isTemporaryError(error: any): boolean {
+    return this.gmailService.isTemporaryError(error);
+  }
+
+  getErrorCode(error: any): string {
+    return this.gmailService.getErrorCode(error);
+  }
+
+  /**
+   * Decrypt the access token, refreshing it first when expired
+   */
+  private async getAccessToken(mailbox: GmailOAuthToken): Promise<string> {
+    if (!mailbox.tokenExpiresAt || new Date(mailbox.tokenExpiresAt) > new Date()) {
+      return this.cryptoUtilityService.decrypt(mailbox.accessTokenEncrypted);
+    }
+
+    this.logger.log(`Token expired for mailbox ${mailbox.email}. Refreshing...`);
+
+    const refreshed = await this.gmailService.refreshAccessToken(
+      mailbox.refreshTokenEncrypted,
+      this.configService.get<string>('GOOGLE_CLIENT_ID'),
+      this.configService.get<string>('GOOGLE_CLIENT_SECRET'),
+    );
+
+    const expiresAt = new Date(Date.now() + refreshed.expiresIn * 1000);
+    const encryptedAccessToken = await this.cryptoUtilityService.encrypt(refreshed.accessToken);
+
+    await mailbox.update({
+      accessTokenEncrypted: encryptedAccessToken,
+      tokenExpiresAt: expiresAt,
+    });
+
+    this.logger.log(`Token refreshed for mailbox ${mailbox.email}`);
+    return refreshed.accessToken;
+  }
+}
@@ -1,6 +1,8 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { google } from 'googleapis';
 import { CryptoUtilityService } from './crypto-utility.service';
+import { ListUnsubscribeOptions, buildListUnsubscribeHeaders } from '../utils/list-unsubscribe.util';
+import { MessageAttachment, MessageContent } from '../interfaces/message-content.interface';
 
 export interface SendEmailParams {
   accessToken: string;
@@ -15,6 +17,7 @@ export interface SendEmailParams {
     references?: string; // References header value
     threadId?: string; // Gmail thread ID (for Thread-Id header)
   };
+  listUnsubscribe?: ListUnsubscribeOptions;
 }
 
 export interface GmailSendResult {
@@ -51,6 +54,7 @@ export class GmailService {
         params.fromName,
         params.text,
         params.threadHeaders,
+        params.listUnsubscribe,
       );
 
       // Send the email
@@ -82,6 +86,7 @@ export class GmailService {
         params.fromName,
         params.text,
         params.threadHeaders,
+        params.listUnsubscribe,
       );
       this.logger.log(`📧 [RAW MESSAGE] Complete message being sent:\n${rawMessage}`);
       this.logger.log(`📧 [ENCODED MESSAGE] Base64URL length: ${message.length} characters`);
@@ -238,6 +243,7 @@ export class GmailService {
       references?: string;
       threadId?: string;
     },
+    listUnsubscribe?: ListUnsubscribeOptions,
   ): string {
     const boundary = '----=_Part_' + Date.now();
     
@@ -280,6 +286,13 @@ export class GmailService {
       // Note: threadId is passed in requestBody, not as header (Gmail API requirement)
       // We don't add Thread-Id header - it's passed as threadId parameter in sendEmail
     }
+
+    // One-click unsubscribe headers (RFC 8058)
+    if (listUnsubscribe) {
+      for (const [name, value] of Object.entries(buildListUnsubscribeHeaders(listUnsubscribe))) {
+        headers.push(`${name}: ${value}`);
+      }
+    }
     
     // Determine content type based on what's provided
     const hasText = text && text.trim().length > 0;
@@ -416,6 +429,7 @@ export class GmailService {
       references?: string;
       threadId?: string;
     },
+    listUnsubscribe?: ListUnsubscribeOptions,
   ): string {
     const boundary = '----=_Part_' + Date.now();
     
@@ -441,6 +455,12 @@ export class GmailService {
         headers.push(`References: ${threadHeaders.references}`);
       }
     }
+
+    if (listUnsubscribe) {
+      for (const [name, value] of Object.entries(buildListUnsubscribeHeaders(listUnsubscribe))) {
+        headers.push(`${name}: ${value}`);
+      }
+    }
     
     let message = [
       ...headers,
@@ -687,6 +707,51 @@ export class GmailService {
     return body.trim();
   }
 
+  /**
+   * Get the full text and HTML bodies and the attachment metadata of a message (for the inbox)
+   */
+  extractMessageContent(payload: any): MessageContent {
+    const text: string[] = [];
+    const html: string[] = [];
+    const attachments: MessageAttachment[] = [];
+
+    const decode = (data: string): string | null => {
+      try {
+        return Buffer.from(data, 'base64').toString('utf-8');
+      } catch (e) {
+        return null; // Skip invalid base64
+      }
+    };
+
+    const extractPart = (part: any) => {
+      if (!part) return;
+
+      if (part.filename) {
+        attachments.push({
+          filename: part.filename,
+          mimeType: part.mimeType || 'application/octet-stream',
+          size: part.body?.size || 0,
+          attachmentId: part.body?.attachmentId || undefined,
+        });
+      } else if (part.body?.data && (part.mimeType === 'text/plain' || part.mimeType === 'text/html')) {
+        const decoded = decode(part.body.data);
+        if (decoded !== null) {
+          (part.mimeType === 'text/html' ? html : text).push(decoded);
+        }
+      }
+
+      (part.parts || []).forEach((subPart: any) => extractPart(subPart));
+    };
+
+    extractPart(payload);
+
+    return {
+      text: text.join('\n').trim(),
+      html: html.length > 0 ? html.join('\n') : null,
+      attachments,
+    };
+  }
+
   /**
    * Get Gmail thread by thread ID (for reply detection)
    */
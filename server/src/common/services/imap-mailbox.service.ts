@@ -0,0 +1,248 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { ImapFlow, MailboxLockObject } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { CryptoUtilityService } from './crypto-utility.service';
+import { MessageContent } from '../interfaces/message-content.interface';
+import { ReplyDetectionService } from './reply-detection.service';
+
+export interface ImapConnectionSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+}
+
+/**
+ * Inbound message in the shape used by Gmail reply/bounce detection
+ */
+export interface MailboxMessage {
+  id: string; // Message-ID header, recorded on tracking events to skip duplicates
+  payload: { mimeType: string; body: { data: string } };
+  headers: Array<{ name: string; value: string }>;
+  snippet: string;
+  internalDate: string; // Milliseconds since epoch
+  content?: MessageContent; // Full bodies and attachments, stored with the inbox conversation
+}
+
+/**
+ * IMAP Mailbox Service
+ * Polls the INBOX of SMTP mailboxes and feeds new messages to reply, bounce and unsubscribe detection
+ * Progress is tracked per mailbox with the last processed UID (reset when UIDVALIDITY changes)
+ */
+@Injectable()
+export class ImapMailboxService {
+  private readonly logger = new Logger(ImapMailboxService.name);
+
+  // First poll of a mailbox only looks this far back (same window as Gmail reply detection)
+  private readonly initialLookbackDays = 30;
+  // Messages handled per poll, the rest is picked up by the next run
+  private readonly batchSize = 200;
+
+  constructor(
+    @InjectModel(GmailOAuthToken)
+    private readonly gmailTokenModel: typeof GmailOAuthToken,
+    private readonly cryptoUtilityService: CryptoUtilityService,
+    private readonly replyDetectionService: ReplyDetectionService,
+  ) {}
+
+  /**
+   * Poll one mailbox for new replies and bounces
+   */
+  async pollMailbox(
+    mailboxId: string,
+  ): Promise<{ fetched: number; replies: number; bounces: number; unsubscribes: number }> {
+    const stats = { fetched: 0, replies: 0, bounces: 0, unsubscribes: 0 };
+
+    const mailbox = await this.gmailTokenModel.findOne({
+      where: {
+        id: mailboxId,
+        provider: MailboxProvider.SMTP,
+        status: GmailTokenStatus.ACTIVE,
+      },
+    });
+
+    if (!mailbox || !mailbox.imapHost || !mailbox.imapPort || !mailbox.mailboxPasswordEncrypted) {
+      this.logger.debug(`Mailbox ${mailboxId} is not an active SMTP mailbox with IMAP settings, skipping`);
+      return stats;
+    }
+
+    const client = this.createClient({
+      host: mailbox.imapHost,
+      port: mailbox.imapPort,
+      secure: mailbox.imapSecure,
+      username: mailbox.mailboxUsername || mailbox.email,
+      password: await this.cryptoUtilityService.decrypt(mailbox.mailboxPasswordEncrypted),
+    });
+
+    let lock: MailboxLockObject | null = null;
+
+    try {
+      await client.connect();
+      lock = await client.getMailboxLock('INBOX');
+
+      const uidValidity = client.mailbox ? client.mailbox.uidValidity.toString() : null;
+      const lastUid =
+        mailbox.imapUidValidity && mailbox.imapUidValidity === uidValidity ? mailbox.imapLastUid || 0 : 0;
+
+      const since = new Date();
+      since.setDate(since.getDate() - this.initialLookbackDays);
+
+      const found = await client.search(lastUid > 0 ? { uid: `${lastUid + 1}:*` } : { since }, { uid: true });
+      // "n:*" always matches the newest message, even when its UID is below n
+      const uids = (found || [])
+        .filter((uid) => uid > lastUid)
+        .sort((a, b) => a - b)
+        .slice(0, this.batchSize);
+
+      let processedUid = lastUid;
+      // Messages after a failed one wait for the next poll, so the failed one is retried first
+      let failedUid: number | null = null;
+
+      if (uids.length > 0) {
+        for await (const fetched of client.fetch(uids, { uid: true, source: true, internalDate: true }, { uid: true })) {
+          if (failedUid !== null) {
+            continue;
+          }
+          stats.fetched++;
+
+          try {
+            if (fetched.source) {
+              const message = await this.parseMessage(fetched.source, fetched.uid, mailbox.id, fetched.internalDate);
+              const outcome = await this.replyDetectionService.processMailboxMessage(message, mailbox.email);
+              if (outcome === 'reply') stats.replies++;
+              if (outcome === 'bounce') stats.bounces++;
+              if (outcome === 'unsubscribe') stats.unsubscribes++;
+            }
+          } catch (error) {
+            const err = error as Error;
+            failedUid = fetched.uid;
+            this.logger.warn(
+              `Error processing IMAP message ${fetched.uid} of ${mailbox.email}, retrying from it next poll: ${err.message}`,
+            );
+            continue;
+          }
+
+          processedUid = Math.max(processedUid, fetched.uid);
+        }
+      }
+
+      if (failedUid !== null) {
+        processedUid = Math.min(processedUid, failedUid - 1);
+      }
+
+      await mailbox.update({
+        imapUidValidity: uidValidity,
+        imapLastUid: processedUid || null,
+      });
+    } finally {
+      lock?.release();
+      if (client.usable) {
+        await client.logout();
+      } else {
+        client.close();
+      }
+    }
+
+    this.logger.log(
+      `📬 [IMAP] Polled ${mailbox.email}: fetched ${stats.fetched}, replies ${stats.replies}, ` +
+        `bounces ${stats.bounces}, unsubscribes ${stats.unsubscribes}`,
+    );
+
+    return stats;
+  }
+
+  /**
+   * Check that the IMAP server accepts the given credentials
+   * @throws Error with the server response when the connection or login fails
+   */
+  async verifyConnection(settings: ImapConnectionSettings): Promise<void> {
+    const client = this.createClient(settings);
+    await client.connect();
+    await client.logout();
+  }
+
+  /**
+   * Convert a raw RFC 822 message to the Gmail message shape used by reply and bounce detection
+   */
+  async parseMessage(
+    source: Buffer | string,
+    uid: number,
+    mailboxId: string,
+    internalDate?: Date | string,
+  ): Promise<MailboxMessage> {
+    const parsed = await simpleParser(source);
+
+    const headers = parsed.headerLines.map((header) => {
+      const separator = header.line.indexOf(':');
+      return {
+        name: this.normalizeHeaderName(header.line.substring(0, separator)),
+        value: header.line.substring(separator + 1).replace(/\r?\n\s+/g, ' ').trim(),
+      };
+    });
+
+    // Delivery status reports (DSN) carry the failed recipient in a message/delivery-status part
+    const deliveryStatus = parsed.attachments
+      .filter((attachment) => attachment.contentType === 'message/delivery-status')
+      .map((attachment) => attachment.content.toString('utf-8'))
+      .join('\n');
+
+    const text = [parsed.text || '', deliveryStatus].filter(Boolean).join('\n');
+    const receivedAt = new Date(internalDate || parsed.date || Date.now());
+
+    return {
+      id: parsed.messageId ? parsed.messageId.replace(/^</, '').replace(/>$/, '') : `imap-${mailboxId}-${uid}`,
+      payload: {
+        mimeType: 'text/plain',
+        body: { data: Buffer.from(text, 'utf-8').toString('base64') },
+      },
+      headers,
+      snippet: text.replace(/\s+/g, ' ').trim().substring(0, 200),
+      internalDate: receivedAt.getTime().toString(),
+      content: {
+        text: parsed.text || '',
+        html: parsed.html || null,
+        attachments: parsed.attachments
+          .filter((attachment) => attachment.contentType !== 'message/delivery-status')
+          .map((attachment) => ({
+            filename: attachment.filename || 'attachment',
+            mimeType: attachment.contentType,
+            size: attachment.size,
+          })),
+      },
+    };
+  }
+
+  private createClient(settings: ImapConnectionSettings): ImapFlow {
+    return new ImapFlow({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: {
+        user: settings.username,
+        pass: settings.password,
+      },
+      logger: false,
+      disableAutoIdle: true,
+    });
+  }
+
+  /**
+   * Canonical header case ("in-reply-to" → "In-Reply-To"), detection looks headers up by exact name
+   */
+  private normalizeHeaderName(name: string): string {
+    const normalized = name
+      .trim()
+      .toLowerCase()
+      .split('-')
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join('-');
+    return normalized === 'Message-Id' ? 'Message-ID' : normalized;
+  }
+}
@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+import { ReplyClassification } from 'src/resources/campaigns/entities/email-message.entity';
+import {
+  ReplyClassificationInput,
+  ReplyClassificationResult,
+  ReplyClassifier,
+} from '../interfaces/reply-classifier.interface';
+import { extractReturnDate } from '../utils/return-date.util';
+
+const OUT_OF_OFFICE_PHRASES = [
+  'out of office',
+  'out of the office',
+  'out-of-office',
+  'ooo',
+  'on vacation',
+  'on holiday',
+  'on annual leave',
+  'on leave',
+  'parental leave',
+  'maternity leave',
+  'paternity leave',
+  'away from the office',
+  'away from my desk',
+  'currently away',
+  'limited access to email',
+  'limited access to my email',
+  'no access to email',
+];
+
+const AUTO_REPLY_SUBJECT_PREFIXES = ['automatic reply', 'auto reply', 'auto-reply', 'autoreply', 'auto:', 'out of office'];
+
+// Checked before INTERESTED_PHRASES, "not interested" contains "interested"
+const NOT_INTERESTED_PHRASES = [
+  'not interested',
+  'no interest',
+  'no thanks',
+  'no thank you',
+  'not for us',
+  'not a fit',
+  'not a good fit',
+  'not looking',
+  'not at this time',
+  'we are all set',
+  "we're all set",
+  'remove me',
+  'take me off',
+  'unsubscribe',
+  'stop emailing',
+  'stop contacting',
+  'do not contact',
+  "don't contact",
+  'do not email',
+  "don't email",
+  'please stop',
+];
+
+const WRONG_PERSON_PHRASES = [
+  'wrong person',
+  'not the right person',
+  'not the best person',
+  'no longer with',
+  'no longer work',
+  'left the company',
+  'not responsible for',
+  'not in charge of',
+  'you should contact',
+  'you should reach out',
+  'better to contact',
+  'please contact my colleague',
+  'forwarded your email',
+];
+
+const INTERESTED_PHRASES = [
+  'interested',
+  'sounds good',
+  'sounds great',
+  "let's talk",
+  'lets talk',
+  "let's chat",
+  'happy to chat',
+  'happy to talk',
+  'set up a call',
+  'schedule a call',
+  'book a call',
+  'hop on a call',
+  'jump on a call',
+  'send me more',
+  'tell me more',
+  'more info',
+  'more information',
+  'send over',
+  'pricing',
+  'demo',
+  'calendar',
+  'what times work',
+  'when are you available',
+];
+
+/**
+ * Rule-based reply classifier, works offline
+ * Auto-reply headers (Auto-Submitted, X-Autoreply, Precedence) and phrases in the
+ * subject and body decide the label. Always returns a result, NEUTRAL when nothing matches.
+ */
+@Injectable()
+export class KeywordReplyClassifier implements ReplyClassifier {
+  readonly name = 'keyword';
+
+  async classify(input: ReplyClassificationInput): Promise<ReplyClassificationResult> {
+    const subject = (input.subject || '').toLowerCase();
+    const text = (input.text || '').toLowerCase();
+    const content = `${subject}\n${text}`;
+
+    const automatic = this.isAutomaticReply(input.headers, subject);
+    if (this.containsAny(content, OUT_OF_OFFICE_PHRASES)) {
+      return this.result(ReplyClassification.OUT_OF_OFFICE, automatic ? 0.95 : 0.8, {
+        returnDate: extractReturnDate(input.text || '', input.receivedAt),
+      });
+    }
+    if (automatic) {
+      return this.result(ReplyClassification.AUTO_REPLY, 0.9);
+    }
+
+    if (this.containsAny(content, NOT_INTERESTED_PHRASES)) {
+      return this.result(ReplyClassification.NOT_INTERESTED, 0.8);
+    }
+    if (this.containsAny(content, WRONG_PERSON_PHRASES)) {
+      return this.result(ReplyClassification.WRONG_PERSON, 0.75);
+    }
+    if (this.containsAny(content, INTERESTED_PHRASES)) {
+      return this.result(ReplyClassification.INTERESTED, 0.7);
+    }
+    return this.result(ReplyClassification.NEUTRAL, 0.5);
+  }
+
+  /**
+   * RFC 3834 Auto-Submitted, the de facto X-Autoreply/X-Autorespond headers, and auto-reply subjects
+   */
+  isAutomaticReply(headers: Array<{ name: string; value: string }>, subject: string): boolean {
+    const autoSubmitted = this.getHeader(headers, 'Auto-Submitted');
+    if (autoSubmitted && autoSubmitted.trim().toLowerCase() !== 'no') {
+      return true;
+    }
+    if (this.getHeader(headers, 'X-Autoreply') || this.getHeader(headers, 'X-Autorespond')) {
+      return true;
+    }
+    const precedence = this.getHeader(headers, 'Precedence')?.trim().toLowerCase();
+    if (precedence === 'auto_reply') {
+      return true;
+    }
+    return AUTO_REPLY_SUBJECT_PREFIXES.some((prefix) => subject.trim().startsWith(prefix));
+  }
+
+  private containsAny(content: string, phrases: string[]): boolean {
+    return phrases.some((phrase) => new RegExp(`(^|[^a-z])${this.escape(phrase)}($|[^a-z])`).test(content));
+  }
+
+  private escape(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  private result(
+    classification: ReplyClassification,
+    confidence: number,
+    extra: Partial<ReplyClassificationResult> = {},
+  ): ReplyClassificationResult {
+    return { classification, confidence, classifier: this.name, ...extra };
+  }
+
+  private getHeader(headers: Array<{ name: string; value: string }>, name: string): string | null {
+    const header = headers.find((h) => h.name.toLowerCase() === name.toLowerCase());
+    return header?.value || null;
+  }
+}
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { MailSenderProvider } from '../interfaces/mail-sender.interface';
+import { GmailMailSenderService } from './gmail-mail-sender.service';
+import { SmtpMailSenderService } from './smtp-mail-sender.service';
+
+/**
+ * Resolves the delivery backend of a mailbox
+ */
+@Injectable()
+export class MailSenderService {
+  constructor(
+    private readonly gmailMailSenderService: GmailMailSenderService,
+    private readonly smtpMailSenderService: SmtpMailSenderService,
+  ) {}
+
+  forMailbox(mailbox: Pick<GmailOAuthToken, 'provider'>): MailSenderProvider {
+    switch (mailbox.provider) {
+      case MailboxProvider.SMTP:
+        return this.smtpMailSenderService;
+      case MailboxProvider.GMAIL:
+      default:
+        return this.gmailMailSenderService;
+    }
+  }
+}
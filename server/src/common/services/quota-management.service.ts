@@ -3,6 +3,12 @@ import { InjectModel } from '@nestjs/sequelize';
 import { Subscription } from 'src/resources/subscriptions/entities/subscription.entity';
 import { SubscriptionPlan } from 'src/resources/subscriptions/entities/subscription-plan.entity';
 import { User } from 'src/resources/users/entities/user.entity';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  getRampUpDailyLimit,
+  getRampUpProgress,
+  MailboxRampUpProgress,
+} from '../utils/mailbox-ramp-up.util';
 import { Op } from 'sequelize';
 
 @Injectable()
@@ -103,6 +109,33 @@ export class QuotaManagementService {
     }
   }
 
+  /**
+   * Get the daily email limit of a mailbox: the plan limit of the user who connected it,
+   * lowered by the mailbox's ramp-up schedule while it warms up
+   * @param token Mailbox (only userId and rampUp are read)
+   * @param date Day to get the limit for (defaults to today)
+   */
+  async getMailboxDailyLimit(
+    token: Pick<GmailOAuthToken, 'userId' | 'rampUp'>,
+    date: Date = new Date(),
+  ): Promise<number> {
+    const planDailyLimit = await this.getDailyEmailLimit(token.userId);
+    return getRampUpDailyLimit(token.rampUp, planDailyLimit, date);
+  }
+
+  /**
+   * Get ramp-up progress of a mailbox, null when it sends at the plan limit without a schedule
+   */
+  async getMailboxRampUpProgress(
+    token: Pick<GmailOAuthToken, 'userId' | 'rampUp'>,
+  ): Promise<MailboxRampUpProgress | null> {
+    if (!token.rampUp) {
+      return null;
+    }
+    const planDailyLimit = await this.getDailyEmailLimit(token.userId);
+    return getRampUpProgress(token.rampUp, planDailyLimit);
+  }
+
   /**
    * Clear cache for a user and/or organization
    * @param userId Optional user ID
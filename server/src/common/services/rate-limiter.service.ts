@@ -1,10 +1,21 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
 import { Op } from 'sequelize';
 import { getMidnightInTimezone, formatDateInTimezone } from '../utils/timezone.util';
 import { QuotaManagementService } from './quota-management.service';
+import { getRampUpDailyLimit } from '../utils/mailbox-ramp-up.util';
+
+/**
+ * Middle of a day, used to look up the ramp-up limit of a day whose bounds are in a step timezone
+ */
+function getDayMidpoint(dayStart: Date, dayEnd: Date): Date {
+  return new Date((dayStart.getTime() + dayEnd.getTime()) / 2);
+}
 
 @Injectable()
 export class RateLimiterService {
@@ -29,6 +40,7 @@ export class RateLimiterService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -38,6 +50,26 @@ export class RateLimiterService {
         return false;
       }
 
+      return this.checkSenderQuota(token);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `Error checking quota for user ${userId}: ${err.message}`,
+        err.stack,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Check if a specific mailbox has quota remaining (used by sender rotation)
+   * The limit comes from the subscription plan of the user who connected the mailbox,
+   * lowered by the mailbox's ramp-up schedule
+   * @param token Active Gmail token of the sending mailbox
+   * @returns true if the mailbox can send, false if quota exceeded
+   */
+  async checkSenderQuota(token: GmailOAuthToken): Promise<boolean> {
+    try {
       // Check if quota needs reset (new day)
       const now = new Date();
       const quotaResetAt = new Date(token.quotaResetAt);
@@ -45,22 +77,22 @@ export class RateLimiterService {
       if (now >= quotaResetAt) {
         // Reset quota for new day
         this.logger.debug(
-          `Quota reset needed for user ${userId}: ` +
+          `Quota reset needed for mailbox ${token.email}: ` +
           `now=${now.toISOString()}, quotaResetAt=${quotaResetAt.toISOString()}`
         );
-        await this.resetUserQuota(userId);
+        await this.resetTokenQuota(token);
         return true;
       }
 
-      // Get dynamic daily limit from subscription plan
-      const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+      // Get dynamic daily limit from subscription plan and ramp-up schedule
+      const dailyLimit = await this.quotaManagementService.getMailboxDailyLimit(token);
 
       // Check if under limit
       const canSend = token.dailyQuotaUsed < dailyLimit;
 
       if (!canSend) {
         this.logger.warn(
-          `Daily quota exceeded for user ${userId}: ${token.dailyQuotaUsed}/${dailyLimit}`,
+          `Daily quota exceeded for mailbox ${token.email} (user ${token.userId}): ${token.dailyQuotaUsed}/${dailyLimit}`,
         );
       }
 
@@ -68,7 +100,7 @@ export class RateLimiterService {
     } catch (error) {
       const err = error as Error;
       this.logger.error(
-        `Error checking quota for user ${userId}: ${err.message}`,
+        `Error checking quota for mailbox ${token.email}: ${err.message}`,
         err.stack,
       );
       return false;
@@ -84,6 +116,7 @@ export class RateLimiterService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -93,23 +126,39 @@ export class RateLimiterService {
         return;
       }
 
+      await this.incrementSenderQuota(token);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `Error incrementing quota for user ${userId}: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  /**
+   * Increment the quota used counter for a specific mailbox
+   * @param token Gmail token of the mailbox that just sent an email
+   */
+  async incrementSenderQuota(token: GmailOAuthToken): Promise<void> {
+    try {
       // Check if quota needs reset before incrementing
       const now = new Date();
       const quotaResetAt = new Date(token.quotaResetAt);
       if (now >= quotaResetAt) {
         // Reset quota first
-        await this.resetUserQuota(userId);
+        await this.resetTokenQuota(token);
         // Reload token after reset
         await token.reload();
       }
 
       // Get dynamic daily limit for validation
-      const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
-      
+      const dailyLimit = await this.quotaManagementService.getMailboxDailyLimit(token);
+
       // Validate: prevent quota from exceeding limit
       if (token.dailyQuotaUsed >= dailyLimit) {
         this.logger.warn(
-          `⚠️ Quota already at limit for user ${userId}: ${token.dailyQuotaUsed}/${dailyLimit}. Skipping increment.`,
+          `⚠️ Quota already at limit for mailbox ${token.email}: ${token.dailyQuotaUsed}/${dailyLimit}. Skipping increment.`,
         );
         return;
       }
@@ -119,14 +168,14 @@ export class RateLimiterService {
 
       // Reload to get updated value
       await token.reload();
-      
+
       this.logger.debug(
-        `Quota incremented for user ${userId}: ${token.dailyQuotaUsed}/${dailyLimit}`,
+        `Quota incremented for mailbox ${token.email} (user ${token.userId}): ${token.dailyQuotaUsed}/${dailyLimit}`,
       );
     } catch (error) {
       const err = error as Error;
       this.logger.error(
-        `Error incrementing quota for user ${userId}: ${err.message}`,
+        `Error incrementing quota for mailbox ${token.email}: ${err.message}`,
         err.stack,
       );
     }
@@ -141,6 +190,7 @@ export class RateLimiterService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -150,23 +200,7 @@ export class RateLimiterService {
         return;
       }
 
-      // Log before reset for debugging
-      const oldQuotaUsed = token.dailyQuotaUsed;
-      
-      // Reset to UTC midnight (global reset)
-      const nextReset = new Date();
-      nextReset.setUTCDate(nextReset.getUTCDate() + 1);
-      nextReset.setUTCHours(0, 0, 0, 0);
-
-      await token.update({
-        dailyQuotaUsed: 0,
-        quotaResetAt: nextReset,
-      });
-
-      this.logger.log(
-        `✅ Quota reset for user ${userId}: ${oldQuotaUsed} → 0. ` +
-        `Next reset: ${nextReset.toISOString()} (UTC midnight)`
-      );
+      await this.resetTokenQuota(token);
     } catch (error) {
       const err = error as Error;
       this.logger.error(
@@ -176,6 +210,28 @@ export class RateLimiterService {
     }
   }
 
+  /**
+   * Reset quota for a single mailbox to the next UTC midnight
+   */
+  private async resetTokenQuota(token: GmailOAuthToken): Promise<void> {
+    // Log before reset for debugging
+    const oldQuotaUsed = token.dailyQuotaUsed;
+
+    // Reset to UTC midnight (global reset)
+    const nextReset = new Date();
+    nextReset.setUTCDate(nextReset.getUTCDate() + 1);
+    nextReset.setUTCHours(0, 0, 0, 0);
+
+    await token.update({
+      dailyQuotaUsed: 0,
+      quotaResetAt: nextReset,
+    });
+
+    this.logger.log(
+      `✅ Quota reset for mailbox ${token.email} (user ${token.userId}): ${oldQuotaUsed} → 0. ` +
+      `Next reset: ${nextReset.toISOString()} (UTC midnight)`
+    );
+  }
   /**
    * Reset all user quotas (called by cron job at midnight IST)
    */
@@ -241,6 +297,7 @@ export class RateLimiterService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -253,8 +310,8 @@ export class RateLimiterService {
       const now = new Date();
       const quotaResetAt = new Date(token.quotaResetAt);
 
-      // Get dynamic daily limit from subscription plan
-      const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+      // Get dynamic daily limit from subscription plan and ramp-up schedule
+      const dailyLimit = await this.quotaManagementService.getMailboxDailyLimit(token);
 
       if (now >= quotaResetAt) {
         return dailyLimit;
@@ -291,12 +348,15 @@ export class RateLimiterService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
 
-      // Get dynamic daily limit from subscription plan
-      const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+      // Get dynamic daily limit from subscription plan, ramped for the target day
+      const dailyLimit = token
+        ? await this.quotaManagementService.getMailboxDailyLimit(token, targetDate ?? new Date())
+        : await this.quotaManagementService.getDailyEmailLimit(userId);
       this.logger.log(
         `📈 [QUOTA-STATS] Daily limit: ${dailyLimit}, token found: ${token ? 'yes' : 'no'}`
       );
@@ -567,8 +627,8 @@ export class RateLimiterService {
     
     const quotaMap = new Map<number, number>();
     // Get dynamic daily limit from subscription plan
-    const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
-    this.logger.log(`🔍 [QUOTA-CALC] Daily limit fetched: ${dailyLimit} emails/day`);
+    const planDailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+    this.logger.log(`🔍 [QUOTA-CALC] Daily limit fetched: ${planDailyLimit} emails/day`);
     
     // Calculate date range using step timezone
     const rangeStart = getMidnightInTimezone(startDay, timezone);
@@ -582,31 +642,32 @@ export class RateLimiterService {
     const todayEnd = getMidnightInTimezone(1, timezone);
     const includesToday = startDay <= 0 && endDay >= 0;
     
-    // Get token for today's quota usage
+    // Get token for today's quota usage and the ramp-up schedule of every day
     let todayQuotaUsed = 0;
+    let token: GmailOAuthToken | null = null;
+    try {
+      token = await this.gmailTokenModel.findOne({
+        where: { userId, provider: MailboxProvider.GMAIL, status: 'ACTIVE' },
+      });
+    } catch (error) {
+      this.logger.warn(`Error getting token for user ${userId}: ${error}`);
+    }
     if (includesToday) {
-      try {
-        const token = await this.gmailTokenModel.findOne({
-          where: { userId, status: 'ACTIVE' },
-        });
-        if (token) {
-          const now = new Date();
-          const quotaResetAt = new Date(token.quotaResetAt);
-          if (now < quotaResetAt) {
-            todayQuotaUsed = token.dailyQuotaUsed;
-            this.logger.log(
-              `🔍 [QUOTA-CALC] Token found: dailyQuotaUsed=${todayQuotaUsed}, quotaResetAt=${quotaResetAt.toISOString()}`
-            );
-          } else {
-            this.logger.log(
-              `🔍 [QUOTA-CALC] Token found but quota reset time passed: quotaResetAt=${quotaResetAt.toISOString()}, now=${now.toISOString()}`
-            );
-          }
+      if (token) {
+        const now = new Date();
+        const quotaResetAt = new Date(token.quotaResetAt);
+        if (now < quotaResetAt) {
+          todayQuotaUsed = token.dailyQuotaUsed;
+          this.logger.log(
+            `🔍 [QUOTA-CALC] Token found: dailyQuotaUsed=${todayQuotaUsed}, quotaResetAt=${quotaResetAt.toISOString()}`
+          );
         } else {
-          this.logger.log(`🔍 [QUOTA-CALC] No active token found for user ${userId}`);
+          this.logger.log(
+            `🔍 [QUOTA-CALC] Token found but quota reset time passed: quotaResetAt=${quotaResetAt.toISOString()}, now=${now.toISOString()}`
+          );
         }
-      } catch (error) {
-        this.logger.warn(`Error getting token for user ${userId}: ${error}`);
+      } else {
+        this.logger.log(`🔍 [QUOTA-CALC] No active token found for user ${userId}`);
       }
     }
     
@@ -722,6 +783,8 @@ export class RateLimiterService {
         );
       }
       
+      // The mailbox's ramp-up schedule raises the limit day by day until it reaches the plan limit
+      const dailyLimit = getRampUpDailyLimit(token?.rampUp, planDailyLimit, getDayMidpoint(dayStart, dayEnd));
       const remaining = Math.max(0, dailyLimit - scheduledCount);
       quotaMap.set(day, remaining);
       
@@ -740,6 +803,138 @@ export class RateLimiterService {
     return quotaMap;
   }
 
+  /**
+   * Get the daily limit of a user's Gmail mailbox for today, lowered by its ramp-up schedule
+   * Falls back to the plan limit when the user has no active Gmail mailbox
+   * @param userId User ID who owns the Gmail account
+   */
+  async getUserDailyLimit(userId: string): Promise<number> {
+    const token = await this.gmailTokenModel.findOne({
+      where: { userId, provider: MailboxProvider.GMAIL, status: 'ACTIVE' },
+      attributes: ['id', 'userId', 'rampUp'],
+    });
+
+    return token
+      ? this.quotaManagementService.getMailboxDailyLimit(token)
+      : this.quotaManagementService.getDailyEmailLimit(userId);
+  }
+
+  /**
+   * Get the combined daily limit of a campaign sender pool
+   * Each mailbox contributes the daily limit of the user who connected it, ramped for today
+   * @param tokenIds Gmail token IDs in the pool
+   */
+  async getSenderPoolDailyLimit(tokenIds: string[]): Promise<number> {
+    const tokens = await this.gmailTokenModel.findAll({
+      where: { id: { [Op.in]: tokenIds }, status: 'ACTIVE' },
+      attributes: ['id', 'userId', 'rampUp'],
+    });
+
+    const limits = await Promise.all(
+      tokens.map((token) => this.quotaManagementService.getMailboxDailyLimit(token)),
+    );
+
+    return limits.reduce((sum, limit) => sum + limit, 0);
+  }
+
+  /**
+   * Get remaining quota for multiple days across a sender pool
+   * Same accounting as getRemainingQuotaForDays, but per mailbox (emails are attributed by
+   * sentFromEmail) and summed, so a rotating campaign can use every mailbox's daily limit
+   * @param tokenIds Gmail token IDs in the pool
+   * @param startDay Start day offset (0 = today, 1 = tomorrow, etc.)
+   * @param endDay End day offset (inclusive)
+   * @returns Map of day offset to remaining pool quota
+   */
+  async getRemainingQuotaForSenderPool(
+    tokenIds: string[],
+    startDay: number,
+    endDay: number,
+    timezone: string = 'UTC',
+  ): Promise<Map<number, number>> {
+    const quotaMap = new Map<number, number>();
+    for (let day = startDay; day <= endDay; day++) {
+      quotaMap.set(day, 0);
+    }
+
+    const tokens = await this.gmailTokenModel.findAll({
+      where: { id: { [Op.in]: tokenIds }, status: 'ACTIVE' },
+    });
+
+    if (tokens.length === 0) {
+      this.logger.warn(`🔍 [QUOTA-CALC] No active mailboxes found in sender pool [${tokenIds.join(', ')}]`);
+      return quotaMap;
+    }
+
+    const rangeStart = getMidnightInTimezone(startDay, timezone);
+    const rangeEnd = getMidnightInTimezone(endDay + 1, timezone);
+
+    // Single query for every mailbox in the pool
+    const scheduledEmails = await this.emailMessageModel.findAll({
+      where: {
+        sentFromEmail: { [Op.in]: tokens.map((token) => token.email) },
+        scheduledSendAt: {
+          [Op.gte]: rangeStart,
+          [Op.lt]: rangeEnd,
+        },
+        status: {
+          [Op.in]: [
+            EmailMessageStatus.QUEUED,
+            EmailMessageStatus.SENDING,
+            EmailMessageStatus.SENT,
+            EmailMessageStatus.DELIVERED,
+            EmailMessageStatus.BOUNCED,
+            EmailMessageStatus.FAILED,
+          ],
+        },
+      },
+      attributes: ['sentFromEmail', 'scheduledSendAt', 'status'],
+      raw: true,
+    });
+
+    const now = new Date();
+
+    for (const token of tokens) {
+      const planDailyLimit = await this.quotaManagementService.getDailyEmailLimit(token.userId);
+      const todayQuotaUsed = now < new Date(token.quotaResetAt) ? token.dailyQuotaUsed : 0;
+      const mailboxEmails = scheduledEmails.filter((email: any) => email.sentFromEmail === token.email);
+
+      for (let day = startDay; day <= endDay; day++) {
+        const dayStart = getMidnightInTimezone(day, timezone);
+        const dayEnd = getMidnightInTimezone(day + 1, timezone);
+
+        let scheduledCount = 0;
+        for (const email of mailboxEmails) {
+          const sendAt = new Date(email.scheduledSendAt);
+          if (sendAt < dayStart || sendAt >= dayEnd) continue;
+
+          // For today, SENT/DELIVERED are already in dailyQuotaUsed
+          if (
+            day === 0 &&
+            (email.status === EmailMessageStatus.SENT || email.status === EmailMessageStatus.DELIVERED)
+          ) {
+            continue;
+          }
+          scheduledCount++;
+        }
+
+        if (day === 0) {
+          scheduledCount += todayQuotaUsed;
+        }
+
+        const dailyLimit = getRampUpDailyLimit(token.rampUp, planDailyLimit, getDayMidpoint(dayStart, dayEnd));
+        quotaMap.set(day, (quotaMap.get(day) ?? 0) + Math.max(0, dailyLimit - scheduledCount));
+      }
+    }
+
+    this.logger.log(
+      `🔍 [QUOTA-CALC] getRemainingQuotaForSenderPool completed for ${tokens.length} mailbox(es). ` +
+      `Quota map: ${JSON.stringify(Array.from(quotaMap.entries()))}`
+    );
+
+    return quotaMap;
+  }
+
   /**
    * Get remaining quota for a specific day, considering already scheduled emails
    * @param userId User ID to check
@@ -753,8 +948,17 @@ export class RateLimiterService {
     dayEnd: Date,
   ): Promise<number> {
     try {
-      // Get dynamic daily limit from subscription plan
-      const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+      const token = await this.gmailTokenModel.findOne({
+        where: {
+          userId,
+          provider: MailboxProvider.GMAIL,
+          status: 'ACTIVE',
+        },
+      });
+
+      // Get dynamic daily limit from subscription plan, ramped for the day
+      const planDailyLimit = await this.quotaManagementService.getDailyEmailLimit(userId);
+      const dailyLimit = getRampUpDailyLimit(token?.rampUp, planDailyLimit, getDayMidpoint(dayStart, dayEnd));
       
       // Check if this is today (day 0) - using UTC for comparison
       const todayStart = getMidnightInTimezone(0, 'UTC');
@@ -765,13 +969,6 @@ export class RateLimiterService {
       
       if (isToday) {
         // For today: count emails already sent + emails already scheduled
-        const token = await this.gmailTokenModel.findOne({
-          where: {
-            userId,
-            status: 'ACTIVE',
-          },
-        });
-        
         const sentToday = token ? token.dailyQuotaUsed : 0;
         
         // Count emails already scheduled for today (from database)
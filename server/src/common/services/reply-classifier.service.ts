@@ -0,0 +1,69 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  ReplyClassificationInput,
+  ReplyClassificationResult,
+  ReplyClassifier,
+} from '../interfaces/reply-classifier.interface';
+import { KeywordReplyClassifier } from './keyword-reply-classifier.service';
+
+/** Lines starting the quoted original in a reply ("On Mon, Jan 5, 2026 at 10:00 Jane <jane@acme.com> wrote:") */
+const QUOTE_HEADER_PATTERNS = [
+  /^on\s.+wrote:\s*$/i,
+  /^-{2,}\s*original message\s*-{2,}/i,
+  /^from:\s.+/i,
+  /^_{10,}\s*$/,
+];
+
+/**
+ * Reply Classifier Service
+ * Labels replies with the registered classifiers, the keyword classifier is the fallback.
+ * Other classifiers (e.g. a model) are registered with registerClassifier and tried first.
+ */
+@Injectable()
+export class ReplyClassifierService {
+  private readonly logger = new Logger(ReplyClassifierService.name);
+  private readonly classifiers: ReplyClassifier[] = [];
+
+  constructor(private readonly keywordReplyClassifier: KeywordReplyClassifier) {}
+
+  registerClassifier(classifier: ReplyClassifier): void {
+    this.classifiers.push(classifier);
+    this.logger.log(`Registered reply classifier "${classifier.name}"`);
+  }
+
+  async classify(input: ReplyClassificationInput): Promise<ReplyClassificationResult> {
+    const prepared = { ...input, text: this.stripQuotedText(input.text || '') };
+
+    for (const classifier of this.classifiers) {
+      try {
+        const result = await classifier.classify(prepared);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(`Reply classifier "${classifier.name}" failed, trying the next one: ${err.message}`);
+      }
+    }
+
+    return this.keywordReplyClassifier.classify(prepared);
+  }
+
+  /**
+   * Only the new text of the reply, the quoted campaign email would match its own keywords
+   */
+  stripQuotedText(text: string): string {
+    const lines = text.split(/\r?\n/);
+    const kept: string[] = [];
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (QUOTE_HEADER_PATTERNS.some((pattern) => pattern.test(trimmed))) {
+        break;
+      }
+      if (!trimmed.startsWith('>')) {
+        kept.push(line);
+      }
+    }
+    return kept.join('\n').trim();
+  }
+}
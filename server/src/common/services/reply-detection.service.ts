@@ -1,8 +1,16 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op } from 'sequelize';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
-import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  AUTOMATIC_REPLY_CLASSIFICATIONS,
+  EmailMessage,
+  EmailMessageStatus,
+  ReplyClassification,
+} from 'src/resources/campaigns/entities/email-message.entity';
 import { EmailEventType, EmailTrackingEvent } from 'src/resources/campaigns/entities/email-tracking-event.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
@@ -16,8 +24,21 @@ import { TokenRefreshService } from './token-refresh.service';
 import { CircuitBreakerService } from './circuit-breaker.service';
 import { SchedulerHealthService } from './scheduler-health.service';
 import { DetectionCacheService } from './detection-cache.service';
+import { ConversationStoreService, InboundMessage } from './conversation-store.service';
+import { ReplyClassifierService } from './reply-classifier.service';
+import { ReplyClassificationResult } from '../interfaces/reply-classifier.interface';
+import { SuppressionsService } from 'src/resources/suppressions/suppressions.service';
+import { SuppressionSource } from 'src/resources/suppressions/entities/suppression-entry.entity';
+import { NotificationEventService } from 'src/resources/notifications/services/notification-event.service';
 import { classifyGmailError, requiresTokenRefresh, requiresReAuth } from '../utils/gmail-error.util';
 import { retryWithBackoff } from '../utils/retry.util';
+import { MAILTO_UNSUBSCRIBE_SUBJECT } from '../utils/list-unsubscribe.util';
+
+/** How long an out-of-office reply without a readable return date pauses the contact */
+const OUT_OF_OFFICE_DEFAULT_PAUSE_DAYS = 7;
+
+/** Gmail search for emails sent to the List-Unsubscribe mailto of a mailbox */
+const UNSUBSCRIBE_REQUEST_QUERY = `in:inbox subject:${MAILTO_UNSUBSCRIBE_SUBJECT} newer_than:7d`;
 
 /**
  * Reply Detection Service
@@ -46,6 +67,12 @@ export class ReplyDetectionService {
     private readonly circuitBreakerService: CircuitBreakerService,
     private readonly schedulerHealthService: SchedulerHealthService,
     private readonly detectionCacheService: DetectionCacheService,
+    private readonly conversationStoreService: ConversationStoreService,
+    private readonly replyClassifierService: ReplyClassifierService,
+    @Inject(forwardRef(() => SuppressionsService))
+    private readonly suppressionsService: SuppressionsService,
+    @Inject(forwardRef(() => NotificationEventService))
+    private readonly notificationEventService: NotificationEventService,
   ) {}
 
   /**
@@ -70,9 +97,10 @@ export class ReplyDetectionService {
     };
 
     try {
-      // Get all active Gmail tokens
+      // Get all active Gmail tokens (SMTP mailboxes are polled over IMAP)
       const tokens = await this.gmailTokenModel.findAll({
         where: {
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -294,12 +322,21 @@ export class ReplyDetectionService {
 
       // Get unique thread IDs
       const threadIds = [...new Set(sentEmails.map((e) => e.gmailThreadId))];
+      const conversationThreadIds = await this.conversationStoreService.findConversationThreadIds(
+        userEmail,
+        threadIds,
+      );
 
       // Check each thread for new replies
       for (const threadId of threadIds) {
         try {
           // Skip if already processed (check Redis cache)
-          if (await this.detectionCacheService.isReplyProcessed(threadId)) {
+          // Threads with an inbox conversation are always scanned for the prospect's next answers,
+          // their messages are deduplicated by message ID in processReply
+          if (
+            !conversationThreadIds.has(threadId) &&
+            (await this.detectionCacheService.isReplyProcessed(threadId))
+          ) {
             continue;
           }
 
@@ -414,6 +451,9 @@ export class ReplyDetectionService {
           }
         }
       }
+
+      // Unsubscribe requests sent to the List-Unsubscribe mailto start new threads
+      stats.processed += await this.checkUnsubscribeRequests(userEmail, accessToken);
     } catch (error) {
       const err = error as Error;
       const classified = classifyGmailError(error);
@@ -445,6 +485,169 @@ export class ReplyDetectionService {
     return stats;
   }
 
+  /**
+   * Process one inbound message of an SMTP mailbox (fetched over IMAP by ImapMailboxService)
+   * Bounces go to BounceDetectionService.processBounce, replies are matched to the sent email
+   * through In-Reply-To/References, since SMTP mailboxes have no Gmail thread IDs, and emails
+   * to the List-Unsubscribe mailto unsubscribe their sender
+   * @returns 'bounce', 'reply' or 'unsubscribe' when the message was recorded, null otherwise
+   */
+  async processMailboxMessage(
+    message: {
+      id: string;
+      payload: any;
+      headers: Array<{ name: string; value: string }>;
+      snippet: string;
+      internalDate: string;
+    },
+    mailboxEmail: string,
+  ): Promise<'bounce' | 'reply' | 'unsubscribe' | null> {
+    if (
+      this.isBounceOrSystemEmail(message.headers) ||
+      this.isBounceByContent(message.snippet || '', message.headers)
+    ) {
+      const bounceProcessed = await this.bounceDetectionService.processBounce(message, mailboxEmail);
+      return bounceProcessed ? 'bounce' : null;
+    }
+
+    if (this.isUnsubscribeRequest(message.headers)) {
+      const unsubscribed = await this.processUnsubscribeRequest(message, mailboxEmail);
+      return unsubscribed ? 'unsubscribe' : null;
+    }
+
+    const referencedIds = [
+      ...(this.getHeader(message.headers, 'In-Reply-To') || '').split(/\s+/),
+      ...(this.getHeader(message.headers, 'References') || '').split(/\s+/),
+    ]
+      .map((id) => id.trim().replace(/^</, '').replace(/>$/, ''))
+      .filter((id) => id.length > 0);
+
+    if (referencedIds.length === 0) {
+      return null;
+    }
+
+    // Most recent sent email the message refers to
+    const sentEmails = await this.emailMessageModel.findAll({
+      where: {
+        sentFromEmail: mailboxEmail,
+        status: {
+          [Op.in]: [EmailMessageStatus.SENT, EmailMessageStatus.DELIVERED],
+        },
+        gmailMessageId: {
+          [Op.in]: [...new Set(referencedIds)],
+        },
+      },
+      attributes: ['id', 'gmailThreadId', 'contactId', 'sentAt'],
+      order: [['sentAt', 'DESC']],
+    });
+
+    const isReply = this.isReplyMessage(message, sentEmails);
+    if (!isReply.isReply || !isReply.originalEmail) {
+      return null;
+    }
+
+    const processed = await this.processReply(isReply.originalEmail, message, mailboxEmail);
+    return processed ? 'reply' : null;
+  }
+
+  /**
+   * Unsubscribe the sender of an email to the List-Unsubscribe mailto of a mailbox
+   * The sender is matched to the contact of the latest email the mailbox sent to that address
+   * @returns true when a contact was unsubscribed, false when none matches or it already was
+   */
+  async processUnsubscribeRequest(
+    message: { id: string; headers: Array<{ name: string; value: string }> },
+    mailboxEmail: string,
+  ): Promise<boolean> {
+    const fromHeader = this.getHeader(message.headers, 'From');
+    const senderAddress = (fromHeader?.match(/<([^>]+)>/)?.[1] || fromHeader || '').trim().toLowerCase();
+    if (!senderAddress) {
+      return false;
+    }
+
+    const emailMessage = await this.emailMessageModel.findOne({
+      where: {
+        sentFromEmail: mailboxEmail,
+        status: {
+          [Op.in]: [EmailMessageStatus.SENT, EmailMessageStatus.DELIVERED],
+        },
+      },
+      include: [
+        {
+          model: Contact,
+          as: 'contact',
+          where: { email: senderAddress },
+          required: true,
+        },
+      ],
+      order: [['sentAt', 'DESC']],
+    });
+
+    if (!emailMessage) {
+      this.logger.debug(
+        `Unsubscribe request ${message.id} from ${senderAddress} matches no email sent by ${mailboxEmail}`,
+      );
+      return false;
+    }
+
+    if (emailMessage.contact.subscribed === false) {
+      return false;
+    }
+
+    await this.emailTrackingService.handleUnsubscribe(emailMessage.id);
+    this.logger.log(
+      `🔔 Unsubscribed contact ${emailMessage.contactId} by email request ${message.id} to ${mailboxEmail}`,
+    );
+    return true;
+  }
+
+  /**
+   * Check if message was sent to a List-Unsubscribe mailto target
+   */
+  private isUnsubscribeRequest(headers: Array<{ name: string; value: string }>): boolean {
+    const subject = this.getHeader(headers, 'Subject') || '';
+    return subject.trim().toLowerCase() === MAILTO_UNSUBSCRIBE_SUBJECT;
+  }
+
+  /**
+   * Process the unsubscribe requests in a Gmail mailbox's inbox
+   * @returns Number of contacts unsubscribed
+   */
+  private async checkUnsubscribeRequests(userEmail: string, accessToken: string): Promise<number> {
+    let unsubscribed = 0;
+
+    const { messages } = await this.gmailService.listMessages(
+      accessToken,
+      ['INBOX'],
+      50,
+      UNSUBSCRIBE_REQUEST_QUERY,
+    );
+
+    for (const { id } of messages) {
+      if (await this.detectionCacheService.isUnsubscribeProcessed(id)) {
+        continue;
+      }
+
+      try {
+        const message = await this.gmailService.getMessage(accessToken, id);
+        if (
+          this.isUnsubscribeRequest(message.headers) &&
+          (await this.processUnsubscribeRequest(message, userEmail))
+        ) {
+          unsubscribed++;
+        }
+        await this.detectionCacheService.markUnsubscribeProcessed(id);
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(
+          `Error processing unsubscribe request ${id} of ${userEmail}: ${err.message}`,
+        );
+      }
+    }
+
+    return unsubscribed;
+  }
+
   /**
    * Check if message is from a bounce/mailer-daemon system (not a user reply)
    */
@@ -582,11 +785,7 @@ export class ReplyDetectionService {
       id: string;
       contactId: string;
     },
-    replyMessage: {
-      id: string;
-      headers: Array<{ name: string; value: string }>;
-      snippet: string;
-    },
+    replyMessage: InboundMessage,
     senderEmail: string,
   ): Promise<boolean> {
     try {
@@ -646,6 +845,14 @@ export class ReplyDetectionService {
           
           // Check if reply contains the custom unsubscribe message (case-insensitive, partial match)
           if (replySnippet.includes(customMessage)) {
+            // Conversation threads are rescanned, the unsubscribe is only processed once
+            if (await this.conversationStoreService.hasInboundMessage(emailMessage, replyMessage.id, senderEmail)) {
+              this.logger.debug(
+                `Unsubscribe reply ${replyMessage.id} already processed for email ${originalEmail.id}, skipping duplicate`,
+              );
+              return false;
+            }
+
             this.logger.log(
               `🔔 Custom unsubscribe message detected in reply for email ${originalEmail.id}. Message: "${customMessage}"`,
             );
@@ -656,6 +863,8 @@ export class ReplyDetectionService {
               this.logger.log(
                 `✅ Processed unsubscribe from custom reply message for email ${originalEmail.id}`,
               );
+              // The reply still belongs in the inbox conversation
+              await this.storeConversation(emailMessage, replyMessage, senderEmail);
               return true; // Return true to indicate message was processed, but don't record as reply
             } catch (error) {
               const err = error as Error;
@@ -710,15 +919,25 @@ export class ReplyDetectionService {
       // Check if already replied (avoid duplicate counting)
       const currentReplyCount = emailMessage.replyCount || 0;
 
+      const classification = await this.classifyReply(replyMessage);
+
       // Update EmailMessage
+      // An automatic reply (out-of-office...) never replaces the label of a human reply
+      const keepClassification =
+        AUTOMATIC_REPLY_CLASSIFICATIONS.includes(classification.classification) &&
+        !!emailMessage.replyClassification &&
+        !AUTOMATIC_REPLY_CLASSIFICATIONS.includes(emailMessage.replyClassification);
       await emailMessage.update({
         repliedAt: emailMessage.repliedAt || new Date(), // Set on first reply
         replyCount: currentReplyCount + 1,
         lastRepliedAt: new Date(),
+        ...(keepClassification
+          ? {}
+          : { replyClassification: classification.classification, replyClassifiedAt: new Date() }),
       });
 
       this.logger.log(
-        `✅ Reply recorded for email ${emailMessage.id} from ${recipientEmail} (reply #${currentReplyCount + 1})`,
+        `✅ Reply recorded for email ${emailMessage.id} from ${recipientEmail} (reply #${currentReplyCount + 1}, ${classification.classification})`,
       );
 
       // Update contact reply date
@@ -739,11 +958,23 @@ export class ReplyDetectionService {
         );
       }
 
-      // Update step and campaign aggregates
-      await this.updateAggregates(emailMessage);
+      // Update step and campaign aggregates, which count replied emails rather than reply messages
+      if (currentReplyCount === 0) {
+        await this.updateAggregates(emailMessage);
+      }
 
       // Record tracking event with Gmail message ID to prevent duplicates
-      await this.recordTrackingEvent(emailMessage.id, replyMessage.id, replyMessage.snippet);
+      await this.recordTrackingEvent(
+        emailMessage.id,
+        replyMessage.id,
+        replyMessage.snippet,
+        classification.classification,
+      );
+
+      // Keep the full reply for the inbox
+      await this.storeConversation(emailMessage, replyMessage, senderEmail);
+
+      await this.applyClassification(emailMessage, classification, replyMessage.snippet);
 
       return true;
     } catch (error) {
@@ -802,6 +1033,7 @@ export class ReplyDetectionService {
     emailMessageId: string,
     gmailMessageId: string,
     replySnippet: string,
+    classification: ReplyClassification,
   ): Promise<void> {
     try {
       await this.emailTrackingService.recordEvent(
@@ -811,6 +1043,7 @@ export class ReplyDetectionService {
           // Store Gmail message ID in eventData to prevent duplicates
           gmailMessageId,
           snippet: replySnippet.substring(0, 255),
+          classification,
         },
       );
     } catch (error) {
@@ -821,6 +1054,99 @@ export class ReplyDetectionService {
     }
   }
 
+  /**
+   * Label the reply from its headers, subject and body
+   */
+  private async classifyReply(replyMessage: InboundMessage): Promise<ReplyClassificationResult> {
+    const content = replyMessage.content
+      || (replyMessage.payload ? this.gmailService.extractMessageContent(replyMessage.payload) : null);
+    const receivedAt = replyMessage.internalDate
+      ? new Date(parseInt(replyMessage.internalDate, 10))
+      : new Date();
+
+    return this.replyClassifierService.classify({
+      subject: this.getHeader(replyMessage.headers, 'Subject') || '',
+      text: content?.text || replyMessage.snippet || '',
+      headers: replyMessage.headers,
+      receivedAt,
+    });
+  }
+
+  /**
+   * Act on the reply's label: out-of-office pauses the contact until the return date,
+   * not interested suppresses the contact, interested notifies the campaign owner.
+   * Failures are logged, the reply stays recorded.
+   */
+  private async applyClassification(
+    emailMessage: EmailMessage,
+    result: ReplyClassificationResult,
+    snippet: string,
+  ): Promise<void> {
+    const contact = emailMessage.contact;
+    try {
+      switch (result.classification) {
+        case ReplyClassification.OUT_OF_OFFICE: {
+          const pauseUntil = result.returnDate
+            || new Date(Date.now() + OUT_OF_OFFICE_DEFAULT_PAUSE_DAYS * 24 * 60 * 60 * 1000);
+          await contact.update({ outOfOfficeUntil: pauseUntil });
+          this.logger.log(
+            `🏖️ Contact ${contact.id} is out of office, campaign emails wait until ${pauseUntil.toISOString()}`,
+          );
+          break;
+        }
+
+        case ReplyClassification.NOT_INTERESTED: {
+          const campaign = emailMessage.campaignId
+            ? await this.campaignModel.findByPk(emailMessage.campaignId, { attributes: ['id', 'name'] })
+            : null;
+          const added = await this.suppressionsService.suppressEmail(
+            emailMessage.organizationId,
+            contact.email,
+            SuppressionSource.REPLY,
+            campaign ? `Not interested reply to campaign "${campaign.name}"` : 'Not interested reply',
+          );
+          if (added) {
+            this.logger.log(`🚫 Contact ${contact.id} replied not interested, added to the suppression list`);
+          }
+          break;
+        }
+
+        case ReplyClassification.INTERESTED: {
+          const campaign = emailMessage.campaignId
+            ? await this.campaignModel.findByPk(emailMessage.campaignId)
+            : null;
+          if (campaign) {
+            await this.notificationEventService.notifyInterestedReply(campaign, contact, snippet);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `Error applying ${result.classification} reply classification for email ${emailMessage.id}: ${err.message}`,
+      );
+    }
+  }
+
+  /**
+   * Save the reply to its inbox conversation, failures don't undo the recorded reply
+   */
+  private async storeConversation(
+    emailMessage: EmailMessage,
+    replyMessage: InboundMessage,
+    mailboxEmail: string,
+  ): Promise<void> {
+    try {
+      await this.conversationStoreService.recordInboundMessage(emailMessage, replyMessage, mailboxEmail);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(
+        `Error storing reply ${replyMessage.id} for the inbox: ${err.message}`,
+      );
+    }
+  }
+
   /**
    * Helper to get header value
    */
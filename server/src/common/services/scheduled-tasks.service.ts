@@ -5,7 +5,10 @@ import { ConfigService } from '@nestjs/config';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
 import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { RateLimiterService } from './rate-limiter.service';
 import { QuotaManagementService } from './quota-management.service';
 import { CampaignProcessorQueue } from 'src/configuration/bull/queues/campaign-processor.queue';
@@ -19,6 +22,8 @@ import { AuditLogsService } from 'src/resources/audit-logs/audit-logs.service';
 import { AuditAction } from 'src/resources/audit-logs/entities/audit-log.entity';
 import { Op } from 'sequelize';
 import { NotificationEventService } from 'src/resources/notifications/services/notification-event.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
+import { ContactsService } from 'src/resources/contacts/contacts.service';
 import { Inject, forwardRef } from '@nestjs/common';
 import { CronJob } from 'cron';
 
@@ -29,6 +34,7 @@ import { CronJob } from 'cron';
  * 2. Checking for completed campaigns
  * 3. Scheduling bounce detection jobs
  * 4. Scheduling reply detection jobs
+ * 5. Removing expired contact import files
  * 
  * NOTE: Scheduled step processing is no longer handled here.
  * All steps (IMMEDIATE and SCHEDULE) are processed immediately during campaign activation,
@@ -62,6 +68,9 @@ export class ScheduledTasksService implements OnModuleInit {
     private readonly subscriptionRenewalService: SubscriptionRenewalService,
     private readonly auditLogsService: AuditLogsService,
     private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
+    @Inject(forwardRef(() => ContactsService))
+    private readonly contactsService: ContactsService,
     @Inject(forwardRef(() => NotificationEventService))
     private readonly notificationEventService?: NotificationEventService,
   ) {
@@ -245,6 +254,7 @@ export class ScheduledTasksService implements OnModuleInit {
               `🎉 Campaign ${campaign.id} marked as COMPLETED ` +
               `(${processedEmails}/${totalExpectedEmails} processed, ${sentOrDeliveredCount} sent/delivered, ${queuedEmails} queued, ${sendingEmails} sending)`
             );
+            await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, 'ACTIVE', 'COMPLETED');
 
             // Log campaign completion in audit log
             try {
@@ -333,6 +343,7 @@ export class ScheduledTasksService implements OnModuleInit {
           userId: {
             [Op.in]: eligibleUserIds,
           },
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
         attributes: ['userId', 'email', 'organizationId', 'lastHistoryId'],
@@ -403,6 +414,9 @@ export class ScheduledTasksService implements OnModuleInit {
         `📬 [REPLY DETECTION] Starting reply detection job enqueueing at ${timestamp}...`,
       );
 
+      // SMTP mailboxes are polled over IMAP for replies and bounces in the same pass
+      await this.enqueueImapPollJobs();
+
       // Get user IDs who have active campaigns OR sent emails in last 30 days
       const eligibleUserIds = await this.getUsersWithActiveOrRecentCampaigns();
 
@@ -419,6 +433,7 @@ export class ScheduledTasksService implements OnModuleInit {
           userId: {
             [Op.in]: eligibleUserIds,
           },
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
         attributes: ['userId', 'email', 'organizationId'],
@@ -471,6 +486,38 @@ export class ScheduledTasksService implements OnModuleInit {
     }
   }
 
+  /**
+   * Enqueue IMAP poll jobs for SMTP mailboxes that sent email in the last 30 days
+   */
+  private async enqueueImapPollJobs(): Promise<void> {
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+    const mailboxes = await this.gmailTokenModel.findAll({
+      where: {
+        provider: MailboxProvider.SMTP,
+        status: 'ACTIVE',
+        imapHost: { [Op.ne]: null },
+        lastUsedAt: { [Op.gte]: thirtyDaysAgo },
+      },
+      attributes: ['id', 'email'],
+    });
+
+    if (mailboxes.length === 0) {
+      return;
+    }
+
+    await Promise.all(
+      mailboxes.map(mailbox =>
+        this.replyDetectionQueue.addImapPollJob(mailbox.id, mailbox.email),
+      ),
+    );
+
+    this.logger.log(
+      `📬 [REPLY DETECTION] Enqueued ${mailboxes.length} IMAP poll jobs for SMTP mailboxes`,
+    );
+  }
+
   /**
    * Get user IDs who have:
    * 1. Active campaigns, OR
@@ -611,5 +658,33 @@ export class ScheduledTasksService implements OnModuleInit {
       );
     }
   }
-}
 
+  /**
+   * Remove contact import files past their retention: previews never confirmed and error reports
+   * Runs hourly
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredImportFiles() {
+    const schedulerName = 'ImportFileCleanup';
+    this.schedulerHealthService.recordStart(schedulerName);
+    const startTime = Date.now();
+
+    try {
+      const cleaned = this.contactsService.cleanupExpiredImportFiles();
+
+      const duration = Date.now() - startTime;
+      this.schedulerHealthService.recordSuccess(schedulerName, duration);
+      if (cleaned > 0) {
+        this.logger.log(`Removed ${cleaned} expired contact import file(s)`);
+      }
+    } catch (error) {
+      const err = error as Error;
+      const duration = Date.now() - startTime;
+      this.schedulerHealthService.recordFailure(schedulerName, duration, err);
+      this.logger.error(
+        `Error cleaning up expired contact import files: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as nodemailer from 'nodemailer';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  MailSendRequest,
+  MailSendResult,
+  MailSenderProvider,
+} from '../interfaces/mail-sender.interface';
+import { CryptoUtilityService } from './crypto-utility.service';
+import { buildListUnsubscribeHeaders } from '../utils/list-unsubscribe.util';
+
+export interface SmtpConnectionSettings {
+  host: string;
+  port: number;
+  secure: boolean;
+  username: string;
+  password: string;
+}
+
+/**
+ * SMTP delivery for Microsoft 365 and generic SMTP mailboxes
+ * SMTP has no thread IDs: the Message-ID is generated here and the first email's
+ * Message-ID is used as the thread ID, so follow-ups thread through In-Reply-To/References
+ */
+@Injectable()
+export class SmtpMailSenderService implements MailSenderProvider {
+  private readonly logger = new Logger(SmtpMailSenderService.name);
+
+  constructor(private readonly cryptoUtilityService: CryptoUtilityService) {}
+
+  async prepare(mailbox: GmailOAuthToken): Promise<void> {
+    if (!mailbox.smtpHost || !mailbox.smtpPort || !mailbox.mailboxPasswordEncrypted) {
+      throw new Error(`SMTP settings are incomplete for mailbox ${mailbox.email}`);
+    }
+  }
+
+  async send(mailbox: GmailOAuthToken, request: MailSendRequest): Promise<MailSendResult> {
+    const transporter = this.createTransport(await this.getConnectionSettings(mailbox));
+    const messageId = `${randomUUID()}@${mailbox.email.split('@')[1]}`;
+
+    try {
+      const info = await transporter.sendMail({
+        from: request.fromName ? { name: request.fromName, address: request.from } : request.from,
+        to: request.to,
+        subject: request.subject,
+        html: request.html,
+        text: request.text,
+        messageId: `<${messageId}>`,
+        inReplyTo: request.threadHeaders?.inReplyTo,
+        references: request.threadHeaders?.references,
+        headers: request.listUnsubscribe ? buildListUnsubscribeHeaders(request.listUnsubscribe) : undefined,
+      });
+
+      this.logger.log(`📧 [SMTP RESPONSE] ${mailbox.email} → ${request.to}: ${info.response}`);
+    } finally {
+      transporter.close();
+    }
+
+    return {
+      id: messageId,
+      threadId: request.threadHeaders?.threadId || messageId,
+    };
+  }
+
+  async getMessageIdHeader(_mailbox: GmailOAuthToken, messageId: string): Promise<string> {
+    // The stored ID already is the Message-ID header generated in send()
+    return messageId;
+  }
+
+  isTemporaryError(error: any): boolean {
+    const responseCode = Number(error?.responseCode);
+    if (responseCode) {
+      return responseCode >= 400 && responseCode < 500;
+    }
+
+    // Connection level failures (host down, timeout, TLS negotiation)
+    return ['ECONNECTION', 'ETIMEDOUT', 'ESOCKET', 'EDNS', 'ETLS'].includes(error?.code);
+  }
+
+  getErrorCode(error: any): string {
+    if (error?.responseCode) {
+      return `SMTP_${error.responseCode}`;
+    }
+
+    if (error?.code) {
+      return error.code.toString();
+    }
+
+    return 'UNKNOWN_ERROR';
+  }
+
+  /**
+   * Check that the SMTP server accepts the given credentials
+   * @throws Error with the server response when the connection or login fails
+   */
+  async verifyConnection(settings: SmtpConnectionSettings): Promise<void> {
+    const transporter = this.createTransport(settings);
+    try {
+      await transporter.verify();
+    } finally {
+      transporter.close();
+    }
+  }
+
+  private async getConnectionSettings(mailbox: GmailOAuthToken): Promise<SmtpConnectionSettings> {
+    await this.prepare(mailbox);
+
+    return {
+      host: mailbox.smtpHost,
+      port: mailbox.smtpPort,
+      secure: mailbox.smtpSecure,
+      username: mailbox.mailboxUsername || mailbox.email,
+      password: await this.cryptoUtilityService.decrypt(mailbox.mailboxPasswordEncrypted),
+    };
+  }
+
+  private createTransport(settings: SmtpConnectionSettings): nodemailer.Transporter {
+    return nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      auth: {
+        user: settings.username,
+        pass: settings.password,
+      },
+      connectionTimeout: 10000, // 10 seconds
+      greetingTimeout: 10000, // 10 seconds
+      socketTimeout: 30000, // 30 seconds
+    });
+  }
+}
@@ -1,7 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { ConfigService } from '@nestjs/config';
-import { GmailOAuthToken, GmailTokenStatus } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { GmailService } from './gmail.service';
 import { CryptoUtilityService } from './crypto-utility.service';
 import { isRefreshTokenError } from '../utils/gmail-error.util';
@@ -40,6 +44,7 @@ export class TokenRefreshService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: GmailTokenStatus.ACTIVE,
         },
       });
@@ -194,6 +199,7 @@ export class TokenRefreshService {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: GmailTokenStatus.ACTIVE,
         },
       });
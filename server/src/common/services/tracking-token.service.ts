@@ -0,0 +1,120 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+export type TrackingTokenPurpose = 'open' | 'click' | 'unsubscribe';
+
+export interface TrackingTokenPayload {
+  emailMessageId: string;
+  purpose: TrackingTokenPurpose;
+  /** ID of the rewritten link, click tokens only */
+  linkId?: string;
+  /** Destination of click tokens of test sends, which have no stored links */
+  url?: string;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+/** Compact JSON keys keep tracking URLs short */
+interface EncodedPayload {
+  m: string;
+  p: 'o' | 'c' | 'u';
+  l?: string;
+  u?: string;
+  e: number;
+}
+
+const PURPOSE_CODES: Record<TrackingTokenPurpose, EncodedPayload['p']> = {
+  open: 'o',
+  click: 'c',
+  unsubscribe: 'u',
+};
+
+/** Unsubscribe links must keep working long after the email was sent */
+const DEFAULT_TOKEN_TTL_DAYS = 365;
+
+/**
+ * Signs the tokens of tracking and unsubscribe links
+ * Tokens are `<payload>.<signature>`, both base64url, where the signature is an HMAC-SHA256 of
+ * the payload. The purpose is part of the payload so an open pixel token can't unsubscribe.
+ * Uses TRACKING_SECRET, falling back to JWT_SECRET.
+ */
+@Injectable()
+export class TrackingTokenService {
+  private readonly logger = new Logger(TrackingTokenService.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  sign(emailMessageId: string, purpose: TrackingTokenPurpose, linkId?: string, url?: string): string {
+    const ttlDays = this.getTokenTtlDays();
+    const payload: EncodedPayload = {
+      m: emailMessageId,
+      p: PURPOSE_CODES[purpose],
+      ...(linkId ? { l: linkId } : {}),
+      ...(url ? { u: url } : {}),
+      e: Math.floor(Date.now() / 1000) + ttlDays * 24 * 60 * 60,
+    };
+
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.signature(encoded)}`;
+  }
+
+  /**
+   * @returns the payload, or null when the token is malformed, forged, expired or for another purpose
+   */
+  verify(token: string, purpose: TrackingTokenPurpose): TrackingTokenPayload | null {
+    const [encoded, signature, ...rest] = (token || '').split('.');
+    if (!encoded || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.signature(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      this.logger.warn(`Rejected tracking token with an invalid signature`);
+      return null;
+    }
+
+    let payload: EncodedPayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+    } catch {
+      return null;
+    }
+
+    if (payload.p !== PURPOSE_CODES[purpose] || !payload.m) {
+      return null;
+    }
+    if (!payload.e || payload.e * 1000 < Date.now()) {
+      this.logger.debug(`Rejected expired ${purpose} token for email ${payload.m}`);
+      return null;
+    }
+
+    return {
+      emailMessageId: payload.m,
+      purpose,
+      ...(payload.l ? { linkId: payload.l } : {}),
+      ...(payload.u ? { url: payload.u } : {}),
+      expiresAt: payload.e,
+    };
+  }
+
+  /**
+   * Days a signed token stays valid, TRACKING_TOKEN_TTL_DAYS or one year
+   */
+  getTokenTtlDays(): number {
+    return Number(this.configService.get('TRACKING_TOKEN_TTL_DAYS')) || DEFAULT_TOKEN_TTL_DAYS;
+  }
+
+  private signature(encodedPayload: string): string {
+    return crypto.createHmac('sha256', this.getSecret()).update(encodedPayload).digest('base64url');
+  }
+
+  private getSecret(): string {
+    const secret = this.configService.get<string>('TRACKING_SECRET') || this.configService.get<string>('JWT_SECRET');
+    if (!secret) {
+      throw new Error('TRACKING_SECRET or JWT_SECRET must be configured to sign tracking links');
+    }
+    return secret;
+  }
+}
@@ -0,0 +1,460 @@
+import {
+  CUSTOM_FIELD_CHANGE_PREFIX,
+  MERGEABLE_IMPORT_FIELDS,
+} from 'src/resources/contacts/contacts.constants';
+import {
+  DuplicateCandidate,
+  DuplicateMatch,
+  DuplicateMatchReason,
+  DuplicatePair,
+} from 'src/resources/contacts/dto/contact-duplicates.interface';
+import { ContactFieldChangeEntry } from 'src/resources/contacts/dto/contact-import.interface';
+import { ContactStatus } from 'src/resources/contacts/entities/contact.entity';
+
+/**
+ * Contact Duplicates Utility
+ *
+ * Scores how likely two contacts of an organization are the same person, and merges the fields of a duplicate
+ * into the contact that survives the merge.
+ */
+
+/** Score each kind of match adds to a pair, the total is capped at 100 */
+export const DUPLICATE_MATCH_SCORES: Record<DuplicateMatchReason, number> = {
+  [DuplicateMatchReason.SAME_EMAIL]: 100,
+  [DuplicateMatchReason.LINKEDIN]: 90,
+  [DuplicateMatchReason.NAME_AND_COMPANY]: 60,
+  [DuplicateMatchReason.EMAIL_VARIANT]: 50,
+  [DuplicateMatchReason.PHONE]: 40,
+};
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com']);
+
+/** Mailbox providers whose users share a domain without being colleagues, their local parts aren't compared */
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'yahoo.com',
+  'ymail.com',
+  'hotmail.com',
+  'outlook.com',
+  'live.com',
+  'msn.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+  'gmx.de',
+  'mail.com',
+  'yandex.ru',
+  'zoho.com',
+]);
+
+/** Shortest first local part token of an EMAIL_VARIANT, j@ doesn't match j.smith@ */
+const MIN_VARIANT_TOKEN_LENGTH = 2;
+
+const MIN_PHONE_DIGITS = 7;
+/** Phones are compared by their last digits, with or without a country code */
+const PHONE_MATCH_DIGITS = 10;
+
+/** Fields filled from the duplicate when the surviving contact has no value, in the change log */
+const FILLED_FIELDS: readonly string[] = [...MERGEABLE_IMPORT_FIELDS, 'source', 'creationSource', 'outcome'];
+
+const SUMMED_FIELDS = ['bounceCount', 'complaintCount', 'numberOfOpens', 'numberOfClicks'] as const;
+
+const LATEST_DATE_FIELDS = [
+  'lastEmailSentAt',
+  'lastEmailOpenedAt',
+  'lastEmailClickedAt',
+  'lastContactedAt',
+  'recentlyOpenDate',
+  'recentlyClickDate',
+  'recentlyReplyDate',
+  'outOfOfficeUntil',
+] as const;
+
+/** A merged contact keeps the most restrictive status of the two */
+const CONTACT_STATUS_SEVERITY: ContactStatus[] = [
+  ContactStatus.ACTIVE,
+  ContactStatus.INACTIVE,
+  ContactStatus.UNSUBSCRIBED,
+  ContactStatus.BOUNCED,
+  ContactStatus.COMPLAINED,
+];
+
+export interface ContactMergeFields {
+  /** Attributes to update on the surviving contact, empty when nothing changes */
+  attributes: Record<string, any>;
+  changes: ContactFieldChangeEntry[];
+}
+
+interface EmailParts {
+  localPart: string;
+  domain: string;
+}
+
+/**
+ * Lowercased address without its +tag, Gmail addresses also without dots in the local part
+ */
+function splitEmail(email: string | null | undefined): EmailParts | null {
+  const address = (email || '').trim().toLowerCase();
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || at === address.length - 1) {
+    return null;
+  }
+
+  let localPart = address.slice(0, at).split('+')[0];
+  let domain = address.slice(at + 1);
+  if (GMAIL_DOMAINS.has(domain)) {
+    localPart = localPart.replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+  return localPart ? { localPart, domain } : null;
+}
+
+function localPartTokens(localPart: string): string[] {
+  return localPart.split(/[._-]+/).filter(Boolean);
+}
+
+function normalizeNamePart(value: string | null | undefined): string {
+  return (value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Address two spellings of one mailbox share: john.smith+news@gmail.com and johnsmith@googlemail.com
+ * @returns null when the value is not an address
+ */
+export function normalizeEmailForMatching(email: string | null | undefined): string | null {
+  const parts = splitEmail(email);
+  return parts ? `${parts.localPart}@${parts.domain}` : null;
+}
+
+/**
+ * Whether two addresses of the same company domain differ only by how much of the name the local part holds:
+ * john@ and john.smith@, john.smith@ and john_smith@, jsmith@ and john.smith@
+ */
+export function isEmailLocalPartVariant(first: string, second: string): boolean {
+  const a = splitEmail(first);
+  const b = splitEmail(second);
+  if (!a || !b || a.domain !== b.domain || FREE_MAIL_DOMAINS.has(a.domain) || a.localPart === b.localPart) {
+    return false;
+  }
+
+  const aTokens = localPartTokens(a.localPart);
+  const bTokens = localPartTokens(b.localPart);
+  const [shorter, longer] = aTokens.length <= bTokens.length ? [aTokens, bTokens] : [bTokens, aTokens];
+  if (shorter.length === 0) {
+    return false;
+  }
+
+  if (shorter.every((token, index) => token === longer[index])) {
+    return shorter.length === longer.length || shorter[0].length >= MIN_VARIANT_TOKEN_LENGTH;
+  }
+  return shorter.length === 1 && longer.length === 2 && shorter[0] === `${longer[0][0]}${longer[1]}`;
+}
+
+/**
+ * Profile path of a LinkedIn member URL, in/<slug> or pub/<slug>
+ * @returns null for other URLs, company pages included
+ */
+export function normalizeLinkedinUrl(url: string | null | undefined): string | null {
+  const match = (url || '')
+    .trim()
+    .toLowerCase()
+    .match(/linkedin\.com\/(in|pub)\/([^/?#\s]+)/);
+  if (!match) {
+    return null;
+  }
+
+  let slug = match[2];
+  try {
+    slug = decodeURIComponent(slug);
+  } catch {
+    // Keep the slug as written
+  }
+  return `${match[1]}/${slug}`;
+}
+
+/**
+ * Last digits of a phone number, formatting and country code left out
+ * @returns null when the number has too few digits to compare
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits.slice(-PHONE_MATCH_DIGITS) : null;
+}
+
+/**
+ * Lowercased first and last name without accents or punctuation
+ * @returns null without a last name, a first name alone is too common to match on
+ */
+export function normalizePersonName(
+  firstName: string | null | undefined,
+  lastName: string | null | undefined,
+): string | null {
+  const first = normalizeNamePart(firstName);
+  const last = normalizeNamePart(lastName);
+  return first && last ? `${first} ${last}` : null;
+}
+
+/**
+ * Host name of a company domain or website: https://www.Acme.com/about -> acme.com
+ */
+export function normalizeCompanyDomain(domain: string | null | undefined): string | null {
+  const host = (domain || '')
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+  return host || null;
+}
+
+/**
+ * Both contacts have a first name and they differ
+ */
+function firstNamesConflict(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  const first = normalizeNamePart(a.firstName);
+  const second = normalizeNamePart(b.firstName);
+  return !!first && !!second && first !== second;
+}
+
+/**
+ * How likely two contacts are the same person
+ * An EMAIL_VARIANT needs first names that don't conflict, john@ and john.smith@ belong to one person
+ * unless they are named John and Jane.
+ * @returns null when nothing matches
+ */
+export function scoreDuplicatePair(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateMatch | null {
+  const reasons: DuplicateMatchReason[] = [];
+
+  const email = normalizeEmailForMatching(a.email);
+  if (email && email === normalizeEmailForMatching(b.email)) {
+    reasons.push(DuplicateMatchReason.SAME_EMAIL);
+  } else if (isEmailLocalPartVariant(a.email, b.email) && !firstNamesConflict(a, b)) {
+    reasons.push(DuplicateMatchReason.EMAIL_VARIANT);
+  }
+
+  const linkedin = normalizeLinkedinUrl(a.linkedin);
+  if (linkedin && linkedin === normalizeLinkedinUrl(b.linkedin)) {
+    reasons.push(DuplicateMatchReason.LINKEDIN);
+  }
+
+  const name = normalizePersonName(a.firstName, a.lastName);
+  const companyDomain = normalizeCompanyDomain(a.companyDomain);
+  if (
+    name &&
+    companyDomain &&
+    name === normalizePersonName(b.firstName, b.lastName) &&
+    companyDomain === normalizeCompanyDomain(b.companyDomain)
+  ) {
+    reasons.push(DuplicateMatchReason.NAME_AND_COMPANY);
+  }
+
+  const phone = normalizePhone(a.phone);
+  if (phone && phone === normalizePhone(b.phone)) {
+    reasons.push(DuplicateMatchReason.PHONE);
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+  const score = reasons.reduce((total, reason) => total + DUPLICATE_MATCH_SCORES[reason], 0);
+  return { score: Math.min(score, 100), reasons };
+}
+
+/**
+ * Keys under which a contact is compared with others, only contacts sharing a key are scored
+ */
+export function getDuplicateMatchKeys(contact: DuplicateCandidate): string[] {
+  const keys: string[] = [];
+
+  const email = splitEmail(contact.email);
+  if (email) {
+    keys.push(`email:${email.localPart}@${email.domain}`);
+    if (!FREE_MAIL_DOMAINS.has(email.domain)) {
+      const tokens = localPartTokens(email.localPart);
+      if (tokens.length > 0) {
+        keys.push(`local:${email.domain}:${tokens[0]}`);
+      }
+      if (tokens.length === 2) {
+        keys.push(`local:${email.domain}:${tokens[0][0]}${tokens[1]}`);
+      }
+    }
+  }
+
+  const linkedin = normalizeLinkedinUrl(contact.linkedin);
+  if (linkedin) {
+    keys.push(`linkedin:${linkedin}`);
+  }
+
+  const name = normalizePersonName(contact.firstName, contact.lastName);
+  const companyDomain = normalizeCompanyDomain(contact.companyDomain);
+  if (name && companyDomain) {
+    keys.push(`name:${name}@${companyDomain}`);
+  }
+
+  const phone = normalizePhone(contact.phone);
+  if (phone) {
+    keys.push(`phone:${phone}`);
+  }
+
+  return keys;
+}
+
+/**
+ * Pairs of contacts likely to be the same person, best scores first
+ * @param maxGroupSize - Contacts sharing a key beyond this aren't paired by that key
+ */
+export function findDuplicatePairs(
+  contacts: DuplicateCandidate[],
+  minScore: number,
+  maxGroupSize: number,
+): DuplicatePair[] {
+  const contactsById = new Map(contacts.map((contact) => [contact.id, contact]));
+  const groups = new Map<string, string[]>();
+  for (const contact of contacts) {
+    for (const key of getDuplicateMatchKeys(contact)) {
+      const group = groups.get(key) ?? [];
+      group.push(contact.id);
+      groups.set(key, group);
+    }
+  }
+
+  const scored = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+  for (const ids of groups.values()) {
+    if (ids.length < 2 || ids.length > maxGroupSize) {
+      continue;
+    }
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const contactIds = (ids[i] < ids[j] ? [ids[i], ids[j]] : [ids[j], ids[i]]) as [string, string];
+        const pairKey = contactIds.join(':');
+        if (contactIds[0] === contactIds[1] || scored.has(pairKey)) {
+          continue;
+        }
+        scored.add(pairKey);
+
+        const match = scoreDuplicatePair(contactsById.get(contactIds[0])!, contactsById.get(contactIds[1])!);
+        if (match && match.score >= minScore) {
+          pairs.push({ contactIds, ...match });
+        }
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+}
+
+function customFieldsOf(contact: Record<string, any>): Record<string, any> {
+  return contact.customFields && typeof contact.customFields === 'object' ? contact.customFields : {};
+}
+
+function filledFieldCount(contact: Record<string, any>): number {
+  const fields = FILLED_FIELDS.filter((field) => !isBlank(contact[field])).length;
+  const customFields = Object.values(customFieldsOf(contact)).filter((value) => !isBlank(value)).length;
+  return fields + customFields;
+}
+
+function timeOf(value: unknown): number | null {
+  if (isBlank(value)) {
+    return null;
+  }
+  const time = new Date(value as string | Date).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * The contact that survives a merge: the one with more fields filled, the older one when equal
+ */
+export function pickSurvivingContact<T extends Record<string, any>>(first: T, second: T): T {
+  const firstCount = filledFieldCount(first);
+  const secondCount = filledFieldCount(second);
+  if (firstCount !== secondCount) {
+    return firstCount > secondCount ? first : second;
+  }
+  return (timeOf(second.createdAt) ?? Infinity) < (timeOf(first.createdAt) ?? Infinity) ? second : first;
+}
+
+/**
+ * Attributes of the surviving contact after merging a duplicate into it
+ * Its own values are kept and blanks are filled from the duplicate, custom fields key by key. Counters are
+ * added up, activity dates take the latest, and the more restrictive status and subscription win so an
+ * unsubscribed duplicate doesn't become reachable again. Email and verification stay the survivor's.
+ */
+export function mergeDuplicateContact(
+  survivor: Record<string, any>,
+  duplicate: Record<string, any>,
+): ContactMergeFields {
+  const attributes: Record<string, any> = {};
+  const changes: ContactFieldChangeEntry[] = [];
+
+  for (const field of FILLED_FIELDS) {
+    if (isBlank(survivor[field]) && !isBlank(duplicate[field])) {
+      attributes[field] = duplicate[field];
+      changes.push({ field, previousValue: null, newValue: String(duplicate[field]) });
+    }
+  }
+  if ('phone' in attributes && !isBlank(duplicate.phoneEncrypted)) {
+    attributes.phoneEncrypted = duplicate.phoneEncrypted;
+  }
+  if (isBlank(survivor.personalNotesEncrypted) && !isBlank(duplicate.personalNotesEncrypted)) {
+    attributes.personalNotesEncrypted = duplicate.personalNotesEncrypted;
+  }
+
+  const survivorCustomFields = customFieldsOf(survivor);
+  const customFields: Record<string, any> = { ...survivorCustomFields };
+  let customFieldsChanged = false;
+  for (const [key, value] of Object.entries(customFieldsOf(duplicate))) {
+    if (isBlank(survivorCustomFields[key]) && !isBlank(value)) {
+      customFields[key] = value;
+      customFieldsChanged = true;
+      changes.push({ field: `${CUSTOM_FIELD_CHANGE_PREFIX}${key}`, previousValue: null, newValue: String(value) });
+    }
+  }
+  if (customFieldsChanged) {
+    attributes.customFields = customFields;
+  }
+
+  for (const field of SUMMED_FIELDS) {
+    const total = (Number(survivor[field]) || 0) + (Number(duplicate[field]) || 0);
+    if (total !== (Number(survivor[field]) || 0)) {
+      attributes[field] = total;
+    }
+  }
+
+  for (const field of LATEST_DATE_FIELDS) {
+    const survivorTime = timeOf(survivor[field]);
+    const duplicateTime = timeOf(duplicate[field]);
+    if (duplicateTime !== null && (survivorTime === null || duplicateTime > survivorTime)) {
+      attributes[field] = new Date(duplicateTime);
+    }
+  }
+
+  const survivorSeverity = CONTACT_STATUS_SEVERITY.indexOf(survivor.status);
+  const duplicateSeverity = CONTACT_STATUS_SEVERITY.indexOf(duplicate.status);
+  if (duplicateSeverity > survivorSeverity) {
+    attributes.status = duplicate.status;
+    changes.push({ field: 'status', previousValue: survivor.status ?? null, newValue: duplicate.status });
+  }
+
+  if (survivor.subscribed !== false && duplicate.subscribed === false) {
+    attributes.subscribed = false;
+    attributes.unsubscribedAt = duplicate.unsubscribedAt ?? new Date();
+    changes.push({ field: 'subscribed', previousValue: 'true', newValue: 'false' });
+  }
+
+  return { attributes, changes };
+}
@@ -0,0 +1,212 @@
+import { CUSTOM_FIELD_KEY_PATTERN } from 'src/resources/contact-lists/constants/dynamic-list.constants';
+import {
+  IMPORTABLE_CONTACT_FIELDS,
+  IMPORT_ERROR_REPORT_ERRORS_COLUMN,
+  IMPORT_ERROR_REPORT_ROW_COLUMN,
+  REQUIRED_IMPORT_FIELDS,
+} from 'src/resources/contacts/contacts.constants';
+import {
+  ImportColumnMapping,
+  ImportColumnTarget,
+  ImportableContactField,
+} from 'src/resources/contacts/dto/contact-import.interface';
+import { CleanedContactRow } from 'src/resources/contacts/dto/contact-row.dto';
+
+/**
+ * Contact Import Mapping Utility
+ *
+ * Imports map each column of the uploaded file to a contact field, a custom field, or nothing.
+ * Headers are compared normalized (lowercase, letters and digits only), so "E-mail Address"
+ * and "email_address" suggest the same field.
+ */
+
+/** Extra header spellings per field, on top of the field name itself */
+const FIELD_HEADER_ALIASES: Partial<Record<ImportableContactField, string[]>> = {
+  email: ['emailaddress', 'mail', 'workemail', 'businessemail'],
+  firstName: ['first', 'fname', 'givenname', 'forename'],
+  lastName: ['last', 'lname', 'surname', 'familyname'],
+  list: ['listname', 'contactlist'],
+  company: ['companyname', 'organization', 'organisation', 'account', 'accountname'],
+  jobTitle: ['title', 'position', 'role'],
+  phone: ['phonenumber', 'mobile', 'mobilephone', 'telephone', 'tel', 'workphone'],
+  timezone: ['tz', 'timezonename'],
+  linkedin: ['linkedinurl', 'linkedinprofile', 'personlinkedinurl'],
+  twitter: ['twitterurl', 'twitterhandle'],
+  facebook: ['facebookurl'],
+  website: ['websiteurl', 'personalwebsite', 'url'],
+  state: ['region', 'province'],
+  companyDomain: ['domain', 'emaildomain'],
+  companyWebsite: ['companyurl'],
+  companySize: ['employees', 'headcount', 'numberofemployees', 'employeecount'],
+  companyRevenue: ['revenue', 'annualrevenue'],
+};
+
+const FIELDS_BY_NORMALIZED_HEADER = new Map<string, ImportableContactField>(
+  IMPORTABLE_CONTACT_FIELDS.flatMap((field) =>
+    [field.toLowerCase(), ...(FIELD_HEADER_ALIASES[field] ?? [])].map(
+      (header) => [header, field] as [string, ImportableContactField],
+    ),
+  ),
+);
+
+const FIELD_LABELS: Record<(typeof REQUIRED_IMPORT_FIELDS)[number], string> = {
+  email: 'Email',
+  firstName: 'First name',
+};
+
+export function normalizeImportHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Custom field key suggested for a column, e.g. "Lead Score" becomes lead_score
+ */
+export function toCustomFieldKey(header: string): string {
+  return header
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 100);
+}
+
+/**
+ * Suggest a mapping for the headers of a file
+ * Known headers map to their contact field, the first column wins when two look like the same field.
+ * Other columns are kept as custom fields, blank headers and the columns added by error reports are ignored.
+ */
+export function suggestColumnMapping(headers: string[]): ImportColumnMapping[] {
+  const usedFields = new Set<ImportableContactField>();
+  const usedCustomFields = new Set<string>();
+
+  return headers.map((column) => {
+    if (column === IMPORT_ERROR_REPORT_ROW_COLUMN || column === IMPORT_ERROR_REPORT_ERRORS_COLUMN) {
+      return { column, target: ImportColumnTarget.IGNORE };
+    }
+
+    const field = FIELDS_BY_NORMALIZED_HEADER.get(normalizeImportHeader(column));
+    if (field && !usedFields.has(field)) {
+      usedFields.add(field);
+      return { column, target: ImportColumnTarget.FIELD, field };
+    }
+
+    const customFieldName = toCustomFieldKey(column);
+    if (!customFieldName || usedCustomFields.has(customFieldName)) {
+      return { column, target: ImportColumnTarget.IGNORE };
+    }
+    usedCustomFields.add(customFieldName);
+    return { column, target: ImportColumnTarget.CUSTOM_FIELD, customFieldName };
+  });
+}
+
+/**
+ * Check a mapping against the headers of the file it is applied to
+ * @returns Problems found, empty when the mapping can be used
+ */
+export function validateColumnMapping(
+  mapping: ImportColumnMapping[],
+  headers: string[],
+): string[] {
+  const errors: string[] = [];
+  const headerSet = new Set(headers);
+  const seenColumns = new Set<string>();
+  const seenFields = new Set<string>();
+  const seenCustomFields = new Set<string>();
+
+  for (const entry of mapping) {
+    if (!headerSet.has(entry.column)) {
+      errors.push(`Column "${entry.column}" is not in the file`);
+    }
+    if (seenColumns.has(entry.column)) {
+      errors.push(`Column "${entry.column}" is mapped more than once`);
+    }
+    seenColumns.add(entry.column);
+
+    if (entry.target === ImportColumnTarget.FIELD) {
+      if (!entry.field || !(IMPORTABLE_CONTACT_FIELDS as readonly string[]).includes(entry.field)) {
+        errors.push(`Column "${entry.column}" is mapped to an unknown field`);
+      } else if (seenFields.has(entry.field)) {
+        errors.push(`Field ${entry.field} is mapped from more than one column`);
+      } else {
+        seenFields.add(entry.field);
+      }
+    } else if (entry.target === ImportColumnTarget.CUSTOM_FIELD) {
+      if (!entry.customFieldName || !CUSTOM_FIELD_KEY_PATTERN.test(entry.customFieldName)) {
+        errors.push(`Column "${entry.column}" needs a custom field name of letters, digits, underscores and dashes`);
+      } else if (seenCustomFields.has(entry.customFieldName)) {
+        errors.push(`Custom field ${entry.customFieldName} is mapped from more than one column`);
+      } else {
+        seenCustomFields.add(entry.customFieldName);
+      }
+    }
+  }
+
+  for (const field of REQUIRED_IMPORT_FIELDS) {
+    if (!seenFields.has(field)) {
+      errors.push(`${FIELD_LABELS[field]} must be mapped to a column`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * String value of a parsed cell; spreadsheet cells can hold numbers, dates, formulas and rich text
+ */
+export function importCellToString(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toISOString();
+  }
+  if (typeof value === 'object') {
+    const cell = value as Record<string, any>;
+    if (Array.isArray(cell.richText)) {
+      return cell.richText.map((part: { text?: string }) => part.text ?? '').join('').trim();
+    }
+    if (cell.text !== undefined) {
+      return importCellToString(cell.text);
+    }
+    if (cell.result !== undefined) {
+      return importCellToString(cell.result);
+    }
+    return '';
+  }
+  return String(value).trim();
+}
+
+/**
+ * Apply a mapping to a parsed row
+ * @returns The cleaned row, or null when the row has no email and no name
+ */
+export function applyColumnMapping(
+  rowData: Record<string, unknown>,
+  mapping: ImportColumnMapping[],
+): CleanedContactRow | null {
+  const row: Record<string, string> = {};
+  const customFields: Record<string, string> = {};
+
+  for (const entry of mapping) {
+    const value = importCellToString(rowData[entry.column]);
+    if (!value) {
+      continue;
+    }
+    if (entry.target === ImportColumnTarget.FIELD && entry.field) {
+      row[entry.field] = entry.field === 'email' ? value.toLowerCase() : value;
+    } else if (entry.target === ImportColumnTarget.CUSTOM_FIELD && entry.customFieldName) {
+      customFields[entry.customFieldName] = value;
+    }
+  }
+
+  if (!row.email && !row.firstName && !row.lastName) {
+    return null;
+  }
+
+  return {
+    ...row,
+    email: row.email ?? '',
+    firstName: row.firstName ?? '',
+    ...(Object.keys(customFields).length > 0 ? { customFields } : {}),
+  };
+}
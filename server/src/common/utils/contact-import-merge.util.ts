@@ -0,0 +1,100 @@
+import {
+  CUSTOM_FIELD_CHANGE_PREFIX,
+  MERGEABLE_IMPORT_FIELDS,
+} from 'src/resources/contacts/contacts.constants';
+import {
+  ContactFieldChangeEntry,
+  ContactImportOptions,
+  ContactImportStrategy,
+} from 'src/resources/contacts/dto/contact-import.interface';
+import { CleanedContactRow } from 'src/resources/contacts/dto/contact-row.dto';
+
+/**
+ * Contact Import Merge Utility
+ *
+ * Decides which values of an imported row replace the values of the contact that already has its email.
+ * Empty imported values never clear a field, and unchanged values are not reported as changes.
+ */
+
+export interface ImportMergeResult {
+  /** Attributes to update on the contact, empty when nothing changes */
+  attributes: Record<string, any>;
+  changes: ContactFieldChangeEntry[];
+}
+
+function currentValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  return String(value);
+}
+
+/**
+ * Whether an imported value may replace the current value of a field
+ * @param field - Contact field, or customFields.<key> for custom fields
+ */
+function mayReplace(
+  field: string,
+  previousValue: string | null,
+  options: ContactImportOptions,
+): boolean {
+  switch (options.strategy) {
+    case ContactImportStrategy.OVERWRITE:
+      return true;
+    case ContactImportStrategy.FILL_BLANKS:
+      return previousValue === null;
+    case ContactImportStrategy.OVERWRITE_SELECTED:
+      return (options.overwriteFields ?? []).includes(field);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Merge an imported row into an existing contact following the import strategy
+ */
+export function mergeImportedContact(
+  existing: Record<string, any>,
+  row: CleanedContactRow,
+  options: ContactImportOptions,
+): ImportMergeResult {
+  const attributes: Record<string, any> = {};
+  const changes: ContactFieldChangeEntry[] = [];
+
+  if (options.strategy === ContactImportStrategy.SKIP) {
+    return { attributes, changes };
+  }
+
+  for (const field of MERGEABLE_IMPORT_FIELDS) {
+    const newValue = row[field];
+    if (!newValue) {
+      continue;
+    }
+    const previousValue = currentValue(existing[field]);
+    if (previousValue !== newValue && mayReplace(field, previousValue, options)) {
+      attributes[field] = newValue;
+      changes.push({ field, previousValue, newValue });
+    }
+  }
+
+  if (row.customFields) {
+    const existingCustomFields =
+      existing.customFields && typeof existing.customFields === 'object' ? existing.customFields : {};
+    const customFields: Record<string, any> = { ...existingCustomFields };
+
+    for (const [key, newValue] of Object.entries(row.customFields)) {
+      const field = `${CUSTOM_FIELD_CHANGE_PREFIX}${key}`;
+      const previousValue = currentValue(existingCustomFields[key]);
+      if (newValue && previousValue !== newValue && mayReplace(field, previousValue, options)) {
+        customFields[key] = newValue;
+        changes.push({ field, previousValue, newValue });
+      }
+    }
+
+    if (changes.some((change) => change.field.startsWith(CUSTOM_FIELD_CHANGE_PREFIX))) {
+      attributes.customFields = customFields;
+    }
+  }
+
+  return { attributes, changes };
+}
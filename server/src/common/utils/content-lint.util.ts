@@ -0,0 +1,267 @@
+/** Gmail clips messages whose HTML is larger than this and hides the rest, tracking pixel included */
+export const GMAIL_CLIP_BYTES = 102 * 1024;
+
+/** HTML above this is close to clipping once tracking and the footer are added */
+const HTML_SIZE_WARNING_BYTES = 90 * 1024;
+
+/** Cold emails with more links than this look like newsletters to spam filters */
+export const MAX_RECOMMENDED_LINKS = 3;
+
+/** Visible characters expected per image for a healthy image-to-text ratio */
+const TEXT_CHARS_PER_IMAGE = 500;
+
+/** Link shorteners hide the destination and are on most spam blocklists */
+export const DEFAULT_FLAGGED_LINK_DOMAINS = [
+  'bit.ly',
+  'buff.ly',
+  'cutt.ly',
+  'goo.gl',
+  'is.gd',
+  'ow.ly',
+  'rb.gy',
+  'rebrand.ly',
+  'shorturl.at',
+  't.co',
+  'tiny.cc',
+  'tinyurl.com',
+];
+
+/** Phrases spam filters weigh heavily, matched case-insensitively on whole words */
+export const SPAM_TRIGGER_PHRASES = [
+  '100% free',
+  '100% satisfied',
+  'act now',
+  'all natural',
+  'apply now',
+  'as seen on',
+  'buy now',
+  'cash bonus',
+  'click below',
+  'click here',
+  'congratulations',
+  'dear friend',
+  'double your',
+  'earn extra cash',
+  'earn money',
+  'free access',
+  'free gift',
+  'free trial',
+  'get paid',
+  'guaranteed',
+  'increase sales',
+  'limited time',
+  'lowest price',
+  'make money',
+  'million dollars',
+  'no credit check',
+  'no obligation',
+  'once in a lifetime',
+  'order now',
+  'risk-free',
+  'special promotion',
+  'this is not spam',
+  'urgent',
+  'winner',
+  'you have been selected',
+];
+
+export type ContentIssueCode =
+  | 'BROKEN_VARIABLE'
+  | 'SPAM_PHRASES'
+  | 'TOO_MANY_LINKS'
+  | 'FLAGGED_LINK_DOMAIN'
+  | 'IMAGE_HEAVY'
+  | 'MISSING_PLAIN_TEXT'
+  | 'HTML_TOO_LARGE'
+  | 'ALL_CAPS_SUBJECT';
+
+export interface ContentIssue {
+  code: ContentIssueCode;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+  /** Points taken off the score of 100 */
+  penalty: number;
+}
+
+export interface ContentLintInput {
+  subject: string;
+  html?: string | null;
+  text?: string | null;
+  /** The email is sent as HTML, so it needs a plain-text alternative */
+  isHtml: boolean;
+  /** Syntax errors and unknown variables of the raw template */
+  variableErrors?: string[];
+}
+
+export interface ContentLintResult {
+  /** 0-100, higher is safer */
+  score: number;
+  issues: ContentIssue[];
+  linkCount: number;
+  imageCount: number;
+  htmlBytes: number;
+}
+
+/**
+ * Score rendered email content for deliverability problems spam filters and mailbox providers
+ * penalize: spam phrases, links and link domains, image-to-text ratio, missing plain text,
+ * Gmail clipping, broken variables and shouting subjects
+ */
+export function lintEmailContent(
+  input: ContentLintInput,
+  flaggedDomains: string[] = DEFAULT_FLAGGED_LINK_DOMAINS,
+): ContentLintResult {
+  const issues: ContentIssue[] = [];
+  const html = input.html || '';
+  const text = input.text || '';
+  const visibleText = html ? htmlToVisibleText(html) : text;
+
+  for (const error of input.variableErrors || []) {
+    issues.push({ code: 'BROKEN_VARIABLE', severity: 'ERROR', message: error, penalty: 25 });
+  }
+  const singleBraced = findSingleBracedVariables(`${input.subject}\n${visibleText}`);
+  if (singleBraced.length > 0) {
+    issues.push({
+      code: 'BROKEN_VARIABLE',
+      severity: 'WARNING',
+      message: `Variables need double braces: ${singleBraced.join(', ')}`,
+      penalty: 10,
+    });
+  }
+
+  const phrases = findSpamPhrases(`${input.subject}\n${visibleText}`);
+  if (phrases.length > 0) {
+    issues.push({
+      code: 'SPAM_PHRASES',
+      severity: 'WARNING',
+      message: `Spam-trigger phrases: ${phrases.join(', ')}`,
+      penalty: Math.min(phrases.length * 5, 30),
+    });
+  }
+
+  const links = extractLinks(html, text);
+  if (links.length > MAX_RECOMMENDED_LINKS) {
+    issues.push({
+      code: 'TOO_MANY_LINKS',
+      severity: 'WARNING',
+      message: `${links.length} links, keep cold emails to ${MAX_RECOMMENDED_LINKS} or fewer`,
+      penalty: Math.min((links.length - MAX_RECOMMENDED_LINKS) * 5, 20),
+    });
+  }
+
+  const flagged = Array.from(new Set(links.map(getHostname).filter((host) => isFlagged(host, flaggedDomains))));
+  for (const host of flagged) {
+    issues.push({
+      code: 'FLAGGED_LINK_DOMAIN',
+      severity: 'ERROR',
+      message: `Links to ${host}, a domain on the link reputation list`,
+      penalty: 20,
+    });
+  }
+
+  const imageCount = (html.match(/<img\b/gi) || []).length;
+  const textLength = visibleText.replace(/\s+/g, '').length;
+  if (imageCount > 0 && textLength < 100) {
+    issues.push({ code: 'IMAGE_HEAVY', severity: 'ERROR', message: 'The email is mostly images with almost no text', penalty: 30 });
+  } else if (imageCount > 0 && textLength < imageCount * TEXT_CHARS_PER_IMAGE) {
+    issues.push({
+      code: 'IMAGE_HEAVY',
+      severity: 'WARNING',
+      message: `${imageCount} image(s) for ${textLength} characters of text, add text or remove images`,
+      penalty: 15,
+    });
+  }
+
+  if (input.isHtml && !text.trim()) {
+    issues.push({
+      code: 'MISSING_PLAIN_TEXT',
+      severity: 'WARNING',
+      message: 'HTML email without a plain-text version',
+      penalty: 10,
+    });
+  }
+
+  const htmlBytes = Buffer.byteLength(html, 'utf8');
+  if (htmlBytes > GMAIL_CLIP_BYTES) {
+    issues.push({
+      code: 'HTML_TOO_LARGE',
+      severity: 'ERROR',
+      message: `HTML is ${formatKb(htmlBytes)}, Gmail clips emails above ${formatKb(GMAIL_CLIP_BYTES)}`,
+      penalty: 25,
+    });
+  } else if (htmlBytes > HTML_SIZE_WARNING_BYTES) {
+    issues.push({
+      code: 'HTML_TOO_LARGE',
+      severity: 'WARNING',
+      message: `HTML is ${formatKb(htmlBytes)}, close to the ${formatKb(GMAIL_CLIP_BYTES)} Gmail clipping limit`,
+      penalty: 10,
+    });
+  }
+
+  if (isShouting(input.subject)) {
+    issues.push({ code: 'ALL_CAPS_SUBJECT', severity: 'WARNING', message: 'The subject is written in capitals', penalty: 15 });
+  }
+
+  const penalty = issues.reduce((sum, issue) => sum + issue.penalty, 0);
+  return { score: Math.max(0, 100 - penalty), issues, linkCount: links.length, imageCount, htmlBytes };
+}
+
+function htmlToVisibleText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&amp;/gi, '&')
+    .replace(/&#?\w+;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function findSpamPhrases(content: string): string[] {
+  const lower = content.toLowerCase();
+  return SPAM_TRIGGER_PHRASES.filter((phrase) => {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower);
+  });
+}
+
+/** `{firstName}` or `{{firstName}` render as plain text instead of the contact's value */
+function findSingleBracedVariables(content: string): string[] {
+  const matches = content.match(/(?<!\{)\{\{?\s*[A-Za-z_][\w.]*\s*\}(?!\})|(?<!\{)\{\s*[A-Za-z_][\w.]*\s*\}\}/g) || [];
+  return Array.from(new Set(matches.map((match) => match.trim())));
+}
+
+function extractLinks(html: string, text: string): string[] {
+  const links: string[] = [];
+  for (const match of html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)) {
+    if (/^https?:\/\//i.test(match[1])) links.push(match[1]);
+  }
+  if (!html) {
+    links.push(...(text.match(/https?:\/\/[^\s<>"')]+/gi) || []));
+  }
+  return links;
+}
+
+function getHostname(url: string): string {
+  try {
+    return new URL(url.replace(/&amp;/g, '&')).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+function isFlagged(host: string, flaggedDomains: string[]): boolean {
+  return !!host && flaggedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+/** Mostly capital letters, ignoring short subjects and acronyms */
+function isShouting(subject: string): boolean {
+  const letters = subject.replace(/[^A-Za-z]/g, '');
+  if (letters.length < 8) return false;
+  const upper = letters.replace(/[^A-Z]/g, '').length;
+  return upper / letters.length >= 0.7;
+}
+
+function formatKb(bytes: number): string {
+  return `${Math.round(bytes / 1024)}KB`;
+}
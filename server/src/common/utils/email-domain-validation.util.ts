@@ -1,10 +1,15 @@
 import { BadRequestException } from '@nestjs/common';
+import { MailboxProvider } from 'src/resources/users/entities/gmail-oauth-token.entity';
 
 /**
  * Validates email domain for workspace accounts
  * Rejects personal Gmail accounts and invalid email formats
+ * SMTP mailboxes (Microsoft 365, generic hosts) only need a valid address
  */
-export function validateEmailDomain(email: string): void {
+export function validateEmailDomain(
+  email: string,
+  provider: MailboxProvider = MailboxProvider.GMAIL,
+): void {
   if (!email) {
     throw new BadRequestException('Email is required');
   }
@@ -15,10 +20,9 @@ export function validateEmailDomain(email: string): void {
     throw new BadRequestException('Invalid email format');
   }
 
-  if (emailDomain.toLowerCase() === 'gmail.com') {
+  if (provider === MailboxProvider.GMAIL && emailDomain.toLowerCase() === 'gmail.com') {
     throw new BadRequestException(
       'Personal Gmail accounts are not supported. Please sign in with your Google Workspace account (e.g., yourname@yourcompany.com).',
     );
   }
 }
-
@@ -0,0 +1,133 @@
+import { CampaignVerificationFilter } from 'src/resources/campaigns/entities/campaign.entity';
+import { EmailSkipReason } from 'src/resources/campaigns/entities/email-message.entity';
+import { EmailVerificationStatus } from 'src/resources/contacts/entities/contact.entity';
+import { DISPOSABLE_EMAIL_DOMAINS } from 'src/resources/email-verification/data/disposable-domains';
+import { ROLE_ACCOUNT_LOCAL_PARTS } from 'src/resources/email-verification/email-verification.constants';
+
+/**
+ * Email Verification Utility
+ *
+ * The checks of an address that need no network: RFC 5322 syntax, role accounts and disposable domains,
+ * and which verification statuses a campaign's verification filter skips.
+ */
+
+export interface ParsedEmailAddress {
+  localPart: string;
+  /** Lowercased */
+  domain: string;
+}
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+
+/** RFC 5322 dot-atom of atext characters */
+const DOT_ATOM_PATTERN = /^[A-Za-z0-9!#$%&'*+\/=?^_`{|}~-]+(\.[A-Za-z0-9!#$%&'*+\/=?^_`{|}~-]+)*$/;
+/** RFC 5322 quoted-string without folding whitespace: printable characters, quoted pairs for " and \ */
+const QUOTED_STRING_PATTERN = /^"([\x20\x21\x23-\x5b\x5d-\x7e]|\\[\x20-\x7e])*"$/;
+/** RFC 5321 host name label, punycode (xn--) labels included */
+const DOMAIN_LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/;
+
+const ROLE_ACCOUNTS = new Set(ROLE_ACCOUNT_LOCAL_PARTS);
+const DISPOSABLE_DOMAINS = new Set(DISPOSABLE_EMAIL_DOMAINS);
+
+/**
+ * Split an RFC 5322 addr-spec into local part and domain
+ * Comments, folding whitespace and address literals ([192.0.2.1]) are rejected, mail can't be routed to them
+ * by a DNS lookup. The domain must be a host name with at least two labels and a non-numeric top-level label.
+ * @returns null when the address is not valid
+ */
+export function parseEmailAddress(email: string | null | undefined): ParsedEmailAddress | null {
+  const address = (email || '').trim();
+  const at = address.lastIndexOf('@');
+  if (at <= 0 || address.length > MAX_ADDRESS_LENGTH) {
+    return null;
+  }
+
+  const localPart = address.slice(0, at);
+  const domain = address.slice(at + 1).toLowerCase();
+
+  if (localPart.length > MAX_LOCAL_PART_LENGTH) {
+    return null;
+  }
+  if (!DOT_ATOM_PATTERN.test(localPart) && !QUOTED_STRING_PATTERN.test(localPart)) {
+    return null;
+  }
+
+  if (!domain || domain.length > MAX_DOMAIN_LENGTH) {
+    return null;
+  }
+  const labels = domain.split('.');
+  if (labels.length < 2 || !labels.every((label) => DOMAIN_LABEL_PATTERN.test(label))) {
+    return null;
+  }
+  if (/^[0-9]+$/.test(labels[labels.length - 1])) {
+    return null;
+  }
+
+  return { localPart, domain };
+}
+
+/**
+ * Whether the local part is a shared mailbox such as info@ or sales@, a +tag is ignored
+ */
+export function isRoleAccount(localPart: string): boolean {
+  const base = localPart.toLowerCase().split('+')[0];
+  return ROLE_ACCOUNTS.has(base);
+}
+
+/**
+ * Whether the domain, or a domain it is a subdomain of, is a throwaway mailbox provider
+ * @param extraDomains - Lowercased domains added to the bundled list
+ */
+export function isDisposableDomain(domain: string, extraDomains: readonly string[] = []): boolean {
+  const labels = domain.toLowerCase().split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    const candidate = labels.slice(i).join('.');
+    if (DISPOSABLE_DOMAINS.has(candidate) || extraDomains.includes(candidate)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Verification statuses a campaign with this filter doesn't send to
+ */
+export function getExcludedVerificationStatuses(
+  filter: CampaignVerificationFilter | null | undefined,
+): EmailVerificationStatus[] {
+  switch (filter) {
+    case CampaignVerificationFilter.EXCLUDE_RISKY:
+      return [EmailVerificationStatus.FAILED, EmailVerificationStatus.RISKY];
+    case CampaignVerificationFilter.VERIFIED_ONLY:
+      return Object.values(EmailVerificationStatus).filter(
+        (status) => status !== EmailVerificationStatus.VERIFIED,
+      );
+    default:
+      return [];
+  }
+}
+
+/**
+ * Why a campaign with this filter skips a contact, null when it sends to it
+ * Contacts without a status count as UNVERIFIED.
+ */
+export function getVerificationSkipReason(
+  status: EmailVerificationStatus | null | undefined,
+  filter: CampaignVerificationFilter | null | undefined,
+): EmailSkipReason | null {
+  const contactStatus = status || EmailVerificationStatus.UNVERIFIED;
+  if (!getExcludedVerificationStatuses(filter).includes(contactStatus)) {
+    return null;
+  }
+
+  switch (contactStatus) {
+    case EmailVerificationStatus.FAILED:
+      return EmailSkipReason.INVALID_EMAIL;
+    case EmailVerificationStatus.RISKY:
+      return EmailSkipReason.RISKY_EMAIL;
+    default:
+      return EmailSkipReason.UNVERIFIED_EMAIL;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * List-Unsubscribe Utility
+ *
+ * Builds the RFC 2369 List-Unsubscribe and RFC 8058 List-Unsubscribe-Post headers.
+ * Mailbox providers show their own unsubscribe button for these and POST
+ * `List-Unsubscribe=One-Click` to the HTTPS URL when the recipient clicks it.
+ * Clients without one-click support email the mailto target instead, reply detection
+ * unsubscribes the sender of those emails.
+ */
+
+export interface ListUnsubscribeOptions {
+  /** Signed HTTPS unsubscribe URL, must accept the one-click POST */
+  url: string;
+  /** Address receiving unsubscribe requests from clients without one-click support */
+  mailto?: string;
+}
+
+export const ONE_CLICK_UNSUBSCRIBE_BODY = 'List-Unsubscribe=One-Click';
+
+/** Subject of the emails sent to the mailto target */
+export const MAILTO_UNSUBSCRIBE_SUBJECT = 'unsubscribe';
+
+export function buildListUnsubscribeHeaders(options: ListUnsubscribeOptions): Record<string, string> {
+  const targets = [`<${options.url}>`];
+  if (options.mailto) {
+    targets.unshift(`<mailto:${options.mailto}?subject=${MAILTO_UNSUBSCRIBE_SUBJECT}>`);
+  }
+
+  return {
+    'List-Unsubscribe': targets.join(', '),
+    'List-Unsubscribe-Post': ONE_CLICK_UNSUBSCRIBE_BODY,
+  };
+}
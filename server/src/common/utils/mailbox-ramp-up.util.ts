@@ -0,0 +1,128 @@
+import {
+  MailboxRampUp,
+  MailboxRampUpPreset,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+
+/**
+ * Mailbox Ramp-Up Utility
+ *
+ * New mailboxes have no sending reputation, so their daily limit starts low and grows each
+ * day until it reaches the subscription plan's limit. Ramp days are UTC days, like the
+ * mailbox quota reset.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest custom curve accepted, in days */
+export const MAX_RAMP_UP_CURVE_DAYS = 90;
+
+/** How far ahead to look for the day a ramp reaches the plan limit */
+const MAX_RAMP_UP_LOOKAHEAD_DAYS = 365;
+
+/** Ramp-up applied to newly connected mailboxes */
+export const DEFAULT_RAMP_UP_PRESET = MailboxRampUpPreset.STANDARD;
+
+export const RAMP_UP_PRESETS: Record<
+  Exclude<MailboxRampUpPreset, MailboxRampUpPreset.CUSTOM>,
+  { startVolume: number; dailyGrowthPercent: number }
+> = {
+  [MailboxRampUpPreset.CONSERVATIVE]: { startVolume: 5, dailyGrowthPercent: 5 },
+  [MailboxRampUpPreset.STANDARD]: { startVolume: 10, dailyGrowthPercent: 10 },
+  [MailboxRampUpPreset.AGGRESSIVE]: { startVolume: 20, dailyGrowthPercent: 20 },
+};
+
+export interface MailboxRampUpProgress {
+  preset: MailboxRampUpPreset;
+  /** Ramp day, 1 on the day the ramp started */
+  day: number;
+  /** Today's limit with the ramp applied */
+  dailyLimit: number;
+  planDailyLimit: number;
+  /** The mailbox sends at the plan limit */
+  completed: boolean;
+  /** UTC date (YYYY-MM-DD) the plan limit is reached, null when it never is */
+  completesOn: string | null;
+}
+
+/**
+ * Ramp-up schedule of a preset, starting now
+ */
+export function createRampUp(
+  preset: Exclude<MailboxRampUpPreset, MailboxRampUpPreset.CUSTOM>,
+  startedAt: Date = new Date(),
+): MailboxRampUp {
+  return { preset, ...RAMP_UP_PRESETS[preset], curve: null, startedAt: startedAt.toISOString() };
+}
+
+function getUtcDayStart(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Zero-based ramp day of a date, days before the start count as the first day
+ */
+function getRampDayIndex(rampUp: MailboxRampUp, date: Date): number {
+  const days = Math.floor((getUtcDayStart(date) - getUtcDayStart(new Date(rampUp.startedAt))) / DAY_MS);
+  return Math.max(0, days);
+}
+
+function getLimitForDayIndex(rampUp: MailboxRampUp, dayIndex: number, planDailyLimit: number): number {
+  let limit: number;
+  if (rampUp.curve && rampUp.curve.length > 0) {
+    limit = dayIndex < rampUp.curve.length ? rampUp.curve[dayIndex] : planDailyLimit;
+  } else {
+    limit = Math.round(rampUp.startVolume * Math.pow(1 + rampUp.dailyGrowthPercent / 100, dayIndex));
+  }
+  return Math.max(1, Math.min(planDailyLimit, limit));
+}
+
+/**
+ * Daily limit of a mailbox on a date
+ * @param rampUp Mailbox ramp-up schedule, null sends at the plan limit
+ * @param planDailyLimit Daily limit of the subscription plan
+ * @param date Day to get the limit for (defaults to today)
+ */
+export function getRampUpDailyLimit(
+  rampUp: MailboxRampUp | null | undefined,
+  planDailyLimit: number,
+  date: Date = new Date(),
+): number {
+  if (!rampUp) {
+    return planDailyLimit;
+  }
+  return getLimitForDayIndex(rampUp, getRampDayIndex(rampUp, date), planDailyLimit);
+}
+
+/**
+ * Where a mailbox is in its ramp-up schedule, null when it has none
+ */
+export function getRampUpProgress(
+  rampUp: MailboxRampUp | null | undefined,
+  planDailyLimit: number,
+  date: Date = new Date(),
+): MailboxRampUpProgress | null {
+  if (!rampUp) {
+    return null;
+  }
+
+  const dayIndex = getRampDayIndex(rampUp, date);
+  const dailyLimit = getLimitForDayIndex(rampUp, dayIndex, planDailyLimit);
+
+  let completesOn: string | null = null;
+  for (let index = dayIndex; index <= dayIndex + MAX_RAMP_UP_LOOKAHEAD_DAYS; index++) {
+    if (getLimitForDayIndex(rampUp, index, planDailyLimit) >= planDailyLimit) {
+      const startDay = getUtcDayStart(new Date(rampUp.startedAt));
+      completesOn = new Date(startDay + index * DAY_MS).toISOString().slice(0, 10);
+      break;
+    }
+  }
+
+  return {
+    preset: rampUp.preset,
+    day: dayIndex + 1,
+    dailyLimit,
+    planDailyLimit,
+    completed: dailyLimit >= planDailyLimit,
+    completesOn,
+  };
+}
@@ -0,0 +1,362 @@
+import * as moment from 'moment-timezone';
+
+/**
+ * Personalization Template Utility
+ *
+ * Parses and renders the personalization language of email templates:
+ * - Variables with filters: {{firstName | default: "there"}}, {{custom.plan_tier | upper}}
+ * - Conditionals: {% if company %}…{% else %}…{% endif %}, {% if not company %}, {% if custom.plan == "pro" %}
+ * - Spintax: {Hi|Hello|Hey}, options can contain variables and nest
+ *
+ * Single braces without a `|` (CSS rules, JSON) are kept as text.
+ */
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: TemplateFilter[] }
+  | { type: 'if'; condition: TemplateCondition; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'spin'; options: TemplateNode[][] };
+
+export interface TemplateFilter {
+  name: string;
+  args: string[];
+}
+
+export interface TemplateCondition {
+  path: string;
+  negate: boolean;
+  operator?: '==' | '!=';
+  value?: string;
+}
+
+export interface TemplateRenderContext {
+  /** Value of a variable path, e.g. `firstName` or `custom.plan_tier` */
+  resolve: (path: string) => unknown;
+  /** Seed for spintax so the same recipient always gets the same variation */
+  seed?: string;
+}
+
+export interface TemplateRenderResult {
+  output: string;
+  /** Variables rendered empty without a default */
+  missing: string[];
+}
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+const PATH_PATTERN = /^[A-Za-z_]\w*(\.[\w-]+)?$/;
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const FILTERS: Record<string, (value: unknown, args: string[]) => unknown> = {
+  default: (value, [fallback = '']) => (isEmpty(value) ? fallback : value),
+  capitalize: (value) => (isEmpty(value) ? value : capitalize(String(value).trim())),
+  title: (value) =>
+    isEmpty(value) ? value : String(value).trim().toLowerCase().replace(/(^|[\s-])\S/g, (match) => match.toUpperCase()),
+  upper: (value) => (isEmpty(value) ? value : String(value).toUpperCase()),
+  lower: (value) => (isEmpty(value) ? value : String(value).toLowerCase()),
+  trim: (value) => (isEmpty(value) ? value : String(value).trim()),
+  date: (value, [format = 'MMMM D, YYYY']) => {
+    if (isEmpty(value)) return value;
+    const date = moment.utc(value as moment.MomentInput);
+    return date.isValid() ? date.format(format) : value;
+  },
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+/**
+ * Split on a separator outside of quoted strings
+ */
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (quote) {
+    throw new TemplateSyntaxError(`Unclosed quote in "${source}"`);
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseLiteral(source: string): string {
+  const value = source.trim();
+  const quoted = value.match(/^(["'])([\s\S]*)\1$/);
+  return quoted ? quoted[2] : value;
+}
+
+function parsePath(source: string): string {
+  const path = source.trim();
+  if (!PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`Invalid variable "${path}"`);
+  }
+  return path;
+}
+
+function parseVariableExpression(source: string): TemplateNode {
+  const [pathPart, ...filterParts] = splitOutsideQuotes(source, '|');
+  const filters = filterParts.map((part) => {
+    const match = part.trim().match(/^(\w+)\s*(?::([\s\S]*))?$/);
+    if (!match) {
+      throw new TemplateSyntaxError(`Invalid filter "${part.trim()}"`);
+    }
+    const [, name, args] = match;
+    if (!FILTERS[name]) {
+      throw new TemplateSyntaxError(`Unknown filter "${name}"`);
+    }
+    return { name, args: args === undefined ? [] : splitOutsideQuotes(args, ',').map(parseLiteral) };
+  });
+
+  return { type: 'variable', path: parsePath(pathPart), filters };
+}
+
+function parseCondition(source: string): TemplateCondition {
+  const match = source.trim().match(/^(not\s+)?([^\s=!]+)\s*(?:(==|!=)\s*([\s\S]+))?$/);
+  if (!match) {
+    throw new TemplateSyntaxError(`Invalid condition "${source.trim()}"`);
+  }
+  const [, not, path, operator, value] = match;
+  return {
+    path: parsePath(path),
+    negate: !!not,
+    ...(operator ? { operator: operator as '==' | '!=', value: parseLiteral(value) } : {}),
+  };
+}
+
+type Terminator = 'else' | 'endif' | '|' | '}' | null;
+
+class TemplateParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): TemplateNode[] {
+    const { nodes, end } = this.parseNodes(false);
+    if (end) {
+      throw new TemplateSyntaxError(`Unexpected {% ${end} %} without {% if %}`);
+    }
+    return nodes;
+  }
+
+  private parseNodes(inSpin: boolean): { nodes: TemplateNode[]; end: Terminator } {
+    const nodes: TemplateNode[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ type: 'text', value: text });
+      text = '';
+    };
+
+    while (this.pos < this.source.length) {
+      if (this.source.startsWith('{{', this.pos)) {
+        flush();
+        nodes.push(parseVariableExpression(this.readUntil('}}', '{{')));
+        continue;
+      }
+
+      if (this.source.startsWith('{%', this.pos)) {
+        const tagStart = this.pos;
+        const tag = this.readUntil('%}', '{%').trim();
+        const [name] = tag.split(/\s+/, 1);
+        if (name === 'if') {
+          flush();
+          nodes.push(this.parseIf(tag.slice(2)));
+          continue;
+        }
+        if (name === 'else' || name === 'endif') {
+          flush();
+          // Leave the tag for the enclosing if when a spin attempt stops on it
+          if (inSpin) this.pos = tagStart;
+          return { nodes, end: name };
+        }
+        throw new TemplateSyntaxError(`Unknown tag {% ${tag} %}`);
+      }
+
+      const char = this.source[this.pos];
+      if (char === '{') {
+        const spin = this.tryParseSpin();
+        if (spin) {
+          flush();
+          nodes.push(spin);
+        } else {
+          text += char;
+          this.pos++;
+        }
+        continue;
+      }
+
+      if (inSpin && (char === '|' || char === '}')) {
+        flush();
+        this.pos++;
+        return { nodes, end: char };
+      }
+
+      text += char;
+      this.pos++;
+    }
+
+    flush();
+    return { nodes, end: null };
+  }
+
+  private parseIf(conditionSource: string): TemplateNode {
+    const condition = parseCondition(conditionSource);
+    const body = this.parseNodes(false);
+    let elseNodes: TemplateNode[] = [];
+    let end = body.end;
+
+    if (end === 'else') {
+      const elseBody = this.parseNodes(false);
+      elseNodes = elseBody.nodes;
+      end = elseBody.end;
+    }
+    if (end !== 'endif') {
+      throw new TemplateSyntaxError(`Missing {% endif %} for {% if ${conditionSource.trim()} %}`);
+    }
+
+    return { type: 'if', condition, then: body.nodes, else: elseNodes };
+  }
+
+  /**
+   * Parse {a|b} at the current position, or return null (position unchanged) when the brace is plain text
+   */
+  private tryParseSpin(): TemplateNode | null {
+    const start = this.pos;
+    this.pos++;
+    const options: TemplateNode[][] = [];
+
+    while (true) {
+      const { nodes, end } = this.parseNodes(true);
+      options.push(nodes);
+      if (end === '|') continue;
+      if (end === '}' && options.length > 1) {
+        return { type: 'spin', options };
+      }
+      this.pos = start;
+      return null;
+    }
+  }
+
+  private readUntil(close: string, open: string): string {
+    const end = this.source.indexOf(close, this.pos + open.length);
+    if (end === -1) {
+      throw new TemplateSyntaxError(`Unclosed ${open} at position ${this.pos}`);
+    }
+    const inner = this.source.slice(this.pos + open.length, end);
+    this.pos = end + close.length;
+    return inner;
+  }
+}
+
+/**
+ * Parse template source
+ * @throws TemplateSyntaxError
+ */
+export function parseTemplate(source: string): TemplateNode[] {
+  return new TemplateParser(source || '').parse();
+}
+
+/**
+ * FNV-1a hash, used to pick spintax options deterministically
+ */
+function hash(value: string): number {
+  let result = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i);
+    result = Math.imul(result, 0x01000193);
+  }
+  return result >>> 0;
+}
+
+function toText(value: unknown): string {
+  if (isEmpty(value)) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function renderTemplate(nodes: TemplateNode[], context: TemplateRenderContext): TemplateRenderResult {
+  const missing = new Set<string>();
+  let spinIndex = 0;
+
+  const evaluate = (condition: TemplateCondition): boolean => {
+    const value = context.resolve(condition.path);
+    let result: boolean;
+    if (condition.operator) {
+      const equal = toText(value).trim().toLowerCase() === (condition.value || '').trim().toLowerCase();
+      result = condition.operator === '==' ? equal : !equal;
+    } else {
+      result = !isEmpty(value) && value !== false;
+    }
+    return condition.negate ? !result : result;
+  };
+
+  const render = (list: TemplateNode[]): string =>
+    list
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return node.value;
+          case 'variable': {
+            const value = node.filters.reduce(
+              (current, filter) => FILTERS[filter.name](current, filter.args),
+              context.resolve(node.path),
+            );
+            const text = toText(value);
+            if (!text) missing.add(node.path);
+            return text;
+          }
+          case 'if':
+            return render(evaluate(node.condition) ? node.then : node.else);
+          case 'spin': {
+            const choice = hash(`${context.seed ?? ''}:${spinIndex++}`) % node.options.length;
+            return render(node.options[choice]);
+          }
+        }
+      })
+      .join('');
+
+  const output = render(nodes);
+  return { output, missing: Array.from(missing) };
+}
+
+/**
+ * Variable paths referenced anywhere in a template, including conditions and every spintax option
+ */
+export function collectTemplateVariables(nodes: TemplateNode[]): string[] {
+  const paths = new Set<string>();
+  const visit = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.type === 'variable') {
+        paths.add(node.path);
+      } else if (node.type === 'if') {
+        paths.add(node.condition.path);
+        visit(node.then);
+        visit(node.else);
+      } else if (node.type === 'spin') {
+        node.options.forEach(visit);
+      }
+    }
+  };
+  visit(nodes);
+  return Array.from(paths);
+}
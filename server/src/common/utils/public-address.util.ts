@@ -0,0 +1,147 @@
+import * as dns from 'dns';
+import { BlockList, LookupFunction, isIP } from 'net';
+
+/**
+ * Public Address Utility
+ *
+ * Keeps requests the server makes to user supplied URLs (webhook endpoints) away from internal
+ * services: loopback, private, link-local (cloud metadata), shared, multicast and reserved
+ * addresses are refused, for the URL's host and again for the address a connection resolves to.
+ */
+
+const NON_PUBLIC_ADDRESSES = new BlockList();
+
+const NON_PUBLIC_IPV4_SUBNETS: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Shared address space (CGNAT), cloud metadata of some providers
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // Documentation
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['198.51.100.0', 24], // Documentation
+  ['203.0.113.0', 24], // Documentation
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+const NON_PUBLIC_IPV6_SUBNETS: Array<[string, number]> = [
+  ['::', 128], // Unspecified
+  ['::1', 128], // Loopback
+  ['64:ff9b::', 96], // NAT64 of IPv4 addresses
+  ['100::', 64], // Discard
+  ['2001:db8::', 32], // Documentation
+  ['fc00::', 7], // Unique local, AWS metadata (fd00:ec2::254)
+  ['fe80::', 10], // Link-local
+  ['ff00::', 8], // Multicast
+];
+
+// BlockList also matches IPv4-mapped IPv6 addresses (::ffff:a9fe:a9fe) against the IPv4 subnets
+NON_PUBLIC_IPV4_SUBNETS.forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+NON_PUBLIC_IPV6_SUBNETS.forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+const IPV4_MAPPED_PATTERN = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i;
+
+/**
+ * Whether an IP address is reachable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = address.match(IPV4_MAPPED_PATTERN);
+  if (mapped) {
+    return isPublicAddress(mapped[1]);
+  }
+
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Host name of a URL without the brackets of IPv6 literals
+ */
+function getUrlHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Why a URL whose host is an IP address can't be requested, without DNS lookups
+ * @returns null when the host is a public address or a host name
+ */
+export function getLiteralAddressError(url: string): string | null {
+  const hostname = getUrlHostname(url);
+  if (!hostname) {
+    return 'The URL is invalid';
+  }
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    return `${hostname} is not a public address`;
+  }
+  return null;
+}
+
+const lookupAllAddresses = async (hostname: string): Promise<string[]> =>
+  (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+/**
+ * Why a URL can't be requested from the server
+ * Every address the host resolves to must be public.
+ * @returns null when the URL can be requested
+ */
+export async function getPublicUrlError(
+  url: string,
+  lookupAll: (hostname: string) => Promise<string[]> = lookupAllAddresses,
+): Promise<string | null> {
+  const literalError = getLiteralAddressError(url);
+  const hostname = getUrlHostname(url);
+  if (literalError || !hostname || isIP(hostname)) {
+    return literalError;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await lookupAll(hostname);
+  } catch {
+    return `${hostname} could not be resolved`;
+  }
+  if (addresses.length === 0) {
+    return `${hostname} could not be resolved`;
+  }
+
+  const nonPublic = addresses.find((address) => !isPublicAddress(address));
+  return nonPublic ? `${hostname} resolves to ${nonPublic}, which is not a public address` : null;
+}
+
+/**
+ * dns.lookup for HTTP agents that refuses non-public addresses
+ * The check runs on the address the connection uses, so a host re-pointed after it was validated
+ * (DNS rebinding) can't reach internal services.
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address, family) => {
+    if (error) {
+      callback(error, address, family);
+      return;
+    }
+
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    const nonPublic = addresses.find((entry) => !isPublicAddress(entry));
+    if (nonPublic) {
+      const blocked: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to ${nonPublic}, which is not a public address`,
+      );
+      blocked.code = 'ENONPUBLIC';
+      callback(blocked, address, family);
+      return;
+    }
+
+    callback(null, address, family);
+  });
+};
@@ -0,0 +1,139 @@
+/**
+ * Return Date Utility
+ *
+ * Reads the return date out of an out-of-office reply ("I'm back on March 3rd",
+ * "out of the office until 12/03/2026", "returning Monday").
+ * Dates without a year are taken in the year that puts them after the reply.
+ * Numeric dates are read month first unless the first number can't be a month.
+ */
+
+const MONTHS = [
+  'jan', 'feb', 'mar', 'apr', 'may', 'jun',
+  'jul', 'aug', 'sep', 'oct', 'nov', 'dec',
+];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const MONTH_NAME = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DAY = '(\\d{1,2})(?:st|nd|rd|th)?';
+const YEAR = '(?:,?\\s*(\\d{4}))?';
+
+const DATE_PATTERNS: Array<{ regex: RegExp; parse: (match: RegExpExecArray, receivedAt: Date) => Date | null }> = [
+  {
+    // 2026-03-15
+    regex: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/i,
+    parse: (m) => buildDate(+m[1], +m[2] - 1, +m[3]),
+  },
+  {
+    // 03/15/2026, 15.03.2026, 3/15
+    regex: /\b(\d{1,2})[/.](\d{1,2})(?:[/.](\d{2,4}))?\b/,
+    parse: (m, receivedAt) => {
+      let month = +m[1];
+      let day = +m[2];
+      if (month > 12) {
+        [month, day] = [day, month];
+      }
+      return resolveYear(m[3] ? normalizeYear(+m[3]) : null, month - 1, day, receivedAt);
+    },
+  },
+  {
+    // March 15th, 2026
+    regex: new RegExp(`\\b${MONTH_NAME}\\s+${DAY}\\b${YEAR}`, 'i'),
+    parse: (m, receivedAt) => resolveYear(m[3] ? +m[3] : null, monthIndex(m[1]), +m[2], receivedAt),
+  },
+  {
+    // 15th of March 2026
+    regex: new RegExp(`\\b${DAY}\\s+(?:of\\s+)?${MONTH_NAME}\\b${YEAR}`, 'i'),
+    parse: (m, receivedAt) => resolveYear(m[3] ? +m[3] : null, monthIndex(m[2]), +m[1], receivedAt),
+  },
+  {
+    // Monday
+    regex: /\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i,
+    parse: (m, receivedAt) => {
+      const target = WEEKDAYS.indexOf(m[1].toLowerCase());
+      const date = startOfDay(receivedAt);
+      const days = ((target - date.getUTCDay() + 7) % 7) || 7;
+      date.setUTCDate(date.getUTCDate() + days);
+      return date;
+    },
+  },
+  {
+    regex: /\btomorrow\b/i,
+    parse: (_m, receivedAt) => {
+      const date = startOfDay(receivedAt);
+      date.setUTCDate(date.getUTCDate() + 1);
+      return date;
+    },
+  },
+];
+
+/** Words introducing the return date, the date is looked for right after them */
+const RETURN_TRIGGER = /\b(?:back|return(?:s|ing)?|in the office|until|till|through|thru)\b/gi;
+const TRIGGER_WINDOW = 60;
+const MAX_RETURN_DAYS = 365;
+
+/**
+ * @returns the first return date found after the reply was received, null when there is none
+ */
+export function extractReturnDate(text: string, receivedAt: Date = new Date()): Date | null {
+  if (!text) return null;
+
+  const trigger = new RegExp(RETURN_TRIGGER.source, RETURN_TRIGGER.flags);
+  let match: RegExpExecArray | null;
+  while ((match = trigger.exec(text)) !== null) {
+    const window = text.substr(match.index + match[0].length, TRIGGER_WINDOW);
+    const date = findFirstDate(window, receivedAt);
+    if (date && isPlausibleReturnDate(date, receivedAt)) {
+      return date;
+    }
+  }
+  return null;
+}
+
+function findFirstDate(window: string, receivedAt: Date): Date | null {
+  let first: { index: number; date: Date } | null = null;
+  for (const pattern of DATE_PATTERNS) {
+    const match = pattern.regex.exec(window);
+    if (!match || (first && match.index >= first.index)) continue;
+
+    const date = pattern.parse(match, receivedAt);
+    if (date) {
+      first = { index: match.index, date };
+    }
+  }
+  return first?.date || null;
+}
+
+function isPlausibleReturnDate(date: Date, receivedAt: Date): boolean {
+  const days = (date.getTime() - startOfDay(receivedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return days > 0 && days <= MAX_RETURN_DAYS;
+}
+
+function resolveYear(year: number | null, month: number, day: number, receivedAt: Date): Date | null {
+  if (year !== null) {
+    return buildDate(year, month, day);
+  }
+  const date = buildDate(receivedAt.getUTCFullYear(), month, day);
+  if (date && date < startOfDay(receivedAt)) {
+    return buildDate(receivedAt.getUTCFullYear() + 1, month, day);
+  }
+  return date;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  if (month < 0 || month > 11 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month, day));
+  // Rejects overflowing days such as February 30
+  return date.getUTCMonth() === month ? date : null;
+}
+
+function normalizeYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function monthIndex(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import * as moment from 'moment-timezone';
+import { SendingWindow } from 'src/resources/campaigns/entities/campaign.entity';
+import { isValidTimezone } from './timezone-validation.util';
+
+/**
+ * Sending Window Utility
+ *
+ * A sending window limits campaign emails to some weekdays and hours (e.g. Mon-Fri 09:00-17:00),
+ * minus holiday dates. Window hours are local to the timezone passed in, all dates are UTC.
+ */
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** How far ahead to look for an open window before giving up */
+const MAX_WINDOW_LOOKAHEAD_DAYS = 366;
+
+function parseTime(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(':').map((part) => parseInt(part, 10));
+  return { hour, minute };
+}
+
+function getWindowBounds(
+  day: moment.Moment,
+  window: SendingWindow,
+): { start: moment.Moment; end: moment.Moment } {
+  const start = parseTime(window.startTime);
+  const end = parseTime(window.endTime);
+  return {
+    start: day.clone().set({ hour: start.hour, minute: start.minute, second: 0, millisecond: 0 }),
+    end: day.clone().set({ hour: end.hour, minute: end.minute, second: 0, millisecond: 0 }),
+  };
+}
+
+function isSendingDay(day: moment.Moment, window: SendingWindow): boolean {
+  return (
+    window.days.includes(day.day()) &&
+    !(window.excludedDates || []).includes(day.format('YYYY-MM-DD'))
+  );
+}
+
+/**
+ * Validate a sending window, throws BadRequestException when it is malformed
+ * or when it can never open (no weekdays, start not before end)
+ */
+export function validateSendingWindow(window: SendingWindow): void {
+  if (!Array.isArray(window.days) || window.days.length === 0) {
+    throw new BadRequestException('Sending window must include at least one day');
+  }
+
+  if (window.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    throw new BadRequestException('Sending window days must be between 0 (Sunday) and 6 (Saturday)');
+  }
+
+  if (!TIME_PATTERN.test(window.startTime) || !TIME_PATTERN.test(window.endTime)) {
+    throw new BadRequestException('Sending window times must use the HH:mm format');
+  }
+
+  if (window.startTime >= window.endTime) {
+    throw new BadRequestException('Sending window must start before it ends');
+  }
+
+  for (const date of window.excludedDates || []) {
+    if (!DATE_PATTERN.test(date) || !moment.utc(date, 'YYYY-MM-DD', true).isValid()) {
+      throw new BadRequestException(`Invalid excluded date: ${date}`);
+    }
+  }
+}
+
+/**
+ * Get the first moment at or after `date` that falls inside the sending window
+ * Returns `date` unchanged when no window is configured or it is already inside
+ */
+export function getNextSendingSlot(
+  date: Date,
+  window: SendingWindow | null | undefined,
+  timezone: string = 'UTC',
+): Date {
+  if (!window) {
+    return date;
+  }
+
+  let cursor = moment.utc(date).tz(timezone);
+
+  for (let i = 0; i <= MAX_WINDOW_LOOKAHEAD_DAYS; i++) {
+    const day = cursor.clone().startOf('day');
+
+    if (isSendingDay(day, window)) {
+      const { start, end } = getWindowBounds(day, window);
+      if (cursor.isBefore(start)) {
+        return start.toDate();
+      }
+      if (cursor.isBefore(end)) {
+        return cursor.toDate();
+      }
+    }
+
+    cursor = day.add(1, 'day');
+  }
+
+  // Window never opens (every upcoming day excluded) - keep the original time
+  return date;
+}
+
+/**
+ * Count how many emails fit into the window on a day, spacing them `delayMinutes` apart
+ * @param dayOffset Days from today in `timezone` (0 = today)
+ * @param from Emails cannot go out before this time (e.g. now for today)
+ */
+export function getSendingWindowCapacity(
+  dayOffset: number,
+  window: SendingWindow,
+  timezone: string = 'UTC',
+  delayMinutes: number = 1,
+  from?: Date,
+): number {
+  const day = moment.tz(timezone).add(dayOffset, 'days').startOf('day');
+  if (!isSendingDay(day, window)) {
+    return 0;
+  }
+
+  const { start, end } = getWindowBounds(day, window);
+  const effectiveStart = from && moment.utc(from).isAfter(start) ? moment.utc(from) : start;
+  const availableMinutes = end.diff(effectiveStart, 'minutes', true);
+  if (availableMinutes <= 0) {
+    return 0;
+  }
+
+  return Math.ceil(availableMinutes / Math.max(1, delayMinutes));
+}
+
+/**
+ * Count the days in a week the window is open, used to size look-ahead ranges
+ */
+export function getSendingDaysPerWeek(window: SendingWindow): number {
+  return new Set(window.days).size;
+}
+
+/**
+ * Move a send time to the same local wall-clock time in another timezone
+ * e.g. 09:30 in Europe/London becomes 09:30 in America/New_York
+ */
+export function shiftToTimezone(date: Date, fromTimezone: string, toTimezone: string): Date {
+  if (!isValidTimezone(toTimezone) || fromTimezone === toTimezone) {
+    return date;
+  }
+
+  const local = moment.utc(date).tz(fromTimezone).format('YYYY-MM-DDTHH:mm:ss.SSS');
+  return moment.tz(local, toTimezone).toDate();
+}
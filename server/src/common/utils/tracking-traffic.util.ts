@@ -0,0 +1,112 @@
+import { TrackingTrafficType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
+
+/** Link ID of the hidden link added to HTML emails, only scanners follow it */
+export const HONEYPOT_LINK_ID = 'honeypot';
+
+/** Opens this soon after sending are prefetches, nobody reads an email that fast */
+export const MACHINE_OPEN_WINDOW_SECONDS = 5;
+
+/** Clicks this soon after sending come from link scanners checking the email on delivery */
+export const SCANNER_CLICK_WINDOW_SECONDS = 15;
+
+/** Image proxies fetching the pixel on behalf of the reader, they hide who opened and when */
+const PROXY_USER_AGENTS = [/GoogleImageProxy/i, /ggpht\.com/i, /YahooMailProxy/i, /Superhuman/i];
+
+/** Security gateways, link checkers and HTTP libraries */
+const SCANNER_USER_AGENTS = [
+  /bot\b/i,
+  /crawl/i,
+  /spider/i,
+  /HeadlessChrome/i,
+  /PhantomJS/i,
+  /python-requests/i,
+  /python-urllib/i,
+  /\bcurl\//i,
+  /\bwget\//i,
+  /Go-http-client/i,
+  /okhttp/i,
+  /Java\//i,
+  /libwww-perl/i,
+  /Barracuda/i,
+  /Mimecast/i,
+  /Proofpoint/i,
+  /urldefense/i,
+  /Forcepoint/i,
+  /Symantec/i,
+  /TrendMicro/i,
+  /Microsoft Office Protocol Discovery/i,
+  /SafeLinks/i,
+];
+
+export interface TrackingTrafficInput {
+  eventType: 'OPENED' | 'CLICKED';
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  /** When the email was sent */
+  sentAt?: Date | string | null;
+  occurredAt: Date;
+  linkId?: string | null;
+  /** The same IP followed the honeypot link of this email */
+  honeypotClickedFromIp?: boolean;
+}
+
+export interface TrackingTrafficResult {
+  type: TrackingTrafficType;
+  reason: string | null;
+}
+
+/**
+ * Tell human opens and clicks from machine traffic
+ * - MACHINE_OPEN: Apple Mail Privacy Protection and other pixel prefetches
+ * - PROXY: image proxies fetching the pixel (Gmail, Yahoo)
+ * - SCANNER: security scanners and bots following links, including the honeypot link
+ */
+export function classifyTrackingTraffic(input: TrackingTrafficInput): TrackingTrafficResult {
+  const userAgent = (input.userAgent || '').trim();
+  const ipAddress = normalizeIp(input.ipAddress);
+  const secondsSinceSent = input.sentAt
+    ? (input.occurredAt.getTime() - new Date(input.sentAt).getTime()) / 1000
+    : null;
+
+  if (input.linkId === HONEYPOT_LINK_ID) {
+    return { type: TrackingTrafficType.SCANNER, reason: 'Followed the hidden honeypot link' };
+  }
+  if (input.honeypotClickedFromIp) {
+    return { type: TrackingTrafficType.SCANNER, reason: 'IP followed the hidden honeypot link' };
+  }
+  if (!userAgent || userAgent === 'Unknown') {
+    return { type: TrackingTrafficType.SCANNER, reason: 'No user agent' };
+  }
+  if (SCANNER_USER_AGENTS.some((pattern) => pattern.test(userAgent))) {
+    return { type: TrackingTrafficType.SCANNER, reason: `Scanner user agent "${userAgent.slice(0, 60)}"` };
+  }
+
+  if (input.eventType === 'OPENED') {
+    if (PROXY_USER_AGENTS.some((pattern) => pattern.test(userAgent))) {
+      return { type: TrackingTrafficType.PROXY, reason: `Image proxy "${userAgent.slice(0, 60)}"` };
+    }
+    // Apple Mail Privacy Protection prefetches from Apple's network with a bare user agent
+    if (isAppleNetwork(ipAddress) || userAgent === 'Mozilla/5.0') {
+      return { type: TrackingTrafficType.MACHINE_OPEN, reason: 'Apple Mail Privacy Protection prefetch' };
+    }
+    if (secondsSinceSent !== null && secondsSinceSent < MACHINE_OPEN_WINDOW_SECONDS) {
+      return { type: TrackingTrafficType.MACHINE_OPEN, reason: `Opened ${Math.max(0, Math.round(secondsSinceSent))}s after sending` };
+    }
+  } else if (secondsSinceSent !== null && secondsSinceSent < SCANNER_CLICK_WINDOW_SECONDS) {
+    return { type: TrackingTrafficType.SCANNER, reason: `Clicked ${Math.max(0, Math.round(secondsSinceSent))}s after sending` };
+  }
+
+  return { type: TrackingTrafficType.HUMAN, reason: null };
+}
+
+/**
+ * Strip the IPv4-mapped IPv6 prefix Express reports (::ffff:17.58.1.2)
+ */
+function normalizeIp(ipAddress?: string | null): string {
+  return (ipAddress || '').trim().replace(/^::ffff:/i, '');
+}
+
+/** Apple owns 17.0.0.0/8 */
+function isAppleNetwork(ipAddress: string): boolean {
+  return /^17\.\d{1,3}\.\d{1,3}\.\d{1,3}$/.test(ipAddress);
+}
@@ -0,0 +1,59 @@
+import { DeviceType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
+
+export interface ParsedUserAgent {
+  deviceType: DeviceType;
+  /** Email client or browser family, e.g. "Apple Mail", "Outlook", "Gmail", "Chrome" */
+  emailClient: string | null;
+}
+
+/**
+ * Email clients first: desktop and mobile apps, then the image proxies of webmail providers.
+ * Browsers come last, a webmail open without a proxy reports the browser.
+ */
+const CLIENT_FAMILIES: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Outlook', pattern: /Microsoft Outlook|MSOffice|ms-office|Outlook-iOS|Outlook-Android|OutlookMobile/i },
+  { name: 'Thunderbird', pattern: /Thunderbird/i },
+  { name: 'Samsung Email', pattern: /SamsungEmail/i },
+  { name: 'Spark', pattern: /\bSpark\b|Readdle/i },
+  { name: 'Superhuman', pattern: /Superhuman/i },
+  { name: 'Gmail', pattern: /GoogleImageProxy|ggpht\.com|\bGmail\b/i },
+  { name: 'Yahoo Mail', pattern: /YahooMailProxy|YahooMobileMail/i },
+  { name: 'Edge', pattern: /Edg(e|A|iOS)?\//i },
+  { name: 'Opera', pattern: /OPR\//i },
+  { name: 'Samsung Internet', pattern: /SamsungBrowser/i },
+  { name: 'Firefox', pattern: /Firefox\/|FxiOS/i },
+  { name: 'Chrome', pattern: /Chrome\/|CriOS/i },
+  { name: 'Safari', pattern: /Version\/[\d.]+.*Safari\//i },
+];
+
+/**
+ * Device type and email client family of a tracking request
+ * Apple Mail has no token of its own, it's a WebKit user agent without a browser version.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  const ua = (userAgent || '').trim();
+  if (!ua || ua === 'Unknown') {
+    return { deviceType: DeviceType.UNKNOWN, emailClient: null };
+  }
+
+  let emailClient = CLIENT_FAMILIES.find(({ pattern }) => pattern.test(ua))?.name ?? null;
+  if (!emailClient && (/AppleWebKit/i.test(ua) && /(Macintosh|iPhone|iPad)/i.test(ua) || ua === 'Mozilla/5.0')) {
+    // Mail on macOS and iOS, 'Mozilla/5.0' alone is Apple Mail Privacy Protection
+    emailClient = 'Apple Mail';
+  }
+
+  return { deviceType: getDeviceType(ua), emailClient };
+}
+
+function getDeviceType(ua: string): DeviceType {
+  if (/iPad|Tablet|Kindle|Silk\/|PlayBook/i.test(ua) || (/Android/i.test(ua) && !/Mobile/i.test(ua))) {
+    return DeviceType.TABLET;
+  }
+  if (/iPhone|iPod|Mobile|Windows Phone|BlackBerry|Opera Mini|Outlook-iOS|Outlook-Android/i.test(ua)) {
+    return DeviceType.MOBILE;
+  }
+  if (/Windows NT|Macintosh|Mac OS X|X11|Linux|CrOS|Thunderbird|Microsoft Outlook/i.test(ua)) {
+    return DeviceType.DESKTOP;
+  }
+  return DeviceType.UNKNOWN;
+}
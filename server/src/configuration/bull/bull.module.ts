@@ -17,6 +17,7 @@ import { DeadLetterQueue } from './queues/dead-letter.queue';
 import { BounceDetectionQueue } from './queues/bounce-detection.queue';
 import { ReplyDetectionQueue } from './queues/reply-detection.queue';
 import { SubscriptionQueue } from './queues/subscription.queue';
+import { EmailVerificationQueue } from './queues/email-verification.queue';
 
 // Services & Controller (NO PROCESSORS - they run in separate worker process)
 import { BullBoardService } from './services/bull-board.service';
@@ -52,6 +53,7 @@ import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
     NestBullModule.registerQueue({ name: QueueName.BOUNCE_DETECTION }),
     NestBullModule.registerQueue({ name: QueueName.REPLY_DETECTION }),
     NestBullModule.registerQueue({ name: QueueName.SUBSCRIPTION }),
+    NestBullModule.registerQueue({ name: QueueName.EMAIL_VERIFICATION }),
   ],
   controllers: [BullController],
   providers: [
@@ -67,6 +69,7 @@ import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
     BounceDetectionQueue,
     ReplyDetectionQueue,
     SubscriptionQueue,
+    EmailVerificationQueue,
 
     // Bull Board (monitoring UI)
     BullBoardService,
@@ -92,6 +95,7 @@ import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
     BounceDetectionQueue,
     ReplyDetectionQueue,
     SubscriptionQueue,
+    EmailVerificationQueue,
     BullBoardService,
     QueueHealthService,
   ],
@@ -10,6 +10,7 @@ export enum QueueName {
   REPLY_DETECTION = 'reply-detection-queue',
   DEAD_LETTER = 'dead-letter-queue',
   CONTACT_BULK_UPLOAD = 'contact-bulk-upload-queue',
+  EMAIL_VERIFICATION = 'email-verification-queue',
   CUSTOM = 'custom-queue',
 }
 
@@ -2,7 +2,10 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { InjectModel } from '@nestjs/sequelize';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { BounceDetectionService } from 'src/common/services/bounce-detection.service';
 import { TokenRefreshService } from 'src/common/services/token-refresh.service';
 import { CircuitBreakerService } from 'src/common/services/circuit-breaker.service';
@@ -47,6 +50,7 @@ export class BounceDetectionProcessor extends WorkerHost {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
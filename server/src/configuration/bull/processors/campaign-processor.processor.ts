@@ -5,7 +5,7 @@ import { InjectModel } from '@nestjs/sequelize';
 import { Op, Sequelize } from 'sequelize';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
-import { EmailMessage, EmailMessageStatus } from 'src/resources/campaigns/entities/email-message.entity';
+import { EmailMessage, EmailMessageStatus, EmailSkipReason } from 'src/resources/campaigns/entities/email-message.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { ContactList } from 'src/resources/contact-lists/entities/contact-list.entity';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
@@ -15,12 +15,21 @@ import { EmailSenderQueue } from '../queues/email-sender.queue';
 import { WsGateway } from 'src/resources/ws/ws.gateway';
 import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { getMidnightInTimezone } from 'src/common/utils/timezone.util';
+import { getVerificationSkipReason } from 'src/common/utils/email-verification.util';
 import { RateLimiterService } from 'src/common/services/rate-limiter.service';
 import { QuotaManagementService } from 'src/common/services/quota-management.service';
 import { CampaignSchedulingService } from 'src/resources/campaigns/services/campaign-scheduling.service';
 import { MAX_SCHEDULE_DAYS } from 'src/resources/campaigns/constants/campaign.constants';
 import { QueueName } from '../enums/queue.enum';
 import { CampaignProcessorQueue } from '../queues/campaign-processor.queue';
+import { DynamicListService } from 'src/resources/contact-lists/services/dynamic-list.service';
+import { SenderRotationService } from 'src/resources/campaigns/services/sender-rotation.service';
+import { FollowUpConditionService } from 'src/resources/campaigns/services/follow-up-condition.service';
+import { StepVariantService, VariantPicker } from 'src/resources/campaigns/services/step-variant.service';
+import {
+  SUPPRESSION_SKIP_REASONS,
+  SuppressionMatcherService,
+} from 'src/resources/suppressions/services/suppression-matcher.service';
 
 /**
  * BullMQ Processor for Campaign Processing
@@ -31,6 +40,12 @@ const REPLY_STEP_DEFER_DELAY_MS = 30 * 1000; // 30 seconds
 /** Max number of times to defer a reply step before giving up (avoids infinite loop) */
 const MAX_REPLY_STEP_DEFER_COUNT = 20;
 
+/** Variant split of a step with A/B variants */
+interface VariantPlan {
+  pick: VariantPicker;
+  templates: Map<string, EmailTemplate>;
+}
+
 @Processor(QueueName.CAMPAIGN_PROCESSOR)
 export class CampaignProcessorProcessor extends WorkerHost {
   private readonly logger = new Logger(CampaignProcessorProcessor.name);
@@ -59,6 +74,11 @@ export class CampaignProcessorProcessor extends WorkerHost {
     private readonly quotaManagementService: QuotaManagementService,
     private readonly campaignSchedulingService: CampaignSchedulingService,
     private readonly campaignProcessorQueue: CampaignProcessorQueue,
+    private readonly dynamicListService: DynamicListService,
+    private readonly senderRotationService: SenderRotationService,
+    private readonly followUpConditionService: FollowUpConditionService,
+    private readonly stepVariantService: StepVariantService,
+    private readonly suppressionMatcherService: SuppressionMatcherService,
   ) {
     super();
     this.logger.log('CampaignProcessorProcessor initialized');
@@ -70,6 +90,8 @@ export class CampaignProcessorProcessor extends WorkerHost {
     // Route to appropriate handler based on job type
     if (job.name === 'process-new-step') {
       return this.processNewStep(job);
+    } else if (job.name === 'pick-ab-test-winner') {
+      return this.processAbTestWinner(job);
     } else {
       return this.processFullCampaign(job);
     }
@@ -85,7 +107,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
     campaign: Campaign,
     step: CampaignStep,
     template: EmailTemplate,
-    senderEmail: string,
+    senders: GmailOAuthToken[],
     userId: string,
     organizationId: string,
     existingEmailMap: Map<string, EmailMessage>,
@@ -103,6 +125,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
     firstEmailTimeOnDay0: Date | null,
     dailyLimit: number,
     getDayBoundaries: (dayOffset: number) => { start: Date; end: Date },
+    variantPlan?: VariantPlan,
   ): Promise<{
     created: number;
     skipped: number;
@@ -119,6 +142,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
       campaignName: string;
       stepName: string;
       sendFormat?: string; // Template sendFormat (HTML or TEXT)
+      senderTokenId?: string;
     }>;
     updatedState: {
       currentDay: number;
@@ -142,6 +166,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
       scheduledSendAt: Date;
       sentFromEmail: string;
       createdBy: string;
+      variantId: string | null;
     }> = [];
 
     const jobsToQueue: Array<{
@@ -155,8 +180,23 @@ export class CampaignProcessorProcessor extends WorkerHost {
       campaignName: string;
       stepName: string;
       sendFormat?: string; // Template sendFormat (HTML or TEXT)
+      senderTokenId?: string;
     }> = [];
 
+    // Each contact sends from its assigned pool mailbox (sticky across steps)
+    const senderAssignments = await this.senderRotationService.assignSenders(
+      campaign,
+      senders,
+      batch.map((contact) => contact.id),
+    );
+
+    // Suppressed contacts get a cancelled email recording why, without a send job
+    const suppressionMatches = await this.suppressionMatcherService.findMatches(
+      organizationId,
+      batch.map((contact) => contact.email),
+    );
+    const suppressedEmailsToCreate: Array<Partial<EmailMessage>> = [];
+
     let skipped = 0;
     let errors = 0;
     const stepName = step.name || `Step ${step.stepOrder}`;
@@ -198,6 +238,46 @@ export class CampaignProcessorProcessor extends WorkerHost {
           continue;
         }
 
+        const verificationSkipReason = getVerificationSkipReason(contact.emailVerificationStatus, campaign.verificationFilter);
+        if (verificationSkipReason) {
+          this.logger.debug(
+            `⏭️ Skipping contact ${contact.id} (${contact.email}): ${this.describeVerificationSkip(contact)}`
+          );
+          suppressedEmailsToCreate.push(this.buildSkippedEmail(
+            verificationSkipReason,
+            this.describeVerificationSkip(contact),
+            organizationId,
+            campaign,
+            step,
+            template,
+            contact,
+            senderAssignments.get(contact.id) ?? senders[0],
+            userId,
+          ));
+          skipped++;
+          continue;
+        }
+
+        const suppression = contact.email && suppressionMatches.get(contact.email.trim().toLowerCase());
+        if (suppression) {
+          this.logger.debug(
+            `⏭️ Skipping contact ${contact.id} (${contact.email}): ${this.suppressionMatcherService.describeMatch(suppression)}`
+          );
+          suppressedEmailsToCreate.push(this.buildSkippedEmail(
+            SUPPRESSION_SKIP_REASONS[suppression.type],
+            this.suppressionMatcherService.describeMatch(suppression),
+            organizationId,
+            campaign,
+            step,
+            template,
+            contact,
+            senderAssignments.get(contact.id) ?? senders[0],
+            userId,
+          ));
+          skipped++;
+          continue;
+        }
+
         // Calculate send time
         let sendAt: Date;
 
@@ -217,6 +297,10 @@ export class CampaignProcessorProcessor extends WorkerHost {
               lastScheduledTimeByDayFromPreviousSteps,
               firstEmailTimeByDay,
               now,
+              undefined, // alreadySentCountOnDay0
+              step.timezone || 'UTC',
+              campaign.sendingWindow,
+              contact.timezone,
             );
           } else {
             // Fallback
@@ -224,7 +308,13 @@ export class CampaignProcessorProcessor extends WorkerHost {
             const baseTime = step.triggerType === 'SCHEDULE' && step.scheduleTime
               ? new Date(step.scheduleTime)
               : now;
-            sendAt = new Date(baseTime.getTime() + contactIndex * delayMinutes * 60 * 1000);
+            sendAt = this.campaignSchedulingService.applySendingWindow(
+              new Date(baseTime.getTime() + contactIndex * delayMinutes * 60 * 1000),
+              campaign.sendingWindow,
+              step.timezone || 'UTC',
+              contact.timezone,
+              now,
+            );
           }
         } else {
           // Fallback scheduling logic
@@ -259,20 +349,31 @@ export class CampaignProcessorProcessor extends WorkerHost {
           }
 
           const totalDelayMs = localEmailsOnCurrentDay * delayMinutes * 60 * 1000;
-          sendAt = new Date(effectiveBaseTime.getTime() + totalDelayMs);
+          sendAt = this.campaignSchedulingService.applySendingWindow(
+            new Date(effectiveBaseTime.getTime() + totalDelayMs),
+            campaign.sendingWindow,
+            step.timezone || 'UTC',
+            contact.timezone,
+            now,
+          );
 
           localEmailsOnCurrentDay++;
           localRemainingOnCurrentDay--;
         }
 
+        const variant = variantPlan?.pick();
+        const contactTemplate = (variant && variantPlan!.templates.get(variant.templateId)) || template;
+
         // Personalize content
         const personalized = this.emailPersonalizationService.personalizeContent(
-          template.subject,
-          template.htmlContent,
-          template.textContent || '',
+          variant?.subject || contactTemplate.subject,
+          contactTemplate.htmlContent,
+          contactTemplate.textContent || '',
           contact,
         );
 
+        const sender = senderAssignments.get(contact.id) ?? senders[0];
+
         // Prepare email data for bulk create
         emailsToCreate.push({
           organizationId,
@@ -285,8 +386,9 @@ export class CampaignProcessorProcessor extends WorkerHost {
           status: EmailMessageStatus.QUEUED,
           queuedAt: new Date(),
           scheduledSendAt: sendAt,
-          sentFromEmail: senderEmail,
+          sentFromEmail: sender.email,
           createdBy: userId,
+          variantId: variant?.id ?? null,
         });
 
         // Prepare job data (will be queued after emails are created)
@@ -300,7 +402,8 @@ export class CampaignProcessorProcessor extends WorkerHost {
           sendAt,
           campaignName: campaign.name,
           stepName,
-          sendFormat: template.sendFormat, // Pass template sendFormat for tracking injection
+          sendFormat: contactTemplate.sendFormat, // Pass template sendFormat for tracking injection
+          senderTokenId: sender.id,
         });
       } catch (error) {
         errors++;
@@ -310,6 +413,15 @@ export class CampaignProcessorProcessor extends WorkerHost {
       }
     }
 
+    // Created apart from the queued emails, which must stay aligned with their jobs
+    if (suppressedEmailsToCreate.length > 0) {
+      try {
+        await this.emailMessageModel.bulkCreate(suppressedEmailsToCreate);
+      } catch (error) {
+        this.logger.error(`Error recording suppressed emails: ${error}`);
+      }
+    }
+
     // Bulk create emails in transaction (OPTIMIZATION: Issue #7)
     let createdEmails: EmailMessage[] = [];
     if (emailsToCreate.length > 0) {
@@ -371,6 +483,142 @@ export class CampaignProcessorProcessor extends WorkerHost {
     };
   }
 
+  /**
+   * Cancelled email recording why this contact was skipped for the step (suppression list, email verification)
+   */
+  private buildSkippedEmail(
+    skipReason: EmailSkipReason,
+    errorMessage: string,
+    organizationId: string,
+    campaign: Campaign,
+    step: CampaignStep,
+    template: EmailTemplate,
+    contact: Contact,
+    sender: GmailOAuthToken,
+    userId: string,
+  ): Partial<EmailMessage> {
+    return {
+      organizationId,
+      campaignId: campaign.id,
+      campaignStepId: step.id,
+      contactId: contact.id,
+      subject: template.subject,
+      status: EmailMessageStatus.CANCELLED,
+      skipReason,
+      errorMessage,
+      sentFromEmail: sender.email,
+      createdBy: userId,
+    };
+  }
+
+  private describeVerificationSkip(contact: Contact): string {
+    const status = contact.emailVerificationStatus || 'UNVERIFIED';
+    const subStatus = contact.emailVerificationSubStatus ? ` (${contact.emailVerificationSubStatus})` : '';
+    return `Email verification status ${status}${subStatus} is excluded by the campaign`;
+  }
+
+  /**
+   * Variant picker and templates for a step with A/B variants
+   */
+  private async createVariantPlan(step: CampaignStep): Promise<VariantPlan | undefined> {
+    const variants = this.stepVariantService.getActiveVariants(step);
+    if (!variants) {
+      return undefined;
+    }
+
+    const templates = await this.stepVariantService.loadTemplates(variants);
+    const available = variants.filter((variant) => templates.has(variant.templateId));
+    if (available.length === 0) {
+      this.logger.warn(`No template found for the variants of step ${step.id}, using the step template`);
+      return undefined;
+    }
+
+    this.logger.log(
+      `Step ${step.id} sends ${available.length} variant(s): ` +
+      available.map((variant) => `${variant.id} (weight ${variant.weight})`).join(', '),
+    );
+    return { pick: this.stepVariantService.createPicker(available), templates };
+  }
+
+  /**
+   * Queue the winner pick of a step's A/B test for when its test emails have had time to collect engagement
+   */
+  private async scheduleAbTestWinner(campaign: Campaign, step: CampaignStep): Promise<void> {
+    const lastSendAt = (await this.emailMessageModel.max('scheduledSendAt', {
+      where: { campaignId: campaign.id, campaignStepId: step.id },
+    })) as Date | null;
+
+    const testEndsAt = new Date(lastSendAt || Date.now()).getTime() + step.abTest!.waitHours * 60 * 60 * 1000;
+    await this.campaignProcessorQueue.addAbTestWinnerJob(
+      campaign.id,
+      step.id,
+      campaign.organizationId,
+      testEndsAt - Date.now(),
+      step.stepOrder,
+    );
+  }
+
+  /**
+   * Pick the winning variant of a step's A/B test and send it to the contacts outside the test sample
+   */
+  async processAbTestWinner(job: Job): Promise<any> {
+    const { campaignId, stepId } = job.data;
+
+    const campaign = await this.campaignModel.findByPk(campaignId);
+    const step = await this.campaignStepModel.findByPk(stepId);
+    if (!campaign || !step) {
+      this.logger.warn(`A/B test winner job ${job.id}: campaign ${campaignId} or step ${stepId} no longer exists`);
+      return { success: false, campaignId, stepId, message: 'Campaign or step not found' };
+    }
+
+    if (campaign.status !== 'ACTIVE') {
+      // Resuming the campaign re-queues the step, which schedules the pick again
+      this.logger.warn(`Campaign ${campaignId} is ${campaign.status}, postponing A/B test winner of step ${stepId}`);
+      return { success: true, campaignId, stepId, message: `Campaign is ${campaign.status}, winner not picked` };
+    }
+
+    if (!this.stepVariantService.isTestPending(step)) {
+      return { success: true, campaignId, stepId, message: 'A/B test already decided' };
+    }
+
+    const winner = await this.stepVariantService.decideWinner(campaignId, step);
+
+    await this.campaignProcessorQueue.addNewStepJob(
+      campaignId,
+      stepId,
+      campaign.organizationId,
+      'scheduler',
+      campaign.name,
+      step.name || `Step ${step.stepOrder}`,
+      undefined,
+      step.stepOrder,
+      undefined,
+      'ab-winner',
+    );
+
+    return {
+      success: true,
+      campaignId,
+      stepId,
+      winnerVariantId: winner.id,
+      message: `Variant ${winner.id} won, sending it to the remaining contacts`,
+    };
+  }
+
+  /**
+   * Re-evaluate a dynamic (smart) contact list before its members are loaded.
+   * Static lists are left as they are.
+   */
+  private async refreshDynamicList(contactListId: string): Promise<void> {
+    const result = await this.dynamicListService.refreshMembership(contactListId);
+    if (result) {
+      this.logger.log(
+        `🔄 Dynamic list ${contactListId} re-evaluated: ${result.total} contact(s) ` +
+        `(+${result.added} / -${result.removed})`
+      );
+    }
+  }
+
   /**
    * Load contacts in batches to avoid loading all contacts into memory (OPTIMIZATION: Issue #2)
    * Returns an async generator that yields batches of contacts
@@ -554,6 +802,9 @@ export class CampaignProcessorProcessor extends WorkerHost {
         }
       }
 
+      // Dynamic lists are re-evaluated so the step goes to the contacts matching right now
+      await this.refreshDynamicList(campaign.contactListId);
+
       // 2. Check if contact list has at least one subscribed, non-bounced contact (early validation)
       const subscribedCount = await this.contactListMemberModel.count({
         where: { contactListId: campaign.contactListId },
@@ -589,8 +840,8 @@ export class CampaignProcessorProcessor extends WorkerHost {
         // This uses getRemainingQuotaForDays which queries actual scheduled emails from database
         // So it will automatically account for Step 1's emails when calculating Step 2's distribution
         const quotaStats = await this.rateLimiterService.getQuotaStats(userId);
-        // Get dynamic daily limit from subscription plan
-        const DAILY_LIMIT = await this.quotaManagementService.getDailyEmailLimit(userId);
+        // Get dynamic daily limit from subscription plan and mailbox ramp-up
+        const DAILY_LIMIT = await this.rateLimiterService.getUserDailyLimit(userId);
         const remainingQuota = quotaStats.remaining;
         const emailsForThisStep = subscribedCount;
 
@@ -651,6 +902,9 @@ export class CampaignProcessorProcessor extends WorkerHost {
           DAILY_LIMIT,
           timezone,
           startDay,
+          this.senderRotationService.getPoolTokenIds(campaign),
+          campaign.sendingWindow,
+          step.delayMinutes,
         );
 
         // Adjust indices to be global (accounting for previous steps)
@@ -671,264 +925,76 @@ export class CampaignProcessorProcessor extends WorkerHost {
         );
       }
 
-      // 3. Determine contact filtering for reply-to-step (if applicable)
+      // 3. Determine contact filtering for follow-up conditions (if applicable)
       let contactFilter: ((contact: Contact) => boolean) | undefined;
-      let eligibleContactIds: string[] | undefined;
-
-      if (step.replyToStepId && step.replyType) {
-        // Filter contacts based on reply-to-step configuration
-        this.logger.log(`Step ${stepId} configured to reply to step ${step.replyToStepId} (type: ${step.replyType})`);
-
-        if (step.replyType === 'CLICKED') {
-          // Only send to contacts who clicked BUT did NOT reply
-          const clickedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              clickedCount: { [Op.gt]: 0 },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const clickedContactIds = clickedEmails.map((email: any) => email.contactId);
-
-          if (clickedContactIds.length === 0) {
-            const previousStepEmailCount = await this.emailMessageModel.count({
-              where: { campaignId: campaign.id, campaignStepId: step.replyToStepId },
-            });
-            const deferCount = (job.data.replyStepDeferCount as number) || 0;
-            if (previousStepEmailCount === 0 && deferCount < MAX_REPLY_STEP_DEFER_COUNT) {
-              this.logger.log(
-                `Reply step ${stepId} (CLICKED): previous step ${step.replyToStepId} has no emails yet. Deferring (${deferCount + 1}/${MAX_REPLY_STEP_DEFER_COUNT})`,
-              );
-              await this.campaignProcessorQueue.addNewStepJob(
-                campaignId, stepId, campaign.organizationId, 'user', campaign.name, step.name || `Step ${step.stepOrder}`,
-                REPLY_STEP_DEFER_DELAY_MS, step.stepOrder, { replyStepDeferCount: deferCount + 1 }, `defer-${deferCount + 1}`,
-              );
-              return { success: true, campaignId, stepId, queuedEmails: 0, totalContacts: 0, deferred: true, message: 'Previous step has no emails yet; re-queued with delay' };
-            }
-            this.logger.warn(`No contacts clicked in step ${step.replyToStepId}, skipping step ${stepId}`);
-            return { success: true, campaignId, stepId, queuedEmails: 0, totalContacts: 0, message: 'No contacts clicked in the previous step, skipping' };
-          }
-
-          // Exclude contacts who replied
-          const repliedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              replyCount: { [Op.gt]: 0 },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
-
-          eligibleContactIds = clickedContactIds.filter(id => !repliedContactIds.includes(id));
-
-          if (eligibleContactIds.length === 0) {
-            this.logger.warn(`No eligible contacts for CLICKED filter (all clicked contacts also replied), skipping step ${stepId}`);
-            return {
-              success: true,
-              campaignId,
-              stepId,
-              queuedEmails: 0,
-              totalContacts: 0,
-              message: 'No eligible contacts for CLICKED filter, skipping',
-            };
-          }
-
-          contactFilter = (contact: Contact) => eligibleContactIds!.includes(contact.id);
-        } else if (step.replyType === 'OPENED') {
-          // Only send to contacts who opened BUT did NOT click AND did NOT reply
-          const openedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              openedAt: { [Op.ne]: null },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const openedContactIds = openedEmails.map((email: any) => email.contactId);
-
-          if (openedContactIds.length === 0) {
-            const previousStepEmailCount = await this.emailMessageModel.count({
-              where: { campaignId: campaign.id, campaignStepId: step.replyToStepId },
-            });
-            const deferCount = (job.data.replyStepDeferCount as number) || 0;
-            if (previousStepEmailCount === 0 && deferCount < MAX_REPLY_STEP_DEFER_COUNT) {
-              this.logger.log(
-                `Reply step ${stepId} (OPENED): previous step ${step.replyToStepId} has no emails yet. Deferring (${deferCount + 1}/${MAX_REPLY_STEP_DEFER_COUNT})`,
-              );
-              await this.campaignProcessorQueue.addNewStepJob(
-                campaignId, stepId, campaign.organizationId, 'user', campaign.name, step.name || `Step ${step.stepOrder}`,
-                REPLY_STEP_DEFER_DELAY_MS, step.stepOrder, { replyStepDeferCount: deferCount + 1 }, `defer-${deferCount + 1}`,
-              );
-              return { success: true, campaignId, stepId, queuedEmails: 0, totalContacts: 0, deferred: true, message: 'Previous step has no emails yet; re-queued with delay' };
-            }
-            this.logger.warn(`No contacts opened emails in step ${step.replyToStepId}, skipping step ${stepId}`);
-            return { success: true, campaignId, stepId, queuedEmails: 0, totalContacts: 0, message: 'No contacts opened emails in the previous step, skipping' };
-          }
-
-          // Exclude contacts who clicked
-          const clickedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              clickedCount: { [Op.gt]: 0 },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const clickedContactIds = clickedEmails.map((email: any) => email.contactId);
-
-          // Exclude contacts who replied
-          const repliedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              replyCount: { [Op.gt]: 0 },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
+      let eligibleContactCount = subscribedCount;
+      const sendConditions = this.followUpConditionService.getStepConditions(step);
 
-          const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
+      if (sendConditions) {
+        this.logger.log(`Step ${stepId} has follow-up conditions: ${JSON.stringify(sendConditions)}`);
 
-          eligibleContactIds = openedContactIds.filter(
-            id => !clickedContactIds.includes(id) && !repliedContactIds.includes(id)
-          );
+        const { eligibleContactIds, pendingStepIds } = await this.followUpConditionService.evaluate(
+          campaign.id,
+          sendConditions,
+          { humanOnly: campaign.humanEngagementOnly },
+        );
 
-          if (eligibleContactIds.length === 0) {
-            this.logger.warn(`No eligible contacts for OPENED filter (all opened contacts also clicked or replied), skipping step ${stepId}`);
-            return {
-              success: true,
+        if (eligibleContactIds.size === 0) {
+          // Referenced steps may not have created emails yet (follow-up ran before them). Defer and retry.
+          const deferCount = (job.data.replyStepDeferCount as number) || 0;
+          if (pendingStepIds.length > 0 && deferCount < MAX_REPLY_STEP_DEFER_COUNT) {
+            this.logger.log(
+              `Follow-up step ${stepId}: step(s) ${pendingStepIds.join(', ')} have no emails yet. ` +
+              `Deferring (${deferCount + 1}/${MAX_REPLY_STEP_DEFER_COUNT}) by ${REPLY_STEP_DEFER_DELAY_MS / 1000}s`,
+            );
+            await this.campaignProcessorQueue.addNewStepJob(
               campaignId,
               stepId,
-              queuedEmails: 0,
-              totalContacts: 0,
-              message: 'No eligible contacts for OPENED filter, skipping',
-            };
-          }
-
-          contactFilter = (contact: Contact) => eligibleContactIds!.includes(contact.id);
-        } else if (step.replyType === 'SENT') {
-          // Send to ALL contacts who were sent an email in the previous step, EXCEPT bounced ones
-          const sentEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              status: { [Op.notIn]: [EmailMessageStatus.BOUNCED] },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const sentContactIds = sentEmails.map((email: any) => email.contactId);
-
-          if (sentContactIds.length === 0) {
-            // Previous step may not have created emails yet (reply step ran before previous step). Defer and retry.
-            const previousStepEmailCount = await this.emailMessageModel.count({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-              },
-            });
-            const deferCount = (job.data.replyStepDeferCount as number) || 0;
-            if (previousStepEmailCount === 0 && deferCount < MAX_REPLY_STEP_DEFER_COUNT) {
-              this.logger.log(
-                `Reply step ${stepId} (SENT): previous step ${step.replyToStepId} has no emails yet. ` +
-                `Deferring (${deferCount + 1}/${MAX_REPLY_STEP_DEFER_COUNT}) by ${REPLY_STEP_DEFER_DELAY_MS / 1000}s`,
-              );
-              await this.campaignProcessorQueue.addNewStepJob(
-                campaignId,
-                stepId,
-                campaign.organizationId,
-                'user',
-                campaign.name,
-                step.name || `Step ${step.stepOrder}`,
-                REPLY_STEP_DEFER_DELAY_MS,
-                step.stepOrder,
-                { replyStepDeferCount: deferCount + 1 },
-                `defer-${deferCount + 1}`,
-              );
-              return {
-                success: true,
-                campaignId,
-                stepId,
-                queuedEmails: 0,
-                totalContacts: 0,
-                deferred: true,
-                message: 'Previous step has no emails yet; step re-queued with delay',
-              };
-            }
-            if (previousStepEmailCount === 0 && deferCount >= MAX_REPLY_STEP_DEFER_COUNT) {
-              this.logger.warn(
-                `Reply step ${stepId} (SENT): gave up after ${MAX_REPLY_STEP_DEFER_COUNT} defers; previous step ${step.replyToStepId} still has no emails`,
-              );
-            } else {
-              this.logger.warn(`No contacts were sent emails in step ${step.replyToStepId}, skipping step ${stepId}`);
-            }
+              campaign.organizationId,
+              'user',
+              campaign.name,
+              step.name || `Step ${step.stepOrder}`,
+              REPLY_STEP_DEFER_DELAY_MS,
+              step.stepOrder,
+              { replyStepDeferCount: deferCount + 1 },
+              `defer-${deferCount + 1}`,
+            );
             return {
               success: true,
               campaignId,
               stepId,
               queuedEmails: 0,
               totalContacts: 0,
-              message: 'No contacts were sent emails in the previous step, skipping',
+              deferred: true,
+              message: 'Previous step has no emails yet; step re-queued with delay',
             };
           }
-
-          // Exclude contacts who replied (higher engagement)
-          const repliedEmails = await this.emailMessageModel.findAll({
-            where: {
-              campaignId: campaign.id,
-              campaignStepId: step.replyToStepId,
-              replyCount: { [Op.gt]: 0 },
-            },
-            attributes: ['contactId'],
-            group: ['contactId'],
-          });
-
-          const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
-
-          eligibleContactIds = sentContactIds.filter(id => !repliedContactIds.includes(id));
-
-          if (eligibleContactIds.length === 0) {
-            this.logger.warn(`No eligible contacts for SENT filter (all sent contacts also replied), skipping step ${stepId}`);
-            return {
-              success: true,
-              campaignId,
-              stepId,
-              queuedEmails: 0,
-              totalContacts: 0,
-              message: 'No eligible contacts for SENT filter, skipping',
-            };
+          if (pendingStepIds.length > 0) {
+            this.logger.warn(
+              `Follow-up step ${stepId}: gave up after ${MAX_REPLY_STEP_DEFER_COUNT} defers; step(s) ${pendingStepIds.join(', ')} still have no emails`,
+            );
+          } else {
+            this.logger.warn(`No contacts meet the follow-up conditions, skipping step ${stepId}`);
           }
-
-          contactFilter = (contact: Contact) => eligibleContactIds!.includes(contact.id);
+          return {
+            success: true,
+            campaignId,
+            stepId,
+            queuedEmails: 0,
+            totalContacts: 0,
+            message: 'No contacts meet the follow-up conditions, skipping',
+          };
         }
-      }
-
-      this.logger.log(`Processing new step ${stepId} using batch contact loading${step.replyToStepId ? ` (filtered by reply-to-step ${step.replyToStepId})` : ''}`);
-
-      // 4. Get sender email from Gmail token (userId already declared above)
-      const token = await this.gmailTokenModel.findOne({
-        where: { userId, status: 'ACTIVE' },
-      });
 
-      if (!token) {
-        throw new Error(`No active Gmail token found for user ${userId}`);
+        contactFilter = (contact: Contact) => eligibleContactIds.has(contact.id);
+        eligibleContactCount = eligibleContactIds.size;
       }
 
-      const senderEmail = token.email;
-      if (!senderEmail) {
-        throw new Error(`Gmail token email is missing for user ${userId}`);
-      }
+      this.logger.log(`Processing new step ${stepId} using batch contact loading${sendConditions ? ' (filtered by follow-up conditions)' : ''}`);
+
+      // 4. Get sending mailboxes (campaign sender pool, or the creator's Gmail token)
+      const senders = await this.senderRotationService.getActiveSenders(campaign);
+      this.logger.log(`Sending step ${stepId} from ${senders.length} mailbox(es): ${senders.map(s => s.email).join(', ')}`);
 
       // 5. Check if emails for this step have already been created (avoid duplicates)
       const existingEmails = await this.emailMessageModel.count({
@@ -1046,6 +1112,16 @@ export class CampaignProcessorProcessor extends WorkerHost {
         throw new Error(`Template ${step.templateId} not found for step ${step.id}`);
       }
 
+      // A/B variants: split contacts across variants; while a test is pending only the sample is sent
+      const variantPlan = await this.createVariantPlan(step);
+      const abTestPending = this.stepVariantService.isTestPending(step);
+      let testSlotsLeft = abTestPending
+        ? this.stepVariantService.getTestSampleSize(eligibleContactCount, step) - existingEmails
+        : Infinity;
+      if (abTestPending) {
+        this.logger.log(`A/B test of step ${stepId}: ${Math.max(0, testSlotsLeft)} test email(s) left to create`);
+      }
+
       // Process contacts in batches using batch loading (OPTIMIZATION: Issue #2 & #6)
       const CONTACT_BATCH_SIZE = 1000; // Load 1000 contacts at a time from database
       const PROCESSING_BATCH_SIZE = 500; // Process 500 contacts at a time for email creation
@@ -1196,6 +1272,15 @@ export class CampaignProcessorProcessor extends WorkerHost {
           existingEmailMap.set(email.contactId, email);
         });
 
+        if (abTestPending) {
+          if (testSlotsLeft <= 0) {
+            break;
+          }
+          filteredContacts = filteredContacts
+            .filter((contact) => !existingEmailMap.has(contact.id))
+            .slice(0, testSlotsLeft);
+        }
+
         // Process this contact batch in smaller processing batches (sequential to maintain state)
         for (let batchStart = 0; batchStart < filteredContacts.length; batchStart += PROCESSING_BATCH_SIZE) {
           const batchEnd = Math.min(batchStart + PROCESSING_BATCH_SIZE, filteredContacts.length);
@@ -1215,7 +1300,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
               campaign,
               step,
               template,
-              senderEmail,
+              senders,
               userId,
               finalOrganizationId,
               existingEmailMap,
@@ -1232,9 +1317,11 @@ export class CampaignProcessorProcessor extends WorkerHost {
               batchState.firstEmailTimeOnDay0,
               dailyLimit,
               getDayBoundaries,
+              variantPlan,
             );
 
             totalQueuedCount += batchResult.created;
+            testSlotsLeft -= batchResult.created;
             totalSkippedCount += batchResult.skipped;
             totalErrorCount += batchResult.errors;
             allJobsToQueue.push(...batchResult.jobs);
@@ -1266,6 +1353,10 @@ export class CampaignProcessorProcessor extends WorkerHost {
         );
       }
 
+      if (abTestPending) {
+        await this.scheduleAbTestWinner(campaign, step);
+      }
+
       queuedCount = totalQueuedCount;
       skippedCount = totalSkippedCount;
       errorCount = totalErrorCount;
@@ -1441,6 +1532,9 @@ export class CampaignProcessorProcessor extends WorkerHost {
         this.logger.log(`Quota distribution found for campaign ${campaignId}: ${quotaDistribution.length} days`);
       }
 
+      // Dynamic lists are re-evaluated so the step goes to the contacts matching right now
+      await this.refreshDynamicList(campaign.contactListId);
+
       // 2. Check if contact list has at least one subscribed, non-bounced contact (early validation)
       const subscribedCount = await this.contactListMemberModel.count({
         where: { contactListId: campaign.contactListId },
@@ -1493,7 +1587,7 @@ export class CampaignProcessorProcessor extends WorkerHost {
         `(filtered out ${filteredCount}: unsubscribed and/or bounced)`
       );
 
-      // Calculate total emails - note: steps with replyToStepId may have fewer contacts
+      // Calculate total emails - note: steps with follow-up conditions may have fewer contacts
       // This is an estimate; actual count depends on filtering per step
       const totalEmails = contacts.length * steps.length;
 
@@ -1518,22 +1612,16 @@ export class CampaignProcessorProcessor extends WorkerHost {
       const userId = campaign.createdBy;
       this.logger.debug(`Looking for Gmail token for user: ${userId}`);
 
-      // 6. Get sender email from Gmail token (once before the loops)
-      const token = await this.gmailTokenModel.findOne({
-        where: { userId, status: 'ACTIVE' },
-      });
-
-      if (!token) {
-        this.logger.error(`No active Gmail token found for user ${userId}`);
-        throw new Error(`No active Gmail token found for user ${userId}`);
-      }
+      // 6. Get sending mailboxes once before the loops (campaign sender pool, or the creator's Gmail token)
+      const senders = await this.senderRotationService.getActiveSenders(campaign);
+      this.logger.log(`Sending campaign ${campaignId} from ${senders.length} mailbox(es): ${senders.map(s => s.email).join(', ')}`);
 
-      const senderEmail = token.email; // Use the Gmail account email
-      this.logger.log(`Found Gmail token with email: ${senderEmail}`);
-
-      if (!senderEmail) {
-        this.logger.error(`Gmail token found but email is NULL/empty for user ${userId}`);
-        throw new Error(`Gmail token email is missing for user ${userId}`);
+      const suppressionMatches = await this.suppressionMatcherService.findMatches(
+        finalOrganizationId,
+        contacts.map(contact => contact.email),
+      );
+      if (suppressionMatches.size > 0) {
+        this.logger.log(`${suppressionMatches.size} contact(s) of campaign ${campaignId} are on the suppression list`);
       }
 
       let queuedCount = 0;
@@ -1545,166 +1633,25 @@ export class CampaignProcessorProcessor extends WorkerHost {
         // Determine which contacts to process for this step
         let stepContacts: Contact[] = contacts;
 
-        if (step.replyToStepId && step.replyType) {
-          // Filter contacts based on reply-to-step configuration
-          this.logger.log(`Step ${step.id} configured to reply to step ${step.replyToStepId} (type: ${step.replyType})`);
-
-          if (step.replyType === 'CLICKED') {
-            // Only send to contacts who clicked BUT did NOT reply
-            // First, get contacts who clicked
-            const clickedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                clickedCount: { [Op.gt]: 0 },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const clickedContactIds = clickedEmails.map((email: any) => email.contactId);
-
-            if (clickedContactIds.length === 0) {
-              this.logger.warn(`No contacts clicked in step ${step.replyToStepId}, skipping step ${step.id}`);
-              continue; // Skip this step
-            }
-
-            // Now exclude contacts who replied (higher engagement)
-            const repliedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                replyCount: { [Op.gt]: 0 },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
-
-            // Filter to contacts who clicked BUT did NOT reply
-            stepContacts = contacts.filter(contact =>
-              clickedContactIds.includes(contact.id) &&
-              !repliedContactIds.includes(contact.id) &&
-              contact.subscribed !== false &&
-              contact.status !== 'BOUNCED'
-            );
-
-            if (stepContacts.length === 0) {
-              this.logger.warn(`No eligible contacts found for CLICKED filter (all clicked contacts also replied), skipping step ${step.id}`);
-              continue;
-            }
-          } else if (step.replyType === 'OPENED') {
-            // Only send to contacts who opened BUT did NOT click AND did NOT reply
-            // First, get contacts who opened
-            const openedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                openedAt: { [Op.ne]: null },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const openedContactIds = openedEmails.map((email: any) => email.contactId);
-
-            if (openedContactIds.length === 0) {
-              this.logger.warn(`No contacts opened emails in step ${step.replyToStepId}, skipping step ${step.id}`);
-              continue; // Skip this step
-            }
-
-            // Now exclude contacts who clicked
-            const clickedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                clickedCount: { [Op.gt]: 0 },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
+        const sendConditions = this.followUpConditionService.getStepConditions(step);
 
-            const clickedContactIds = clickedEmails.map((email: any) => email.contactId);
-
-            // And exclude contacts who replied
-            const repliedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                replyCount: { [Op.gt]: 0 },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
-
-            // Filter to contacts who opened BUT did NOT click or reply
-            stepContacts = contacts.filter(contact =>
-              openedContactIds.includes(contact.id) &&
-              !clickedContactIds.includes(contact.id) &&
-              !repliedContactIds.includes(contact.id) &&
-              contact.subscribed !== false &&
-              contact.status !== 'BOUNCED'
-            );
-
-            if (stepContacts.length === 0) {
-              this.logger.warn(`No eligible contacts found for OPENED filter (all opened contacts also clicked or replied), skipping step ${step.id}`);
-              continue;
-            }
-          } else if (step.replyType === 'SENT') {
-            // Send to ALL contacts who were sent an email in the previous step, EXCEPT bounced ones
-            const sentEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                status: { [Op.notIn]: [EmailMessageStatus.BOUNCED] },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const sentContactIds = sentEmails.map((email: any) => email.contactId);
-
-            if (sentContactIds.length === 0) {
-              this.logger.warn(`No contacts were sent emails in step ${step.replyToStepId}, skipping step ${step.id}`);
-              continue; // Skip this step
-            }
-
-            // Exclude contacts who replied (higher engagement)
-            const repliedEmails = await this.emailMessageModel.findAll({
-              where: {
-                campaignId: campaign.id,
-                campaignStepId: step.replyToStepId,
-                replyCount: { [Op.gt]: 0 },
-              },
-              attributes: ['contactId'],
-              group: ['contactId'],
-            });
-
-            const repliedContactIds = repliedEmails.map((email: any) => email.contactId);
-
-            // Filter to contacts who were sent but did NOT bounce and did NOT reply
-            stepContacts = contacts.filter(contact =>
-              sentContactIds.includes(contact.id) &&
-              !repliedContactIds.includes(contact.id) &&
-              contact.subscribed !== false &&
-              contact.status !== 'BOUNCED'
-            );
+        if (sendConditions) {
+          const { eligibleContactIds } = await this.followUpConditionService.evaluate(campaign.id, sendConditions, {
+            humanOnly: campaign.humanEngagementOnly,
+          });
 
-            if (stepContacts.length === 0) {
-              this.logger.warn(`No eligible contacts for SENT filter (all sent contacts bounced or replied), skipping step ${step.id}`);
-              continue;
-            }
-          }
+          stepContacts = contacts.filter(contact =>
+            eligibleContactIds.has(contact.id) &&
+            contact.subscribed !== false &&
+            contact.status !== 'BOUNCED'
+          );
 
           if (stepContacts.length === 0) {
-            this.logger.warn(`No eligible contacts found for step ${step.id} (reply-to-step: ${step.replyToStepId}), skipping`);
+            this.logger.warn(`No contacts meet the follow-up conditions of step ${step.id}, skipping`);
             continue; // Skip this step
           }
 
-          this.logger.log(`Step ${step.id} will process ${stepContacts.length} contacts (filtered by reply-to-step ${step.replyToStepId})`);
+          this.logger.log(`Step ${step.id} will process ${stepContacts.length} contacts (filtered by follow-up conditions)`);
         }
 
         // Load template once before processing contacts for this step (OPTIMIZATION: Issue #8)
@@ -1729,6 +1676,24 @@ export class CampaignProcessorProcessor extends WorkerHost {
           existingEmailMapForStep.set(email.contactId, email);
         });
 
+        // A/B variants: split contacts across variants; while a test is pending only the sample is sent
+        const variantPlan = await this.createVariantPlan(step);
+        const abTestPending = this.stepVariantService.isTestPending(step);
+        if (abTestPending) {
+          const testSlots = this.stepVariantService.getTestSampleSize(stepContacts.length, step) - existingEmailsForStep.length;
+          stepContacts = stepContacts
+            .filter(contact => !existingEmailMapForStep.has(contact.id))
+            .slice(0, Math.max(0, testSlots));
+          this.logger.log(`A/B test of step ${step.id}: sending ${stepContacts.length} test email(s) before picking a winner`);
+        }
+
+        // Assign sending mailboxes; follow-up steps reuse the mailbox that sent step 1
+        const senderAssignments = await this.senderRotationService.assignSenders(
+          campaign,
+          senders,
+          stepContactIds,
+        );
+
         // 8. Process each contact for this step
         for (let contactIndex = 0; contactIndex < stepContacts.length; contactIndex++) {
           const contact = stepContacts[contactIndex];
@@ -1765,6 +1730,10 @@ export class CampaignProcessorProcessor extends WorkerHost {
               undefined, // lastScheduledTimeByDay - not needed for full campaign processing
               undefined, // firstEmailTimeByDay - not needed for full campaign processing
               new Date(),
+              undefined, // alreadySentCountOnDay0
+              step.timezone || 'UTC',
+              campaign.sendingWindow,
+              contact.timezone,
             );
           } else {
             // Fallback: use simple delay
@@ -1772,18 +1741,14 @@ export class CampaignProcessorProcessor extends WorkerHost {
             const baseTime = step.triggerType === 'SCHEDULE' && step.scheduleTime
               ? new Date(step.scheduleTime)
               : new Date();
-            sendAt = new Date(baseTime.getTime() + contactIndex * delayMinutes * 60 * 1000);
+            sendAt = this.campaignSchedulingService.applySendingWindow(
+              new Date(baseTime.getTime() + contactIndex * delayMinutes * 60 * 1000),
+              campaign.sendingWindow,
+              step.timezone || 'UTC',
+              contact.timezone,
+            );
           }
 
-          // Template already loaded before loop (OPTIMIZATION: Issue #8)
-          // Personalize content
-          const personalized = this.emailPersonalizationService.personalizeContent(
-            template.subject,
-            template.htmlContent,
-            template.textContent || '',
-            contact,
-          );
-
           // Check if email message already exists (using pre-loaded map)
           const existingEmail = existingEmailMapForStep.get(contact.id);
 
@@ -1794,9 +1759,55 @@ export class CampaignProcessorProcessor extends WorkerHost {
             continue; // Skip this contact-step combination
           }
 
+          const verificationSkipReason = getVerificationSkipReason(contact.emailVerificationStatus, campaign.verificationFilter);
+          if (verificationSkipReason) {
+            await this.emailMessageModel.create(this.buildSkippedEmail(
+              verificationSkipReason,
+              this.describeVerificationSkip(contact),
+              finalOrganizationId,
+              campaign,
+              step,
+              template,
+              contact,
+              senderAssignments.get(contact.id) ?? senders[0],
+              userId,
+            ));
+            continue;
+          }
+
+          const suppression = contact.email && suppressionMatches.get(contact.email.trim().toLowerCase());
+          if (suppression) {
+            await this.emailMessageModel.create(this.buildSkippedEmail(
+              SUPPRESSION_SKIP_REASONS[suppression.type],
+              this.suppressionMatcherService.describeMatch(suppression),
+              finalOrganizationId,
+              campaign,
+              step,
+              template,
+              contact,
+              senderAssignments.get(contact.id) ?? senders[0],
+              userId,
+            ));
+            continue;
+          }
+
+          // Template already loaded before loop (OPTIMIZATION: Issue #8)
+          const variant = variantPlan?.pick();
+          const contactTemplate = (variant && variantPlan!.templates.get(variant.templateId)) || template;
+
+          // Personalize content
+          const personalized = this.emailPersonalizationService.personalizeContent(
+            variant?.subject || contactTemplate.subject,
+            contactTemplate.htmlContent,
+            contactTemplate.textContent || '',
+            contact,
+          );
+
+          const sender = senderAssignments.get(contact.id) ?? senders[0];
+
           // Create email_messages record
           this.logger.debug(`Creating email message for contact ${contact.id}, step ${step.id}`);
-          this.logger.debug(`Data: subject="${personalized.subject}", sentFromEmail="${senderEmail}"`);
+          this.logger.debug(`Data: subject="${personalized.subject}", sentFromEmail="${sender.email}"`);
           this.logger.debug(`Full data: organizationId=${finalOrganizationId}, campaignId=${campaign.id}, campaignStepId=${step.id}, contactId=${contact.id}`);
 
           let emailMessage;
@@ -1812,8 +1823,9 @@ export class CampaignProcessorProcessor extends WorkerHost {
               status: EmailMessageStatus.QUEUED,
               queuedAt: new Date(),
               scheduledSendAt: sendAt, // Store when the email is scheduled to be sent
-              sentFromEmail: senderEmail, // Use the actual Gmail account email
+              sentFromEmail: sender.email, // Mailbox assigned by sender rotation
               createdBy: userId, // Store the user who created the campaign (and thus the email)
+              variantId: variant?.id ?? null,
             });
 
             this.logger.debug(`✅ Email message created successfully: ${emailMessage.id}`);
@@ -1840,7 +1852,8 @@ export class CampaignProcessorProcessor extends WorkerHost {
             sendAt,
             campaign.name,
             stepName,
-            template.sendFormat, // Pass template sendFormat for tracking injection
+            contactTemplate.sendFormat, // Pass template sendFormat for tracking injection
+            sender.id,
           );
 
           queuedCount++;
@@ -1865,6 +1878,10 @@ export class CampaignProcessorProcessor extends WorkerHost {
             });
           }
         }
+
+        if (abTestPending) {
+          await this.scheduleAbTestWinner(campaign, step);
+        }
       }
 
       // 7. Emit completion
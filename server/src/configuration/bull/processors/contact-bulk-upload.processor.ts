@@ -26,7 +26,7 @@ export class ContactBulkUploadProcessor extends WorkerHost {
   async process(job: Job): Promise<any> {
     this.logger.log(`🚀 Processor received job ${job.id}`);
     this.logger.log(`Job data:`, JSON.stringify(job.data, null, 2));
-    const { fileId, filePath, organizationId, userId } = job.data;
+    const { fileId, filePath, organizationId, userId, mapping, importOptions } = job.data;
 
     if (!fileId || !filePath || !organizationId) {
       const error = new Error(`Missing required job data: fileId=${fileId}, filePath=${filePath}, organizationId=${organizationId}`);
@@ -70,7 +70,7 @@ export class ContactBulkUploadProcessor extends WorkerHost {
       } else {
         // Fallback: use filename if path contains it
         const filename = path.basename(normalizedSeparators);
-        if (filename.includes('.csv')) {
+        if (/\.(csv|xlsx)$/i.test(filename)) {
           relativePath = `contacts/bulk-upload/${filename}`;
         } else {
           relativePath = normalizedSeparators;
@@ -152,6 +152,8 @@ export class ContactBulkUploadProcessor extends WorkerHost {
           normalizedPath,
           organizationId,
           userId,
+          mapping,
+          importOptions,
         );
       } catch (processError) {
         // If processBulkUpload throws, it should have already emitted failure progress
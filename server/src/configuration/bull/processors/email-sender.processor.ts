@@ -2,34 +2,43 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { InjectModel } from '@nestjs/sequelize';
-import { google } from 'googleapis';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { CampaignStep } from 'src/resources/campaigns/entities/campaign-step.entity';
 import {
   EmailMessage,
   EmailMessageStatus,
   BounceType,
+  EmailSkipReason,
 } from 'src/resources/campaigns/entities/email-message.entity';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { User } from 'src/resources/users/entities/user.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { EmailSendFormat } from 'src/resources/email-templates/enums/email-send-format.enum';
 import { Op } from 'sequelize';
-import { GmailService } from 'src/common/services/gmail.service';
+import { MailSenderService } from 'src/common/services/mail-sender.service';
 import { RateLimiterService } from 'src/common/services/rate-limiter.service';
-import { CryptoUtilityService } from 'src/common/services/crypto-utility.service';
 import { EmailTrackingService } from 'src/common/services/email-tracking.service';
 import { WsGateway } from 'src/resources/ws/ws.gateway';
-import { ConfigService } from '@nestjs/config';
 import { CampaignProcessorQueue } from '../queues/campaign-processor.queue';
 import { EmailSenderQueue } from '../queues/email-sender.queue';
 import { QueueName } from '../enums/queue.enum';
 import { NotificationEventService } from 'src/resources/notifications/services/notification-event.service';
+import { CampaignSchedulingService } from 'src/resources/campaigns/services/campaign-scheduling.service';
+import { SequenceStopService } from 'src/resources/campaigns/services/sequence-stop.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
+import { WebhookEvent } from 'src/resources/webhooks/entities/webhook-endpoint.entity';
+import {
+  SUPPRESSION_SKIP_REASONS,
+  SuppressionMatcherService,
+} from 'src/resources/suppressions/services/suppression-matcher.service';
 import { Inject, forwardRef } from '@nestjs/common';
 
 /**
  * BullMQ Processor for Email Sending
- * Sends individual emails via Gmail API with rate limiting
+ * Sends individual emails through the sending mailbox's provider (Gmail API, SMTP) with rate limiting
  */
 @Processor(QueueName.EMAIL_SENDER)
 export class EmailSenderProcessor extends WorkerHost {
@@ -50,14 +59,16 @@ export class EmailSenderProcessor extends WorkerHost {
     private readonly userModel: typeof User,
     @InjectModel(Contact)
     private readonly contactModel: typeof Contact,
-    private readonly gmailService: GmailService,
+    private readonly mailSenderService: MailSenderService,
     private readonly rateLimiterService: RateLimiterService,
-    private readonly cryptoUtilityService: CryptoUtilityService,
     private readonly emailTrackingService: EmailTrackingService,
     private readonly wsGateway: WsGateway,
-    private readonly configService: ConfigService,
     private readonly campaignProcessorQueue: CampaignProcessorQueue,
     private readonly emailSenderQueue: EmailSenderQueue,
+    private readonly campaignSchedulingService: CampaignSchedulingService,
+    private readonly suppressionMatcherService: SuppressionMatcherService,
+    private readonly sequenceStopService: SequenceStopService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
     @Inject(forwardRef(() => NotificationEventService))
     private readonly notificationEventService?: NotificationEventService,
   ) {
@@ -99,8 +110,18 @@ export class EmailSenderProcessor extends WorkerHost {
         return { success: false, reason: `Campaign is ${campaign.status}` };
       }
 
-      // 2. Check rate limit
-      const canSend = await this.rateLimiterService.checkQuota(userId);
+      // 2. Resolve the sending mailbox (sender rotation) and check its rate limit
+      const token = await this.resolveSenderToken(
+        job.data.senderTokenId,
+        emailMessageId,
+        organizationId,
+        userId,
+      );
+      if (!token) {
+        return this.failWithoutSender(emailMessageId, campaignId, campaignStepId);
+      }
+
+      const canSend = await this.rateLimiterService.checkSenderQuota(token);
       if (!canSend) {
         // Smart quota-exceeded handling: Reschedule job instead of throwing error
         try {
@@ -131,6 +152,16 @@ export class EmailSenderProcessor extends WorkerHost {
             rescheduleTime = new Date(now.getTime() + bufferMs);
           }
 
+          // Keep the rescheduled email inside the campaign's sending window
+          if (campaign?.sendingWindow) {
+            rescheduleTime = await this.rollIntoSendingWindow(
+              campaign,
+              campaignStepId,
+              contactId,
+              rescheduleTime,
+            );
+          }
+
           const delayMs = rescheduleTime.getTime() - now.getTime();
 
           // Reschedule job
@@ -190,46 +221,10 @@ export class EmailSenderProcessor extends WorkerHost {
         return { success: true, status: emailMessage.status };
       }
 
-      // 3. Get Gmail OAuth token
-      this.logger.log(`🔍 [FETCH] Fetching Gmail OAuth token for user: ${userId} (status: ACTIVE)`);
-      const token = await this.gmailTokenModel.findOne({
-        where: { userId, status: 'ACTIVE' },
-      });
-      this.logger.log(`🔍 [FETCH] Gmail token fetched: ${token ? `Found (email: ${token.email})` : 'Not found'}`);
-
-      if (!token) {
-        throw new Error(`No active Gmail token found for user ${userId}`);
-      }
-
-      // 4. Refresh token if expired
-      let accessToken = await this.cryptoUtilityService.decrypt(
-        token.accessTokenEncrypted,
-      );
-
-      if (token.tokenExpiresAt && new Date(token.tokenExpiresAt) <= new Date()) {
-        this.logger.log(`Token expired for user ${userId}. Refreshing...`);
-
-        const clientId = this.configService.get<string>('GOOGLE_CLIENT_ID');
-        const clientSecret = this.configService.get<string>('GOOGLE_CLIENT_SECRET');
-
-        const refreshed = await this.gmailService.refreshAccessToken(
-          token.refreshTokenEncrypted,
-          clientId,
-          clientSecret,
-        );
-
-        accessToken = refreshed.accessToken;
-
-        const expiresAt = new Date(Date.now() + refreshed.expiresIn * 1000);
-        const encryptedAccessToken = await this.cryptoUtilityService.encrypt(accessToken);
-
-        await token.update({
-          accessTokenEncrypted: encryptedAccessToken,
-          tokenExpiresAt: expiresAt,
-        });
-
-        this.logger.log(`Token refreshed for user ${userId}`);
-      }
+      // 4. Resolve the mailbox's provider and make sure its credentials are usable
+      // (refreshes expired Gmail tokens)
+      const sender = this.mailSenderService.forMailbox(token);
+      await sender.prepare(token);
 
       // 5. Update status to 'sending'
       await emailMessage.update({ status: EmailMessageStatus.SENDING });
@@ -254,6 +249,7 @@ export class EmailSenderProcessor extends WorkerHost {
         );
         await emailMessage.update({
           status: EmailMessageStatus.CANCELLED,
+          skipReason: emailMessage.contact.subscribed === false ? EmailSkipReason.UNSUBSCRIBED : EmailSkipReason.BOUNCED,
           errorMessage: `Contact is ${emailMessage.contact.subscribed === false ? 'unsubscribed' : 'bounced'}`,
         });
         return {
@@ -262,6 +258,59 @@ export class EmailSenderProcessor extends WorkerHost {
         };
       }
 
+      // Re-check the suppression list, entries may have been added since the step was materialized
+      const suppression = await this.suppressionMatcherService.findMatch(
+        emailMessage.organizationId,
+        emailMessage.contact.email,
+      );
+      if (suppression) {
+        const reason = this.suppressionMatcherService.describeMatch(suppression);
+        this.logger.warn(`Contact ${emailMessage.contactId} is suppressed, cancelling email ${emailMessageId}: ${reason}`);
+        await emailMessage.update({
+          status: EmailMessageStatus.CANCELLED,
+          skipReason: SUPPRESSION_SKIP_REASONS[suppression.type],
+          errorMessage: reason,
+        });
+        return { success: false, reason };
+      }
+
+      // Organization stop rules: a reply in another campaign or from a colleague ends the sequence
+      const stop = await this.sequenceStopService.findStopReason(emailMessage, emailMessage.contact);
+      if (stop) {
+        this.logger.warn(`Stop rule matched for contact ${emailMessage.contactId}, cancelling email ${emailMessageId}: ${stop.message}`);
+        await emailMessage.update({
+          status: EmailMessageStatus.CANCELLED,
+          skipReason: stop.skipReason,
+          errorMessage: stop.message,
+        });
+        return { success: false, reason: stop.message };
+      }
+
+      // Contact answered with an out-of-office reply, hold the email until their return date
+      const outOfOfficeUntil = emailMessage.contact.outOfOfficeUntil
+        ? new Date(emailMessage.contact.outOfOfficeUntil)
+        : null;
+      if (outOfOfficeUntil && outOfOfficeUntil > new Date()) {
+        let resumeAt = outOfOfficeUntil;
+        if (campaign?.sendingWindow) {
+          resumeAt = await this.rollIntoSendingWindow(campaign, campaignStepId, contactId, resumeAt);
+        }
+        const delayMs = resumeAt.getTime() - Date.now();
+
+        await this.emailSenderQueue.rescheduleEmailJob(emailMessageId, delayMs);
+        await emailMessage.update({
+          status: EmailMessageStatus.QUEUED,
+          nextRetryAt: resumeAt,
+          errorCode: 'CONTACT_OUT_OF_OFFICE',
+          errorMessage: `Contact is out of office. Rescheduled to ${resumeAt.toISOString()}`,
+        });
+
+        this.logger.log(
+          `Contact ${emailMessage.contactId} is out of office, rescheduled email ${emailMessageId} to ${resumeAt.toISOString()}`,
+        );
+        return { success: true, rescheduled: true, emailMessageId, rescheduleTime: resumeAt.toISOString(), delayMs };
+      }
+
       // 7. Use already loaded campaign to check if tracking is enabled
       const trackOpens = campaign?.openTracking ?? true;
       const trackClicks = campaign?.clickTracking ?? true;
@@ -289,11 +338,13 @@ export class EmailSenderProcessor extends WorkerHost {
       const sendFormat = (job.data.sendFormat as string) || EmailSendFormat.TEXT;
       let finalHtml: string | undefined = undefined;
       let finalText: string | undefined = undefined;
+      // Links rewritten for click tracking; click redirects only go to these URLs
+      const trackedLinks: Record<string, string> = {};
 
       if (sendFormat === EmailSendFormat.HTML) {
-        // HTML format: send HTML content only
+        // HTML format: send HTML content, with the plain-text version when the template has one
         finalHtml = emailMessage.htmlContent;
-        finalText = undefined; // Don't send text content
+        finalText = undefined;
 
         // Always inject tracking/unsubscribe (unsubscribe is required for compliance)
         // Even if all tracking is disabled, we still add unsubscribe link
@@ -306,9 +357,27 @@ export class EmailSenderProcessor extends WorkerHost {
           addUnsubscribe, // Always true by default, but respects campaign setting
           unsubscribeReplyEnabled,
           unsubscribeCustomMessage,
+          trackedLinks,
         );
         this.logger.debug(`📧 HTML injected, new length: ${finalHtml.length}, original: ${emailMessage.htmlContent.length}`);
 
+        // The template's plain-text version goes out as the text/plain alternative
+        const plainText = emailMessage.textContent && !/<[a-z][\s\S]*>/i.test(emailMessage.textContent)
+          ? emailMessage.textContent
+          : '';
+        if (plainText.trim()) {
+          finalText = this.emailTrackingService.injectTextTracking(
+            plainText,
+            emailMessage.id,
+            trackClicks,
+            fromName,
+            addUnsubscribe,
+            unsubscribeReplyEnabled,
+            unsubscribeCustomMessage,
+            trackedLinks,
+          );
+        }
+
         this.logger.debug(`📧 Using HTML format - HTML content length: ${finalHtml.length}`);
       } else {
         // TEXT format: textContent contains HTML (converted from plain text with links)
@@ -329,6 +398,7 @@ export class EmailSenderProcessor extends WorkerHost {
             addUnsubscribe, // Always true by default, but respects campaign setting
             unsubscribeReplyEnabled,
             unsubscribeCustomMessage,
+            trackedLinks,
           );
           finalText = undefined;
           this.logger.debug(`📧 TEXT format template using HTML from textContent - HTML length: ${finalHtml.length}, tracking: ${trackOpens || trackClicks || addUnsubscribe}`);
@@ -343,6 +413,7 @@ export class EmailSenderProcessor extends WorkerHost {
             addUnsubscribe, // Always true by default, but respects campaign setting
             unsubscribeReplyEnabled,
             unsubscribeCustomMessage,
+            trackedLinks,
           );
           finalText = undefined;
           this.logger.debug(`📧 TEXT format template using HTML from htmlContent - HTML length: ${finalHtml.length}, tracking: ${trackOpens || trackClicks || addUnsubscribe}`);
@@ -360,11 +431,15 @@ export class EmailSenderProcessor extends WorkerHost {
             addUnsubscribe, // Always true by default, but respects campaign setting
             unsubscribeReplyEnabled,
             unsubscribeCustomMessage,
+            trackedLinks,
           );
           this.logger.debug(`📧 Text tracking injected, new length: ${finalText.length}, original: ${emailMessage.textContent?.length || 0}`);
         }
       }
 
+      // 10. Store the tracked links before sending so the first clicks can be resolved
+      await emailMessage.update({ trackedLinks });
+
       // 11. Prepare thread headers for ALL emails in the campaign sequence
       // Find all previous emails sent to this contact in this campaign to build thread
       let threadHeaders: { inReplyTo?: string; references?: string; threadId?: string } | undefined;
@@ -440,23 +515,15 @@ export class EmailSenderProcessor extends WorkerHost {
             );
           } else {
             // Reference: Send reply using stored threadId + cleanMessageId
-            // The stored gmailMessageId is the internal ID (result.id), not the Message-ID header
-            // We need to fetch the clean Message-ID header from Gmail for threading
+            // For Gmail the stored gmailMessageId is the internal ID (result.id), not the Message-ID header
+            // We need to fetch the clean Message-ID header from the provider for threading
             let cleanMessageId = replyToEmail.gmailMessageId; // This is the internal ID
 
             // Fetch the clean Message-ID header from the previous email for threading
             // This is critical for proper threading - we need the actual Message-ID header
             try {
-              // Create OAuth2 client for fetching Message-ID
-              const fetchOAuth2Client = new google.auth.OAuth2();
-              fetchOAuth2Client.setCredentials({
-                access_token: accessToken,
-              });
-
-              // Fetch the clean Message-ID header from the previous email
-              const gmail = google.gmail({ version: 'v1', auth: fetchOAuth2Client });
               this.logger.log(`🔍 [FETCH] Fetching clean Message-ID header from previous email (internal ID: ${cleanMessageId})`);
-              cleanMessageId = await this.gmailService.getRealMessageId(gmail, cleanMessageId);
+              cleanMessageId = await sender.getMessageIdHeader(token, cleanMessageId);
               this.logger.log(`✅ [MESSAGE-ID] Fetched clean Message-ID header from previous email: ${cleanMessageId}`);
             } catch (error) {
               const errorMessage = error instanceof Error ? error.message : String(error);
@@ -547,7 +614,7 @@ export class EmailSenderProcessor extends WorkerHost {
         };
       }
 
-      // 13. Send email via Gmail API
+      // 13. Send email through the mailbox's provider
       try {
         // Log thread headers being sent
         if (threadHeaders) {
@@ -567,23 +634,23 @@ export class EmailSenderProcessor extends WorkerHost {
           `(Original template subject: "${emailMessage.subject}")`
         );
 
-        const result = await this.gmailService.sendEmail({
-          accessToken,
+        const result = await sender.send(token, {
           to: emailMessage.contact.email,
-          from: token.email, // Use the Gmail account's email
+          from: token.email, // Use the sending mailbox's email
           fromName, // Display name from user
           subject: finalSubject, // Use final subject (original for replies, template for new)
           html: finalHtml, // Use HTML if sendFormat is HTML, undefined otherwise
-          text: finalText, // Use text if sendFormat is TEXT, undefined otherwise
+          text: finalText, // Plain text of TEXT templates, or the plain-text alternative of HTML templates
           threadHeaders, // Include thread headers for threading
+          // One-click unsubscribe button of Gmail/Yahoo (RFC 8058)
+          listUnsubscribe: addUnsubscribe
+            ? this.emailTrackingService.generateListUnsubscribe(emailMessage.id, token.email)
+            : undefined,
         });
 
-        // Log the exact Gmail API response
         this.logger.log(
-          `📧 [GMAIL RESPONSE] Email ${emailMessageId} sent successfully. ` +
-          `Response: { id: "${result.id}", threadId: "${result.threadId}", ` +
-          `gmailMessageId: "${result.gmailMessageId || 'N/A'}", ` +
-          `labelIds: [${result.labelIds?.join(', ') || 'none'}] }`
+          `📧 [SEND RESULT] Email ${emailMessageId} sent successfully from ${token.email} (${token.provider}). ` +
+          `Result: { id: "${result.id}", threadId: "${result.threadId}" }`
         );
 
         // 14. Update status to 'sent' and store Message-IDs
@@ -595,16 +662,8 @@ export class EmailSenderProcessor extends WorkerHost {
         let replyMessageIdToStore: string | null = null;
         if (isReplyEmail && result.id) {
           try {
-            // Create OAuth2 client for fetching Message-ID
-            const fetchOAuth2Client = new google.auth.OAuth2();
-            fetchOAuth2Client.setCredentials({
-              access_token: accessToken,
-            });
-
-            // Fetch the clean Message-ID header from Gmail
-            const gmail = google.gmail({ version: 'v1', auth: fetchOAuth2Client });
             this.logger.log(`🔍 [FETCH] Fetching clean Message-ID header for reply email using internal ID: ${result.id}`);
-            const cleanReplyMessageId = await this.gmailService.getRealMessageId(gmail, result.id);
+            const cleanReplyMessageId = await sender.getMessageIdHeader(token, result.id);
             replyMessageIdToStore = cleanReplyMessageId;
             this.logger.log(`📧 [REPLY MESSAGE-ID] Fetched clean Message-ID for reply: "${cleanReplyMessageId}"`);
           } catch (error) {
@@ -630,8 +689,12 @@ export class EmailSenderProcessor extends WorkerHost {
           (replyMessageIdToStore ? `, Reply Message-ID in replyMessageId column: "${replyMessageIdToStore}"` : '')
         );
 
+        await this.webhookDispatcherService.dispatchEmailEvent(emailMessage, WebhookEvent.EMAIL_SENT, {
+          sentAt: emailMessage.sentAt,
+        });
+
         // 15. Increment rate limit counter (after successful send)
-        await this.rateLimiterService.incrementQuota(userId);
+        await this.rateLimiterService.incrementSenderQuota(token);
 
         // 16. Update step metrics
         await this.campaignStepModel.increment('emailsSent', {
@@ -662,8 +725,8 @@ export class EmailSenderProcessor extends WorkerHost {
       } catch (sendError) {
         // Handle permanent vs temporary errors
         const err = sendError as Error;
-        const isPermanent = !this.gmailService.isTemporaryError(sendError);
-        const errorCode = this.gmailService.getErrorCode(sendError);
+        const isPermanent = !sender.isTemporaryError(sendError);
+        const errorCode = sender.getErrorCode(sendError);
 
         this.logger.error(
           `Failed to send email ${emailMessageId}: ${err.message} (${errorCode})`,
@@ -715,6 +778,112 @@ export class EmailSenderProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * Roll a send time into the campaign's sending window, in the step or recipient timezone
+   */
+  private async rollIntoSendingWindow(
+    campaign: Campaign,
+    campaignStepId: string,
+    contactId: string,
+    sendAt: Date,
+  ): Promise<Date> {
+    const step = await this.campaignStepModel.findByPk(campaignStepId, {
+      attributes: ['id', 'timezone'],
+    });
+    const contact = campaign.sendingWindow?.useRecipientTimezone
+      ? await this.contactModel.findByPk(contactId, { attributes: ['id', 'timezone'] })
+      : null;
+
+    return this.campaignSchedulingService.applySendingWindow(
+      sendAt,
+      campaign.sendingWindow,
+      step?.timezone || 'UTC',
+      contact?.timezone,
+    );
+  }
+
+  /**
+   * Resolve the Gmail token that must send an email
+   * 1. Mailbox assigned by sender rotation (job data)
+   * 2. Mailbox recorded on the email message (jobs re-queued on resume carry no senderTokenId)
+   * 3. The campaign creator's Gmail mailbox, for emails without a recorded mailbox
+   * @returns null when no mailbox can send it; an email keeps its recorded mailbox, so a follow-up
+   * never leaves the contact's thread for another mailbox
+   */
+  private async resolveSenderToken(
+    senderTokenId: string | undefined,
+    emailMessageId: string,
+    organizationId: string,
+    userId: string,
+  ): Promise<GmailOAuthToken | null> {
+    if (senderTokenId) {
+      const assigned = await this.gmailTokenModel.findOne({
+        where: { id: senderTokenId, status: 'ACTIVE' },
+      });
+      if (assigned) {
+        return assigned;
+      }
+      this.logger.warn(`Assigned mailbox ${senderTokenId} is no longer active for email ${emailMessageId}`);
+    }
+
+    const emailMessage = await this.emailMessageModel.findByPk(emailMessageId, {
+      attributes: ['id', 'sentFromEmail'],
+    });
+    if (emailMessage?.sentFromEmail) {
+      const recorded = await this.gmailTokenModel.findOne({
+        where: { email: emailMessage.sentFromEmail, organizationId, status: 'ACTIVE' },
+      });
+      if (recorded) {
+        return recorded;
+      }
+      this.logger.warn(`Mailbox ${emailMessage.sentFromEmail} of email ${emailMessageId} is no longer active`);
+      return null;
+    }
+
+    this.logger.log(`🔍 [FETCH] Fetching Gmail OAuth token for user: ${userId} (status: ACTIVE)`);
+    return this.gmailTokenModel.findOne({
+      where: { userId, provider: MailboxProvider.GMAIL, status: 'ACTIVE' },
+    });
+  }
+
+  /**
+   * Fail an email whose sending mailbox is disconnected, retrying can't send it
+   */
+  private async failWithoutSender(
+    emailMessageId: string,
+    campaignId: string,
+    campaignStepId: string,
+  ): Promise<{ success: boolean; emailMessageId: string; status: string; error?: string }> {
+    const emailMessage = await this.emailMessageModel.findByPk(emailMessageId);
+    if (!emailMessage) {
+      throw new Error(`Email message ${emailMessageId} not found`);
+    }
+    if (
+      emailMessage.status === EmailMessageStatus.SENT ||
+      emailMessage.status === EmailMessageStatus.CANCELLED
+    ) {
+      return { success: true, emailMessageId, status: emailMessage.status };
+    }
+
+    const errorMessage = emailMessage.sentFromEmail
+      ? `Mailbox ${emailMessage.sentFromEmail} is no longer connected. Reconnect it to send this email`
+      : 'No active mailbox is connected to send this email';
+    await emailMessage.update({
+      status: EmailMessageStatus.FAILED,
+      errorCode: 'SENDER_MAILBOX_INACTIVE',
+      errorMessage,
+    });
+
+    await this.campaignStepModel.increment('emailsFailed', {
+      where: { id: campaignStepId },
+    });
+    await this.aggregateStepMetricsToCampaign(campaignId);
+    await this.emitProgress(campaignId, campaignStepId);
+
+    this.logger.warn(`Email ${emailMessageId} failed: ${errorMessage}`);
+    return { success: false, emailMessageId, status: 'failed', error: errorMessage };
+  }
+
   /**
    * Aggregate step metrics to campaign level
    */
@@ -880,6 +1049,8 @@ export class EmailSenderProcessor extends WorkerHost {
           `${stepsProcessed}/${steps.length} steps processed)`
         );
 
+        await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, campaign.status, 'COMPLETED');
+
         // Send notification for campaign completion
         try {
           const campaign = await this.campaignModel.findByPk(campaignId);
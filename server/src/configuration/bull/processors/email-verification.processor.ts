@@ -0,0 +1,33 @@
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bullmq';
+import { EmailVerifierService } from 'src/resources/email-verification/services/email-verifier.service';
+import { EmailVerificationJobData } from 'src/resources/email-verification/dto/email-verification.interface';
+import { QueueName } from '../enums/queue.enum';
+
+/**
+ * BullMQ Processor for Email Verification
+ * Verifies a chunk of contacts and stores the outcome on them
+ */
+@Processor(QueueName.EMAIL_VERIFICATION)
+export class EmailVerificationProcessor extends WorkerHost {
+  private readonly logger = new Logger(EmailVerificationProcessor.name);
+
+  constructor(private readonly emailVerifierService: EmailVerifierService) {
+    super();
+    this.logger.log('EmailVerificationProcessor initialized');
+  }
+
+  async process(job: Job<EmailVerificationJobData>): Promise<any> {
+    const { organizationId, contactIds, trigger } = job.data;
+
+    this.logger.debug(
+      `🔍 Processing email verification job ${job.id}: ${contactIds.length} contact(s) of organization ${organizationId} (${trigger})`,
+    );
+
+    const counts = await this.emailVerifierService.verifyContacts(organizationId, contactIds);
+
+    this.logger.log(`Email verification job ${job.id} done: ${JSON.stringify(counts)}`);
+    return { success: true, counts };
+  }
+}
@@ -6,20 +6,63 @@ import { QueueName, JobType } from '../enums/queue.enum';
 import { JobResult } from '../interfaces/queue.interface';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
+import { DeadLetterQueue } from '../queues/dead-letter.queue';
+import { WebhookDeliveryService } from 'src/resources/webhooks/services/webhook-delivery.service';
 
 @Processor(QueueName.NOTIFICATION)
 export class NotificationProcessor extends WorkerHost {
   protected readonly logger = new Logger(NotificationProcessor.name);
   private readonly baseProcessor: NotificationProcessorImpl;
 
-  constructor(private readonly httpService: HttpService) {
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+    private readonly deadLetterQueue: DeadLetterQueue,
+  ) {
     super();
     this.baseProcessor = new NotificationProcessorImpl(httpService);
   }
 
   async process(job: Job): Promise<any> {
+    if (job.name === JobType.SEND_WEBHOOK && job.data?.deliveryId) {
+      return await this.deliverWebhook(job);
+    }
     return await this.baseProcessor.executeWithLogging(job);
   }
+
+  /**
+   * Deliver an organization webhook
+   * Failed attempts throw so BullMQ retries them with backoff, the last one also goes to the dead-letter queue
+   */
+  private async deliverWebhook(job: Job): Promise<JobResult> {
+    const attempt = job.attemptsMade + 1;
+    const finalAttempt = attempt >= (job.opts.attempts ?? 1);
+    const result = await this.webhookDeliveryService.deliver(job.data.deliveryId, attempt, finalAttempt);
+
+    if (result.delivered || !result.retry) {
+      return {
+        success: result.delivered,
+        ...(result.error && { error: result.error }),
+        metadata: { processedAt: new Date(), attemptNumber: attempt },
+      };
+    }
+
+    if (finalAttempt) {
+      try {
+        await this.deadLetterQueue.addFailedJob(
+          QueueName.NOTIFICATION,
+          String(job.id),
+          { name: job.name, ...job.data },
+          result.error || 'Webhook delivery failed',
+          new Date(),
+        );
+      } catch (error) {
+        this.logger.error(`Failed to move webhook job ${job.id} to the dead-letter queue: ${(error as Error).message}`);
+      }
+    }
+
+    throw new Error(result.error || 'Webhook delivery failed');
+  }
 }
 
 class NotificationProcessorImpl extends BaseProcessor {
@@ -2,8 +2,12 @@ import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bullmq';
 import { InjectModel } from '@nestjs/sequelize';
-import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
 import { ReplyDetectionService } from 'src/common/services/reply-detection.service';
+import { ImapMailboxService } from 'src/common/services/imap-mailbox.service';
 import { TokenRefreshService } from 'src/common/services/token-refresh.service';
 import { CircuitBreakerService } from 'src/common/services/circuit-breaker.service';
 import { classifyGmailError, requiresTokenRefresh, requiresReAuth, isRefreshTokenError } from 'src/common/utils/gmail-error.util';
@@ -13,6 +17,7 @@ import { QueueName } from '../enums/queue.enum';
 /**
  * BullMQ Processor for Reply Detection
  * Processes individual account reply detection jobs
+ * 'poll-imap' jobs poll SMTP mailboxes over IMAP for both replies and bounces
  */
 @Processor(QueueName.REPLY_DETECTION)
 export class ReplyDetectionProcessor extends WorkerHost {
@@ -24,12 +29,17 @@ export class ReplyDetectionProcessor extends WorkerHost {
     private readonly replyDetectionService: ReplyDetectionService,
     private readonly tokenRefreshService: TokenRefreshService,
     private readonly circuitBreakerService: CircuitBreakerService,
+    private readonly imapMailboxService: ImapMailboxService,
   ) {
     super();
     this.logger.log('ReplyDetectionProcessor initialized');
   }
 
   async process(job: Job): Promise<any> {
+    if (job.name === 'poll-imap') {
+      return this.processImapPoll(job);
+    }
+
     const { userId, userEmail } = job.data;
 
     this.logger.debug(`📬 Processing reply detection job ${job.id} for user ${userEmail}`);
@@ -47,6 +57,7 @@ export class ReplyDetectionProcessor extends WorkerHost {
       const token = await this.gmailTokenModel.findOne({
         where: {
           userId,
+          provider: MailboxProvider.GMAIL,
           status: 'ACTIVE',
         },
       });
@@ -277,5 +288,22 @@ export class ReplyDetectionProcessor extends WorkerHost {
       throw error;
     }
   }
-}
 
+  /**
+   * Poll an SMTP mailbox over IMAP
+   * Connection errors are thrown so BullMQ retries with backoff
+   */
+  private async processImapPoll(job: Job): Promise<any> {
+    const { mailboxId, userEmail } = job.data;
+
+    this.logger.debug(`📬 Processing IMAP poll job ${job.id} for mailbox ${userEmail}`);
+
+    const result = await this.imapMailboxService.pollMailbox(mailboxId);
+
+    return {
+      success: true,
+      found: result.fetched,
+      processed: result.replies + result.bounces + result.unsubscribes,
+    };
+  }
+}
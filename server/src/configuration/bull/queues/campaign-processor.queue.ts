@@ -214,6 +214,67 @@ export class CampaignProcessorQueue
     };
   }
 
+  /**
+   * Schedule the A/B test winner pick of a step once its test period is over.
+   * Replaces a pending or finished pick of the same step, unless it is running.
+   */
+  async addAbTestWinnerJob(
+    campaignId: string,
+    stepId: string,
+    organizationId: string,
+    delayMs: number,
+    stepOrder?: number,
+  ) {
+    const basePriority = BullConfig.getQueuePriority(QueueName.CAMPAIGN_PROCESSOR);
+    const priority = stepOrder !== undefined
+      ? Math.max(1, basePriority - stepOrder + 1)
+      : basePriority;
+
+    const jobId = `ab-winner-${campaignId}-${stepId}`;
+    const conflictCheck = await this.checkJobConflict(jobId);
+    if (conflictCheck.exists) {
+      if (conflictCheck.state === 'active') {
+        this.logger.warn(`⚠️ A/B test winner job ${jobId} is currently active. Will not create duplicate job.`);
+        return { jobId, campaignId, stepId, message: 'Job already exists and is active' };
+      }
+      await this.removeJob(jobId);
+    }
+
+    const job = await this.queue.add(
+      'pick-ab-test-winner',
+      {
+        campaignId,
+        stepId,
+        organizationId,
+        queuedAt: new Date().toISOString(),
+      },
+      {
+        jobId,
+        delay: delayMs > 0 ? delayMs : undefined,
+        priority,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 5000,
+        },
+        removeOnComplete: 100,
+        removeOnFail: 100,
+      },
+    );
+
+    this.logger.log(
+      `Queued A/B test winner job ${job.id} for step ${stepId} in campaign ${campaignId}, ` +
+      `delay: ${Math.round(Math.max(0, delayMs) / 1000 / 60)} minutes`,
+    );
+
+    return {
+      jobId: job.id,
+      campaignId,
+      stepId,
+      message: 'A/B test winner pick scheduled',
+    };
+  }
+
   /**
    * Cancel all jobs for a campaign
    * Optimized: Uses predictable jobId patterns and efficient filtering
@@ -6,6 +6,10 @@ import { BullConfig } from '../config/bull.config';
 import { QueueName } from '../enums/queue.enum';
 import { AuditLogsService } from 'src/resources/audit-logs/audit-logs.service';
 import { AuditAction } from 'src/resources/audit-logs/entities/audit-log.entity';
+import {
+  ContactImportOptions,
+  ImportColumnMapping,
+} from 'src/resources/contacts/dto/contact-import.interface';
 
 /**
  * Queue Service for Contact Bulk Upload
@@ -49,12 +53,16 @@ export class ContactBulkUploadQueue
   /**
    * Add a bulk upload job to the queue
    * Custom method to avoid conflict with BaseQueueService.addJob()
+   * Without a mapping the file is read with the fixed template headers,
+   * without import options existing contacts are skipped
    */
   async addBulkUploadJob(
     fileId: string,
     filePath: string,
     organizationId: string,
     userId?: string,
+    mapping?: ImportColumnMapping[],
+    importOptions?: ContactImportOptions,
   ) {
     const job = await this.queue.add(
       'process-bulk-upload',
@@ -63,6 +71,8 @@ export class ContactBulkUploadQueue
         filePath,
         organizationId,
         userId,
+        mapping,
+        importOptions,
       },
       {
         jobId: fileId, // Use fileId as jobId for easy tracking
@@ -115,6 +125,8 @@ export class ContactBulkUploadQueue
     filePath: string,
     organizationId: string,
     userId?: string,
+    mapping?: ImportColumnMapping[],
+    importOptions?: ContactImportOptions,
     maxRetries: number = 5,
   ) {
     let lastError: Error | null = null;
@@ -129,7 +141,7 @@ export class ContactBulkUploadQueue
         }
 
         // Try to add job
-        return await this.addBulkUploadJob(fileId, filePath, organizationId, userId);
+        return await this.addBulkUploadJob(fileId, filePath, organizationId, userId, mapping, importOptions);
       } catch (error) {
         attempt++;
         lastError = error instanceof Error ? error : new Error(String(error));
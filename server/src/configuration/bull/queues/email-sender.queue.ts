@@ -54,6 +54,7 @@ export class EmailSenderQueue
     campaignName?: string,
     stepName?: string,
     sendFormat?: string, // Optional sendFormat from template
+    senderTokenId?: string, // Optional mailbox assigned by sender rotation
   ) {
     const now = Date.now();
     const sendAtTime = new Date(sendAt).getTime();
@@ -83,6 +84,7 @@ export class EmailSenderQueue
         queuedAt: new Date().toISOString(),
         name: jobName, // Job name for identification: campaign name + step name
         sendFormat, // Template sendFormat (HTML or TEXT)
+        senderTokenId, // Mailbox that must send this email (sender rotation)
       },
       {
         jobId: `email-${emailMessageId}`,
@@ -126,6 +128,7 @@ export class EmailSenderQueue
       campaignName?: string;
       stepName?: string;
       sendFormat?: string; // Template sendFormat (HTML or TEXT)
+      senderTokenId?: string; // Mailbox assigned by sender rotation
     }>,
   ): Promise<{ queued: number; errors: number }> {
     if (jobs.length === 0) {
@@ -158,6 +161,7 @@ export class EmailSenderQueue
           queuedAt: new Date().toISOString(),
           name: jobName,
           sendFormat: jobData.sendFormat, // Template sendFormat (HTML or TEXT)
+          senderTokenId: jobData.senderTokenId, // Mailbox that must send this email
         },
         opts: {
           jobId: `email-${jobData.emailMessageId}`,
@@ -209,6 +213,7 @@ export class EmailSenderQueue
             jobData.campaignName,
             jobData.stepName,
             jobData.sendFormat, // Pass sendFormat in fallback too
+            jobData.senderTokenId,
           );
           queued++;
         } catch (jobError) {
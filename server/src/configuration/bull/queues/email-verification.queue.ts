@@ -0,0 +1,84 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Queue } from 'bullmq';
+import { BaseQueueService } from '../services/base-queue.service';
+import { QueueName } from '../enums/queue.enum';
+import { EMAIL_VERIFICATION_JOB_SIZE } from 'src/resources/email-verification/email-verification.constants';
+import {
+  EmailVerificationJobData,
+  EmailVerificationTrigger,
+} from 'src/resources/email-verification/dto/email-verification.interface';
+
+/**
+ * Queue Service for Email Verification
+ * Manages job creation for verifying contact email addresses in chunks
+ */
+@Injectable()
+export class EmailVerificationQueue
+  extends BaseQueueService
+  implements OnModuleInit
+{
+  protected readonly logger = new Logger(EmailVerificationQueue.name);
+  protected readonly queue: Queue;
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+    this.queue = BaseQueueService.createQueue(
+      QueueName.EMAIL_VERIFICATION,
+      configService,
+      {
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 10000, // 10 seconds
+          },
+          removeOnComplete: {
+            age: 24 * 3600, // Keep for 24 hours
+            count: 1000,
+          },
+          removeOnFail: {
+            age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+            count: 500,
+          },
+        },
+      },
+    );
+  }
+
+  async onModuleInit() {
+    this.logger.log('EmailVerificationQueue initialized');
+  }
+
+  /**
+   * Queue verification of contacts, one job per EMAIL_VERIFICATION_JOB_SIZE contacts
+   * @returns Number of jobs queued
+   */
+  async addVerificationJobs(
+    organizationId: string,
+    contactIds: string[],
+    trigger: EmailVerificationTrigger,
+  ): Promise<number> {
+    const jobs: Array<{ name: string; data: EmailVerificationJobData }> = [];
+    for (let i = 0; i < contactIds.length; i += EMAIL_VERIFICATION_JOB_SIZE) {
+      jobs.push({
+        name: 'verify-contacts',
+        data: {
+          organizationId,
+          contactIds: contactIds.slice(i, i + EMAIL_VERIFICATION_JOB_SIZE),
+          trigger,
+        },
+      });
+    }
+
+    if (jobs.length > 0) {
+      await this.queue.addBulk(jobs);
+      this.logger.log(
+        `Queued ${jobs.length} email verification job(s) for ${contactIds.length} contact(s) of organization ${organizationId} (${trigger})`,
+      );
+    }
+    return jobs.length;
+  }
+
+  // getMetrics() inherited from BaseQueueService
+}
@@ -83,4 +83,22 @@ export class NotificationQueue
       },
     );
   }
+
+  /**
+   * Send a delivery of an organization webhook endpoint, signed and logged by WebhookDeliveryService
+   */
+  async sendWebhookDelivery(
+    deliveryId: string,
+    options?: JobOptions,
+  ): Promise<void> {
+    await this.addJob(
+      JobType.SEND_WEBHOOK,
+      { deliveryId },
+      {
+        priority: JobPriority.NORMAL,
+        attempts: 5,
+        ...options,
+      },
+    );
+  }
 }
@@ -126,6 +126,52 @@ export class ReplyDetectionQueue
     return job;
   }
 
+  /**
+   * Add an IMAP poll job for an SMTP mailbox (replies and bounces are detected in the same pass)
+   * Skips the mailbox when a poll job is already waiting or delayed
+   */
+  async addImapPollJob(
+    mailboxId: string,
+    mailboxEmail: string,
+    priority: number = 5,
+  ) {
+    const baseJobId = `imap-${mailboxId}`;
+
+    const [waitingJobs, delayedJobs] = await Promise.all([
+      this.queue.getJobs('waiting', 0, 100),
+      this.queue.getJobs('delayed', 0, 100),
+    ]);
+
+    const pendingJob = [...waitingJobs, ...delayedJobs].find(
+      job => job.id?.startsWith(baseJobId)
+    );
+
+    if (pendingJob) {
+      this.logger.log(
+        `⏭️  IMAP poll job already queued for mailbox ${mailboxEmail}, skipping to prevent duplicate`,
+      );
+      return pendingJob;
+    }
+
+    const job = await this.queue.add(
+      'poll-imap',
+      {
+        mailboxId,
+        userEmail: mailboxEmail,
+      },
+      {
+        jobId: `${baseJobId}-${Date.now()}`,
+        priority,
+      },
+    );
+
+    this.logger.debug(
+      `Queued IMAP poll job: ${job.id} for mailbox ${mailboxEmail}`,
+    );
+
+    return job;
+  }
+
   /**
    * Add multiple reply detection jobs for multiple accounts
    */
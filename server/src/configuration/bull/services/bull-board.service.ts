@@ -15,6 +15,7 @@ import { DeadLetterQueue } from '../queues/dead-letter.queue';
 import { BounceDetectionQueue } from '../queues/bounce-detection.queue';
 import { ReplyDetectionQueue } from '../queues/reply-detection.queue';
 import { SubscriptionQueue } from '../queues/subscription.queue';
+import { EmailVerificationQueue } from '../queues/email-verification.queue';
 
 @Injectable()
 export class BullBoardService implements OnModuleInit {
@@ -32,6 +33,7 @@ export class BullBoardService implements OnModuleInit {
     private readonly bounceDetectionQueue: BounceDetectionQueue,
     private readonly replyDetectionQueue: ReplyDetectionQueue,
     private readonly subscriptionQueue: SubscriptionQueue,
+    private readonly emailVerificationQueue: EmailVerificationQueue,
     private readonly configService: ConfigService,
   ) {
     this.serverAdapter = new ExpressAdapter();
@@ -52,6 +54,7 @@ export class BullBoardService implements OnModuleInit {
       new BullMQAdapter(this.bounceDetectionQueue['queue']),
       new BullMQAdapter(this.replyDetectionQueue['queue']),
       new BullMQAdapter(this.subscriptionQueue['queue']),
+      new BullMQAdapter(this.emailVerificationQueue['queue']),
     ];
 
     createBullBoard({
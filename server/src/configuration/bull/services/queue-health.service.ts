@@ -13,6 +13,7 @@ import { DeadLetterQueue } from '../queues/dead-letter.queue';
 import { BounceDetectionQueue } from '../queues/bounce-detection.queue';
 import { ReplyDetectionQueue } from '../queues/reply-detection.queue';
 import { SubscriptionQueue } from '../queues/subscription.queue';
+import { EmailVerificationQueue } from '../queues/email-verification.queue';
 import { QueueRegistryService } from './queue-registry.service';
 
 @Injectable()
@@ -32,6 +33,7 @@ export class QueueHealthService {
     private readonly bounceDetectionQueue: BounceDetectionQueue,
     private readonly replyDetectionQueue: ReplyDetectionQueue,
     private readonly subscriptionQueue: SubscriptionQueue,
+    private readonly emailVerificationQueue: EmailVerificationQueue,
   ) {}
 
   /**
@@ -77,6 +79,7 @@ export class QueueHealthService {
       bounceDetectionQueue: this.bounceDetectionQueue,
       replyDetectionQueue: this.replyDetectionQueue,
       subscriptionQueue: this.subscriptionQueue,
+      emailVerificationQueue: this.emailVerificationQueue,
     });
 
     const metrics = await Promise.all(
@@ -12,6 +12,7 @@ import { DeadLetterQueue } from '../queues/dead-letter.queue';
 import { BounceDetectionQueue } from '../queues/bounce-detection.queue';
 import { ReplyDetectionQueue } from '../queues/reply-detection.queue';
 import { SubscriptionQueue } from '../queues/subscription.queue';
+import { EmailVerificationQueue } from '../queues/email-verification.queue';
 
 /**
  * Queue Registry Service
@@ -36,6 +37,7 @@ export class QueueRegistryService {
       QueueName.BOUNCE_DETECTION,
       QueueName.REPLY_DETECTION,
       QueueName.SUBSCRIPTION,
+      QueueName.EMAIL_VERIFICATION,
     ];
   }
 
@@ -55,6 +57,7 @@ export class QueueRegistryService {
     bounceDetectionQueue: BounceDetectionQueue;
     replyDetectionQueue: ReplyDetectionQueue;
     subscriptionQueue: SubscriptionQueue;
+    emailVerificationQueue: EmailVerificationQueue;
   }): Map<string, BaseQueueService> {
     return new Map<string, BaseQueueService>([
       ['email', queues.emailQueue],
@@ -68,6 +71,7 @@ export class QueueRegistryService {
       ['bounce-detection', queues.bounceDetectionQueue],
       ['reply-detection', queues.replyDetectionQueue],
       ['subscription', queues.subscriptionQueue],
+      ['email-verification', queues.emailVerificationQueue],
     ]);
   }
 
@@ -86,6 +90,7 @@ export class QueueRegistryService {
     bounceDetectionQueue: BounceDetectionQueue;
     replyDetectionQueue: ReplyDetectionQueue;
     subscriptionQueue: SubscriptionQueue;
+    emailVerificationQueue: EmailVerificationQueue;
   }): Array<{ name: string; queue: BaseQueueService }> {
     return [
       { name: QueueName.EMAIL, queue: queues.emailQueue },
@@ -111,6 +116,10 @@ export class QueueRegistryService {
         queue: queues.replyDetectionQueue,
       },
       { name: QueueName.SUBSCRIPTION, queue: queues.subscriptionQueue },
+      {
+        name: QueueName.EMAIL_VERIFICATION,
+        queue: queues.emailVerificationQueue,
+      },
     ];
   }
 }
@@ -18,6 +18,7 @@ import { DeadLetterQueue } from './queues/dead-letter.queue';
 import { BounceDetectionQueue } from './queues/bounce-detection.queue';
 import { ReplyDetectionQueue } from './queues/reply-detection.queue';
 import { SubscriptionQueue } from './queues/subscription.queue';
+import { EmailVerificationQueue } from './queues/email-verification.queue';
 
 // Processors
 import { EmailProcessor } from './processors/email.processor';
@@ -31,6 +32,7 @@ import { DeadLetterProcessor } from './processors/dead-letter.processor';
 import { BounceDetectionProcessor } from './processors/bounce-detection.processor';
 import { ReplyDetectionProcessor } from './processors/reply-detection.processor';
 import { SubscriptionProcessor } from './processors/subscription.processor';
+import { EmailVerificationProcessor } from './processors/email-verification.processor';
 
 // Dependencies
 import { EmailService } from '../email/email.service';
@@ -61,6 +63,14 @@ import { SubscriptionsModule } from 'src/resources/subscriptions/subscriptions.m
 // Import AuditLogsModule for audit logging in processors
 import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
 import { NotificationsModule } from 'src/resources/notifications/notifications.module';
+// Import ContactListsModule for dynamic list evaluation in the campaign processor
+import { ContactListsModule } from 'src/resources/contact-lists/contact-lists.module';
+// Import SuppressionsModule for suppression list checks in the campaign and sender processors
+import { SuppressionsModule } from 'src/resources/suppressions/suppressions.module';
+// Import WebhooksModule for webhook deliveries in the notification processor
+import { WebhooksModule } from 'src/resources/webhooks/webhooks.module';
+// Import EmailVerificationModule for EmailVerifierService in the email verification processor
+import { EmailVerificationModule } from 'src/resources/email-verification/email-verification.module';
 
 @Global()
 @Module({
@@ -72,6 +82,10 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     SubscriptionsModule, // Needed for subscription services in subscription processor
     AuditLogsModule, // Needed for audit logging in processors
     NotificationsModule, // Needed for notification services in processors
+    ContactListsModule, // Needed for DynamicListService in campaign processor
+    SuppressionsModule, // Needed for SuppressionMatcherService in campaign and sender processors
+    WebhooksModule, // Needed for WebhookDeliveryService in the notification processor
+    EmailVerificationModule, // Needed for EmailVerifierService in the email verification processor
     // Register entities needed by campaign processors
     SequelizeModule.forFeature([
       Campaign,
@@ -103,6 +117,7 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     NestBullModule.registerQueue({ name: QueueName.BOUNCE_DETECTION }),
     NestBullModule.registerQueue({ name: QueueName.REPLY_DETECTION }),
     NestBullModule.registerQueue({ name: QueueName.SUBSCRIPTION }),
+    NestBullModule.registerQueue({ name: QueueName.EMAIL_VERIFICATION }),
   ],
   providers: [
     EmailQueue,
@@ -116,6 +131,7 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     BounceDetectionQueue,
     ReplyDetectionQueue,
     SubscriptionQueue,
+    EmailVerificationQueue,
     EmailProcessor,
     FileProcessingProcessor,
     NotificationProcessor,
@@ -127,6 +143,7 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     BounceDetectionProcessor,
     ReplyDetectionProcessor,
     SubscriptionProcessor,
+    EmailVerificationProcessor,
     EmailService,
     ExcelService,
     EmailPersonalizationService,
@@ -148,6 +165,7 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     BounceDetectionQueue,
     ReplyDetectionQueue,
     SubscriptionQueue,
+    EmailVerificationQueue,
   ],
 })
 export class WorkerBullModule implements OnModuleInit {
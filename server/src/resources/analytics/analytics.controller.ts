@@ -82,6 +82,12 @@ export class AnalyticsController {
     return this.analyticsService.getEmailStatusBreakdown(query);
   }
 
+  @Get('engagement-breakdown')
+  async getEngagementBreakdown(@Query() query: AnalyticsQueryDto) {
+    await this.ensureOrganizationId(query);
+    return this.analyticsService.getEngagementBreakdown(query);
+  }
+
   @Get('campaign-status')
   async getCampaignStatusDistribution(@Query() query: AnalyticsQueryDto) {
     await this.ensureOrganizationId(query);
@@ -99,6 +105,7 @@ export class AnalyticsController {
     userId: string;
     organizationId?: string;
     eventType?: string;
+    replyClassification?: string;
     page?: number;
     limit?: number;
     startDate?: string;
@@ -8,6 +8,7 @@ import { EmailTemplate } from '../email-templates/entities/email-template.entity
 import { Campaign } from '../campaigns/entities/campaign.entity';
 import { CampaignStep } from '../campaigns/entities/campaign-step.entity';
 import { EmailMessage } from '../campaigns/entities/email-message.entity';
+import { EmailTrackingEvent } from '../campaigns/entities/email-tracking-event.entity';
 import { Organization } from '../organizations/entities/organization.entity';
 import { Subscription } from '../subscriptions/entities/subscription.entity';
 import { SubscriptionPlan } from '../subscriptions/entities/subscription-plan.entity';
@@ -23,6 +24,7 @@ import { CommonModule } from 'src/common/common.module';
       Campaign,
       CampaignStep,
       EmailMessage,
+      EmailTrackingEvent,
       Organization,
       Subscription,
       SubscriptionPlan,
@@ -1,12 +1,18 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
-import { Op } from 'sequelize';
+import { Op, col, fn } from 'sequelize';
 import { User, UserStatus } from '../users/entities/user.entity';
 import { Contact } from '../contacts/entities/contact.entity';
 import { EmailTemplate } from '../email-templates/entities/email-template.entity';
 import { Campaign } from '../campaigns/entities/campaign.entity';
 import { CampaignStep } from '../campaigns/entities/campaign-step.entity';
 import { EmailMessage, EmailMessageStatus } from '../campaigns/entities/email-message.entity';
+import {
+  DeviceType,
+  EmailEventType,
+  EmailTrackingEvent,
+  TrackingTrafficType,
+} from '../campaigns/entities/email-tracking-event.entity';
 import { Organization } from '../organizations/entities/organization.entity';
 import { Subscription } from '../subscriptions/entities/subscription.entity';
 import { SubscriptionPlan } from '../subscriptions/entities/subscription-plan.entity';
@@ -33,6 +39,8 @@ export class AnalyticsService {
     private readonly campaignStepModel: typeof CampaignStep,
     @InjectModel(EmailMessage)
     private readonly emailMessageModel: typeof EmailMessage,
+    @InjectModel(EmailTrackingEvent)
+    private readonly emailTrackingEventModel: typeof EmailTrackingEvent,
     @InjectModel(Organization)
     private readonly organizationModel: typeof Organization,
     @InjectModel(Subscription)
@@ -49,7 +57,7 @@ export class AnalyticsService {
    * Returns aggregated KPIs: total users (active/inactive), contacts, templates, emails sent, engagement metrics
    */
   async getKpiStats(query: AnalyticsQueryDto) {
-    const { startDate, endDate, organizationId, userId: filterUserId, platformView } = query;
+    const { startDate, endDate, organizationId, userId: filterUserId, platformView, excludeNonHuman } = query;
     
     const currentUser = this.userContextService.getCurrentUser();
     const currentUserId = currentUser?.sub;
@@ -193,18 +201,18 @@ export class AnalyticsService {
             status: EmailMessageStatus.DELIVERED,
           },
         }),
-        // Total emails opened (has openedAt date)
+        // Total emails opened (has openedAt date, humanOpenedAt without prefetches and proxies)
         this.emailMessageModel.count({
           where: {
             ...emailFilterWhere,
-            openedAt: { [Op.ne]: null },
+            [excludeNonHuman ? 'humanOpenedAt' : 'openedAt']: { [Op.ne]: null },
           },
         }),
-        // Total emails clicked (has clickedAt date)
+        // Total emails clicked (has clickedAt date, humanClickedAt without link scanners)
         this.emailMessageModel.count({
           where: {
             ...emailFilterWhere,
-            clickedAt: { [Op.ne]: null },
+            [excludeNonHuman ? 'humanClickedAt' : 'clickedAt']: { [Op.ne]: null },
           },
         }),
         // Total emails failed
@@ -765,6 +773,93 @@ export class AnalyticsService {
     }
   }
 
+  /**
+   * Get opens and clicks by email client, device and country
+   * Counts emails, not events, optionally for one campaign or step
+   */
+  async getEngagementBreakdown(query: AnalyticsQueryDto) {
+    const { startDate, endDate, organizationId, campaignId, campaignStepId, excludeNonHuman } = query;
+
+    if (!organizationId) {
+      throw new Error('Organization ID is required');
+    }
+
+    const currentUser = this.userContextService.getCurrentUser();
+    const userId = currentUser?.sub;
+    const userRole = currentUser?.role as UserRole;
+    const isEmployee = currentUser?.type === 'employee';
+    // For employees, treat them as admins (can see all data in selected organization)
+    const isAdmin = isEmployee || userRole === UserRole.ADMIN;
+
+    try {
+      const emailWhere: any = { organizationId };
+      if (campaignId) {
+        emailWhere.campaignId = campaignId;
+      }
+      if (campaignStepId) {
+        emailWhere.campaignStepId = campaignStepId;
+      }
+      // Non-admin users only see their own campaigns
+      if (!isAdmin && userId) {
+        const userCampaigns = await this.campaignModel.findAll({
+          where: { organizationId, createdBy: userId, ...(campaignId && { id: campaignId }) },
+          attributes: ['id'],
+          raw: true,
+        });
+        emailWhere.campaignId = { [Op.in]: userCampaigns.map((c: any) => c.id) };
+      }
+
+      const eventWhere: any = {
+        eventType: { [Op.in]: [EmailEventType.OPENED, EmailEventType.CLICKED] },
+        ...(excludeNonHuman && { trafficType: TrackingTrafficType.HUMAN }),
+      };
+      if (startDate || endDate) {
+        eventWhere.occurredAt = {
+          ...(startDate && { [Op.gte]: new Date(startDate) }),
+          ...(endDate && { [Op.lte]: new Date(new Date(endDate).setHours(23, 59, 59, 999)) }),
+        };
+      }
+
+      const breakdownBy = async (column: 'email_client' | 'device_type' | 'country') => {
+        const rows = (await this.emailTrackingEventModel.findAll({
+          attributes: [
+            [col(`EmailTrackingEvent.${column}`), 'value'],
+            'eventType',
+            [fn('COUNT', fn('DISTINCT', col('EmailTrackingEvent.email_message_id'))), 'count'],
+          ],
+          where: eventWhere,
+          include: [{ model: EmailMessage, attributes: [], where: emailWhere, required: true }],
+          group: [col(`EmailTrackingEvent.${column}`), col('EmailTrackingEvent.event_type')],
+          raw: true,
+        })) as unknown as Array<{ value: string | null; eventType: EmailEventType; count: number | string }>;
+
+        const byValue = new Map<string, { value: string; opens: number; clicks: number }>();
+        for (const row of rows) {
+          const value = row.value && row.value !== DeviceType.UNKNOWN ? row.value : 'Unknown';
+          const entry = byValue.get(value) || { value, opens: 0, clicks: 0 };
+          if (row.eventType === EmailEventType.OPENED) {
+            entry.opens += Number(row.count) || 0;
+          } else {
+            entry.clicks += Number(row.count) || 0;
+          }
+          byValue.set(value, entry);
+        }
+        return Array.from(byValue.values()).sort((a, b) => b.opens + b.clicks - (a.opens + a.clicks));
+      };
+
+      const [clients, devices, countries] = await Promise.all([
+        breakdownBy('email_client'),
+        breakdownBy('device_type'),
+        breakdownBy('country'),
+      ]);
+
+      return { clients, devices, countries };
+    } catch (error) {
+      this.logger.error('Error fetching engagement breakdown', error);
+      throw error;
+    }
+  }
+
   /**
    * Get campaign status distribution
    * Returns count of campaigns by status
@@ -947,6 +1042,7 @@ export class AnalyticsService {
     userId: string;
     organizationId: string;
     eventType?: string;
+    replyClassification?: string;
     page?: number | string;
     limit?: number | string;
     startDate?: string;
@@ -955,7 +1051,7 @@ export class AnalyticsService {
     // Convert page and limit to numbers (they come as strings from query params)
     const pageNum = typeof query.page === 'string' ? parseInt(query.page, 10) : (query.page || 1);
     const limitNum = typeof query.limit === 'string' ? parseInt(query.limit, 10) : (query.limit || 10);
-    const { userId, organizationId, eventType, startDate, endDate } = query;
+    const { userId, organizationId, eventType, replyClassification, startDate, endDate } = query;
 
     if (!userId || !organizationId) {
       throw new Error('User ID and Organization ID are required');
@@ -1031,6 +1127,11 @@ export class AnalyticsService {
         };
       }
 
+      // Reply label filter (interested, out-of-office...)
+      if (replyClassification && replyClassification !== 'ALL') {
+        emailWhere.replyClassification = replyClassification;
+      }
+
       // Get total count
       const total = await this.emailMessageModel.count({
         where: emailWhere,
@@ -1079,6 +1180,7 @@ export class AnalyticsService {
         openedAt: email.openedAt,
         clickedAt: email.clickedAt,
         repliedAt: email.repliedAt,
+        replyClassification: email.replyClassification,
         bouncedAt: email.bouncedAt,
         unsubscribedAt: email.unsubscribedAt,
         bounceReason: email.bounceReason,
@@ -1182,13 +1284,13 @@ export class AnalyticsService {
         this.emailMessageModel.count({
           where: {
             ...baseDateFilter,
-            openedAt: { [Op.ne]: null },
+            [query.excludeNonHuman ? 'humanOpenedAt' : 'openedAt']: { [Op.ne]: null },
           },
         }),
         this.emailMessageModel.count({
           where: {
             ...baseDateFilter,
-            clickedAt: { [Op.ne]: null },
+            [query.excludeNonHuman ? 'humanClickedAt' : 'clickedAt']: { [Op.ne]: null },
           },
         }),
         this.emailMessageModel.count({
@@ -48,5 +48,17 @@ export class AnalyticsQueryDto {
   @IsOptional()
   @Transform(({ value }) => value === 'true' || value === true)
   platformView?: boolean; // Platform-wide view (SUPERADMIN only) - aggregates across all organizations
+
+  @IsOptional()
+  @Transform(({ value }) => value === 'true' || value === true)
+  excludeNonHuman?: boolean; // Only count opens and clicks classified as human (no prefetches, proxies or scanners)
+
+  @IsOptional()
+  @IsUUID()
+  campaignId?: string; // Engagement breakdown of one campaign
+
+  @IsOptional()
+  @IsUUID()
+  campaignStepId?: string; // Engagement breakdown of one step
 }
 
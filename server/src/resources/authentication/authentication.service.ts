@@ -23,11 +23,12 @@ import {
 import { generateUniqueOrgSlug } from 'src/common/utils/slug-generator.util';
 import { generateRandomOrgName } from 'src/common/utils/org-name-generator.util';
 import { validateEmailDomain as validateEmailDomainUtil } from 'src/common/utils/email-domain-validation.util';
+import { createRampUp, DEFAULT_RAMP_UP_PRESET } from 'src/common/utils/mailbox-ramp-up.util';
 import { Transaction } from 'sequelize';
 import { AuthResponse } from './utils/auth-response.interface';
 import { ERRORS, TOKEN_EXPIRY } from './utils/auth.constants';
 import axios from 'axios';
-import { GmailTokenStatus } from '../users/entities/gmail-oauth-token.entity';
+import { GmailTokenStatus, MailboxProvider } from '../users/entities/gmail-oauth-token.entity';
 
 @Injectable()
 export class AuthenticationService {
@@ -192,7 +193,7 @@ export class AuthenticationService {
     }
 
     const existingToken = await GmailOAuthToken.findOne({
-      where: { userId: user.id },
+      where: { userId: user.id, provider: MailboxProvider.GMAIL },
       transaction,
     });
 
@@ -268,6 +269,8 @@ export class AuthenticationService {
           lastUsedAt: now,
           quotaResetAt: quotaResetAt,
           dailyQuotaUsed: 0,
+          // New mailboxes have no sending reputation yet, warm them up
+          rampUp: createRampUp(DEFAULT_RAMP_UP_PRESET, now),
         },
         { transaction },
       );
@@ -431,6 +434,7 @@ export class AuthenticationService {
     const token = await GmailOAuthToken.findOne({
       where: {
         userId,
+        provider: MailboxProvider.GMAIL,
       },
       order: [['createdAt', 'DESC']], // Get most recent token
     });
@@ -533,6 +537,7 @@ export class AuthenticationService {
     const token = await GmailOAuthToken.findOne({
       where: {
         userId,
+        provider: MailboxProvider.GMAIL,
         status: GmailTokenStatus.ACTIVE,
       },
     });
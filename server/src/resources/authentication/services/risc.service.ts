@@ -2,7 +2,11 @@ import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import axios from 'axios';
-import { GmailOAuthToken, GmailTokenStatus } from '../../users/entities/gmail-oauth-token.entity';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+  MailboxProvider,
+} from '../../users/entities/gmail-oauth-token.entity';
 import { InjectModel } from '@nestjs/sequelize';
 
 /**
@@ -203,6 +207,7 @@ export class RiscService {
       // Find tokens by email (subject is often the email address)
       const tokens = await this.gmailTokenModel.findAll({
         where: {
+          provider: MailboxProvider.GMAIL,
           status: GmailTokenStatus.ACTIVE,
           email: subject, // Match by email if subject is an email
         },
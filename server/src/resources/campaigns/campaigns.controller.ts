@@ -3,12 +3,21 @@ import { CampaignsService } from './campaigns.service';
 import { CampaignCrudService } from './services/campaign-crud.service';
 import { CampaignStepService } from './services/campaign-step.service';
 import { CampaignAnalyticsService } from './services/campaign-analytics.service';
+import { CampaignCloneService } from './services/campaign-clone.service';
+import { CampaignTestSendService } from './services/campaign-test-send.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
 import { CreateStepDto } from './dto/create-step.dto';
 import { UpdateStepDto } from './dto/update-step.dto';
 import { ReorderStepsDto } from './dto/reorder-steps.dto';
 import { CampaignQueryDto } from './dto/campaign-query.dto';
+import {
+  CampaignBlueprintQueryDto,
+  CloneCampaignDto,
+  CreateCampaignBlueprintDto,
+  CreateCampaignFromBlueprintDto,
+} from './dto/clone-campaign.dto';
+import { TestSendStepDto } from './dto/test-send.dto';
 
 @Controller()
 export class CampaignsController {
@@ -17,6 +26,8 @@ export class CampaignsController {
     private readonly stepService: CampaignStepService,
     private readonly analyticsService: CampaignAnalyticsService,
     private readonly campaignService: CampaignsService,
+    private readonly cloneService: CampaignCloneService,
+    private readonly testSendService: CampaignTestSendService,
   ) {}
 
   @Post()
@@ -29,6 +40,29 @@ export class CampaignsController {
     return this.crudService.list(query);
   }
 
+  @Get('sender-mailboxes')
+  listSenderMailboxes(@Query('organizationId') organizationId?: string) {
+    return this.crudService.listSenderMailboxes(organizationId);
+  }
+
+  @Get('blueprints')
+  listBlueprints(@Query() query: CampaignBlueprintQueryDto) {
+    return this.cloneService.listBlueprints(query);
+  }
+
+  @Delete('blueprints/:blueprintId')
+  deleteBlueprint(@Param('blueprintId') blueprintId: string) {
+    return this.cloneService.deleteBlueprint(blueprintId);
+  }
+
+  @Post('blueprints/:blueprintId/campaigns')
+  createFromBlueprint(
+    @Param('blueprintId') blueprintId: string,
+    @Body() dto: CreateCampaignFromBlueprintDto,
+  ) {
+    return this.cloneService.createFromBlueprint(blueprintId, dto);
+  }
+
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.crudService.getById(id);
@@ -44,6 +78,16 @@ export class CampaignsController {
     return this.crudService.delete(id);
   }
 
+  @Post(':id/clone')
+  clone(@Param('id') id: string, @Body() dto: CloneCampaignDto) {
+    return this.cloneService.clone(id, dto);
+  }
+
+  @Post(':id/blueprints')
+  saveAsBlueprint(@Param('id') id: string, @Body() dto: CreateCampaignBlueprintDto) {
+    return this.cloneService.saveAsBlueprint(id, dto);
+  }
+
   @Post(':id/steps')
   addStep(@Param('id') id: string, @Body() dto: CreateStepDto) {
     return this.stepService.add({ ...dto, campaignId: id });
@@ -63,6 +107,15 @@ export class CampaignsController {
     return this.stepService.delete(id, stepId);
   }
 
+  @Post(':id/steps/:stepId/test-send')
+  testSend(
+    @Param('id') id: string,
+    @Param('stepId') stepId: string,
+    @Body() dto: TestSendStepDto,
+  ) {
+    return this.testSendService.sendTest(id, stepId, dto);
+  }
+
   @Post(':id/steps/reorder')
   reorder(@Param('id') id: string, @Body() dto: ReorderStepsDto) {
     return this.stepService.reorder(id, dto);
@@ -94,6 +147,16 @@ export class CampaignsController {
     return this.analyticsService.getCampaignProgress(id);
   }
 
+  @Get(':id/personalization-report')
+  getPersonalizationReport(@Param('id') id: string) {
+    return this.stepService.getPersonalizationReport(id);
+  }
+
+  @Get(':id/content-report')
+  getContentReport(@Param('id') id: string) {
+    return this.stepService.getContentReport(id);
+  }
+
   @Get(':id/steps/:stepId/emails')
   getStepEmails(
     @Param('id') id: string,
@@ -102,11 +165,15 @@ export class CampaignsController {
     @Query('page') page?: string,
     @Query('limit') limit?: string,
     @Query('status') status?: string,
+    @Query('replyClassification') replyClassification?: string,
   ) {
     const pageNum = page ? parseInt(page, 10) : 1;
     const limitNum = limit ? parseInt(limit, 10) : 20;
-    return this.analyticsService.getStepEmails(id, stepId, eventType, pageNum, limitNum, status);
+    return this.analyticsService.getStepEmails(id, stepId, eventType, pageNum, limitNum, status, replyClassification);
   }
-}
-
 
+  @Get(':id/steps/:stepId/variants')
+  getStepVariants(@Param('id') id: string, @Param('stepId') stepId: string) {
+    return this.analyticsService.getStepVariantResults(id, stepId);
+  }
+}
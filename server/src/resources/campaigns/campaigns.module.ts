@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { Campaign } from './entities/campaign.entity';
 import { CampaignStep } from './entities/campaign-step.entity';
+import { CampaignBlueprint } from './entities/campaign-blueprint.entity';
 import { EmailMessage } from './entities/email-message.entity';
 import { EmailTrackingEvent } from './entities/email-tracking-event.entity';
 import { CampaignsController } from './campaigns.controller';
@@ -19,29 +20,45 @@ import { CampaignSchedulingService } from './services/campaign-scheduling.servic
 import { CampaignContactService } from './services/campaign-contact.service';
 import { CampaignQuotaService } from './services/campaign-quota.service';
 import { CampaignStepQueueService } from './services/campaign-step-queue.service';
+import { SenderRotationService } from './services/sender-rotation.service';
+import { FollowUpConditionService } from './services/follow-up-condition.service';
+import { StepVariantService } from './services/step-variant.service';
+import { SequenceStopService } from './services/sequence-stop.service';
+import { CampaignCloneService } from './services/campaign-clone.service';
+import { CampaignTestSendService } from './services/campaign-test-send.service';
+import { ContentLintService } from './services/content-lint.service';
 import { ContactList } from 'src/resources/contact-lists/entities/contact-list.entity';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { User } from 'src/resources/users/entities/user.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
 import { CampaignProcessorQueue } from 'src/configuration/bull/queues/campaign-processor.queue';
 import { EmailSenderQueue } from 'src/configuration/bull/queues/email-sender.queue';
 import { SubscriptionsModule } from 'src/resources/subscriptions/subscriptions.module';
 import { NotificationsModule } from 'src/resources/notifications/notifications.module';
+import { WebhooksModule } from 'src/resources/webhooks/webhooks.module';
 
 @Module({
   imports: [
     SequelizeModule.forFeature([
       Campaign,
       CampaignStep,
+      CampaignBlueprint,
       ContactList,
       ContactListMember,
       Contact,
       EmailTemplate,
       EmailMessage,
       EmailTrackingEvent,
+      GmailOAuthToken,
+      Organization,
+      User,
     ]),
     SubscriptionsModule,
     NotificationsModule,
+    WebhooksModule,
   ],
   controllers: [CampaignsController],
   providers: [
@@ -59,6 +76,13 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     CampaignContactService,
     CampaignQuotaService,
     CampaignStepQueueService,
+    SenderRotationService,
+    FollowUpConditionService,
+    StepVariantService,
+    SequenceStopService,
+    CampaignCloneService,
+    CampaignTestSendService,
+    ContentLintService,
     CampaignProcessorQueue,
     EmailSenderQueue,
   ],
@@ -77,6 +101,10 @@ import { NotificationsModule } from 'src/resources/notifications/notifications.m
     CampaignContactService,
     CampaignQuotaService,
     CampaignStepQueueService,
+    SenderRotationService,
+    FollowUpConditionService,
+    StepVariantService,
+    SequenceStopService,
     CampaignProcessorQueue,
     EmailSenderQueue,
   ],
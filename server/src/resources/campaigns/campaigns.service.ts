@@ -5,7 +5,7 @@ import {
   NotFoundException,
 } from '@nestjs/common';
 import { BaseService } from 'src/common/services/base.service';
-import { Campaign } from './entities/campaign.entity';
+import { Campaign, CampaignVerificationFilter } from './entities/campaign.entity';
 import { CampaignsRepository } from './campaigns.repository';
 import { CampaignStep } from './entities/campaign-step.entity';
 import {
@@ -28,8 +28,11 @@ import { CampaignContactService } from './services/campaign-contact.service';
 import { CampaignQuotaService } from './services/campaign-quota.service';
 import { CampaignStepQueueService } from './services/campaign-step-queue.service';
 import { CampaignStateMachineService } from './services/campaign-state-machine.service';
+import { SenderRotationService } from './services/sender-rotation.service';
+import { ContentLintService } from './services/content-lint.service';
 import { EMAIL_STATUS_GROUPS, BATCH_SIZE_RESUME, MAX_SCHEDULE_DAYS } from './constants/campaign.constants';
 import { NotificationEventService } from 'src/resources/notifications/services/notification-event.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
 import { Inject, forwardRef } from '@nestjs/common';
 
 @Injectable()
@@ -58,6 +61,9 @@ export class CampaignsService extends BaseService<Campaign> {
     private readonly campaignQuotaService: CampaignQuotaService,
     private readonly campaignStepQueueService: CampaignStepQueueService,
     private readonly stateMachineService: CampaignStateMachineService,
+    private readonly senderRotationService: SenderRotationService,
+    private readonly contentLintService: ContentLintService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
     @Inject(forwardRef(() => NotificationEventService))
     private readonly notificationEventService?: NotificationEventService,
   ) {
@@ -246,20 +252,31 @@ export class CampaignsService extends BaseService<Campaign> {
     // Validate contact list has at least one subscribed contact
     const contactCount = await this.campaignContactService.countSubscribedContacts(
       campaign.contactListId,
+      undefined,
+      campaign.verificationFilter,
     );
 
     if (contactCount === 0) {
       throw new BadRequestException(
-        'Cannot activate campaign. Contact list has no subscribed contacts.',
+        campaign.verificationFilter && campaign.verificationFilter !== CampaignVerificationFilter.ALL
+          ? 'Cannot activate campaign. No subscribed contact of the list passes the email verification filter.'
+          : 'Cannot activate campaign. Contact list has no subscribed contacts.',
       );
     }
 
+    // Validate step content against the organization's minimum content score
+    await this.contentLintService.assertActivationAllowed(campaign, steps);
+
     // Pre-activation quota validation using unified quota service
     const totalEmails = contactCount * steps.length;
     const quotaResult = await this.campaignQuotaService.validateAndCalculateDistribution(
       campaign.createdBy,
       totalEmails,
       quotaMode,
+      undefined,
+      this.senderRotationService.getPoolTokenIds(campaign),
+      campaign.sendingWindow,
+      steps[0].delayMinutes,
     );
 
     const quotaDistribution = quotaResult.distribution.length > 0 
@@ -305,6 +322,7 @@ export class CampaignsService extends BaseService<Campaign> {
       { id: campaignId } as any,
       { status: 'ACTIVE' } as any,
     );
+    await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, campaign.status, 'ACTIVE');
 
     // Send notification for campaign started
     try {
@@ -426,6 +444,7 @@ export class CampaignsService extends BaseService<Campaign> {
       { id: campaignId },
       { status: 'PAUSED' },
     );
+    await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, campaign.status, 'PAUSED');
 
     // Send notification for campaign paused
     try {
@@ -544,6 +563,7 @@ export class CampaignsService extends BaseService<Campaign> {
       where: {
         campaignId,
         status: EmailMessageStatus.CANCELLED,
+        skipReason: null, // Skipped emails are final
       },
     });
 
@@ -574,7 +594,8 @@ export class CampaignsService extends BaseService<Campaign> {
         campaign.createdBy,
         totalRemainingEmails,
         quotaMode,
-          );
+        this.senderRotationService.getPoolTokenIds(campaign),
+      );
     }
 
     // Update campaign status to ACTIVE to allow processing
@@ -583,6 +604,7 @@ export class CampaignsService extends BaseService<Campaign> {
       { id: campaignId } as any,
       { status: 'ACTIVE' } as any,
     );
+    await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, campaign.status, 'ACTIVE');
 
     // Reload campaign to get updated sequenceSettings with quota distribution
     const updatedCampaign = (await this.campaignsRepository.findById(
@@ -607,6 +629,7 @@ export class CampaignsService extends BaseService<Campaign> {
 
     // Create a map of contactId to index for fast lookup
     const contactIndexMap = this.campaignContactService.createContactIndexMap(contacts);
+    const contactTimezoneMap = new Map(contacts.map((contact) => [contact.id, contact.timezone]));
 
     // For each step: re-queue cancelled emails and process incomplete steps
     // Process steps in order to preserve step sequence (Step 1 before Step 2, etc.)
@@ -631,6 +654,7 @@ export class CampaignsService extends BaseService<Campaign> {
           campaignId,
           campaignStepId: step.id,
           status: EmailMessageStatus.CANCELLED,
+          skipReason: null, // Skipped emails are final
         },
         order: [['contactId', 'ASC']], // Consistent ordering for quota distribution
       });
@@ -696,8 +720,10 @@ export class CampaignsService extends BaseService<Campaign> {
 
         // Calculate quota distribution for cancelled emails using unified service
         // This optimizes from O(S × C × D) to O(C × D) by using batch quota queries
+        const senderTokenIds = this.senderRotationService.getPoolTokenIds(campaign);
         const quotaInfo = await this.campaignQuotaService.getQuotaInfo(
               campaign.createdBy,
+              senderTokenIds,
         );
         const stepQuotaDistribution =
           await this.campaignSchedulingService.calculateQuotaDistribution(
@@ -707,6 +733,9 @@ export class CampaignsService extends BaseService<Campaign> {
             quotaInfo.dailyLimit,
             timezone,
             startDay,
+            senderTokenIds,
+            campaign.sendingWindow,
+            step.delayMinutes,
         );
 
         this.logger.log(
@@ -923,6 +952,8 @@ export class CampaignsService extends BaseService<Campaign> {
             new Date(),
             dayDistribution.day === 0 ? sentEmailsCountOnDay0 : undefined, // Pass sent count for day 0 resume
             timezone,
+            updatedCampaign.sendingWindow,
+            contactTimezoneMap.get(email.contactId),
           );
 
           const emailDay = this.getDayFromDate(sendAt, timezone);
@@ -14,6 +14,27 @@ export const SAFETY_BUFFER_DAYS = 10;
 export const BATCH_SIZE_RESUME = 500;
 export const BATCH_SIZE_EMAIL_UPDATE = 500;
 
+// Sender rotation constants
+export const MAX_SENDER_POOL_SIZE = 25;
+export const MAX_SENDER_WEIGHT = 100;
+
+// Sending window constants
+export const MAX_EXCLUDED_SENDING_DATES = 366;
+
+// Follow-up condition constants
+export const MAX_STEP_CONDITIONS = 10;
+export const MAX_STEP_CONDITION_DEPTH = 3;
+
+// A/B testing constants
+export const MAX_STEP_VARIANTS = 5;
+export const MAX_VARIANT_WEIGHT = 100;
+export const MIN_AB_TEST_PERCENTAGE = 5;
+export const MAX_AB_TEST_PERCENTAGE = 50;
+export const MAX_AB_TEST_WAIT_HOURS = 168;
+
+// Personalization report: contacts listed with their missing values
+export const PERSONALIZATION_REPORT_SAMPLE_SIZE = 50;
+
 // Email status groups for common filtering patterns
 export const EMAIL_STATUS_GROUPS = {
   /** Emails currently being processed (queued or sending) */
@@ -0,0 +1,49 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+const normalizeName = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : value;
+
+export class CloneCampaignDto {
+  /** Defaults to "<name> (Copy)" */
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  @Transform(normalizeName)
+  name?: string;
+
+  /** Send the copy to another contact list, defaults to the list of the campaign */
+  @IsOptional()
+  @IsUUID()
+  contactListId?: string;
+}
+
+export class CreateCampaignBlueprintDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  @Transform(normalizeName)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
+
+export class CreateCampaignFromBlueprintDto {
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  @Transform(normalizeName)
+  name: string;
+
+  @IsNotEmpty()
+  @IsUUID()
+  contactListId: string;
+}
+
+export class CampaignBlueprintQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
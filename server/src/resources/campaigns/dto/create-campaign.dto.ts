@@ -1,5 +1,44 @@
-import { IsArray, IsBoolean, IsDateString, IsEmail, IsEnum, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, IsUUID, Length, Min } from 'class-validator';
-import { Transform } from 'class-transformer';
+import { ArrayMaxSize, ArrayUnique, IsArray, IsBoolean, IsDateString, IsEmail, IsEnum, IsInt, IsNotEmpty, IsObject, IsOptional, IsString, IsUUID, Length, Matches, Max, Min, ValidateNested } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { CampaignVerificationFilter, SenderRotationStrategy } from '../entities/campaign.entity';
+import { MAX_EXCLUDED_SENDING_DATES, MAX_SENDER_POOL_SIZE, MAX_SENDER_WEIGHT } from '../constants/campaign.constants';
+
+export class CampaignSenderDto {
+  @IsNotEmpty()
+  @IsUUID()
+  gmailTokenId: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SENDER_WEIGHT)
+  weight?: number;
+}
+
+export class SendingWindowDto {
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  days: number[];
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'startTime must use the HH:mm format' })
+  startTime: string;
+
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'endTime must use the HH:mm format' })
+  endTime: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_EXCLUDED_SENDING_DATES)
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { each: true, message: 'excludedDates must use the YYYY-MM-DD format' })
+  excludedDates?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  useRecipientTimezone?: boolean;
+}
 
 export class CreateCampaignDto {
   @IsNotEmpty()
@@ -32,6 +71,22 @@ export class CreateCampaignDto {
   @IsObject()
   sequenceSettings?: any;
 
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_SENDER_POOL_SIZE)
+  @ValidateNested({ each: true })
+  @Type(() => CampaignSenderDto)
+  senderPool?: CampaignSenderDto[] | null;
+
+  @IsOptional()
+  @IsEnum(SenderRotationStrategy)
+  senderRotation?: SenderRotationStrategy;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SendingWindowDto)
+  sendingWindow?: SendingWindowDto | null;
+
   @IsOptional()
   @IsInt()
   @Min(0) // Allow 0 for draft campaigns with no steps yet
@@ -49,6 +104,14 @@ export class CreateCampaignDto {
   @IsBoolean()
   clickTracking?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  humanEngagementOnly?: boolean;
+
+  @IsOptional()
+  @IsEnum(CampaignVerificationFilter)
+  verificationFilter?: CampaignVerificationFilter;
+
   @IsOptional()
   @IsBoolean()
   unsubscribeTracking?: boolean;
@@ -1,5 +1,48 @@
-import { IsNotEmpty, IsOptional, IsString, IsUUID, IsDateString, Length, IsNumber, Min, IsEnum } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsUUID, IsDateString, Length, IsNumber, Min, IsEnum, IsObject, IsArray, ArrayMaxSize, ArrayMinSize, IsIn, IsInt, Matches, Max, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
 import { STANDARD_TIMEZONES } from 'src/common/constants/timezones.constant';
+import { AbTestWinnerMetric, StepConditionGroup } from '../entities/campaign-step.entity';
+import {
+  MAX_AB_TEST_PERCENTAGE,
+  MAX_AB_TEST_WAIT_HOURS,
+  MAX_STEP_VARIANTS,
+  MAX_VARIANT_WEIGHT,
+  MIN_AB_TEST_PERCENTAGE,
+} from '../constants/campaign.constants';
+
+export class StepVariantDto {
+  @Matches(/^[A-Z]$/, { message: 'Variant id must be a single capital letter' })
+  id: string;
+
+  @IsNotEmpty()
+  @IsUUID()
+  templateId: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 500)
+  subject?: string | null;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_VARIANT_WEIGHT)
+  weight: number;
+}
+
+export class StepAbTestDto {
+  @IsInt()
+  @Min(MIN_AB_TEST_PERCENTAGE)
+  @Max(MAX_AB_TEST_PERCENTAGE)
+  testPercentage: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(MAX_AB_TEST_WAIT_HOURS)
+  waitHours: number;
+
+  @IsIn(['OPEN_RATE', 'CLICK_RATE', 'REPLY_RATE'])
+  winnerMetric: AbTestWinnerMetric;
+}
 
 export class CreateStepDto {
   @IsOptional()
@@ -47,6 +90,27 @@ export class CreateStepDto {
   @IsOptional()
   @IsEnum(['OPENED', 'CLICKED', 'SENT'])
   replyType?: 'OPENED' | 'CLICKED' | 'SENT' | null;
-}
 
+  /**
+   * AND/OR conditions on earlier steps, validated by FollowUpConditionService
+   */
+  @IsOptional()
+  @IsObject()
+  sendConditions?: StepConditionGroup | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_STEP_VARIANTS)
+  @ValidateNested({ each: true })
+  @Type(() => StepVariantDto)
+  variants?: StepVariantDto[] | null;
 
+  /**
+   * Test on a sample first, then send the winning variant to the rest
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StepAbTestDto)
+  abTest?: StepAbTestDto | null;
+}
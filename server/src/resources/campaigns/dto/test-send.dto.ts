@@ -0,0 +1,39 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEmail,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+
+/** Seed addresses of one test send */
+export const MAX_TEST_SEND_RECIPIENTS = 10;
+
+export class TestSendStepDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_TEST_SEND_RECIPIENTS)
+  @IsEmail({}, { each: true })
+  @Transform(({ value }) =>
+    Array.isArray(value) ? value.map((email) => (typeof email === 'string' ? email.trim().toLowerCase() : email)) : value,
+  )
+  recipients: string[];
+
+  /** Contact whose data personalizes the email, defaults to sample data */
+  @IsOptional()
+  @IsUUID()
+  contactId?: string;
+
+  /** A/B variant to send, defaults to the step template */
+  @IsOptional()
+  @IsString()
+  variantId?: string;
+
+  /** Mailbox of the sender pool to send from, defaults to the first active one */
+  @IsOptional()
+  @IsUUID()
+  senderTokenId?: string;
+}
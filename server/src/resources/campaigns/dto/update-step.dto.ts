@@ -1,4 +1,8 @@
-import { IsOptional, IsString, IsUUID, Length } from 'class-validator';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsEnum, IsObject, IsOptional, IsString, IsUUID, Length, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { StepConditionGroup } from '../entities/campaign-step.entity';
+import { StepAbTestDto, StepVariantDto } from './create-step.dto';
+import { MAX_STEP_VARIANTS } from '../constants/campaign.constants';
 
 export class UpdateStepDto {
   @IsOptional()
@@ -13,6 +17,29 @@ export class UpdateStepDto {
   @IsOptional()
   @IsString()
   timezone?: string;
-}
 
+  @IsOptional()
+  @IsUUID()
+  replyToStepId?: string | null;
+
+  @IsOptional()
+  @IsEnum(['OPENED', 'CLICKED', 'SENT'])
+  replyType?: 'OPENED' | 'CLICKED' | 'SENT' | null;
 
+  @IsOptional()
+  @IsObject()
+  sendConditions?: StepConditionGroup | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_STEP_VARIANTS)
+  @ValidateNested({ each: true })
+  @Type(() => StepVariantDto)
+  variants?: StepVariantDto[] | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => StepAbTestDto)
+  abTest?: StepAbTestDto | null;
+}
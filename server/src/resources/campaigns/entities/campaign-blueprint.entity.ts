@@ -0,0 +1,83 @@
+import { Table, Column, DataType, ForeignKey, BelongsTo } from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { User } from 'src/resources/users/entities/user.entity';
+import { CampaignVerificationFilter, SendingWindow, SenderRotationStrategy } from './campaign.entity';
+import { StepAbTest, StepConditionGroup, StepVariant } from './campaign-step.entity';
+
+/** Campaign settings copied to campaigns started from a blueprint */
+export interface BlueprintSettings {
+  description: string | null;
+  sequenceSettings: any;
+  senderRotation: SenderRotationStrategy;
+  sendingWindow: SendingWindow | null;
+  trackingEnabled: boolean;
+  openTracking: boolean;
+  clickTracking: boolean;
+  humanEngagementOnly: boolean;
+  /** Missing from blueprints saved before email verification existed */
+  verificationFilter?: CampaignVerificationFilter;
+  unsubscribeTracking: boolean;
+  unsubscribeReplyEnabled: boolean;
+  unsubscribeCustomMessage: string | null;
+  autoAdvance: boolean;
+}
+
+export interface BlueprintStep {
+  /** ID of the step the blueprint was saved from, replyToStepId and sendConditions point at these */
+  id: string;
+  stepOrder: number;
+  name: string | null;
+  templateId: string | null;
+  triggerType: 'IMMEDIATE' | 'SCHEDULE';
+  scheduleTime: Date | null;
+  delayMinutes: number;
+  timezone: string | null;
+  replyToStepId: string | null;
+  replyType: 'OPENED' | 'CLICKED' | 'SENT' | null;
+  sendConditions: StepConditionGroup | null;
+  variants: StepVariant[] | null;
+  abTest: StepAbTest | null;
+}
+
+/**
+ * A vetted sequence saved from a campaign, new campaigns of the organization can start from it
+ * Sender pools and contact lists are picked per campaign and aren't part of it
+ */
+@Table({
+  tableName: 'campaign_blueprints',
+  timestamps: true,
+  underscored: true,
+  paranoid: false, // Deleted blueprints free their name
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'unique_campaign_blueprint_org_name',
+      unique: true,
+      fields: ['organization_id', 'name'],
+    },
+  ],
+})
+export class CampaignBlueprint extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({ type: DataType.CHAR(36), allowNull: false })
+  organizationId: string;
+
+  @Column({ type: DataType.STRING(255), allowNull: false })
+  name: string;
+
+  @Column({ type: DataType.TEXT, allowNull: true })
+  description: string | null;
+
+  @Column({ type: DataType.JSON, allowNull: false })
+  settings: BlueprintSettings;
+
+  @Column({ type: DataType.JSON, allowNull: false })
+  steps: BlueprintStep[];
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+
+  @BelongsTo(() => User, 'createdBy')
+  creator: User;
+}
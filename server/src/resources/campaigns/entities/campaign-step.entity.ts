@@ -4,6 +4,63 @@ import { Campaign } from './campaign.entity';
 import { Organization } from 'src/resources/organizations/entities/organization.entity';
 import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
 
+/**
+ * Engagement of a contact with the email of an earlier step.
+ * Negative events (NOT_*) only match contacts that were sent that step's email.
+ */
+export type StepConditionEvent =
+  | 'SENT'
+  | 'OPENED'
+  | 'NOT_OPENED'
+  | 'CLICKED'
+  | 'NOT_CLICKED'
+  | 'CLICKED_LINK'
+  | 'REPLIED'
+  | 'NOT_REPLIED';
+
+export interface StepCondition {
+  stepId: string;
+  event: StepConditionEvent;
+  /** Link that must have been clicked, for CLICKED_LINK */
+  url?: string;
+}
+
+/**
+ * Nested AND/OR group of step conditions
+ * operator defaults to AND
+ */
+export interface StepConditionGroup {
+  operator?: 'AND' | 'OR';
+  conditions: Array<StepCondition | StepConditionGroup>;
+}
+
+export type AbTestWinnerMetric = 'OPEN_RATE' | 'CLICK_RATE' | 'REPLY_RATE';
+
+/**
+ * One version of a step's email for A/B testing
+ */
+export interface StepVariant {
+  /** Short label stored on EmailMessage.variantId, e.g. "A" */
+  id: string;
+  templateId: string;
+  /** Replaces the template subject when set */
+  subject?: string | null;
+  /** Relative share of contacts receiving this variant */
+  weight: number;
+}
+
+/**
+ * "Test on X% first, then send the winner to the rest after N hours"
+ */
+export interface StepAbTest {
+  testPercentage: number;
+  waitHours: number;
+  winnerMetric: AbTestWinnerMetric;
+  /** Set by the worker once the test period is over */
+  winnerVariantId?: string | null;
+  decidedAt?: string | null;
+}
+
 @Table({
   tableName: 'campaign_steps',
   timestamps: true,
@@ -55,6 +112,20 @@ export class CampaignStep extends BaseEntity {
   })
   replyType: 'OPENED' | 'CLICKED' | 'SENT' | null;
 
+  /**
+   * Engagement conditions on earlier steps a contact must meet to receive this step.
+   * Takes precedence over replyType; replyToStepId still selects the thread to reply in.
+   */
+  @Column({ type: DataType.JSON, allowNull: true })
+  sendConditions: StepConditionGroup | null;
+
+  /** A/B variants; when set they replace templateId for this step's emails */
+  @Column({ type: DataType.JSON, allowNull: true })
+  variants: StepVariant[] | null;
+
+  @Column({ type: DataType.JSON, allowNull: true })
+  abTest: StepAbTest | null;
+
   @Column({ type: DataType.INTEGER, allowNull: false, defaultValue: 0 })
   emailsSent: number;
 
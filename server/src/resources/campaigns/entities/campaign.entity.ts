@@ -4,6 +4,39 @@ import { Organization } from 'src/resources/organizations/entities/organization.
 import { CampaignStep } from './campaign-step.entity';
 import { User } from 'src/resources/users/entities/user.entity';
 
+export enum SenderRotationStrategy {
+  ROUND_ROBIN = 'ROUND_ROBIN',
+  WEIGHTED = 'WEIGHTED',
+}
+
+/**
+ * Contacts a campaign sends to, by the status of their last email verification
+ * EXCLUDE_RISKY skips FAILED and RISKY addresses, VERIFIED_ONLY skips every address that isn't VERIFIED
+ */
+export enum CampaignVerificationFilter {
+  ALL = 'ALL',
+  EXCLUDE_RISKY = 'EXCLUDE_RISKY',
+  VERIFIED_ONLY = 'VERIFIED_ONLY',
+}
+
+export interface CampaignSender {
+  gmailTokenId: string;
+  weight?: number;
+}
+
+export interface SendingWindow {
+  /** Weekdays emails may go out on, 0 = Sunday ... 6 = Saturday */
+  days: number[];
+  /** Local opening time (HH:mm) */
+  startTime: string;
+  /** Local closing time (HH:mm), exclusive */
+  endTime: string;
+  /** Holidays (YYYY-MM-DD) on which nothing is sent */
+  excludedDates?: string[];
+  /** Apply the window in each contact's own timezone instead of the step timezone */
+  useRecipientTimezone?: boolean;
+}
+
 @Table({
   tableName: 'campaigns',
   timestamps: true,
@@ -39,6 +72,21 @@ export class Campaign extends BaseEntity {
   @Column({ type: DataType.JSON, allowNull: true })
   sequenceSettings: any;
 
+  /** Connected Gmail accounts the campaign rotates through; null sends from the creator's mailbox */
+  @Column({ type: DataType.JSON, allowNull: true })
+  senderPool: CampaignSender[] | null;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(SenderRotationStrategy)),
+    allowNull: false,
+    defaultValue: SenderRotationStrategy.ROUND_ROBIN,
+  })
+  senderRotation: SenderRotationStrategy;
+
+  /** Days and hours emails may be sent in; null sends around the clock */
+  @Column({ type: DataType.JSON, allowNull: true })
+  sendingWindow: SendingWindow | null;
+
   @Column({ type: DataType.INTEGER, allowNull: false, defaultValue: 1 })
   currentStep: number;
 
@@ -54,6 +102,17 @@ export class Campaign extends BaseEntity {
   @Column({ type: DataType.BOOLEAN, allowNull: false, defaultValue: true })
   clickTracking: boolean;
 
+  /** Follow-up conditions only count opens and clicks classified as human */
+  @Column({ type: DataType.BOOLEAN, allowNull: false, defaultValue: false })
+  humanEngagementOnly: boolean;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(CampaignVerificationFilter)),
+    allowNull: false,
+    defaultValue: CampaignVerificationFilter.ALL,
+  })
+  verificationFilter: CampaignVerificationFilter;
+
   @Column({ type: DataType.BOOLEAN, allowNull: false, defaultValue: true })
   unsubscribeTracking: boolean;
 
@@ -24,6 +24,41 @@ export enum EmailMessageStatus {
   CANCELLED = 'CANCELLED',
 }
 
+/**
+ * Why a CANCELLED email was skipped instead of sent
+ * Skipped emails are final, resuming a campaign does not re-queue them.
+ */
+export enum EmailSkipReason {
+  UNSUBSCRIBED = 'UNSUBSCRIBED',
+  BOUNCED = 'BOUNCED',
+  SUPPRESSED_EMAIL = 'SUPPRESSED_EMAIL',
+  SUPPRESSED_DOMAIN = 'SUPPRESSED_DOMAIN',
+  SUPPRESSED_PATTERN = 'SUPPRESSED_PATTERN',
+  CONTACT_REPLIED = 'CONTACT_REPLIED',
+  COMPANY_REPLIED = 'COMPANY_REPLIED',
+  INVALID_EMAIL = 'INVALID_EMAIL',
+  RISKY_EMAIL = 'RISKY_EMAIL',
+  UNVERIFIED_EMAIL = 'UNVERIFIED_EMAIL',
+}
+
+/**
+ * What a reply says, set by ReplyClassifierService
+ * OUT_OF_OFFICE and AUTO_REPLY are automatic replies, they don't count as replied for follow-up conditions.
+ */
+export enum ReplyClassification {
+  INTERESTED = 'INTERESTED',
+  NOT_INTERESTED = 'NOT_INTERESTED',
+  OUT_OF_OFFICE = 'OUT_OF_OFFICE',
+  WRONG_PERSON = 'WRONG_PERSON',
+  AUTO_REPLY = 'AUTO_REPLY',
+  NEUTRAL = 'NEUTRAL',
+}
+
+export const AUTOMATIC_REPLY_CLASSIFICATIONS: ReplyClassification[] = [
+  ReplyClassification.OUT_OF_OFFICE,
+  ReplyClassification.AUTO_REPLY,
+];
+
 export enum BounceType {
   HARD = 'HARD',
   SOFT = 'SOFT',
@@ -60,6 +95,13 @@ export class EmailMessage extends BaseEntity {
   })
   campaignStepId: string;
 
+  /** A/B variant of the step this email was built from */
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: true,
+  })
+  variantId: string | null;
+
   @ForeignKey(() => Contact)
   @Column({
     type: DataType.CHAR(36),
@@ -109,6 +151,16 @@ export class EmailMessage extends BaseEntity {
   })
   textContent: string;
 
+  /**
+   * Link ID -> URL of the links rewritten for click tracking when the email was sent.
+   * Null for emails sent before links were signed.
+   */
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  trackedLinks: Record<string, string> | null;
+
   @Column({
     type: DataType.ENUM(...Object.values(EmailMessageStatus)),
     allowNull: false,
@@ -167,12 +219,26 @@ export class EmailMessage extends BaseEntity {
   })
   lastOpenedAt: Date;
 
+  /** First open classified as human, openedAt also counts prefetches and proxies */
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  humanOpenedAt: Date | null;
+
   @Column({
     type: DataType.DATE,
     allowNull: true,
   })
   clickedAt: Date;
 
+  /** First click classified as human, clickedAt also counts link scanners */
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  humanClickedAt: Date | null;
+
   @Column({
     type: DataType.DATE,
     allowNull: true,
@@ -247,6 +313,19 @@ export class EmailMessage extends BaseEntity {
   })
   lastRepliedAt: Date;
 
+  /** Classification of the latest reply, an automatic reply never replaces a human one */
+  @Column({
+    type: DataType.STRING(30),
+    allowNull: true,
+  })
+  replyClassification: ReplyClassification | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  replyClassifiedAt: Date | null;
+
   @Column({
     type: DataType.INTEGER,
     allowNull: false,
@@ -279,6 +358,12 @@ export class EmailMessage extends BaseEntity {
   })
   errorCode: string;
 
+  @Column({
+    type: DataType.STRING(50),
+    allowNull: true,
+  })
+  skipReason: EmailSkipReason | null;
+
   @BelongsTo(() => Organization)
   organization: Organization;
 
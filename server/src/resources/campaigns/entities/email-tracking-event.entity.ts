@@ -21,6 +21,17 @@ export enum EmailEventType {
   REPLIED = 'REPLIED',
 }
 
+/**
+ * Who triggered an open or click, set by classifyTrackingTraffic
+ * Only HUMAN events count as engagement when non-human traffic is excluded.
+ */
+export enum TrackingTrafficType {
+  HUMAN = 'HUMAN',
+  MACHINE_OPEN = 'MACHINE_OPEN',
+  PROXY = 'PROXY',
+  SCANNER = 'SCANNER',
+}
+
 export enum DeviceType {
   DESKTOP = 'DESKTOP',
   MOBILE = 'MOBILE',
@@ -108,6 +119,12 @@ export class EmailTrackingEvent extends Model {
   })
   linkId: string;
 
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: true,
+  })
+  trafficType: TrackingTrafficType | null;
+
   @Column({
     type: DataType.DATE,
     allowNull: false,
@@ -7,6 +7,7 @@ export interface ICampaignAnalyticsService {
     page?: number,
     limit?: number,
     status?: string,
+    replyClassification?: string,
   ): Promise<any>;
+  getStepVariantResults(campaignId: string, stepId: string): Promise<any>;
 }
-
@@ -4,7 +4,17 @@ import { InjectModel } from '@nestjs/sequelize';
 import { EmailMessage } from '../entities/email-message.entity';
 import { UserContextService } from 'src/common/services/user-context.service';
 import { EmailMessageStatus } from '../entities/email-message.entity';
-import { Op, WhereOptions } from 'sequelize';
+import { Op, WhereOptions, fn, col, literal } from 'sequelize';
+
+export interface VariantEmailAggregate {
+  variantId: string | null;
+  total: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+}
 
 @Injectable()
 export class EmailMessagesRepository extends BaseRepository<EmailMessage> {
@@ -39,5 +49,35 @@ export class EmailMessagesRepository extends BaseRepository<EmailMessage> {
     }
     return this.model.count({ where });
   }
-}
 
+  /**
+   * Email counts of a step grouped by A/B variant
+   * sent counts SENT and DELIVERED emails; engagement counts are unique per email
+   */
+  async aggregateByVariant(campaignId: string, stepId: string): Promise<VariantEmailAggregate[]> {
+    const rows = (await this.model.findAll({
+      where: { campaignId, campaignStepId: stepId },
+      attributes: [
+        'variantId',
+        [fn('COUNT', col('id')), 'total'],
+        [literal(`SUM(CASE WHEN status IN ('${EmailMessageStatus.SENT}', '${EmailMessageStatus.DELIVERED}') THEN 1 ELSE 0 END)`), 'sent'],
+        [literal('SUM(CASE WHEN opened_at IS NOT NULL THEN 1 ELSE 0 END)'), 'opened'],
+        [literal('SUM(CASE WHEN click_count > 0 THEN 1 ELSE 0 END)'), 'clicked'],
+        [literal('SUM(CASE WHEN reply_count > 0 THEN 1 ELSE 0 END)'), 'replied'],
+        [literal(`SUM(CASE WHEN status = '${EmailMessageStatus.BOUNCED}' THEN 1 ELSE 0 END)`), 'bounced'],
+      ],
+      group: ['variantId'],
+      raw: true,
+    })) as unknown as Array<Record<string, string | number | null>>;
+
+    return rows.map((row) => ({
+      variantId: (row.variantId as string | null) ?? null,
+      total: Number(row.total) || 0,
+      sent: Number(row.sent) || 0,
+      opened: Number(row.opened) || 0,
+      clicked: Number(row.clicked) || 0,
+      replied: Number(row.replied) || 0,
+      bounced: Number(row.bounced) || 0,
+    }));
+  }
+}
@@ -8,6 +8,8 @@ import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { Op, literal } from 'sequelize';
 import { CampaignProgressService } from './campaign-progress.service';
 import { ICampaignAnalyticsService } from '../interfaces/campaign-analytics.interface';
+import { CampaignStep } from '../entities/campaign-step.entity';
+import { StepVariantService } from './step-variant.service';
 
 @Injectable()
 export class CampaignAnalyticsService implements ICampaignAnalyticsService {
@@ -21,7 +23,10 @@ export class CampaignAnalyticsService implements ICampaignAnalyticsService {
     private readonly emailTrackingEventModel: typeof EmailTrackingEvent,
     @InjectModel(Contact)
     private readonly contactModel: typeof Contact,
+    @InjectModel(CampaignStep)
+    private readonly campaignStepModel: typeof CampaignStep,
     private readonly progressService: CampaignProgressService,
+    private readonly stepVariantService: StepVariantService,
   ) {}
 
   async getCampaignProgress(campaignId: string): Promise<any> {
@@ -60,6 +65,7 @@ export class CampaignAnalyticsService implements ICampaignAnalyticsService {
     page: number = 1,
     limit: number = 20,
     status?: string,
+    replyClassification?: string,
   ) {
     const whereConditions: any = {
       campaignId,
@@ -71,6 +77,11 @@ export class CampaignAnalyticsService implements ICampaignAnalyticsService {
       whereConditions.status = status;
     }
 
+    // Reply label filter (interested, out-of-office...)
+    if (replyClassification && replyClassification !== 'ALL') {
+      whereConditions.replyClassification = replyClassification;
+    }
+
     // Calculate offset
     const offset = (page - 1) * limit;
 
@@ -302,5 +313,27 @@ export class CampaignAnalyticsService implements ICampaignAnalyticsService {
       count: emailMessages.length,
     };
   }
-}
 
+  async getStepVariantResults(campaignId: string, stepId: string): Promise<any> {
+    const campaign = (await this.campaignsRepository.findById(campaignId)) as Campaign | null;
+    if (!campaign) {
+      throw new NotFoundException(`Campaign ${campaignId} not found`);
+    }
+
+    const step = await this.campaignStepModel.findOne({ where: { id: stepId, campaignId } });
+    if (!step) {
+      throw new NotFoundException(`Step ${stepId} not found`);
+    }
+
+    const variants = await this.stepVariantService.getVariantResults(campaignId, step);
+
+    return {
+      stepId,
+      winnerMetric: step.abTest?.winnerMetric ?? null,
+      winnerVariantId: step.abTest?.winnerVariantId ?? null,
+      decidedAt: step.abTest?.decidedAt ?? null,
+      testPending: this.stepVariantService.isTestPending(step),
+      variants,
+    };
+  }
+}
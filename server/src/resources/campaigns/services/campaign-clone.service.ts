@@ -0,0 +1,338 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Sequelize } from 'sequelize-typescript';
+import { Op, Transaction } from 'sequelize';
+import { randomUUID } from 'crypto';
+import { Campaign, CampaignSender } from '../entities/campaign.entity';
+import { CampaignStep } from '../entities/campaign-step.entity';
+import {
+  BlueprintSettings,
+  BlueprintStep,
+  CampaignBlueprint,
+} from '../entities/campaign-blueprint.entity';
+import { CampaignsRepository } from '../campaigns.repository';
+import { ContactList } from 'src/resources/contact-lists/entities/contact-list.entity';
+import { CampaignContactService } from './campaign-contact.service';
+import { FollowUpConditionService } from './follow-up-condition.service';
+import { SenderRotationService } from './sender-rotation.service';
+import { UserContextService } from 'src/common/services/user-context.service';
+import {
+  CampaignBlueprintQueryDto,
+  CloneCampaignDto,
+  CreateCampaignBlueprintDto,
+  CreateCampaignFromBlueprintDto,
+} from '../dto/clone-campaign.dto';
+
+/** sequenceSettings keys holding the sending state of a campaign, not its configuration */
+const RUNTIME_SEQUENCE_SETTINGS = ['quotaDistribution'];
+
+interface NewCampaignSource {
+  organizationId: string;
+  name: string;
+  contactListId: string;
+  settings: BlueprintSettings;
+  senderPool: CampaignSender[] | null;
+  steps: BlueprintStep[];
+}
+
+/**
+ * Copies sequences: clones a campaign into a new draft, saves campaigns as reusable
+ * blueprints and starts campaigns from them. Steps get new IDs, replyToStepId and
+ * sendConditions are pointed at the copied steps.
+ */
+@Injectable()
+export class CampaignCloneService {
+  private readonly logger = new Logger(CampaignCloneService.name);
+
+  constructor(
+    private readonly campaignsRepository: CampaignsRepository,
+    private readonly sequelize: Sequelize,
+    @InjectModel(Campaign)
+    private readonly campaignModel: typeof Campaign,
+    @InjectModel(CampaignStep)
+    private readonly campaignStepModel: typeof CampaignStep,
+    @InjectModel(CampaignBlueprint)
+    private readonly campaignBlueprintModel: typeof CampaignBlueprint,
+    @InjectModel(ContactList)
+    private readonly contactListModel: typeof ContactList,
+    private readonly campaignContactService: CampaignContactService,
+    private readonly followUpConditionService: FollowUpConditionService,
+    private readonly senderRotationService: SenderRotationService,
+    private readonly userContextService: UserContextService,
+  ) {}
+
+  /**
+   * Deep-copy a campaign with its steps into a new DRAFT campaign
+   */
+  async clone(campaignId: string, dto: CloneCampaignDto): Promise<Campaign> {
+    const campaign = await this.findCampaign(campaignId);
+
+    const created = await this.sequelize.transaction(async (tx) => {
+      const name = dto.name
+        ? await this.ensureNameAvailable(campaign.organizationId, dto.name, tx)
+        : await this.nextCopyName(campaign.organizationId, campaign.name, tx);
+
+      return this.createCampaign(
+        {
+          organizationId: campaign.organizationId,
+          name,
+          contactListId: dto.contactListId ?? campaign.contactListId,
+          settings: this.toSettings(campaign),
+          senderPool: campaign.senderPool ?? null,
+          steps: campaign.steps.map((step) => this.toBlueprintStep(step)),
+        },
+        tx,
+      );
+    });
+
+    this.logger.log(`Cloned campaign ${campaignId} into ${created.id} (${created.name})`);
+    return created;
+  }
+
+  /**
+   * Save the settings and steps of a campaign as a blueprint of its organization
+   */
+  async saveAsBlueprint(campaignId: string, dto: CreateCampaignBlueprintDto): Promise<CampaignBlueprint> {
+    const campaign = await this.findCampaign(campaignId);
+    if (campaign.steps.length === 0) {
+      throw new BadRequestException('Add at least one step before saving the campaign as a blueprint');
+    }
+
+    await this.ensureBlueprintNameAvailable(campaign.organizationId, dto.name);
+
+    const blueprint = await this.campaignBlueprintModel.create({
+      organizationId: campaign.organizationId,
+      name: dto.name,
+      description: dto.description?.trim() || campaign.description || null,
+      settings: this.toSettings(campaign),
+      steps: campaign.steps.map((step) => this.toBlueprintStep(step)),
+      createdBy: this.userContextService.getCurrentUserId(),
+    });
+
+    this.logger.log(`Saved campaign ${campaignId} as blueprint ${blueprint.id} (${blueprint.name})`);
+    return blueprint;
+  }
+
+  async listBlueprints(query: CampaignBlueprintQueryDto): Promise<CampaignBlueprint[]> {
+    const organizationId = this.resolveOrganizationId(query.organizationId);
+    return this.campaignBlueprintModel.findAll({
+      where: { organizationId },
+      order: [['name', 'ASC']],
+    });
+  }
+
+  async getBlueprint(id: string): Promise<CampaignBlueprint> {
+    const blueprint = await this.campaignBlueprintModel.findByPk(id);
+    const currentUser = this.userContextService.getCurrentUser();
+    if (
+      !blueprint ||
+      (currentUser?.type !== 'employee' && blueprint.organizationId !== currentUser?.organizationId)
+    ) {
+      throw new NotFoundException('Blueprint not found');
+    }
+    return blueprint;
+  }
+
+  async deleteBlueprint(id: string): Promise<{ success: boolean; message: string }> {
+    const blueprint = await this.getBlueprint(id);
+    await blueprint.destroy();
+
+    this.logger.log(`Blueprint ${id} deleted successfully`);
+    return { success: true, message: 'Blueprint deleted successfully' };
+  }
+
+  /**
+   * Start a new DRAFT campaign from a blueprint
+   */
+  async createFromBlueprint(id: string, dto: CreateCampaignFromBlueprintDto): Promise<Campaign> {
+    const blueprint = await this.getBlueprint(id);
+
+    const created = await this.sequelize.transaction(async (tx) => {
+      const name = await this.ensureNameAvailable(blueprint.organizationId, dto.name, tx);
+      return this.createCampaign(
+        {
+          organizationId: blueprint.organizationId,
+          name,
+          contactListId: dto.contactListId,
+          settings: blueprint.settings,
+          senderPool: null,
+          steps: blueprint.steps,
+        },
+        tx,
+      );
+    });
+
+    this.logger.log(`Created campaign ${created.id} (${created.name}) from blueprint ${id}`);
+    return created;
+  }
+
+  private async createCampaign(source: NewCampaignSource, tx: Transaction): Promise<Campaign> {
+    const list = await this.contactListModel.findOne({
+      where: { id: source.contactListId, organizationId: source.organizationId },
+      transaction: tx,
+    });
+    if (!list) {
+      throw new NotFoundException('Contact list not found');
+    }
+
+    if (source.senderPool?.length) {
+      await this.senderRotationService.validateSenderPool(source.organizationId, source.senderPool, tx);
+    }
+
+    const totalRecipients = await this.campaignContactService.countSubscribedContacts(source.contactListId, tx);
+
+    const campaign = (await this.campaignsRepository.create(
+      {
+        ...source.settings,
+        organizationId: source.organizationId,
+        name: source.name,
+        contactListId: source.contactListId,
+        status: 'DRAFT',
+        senderPool: source.senderPool,
+        totalSteps: source.steps.length,
+        totalRecipients,
+      },
+      tx,
+    )) as Campaign;
+
+    const steps = [...source.steps].sort((a, b) => a.stepOrder - b.stepOrder);
+    const stepIdMap = new Map(steps.map((step) => [step.id, randomUUID()]));
+    const createdBy = this.userContextService.getCurrentUserId();
+
+    for (const [index, step] of steps.entries()) {
+      await this.campaignStepModel.create(
+        {
+          id: stepIdMap.get(step.id),
+          organizationId: source.organizationId,
+          campaignId: campaign.id,
+          stepOrder: index + 1,
+          name: step.name,
+          templateId: step.templateId,
+          triggerType: step.triggerType,
+          scheduleTime: step.scheduleTime,
+          delayMinutes: step.delayMinutes,
+          timezone: step.timezone,
+          replyToStepId: step.replyToStepId ? stepIdMap.get(step.replyToStepId) ?? null : null,
+          replyType: step.replyToStepId && stepIdMap.has(step.replyToStepId) ? step.replyType : null,
+          sendConditions: step.sendConditions
+            ? this.followUpConditionService.remapStepIds(step.sendConditions, stepIdMap)
+            : null,
+          variants: step.variants,
+          abTest: step.abTest ? { ...step.abTest, winnerVariantId: null, decidedAt: null } : null,
+          createdBy,
+        },
+        { transaction: tx },
+      );
+    }
+
+    return (await this.campaignsRepository.findById(campaign.id, tx)) as Campaign;
+  }
+
+  private async findCampaign(id: string): Promise<Campaign> {
+    const campaign = (await this.campaignsRepository.findById(id)) as Campaign | null;
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const steps = await this.campaignStepModel.findAll({
+      where: { campaignId: id },
+      order: [['stepOrder', 'ASC']],
+    });
+    return { ...campaign, steps } as Campaign;
+  }
+
+  private toSettings(campaign: Campaign): BlueprintSettings {
+    const sequenceSettings = campaign.sequenceSettings ? { ...campaign.sequenceSettings } : null;
+    for (const key of RUNTIME_SEQUENCE_SETTINGS) {
+      delete sequenceSettings?.[key];
+    }
+
+    return {
+      description: campaign.description ?? null,
+      sequenceSettings: sequenceSettings && Object.keys(sequenceSettings).length > 0 ? sequenceSettings : null,
+      senderRotation: campaign.senderRotation,
+      sendingWindow: campaign.sendingWindow ?? null,
+      trackingEnabled: campaign.trackingEnabled,
+      openTracking: campaign.openTracking,
+      clickTracking: campaign.clickTracking,
+      humanEngagementOnly: campaign.humanEngagementOnly,
+      verificationFilter: campaign.verificationFilter,
+      unsubscribeTracking: campaign.unsubscribeTracking,
+      unsubscribeReplyEnabled: campaign.unsubscribeReplyEnabled,
+      unsubscribeCustomMessage: campaign.unsubscribeCustomMessage ?? null,
+      autoAdvance: campaign.autoAdvance,
+    };
+  }
+
+  private toBlueprintStep(step: CampaignStep): BlueprintStep {
+    return {
+      id: step.id,
+      stepOrder: step.stepOrder,
+      name: step.name,
+      templateId: step.templateId,
+      triggerType: step.triggerType,
+      scheduleTime: step.scheduleTime,
+      delayMinutes: Number(step.delayMinutes),
+      timezone: step.timezone,
+      replyToStepId: step.replyToStepId,
+      replyType: step.replyType,
+      sendConditions: step.sendConditions,
+      variants: step.variants,
+      abTest: step.abTest,
+    };
+  }
+
+  private async ensureNameAvailable(organizationId: string, name: string, tx: Transaction): Promise<string> {
+    const existing = await this.campaignsRepository.findOne({ where: { organizationId, name }, transaction: tx });
+    if (existing) {
+      throw new ConflictException(`Campaign with name "${name}" already exists in this organization`);
+    }
+    return name;
+  }
+
+  /**
+   * "<name> (Copy)", then "<name> (Copy 2)" and so on until the name is free
+   */
+  private async nextCopyName(organizationId: string, name: string, tx: Transaction): Promise<string> {
+    const base = `${name.slice(0, 240)} (Copy`;
+    const taken = await this.campaignModel.findAll({
+      where: { organizationId, name: { [Op.like]: `${base}%` } },
+      attributes: ['name'],
+      transaction: tx,
+    });
+    const takenNames = new Set(taken.map((c) => c.name));
+
+    let candidate = `${base})`;
+    for (let copy = 2; takenNames.has(candidate); copy++) {
+      candidate = `${base} ${copy})`;
+    }
+    return candidate;
+  }
+
+  private async ensureBlueprintNameAvailable(organizationId: string, name: string): Promise<void> {
+    const existing = await this.campaignBlueprintModel.findOne({ where: { organizationId, name } });
+    if (existing) {
+      throw new ConflictException(`Blueprint with name "${name}" already exists in this organization`);
+    }
+  }
+
+  /**
+   * Employees work in any organization, users only in their own
+   */
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+}
@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
-import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { Contact, EmailVerificationStatus } from 'src/resources/contacts/entities/contact.entity';
 import { EmailMessage, EmailMessageStatus } from '../entities/email-message.entity';
-import { Op, Transaction } from 'sequelize';
+import { CampaignVerificationFilter } from '../entities/campaign.entity';
+import { getExcludedVerificationStatuses } from 'src/common/utils/email-verification.util';
+import { Op, Transaction, WhereOptions } from 'sequelize';
 
 /**
  * Shared service for campaign contact operations
@@ -31,11 +33,13 @@ export class CampaignContactService {
    * 
    * @param contactListId - ID of the contact list
    * @param transaction - Optional database transaction
+   * @param verificationFilter - Also exclude contacts the campaign's verification filter skips
    * @returns Number of subscribed, non-bounced contacts
    */
   async countSubscribedContacts(
     contactListId: string,
     transaction?: Transaction,
+    verificationFilter?: CampaignVerificationFilter,
   ): Promise<number> {
     return this.contactListMemberModel.count({
       where: { contactListId },
@@ -46,6 +50,7 @@ export class CampaignContactService {
           where: {
             subscribed: true,
             status: { [Op.not]: 'BOUNCED' }, // Exclude bounced contacts from quota calculation
+            ...this.buildVerificationWhere(verificationFilter),
           },
           required: true,
         },
@@ -54,6 +59,20 @@ export class CampaignContactService {
     });
   }
 
+  /**
+   * Contacts a verification filter sends to, contacts without a status count as UNVERIFIED
+   */
+  private buildVerificationWhere(verificationFilter?: CampaignVerificationFilter): WhereOptions {
+    const excluded = getExcludedVerificationStatuses(verificationFilter);
+    if (excluded.length === 0) {
+      return {};
+    }
+    if (excluded.includes(EmailVerificationStatus.UNVERIFIED)) {
+      return { emailVerificationStatus: { [Op.notIn]: excluded } };
+    }
+    return { emailVerificationStatus: { [Op.or]: { [Op.notIn]: excluded, [Op.is]: null } } };
+  }
+
   /**
    * Get all subscribed contacts for a contact list
    * Used for email scheduling and processing
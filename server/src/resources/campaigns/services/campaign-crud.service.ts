@@ -23,7 +23,10 @@ import { UserContextService } from 'src/common/services/user-context.service';
 import { UserRole } from 'src/common/enums/roles.enum';
 import { WhereOptions } from 'sequelize';
 import { CampaignContactService } from './campaign-contact.service';
+import { SenderRotationService } from './sender-rotation.service';
+import { validateSendingWindow } from 'src/common/utils/sending-window.util';
 import { NotificationEventService } from 'src/resources/notifications/services/notification-event.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
 import { Inject, forwardRef } from '@nestjs/common';
 import { EmailMessage } from '../entities/email-message.entity';
 
@@ -45,8 +48,10 @@ export class CampaignCrudService implements ICampaignCrudService {
     private readonly progressService: CampaignProgressService,
     private readonly userContextService: UserContextService,
     private readonly campaignContactService: CampaignContactService,
+    private readonly senderRotationService: SenderRotationService,
     @InjectModel(EmailMessage)
     private readonly emailMessageModel: typeof EmailMessage,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
     @Inject(forwardRef(() => NotificationEventService))
     private readonly notificationEventService?: NotificationEventService,
   ) {}
@@ -63,6 +68,16 @@ export class CampaignCrudService implements ICampaignCrudService {
         tx,
       );
 
+      await this.senderRotationService.validateSenderPool(
+        dto.organizationId,
+        dto.senderPool,
+        tx,
+      );
+
+      if (dto.sendingWindow) {
+        validateSendingWindow(dto.sendingWindow);
+      }
+
       const campaign = (await this.campaignsRepository.create(
         dto,
         tx,
@@ -125,6 +140,18 @@ export class CampaignCrudService implements ICampaignCrudService {
         );
       }
 
+      if (dto.senderPool !== undefined) {
+        await this.senderRotationService.validateSenderPool(
+          existing.organizationId,
+          dto.senderPool,
+          tx,
+        );
+      }
+
+      if (dto.sendingWindow) {
+        validateSendingWindow(dto.sendingWindow);
+      }
+
       // Remove totalSteps from update data as it's calculated from actual steps, not set directly
       const { totalSteps, ...updateData } = dto;
 
@@ -259,6 +286,14 @@ export class CampaignCrudService implements ICampaignCrudService {
         this.logger.log(
           `✅ Campaign ${campaignId} automatically marked as COMPLETED (progress: ${percentage}%)`,
         );
+        const completedCampaign = await this.campaignsRepository.findById(campaignId);
+        if (completedCampaign) {
+          await this.webhookDispatcherService.dispatchCampaignStatusChanged(
+            completedCampaign as Campaign,
+            currentStatus,
+            'COMPLETED',
+          );
+        }
         
         // Send notification for campaign completion
         try {
@@ -340,6 +375,19 @@ export class CampaignCrudService implements ICampaignCrudService {
     return campaign;
   }
 
+  // Lists the organization's connected mailboxes (Gmail and SMTP) that can be added to a campaign sender pool
+  async listSenderMailboxes(organizationId?: string) {
+    const currentUser = this.userContextService.getCurrentUser();
+    const isEmployee = currentUser?.type === 'employee';
+    const targetOrganizationId = isEmployee ? organizationId : currentUser?.organizationId;
+
+    if (!targetOrganizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+
+    return this.senderRotationService.listAvailableSenders(targetOrganizationId);
+  }
+
   // Lists campaigns with optional filters, calculates progress for each, and auto-marks as completed if 100%
   async list(query?: any) {
     const whereConditions: any = {};
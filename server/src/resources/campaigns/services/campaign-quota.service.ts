@@ -2,6 +2,7 @@ import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { RateLimiterService } from 'src/common/services/rate-limiter.service';
 import { QuotaManagementService } from 'src/common/services/quota-management.service';
 import { CampaignSchedulingService } from './campaign-scheduling.service';
+import { SendingWindow } from '../entities/campaign.entity';
 import { QUOTA_CHECK_WINDOW_DAYS } from '../constants/campaign.constants';
 
 /**
@@ -48,12 +49,17 @@ export class CampaignQuotaService {
    * Space Complexity: O(1)
    * 
    * @param userId - User ID to get quota for
+   * @param senderTokenIds - Optional campaign sender pool; quota is then summed across its mailboxes
    * @returns Quota information including remaining, daily limit, etc.
    */
-  async getQuotaInfo(userId: string): Promise<QuotaInfo> {
+  async getQuotaInfo(userId: string, senderTokenIds?: string[]): Promise<QuotaInfo> {
+    if (senderTokenIds && senderTokenIds.length > 0) {
+      return this.getSenderPoolQuotaInfo(senderTokenIds);
+    }
+
     const [quotaStats, dailyLimit] = await Promise.all([
       this.rateLimiterService.getQuotaStats(userId),
-      this.quotaManagementService.getDailyEmailLimit(userId),
+      this.rateLimiterService.getUserDailyLimit(userId),
     ]);
 
     return {
@@ -66,6 +72,34 @@ export class CampaignQuotaService {
     };
   }
 
+  /**
+   * Get combined quota information for a campaign sender pool
+   * Remaining quota accounts for emails already sent and scheduled today from each mailbox
+   */
+  private async getSenderPoolQuotaInfo(senderTokenIds: string[]): Promise<QuotaInfo> {
+    const [quotaMap, dailyLimit] = await Promise.all([
+      this.rateLimiterService.getRemainingQuotaForSenderPool(senderTokenIds, 0, 0),
+      this.rateLimiterService.getSenderPoolDailyLimit(senderTokenIds),
+    ]);
+
+    const remaining = quotaMap.get(0) ?? 0;
+    const used = Math.max(0, dailyLimit - remaining);
+
+    // Mailbox quotas reset at UTC midnight
+    const resetAt = new Date();
+    resetAt.setUTCDate(resetAt.getUTCDate() + 1);
+    resetAt.setUTCHours(0, 0, 0, 0);
+
+    return {
+      remaining,
+      dailyLimit,
+      used,
+      limit: dailyLimit,
+      resetAt,
+      percentUsed: dailyLimit > 0 ? (used / dailyLimit) * 100 : 0,
+    };
+  }
+
   /**
    * Validate quota and calculate distribution based on mode
    * Unified logic for both auto-spread and restrict modes
@@ -76,6 +110,9 @@ export class CampaignQuotaService {
    * @param userId - User ID
    * @param totalEmails - Total emails needed
    * @param mode - Quota mode: 'auto-spread' or 'restrict'
+   * @param senderTokenIds - Optional campaign sender pool
+   * @param sendingWindow - Optional campaign sending window
+   * @param delayMinutes - Spacing between emails, sizes how many fit in a window
    * @returns Quota distribution result
    */
   async validateAndCalculateDistribution(
@@ -83,12 +120,15 @@ export class CampaignQuotaService {
     totalEmails: number,
     mode: QuotaMode,
     timezone: string = 'UTC',
+    senderTokenIds?: string[],
+    sendingWindow?: SendingWindow | null,
+    delayMinutes?: number,
   ): Promise<QuotaDistributionResult> {
-    const quotaInfo = await this.getQuotaInfo(userId);
+    const quotaInfo = await this.getQuotaInfo(userId, senderTokenIds);
     const { remaining, dailyLimit } = quotaInfo;
 
-    // If quota is sufficient, no distribution needed
-    if (totalEmails <= remaining) {
+    // If quota is sufficient, no distribution needed (unless a sending window limits each day)
+    if (totalEmails <= remaining && !sendingWindow) {
       return {
         distribution: [],
         daysNeeded: 0,
@@ -117,6 +157,10 @@ export class CampaignQuotaService {
         remaining,
         dailyLimit,
         timezone,
+        undefined,
+        senderTokenIds,
+        sendingWindow,
+        delayMinutes,
       );
 
     const daysNeeded = distribution.length;
@@ -140,13 +184,15 @@ export class CampaignQuotaService {
    * @param userId - User ID
    * @param totalEmails - Total emails needed
    * @param mode - Quota mode
+   * @param senderTokenIds - Optional campaign sender pool
    */
   async validateQuotaForOperation(
     userId: string,
     totalEmails: number,
     mode: QuotaMode,
+    senderTokenIds?: string[],
   ): Promise<void> {
-    await this.validateAndCalculateDistribution(userId, totalEmails, mode);
+    await this.validateAndCalculateDistribution(userId, totalEmails, mode, 'UTC', senderTokenIds);
     // If no exception thrown, quota is valid
   }
 }
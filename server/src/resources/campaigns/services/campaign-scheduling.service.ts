@@ -1,7 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op, Sequelize } from 'sequelize';
-import { Campaign } from '../entities/campaign.entity';
+import { Campaign, SendingWindow } from '../entities/campaign.entity';
 import { CampaignStep } from '../entities/campaign-step.entity';
 import {
   EmailMessage,
@@ -12,8 +12,15 @@ import { ContactListMember } from 'src/resources/contact-lists/entities/contact-
 import { RateLimiterService } from 'src/common/services/rate-limiter.service';
 import { QuotaManagementService } from 'src/common/services/quota-management.service';
 import { getMidnightInTimezone } from 'src/common/utils/timezone.util';
+import {
+  getNextSendingSlot,
+  getSendingDaysPerWeek,
+  getSendingWindowCapacity,
+  shiftToTimezone,
+} from 'src/common/utils/sending-window.util';
 import { EmailSenderQueue } from 'src/configuration/bull/queues/email-sender.queue';
 import { MAX_SCHEDULE_DAYS, SAFETY_BUFFER_DAYS } from '../constants/campaign.constants';
+import { SenderRotationService } from './sender-rotation.service';
 
 export interface SchedulingContext {
   /** Starting global email index for this step (0 for first step, accumulates for subsequent steps) */
@@ -49,6 +56,7 @@ export class CampaignSchedulingService {
     private readonly rateLimiterService: RateLimiterService,
     private readonly quotaManagementService: QuotaManagementService,
     private readonly emailSenderQueue: EmailSenderQueue,
+    private readonly senderRotationService: SenderRotationService,
   ) {}
 
   /**
@@ -233,12 +241,12 @@ export class CampaignSchedulingService {
       `percentUsed=${quotaStats.percentUsed.toFixed(2)}%, resetAt=${quotaStats.resetAt.toISOString()}`
     );
     
-    // Get dynamic daily limit from subscription plan
-    const dailyLimit = await this.quotaManagementService.getDailyEmailLimit(
+    // Get dynamic daily limit from subscription plan, lowered while the mailbox ramps up
+    const dailyLimit = await this.rateLimiterService.getUserDailyLimit(
       campaign.createdBy,
     );
     this.logger.log(
-      `🎯 [SCHEDULE] Daily limit from plan: ${dailyLimit} emails/day`
+      `🎯 [SCHEDULE] Daily limit from plan and ramp-up: ${dailyLimit} emails/day`
     );
     
     // For scheduled campaigns, determine which day the scheduleTime falls on
@@ -263,6 +271,9 @@ export class CampaignSchedulingService {
       dailyLimit,
       timezone,
       startDay,
+      this.senderRotationService.getPoolTokenIds(campaign),
+      campaign.sendingWindow,
+      step.delayMinutes,
     );
     
     this.logger.log(
@@ -328,6 +339,8 @@ export class CampaignSchedulingService {
         now,
         undefined, // alreadySentCountOnDay0
         timezone,
+        campaign.sendingWindow,
+        contact.timezone,
       );
 
       scheduledEmails.push({
@@ -391,6 +404,10 @@ export class CampaignSchedulingService {
    * 
    * @param startDay Optional day to start distribution from (for scheduled campaigns)
    *                 If not provided, starts from day 0 (today)
+   * @param senderTokenIds Optional sender pool (Gmail token IDs); when provided, daily capacity
+   *                 is the sum of every mailbox in the pool instead of the user's single mailbox
+   * @param sendingWindow Optional campaign sending window; closed days are skipped and each day
+   *                 is capped to the emails that fit in its open hours at `delayMinutes` spacing
    */
   async calculateQuotaDistribution(
     userId: string,
@@ -399,6 +416,9 @@ export class CampaignSchedulingService {
     dailyLimit: number,
     timezone: string = 'UTC',
     startDay?: number,
+    senderTokenIds?: string[],
+    sendingWindow?: SendingWindow | null,
+    delayMinutes: number = 1,
   ): Promise<
     Array<{
       day: number;
@@ -423,9 +443,33 @@ export class CampaignSchedulingService {
     }> = [];
     let currentIndex = 0;
     let day = actualStartDay;
+    const usesSenderPool = !!senderTokenIds && senderTokenIds.length > 0;
+
+    if (usesSenderPool) {
+      dailyLimit = Math.max(1, await this.rateLimiterService.getSenderPoolDailyLimit(senderTokenIds));
+      this.logger.log(
+        `🚀 [QUOTA-DIST] Using sender pool of ${senderTokenIds.length} mailbox(es), combined daily limit: ${dailyLimit}`
+      );
+    }
 
     // Calculate maximum days needed (with safety buffer)
-    const maxDaysNeeded = Math.ceil(totalEmails / dailyLimit) + SAFETY_BUFFER_DAYS;
+    let maxDaysNeeded = Math.ceil(totalEmails / dailyLimit) + SAFETY_BUFFER_DAYS;
+    if (sendingWindow) {
+      // Closed weekdays and holidays stretch the range: size it on a full open day's capacity
+      const fullDayCapacity = Math.max(
+        1,
+        Math.min(dailyLimit, this.getFullWindowCapacity(sendingWindow, delayMinutes)),
+      );
+      const sendingDaysNeeded = Math.ceil(totalEmails / fullDayCapacity);
+      maxDaysNeeded =
+        Math.ceil((sendingDaysNeeded * 7) / getSendingDaysPerWeek(sendingWindow)) +
+        (sendingWindow.excludedDates?.length ?? 0) +
+        SAFETY_BUFFER_DAYS;
+      this.logger.log(
+        `🚀 [QUOTA-DIST] Sending window ${sendingWindow.startTime}-${sendingWindow.endTime} on days ` +
+        `[${sendingWindow.days.join(',')}], up to ${fullDayCapacity} email(s) per open day`
+      );
+    }
     // For scheduled campaigns, we need to query from startDay onwards, but also account for
     // the case where startDay has no quota - we need to find the first available day
     // So we query from startDay to startDay + maxDaysNeeded, but ensure we query enough days
@@ -441,12 +485,19 @@ export class CampaignSchedulingService {
     this.logger.log(
       `🚀 [QUOTA-DIST] Batch querying quota for days ${actualStartDay}-${endDay} (${endDay - actualStartDay + 1} days)`
     );
-    const quotaMap = await this.rateLimiterService.getRemainingQuotaForDays(
-      userId,
-      actualStartDay,
-      endDay,
-      timezone,
-    );
+    const quotaMap = usesSenderPool
+      ? await this.rateLimiterService.getRemainingQuotaForSenderPool(
+          senderTokenIds,
+          actualStartDay,
+          endDay,
+          timezone,
+        )
+      : await this.rateLimiterService.getRemainingQuotaForDays(
+          userId,
+          actualStartDay,
+          endDay,
+          timezone,
+        );
     
     // For scheduled campaigns: If startDay has no quota, find the first day with available quota
     // This ensures scheduled campaigns don't start on days with no quota
@@ -493,9 +544,19 @@ export class CampaignSchedulingService {
       `🚀 [QUOTA-DIST] Quota map received: ${JSON.stringify(Array.from(quotaMap.entries()))}`
     );
 
+    const now = new Date();
+
     while (currentIndex < totalEmails) {
       // Get remaining quota from pre-loaded map (OPTIMIZATION: Issue #4)
-      const remainingForDay = quotaMap.get(day) ?? 0;
+      let remainingForDay = quotaMap.get(day) ?? 0;
+
+      // Only as many emails as fit into the day's open window hours
+      if (sendingWindow) {
+        remainingForDay = Math.min(
+          remainingForDay,
+          getSendingWindowCapacity(day, sendingWindow, timezone, delayMinutes, now),
+        );
+      }
       
       this.logger.log(
         `🚀 [QUOTA-DIST] Day ${day}: remainingForDay=${remainingForDay}, currentIndex=${currentIndex}, totalEmails=${totalEmails}`
@@ -666,6 +727,9 @@ export class CampaignSchedulingService {
    *   * Else: 12:01 AM
    * - Future day + subsequent: continue from first email time on that day
    *
+   * With a sending window, future days start when the window opens and every time is rolled
+   * into the next open slot (in the recipient's timezone when the window asks for it)
+   *
    * Made public for use in campaign processor
    */
   calculateSendTime(
@@ -678,6 +742,8 @@ export class CampaignSchedulingService {
     now?: Date,
     alreadySentCountOnDay0?: number, // For resume: count of emails already sent on day 0
     timezone: string = 'UTC',
+    sendingWindow?: SendingWindow | null,
+    recipientTimezone?: string | null,
   ): Date {
     const currentNow = now || new Date();
     const lastScheduledMap = lastScheduledTimeByDay || new Map<number, Date>();
@@ -744,6 +810,7 @@ export class CampaignSchedulingService {
           `📅 First email on day 0 (IMMEDIATE): Using ${effectiveBaseTime.toISOString()} as base`,
         );
       }
+      effectiveBaseTime = getNextSendingSlot(effectiveBaseTime, sendingWindow, timezone);
       firstEmailMap.set(0, effectiveBaseTime);
     } else if (day === 0 && !isFirstEmailOnDay) {
       // Day 0 + subsequent: Continue from first email time
@@ -770,6 +837,12 @@ export class CampaignSchedulingService {
           `📅 First email on day ${day}: Starting after previous step's last email ` +
             `${lastScheduledTimeOnThisDay.toISOString()} + ${delayMinutes}min = ${effectiveBaseTime.toISOString()}`,
         );
+      } else if (sendingWindow) {
+        // Sending window: Start when the window opens on that day
+        effectiveBaseTime = getNextSendingSlot(targetDayBaseTime, sendingWindow, timezone);
+        this.logger.debug(
+          `📅 First email on day ${day} (WINDOW): Window opens at ${effectiveBaseTime.toISOString()}`,
+        );
       } else if (step.triggerType === 'SCHEDULE' && step.scheduleTime) {
         // Scheduled step: Preserve scheduled time on future days
         const scheduleTime = new Date(step.scheduleTime);
@@ -819,6 +892,7 @@ export class CampaignSchedulingService {
           );
         }
       }
+      effectiveBaseTime = getNextSendingSlot(effectiveBaseTime, sendingWindow, timezone);
       firstEmailMap.set(day, effectiveBaseTime);
     } else {
       // Future day + subsequent: Continue from first email time on that day
@@ -840,7 +914,13 @@ export class CampaignSchedulingService {
 
     // Add within-day delay
     const totalDelayMs = emailIndexWithinDay * delayMinutes * 60 * 1000;
-    const finalSendTime = new Date(effectiveBaseTime.getTime() + totalDelayMs);
+    const finalSendTime = this.applySendingWindow(
+      new Date(effectiveBaseTime.getTime() + totalDelayMs),
+      sendingWindow,
+      timezone,
+      recipientTimezone,
+      currentNow,
+    );
 
     this.logger.debug(
       `📅 Final send time for email ${globalEmailIndex} (day ${day}, index ${emailIndexWithinDay}): ` +
@@ -849,4 +929,45 @@ export class CampaignSchedulingService {
 
     return finalSendTime;
   }
+
+  /**
+   * Roll a send time into the campaign's sending window
+   * With `useRecipientTimezone` the time keeps its local wall-clock time but moves to the
+   * contact's timezone (09:05 step time becomes 09:05 for the contact) before rolling
+   */
+  applySendingWindow(
+    sendAt: Date,
+    sendingWindow: SendingWindow | null | undefined,
+    timezone: string = 'UTC',
+    recipientTimezone?: string | null,
+    now: Date = new Date(),
+  ): Date {
+    if (!sendingWindow) {
+      return sendAt;
+    }
+
+    let windowTimezone = timezone;
+    let candidate = sendAt;
+
+    if (sendingWindow.useRecipientTimezone && recipientTimezone) {
+      const shifted = shiftToTimezone(sendAt, timezone, recipientTimezone);
+      if (shifted !== sendAt) {
+        windowTimezone = recipientTimezone;
+        // That local time may already have passed for contacts ahead of the step timezone
+        candidate = shifted < now ? now : shifted;
+      }
+    }
+
+    return getNextSendingSlot(candidate, sendingWindow, windowTimezone);
+  }
+
+  /**
+   * Emails that fit into one full open window at `delayMinutes` spacing
+   */
+  private getFullWindowCapacity(sendingWindow: SendingWindow, delayMinutes: number): number {
+    const [startHour, startMinute] = sendingWindow.startTime.split(':').map(Number);
+    const [endHour, endMinute] = sendingWindow.endTime.split(':').map(Number);
+    const windowMinutes = endHour * 60 + endMinute - (startHour * 60 + startMinute);
+    return Math.ceil(windowMinutes / Math.max(1, delayMinutes));
+  }
 }
@@ -6,7 +6,7 @@ import {
   ConflictException,
 } from '@nestjs/common';
 import { Campaign } from '../entities/campaign.entity';
-import { CampaignStep } from '../entities/campaign-step.entity';
+import { CampaignStep, StepAbTest, StepVariant } from '../entities/campaign-step.entity';
 import { CreateStepDto } from '../dto/create-step.dto';
 import { UpdateStepDto } from '../dto/update-step.dto';
 import { ReorderStepsDto } from '../dto/reorder-steps.dto';
@@ -14,7 +14,7 @@ import { Sequelize } from 'sequelize-typescript';
 import { InjectModel } from '@nestjs/sequelize';
 import { Op, Transaction } from 'sequelize';
 import { CampaignsRepository } from '../campaigns.repository';
-import { CampaignValidationService } from './campaign-validation.service';
+import { CampaignValidationService, PersonalizationReport } from './campaign-validation.service';
 import { CampaignProcessorQueue } from 'src/configuration/bull/queues/campaign-processor.queue';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
 import { Contact } from 'src/resources/contacts/entities/contact.entity';
@@ -35,7 +35,10 @@ import { CampaignSchedulingService } from './campaign-scheduling.service';
 import { CampaignContactService } from './campaign-contact.service';
 import { CampaignQuotaService } from './campaign-quota.service';
 import { CampaignStepQueueService } from './campaign-step-queue.service';
+import { SenderRotationService } from './sender-rotation.service';
+import { CampaignContentReport, ContentLintService } from './content-lint.service';
 import { EMAIL_STATUS_GROUPS } from '../constants/campaign.constants';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
 
 @Injectable()
 export class CampaignStepService implements ICampaignStepService {
@@ -63,6 +66,9 @@ export class CampaignStepService implements ICampaignStepService {
     private readonly campaignContactService: CampaignContactService,
     private readonly campaignQuotaService: CampaignQuotaService,
     private readonly campaignStepQueueService: CampaignStepQueueService,
+    private readonly senderRotationService: SenderRotationService,
+    private readonly contentLintService: ContentLintService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
   ) { }
 
   // Adds a new step to a campaign with validation, auto-activates COMPLETED campaigns, and queues steps for active campaigns
@@ -160,8 +166,10 @@ export class CampaignStepService implements ICampaignStepService {
         const emailsFromPreviousSteps = subscribedCount * steps.length;
 
         // Use unified quota service to calculate distribution
+        const senderTokenIds = this.senderRotationService.getPoolTokenIds(campaign);
         const quotaInfo = await this.campaignQuotaService.getQuotaInfo(
           campaign.createdBy,
+          senderTokenIds,
         );
 
         // Calculate quota distribution ONLY for the new step's emails using unified scheduling service
@@ -171,6 +179,11 @@ export class CampaignStepService implements ICampaignStepService {
             emailsForNewStep,
             quotaInfo.remaining,
             quotaInfo.dailyLimit,
+            undefined,
+            undefined,
+            senderTokenIds,
+            campaign.sendingWindow,
+            dto.delayMinutes,
           );
 
         // Adjust indices to be global (accounting for previous steps)
@@ -214,7 +227,7 @@ export class CampaignStepService implements ICampaignStepService {
       }
 
       // Convert scheduleTime from step timezone to UTC using Luxon
-      let stepData: any = { ...dto, stepOrder: nextOrder };
+      let stepData: any = { ...dto, stepOrder: nextOrder, abTest: this.toStoredAbTest(dto.abTest) };
 
       if (dto.triggerType === 'SCHEDULE' && dto.scheduleTime && dto.timezone) {
         try {
@@ -365,7 +378,7 @@ export class CampaignStepService implements ICampaignStepService {
     });
   }
 
-  // Updates a step with validation of replyToStepId and replyType relationship
+  // Updates a step with validation of replyToStepId, replyType and sendConditions
   async update(
     stepId: string,
     dto: UpdateStepDto,
@@ -427,21 +440,51 @@ export class CampaignStepService implements ICampaignStepService {
 
     const stepData: any = { ...dto };
 
-    // Validate replyToStepId and replyType are provided together
-    if (stepData.replyToStepId && !stepData.replyType) {
-      if (!existingStep.replyType) {
-        throw new BadRequestException(
-          'When replying to a previous step, replyType is required (OPENED, CLICKED, or SENT)',
-        );
-      }
+    // Validate replyToStepId, replyType and sendConditions against the stored step
+    if (
+      stepData.replyToStepId !== undefined ||
+      stepData.replyType !== undefined ||
+      stepData.sendConditions !== undefined
+    ) {
+      const earlierSteps = await this.campaignStepModel.findAll({
+        where: {
+          campaignId: existingStep.campaignId,
+          stepOrder: { [Op.lt]: existingStep.stepOrder },
+        },
+        attributes: ['id'],
+      });
+
+      this.validationService.validateFollowUpSettings(
+        {
+          replyToStepId: stepData.replyToStepId !== undefined ? stepData.replyToStepId : existingStep.replyToStepId,
+          replyType: stepData.replyType !== undefined ? stepData.replyType : existingStep.replyType,
+          sendConditions: stepData.sendConditions !== undefined ? stepData.sendConditions : existingStep.sendConditions,
+        },
+        earlierSteps,
+      );
     }
 
-    if (stepData.replyType && !stepData.replyToStepId) {
-      if (!existingStep.replyToStepId) {
-        throw new BadRequestException(
-          'replyType requires a replyToStepId (step to reply to)',
-        );
-      }
+    // Validate variants against the stored step; changing them restarts the A/B test
+    if (stepData.variants !== undefined || stepData.abTest !== undefined) {
+      const variants = stepData.variants !== undefined ? stepData.variants : existingStep.variants;
+      const abTest = stepData.abTest !== undefined ? stepData.abTest : existingStep.abTest;
+
+      await this.validationService.validateVariantSettings(
+        { variants, abTest },
+        campaign.organizationId,
+      );
+      const storedAbTest = this.toStoredAbTest(abTest);
+      const unchanged =
+        this.variantsKey(variants) === this.variantsKey(existingStep.variants) &&
+        JSON.stringify(storedAbTest) === JSON.stringify(this.toStoredAbTest(existingStep.abTest));
+      stepData.abTest = unchanged ? existingStep.abTest : storedAbTest;
+    }
+
+    if (stepData.templateId !== undefined || stepData.variants !== undefined) {
+      await this.validationService.validateStepPersonalization({
+        templateId: stepData.templateId !== undefined ? stepData.templateId : existingStep.templateId,
+        variants: stepData.variants !== undefined ? stepData.variants : existingStep.variants,
+      });
     }
 
     // Validate step name uniqueness if name is being updated
@@ -573,6 +616,54 @@ export class CampaignStepService implements ICampaignStepService {
     return result ? (result as CampaignStep) : null;
   }
 
+  private variantsKey(variants?: StepVariant[] | null): string {
+    return JSON.stringify(
+      (variants || []).map(({ id, templateId, subject, weight }) => [id, templateId, subject ?? null, weight]),
+    );
+  }
+
+  // Keeps only the client-editable A/B test settings; the winner is set by the processor
+  private toStoredAbTest(abTest?: Pick<StepAbTest, 'testPercentage' | 'waitHours' | 'winnerMetric'> | null): StepAbTest | null {
+    if (!abTest) {
+      return null;
+    }
+    return {
+      testPercentage: abTest.testPercentage,
+      waitHours: abTest.waitHours,
+      winnerMetric: abTest.winnerMetric,
+    };
+  }
+
+  // Reports contacts whose emails would render with empty personalization variables
+  async getPersonalizationReport(campaignId: string): Promise<PersonalizationReport> {
+    const campaign = (await this.campaignsRepository.findById(campaignId)) as Campaign | null;
+    if (!campaign) {
+      throw new NotFoundException(`Campaign ${campaignId} not found`);
+    }
+
+    const steps = await this.campaignStepModel.findAll({
+      where: { campaignId },
+      attributes: ['id', 'templateId', 'variants'],
+      order: [['stepOrder', 'ASC']],
+    });
+    return this.validationService.getPersonalizationReport(campaign, steps);
+  }
+
+  // Scores the content of every step (and A/B variant) for deliverability problems
+  async getContentReport(campaignId: string): Promise<CampaignContentReport> {
+    const campaign = (await this.campaignsRepository.findById(campaignId)) as Campaign | null;
+    if (!campaign) {
+      throw new NotFoundException(`Campaign ${campaignId} not found`);
+    }
+
+    const steps = await this.campaignStepModel.findAll({
+      where: { campaignId },
+      attributes: ['id', 'stepOrder', 'name', 'templateId', 'variants'],
+      order: [['stepOrder', 'ASC']],
+    });
+    return this.contentLintService.getCampaignReport(campaign, steps);
+  }
+
   // Validates that a step can be deleted by checking if it has emails that have been sent
   // Allows deletion if step hasn't started (no emails or only QUEUED emails)
   private async validateStepCanBeDeleted(
@@ -1118,6 +1209,7 @@ export class CampaignStepService implements ICampaignStepService {
           { id: campaign.id },
           { status: 'ACTIVE', completedAt: null },
         );
+        await this.webhookDispatcherService.dispatchCampaignStatusChanged(campaign, 'COMPLETED', 'ACTIVE');
 
         // Queue step if it's immediate or past-due scheduled
         if (
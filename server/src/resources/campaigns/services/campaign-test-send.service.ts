@@ -0,0 +1,244 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { randomUUID } from 'crypto';
+import { Campaign } from '../entities/campaign.entity';
+import { CampaignStep } from '../entities/campaign-step.entity';
+import { CampaignsRepository } from '../campaigns.repository';
+import { SenderRotationService } from './sender-rotation.service';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
+import { EmailSendFormat } from 'src/resources/email-templates/enums/email-send-format.enum';
+import { DEFAULT_EMAIL_TEMPLATE_CONTACT_DATA } from 'src/resources/email-templates/email-templates.constants';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { User } from 'src/resources/users/entities/user.entity';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import {
+  EmailTrackingService,
+  TEST_SEND_MESSAGE_ID_PREFIX,
+} from 'src/common/services/email-tracking.service';
+import { MailSenderService } from 'src/common/services/mail-sender.service';
+import { RateLimiterService } from 'src/common/services/rate-limiter.service';
+import { TemplateSyntaxError } from 'src/common/utils/personalization-template.util';
+import { TestSendStepDto } from '../dto/test-send.dto';
+
+export const TEST_SEND_SUBJECT_PREFIX = '[TEST] ';
+
+export interface TestSendResult {
+  sentFrom: string;
+  subject: string;
+  recipients: Array<{ email: string; success: boolean; error?: string }>;
+}
+
+interface RenderedEmail {
+  subject: string;
+  /** Sent as HTML with its plain text as the alternative */
+  isHtml: boolean;
+  html?: string;
+  text?: string;
+}
+
+/**
+ * Sends a step to seed addresses exactly as contacts will receive it: personalized,
+ * with tracking, signature and unsubscribe footer, from a mailbox of the campaign.
+ * Test sends create no EmailMessage; their tracking links use a test message ID so
+ * opens, clicks and unsubscribes are never recorded on the campaign.
+ */
+@Injectable()
+export class CampaignTestSendService {
+  private readonly logger = new Logger(CampaignTestSendService.name);
+
+  constructor(
+    private readonly campaignsRepository: CampaignsRepository,
+    @InjectModel(CampaignStep)
+    private readonly campaignStepModel: typeof CampaignStep,
+    @InjectModel(EmailTemplate)
+    private readonly emailTemplateModel: typeof EmailTemplate,
+    @InjectModel(Contact)
+    private readonly contactModel: typeof Contact,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly senderRotationService: SenderRotationService,
+    private readonly emailPersonalizationService: EmailPersonalizationService,
+    private readonly emailTrackingService: EmailTrackingService,
+    private readonly mailSenderService: MailSenderService,
+    private readonly rateLimiterService: RateLimiterService,
+  ) {}
+
+  async sendTest(campaignId: string, stepId: string, dto: TestSendStepDto): Promise<TestSendResult> {
+    const campaign = (await this.campaignsRepository.findById(campaignId)) as Campaign | null;
+    if (!campaign) {
+      throw new NotFoundException('Campaign not found');
+    }
+
+    const step = await this.campaignStepModel.findOne({ where: { id: stepId, campaignId } });
+    if (!step) {
+      throw new NotFoundException('Campaign step not found');
+    }
+
+    const rendered = await this.render(campaign, step, dto);
+    const token = await this.resolveSender(campaign, dto.senderTokenId);
+
+    const user = await this.userModel.findByPk(campaign.createdBy);
+    const fromName = [user?.firstName, user?.lastName].filter(Boolean).join(' ').trim() || undefined;
+
+    const sender = this.mailSenderService.forMailbox(token);
+    await sender.prepare(token);
+
+    const recipients: TestSendResult['recipients'] = [];
+    for (const email of Array.from(new Set(dto.recipients))) {
+      if (!(await this.rateLimiterService.checkSenderQuota(token))) {
+        recipients.push({ email, success: false, error: `Daily quota of ${token.email} exceeded` });
+        continue;
+      }
+
+      // Every copy gets its own test ID, like every real email has its own message
+      const messageId = `${TEST_SEND_MESSAGE_ID_PREFIX}${randomUUID()}`;
+      try {
+        await sender.send(token, {
+          to: email,
+          from: token.email,
+          fromName,
+          ...this.injectTracking(campaign, rendered, messageId, fromName),
+          listUnsubscribe: campaign.unsubscribeTracking
+            ? this.emailTrackingService.generateListUnsubscribe(messageId, token.email)
+            : undefined,
+        });
+        // Provider limits apply to test sends too, campaign stats don't
+        await this.rateLimiterService.incrementSenderQuota(token);
+        recipients.push({ email, success: true });
+      } catch (error) {
+        const err = error as Error;
+        this.logger.warn(`Test send of step ${stepId} to ${email} failed: ${err.message}`);
+        recipients.push({ email, success: false, error: err.message });
+      }
+    }
+
+    this.logger.log(
+      `Test send of step ${stepId} (campaign ${campaignId}) from ${token.email}: ` +
+      `${recipients.filter((r) => r.success).length}/${recipients.length} sent`,
+    );
+    return { sentFrom: token.email, subject: rendered.subject, recipients };
+  }
+
+  /**
+   * Personalize the step template, or one of its variants, for the chosen contact
+   */
+  private async render(campaign: Campaign, step: CampaignStep, dto: TestSendStepDto): Promise<RenderedEmail> {
+    const variant = dto.variantId ? step.variants?.find((v) => v.id === dto.variantId) : undefined;
+    if (dto.variantId && !variant) {
+      throw new BadRequestException(`Variant ${dto.variantId} not found on this step`);
+    }
+
+    const template = await this.emailTemplateModel.findByPk(variant?.templateId ?? step.templateId);
+    if (!template) {
+      throw new NotFoundException('Email template not found');
+    }
+
+    let contact: Contact;
+    if (dto.contactId) {
+      const found = await this.contactModel.findOne({
+        where: { id: dto.contactId, organizationId: campaign.organizationId },
+      });
+      if (!found) {
+        throw new NotFoundException('Contact not found');
+      }
+      contact = found;
+    } else {
+      contact = { ...DEFAULT_EMAIL_TEMPLATE_CONTACT_DATA, customFields: {} } as unknown as Contact;
+    }
+
+    try {
+      const personalized = this.emailPersonalizationService.personalizeContent(
+        variant?.subject || template.subject,
+        template.htmlContent,
+        template.textContent || '',
+        contact,
+      );
+      return {
+        subject: `${TEST_SEND_SUBJECT_PREFIX}${personalized.subject}`,
+        isHtml: template.sendFormat === EmailSendFormat.HTML,
+        html: personalized.html || undefined,
+        text: personalized.text || undefined,
+      };
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw new BadRequestException(`Invalid template: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Same tracking, signature and unsubscribe footer as EmailSenderProcessor adds to the real emails
+   */
+  private injectTracking(
+    campaign: Campaign,
+    rendered: RenderedEmail,
+    messageId: string,
+    fromName?: string,
+  ): { subject: string; html?: string; text?: string } {
+    const textHasHtml = !!rendered.text && /<[a-z][\s\S]*>/i.test(rendered.text);
+    // Plain text templates keep HTML in textContent, or in htmlContent for predefined templates
+    const html = rendered.isHtml ? rendered.html : textHasHtml ? rendered.text : rendered.html;
+    if (rendered.isHtml || (html && html.trim().length > 0)) {
+      // HTML templates send their plain-text version as the alternative, like the real emails
+      const plainText = rendered.isHtml && !textHasHtml ? rendered.text?.trim() : undefined;
+      return {
+        subject: rendered.subject,
+        html: this.emailTrackingService.injectTracking(
+          html || '',
+          messageId,
+          campaign.openTracking,
+          campaign.clickTracking,
+          fromName,
+          campaign.unsubscribeTracking,
+          campaign.unsubscribeReplyEnabled,
+          campaign.unsubscribeCustomMessage ?? undefined,
+        ),
+        text: plainText ? this.injectTextTracking(campaign, rendered.text!, messageId, fromName) : undefined,
+      };
+    }
+    return {
+      subject: rendered.subject,
+      text: this.injectTextTracking(campaign, rendered.text || '', messageId, fromName),
+    };
+  }
+
+  private injectTextTracking(campaign: Campaign, text: string, messageId: string, fromName?: string): string {
+    return this.emailTrackingService.injectTextTracking(
+      text,
+      messageId,
+      campaign.clickTracking,
+      fromName,
+      campaign.unsubscribeTracking,
+      campaign.unsubscribeReplyEnabled,
+      campaign.unsubscribeCustomMessage ?? undefined,
+    );
+  }
+
+  /**
+   * The chosen mailbox of the sender pool, or the first active one
+   */
+  private async resolveSender(campaign: Campaign, senderTokenId?: string): Promise<GmailOAuthToken> {
+    let senders: GmailOAuthToken[];
+    try {
+      senders = await this.senderRotationService.getActiveSenders(campaign);
+    } catch {
+      throw new BadRequestException('The campaign has no active mailbox to send from');
+    }
+
+    if (!senderTokenId) {
+      return senders[0];
+    }
+    const chosen = senders.find((token) => token.id === senderTokenId);
+    if (!chosen) {
+      throw new BadRequestException('The mailbox is not an active sender of this campaign');
+    }
+    return chosen;
+  }
+}
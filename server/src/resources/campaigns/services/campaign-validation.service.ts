@@ -10,10 +10,23 @@ import { InjectModel } from '@nestjs/sequelize';
 import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
 import { CampaignStep } from '../entities/campaign-step.entity';
 import { CampaignProgressService } from './campaign-progress.service';
+import { FollowUpConditionService } from './follow-up-condition.service';
 import { EmailMessage } from '../entities/email-message.entity';
 import { SubscriptionsService } from 'src/resources/subscriptions/subscriptions.service';
 import { Op } from 'sequelize';
 import { convertToUtc } from 'src/common/utils/timezone-conversion.util';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import { CampaignContactService } from './campaign-contact.service';
+import { PERSONALIZATION_REPORT_SAMPLE_SIZE } from '../constants/campaign.constants';
+
+export interface PersonalizationReport {
+  contactsChecked: number;
+  contactsWithMissingValues: number;
+  /** Number of contacts rendering each variable empty */
+  missingByVariable: Record<string, number>;
+  /** First contacts with missing values */
+  contacts: Array<{ contactId: string; email: string; stepIds: string[]; variables: string[] }>;
+}
 
 @Injectable()
 export class CampaignValidationService {
@@ -28,6 +41,9 @@ export class CampaignValidationService {
     private readonly emailMessageModel: typeof EmailMessage,
     private readonly campaignProgressService: CampaignProgressService,
     private readonly subscriptionsService: SubscriptionsService,
+    private readonly followUpConditionService: FollowUpConditionService,
+    private readonly emailPersonalizationService: EmailPersonalizationService,
+    private readonly campaignContactService: CampaignContactService,
   ) { }
 
   async validateStepAddition(
@@ -35,17 +51,8 @@ export class CampaignValidationService {
     campaign: Campaign,
     existingSteps?: CampaignStep[],
   ): Promise<void> {
-    if (dto.replyToStepId && !dto.replyType) {
-      throw new BadRequestException(
-        'When replying to a previous step, replyType is required (OPENED, CLICKED, or SENT)',
-      );
-    }
-
-    if (dto.replyType && !dto.replyToStepId) {
-      throw new BadRequestException(
-        'replyType requires a replyToStepId (step to reply to)',
-      );
-    }
+    this.validateFollowUpSettings(dto, existingSteps || []);
+    await this.validateVariantSettings(dto, campaign.organizationId);
 
     if (dto.triggerType === 'SCHEDULE') {
       if (!dto.scheduleTime) {
@@ -112,12 +119,186 @@ export class CampaignValidationService {
       }
     }
 
+    await this.validateStepPersonalization(dto);
+
     // Validate step sequential order and completion
     await this.validateStepOrderAndCompletion(campaign, existingSteps);
 
     this.logger.debug(`Step validation passed for campaign ${campaign.id}`);
   }
 
+  /**
+   * Validates the reply-to step, legacy replyType and send conditions of a step
+   * @param earlierSteps Steps that come before the validated step in the campaign
+   */
+  validateFollowUpSettings(
+    settings: Pick<CreateStepDto, 'replyToStepId' | 'replyType' | 'sendConditions'>,
+    earlierSteps: CampaignStep[],
+  ): void {
+    if (settings.replyToStepId && !settings.replyType && !settings.sendConditions) {
+      throw new BadRequestException(
+        'When replying to a previous step, replyType (OPENED, CLICKED, or SENT) or sendConditions is required',
+      );
+    }
+
+    if ((settings.replyType || settings.sendConditions) && !settings.replyToStepId) {
+      throw new BadRequestException(
+        'replyType and sendConditions require a replyToStepId (step to reply to)',
+      );
+    }
+
+    if (settings.sendConditions) {
+      const earlierStepIds = earlierSteps.map((step) => step.id);
+      if (!earlierStepIds.includes(settings.replyToStepId!)) {
+        throw new BadRequestException('replyToStepId must reference an earlier step of the same campaign');
+      }
+      this.followUpConditionService.validateConditions(settings.sendConditions, earlierStepIds);
+    }
+  }
+
+  /**
+   * Validates the A/B variants and test mode of a step
+   * @param organizationId Organization the variant templates must belong to
+   */
+  async validateVariantSettings(
+    settings: Pick<CreateStepDto, 'variants' | 'abTest'>,
+    organizationId: string,
+  ): Promise<void> {
+    if (settings.abTest && !settings.variants?.length) {
+      throw new BadRequestException('abTest requires at least two variants');
+    }
+    if (!settings.variants?.length) {
+      return;
+    }
+
+    if (settings.variants.length < 2) {
+      throw new BadRequestException('A/B testing requires at least two variants');
+    }
+
+    const variantIds = new Set(settings.variants.map((variant) => variant.id));
+    if (variantIds.size !== settings.variants.length) {
+      throw new BadRequestException('Variant ids must be unique within a step');
+    }
+
+    const templateIds = Array.from(new Set(settings.variants.map((variant) => variant.templateId)));
+    const templates = await this.emailTemplateModel.findAll({
+      where: { id: { [Op.in]: templateIds }, organizationId },
+      attributes: ['id'],
+    });
+    const foundIds = new Set(templates.map((template) => template.id));
+    const missing = templateIds.filter((templateId) => !foundIds.has(templateId));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Email template(s) ${missing.join(', ')} not found`);
+    }
+  }
+
+  /**
+   * Validates the personalization syntax and variables of a step's templates and variant subjects
+   */
+  async validateStepPersonalization(
+    settings: Pick<CreateStepDto, 'templateId' | 'variants'>,
+  ): Promise<void> {
+    const templates = await this.loadStepTemplates([settings]);
+    const errors: string[] = [];
+
+    for (const template of templates.values()) {
+      const templateErrors = this.emailPersonalizationService.validateContent(
+        template.subject,
+        template.htmlContent,
+        template.textContent,
+      );
+      errors.push(...templateErrors.map((error) => `Template "${template.name}": ${error}`));
+    }
+    for (const variant of settings.variants || []) {
+      const subjectErrors = this.emailPersonalizationService.validateContent(variant.subject);
+      errors.push(...subjectErrors.map((error) => `Variant ${variant.id} subject: ${error}`));
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(`Invalid personalization. ${errors.join('; ')}`);
+    }
+  }
+
+  /**
+   * Contacts of a campaign whose emails would render with empty variables, for warnings before activation
+   */
+  async getPersonalizationReport(
+    campaign: Campaign,
+    steps: Pick<CampaignStep, 'id' | 'templateId' | 'variants'>[],
+  ): Promise<PersonalizationReport> {
+    const report: PersonalizationReport = {
+      contactsChecked: 0,
+      contactsWithMissingValues: 0,
+      missingByVariable: {},
+      contacts: [],
+    };
+    if (!campaign.contactListId || steps.length === 0) {
+      return report;
+    }
+
+    const templates = await this.loadStepTemplates(steps);
+    const stepContents = steps.map((step) => {
+      const templateIds = step.variants?.length
+        ? step.variants.map((variant) => variant.templateId)
+        : [step.templateId];
+      const contents = templateIds.flatMap((templateId) => {
+        const template = templateId ? templates.get(templateId) : undefined;
+        return template ? [template.subject, template.htmlContent, template.textContent] : [];
+      });
+      return {
+        stepId: step.id,
+        contents: [...contents, ...(step.variants || []).map((variant) => variant.subject)],
+      };
+    });
+
+    const contacts = await this.campaignContactService.getSubscribedContacts(campaign.contactListId);
+    report.contactsChecked = contacts.length;
+
+    for (const contact of contacts) {
+      const variables = new Set<string>();
+      const stepIds: string[] = [];
+      for (const { stepId, contents } of stepContents) {
+        const missing = this.emailPersonalizationService.findMissingValues(contents, contact);
+        if (missing.length > 0) {
+          stepIds.push(stepId);
+          missing.forEach((variable) => variables.add(variable));
+        }
+      }
+      if (variables.size === 0) continue;
+
+      report.contactsWithMissingValues++;
+      variables.forEach((variable) => {
+        report.missingByVariable[variable] = (report.missingByVariable[variable] || 0) + 1;
+      });
+      if (report.contacts.length < PERSONALIZATION_REPORT_SAMPLE_SIZE) {
+        report.contacts.push({ contactId: contact.id, email: contact.email, stepIds, variables: Array.from(variables) });
+      }
+    }
+
+    return report;
+  }
+
+  private async loadStepTemplates(
+    steps: Array<{ templateId?: string | null; variants?: Array<{ templateId: string }> | null }>,
+  ): Promise<Map<string, EmailTemplate>> {
+    const templateIds = Array.from(
+      new Set(
+        steps.flatMap((step) => [
+          ...(step.templateId ? [step.templateId] : []),
+          ...(step.variants || []).map((variant) => variant.templateId),
+        ]),
+      ),
+    );
+    if (templateIds.length === 0) {
+      return new Map();
+    }
+
+    const templates = await this.emailTemplateModel.findAll({
+      where: { id: { [Op.in]: templateIds } },
+    });
+    return new Map(templates.map((template) => [template.id, template]));
+  }
+
   /**
    * Validates that:
    * 1. All previous steps are completed before adding a new step, OR
@@ -0,0 +1,203 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { Campaign } from '../entities/campaign.entity';
+import { CampaignStep } from '../entities/campaign-step.entity';
+import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
+import { EmailSendFormat } from 'src/resources/email-templates/enums/email-send-format.enum';
+import { DEFAULT_EMAIL_TEMPLATE_CONTACT_DATA } from 'src/resources/email-templates/email-templates.constants';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import {
+  ContentIssue,
+  ContentLintResult,
+  DEFAULT_FLAGGED_LINK_DOMAINS,
+  lintEmailContent,
+} from 'src/common/utils/content-lint.util';
+
+/**
+ * Organization-wide content lint settings, stored under `contentLint` in the organization settings
+ */
+export interface ContentLintSettings {
+  /** Steps scoring below this block activation, null only reports */
+  minScore: number | null;
+}
+
+export const CONTENT_LINT_SETTING = 'contentLint';
+
+export const DEFAULT_CONTENT_LINT_SETTINGS: ContentLintSettings = { minScore: null };
+
+export interface StepContentReport {
+  stepId: string;
+  stepOrder: number;
+  name: string | null;
+  templateId: string;
+  /** A/B variant the template is sent for, null for the step template */
+  variantId: string | null;
+  score: number;
+  issues: ContentIssue[];
+  linkCount: number;
+  imageCount: number;
+  htmlBytes: number;
+}
+
+export interface CampaignContentReport {
+  /** Lowest step score */
+  score: number;
+  minScore: number | null;
+  /** Activation is blocked by the organization's minimum score */
+  blocked: boolean;
+  steps: StepContentReport[];
+}
+
+/**
+ * Read the content lint settings from organization settings, invalid values fall back to the default
+ */
+export function getContentLintSettings(settings: Record<string, any> | null | undefined): ContentLintSettings {
+  const minScore = settings?.[CONTENT_LINT_SETTING]?.minScore;
+  return {
+    minScore: Number.isInteger(minScore) && minScore >= 0 && minScore <= 100 ? minScore : DEFAULT_CONTENT_LINT_SETTINGS.minScore,
+  };
+}
+
+/**
+ * Validate content lint settings sent to the organization settings endpoint
+ * @throws BadRequestException on unknown keys or values
+ */
+export function validateContentLintSettings(settings: unknown): ContentLintSettings {
+  if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+    throw new BadRequestException(`${CONTENT_LINT_SETTING} must be an object`);
+  }
+  const { minScore, ...rest } = settings as Record<string, any>;
+  if (Object.keys(rest).length > 0) {
+    throw new BadRequestException(`Unknown ${CONTENT_LINT_SETTING} keys: ${Object.keys(rest).join(', ')}`);
+  }
+  if (minScore !== undefined && minScore !== null && !(Number.isInteger(minScore) && minScore >= 0 && minScore <= 100)) {
+    throw new BadRequestException(`${CONTENT_LINT_SETTING}.minScore must be an integer between 0 and 100, or null`);
+  }
+  return { minScore: minScore ?? null };
+}
+
+/**
+ * Pre-flight deliverability check of campaign steps. Each step template, and each
+ * A/B variant, is rendered with sample data and scored by lintEmailContent.
+ * Extra flagged link domains come from CONTENT_LINT_FLAGGED_DOMAINS (comma-separated).
+ */
+@Injectable()
+export class ContentLintService {
+  constructor(
+    @InjectModel(EmailTemplate)
+    private readonly emailTemplateModel: typeof EmailTemplate,
+    @InjectModel(Organization)
+    private readonly organizationModel: typeof Organization,
+    private readonly emailPersonalizationService: EmailPersonalizationService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getCampaignReport(
+    campaign: Pick<Campaign, 'organizationId'>,
+    steps: Pick<CampaignStep, 'id' | 'stepOrder' | 'name' | 'templateId' | 'variants'>[],
+  ): Promise<CampaignContentReport> {
+    const templateIds = Array.from(
+      new Set(steps.flatMap((step) => [step.templateId, ...(step.variants || []).map((v) => v.templateId)])),
+    ).filter(Boolean);
+    const templates = templateIds.length
+      ? await this.emailTemplateModel.findAll({ where: { id: { [Op.in]: templateIds } } })
+      : [];
+    const templatesById = new Map(templates.map((template) => [template.id, template]));
+
+    const reports: StepContentReport[] = [];
+    for (const step of steps) {
+      const sends = step.variants?.length
+        ? step.variants.map((variant) => ({ variantId: variant.id, templateId: variant.templateId, subject: variant.subject }))
+        : [{ variantId: null, templateId: step.templateId, subject: null }];
+
+      for (const send of sends) {
+        const template = templatesById.get(send.templateId);
+        if (!template) continue;
+        reports.push({
+          stepId: step.id,
+          stepOrder: step.stepOrder,
+          name: step.name ?? null,
+          templateId: template.id,
+          variantId: send.variantId,
+          ...this.lintTemplate(template, send.subject),
+        });
+      }
+    }
+
+    const organization = await this.organizationModel.findByPk(campaign.organizationId, { attributes: ['id', 'settings'] });
+    const { minScore } = getContentLintSettings(organization?.settings as Record<string, any> | null);
+    const score = reports.length ? Math.min(...reports.map((report) => report.score)) : 100;
+
+    return { score, minScore, blocked: minScore !== null && score < minScore, steps: reports };
+  }
+
+  /**
+   * @throws BadRequestException when a step scores below the organization's minimum score
+   */
+  async assertActivationAllowed(
+    campaign: Pick<Campaign, 'organizationId'>,
+    steps: Pick<CampaignStep, 'id' | 'stepOrder' | 'name' | 'templateId' | 'variants'>[],
+  ): Promise<void> {
+    const report = await this.getCampaignReport(campaign, steps);
+    if (!report.blocked) {
+      return;
+    }
+
+    const failing = report.steps
+      .filter((step) => step.score < report.minScore!)
+      .map((step) => `${step.name || `Step ${step.stepOrder}`}${step.variantId ? ` (variant ${step.variantId})` : ''}: ${step.score}`);
+    throw new BadRequestException(
+      `Cannot activate campaign. Content score is below the organization minimum of ${report.minScore}: ${failing.join(', ')}`,
+    );
+  }
+
+  private lintTemplate(template: EmailTemplate, subjectOverride?: string | null): ContentLintResult {
+    const subject = subjectOverride || template.subject;
+    const isHtml = template.sendFormat === EmailSendFormat.HTML;
+    const variableErrors = this.emailPersonalizationService.validateContent(
+      subject,
+      template.htmlContent,
+      template.textContent,
+    );
+
+    // Plain text templates keep their HTML (links, formatting) in textContent
+    const textHasHtml = !isHtml && !!template.textContent && /<[a-z][\s\S]*>/i.test(template.textContent);
+    const html = isHtml ? template.htmlContent : textHasHtml ? template.textContent : template.htmlContent;
+    const text = isHtml ? template.textContent : textHasHtml ? '' : template.textContent;
+
+    return lintEmailContent(
+      {
+        subject: this.render(subject),
+        html: this.render(html),
+        text: this.render(text),
+        isHtml,
+        variableErrors,
+      },
+      this.getFlaggedDomains(),
+    );
+  }
+
+  /**
+   * Render with sample data so phrases and links are checked as recipients see them
+   */
+  private render(content: string | null | undefined): string {
+    if (!content) return '';
+    try {
+      return this.emailPersonalizationService.renderWithData(content, DEFAULT_EMAIL_TEMPLATE_CONTACT_DATA);
+    } catch {
+      // Syntax errors are already reported as broken variables, lint the raw content
+      return content;
+    }
+  }
+
+  private getFlaggedDomains(): string[] {
+    const extra = (this.configService.get<string>('CONTENT_LINT_FLAGGED_DOMAINS') || '')
+      .split(',')
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean);
+    return [...DEFAULT_FLAGGED_LINK_DOMAINS, ...extra];
+  }
+}
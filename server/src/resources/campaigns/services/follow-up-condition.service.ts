@@ -0,0 +1,371 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import {
+  CampaignStep,
+  StepCondition,
+  StepConditionEvent,
+  StepConditionGroup,
+} from '../entities/campaign-step.entity';
+import {
+  AUTOMATIC_REPLY_CLASSIFICATIONS,
+  EmailMessage,
+  EmailMessageStatus,
+} from '../entities/email-message.entity';
+import {
+  EmailEventType,
+  EmailTrackingEvent,
+  TrackingTrafficType,
+} from '../entities/email-tracking-event.entity';
+import { MAX_STEP_CONDITIONS, MAX_STEP_CONDITION_DEPTH } from '../constants/campaign.constants';
+
+export const STEP_CONDITION_EVENTS: StepConditionEvent[] = [
+  'SENT',
+  'OPENED',
+  'NOT_OPENED',
+  'CLICKED',
+  'NOT_CLICKED',
+  'CLICKED_LINK',
+  'REPLIED',
+  'NOT_REPLIED',
+];
+
+/** Engagement of one contact with the email(s) of one step */
+interface StepEngagement {
+  opened: boolean;
+  clicked: boolean;
+  replied: boolean;
+  clickedUrls: Set<string>;
+}
+
+export interface FollowUpEvaluationOptions {
+  /** Only count opens and clicks classified as human (campaign.humanEngagementOnly) */
+  humanOnly?: boolean;
+}
+
+export interface FollowUpEvaluation {
+  /** Contacts meeting the conditions */
+  eligibleContactIds: Set<string>;
+  /** Referenced steps that have not created any email yet */
+  pendingStepIds: string[];
+}
+
+/**
+ * Evaluates the send conditions of follow-up steps.
+ * Shared by the new-step and full-campaign processing paths so both select
+ * the same contacts. A condition on a step only matches contacts that were
+ * sent a non-bounced email in that step, so NOT_OPENED never matches a
+ * contact the step skipped.
+ */
+@Injectable()
+export class FollowUpConditionService {
+  private readonly logger = new Logger(FollowUpConditionService.name);
+
+  constructor(
+    @InjectModel(EmailMessage)
+    private readonly emailMessageModel: typeof EmailMessage,
+    @InjectModel(EmailTrackingEvent)
+    private readonly emailTrackingEventModel: typeof EmailTrackingEvent,
+  ) {}
+
+  static isGroup(
+    node: StepCondition | StepConditionGroup,
+  ): node is StepConditionGroup {
+    return Array.isArray((node as StepConditionGroup)?.conditions);
+  }
+
+  /**
+   * Conditions of a step, translating the legacy replyType into its equivalent group
+   * @returns null when the step is sent to every contact
+   */
+  getStepConditions(
+    step: Pick<CampaignStep, 'replyToStepId' | 'replyType' | 'sendConditions'>,
+  ): StepConditionGroup | null {
+    if (step.sendConditions) {
+      return step.sendConditions;
+    }
+    if (!step.replyToStepId || !step.replyType) {
+      return null;
+    }
+
+    const stepId = step.replyToStepId;
+    switch (step.replyType) {
+      case 'CLICKED':
+        return {
+          operator: 'AND',
+          conditions: [
+            { stepId, event: 'CLICKED' },
+            { stepId, event: 'NOT_REPLIED' },
+          ],
+        };
+      case 'OPENED':
+        return {
+          operator: 'AND',
+          conditions: [
+            { stepId, event: 'OPENED' },
+            { stepId, event: 'NOT_CLICKED' },
+            { stepId, event: 'NOT_REPLIED' },
+          ],
+        };
+      case 'SENT':
+        return {
+          operator: 'AND',
+          conditions: [
+            { stepId, event: 'SENT' },
+            { stepId, event: 'NOT_REPLIED' },
+          ],
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * IDs of the steps referenced anywhere in a condition tree
+   */
+  getReferencedStepIds(conditions: StepConditionGroup): string[] {
+    const stepIds = new Set<string>();
+    const visit = (group: StepConditionGroup) => {
+      for (const node of group.conditions) {
+        if (FollowUpConditionService.isGroup(node)) {
+          visit(node);
+        } else {
+          stepIds.add(node.stepId);
+        }
+      }
+    };
+    visit(conditions);
+    return Array.from(stepIds);
+  }
+
+  /**
+   * Copy of a condition tree pointing at other steps, used when steps are copied to another campaign
+   * Steps missing from the map keep their ID
+   */
+  remapStepIds(conditions: StepConditionGroup, stepIdMap: Map<string, string>): StepConditionGroup {
+    return {
+      ...conditions,
+      conditions: conditions.conditions.map((node) =>
+        FollowUpConditionService.isGroup(node)
+          ? this.remapStepIds(node, stepIdMap)
+          : { ...node, stepId: stepIdMap.get(node.stepId) ?? node.stepId },
+      ),
+    };
+  }
+
+  /**
+   * Validate a condition tree against the steps that come before the step it belongs to
+   * @throws BadRequestException describing the first invalid node
+   */
+  validateConditions(conditions: StepConditionGroup, earlierStepIds: string[]): void {
+    if (!conditions || !FollowUpConditionService.isGroup(conditions)) {
+      throw new BadRequestException('sendConditions must contain a conditions array');
+    }
+
+    const allowedStepIds = new Set(earlierStepIds);
+    let ruleCount = 0;
+    const visit = (group: StepConditionGroup, depth: number) => {
+      if (depth > MAX_STEP_CONDITION_DEPTH) {
+        throw new BadRequestException(
+          `Condition groups can be nested at most ${MAX_STEP_CONDITION_DEPTH} levels deep`,
+        );
+      }
+      if (group.operator && group.operator !== 'AND' && group.operator !== 'OR') {
+        throw new BadRequestException(`Invalid group operator "${group.operator}"`);
+      }
+      if (group.conditions.length === 0) {
+        throw new BadRequestException('Condition groups must contain at least one condition');
+      }
+
+      for (const node of group.conditions) {
+        if (FollowUpConditionService.isGroup(node)) {
+          visit(node, depth + 1);
+          continue;
+        }
+        ruleCount++;
+        if (!STEP_CONDITION_EVENTS.includes(node.event)) {
+          throw new BadRequestException(`Unsupported condition event "${node.event}"`);
+        }
+        if (!allowedStepIds.has(node.stepId)) {
+          throw new BadRequestException('Conditions can only reference earlier steps of the same campaign');
+        }
+        if (node.event === 'CLICKED_LINK' && !this.normalizeUrl(node.url)) {
+          throw new BadRequestException('A link URL is required for CLICKED_LINK conditions');
+        }
+      }
+    };
+
+    visit(conditions, 1);
+
+    if (ruleCount > MAX_STEP_CONDITIONS) {
+      throw new BadRequestException(`Steps can have at most ${MAX_STEP_CONDITIONS} conditions`);
+    }
+  }
+
+  /**
+   * Contacts of a campaign that meet a condition tree, based on the emails created so far
+   */
+  async evaluate(
+    campaignId: string,
+    conditions: StepConditionGroup,
+    options: FollowUpEvaluationOptions = {},
+  ): Promise<FollowUpEvaluation> {
+    const stepIds = this.getReferencedStepIds(conditions);
+
+    const emails = await this.emailMessageModel.findAll({
+      where: { campaignId, campaignStepId: { [Op.in]: stepIds } },
+      attributes: [
+        'contactId',
+        'campaignStepId',
+        'status',
+        'openedAt',
+        'clickCount',
+        'humanOpenedAt',
+        'humanClickedAt',
+        'replyCount',
+        'replyClassification',
+      ],
+      raw: true,
+    });
+
+    const stepsWithEmails = new Set<string>();
+    const contactIds = new Set<string>();
+    // `${stepId}:${contactId}` -> engagement, only for non-bounced emails
+    const engagement = new Map<string, StepEngagement>();
+
+    for (const email of emails) {
+      stepsWithEmails.add(email.campaignStepId);
+      if (email.status === EmailMessageStatus.BOUNCED) {
+        continue;
+      }
+      contactIds.add(email.contactId);
+
+      const key = `${email.campaignStepId}:${email.contactId}`;
+      const current = engagement.get(key) || { opened: false, clicked: false, replied: false, clickedUrls: new Set<string>() };
+      current.opened = current.opened || !!(options.humanOnly ? email.humanOpenedAt : email.openedAt);
+      current.clicked = current.clicked || (options.humanOnly ? !!email.humanClickedAt : (email.clickCount || 0) > 0);
+      // Out-of-office and other automatic replies leave the contact in the sequence
+      current.replied = current.replied || (
+        (email.replyCount || 0) > 0 &&
+        !(email.replyClassification && AUTOMATIC_REPLY_CLASSIFICATIONS.includes(email.replyClassification))
+      );
+      engagement.set(key, current);
+    }
+
+    await this.loadClickedUrls(campaignId, conditions, engagement, !!options.humanOnly);
+
+    const eligibleContactIds = new Set<string>();
+    for (const contactId of contactIds) {
+      if (this.matchesGroup(conditions, contactId, engagement)) {
+        eligibleContactIds.add(contactId);
+      }
+    }
+
+    const pendingStepIds = stepIds.filter((stepId) => !stepsWithEmails.has(stepId));
+
+    this.logger.debug(
+      `Evaluated follow-up conditions on ${stepIds.length} step(s) of campaign ${campaignId}: ` +
+      `${eligibleContactIds.size}/${contactIds.size} contact(s) eligible`,
+    );
+
+    return { eligibleContactIds, pendingStepIds };
+  }
+
+  /**
+   * Attach clicked links to the engagement map for the steps used by CLICKED_LINK conditions
+   */
+  private async loadClickedUrls(
+    campaignId: string,
+    conditions: StepConditionGroup,
+    engagement: Map<string, StepEngagement>,
+    humanOnly: boolean,
+  ): Promise<void> {
+    const linkStepIds = new Set<string>();
+    const visit = (group: StepConditionGroup) => {
+      for (const node of group.conditions) {
+        if (FollowUpConditionService.isGroup(node)) {
+          visit(node);
+        } else if (node.event === 'CLICKED_LINK') {
+          linkStepIds.add(node.stepId);
+        }
+      }
+    };
+    visit(conditions);
+
+    if (linkStepIds.size === 0) {
+      return;
+    }
+
+    const clicks = await this.emailTrackingEventModel.findAll({
+      where: {
+        eventType: EmailEventType.CLICKED,
+        ...(humanOnly && { trafficType: TrackingTrafficType.HUMAN }),
+      },
+      attributes: ['clickedUrl'],
+      include: [
+        {
+          model: EmailMessage,
+          attributes: ['contactId', 'campaignStepId'],
+          where: { campaignId, campaignStepId: { [Op.in]: Array.from(linkStepIds) } },
+          required: true,
+        },
+      ],
+    });
+
+    for (const click of clicks) {
+      const url = this.normalizeUrl(click.clickedUrl);
+      const email = click.emailMessage;
+      const current = email && engagement.get(`${email.campaignStepId}:${email.contactId}`);
+      if (url && current) {
+        current.clickedUrls.add(url);
+      }
+    }
+  }
+
+  private matchesGroup(
+    group: StepConditionGroup,
+    contactId: string,
+    engagement: Map<string, StepEngagement>,
+  ): boolean {
+    const matches = (node: StepCondition | StepConditionGroup) =>
+      FollowUpConditionService.isGroup(node)
+        ? this.matchesGroup(node, contactId, engagement)
+        : this.matchesCondition(node, engagement.get(`${node.stepId}:${contactId}`));
+
+    return group.operator === 'OR' ? group.conditions.some(matches) : group.conditions.every(matches);
+  }
+
+  private matchesCondition(condition: StepCondition, stepEngagement: StepEngagement | undefined): boolean {
+    if (!stepEngagement) {
+      return false;
+    }
+
+    switch (condition.event) {
+      case 'SENT':
+        return true;
+      case 'OPENED':
+        return stepEngagement.opened;
+      case 'NOT_OPENED':
+        return !stepEngagement.opened;
+      case 'CLICKED':
+        return stepEngagement.clicked;
+      case 'NOT_CLICKED':
+        return !stepEngagement.clicked;
+      case 'CLICKED_LINK':
+        return stepEngagement.clickedUrls.has(this.normalizeUrl(condition.url));
+      case 'REPLIED':
+        return stepEngagement.replied;
+      case 'NOT_REPLIED':
+        return !stepEngagement.replied;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Compare links case-insensitively and ignoring a trailing slash
+   */
+  private normalizeUrl(url: string | null | undefined): string {
+    return (url || '').trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
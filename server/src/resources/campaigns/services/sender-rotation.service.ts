@@ -0,0 +1,314 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Sequelize, Transaction } from 'sequelize';
+import {
+  Campaign,
+  CampaignSender,
+  SenderRotationStrategy,
+} from '../entities/campaign.entity';
+import { EmailMessage } from '../entities/email-message.entity';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+  MailboxProvider,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { QuotaManagementService } from 'src/common/services/quota-management.service';
+import { MailboxRampUpProgress } from 'src/common/utils/mailbox-ramp-up.util';
+
+/**
+ * Multi-mailbox sender rotation
+ * Assigns every campaign contact to one mailbox of the campaign's sender pool.
+ * A contact keeps the mailbox that sent its first email, so follow-ups stay in the same thread.
+ * Emails are attributed to a mailbox through EmailMessage.sentFromEmail.
+ */
+@Injectable()
+export class SenderRotationService {
+  private readonly logger = new Logger(SenderRotationService.name);
+
+  constructor(
+    @InjectModel(GmailOAuthToken)
+    private readonly gmailTokenModel: typeof GmailOAuthToken,
+    @InjectModel(EmailMessage)
+    private readonly emailMessageModel: typeof EmailMessage,
+    private readonly quotaManagementService: QuotaManagementService,
+  ) {}
+
+  /**
+   * Token IDs of the campaign's sender pool, or undefined when the campaign
+   * sends from its creator's mailbox only
+   */
+  getPoolTokenIds(campaign: Pick<Campaign, 'senderPool'>): string[] | undefined {
+    if (!campaign.senderPool || campaign.senderPool.length === 0) {
+      return undefined;
+    }
+    return campaign.senderPool.map((sender) => sender.gmailTokenId);
+  }
+
+  /**
+   * Connected mailboxes (Gmail and SMTP) of an organization that can join a sender pool,
+   * with the ramp-up progress of mailboxes that are still warming up
+   */
+  async listAvailableSenders(
+    organizationId: string,
+  ): Promise<Array<ReturnType<GmailOAuthToken['toJSON']> & { rampUpProgress: MailboxRampUpProgress | null }>> {
+    const tokens = await this.gmailTokenModel.findAll({
+      where: { organizationId, status: GmailTokenStatus.ACTIVE },
+      attributes: ['id', 'userId', 'email', 'provider', 'status', 'dailyQuotaUsed', 'quotaResetAt', 'rampUp', 'lastUsedAt'],
+      order: [['email', 'ASC']],
+    });
+
+    return Promise.all(
+      tokens.map(async (token) => ({
+        ...token.toJSON(),
+        rampUpProgress: await this.quotaManagementService.getMailboxRampUpProgress(token),
+      })),
+    );
+  }
+
+  /**
+   * Validates that every pool entry references an active mailbox of the organization
+   * @throws BadRequestException on unknown, inactive or duplicate mailboxes
+   */
+  async validateSenderPool(
+    organizationId: string,
+    senderPool: CampaignSender[] | null | undefined,
+    transaction?: Transaction,
+  ): Promise<void> {
+    if (!senderPool || senderPool.length === 0) {
+      return;
+    }
+
+    const tokenIds = senderPool.map((sender) => sender.gmailTokenId);
+    if (new Set(tokenIds).size !== tokenIds.length) {
+      throw new BadRequestException('Sender pool contains the same mailbox more than once');
+    }
+
+    const tokens = await this.gmailTokenModel.findAll({
+      where: {
+        id: { [Op.in]: tokenIds },
+        organizationId,
+        status: GmailTokenStatus.ACTIVE,
+      },
+      attributes: ['id'],
+      transaction,
+    });
+
+    const found = new Set(tokens.map((token) => token.id));
+    const missing = tokenIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Sender pool mailboxes not found or not connected in this organization: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Active mailboxes a campaign can send from, in pool order
+   * Falls back to the creator's Gmail mailbox when no pool is configured or no pool mailbox is active
+   */
+  async getActiveSenders(campaign: Campaign): Promise<GmailOAuthToken[]> {
+    const tokenIds = this.getPoolTokenIds(campaign);
+
+    if (tokenIds) {
+      const tokens = await this.gmailTokenModel.findAll({
+        where: {
+          id: { [Op.in]: tokenIds },
+          organizationId: campaign.organizationId,
+          status: GmailTokenStatus.ACTIVE,
+        },
+      });
+
+      if (tokens.length > 0) {
+        // Keep pool order so assignment is deterministic
+        const byId = new Map(tokens.map((token) => [token.id, token]));
+        return tokenIds
+          .map((id) => byId.get(id))
+          .filter((token): token is GmailOAuthToken => !!token);
+      }
+
+      this.logger.warn(
+        `No active mailbox left in sender pool of campaign ${campaign.id}, falling back to creator's mailbox`,
+      );
+    }
+
+    const token = await this.gmailTokenModel.findOne({
+      where: { userId: campaign.createdBy, provider: MailboxProvider.GMAIL, status: GmailTokenStatus.ACTIVE },
+    });
+
+    if (!token) {
+      throw new Error(`No active Gmail token found for user ${campaign.createdBy}`);
+    }
+
+    if (!token.email) {
+      throw new Error(`Gmail token email is missing for user ${campaign.createdBy}`);
+    }
+
+    return [token];
+  }
+
+  /**
+   * Assign a sending mailbox to each contact
+   * - Contacts that already received an email in this campaign keep that mailbox (sticky)
+   * - New contacts go to the mailbox with the lowest assigned/weight ratio, which is plain
+   *   round-robin when every weight is 1, among the mailboxes with quota left today
+   * @returns Map of contactId to the mailbox that must send its email
+   */
+  async assignSenders(
+    campaign: Campaign,
+    senders: GmailOAuthToken[],
+    contactIds: string[],
+  ): Promise<Map<string, GmailOAuthToken>> {
+    const assignments = new Map<string, GmailOAuthToken>();
+    if (contactIds.length === 0 || senders.length === 0) {
+      return assignments;
+    }
+
+    // Single-mailbox campaigns skip the sticky lookup
+    if (senders.length === 1 && !this.getPoolTokenIds(campaign)) {
+      contactIds.forEach((contactId) => assignments.set(contactId, senders[0]));
+      return assignments;
+    }
+
+    // 1. Sticky: mailbox of the first email each contact received in this campaign
+    const previousEmails = await this.emailMessageModel.findAll({
+      where: {
+        campaignId: campaign.id,
+        contactId: { [Op.in]: contactIds },
+      },
+      attributes: ['contactId', 'sentFromEmail', 'createdAt'],
+      order: [['createdAt', 'ASC']],
+      raw: true,
+    });
+
+    const firstSenderByContact = new Map<string, string>();
+    for (const email of previousEmails) {
+      if (!firstSenderByContact.has(email.contactId) && email.sentFromEmail) {
+        firstSenderByContact.set(email.contactId, email.sentFromEmail);
+      }
+    }
+
+    const sendersByEmail = new Map(senders.map((sender) => [sender.email, sender]));
+
+    // Mailboxes removed from the pool but still connected keep their existing threads
+    const outsidePoolEmails = [...new Set(firstSenderByContact.values())].filter(
+      (email) => !sendersByEmail.has(email),
+    );
+    const outsidePoolSenders = new Map<string, GmailOAuthToken>();
+    if (outsidePoolEmails.length > 0) {
+      const tokens = await this.gmailTokenModel.findAll({
+        where: {
+          email: { [Op.in]: outsidePoolEmails },
+          organizationId: campaign.organizationId,
+          status: GmailTokenStatus.ACTIVE,
+        },
+      });
+      tokens.forEach((token) => outsidePoolSenders.set(token.email, token));
+    }
+
+    // 2. Current load per mailbox (distinct contacts already assigned in this campaign)
+    const assignedCounts = await this.getAssignedContactCounts(campaign.id);
+    const weights = this.getWeights(campaign, senders);
+    const remainingQuota = await this.getRemainingQuota(senders);
+
+    for (const contactId of contactIds) {
+      const previousSender = firstSenderByContact.get(contactId);
+      if (previousSender) {
+        const sticky = sendersByEmail.get(previousSender) || outsidePoolSenders.get(previousSender);
+        if (sticky) {
+          assignments.set(contactId, sticky);
+          if (remainingQuota.has(sticky.email)) {
+            remainingQuota.set(sticky.email, remainingQuota.get(sticky.email) - 1);
+          }
+          continue;
+        }
+        this.logger.warn(
+          `Mailbox ${previousSender} for contact ${contactId} is no longer connected, rotating to a new sender`,
+        );
+      }
+
+      const sender = SenderRotationService.pickSender(senders, weights, assignedCounts, remainingQuota);
+      assignedCounts.set(sender.email, (assignedCounts.get(sender.email) ?? 0) + 1);
+      remainingQuota.set(sender.email, (remainingQuota.get(sender.email) ?? 0) - 1);
+      assignments.set(contactId, sender);
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Pick the mailbox with the lowest (assigned + 1) / weight ratio; ties go to pool order
+   * Mailboxes out of today's quota are skipped unless the whole pool is, then the send
+   * waits for the quota reset
+   */
+  static pickSender(
+    senders: GmailOAuthToken[],
+    weights: Map<string, number>,
+    assignedCounts: Map<string, number>,
+    remainingQuota?: Map<string, number>,
+  ): GmailOAuthToken {
+    const withQuota = remainingQuota
+      ? senders.filter((sender) => (remainingQuota.get(sender.email) ?? 0) > 0)
+      : senders;
+    const candidates = withQuota.length > 0 ? withQuota : senders;
+
+    let best = candidates[0];
+    let bestScore = Number.POSITIVE_INFINITY;
+
+    for (const sender of candidates) {
+      const weight = weights.get(sender.id) ?? 1;
+      const score = ((assignedCounts.get(sender.email) ?? 0) + 1) / weight;
+      if (score < bestScore) {
+        best = sender;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Emails each mailbox can still send today: its ramped daily limit minus today's usage
+   */
+  private async getRemainingQuota(senders: GmailOAuthToken[]): Promise<Map<string, number>> {
+    const now = new Date();
+    const remaining = await Promise.all(
+      senders.map(async (sender) => {
+        const dailyLimit = await this.quotaManagementService.getMailboxDailyLimit(sender);
+        const used = now < new Date(sender.quotaResetAt) ? sender.dailyQuotaUsed || 0 : 0;
+        return [sender.email, Math.max(0, dailyLimit - used)] as const;
+      }),
+    );
+    return new Map(remaining);
+  }
+
+  private getWeights(campaign: Campaign, senders: GmailOAuthToken[]): Map<string, number> {
+    const weights = new Map<string, number>();
+    const poolWeights = new Map(
+      (campaign.senderPool || []).map((sender) => [sender.gmailTokenId, sender.weight ?? 1]),
+    );
+
+    for (const sender of senders) {
+      const weight =
+        campaign.senderRotation === SenderRotationStrategy.WEIGHTED
+          ? poolWeights.get(sender.id) ?? 1
+          : 1;
+      weights.set(sender.id, Math.max(1, weight));
+    }
+
+    return weights;
+  }
+
+  private async getAssignedContactCounts(campaignId: string): Promise<Map<string, number>> {
+    const rows = (await this.emailMessageModel.findAll({
+      where: { campaignId },
+      attributes: [
+        'sentFromEmail',
+        [Sequelize.fn('COUNT', Sequelize.fn('DISTINCT', Sequelize.col('contact_id'))), 'count'],
+      ],
+      group: ['sentFromEmail'],
+      raw: true,
+    })) as unknown as Array<{ sentFromEmail: string; count: number | string }>;
+
+    return new Map(rows.map((row) => [row.sentFromEmail, Number(row.count) || 0]));
+  }
+}
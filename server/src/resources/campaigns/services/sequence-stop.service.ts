@@ -0,0 +1,190 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, WhereOptions } from 'sequelize';
+import {
+  AUTOMATIC_REPLY_CLASSIFICATIONS,
+  EmailMessage,
+  EmailSkipReason,
+  ReplyClassification,
+} from '../entities/email-message.entity';
+import { Campaign } from '../entities/campaign.entity';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+
+/** Which replies from the contact stop their sequences in other campaigns */
+export type ContactStopRule = 'NONE' | 'ANY_REPLY';
+
+/** Which replies from a colleague (same `companyDomain`) stop the contact's sequences */
+export type CompanyStopRule = 'NONE' | 'POSITIVE_REPLY' | 'ANY_REPLY';
+
+/**
+ * Organization-wide stop rules, stored under `sequenceStopRules` in the organization settings
+ */
+export interface SequenceStopRules {
+  contact: ContactStopRule;
+  company: CompanyStopRule;
+}
+
+export const SEQUENCE_STOP_RULES_SETTING = 'sequenceStopRules';
+
+export const DEFAULT_SEQUENCE_STOP_RULES: SequenceStopRules = {
+  contact: 'NONE',
+  company: 'NONE',
+};
+
+const CONTACT_STOP_RULES: ContactStopRule[] = ['NONE', 'ANY_REPLY'];
+const COMPANY_STOP_RULES: CompanyStopRule[] = ['NONE', 'POSITIVE_REPLY', 'ANY_REPLY'];
+
+export interface SequenceStopMatch {
+  skipReason: EmailSkipReason;
+  message: string;
+}
+
+/**
+ * Read the stop rules from organization settings, unknown values fall back to NONE
+ */
+export function getSequenceStopRules(settings: Record<string, any> | null | undefined): SequenceStopRules {
+  const rules = settings?.[SEQUENCE_STOP_RULES_SETTING] || {};
+  return {
+    contact: CONTACT_STOP_RULES.includes(rules.contact) ? rules.contact : DEFAULT_SEQUENCE_STOP_RULES.contact,
+    company: COMPANY_STOP_RULES.includes(rules.company) ? rules.company : DEFAULT_SEQUENCE_STOP_RULES.company,
+  };
+}
+
+/**
+ * Validate stop rules sent to the organization settings endpoint
+ * @throws BadRequestException on unknown keys or values
+ */
+export function validateSequenceStopRules(rules: unknown): SequenceStopRules {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) {
+    throw new BadRequestException(`${SEQUENCE_STOP_RULES_SETTING} must be an object`);
+  }
+  const { contact, company, ...rest } = rules as Record<string, any>;
+  if (Object.keys(rest).length > 0) {
+    throw new BadRequestException(`Unknown ${SEQUENCE_STOP_RULES_SETTING} keys: ${Object.keys(rest).join(', ')}`);
+  }
+  if (contact !== undefined && !CONTACT_STOP_RULES.includes(contact)) {
+    throw new BadRequestException(`${SEQUENCE_STOP_RULES_SETTING}.contact must be one of ${CONTACT_STOP_RULES.join(', ')}`);
+  }
+  if (company !== undefined && !COMPANY_STOP_RULES.includes(company)) {
+    throw new BadRequestException(`${SEQUENCE_STOP_RULES_SETTING}.company must be one of ${COMPANY_STOP_RULES.join(', ')}`);
+  }
+  return { ...DEFAULT_SEQUENCE_STOP_RULES, ...(contact && { contact }), ...(company && { company }) };
+}
+
+/**
+ * Enforces the organization's stop rules right before each send.
+ * Only replies received after the contact's sequence in the campaign started
+ * count, so enrolling someone who replied earlier stays a deliberate choice.
+ * The contact rule looks at other campaigns only, within a campaign the
+ * steps' send conditions decide what happens after a reply. Automatic replies
+ * (out of office, auto-responders) never stop a sequence.
+ */
+@Injectable()
+export class SequenceStopService {
+  constructor(
+    @InjectModel(EmailMessage)
+    private readonly emailMessageModel: typeof EmailMessage,
+    @InjectModel(Organization)
+    private readonly organizationModel: typeof Organization,
+  ) {}
+
+  /**
+   * @returns why the email must not be sent, or null when no rule applies
+   */
+  async findStopReason(
+    emailMessage: Pick<EmailMessage, 'id' | 'organizationId' | 'campaignId' | 'contactId' | 'createdAt'>,
+    contact: Pick<Contact, 'id' | 'companyDomain'>,
+  ): Promise<SequenceStopMatch | null> {
+    const organization = await this.organizationModel.findByPk(emailMessage.organizationId, {
+      attributes: ['id', 'settings'],
+    });
+    const rules = getSequenceStopRules(organization?.settings as Record<string, any> | null);
+    if (rules.contact === 'NONE' && rules.company === 'NONE') {
+      return null;
+    }
+
+    const sequenceStartedAt = await this.getSequenceStart(emailMessage);
+
+    if (rules.contact === 'ANY_REPLY') {
+      const reply = await this.emailMessageModel.findOne({
+        where: {
+          ...this.replyWhere(emailMessage.organizationId, sequenceStartedAt, false),
+          contactId: contact.id,
+          campaignId: { [Op.ne]: emailMessage.campaignId },
+        } as WhereOptions<EmailMessage>,
+        include: [{ model: Campaign, attributes: ['id', 'name'] }],
+        order: [['repliedAt', 'ASC']],
+      });
+      if (reply) {
+        return {
+          skipReason: EmailSkipReason.CONTACT_REPLIED,
+          message: `Contact replied to campaign "${reply.campaign?.name ?? reply.campaignId}"`,
+        };
+      }
+    }
+
+    const companyDomain = contact.companyDomain?.trim().toLowerCase();
+    if (rules.company !== 'NONE' && companyDomain) {
+      const reply = await this.emailMessageModel.findOne({
+        where: {
+          ...this.replyWhere(emailMessage.organizationId, sequenceStartedAt, rules.company === 'POSITIVE_REPLY'),
+          contactId: { [Op.ne]: contact.id },
+        } as WhereOptions<EmailMessage>,
+        include: [
+          {
+            model: Contact,
+            attributes: ['id', 'email'],
+            where: { companyDomain },
+            required: true,
+          },
+          { model: Campaign, attributes: ['id', 'name'] },
+        ],
+        order: [['repliedAt', 'ASC']],
+      });
+      if (reply) {
+        return {
+          skipReason: EmailSkipReason.COMPANY_REPLIED,
+          message:
+            `${reply.contact?.email ?? 'A contact'} at ${companyDomain} replied` +
+            `${rules.company === 'POSITIVE_REPLY' ? ' with interest' : ''}` +
+            ` to campaign "${reply.campaign?.name ?? reply.campaignId}"`,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * When the campaign queued its first email for the contact
+   */
+  private async getSequenceStart(
+    emailMessage: Pick<EmailMessage, 'campaignId' | 'contactId' | 'createdAt'>,
+  ): Promise<Date> {
+    const first = await this.emailMessageModel.findOne({
+      where: { campaignId: emailMessage.campaignId, contactId: emailMessage.contactId },
+      attributes: ['id', 'createdAt'],
+      order: [['createdAt', 'ASC']],
+    });
+    const startedAt = first?.createdAt ?? emailMessage.createdAt;
+    return startedAt ? new Date(startedAt) : new Date();
+  }
+
+  private replyWhere(organizationId: string, since: Date, positiveOnly: boolean): WhereOptions<EmailMessage> {
+    const where: any = {
+      organizationId,
+      replyCount: { [Op.gt]: 0 },
+      repliedAt: { [Op.gte]: since },
+    };
+    if (positiveOnly) {
+      where.replyClassification = ReplyClassification.INTERESTED;
+    } else {
+      where[Op.or] = [
+        { replyClassification: null },
+        { replyClassification: { [Op.notIn]: AUTOMATIC_REPLY_CLASSIFICATIONS } },
+      ];
+    }
+    return where;
+  }
+}
@@ -0,0 +1,206 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import {
+  AbTestWinnerMetric,
+  CampaignStep,
+  StepAbTest,
+  StepVariant,
+} from '../entities/campaign-step.entity';
+import { EmailTemplate } from 'src/resources/email-templates/entities/email-template.entity';
+import {
+  EmailMessagesRepository,
+  VariantEmailAggregate,
+} from '../repositories/email-messages.repository';
+
+export interface VariantResult {
+  variantId: string;
+  templateId: string;
+  subject: string | null;
+  weight: number;
+  total: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+  isWinner: boolean;
+}
+
+/** Next variant of a weighted split */
+export type VariantPicker = () => StepVariant;
+
+const METRIC_FIELDS: Record<AbTestWinnerMetric, 'openRate' | 'clickRate' | 'replyRate'> = {
+  OPEN_RATE: 'openRate',
+  CLICK_RATE: 'clickRate',
+  REPLY_RATE: 'replyRate',
+};
+
+/**
+ * A/B variants of campaign steps
+ * Splits a step's contacts across its variants and, in test mode, picks the
+ * winning variant from EmailMessage aggregates once the test period is over.
+ */
+@Injectable()
+export class StepVariantService {
+  private readonly logger = new Logger(StepVariantService.name);
+
+  constructor(
+    @InjectModel(EmailTemplate)
+    private readonly emailTemplateModel: typeof EmailTemplate,
+    private readonly emailMessagesRepository: EmailMessagesRepository,
+  ) {}
+
+  /**
+   * Variants to send for a step: all of them, only the winner once a test is
+   * decided, or null when the step has no variants
+   */
+  getActiveVariants(step: Pick<CampaignStep, 'variants' | 'abTest'>): StepVariant[] | null {
+    if (!step.variants || step.variants.length === 0) {
+      return null;
+    }
+
+    const winnerId = step.abTest?.winnerVariantId;
+    if (winnerId) {
+      const winner = step.variants.find((variant) => variant.id === winnerId);
+      if (winner) {
+        return [winner];
+      }
+    }
+    return step.variants;
+  }
+
+  /**
+   * Whether the step is still sending its test sample and waiting for a winner
+   */
+  isTestPending(step: Pick<CampaignStep, 'variants' | 'abTest'>): boolean {
+    return !!step.abTest && !step.abTest.winnerVariantId && (step.variants?.length ?? 0) > 1;
+  }
+
+  /**
+   * Contacts receiving the test sample, at least one per variant
+   */
+  getTestSampleSize(totalContacts: number, step: Pick<CampaignStep, 'variants' | 'abTest'>): number {
+    if (!step.abTest) {
+      return totalContacts;
+    }
+    const sample = Math.ceil((totalContacts * step.abTest.testPercentage) / 100);
+    return Math.min(totalContacts, Math.max(sample, step.variants?.length ?? 1));
+  }
+
+  /**
+   * Deterministic weighted split (smooth weighted round robin):
+   * every window of total-weight picks contains each variant exactly weight times
+   */
+  createPicker(variants: StepVariant[]): VariantPicker {
+    const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const current = variants.map(() => 0);
+
+    return () => {
+      let best = 0;
+      for (let i = 0; i < variants.length; i++) {
+        current[i] += variants[i].weight;
+        if (current[i] > current[best]) {
+          best = i;
+        }
+      }
+      current[best] -= totalWeight;
+      return variants[best];
+    };
+  }
+
+  /**
+   * Templates of the given variants keyed by template ID
+   */
+  async loadTemplates(variants: StepVariant[]): Promise<Map<string, EmailTemplate>> {
+    const templateIds = Array.from(new Set(variants.map((variant) => variant.templateId)));
+    const templates = await this.emailTemplateModel.findAll({
+      where: { id: { [Op.in]: templateIds } },
+    });
+    return new Map(templates.map((template) => [template.id, template]));
+  }
+
+  /**
+   * Per-variant counts and rates of a step. Rates are relative to sent emails.
+   */
+  async getVariantResults(
+    campaignId: string,
+    step: Pick<CampaignStep, 'id' | 'variants' | 'abTest'>,
+  ): Promise<VariantResult[]> {
+    if (!step.variants || step.variants.length === 0) {
+      return [];
+    }
+
+    const aggregates = await this.emailMessagesRepository.aggregateByVariant(campaignId, step.id);
+    return this.buildResults(step.variants, aggregates, step.abTest?.winnerVariantId ?? null);
+  }
+
+  buildResults(
+    variants: StepVariant[],
+    aggregates: VariantEmailAggregate[],
+    winnerVariantId: string | null,
+  ): VariantResult[] {
+    const rate = (count: number, sent: number) => (sent > 0 ? Math.round((count / sent) * 10000) / 100 : 0);
+
+    return variants.map((variant) => {
+      const aggregate = aggregates.find((row) => row.variantId === variant.id);
+      const sent = aggregate?.sent ?? 0;
+      return {
+        variantId: variant.id,
+        templateId: variant.templateId,
+        subject: variant.subject ?? null,
+        weight: variant.weight,
+        total: aggregate?.total ?? 0,
+        sent,
+        opened: aggregate?.opened ?? 0,
+        clicked: aggregate?.clicked ?? 0,
+        replied: aggregate?.replied ?? 0,
+        bounced: aggregate?.bounced ?? 0,
+        openRate: rate(aggregate?.opened ?? 0, sent),
+        clickRate: rate(aggregate?.clicked ?? 0, sent),
+        replyRate: rate(aggregate?.replied ?? 0, sent),
+        isWinner: variant.id === winnerVariantId,
+      };
+    });
+  }
+
+  /**
+   * Best variant for a metric; ties go to the variant with more sent emails, then to the earlier one
+   */
+  chooseWinner(results: VariantResult[], metric: AbTestWinnerMetric): VariantResult {
+    const field = METRIC_FIELDS[metric];
+    return results.reduce((best, result) => {
+      if (result[field] > best[field]) return result;
+      if (result[field] === best[field] && result.sent > best.sent) return result;
+      return best;
+    });
+  }
+
+  /**
+   * Pick and store the winner of a step's A/B test
+   * @returns the winning variant
+   */
+  async decideWinner(campaignId: string, step: CampaignStep): Promise<StepVariant> {
+    const abTest = step.abTest as StepAbTest;
+    const results = await this.getVariantResults(campaignId, step);
+    const winner = this.chooseWinner(results, abTest.winnerMetric);
+
+    await step.update({
+      abTest: {
+        ...abTest,
+        winnerVariantId: winner.variantId,
+        decidedAt: new Date().toISOString(),
+      },
+    });
+
+    this.logger.log(
+      `A/B test of step ${step.id} decided by ${abTest.winnerMetric}: variant ${winner.variantId} ` +
+      `(${results.map((r) => `${r.variantId}: ${r[METRIC_FIELDS[abTest.winnerMetric]]}% of ${r.sent}`).join(', ')})`,
+    );
+
+    return step.variants!.find((variant) => variant.id === winner.variantId)!;
+  }
+}
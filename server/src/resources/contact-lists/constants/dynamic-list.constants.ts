@@ -0,0 +1,98 @@
+import { FilterOperator } from '../dto/filter-conditions.interface';
+
+/**
+ * Dynamic (smart) list constants
+ * Whitelists the contact attributes a filter condition may reference
+ */
+
+export const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+/** Maximum nesting depth of AND/OR groups */
+export const MAX_FILTER_DEPTH = 5;
+
+/** Maximum number of leaf conditions across all groups */
+export const MAX_FILTER_CONDITIONS = 50;
+
+/** Number of sample contacts returned by the preview endpoint */
+export const PREVIEW_SAMPLE_SIZE = 5;
+
+export const FILTERABLE_STRING_FIELDS = [
+  'email',
+  'firstName',
+  'lastName',
+  'company',
+  'jobTitle',
+  'phone',
+  'source',
+  'status',
+  'timezone',
+  'emailVerificationStatus',
+  'outcome',
+  'creationSource',
+  'department',
+  'industry',
+  'experience',
+  'city',
+  'state',
+  'country',
+  'companyDomain',
+  'companyIndustry',
+  'companySize',
+  'companyRevenue',
+] as const;
+
+export const FILTERABLE_NUMBER_FIELDS = [
+  'bounceCount',
+  'complaintCount',
+  'numberOfOpens',
+  'numberOfClicks',
+] as const;
+
+export const FILTERABLE_BOOLEAN_FIELDS = ['subscribed'] as const;
+
+export const FILTERABLE_DATE_FIELDS = [
+  'createdAt',
+  'subscribedAt',
+  'unsubscribedAt',
+  'lastEmailSentAt',
+  'lastEmailOpenedAt',
+  'lastEmailClickedAt',
+  'lastContactedAt',
+  'lastVerifiedAt',
+  'recentlyOpenDate',
+  'recentlyClickDate',
+  'recentlyReplyDate',
+] as const;
+
+export const FILTER_OPERATORS: FilterOperator[] = [
+  'equals',
+  'notEquals',
+  'contains',
+  'notContains',
+  'startsWith',
+  'endsWith',
+  'greaterThan',
+  'lessThan',
+  'in',
+  'notIn',
+  'isEmpty',
+  'isNotEmpty',
+  'before',
+  'after',
+  'inLastDays',
+  'notInLastDays',
+];
+
+/** Operators that only make sense on date attributes */
+export const DATE_ONLY_OPERATORS: FilterOperator[] = [
+  'before',
+  'after',
+  'inLastDays',
+  'notInLastDays',
+];
+
+/** Operators that do not take a value */
+export const VALUELESS_OPERATORS: FilterOperator[] = ['isEmpty', 'isNotEmpty'];
+
+/** Custom field keys are interpolated into a JSON path, so keep them simple */
+export const CUSTOM_FIELD_KEY_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
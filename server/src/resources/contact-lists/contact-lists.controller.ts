@@ -14,6 +14,7 @@ import { UpdateContactListDto } from './dto/update-contact-list.dto';
 import { ContactListQueryDto } from './dto/contact-list-query.dto';
 import { AddContactsToListDto, RemoveContactsFromListDto } from './dto/add-contacts-to-list.dto';
 import { ListContactsQueryDto } from './dto/list-contacts-query.dto';
+import { PreviewFilterConditionsDto } from './dto/preview-filter-conditions.dto';
 
 @Controller()
 export class ContactListsController {
@@ -24,6 +25,11 @@ export class ContactListsController {
     return this.contactListsService.createContactList(createContactListDto);
   }
 
+  @Post('preview-count')
+  previewCount(@Body() previewDto: PreviewFilterConditionsDto) {
+    return this.contactListsService.previewFilterConditions(previewDto);
+  }
+
   @Get()
   findAll(@Query() query: ContactListQueryDto) {
     return this.contactListsService.findAll(query);
@@ -39,6 +45,16 @@ export class ContactListsController {
     return this.contactListsService.restoreContactList(id);
   }
 
+  @Post(':id/refresh')
+  refresh(@Param('id') id: string) {
+    return this.contactListsService.refreshDynamicList(id);
+  }
+
+  @Post(':id/freeze')
+  freeze(@Param('id') id: string) {
+    return this.contactListsService.freezeContactList(id);
+  }
+
   @Post(':id/contacts')
   addContacts(
     @Param('id') id: string,
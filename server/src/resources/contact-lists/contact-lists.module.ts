@@ -7,13 +7,14 @@ import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
 import { ContactListsController } from './contact-lists.controller';
 import { ContactListsService } from './contact-lists.service';
 import { ContactListsRepository } from './contact-lists.repository';
+import { DynamicListService } from './services/dynamic-list.service';
 
 @Module({
   imports: [
     SequelizeModule.forFeature([ContactList, ContactListMember, Contact, Campaign]),
   ],
   controllers: [ContactListsController],
-  providers: [ContactListsService, ContactListsRepository],
-  exports: [ContactListsService, ContactListsRepository],
+  providers: [ContactListsService, ContactListsRepository, DynamicListService],
+  exports: [ContactListsService, ContactListsRepository, DynamicListService],
 })
 export class ContactListsModule {}
@@ -21,6 +21,8 @@ import { TransactionManager } from 'src/common/services/transaction-manager.serv
 import { ContactListType } from './enums/contact-list-type.enum';
 import { UserRole } from 'src/common/enums/roles.enum';
 import { WhereOptions } from 'sequelize';
+import { DynamicListService } from './services/dynamic-list.service';
+import { PreviewFilterConditionsDto } from './dto/preview-filter-conditions.dto';
 
 @Injectable()
 export class ContactListsService extends BaseService<ContactList> {
@@ -32,6 +34,7 @@ export class ContactListsService extends BaseService<ContactList> {
     private readonly campaignModel: typeof Campaign,
     @InjectModel(ContactListMember)
     private readonly contactListMemberModel: typeof ContactListMember,
+    private readonly dynamicListService: DynamicListService,
   ) {
     super(contactListsRepository);
   }
@@ -54,6 +57,10 @@ export class ContactListsService extends BaseService<ContactList> {
         );
       }
 
+      if (createContactListDto.isDynamic) {
+        this.validateDynamicList(createContactListDto.filterConditions);
+      }
+
       const listData = {
         ...createContactListDto,
         contactCount: 0,
@@ -61,11 +68,19 @@ export class ContactListsService extends BaseService<ContactList> {
       };
 
       const currentUserId = this.userContextService.getCurrentUserId();
-      return await this.contactListsRepository.create(
+      const list = await this.contactListsRepository.create(
         listData,
         transaction,
         currentUserId,
       );
+
+      if (!list.isDynamic) {
+        return list;
+      }
+
+      // Dynamic lists get their initial membership straight away
+      await this.dynamicListService.refreshMembership(list.id, transaction);
+      return (await this.contactListsRepository.findById(list.id, transaction)) as ContactList;
     });
   }
 
@@ -148,6 +163,17 @@ export class ContactListsService extends BaseService<ContactList> {
         );
       }
 
+      const isDynamic = updateContactListDto.isDynamic ?? list.isDynamic;
+      const membershipChanged =
+        isDynamic &&
+        (updateContactListDto.filterConditions !== undefined || !list.isDynamic);
+
+      if (membershipChanged) {
+        this.validateDynamicList(
+          updateContactListDto.filterConditions ?? list.filterConditions,
+        );
+      }
+
       const affectedCount = await this.contactListsRepository.update(
         { id },
         updateContactListDto,
@@ -158,6 +184,10 @@ export class ContactListsService extends BaseService<ContactList> {
         throw new NotFoundException(`Contact list with ID ${id} not found`);
       }
 
+      if (membershipChanged) {
+        await this.dynamicListService.refreshMembership(id, transaction);
+      }
+
       return (await this.contactListsRepository.findById(id, transaction)) as ContactList;
     });
   }
@@ -273,6 +303,7 @@ export class ContactListsService extends BaseService<ContactList> {
   ) {
     return await this.transactionManager.execute(async (transaction: Transaction) => {
       const list = await this.findContactListById(listId, transaction);
+      this.assertStaticList(list);
 
       const validation = await this.contactListsRepository.validateContacts(
         addContactsDto.contactIds,
@@ -321,6 +352,7 @@ export class ContactListsService extends BaseService<ContactList> {
   ) {
     return await this.transactionManager.execute(async (transaction: Transaction) => {
       const list = await this.findContactListById(listId, transaction);
+      this.assertStaticList(list);
 
       const removedCount =
         await this.contactListsRepository.removeContactsFromList(
@@ -339,6 +371,70 @@ export class ContactListsService extends BaseService<ContactList> {
     });
   }
 
+  /**
+   * Count the contacts that currently match a set of filter conditions (list builder preview)
+   */
+  async previewFilterConditions(dto: PreviewFilterConditionsDto) {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee'
+        ? dto.organizationId
+        : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required to preview filter conditions');
+    }
+
+    const { count, sample } = await this.dynamicListService.previewConditions(
+      dto.filterConditions,
+      organizationId,
+    );
+
+    return {
+      success: true,
+      count,
+      sample: sample.map((contact) => contact.get({ plain: true })),
+    };
+  }
+
+  /**
+   * Re-evaluate a dynamic list's filter conditions now
+   */
+  async refreshDynamicList(id: string) {
+    const list = await this.findContactListById(id);
+    if (!list.isDynamic) {
+      throw new BadRequestException(`Contact list "${list.name}" is not a dynamic list`);
+    }
+
+    const result = await this.dynamicListService.refreshMembership(id);
+    return {
+      success: true,
+      message: `Contact list "${list.name}" now has ${result!.total} contacts`,
+      ...result,
+    };
+  }
+
+  /**
+   * Freeze a dynamic list: snapshot its current matches and turn it into a static list
+   */
+  async freezeContactList(id: string): Promise<ContactList> {
+    return await this.transactionManager.execute(async (transaction: Transaction) => {
+      const list = await this.findContactListById(id, transaction);
+      if (!list.isDynamic) {
+        throw new BadRequestException(`Contact list "${list.name}" is already a static list`);
+      }
+
+      await this.dynamicListService.refreshMembership(id, transaction);
+      await this.contactListsRepository.update(
+        { id },
+        { isDynamic: false },
+        transaction,
+      );
+
+      return (await this.contactListsRepository.findById(id, transaction)) as ContactList;
+    });
+  }
+
   async getListContacts(
     listId: string,
     page: number = 1,
@@ -388,6 +484,29 @@ export class ContactListsService extends BaseService<ContactList> {
     }
   }
 
+  /**
+   * Dynamic lists need a valid condition tree to evaluate
+   * @private
+   */
+  private validateDynamicList(filterConditions?: ContactList['filterConditions']): void {
+    if (!filterConditions) {
+      throw new BadRequestException('Dynamic contact lists require filter conditions');
+    }
+    this.dynamicListService.validateFilterConditions(filterConditions);
+  }
+
+  /**
+   * Membership of dynamic lists is computed, so it cannot be edited by hand
+   * @private
+   */
+  private assertStaticList(list: ContactList): void {
+    if (list.isDynamic) {
+      throw new BadRequestException(
+        `Contact list "${list.name}" is dynamic; its contacts come from its filter conditions. Freeze it to edit members manually.`,
+      );
+    }
+  }
+
   private buildAccessFilter(
     organizationId: string,
     userId?: string,
@@ -5,6 +5,7 @@ import {
   IsNotEmpty,
   MaxLength,
   IsEnum,
+  IsBoolean,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { FilterConditions } from './filter-conditions.interface';
@@ -34,6 +35,10 @@ export class CreateContactListDto {
   @IsOptional()
   filterConditions?: FilterConditions;
 
+  @IsBoolean()
+  @IsOptional()
+  isDynamic?: boolean;
+
   @IsEnum(ContactListType)
   @IsOptional()
   type?: ContactListType = ContactListType.PRIVATE;
@@ -1,11 +1,32 @@
+export type FilterOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'contains'
+  | 'notContains'
+  | 'startsWith'
+  | 'endsWith'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'in'
+  | 'notIn'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'before'
+  | 'after'
+  | 'inLastDays'
+  | 'notInLastDays';
+
 export interface FilterCondition {
+  /**
+   * Contact attribute name (e.g. `company`, `lastEmailOpenedAt`) or a
+   * custom field key prefixed with `customFields.` (e.g. `customFields.plan_tier`)
+   */
   field: string;
-  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'greaterThan' | 'lessThan' | 'in' | 'notIn';
-  value: string | number | string[] | number[];
+  operator: FilterOperator;
+  value?: string | number | string[] | number[];
 }
 
 export interface FilterConditions {
   operator?: 'AND' | 'OR';
-  conditions: FilterCondition[];
+  conditions: Array<FilterCondition | FilterConditions>;
 }
-
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsObject, IsOptional, IsString } from 'class-validator';
+import { FilterConditions } from './filter-conditions.interface';
+
+export class PreviewFilterConditionsDto {
+  @IsObject()
+  @IsNotEmpty()
+  filterConditions: FilterConditions;
+
+  @IsString()
+  @IsOptional()
+  organizationId?: string;
+}
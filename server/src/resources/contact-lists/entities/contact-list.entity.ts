@@ -47,6 +47,19 @@ export class ContactList extends BaseEntity {
   })
   filterConditions: FilterConditions | null;
 
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  isDynamic: boolean;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastEvaluatedAt: Date | null;
+
   @Column({
     type: DataType.INTEGER,
     allowNull: false,
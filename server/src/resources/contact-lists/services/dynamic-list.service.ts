@@ -0,0 +1,382 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Sequelize, Transaction, WhereOptions } from 'sequelize';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { ContactList } from '../entities/contact-list.entity';
+import { ContactListMember } from '../entities/contact-list-member.entity';
+import {
+  FilterCondition,
+  FilterConditions,
+} from '../dto/filter-conditions.interface';
+import {
+  CUSTOM_FIELD_KEY_PATTERN,
+  CUSTOM_FIELD_PREFIX,
+  DATE_ONLY_OPERATORS,
+  FILTERABLE_BOOLEAN_FIELDS,
+  FILTERABLE_DATE_FIELDS,
+  FILTERABLE_NUMBER_FIELDS,
+  FILTERABLE_STRING_FIELDS,
+  FILTER_OPERATORS,
+  MAX_FILTER_CONDITIONS,
+  MAX_FILTER_DEPTH,
+  PREVIEW_SAMPLE_SIZE,
+  VALUELESS_OPERATORS,
+} from '../constants/dynamic-list.constants';
+
+type FieldKind = 'string' | 'number' | 'boolean' | 'date' | 'custom';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluates ContactList.filterConditions into contact membership.
+ *
+ * Conditions are translated into a single Sequelize where clause on the
+ * contacts table so evaluation stays in the database, even for large orgs.
+ * Uses models directly (not the tenant-filtered repository) so it also works
+ * from worker processes where there is no request user context.
+ */
+@Injectable()
+export class DynamicListService {
+  private readonly logger = new Logger(DynamicListService.name);
+
+  constructor(
+    @InjectModel(ContactList)
+    private readonly contactListModel: typeof ContactList,
+    @InjectModel(ContactListMember)
+    private readonly contactListMemberModel: typeof ContactListMember,
+    @InjectModel(Contact)
+    private readonly contactModel: typeof Contact,
+  ) {}
+
+  static isGroup(
+    node: FilterCondition | FilterConditions,
+  ): node is FilterConditions {
+    return Array.isArray((node as FilterConditions)?.conditions);
+  }
+
+  /**
+   * Validate the shape of a condition tree
+   * @throws BadRequestException describing the first invalid node
+   */
+  validateFilterConditions(filterConditions: FilterConditions): void {
+    if (!filterConditions || !DynamicListService.isGroup(filterConditions)) {
+      throw new BadRequestException('filterConditions must contain a conditions array');
+    }
+
+    let leafCount = 0;
+    const visit = (group: FilterConditions, depth: number) => {
+      if (depth > MAX_FILTER_DEPTH) {
+        throw new BadRequestException(
+          `Filter groups can be nested at most ${MAX_FILTER_DEPTH} levels deep`,
+        );
+      }
+      if (group.operator && group.operator !== 'AND' && group.operator !== 'OR') {
+        throw new BadRequestException(`Invalid group operator "${group.operator}"`);
+      }
+      if (group.conditions.length === 0) {
+        throw new BadRequestException('Filter groups must contain at least one condition');
+      }
+
+      for (const node of group.conditions) {
+        if (DynamicListService.isGroup(node)) {
+          visit(node, depth + 1);
+          continue;
+        }
+        leafCount++;
+        this.validateCondition(node);
+      }
+    };
+
+    visit(filterConditions, 1);
+
+    if (leafCount > MAX_FILTER_CONDITIONS) {
+      throw new BadRequestException(
+        `Filters can contain at most ${MAX_FILTER_CONDITIONS} conditions`,
+      );
+    }
+  }
+
+  /**
+   * Build the where clause for contacts matching the conditions in an organization
+   */
+  buildContactWhere(
+    filterConditions: FilterConditions,
+    organizationId: string,
+    now: Date = new Date(),
+  ): WhereOptions<Contact> {
+    this.validateFilterConditions(filterConditions);
+
+    return {
+      [Op.and]: [{ organizationId }, this.buildGroup(filterConditions, now)],
+    } as WhereOptions<Contact>;
+  }
+
+  async countMatchingContacts(
+    filterConditions: FilterConditions,
+    organizationId: string,
+    transaction?: Transaction,
+  ): Promise<number> {
+    return this.contactModel.count({
+      where: this.buildContactWhere(filterConditions, organizationId),
+      transaction,
+    });
+  }
+
+  /**
+   * Count matching contacts and return a small sample, for the list builder
+   */
+  async previewConditions(
+    filterConditions: FilterConditions,
+    organizationId: string,
+  ): Promise<{ count: number; sample: Contact[] }> {
+    const where = this.buildContactWhere(filterConditions, organizationId);
+
+    const [count, sample] = await Promise.all([
+      this.contactModel.count({ where }),
+      this.contactModel.findAll({
+        where,
+        attributes: ['id', 'email', 'firstName', 'lastName', 'company', 'status'],
+        order: [['createdAt', 'DESC']],
+        limit: PREVIEW_SAMPLE_SIZE,
+      }),
+    ]);
+
+    return { count, sample };
+  }
+
+  /**
+   * Re-evaluate a dynamic list and bring its member rows in line with the conditions.
+   * Static lists are left untouched.
+   */
+  async refreshMembership(
+    listId: string,
+    transaction?: Transaction,
+  ): Promise<{ added: number; removed: number; total: number } | null> {
+    const list = await this.contactListModel.findByPk(listId, { transaction });
+    if (!list) {
+      throw new NotFoundException(`Contact list with ID ${listId} not found`);
+    }
+
+    if (!list.isDynamic) {
+      return null;
+    }
+
+    if (!list.filterConditions) {
+      throw new BadRequestException(
+        `Dynamic contact list ${listId} has no filter conditions`,
+      );
+    }
+
+    const matches = await this.contactModel.findAll({
+      where: this.buildContactWhere(list.filterConditions, list.organizationId),
+      attributes: ['id'],
+      raw: true,
+      transaction,
+    });
+    const matchingIds = new Set(matches.map((c: any) => c.id as string));
+
+    const members = await this.contactListMemberModel.findAll({
+      where: { contactListId: listId },
+      attributes: ['contactId'],
+      raw: true,
+      transaction,
+    });
+    const memberIds = new Set(members.map((m: any) => m.contactId as string));
+
+    const toAdd = [...matchingIds].filter((id) => !memberIds.has(id));
+    const toRemove = [...memberIds].filter((id) => !matchingIds.has(id));
+
+    if (toRemove.length > 0) {
+      await this.contactListMemberModel.destroy({
+        where: { contactListId: listId, contactId: { [Op.in]: toRemove } },
+        transaction,
+      });
+    }
+
+    if (toAdd.length > 0) {
+      const addedAt = new Date();
+      await this.contactListMemberModel.bulkCreate(
+        toAdd.map((contactId) => ({ contactListId: listId, contactId, addedAt })),
+        { ignoreDuplicates: true, transaction },
+      );
+    }
+
+    await this.contactListModel.update(
+      { contactCount: matchingIds.size, lastEvaluatedAt: new Date() },
+      { where: { id: listId }, transaction },
+    );
+
+    this.logger.log(
+      `Refreshed dynamic list ${listId}: +${toAdd.length} / -${toRemove.length} (total ${matchingIds.size})`,
+    );
+
+    return { added: toAdd.length, removed: toRemove.length, total: matchingIds.size };
+  }
+
+  private validateCondition(condition: FilterCondition): void {
+    if (!condition || typeof condition.field !== 'string') {
+      throw new BadRequestException('Each filter condition needs a field');
+    }
+
+    const kind = this.resolveFieldKind(condition.field);
+    if (!kind) {
+      throw new BadRequestException(`Field "${condition.field}" cannot be used in a filter`);
+    }
+
+    if (!FILTER_OPERATORS.includes(condition.operator)) {
+      throw new BadRequestException(`Invalid filter operator "${condition.operator}"`);
+    }
+
+    if (
+      DATE_ONLY_OPERATORS.includes(condition.operator) &&
+      kind !== 'date' &&
+      kind !== 'custom'
+    ) {
+      throw new BadRequestException(
+        `Operator "${condition.operator}" can only be used on date fields`,
+      );
+    }
+
+    if (VALUELESS_OPERATORS.includes(condition.operator)) {
+      return;
+    }
+
+    const { value } = condition;
+    if (value === undefined || value === null || value === '') {
+      throw new BadRequestException(
+        `Filter on "${condition.field}" (${condition.operator}) requires a value`,
+      );
+    }
+
+    if ((condition.operator === 'in' || condition.operator === 'notIn') && !Array.isArray(value)) {
+      throw new BadRequestException(`Operator "${condition.operator}" requires an array value`);
+    }
+
+    if (condition.operator === 'inLastDays' || condition.operator === 'notInLastDays') {
+      const days = Number(value);
+      if (!Number.isFinite(days) || days <= 0) {
+        throw new BadRequestException(
+          `Operator "${condition.operator}" requires a positive number of days`,
+        );
+      }
+    }
+
+    if (
+      (condition.operator === 'before' || condition.operator === 'after') &&
+      isNaN(new Date(value as string).getTime())
+    ) {
+      throw new BadRequestException(`Operator "${condition.operator}" requires a valid date`);
+    }
+  }
+
+  private resolveFieldKind(field: string): FieldKind | null {
+    if (field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      return CUSTOM_FIELD_KEY_PATTERN.test(field.slice(CUSTOM_FIELD_PREFIX.length))
+        ? 'custom'
+        : null;
+    }
+    if ((FILTERABLE_STRING_FIELDS as readonly string[]).includes(field)) return 'string';
+    if ((FILTERABLE_NUMBER_FIELDS as readonly string[]).includes(field)) return 'number';
+    if ((FILTERABLE_BOOLEAN_FIELDS as readonly string[]).includes(field)) return 'boolean';
+    if ((FILTERABLE_DATE_FIELDS as readonly string[]).includes(field)) return 'date';
+    return null;
+  }
+
+  private buildGroup(group: FilterConditions, now: Date): WhereOptions {
+    const clauses = group.conditions.map((node) =>
+      DynamicListService.isGroup(node)
+        ? this.buildGroup(node, now)
+        : this.buildCondition(node, now),
+    );
+
+    return group.operator === 'OR' ? { [Op.or]: clauses } : { [Op.and]: clauses };
+  }
+
+  private buildCondition(condition: FilterCondition, now: Date): WhereOptions {
+    const kind = this.resolveFieldKind(condition.field)!;
+    const { operator } = condition;
+    let value: any = condition.value;
+
+    // Wrap a comparison against the referenced attribute or custom field
+    const compare = (comparison: any): WhereOptions => {
+      if (kind !== 'custom') {
+        return { [condition.field]: comparison };
+      }
+      const key = condition.field.slice(CUSTOM_FIELD_PREFIX.length);
+      let expr: any = Sequelize.fn(
+        'JSON_UNQUOTE',
+        Sequelize.fn('JSON_EXTRACT', Sequelize.col('custom_fields'), `$."${key}"`),
+      );
+      if (typeof value === 'number' && (operator === 'greaterThan' || operator === 'lessThan')) {
+        expr = Sequelize.cast(expr, 'DECIMAL(20,4)');
+      }
+      return Sequelize.where(expr, comparison) as WhereOptions;
+    };
+    const isNull = () => compare({ [Op.is]: null });
+
+    if (kind === 'boolean' && typeof value === 'string') {
+      value = value === 'true';
+    }
+
+    switch (operator) {
+      case 'equals':
+        return compare({ [Op.eq]: value });
+      case 'notEquals':
+        return { [Op.or]: [compare({ [Op.ne]: value }), isNull()] };
+      case 'contains':
+        return compare({ [Op.like]: `%${this.escapeLike(value)}%` });
+      case 'notContains':
+        return {
+          [Op.or]: [compare({ [Op.notLike]: `%${this.escapeLike(value)}%` }), isNull()],
+        };
+      case 'startsWith':
+        return compare({ [Op.like]: `${this.escapeLike(value)}%` });
+      case 'endsWith':
+        return compare({ [Op.like]: `%${this.escapeLike(value)}` });
+      case 'greaterThan':
+        return compare({ [Op.gt]: value });
+      case 'lessThan':
+        return compare({ [Op.lt]: value });
+      case 'in':
+        return compare({ [Op.in]: value });
+      case 'notIn':
+        return { [Op.or]: [compare({ [Op.notIn]: value }), isNull()] };
+      case 'isEmpty':
+        return kind === 'date' || kind === 'number' || kind === 'boolean'
+          ? isNull()
+          : { [Op.or]: [isNull(), compare({ [Op.eq]: '' })] };
+      case 'isNotEmpty':
+        return kind === 'date' || kind === 'number' || kind === 'boolean'
+          ? compare({ [Op.not]: null })
+          : { [Op.and]: [compare({ [Op.not]: null }), compare({ [Op.ne]: '' })] };
+      case 'before':
+        return compare({ [Op.lt]: this.toComparableDate(new Date(value), kind) });
+      case 'after':
+        return compare({ [Op.gt]: this.toComparableDate(new Date(value), kind) });
+      case 'inLastDays':
+        return compare({ [Op.gte]: this.toComparableDate(this.daysAgo(now, value), kind) });
+      case 'notInLastDays':
+        return {
+          [Op.or]: [
+            compare({ [Op.lt]: this.toComparableDate(this.daysAgo(now, value), kind) }),
+            isNull(),
+          ],
+        };
+      default:
+        throw new BadRequestException(`Invalid filter operator "${operator}"`);
+    }
+  }
+
+  private daysAgo(now: Date, days: number | string): Date {
+    return new Date(now.getTime() - Number(days) * DAY_MS);
+  }
+
+  /** Custom fields are stored as JSON text, so compare dates as ISO strings there */
+  private toComparableDate(date: Date, kind: FieldKind): Date | string {
+    return kind === 'custom' ? date.toISOString() : date;
+  }
+
+  private escapeLike(value: string | number): string {
+    return String(value).replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+}
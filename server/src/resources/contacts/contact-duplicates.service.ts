@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, Transaction } from 'sequelize';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { TransactionManager } from 'src/common/services/transaction-manager.service';
+import {
+  findDuplicatePairs,
+  mergeDuplicateContact,
+  pickSurvivingContact,
+} from 'src/common/utils/contact-duplicates.util';
+import { AuditLogsService } from 'src/resources/audit-logs/audit-logs.service';
+import { AuditAction } from 'src/resources/audit-logs/entities/audit-log.entity';
+import { EmailMessage } from 'src/resources/campaigns/entities/email-message.entity';
+import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
+import { ContactListsService } from 'src/resources/contact-lists/contact-lists.service';
+import { InboxThread } from 'src/resources/inbox/entities/inbox-thread.entity';
+import { Contact } from './entities/contact.entity';
+import { ContactFieldChange } from './entities/contact-field-change.entity';
+import { ContactDuplicateQueryDto, MergeContactsDto } from './dto/contact-duplicates.dto';
+import {
+  ContactDuplicatesResult,
+  ContactMergeResult,
+  DuplicateCandidate,
+} from './dto/contact-duplicates.interface';
+import {
+  CONTACT_MERGE_CHANGE_SOURCE,
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  DEFAULT_DUPLICATE_PAIRS_LIMIT,
+  DUPLICATE_SCAN_BATCH_SIZE,
+  MAX_DUPLICATE_KEY_GROUP_SIZE,
+} from './contacts.constants';
+
+/** Contact attributes returned with each duplicate pair */
+const DUPLICATE_SUMMARY_ATTRIBUTES = [
+  'id',
+  'email',
+  'firstName',
+  'lastName',
+  'company',
+  'companyDomain',
+  'jobTitle',
+  'phone',
+  'linkedin',
+  'status',
+  'subscribed',
+  'createdAt',
+];
+
+/**
+ * Finds contacts of an organization that are likely the same person and merges them
+ */
+@Injectable()
+export class ContactDuplicatesService {
+  private readonly logger = new Logger(ContactDuplicatesService.name);
+
+  constructor(
+    @InjectModel(Contact)
+    private readonly contactModel: typeof Contact,
+    @InjectModel(ContactListMember)
+    private readonly contactListMemberModel: typeof ContactListMember,
+    @InjectModel(ContactFieldChange)
+    private readonly contactFieldChangeModel: typeof ContactFieldChange,
+    @InjectModel(EmailMessage)
+    private readonly emailMessageModel: typeof EmailMessage,
+    @InjectModel(InboxThread)
+    private readonly inboxThreadModel: typeof InboxThread,
+    private readonly contactListsService: ContactListsService,
+    private readonly auditLogsService: AuditLogsService,
+    private readonly userContextService: UserContextService,
+    private readonly transactionManager: TransactionManager,
+  ) {}
+
+  /**
+   * Likely duplicate pairs of an organization's contacts, best scores first
+   */
+  async findDuplicates(query: ContactDuplicateQueryDto): Promise<ContactDuplicatesResult> {
+    const organizationId = this.resolveOrganizationId(query.organizationId);
+    const candidates = await this.loadCandidates(organizationId);
+    const pairs = findDuplicatePairs(
+      candidates,
+      query.minScore ?? DEFAULT_DUPLICATE_MIN_SCORE,
+      MAX_DUPLICATE_KEY_GROUP_SIZE,
+    );
+
+    const page = pairs.slice(0, query.limit ?? DEFAULT_DUPLICATE_PAIRS_LIMIT);
+    const contactIds = [...new Set(page.flatMap((pair) => pair.contactIds))];
+    const contacts =
+      contactIds.length > 0
+        ? await this.contactModel.findAll({
+            where: { id: contactIds, organizationId },
+            attributes: DUPLICATE_SUMMARY_ATTRIBUTES,
+            raw: true,
+          })
+        : [];
+    const contactsById = new Map(contacts.map((contact) => [contact.id, contact]));
+
+    return {
+      total: pairs.length,
+      pairs: page.map(({ contactIds: ids, score, reasons }) => ({
+        score,
+        reasons,
+        contacts: ids.map((id) => contactsById.get(id)).filter(Boolean) as Record<string, any>[],
+      })),
+    };
+  }
+
+  /**
+   * Merge two contacts into one
+   * The surviving contact keeps its email and gains the other's blank fields, list memberships,
+   * campaign emails and inbox threads. The other contact is soft deleted.
+   */
+  async merge(mergeContactsDto: MergeContactsDto): Promise<ContactMergeResult> {
+    const organizationId = this.resolveOrganizationId(mergeContactsDto.organizationId);
+    const { contactIds, survivorId } = mergeContactsDto;
+    if (contactIds[0] === contactIds[1]) {
+      throw new BadRequestException('A contact cannot be merged with itself');
+    }
+    if (survivorId && !contactIds.includes(survivorId)) {
+      throw new BadRequestException('survivorId must be one of contactIds');
+    }
+
+    const result = await this.transactionManager.execute(async (transaction) => {
+      const contacts = await this.contactModel.findAll({
+        where: { id: contactIds, organizationId },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      if (contacts.length !== 2) {
+        throw new NotFoundException('Contact not found');
+      }
+
+      const pickedId =
+        survivorId ??
+        pickSurvivingContact(contacts[0].get({ plain: true }), contacts[1].get({ plain: true })).id;
+      const survivor = contacts.find((contact) => contact.id === pickedId)!;
+      const duplicate = contacts.find((contact) => contact.id !== survivor.id)!;
+
+      const { attributes, changes } = mergeDuplicateContact(
+        survivor.get({ plain: true }),
+        duplicate.get({ plain: true }),
+      );
+      if (Object.keys(attributes).length > 0) {
+        await survivor.update(attributes, { transaction });
+      }
+
+      // The history of the merged contact moves with it, then the merge's own changes are added
+      await this.contactFieldChangeModel.update(
+        { contactId: survivor.id },
+        { where: { contactId: duplicate.id }, transaction },
+      );
+      if (changes.length > 0) {
+        await this.contactFieldChangeModel.bulkCreate(
+          changes.map((change) => ({
+            contactId: survivor.id,
+            organizationId,
+            field: change.field,
+            previousValue: change.previousValue,
+            newValue: change.newValue,
+            source: CONTACT_MERGE_CHANGE_SOURCE,
+            sourceId: duplicate.id,
+          })) as any[],
+          { transaction },
+        );
+      }
+
+      const { moved, removed } = await this.moveListMemberships(survivor.id, duplicate.id, transaction);
+
+      const [emailMessagesMoved] = await this.emailMessageModel.update(
+        { contactId: survivor.id },
+        { where: { contactId: duplicate.id }, transaction },
+      );
+      const [inboxThreadsMoved] = await this.inboxThreadModel.update(
+        { contactId: survivor.id },
+        { where: { contactId: duplicate.id }, transaction },
+      );
+
+      await duplicate.destroy({ transaction });
+
+      return {
+        survivor,
+        duplicate,
+        result: {
+          survivorId: survivor.id,
+          mergedContactId: duplicate.id,
+          changedFields: changes.map((change) => change.field),
+          listMembershipsMoved: moved,
+          listMembershipsRemoved: removed,
+          emailMessagesMoved,
+          inboxThreadsMoved,
+        } as ContactMergeResult,
+      };
+    });
+
+    try {
+      await this.auditLogsService.createAuditLog({
+        organizationId,
+        performedByUserId: this.userContextService.getCurrentUserId() ?? undefined,
+        module: 'CONTACTS',
+        action: AuditAction.UPDATE,
+        recordId: result.survivor.id,
+        description: `Merged contact ${result.duplicate.email} into ${result.survivor.email}`,
+        details: {
+          operation: 'MERGE',
+          mergedContactEmail: result.duplicate.email,
+          ...result.result,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to write audit log for contact merge ${result.duplicate.id} -> ${result.survivor.id}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    return result.result;
+  }
+
+  /**
+   * Re-point the duplicate's list memberships to the survivor, memberships of lists it's already in are removed
+   */
+  private async moveListMemberships(
+    survivorId: string,
+    duplicateId: string,
+    transaction: Transaction,
+  ): Promise<{ moved: number; removed: number }> {
+    const survivorMemberships = await this.contactListMemberModel.findAll({
+      where: { contactId: survivorId },
+      attributes: ['contactListId'],
+      transaction,
+    });
+    const duplicateMemberships = await this.contactListMemberModel.findAll({
+      where: { contactId: duplicateId },
+      attributes: ['id', 'contactListId'],
+      transaction,
+    });
+
+    const survivorListIds = new Set(survivorMemberships.map((membership) => membership.contactListId));
+    const shared = duplicateMemberships.filter((membership) => survivorListIds.has(membership.contactListId));
+    const moving = duplicateMemberships.filter((membership) => !survivorListIds.has(membership.contactListId));
+
+    if (shared.length > 0) {
+      await this.contactListMemberModel.destroy({
+        where: { id: { [Op.in]: shared.map((membership) => membership.id) } },
+        transaction,
+      });
+      await this.contactListsService.updateContactCounts(
+        shared.map((membership) => membership.contactListId),
+        transaction,
+      );
+    }
+    if (moving.length > 0) {
+      await this.contactListMemberModel.update(
+        { contactId: survivorId },
+        { where: { id: { [Op.in]: moving.map((membership) => membership.id) } }, transaction },
+      );
+    }
+
+    return { moved: moving.length, removed: shared.length };
+  }
+
+  /**
+   * Fields the duplicate finder compares, for every contact of the organization
+   */
+  private async loadCandidates(organizationId: string): Promise<DuplicateCandidate[]> {
+    const candidates: DuplicateCandidate[] = [];
+    let lastId: string | null = null;
+
+    for (;;) {
+      const batch = (await this.contactModel.findAll({
+        where: {
+          organizationId,
+          ...(lastId ? { id: { [Op.gt]: lastId } } : {}),
+        },
+        attributes: ['id', 'email', 'firstName', 'lastName', 'companyDomain', 'linkedin', 'phone'],
+        order: [['id', 'ASC']],
+        limit: DUPLICATE_SCAN_BATCH_SIZE,
+        raw: true,
+      })) as unknown as DuplicateCandidate[];
+
+      candidates.push(...batch);
+      if (batch.length < DUPLICATE_SCAN_BATCH_SIZE) {
+        return candidates;
+      }
+      lastId = batch[batch.length - 1].id;
+    }
+  }
+
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+}
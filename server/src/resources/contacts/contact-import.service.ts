@@ -0,0 +1,412 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { parse } from 'fast-csv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ExcelService } from 'src/configuration/excel/excel.service';
+import { MulterService } from 'src/configuration/multer/multer.service';
+import { ContactBulkUploadQueue } from 'src/configuration/bull/queues/contact-bulk-upload.queue';
+import { UserContextService } from 'src/common/services/user-context.service';
+import {
+  importCellToString,
+  suggestColumnMapping,
+  validateColumnMapping,
+} from 'src/common/utils/contact-import-mapping.util';
+import { ContactImportMappingPreset } from './entities/contact-import-mapping-preset.entity';
+import {
+  ConfirmContactImportDto,
+  CreateImportMappingPresetDto,
+} from './dto/contact-import.dto';
+import {
+  ContactImportPreview,
+  ContactImportStrategy,
+  ImportColumnMapping,
+  ImportErrorReport,
+  PendingContactImport,
+} from './dto/contact-import.interface';
+import {
+  ALLOWED_IMPORT_FILE_EXTENSIONS,
+  ALLOWED_IMPORT_MIME_TYPES,
+  IMPORT_ERROR_REPORT_ERRORS_COLUMN,
+  IMPORT_ERROR_REPORT_ROW_COLUMN,
+  IMPORT_ERROR_REPORT_SUFFIX,
+  IMPORT_PREVIEW_SAMPLE_ROWS,
+  MAX_FILE_SIZE_BYTES,
+  MAX_IMPORT_MAPPING_PRESETS_PER_ORGANIZATION,
+  MAX_ROWS_PER_BULK_UPLOAD,
+} from './contacts.constants';
+
+/** Suffix of the file describing an uploaded import waiting for its mapping */
+export const PENDING_IMPORT_SUFFIX = '.import.json';
+
+export type ImportErrorReportFormat = 'csv' | 'xlsx';
+
+interface ParsedImportFile {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+}
+
+/**
+ * Two-phase contact imports: the file is uploaded and previewed first,
+ * then queued for processing once its column mapping is confirmed
+ */
+@Injectable()
+export class ContactImportService {
+  private readonly logger = new Logger(ContactImportService.name);
+  private readonly bulkUploadDir = path.join(process.cwd(), 'uploads', 'contacts', 'bulk-upload');
+
+  constructor(
+    @InjectModel(ContactImportMappingPreset)
+    private readonly mappingPresetModel: typeof ContactImportMappingPreset,
+    private readonly excelService: ExcelService,
+    private readonly multerService: MulterService,
+    private readonly contactBulkUploadQueue: ContactBulkUploadQueue,
+    private readonly userContextService: UserContextService,
+  ) {}
+
+  /**
+   * Store an uploaded CSV or XLSX file and return its headers, sample rows and a suggested mapping
+   */
+  async preview(file: any, requestedOrganizationId?: string): Promise<ContactImportPreview> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const fileId = uuidv4();
+    const extension = path.extname(file.originalname).toLowerCase();
+
+    const storedFile = await this.multerService.processUpload(file, {
+      fieldName: 'file',
+      fileType: 'document' as any,
+      maxFileSize: MAX_FILE_SIZE_BYTES,
+      allowedExtensions: ALLOWED_IMPORT_FILE_EXTENSIONS,
+      allowedMimeTypes: ALLOWED_IMPORT_MIME_TYPES,
+      customPath: 'contacts/bulk-upload',
+      filename: fileId,
+    });
+    if (!storedFile.success || !storedFile.files?.length) {
+      throw new BadRequestException(storedFile.errors?.join('; ') || 'Failed to store file');
+    }
+
+    const filePath = storedFile.files[0].path;
+    let parsed: ParsedImportFile;
+    try {
+      parsed = extension === '.xlsx' ? await this.parseSpreadsheet(filePath) : await this.parseCsv(filePath);
+    } catch (error) {
+      this.removeFile(filePath);
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+      throw new BadRequestException(
+        `Failed to read file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    const pending: PendingContactImport = {
+      fileId,
+      fileName: file.originalname,
+      filePath,
+      organizationId,
+      headers: parsed.headers,
+      createdBy: this.userContextService.getCurrentUserId() ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(this.bulkUploadDir, { recursive: true });
+    fs.writeFileSync(this.pendingImportPath(fileId), JSON.stringify(pending));
+
+    const matchedPreset = await this.findMatchingPreset(organizationId, parsed.headers);
+
+    return {
+      fileId,
+      fileName: file.originalname,
+      headers: parsed.headers,
+      sampleRows: parsed.sampleRows,
+      totalRows: parsed.totalRows,
+      matchedPresetId: matchedPreset?.id ?? null,
+      suggestedMapping: matchedPreset?.mapping ?? suggestColumnMapping(parsed.headers),
+    };
+  }
+
+  /**
+   * Queue a previewed file for processing with the confirmed mapping and upsert strategy
+   */
+  async confirm(
+    fileId: string,
+    dto: ConfirmContactImportDto,
+  ): Promise<{ success: boolean; fileId: string; jobId: string; message: string }> {
+    const organizationId = this.resolveOrganizationId(dto.organizationId);
+    const pending = this.readPendingImport(fileId);
+    if (!pending || pending.organizationId !== organizationId) {
+      throw new NotFoundException('Import not found, upload the file again');
+    }
+
+    const mapping = this.toMapping(dto.mapping);
+    const errors = validateColumnMapping(mapping, pending.headers);
+    if (errors.length > 0) {
+      throw new BadRequestException(errors.join('; '));
+    }
+
+    if (dto.savePresetName) {
+      await this.savePreset(organizationId, dto.savePresetName, mapping);
+    }
+
+    const queueResult = await this.contactBulkUploadQueue.addBulkUploadJobWithRetry(
+      fileId,
+      pending.filePath,
+      organizationId,
+      this.userContextService.getCurrentUserId() ?? undefined,
+      mapping,
+      {
+        strategy: dto.strategy ?? ContactImportStrategy.SKIP,
+        ...(dto.strategy === ContactImportStrategy.OVERWRITE_SELECTED && {
+          overwriteFields: dto.overwriteFields,
+        }),
+      },
+    );
+    this.removeFile(this.pendingImportPath(fileId));
+
+    return {
+      success: true,
+      fileId,
+      jobId: String(queueResult.jobId),
+      message: 'File queued for processing',
+    };
+  }
+
+  /**
+   * Rejected rows of an import as a file with the original columns plus the row number and errors
+   * The file can be fixed and imported again, the added columns are ignored then
+   */
+  async buildErrorReport(
+    fileId: string,
+    format: ImportErrorReportFormat,
+    requestedOrganizationId?: string,
+  ): Promise<{ content: Buffer; contentType: string; filename: string }> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const reportPath = path.join(this.bulkUploadDir, `${fileId}${IMPORT_ERROR_REPORT_SUFFIX}`);
+    if (!fs.existsSync(reportPath)) {
+      throw new NotFoundException('No error report for this import');
+    }
+
+    const report = JSON.parse(fs.readFileSync(reportPath, 'utf-8')) as ImportErrorReport;
+    if (report.organizationId !== organizationId) {
+      throw new NotFoundException('No error report for this import');
+    }
+
+    const columns = [...report.headers, IMPORT_ERROR_REPORT_ROW_COLUMN, IMPORT_ERROR_REPORT_ERRORS_COLUMN];
+    const rows = report.rows.map((row) => ({
+      ...row.values,
+      [IMPORT_ERROR_REPORT_ROW_COLUMN]: String(row.rowNumber),
+      [IMPORT_ERROR_REPORT_ERRORS_COLUMN]: row.errors.join('; '),
+    }));
+    const filename = `contact-import-errors-${fileId}.${format}`;
+
+    if (format === 'xlsx') {
+      return {
+        content: await this.excelService.generateExcel(rows, columns, filename),
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        filename,
+      };
+    }
+
+    const lines = [
+      columns.map((column) => this.toCsvCell(column)).join(','),
+      ...rows.map((row) => columns.map((column) => this.toCsvCell(row[column] ?? '')).join(',')),
+    ];
+    return {
+      content: Buffer.from(`${lines.join('\n')}\n`, 'utf-8'),
+      contentType: 'text/csv',
+      filename,
+    };
+  }
+
+  async findPresets(requestedOrganizationId?: string): Promise<ContactImportMappingPreset[]> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    return this.mappingPresetModel.findAll({
+      where: { organizationId },
+      order: [['name', 'ASC']],
+    });
+  }
+
+  /**
+   * Save a preset, replacing the mapping of an existing preset with the same name
+   */
+  async createPreset(dto: CreateImportMappingPresetDto): Promise<ContactImportMappingPreset> {
+    const organizationId = this.resolveOrganizationId(dto.organizationId);
+    return this.savePreset(organizationId, dto.name, this.toMapping(dto.mapping));
+  }
+
+  async removePreset(id: string, requestedOrganizationId?: string): Promise<{ success: boolean }> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const preset = await this.mappingPresetModel.findOne({ where: { id, organizationId } });
+    if (!preset) {
+      throw new NotFoundException('Mapping preset not found');
+    }
+    await preset.destroy();
+    return { success: true };
+  }
+
+  private async savePreset(
+    organizationId: string,
+    name: string,
+    mapping: ImportColumnMapping[],
+  ): Promise<ContactImportMappingPreset> {
+    const presetName = name.trim();
+    const existing = await this.mappingPresetModel.findOne({
+      where: { organizationId, name: presetName },
+    });
+    if (existing) {
+      return existing.update({ mapping });
+    }
+
+    const count = await this.mappingPresetModel.count({ where: { organizationId } });
+    if (count >= MAX_IMPORT_MAPPING_PRESETS_PER_ORGANIZATION) {
+      throw new BadRequestException(
+        `An organization can have at most ${MAX_IMPORT_MAPPING_PRESETS_PER_ORGANIZATION} mapping presets`,
+      );
+    }
+    return this.mappingPresetModel.create({ organizationId, name: presetName, mapping });
+  }
+
+  /**
+   * A preset matches a file when it maps exactly the file's columns
+   */
+  private async findMatchingPreset(
+    organizationId: string,
+    headers: string[],
+  ): Promise<ContactImportMappingPreset | null> {
+    const presets = await this.mappingPresetModel.findAll({
+      where: { organizationId },
+      order: [['updatedAt', 'DESC']],
+    });
+    const headerSet = new Set(headers);
+    return (
+      presets.find(
+        (preset) =>
+          preset.mapping.length === headerSet.size &&
+          preset.mapping.every((entry) => headerSet.has(entry.column)),
+      ) ?? null
+    );
+  }
+
+  private toMapping(mapping: ImportColumnMapping[]): ImportColumnMapping[] {
+    return mapping.map(({ column, target, field, customFieldName }) => ({
+      column,
+      target,
+      ...(field ? { field } : {}),
+      ...(customFieldName ? { customFieldName } : {}),
+    }));
+  }
+
+  private async parseCsv(filePath: string): Promise<ParsedImportFile> {
+    let headers: string[] = [];
+    const sampleRows: Record<string, string>[] = [];
+    let totalRows = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(filePath)
+        .pipe(parse({ headers: true, ignoreEmpty: true }))
+        .on('headers', (parsedHeaders: string[]) => {
+          headers = parsedHeaders;
+        })
+        .on('error', reject)
+        .on('data', (row: Record<string, string>) => {
+          totalRows++;
+          if (sampleRows.length < IMPORT_PREVIEW_SAMPLE_ROWS) {
+            sampleRows.push(row);
+          }
+        })
+        .on('end', () => resolve());
+    });
+
+    return this.checkParsedFile({ headers, sampleRows, totalRows });
+  }
+
+  private async parseSpreadsheet(filePath: string): Promise<ParsedImportFile> {
+    const rows: Record<string, unknown>[] = await this.excelService.parseExcel(fs.readFileSync(filePath));
+
+    // parseExcel keys each row by header, columns without any value are not in the rows
+    const headers: string[] = [];
+    const seenHeaders = new Set<string>();
+    for (const row of rows) {
+      for (const header of Object.keys(row)) {
+        if (header && header !== 'undefined' && !seenHeaders.has(header)) {
+          seenHeaders.add(header);
+          headers.push(header);
+        }
+      }
+    }
+
+    const sampleRows = rows.slice(0, IMPORT_PREVIEW_SAMPLE_ROWS).map((row) =>
+      Object.fromEntries(headers.map((header) => [header, importCellToString(row[header])])),
+    );
+
+    return this.checkParsedFile({ headers, sampleRows, totalRows: rows.length });
+  }
+
+  private checkParsedFile(parsed: ParsedImportFile): ParsedImportFile {
+    if (parsed.headers.length === 0) {
+      throw new BadRequestException('The file has no header row');
+    }
+    if (parsed.totalRows === 0) {
+      throw new BadRequestException('File contains no data rows. Please ensure the file has at least one contact row.');
+    }
+    if (parsed.totalRows > MAX_ROWS_PER_BULK_UPLOAD) {
+      throw new BadRequestException(
+        `File contains ${parsed.totalRows} rows. Maximum ${MAX_ROWS_PER_BULK_UPLOAD} rows allowed per upload.`,
+      );
+    }
+    return parsed;
+  }
+
+  private toCsvCell(value: string): string {
+    // Values are written as they were uploaded so the fixed file imports the same data
+    return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+
+  private readPendingImport(fileId: string): PendingContactImport | null {
+    const pendingPath = this.pendingImportPath(fileId);
+    if (!fs.existsSync(pendingPath)) {
+      return null;
+    }
+    try {
+      const pending = JSON.parse(fs.readFileSync(pendingPath, 'utf-8')) as PendingContactImport;
+      return fs.existsSync(pending.filePath) ? pending : null;
+    } catch (error) {
+      this.logger.warn(`Failed to read pending import ${fileId}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  private pendingImportPath(fileId: string): string {
+    return path.join(this.bulkUploadDir, `${fileId}${PENDING_IMPORT_SUFFIX}`);
+  }
+
+  private removeFile(filePath: string): void {
+    try {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to cleanup file ${filePath}:`, error);
+    }
+  }
+
+  /**
+   * Employees import into any organization, users only into their own
+   */
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+}
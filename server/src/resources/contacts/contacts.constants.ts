@@ -13,7 +13,81 @@ export const MAX_FILE_SIZE_BYTES = 50 * 1024 * 1024;
 export const ALLOWED_FILE_EXTENSIONS = ['.csv'];
 export const ALLOWED_MIME_TYPES = ['text/csv', 'application/vnd.ms-excel'];
 
-export const CONTACT_SEARCH_FIELDS = ['email', 'firstName', 'lastName', 'company'] as const;
+// Mapped imports also accept spreadsheets
+export const ALLOWED_IMPORT_FILE_EXTENSIONS = ['.csv', '.xlsx'];
+export const ALLOWED_IMPORT_MIME_TYPES = [
+  ...ALLOWED_MIME_TYPES,
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+export const IMPORT_PREVIEW_SAMPLE_ROWS = 5;
+export const MAX_IMPORT_MAPPING_PRESETS_PER_ORGANIZATION = 50;
+
+/** Columns the error report adds after the file's own columns, imports of a fixed report ignore them */
+export const IMPORT_ERROR_REPORT_ROW_COLUMN = 'Import Row';
+export const IMPORT_ERROR_REPORT_ERRORS_COLUMN = 'Import Errors';
+
+/** Suffix of the file holding the rejected rows of an import, next to the uploaded file */
+export const IMPORT_ERROR_REPORT_SUFFIX = '.errors.json';
+
+/** Error reports of finished imports are kept this long for download */
+export const IMPORT_ERROR_REPORT_RETENTION_DAYS = 7;
+
+/** Contact fields an import column can be mapped to */
+export const IMPORTABLE_CONTACT_FIELDS = [
+  'email',
+  'firstName',
+  'lastName',
+  'list',
+  'company',
+  'jobTitle',
+  'phone',
+  'timezone',
+  'department',
+  'industry',
+  'experience',
+  'linkedin',
+  'twitter',
+  'facebook',
+  'website',
+  'city',
+  'state',
+  'country',
+  'companyDomain',
+  'companyWebsite',
+  'companyIndustry',
+  'companySize',
+  'companyRevenue',
+] as const;
+
+export const REQUIRED_IMPORT_FIELDS = ['email', 'firstName'] as const;
+
+/** Fields a re-import can change on an existing contact, email identifies the contact and list is a membership */
+export const MERGEABLE_IMPORT_FIELDS = IMPORTABLE_CONTACT_FIELDS.filter(
+  (field): field is Exclude<(typeof IMPORTABLE_CONTACT_FIELDS)[number], 'email' | 'list'> =>
+    field !== 'email' && field !== 'list',
+);
+
+/** Change log and overwriteFields name custom fields as customFields.<key> */
+export const CUSTOM_FIELD_CHANGE_PREFIX = 'customFields.';
+
+export const IMPORT_OVERWRITE_FIELD_PATTERN = new RegExp(
+  `^(${MERGEABLE_IMPORT_FIELDS.join('|')}|customFields\\.[A-Za-z0-9_-]{1,100})$`,
+);
+
+/** Contacts loaded per query while scanning an organization for duplicates */
+export const DUPLICATE_SCAN_BATCH_SIZE = 5000;
+
+/** Contacts sharing a match key beyond this aren't paired, such a key is too common to tell people apart */
+export const MAX_DUPLICATE_KEY_GROUP_SIZE = 50;
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 50;
+export const DEFAULT_DUPLICATE_PAIRS_LIMIT = 50;
+export const MAX_DUPLICATE_PAIRS_LIMIT = 200;
+
+/** Field change log source of a merge, its sourceId is the merged contact */
+export const CONTACT_MERGE_CHANGE_SOURCE = 'MERGE';
+
+export const CONTACT_SEARCH_FIELDS =['email', 'firstName', 'lastName', 'company'] as const;
 
 export const CONTACT_STATUS_TRANSITIONS = {
   ACTIVE: ['UNSUBSCRIBED', 'BOUNCED', 'COMPLAINED', 'INACTIVE'],
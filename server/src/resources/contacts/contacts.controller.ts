@@ -11,16 +11,27 @@ import {
   UploadedFile,
   Res,
   BadRequestException,
+  ParseUUIDPipe,
 } from '@nestjs/common';
 import { Public } from 'src/configuration/jwt/public.decorator';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
 import { ContactsService } from './contacts.service';
 import { SelectionSessionService } from './selection-session.service';
+import { ContactImportService } from './contact-import.service';
+import { ContactDuplicatesService } from './contact-duplicates.service';
 import { CreateContactDto } from './dto/create-contact.dto';
 import { UpdateContactDto } from './dto/update-contact.dto';
 import { ContactQueryDto } from './dto/contact-query.dto';
 import { BulkUploadContactsDto } from './dto/bulk-upload-contacts.dto';
+import {
+  ConfirmContactImportDto,
+  ContactFieldChangeQueryDto,
+  CreateImportMappingPresetDto,
+  ImportErrorReportQueryDto,
+  ImportOrganizationQueryDto,
+} from './dto/contact-import.dto';
+import { ContactDuplicateQueryDto, MergeContactsDto } from './dto/contact-duplicates.dto';
 import {
   CreateSelectionSessionDto,
   UpdateSelectionDto,
@@ -32,6 +43,8 @@ export class ContactsController {
   constructor(
     private readonly contactsService: ContactsService,
     private readonly selectionSessionService: SelectionSessionService,
+    private readonly contactImportService: ContactImportService,
+    private readonly contactDuplicatesService: ContactDuplicatesService,
     private readonly userContextService: UserContextService,
   ) {}
 
@@ -111,6 +124,24 @@ export class ContactsController {
     );
   }
 
+  @Get('duplicates')
+  findDuplicates(@Query() query: ContactDuplicateQueryDto) {
+    return this.contactDuplicatesService.findDuplicates(query);
+  }
+
+  @Post('merge')
+  merge(@Body() mergeContactsDto: MergeContactsDto) {
+    return this.contactDuplicatesService.merge(mergeContactsDto);
+  }
+
+  @Get(':id/field-changes')
+  findFieldChanges(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ContactFieldChangeQueryDto,
+  ) {
+    return this.contactsService.findFieldChanges(id, query);
+  }
+
   @Patch(':id/unsubscribe')
   unsubscribe(@Param('id') id: string) {
     return this.contactsService.unsubscribeContact(id);
@@ -171,6 +202,44 @@ export class ContactsController {
     return result;
   }
 
+  @Post('import/preview')
+  @UseInterceptors(FileInterceptor('file'))
+  previewImport(
+    @UploadedFile() file: any,
+    @Query() query: ImportOrganizationQueryDto,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file provided');
+    }
+    return this.contactImportService.preview(file, query.organizationId);
+  }
+
+  @Post('import/:fileId/confirm')
+  confirmImport(
+    @Param('fileId', ParseUUIDPipe) fileId: string,
+    @Body() confirmContactImportDto: ConfirmContactImportDto,
+  ) {
+    return this.contactImportService.confirm(fileId, confirmContactImportDto);
+  }
+
+  @Get('import/mapping-presets')
+  findImportMappingPresets(@Query() query: ImportOrganizationQueryDto) {
+    return this.contactImportService.findPresets(query.organizationId);
+  }
+
+  @Post('import/mapping-presets')
+  createImportMappingPreset(@Body() createImportMappingPresetDto: CreateImportMappingPresetDto) {
+    return this.contactImportService.createPreset(createImportMappingPresetDto);
+  }
+
+  @Delete('import/mapping-presets/:id')
+  removeImportMappingPreset(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ImportOrganizationQueryDto,
+  ) {
+    return this.contactImportService.removePreset(id, query.organizationId);
+  }
+
   @Public()
   @Get('template')
   async downloadTemplate(@Res() res: Response) {
@@ -199,6 +268,26 @@ export class ContactsController {
     return this.contactsService.getUploadProgress(fileId);
   }
 
+  @Get('upload-progress/:fileId/error-report')
+  async downloadImportErrorReport(
+    @Param('fileId', ParseUUIDPipe) fileId: string,
+    @Query() query: ImportErrorReportQueryDto,
+    @Res() res: Response,
+  ) {
+    const report = await this.contactImportService.buildErrorReport(
+      fileId,
+      query.format ?? 'csv',
+      query.organizationId,
+    );
+
+    res.setHeader('Content-Type', report.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename=${report.filename}`,
+    );
+    res.send(report.content);
+  }
+
   @Delete('cancel-bulk-upload/:jobId')
   async cancelBulkUpload(@Param('jobId') jobId: string) {
     return this.contactsService.cancelBulkUpload(jobId);
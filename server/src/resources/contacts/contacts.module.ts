@@ -5,25 +5,43 @@ import { ContactRepository } from './contacts.repository';
 import { SelectionSessionService } from './selection-session.service';
 import { SelectionSessionRepository } from './selection-session.repository';
 import { SimpleBulkUploadService } from './simple-bulk-upload.service';
+import { ContactImportService } from './contact-import.service';
+import { ContactDuplicatesService } from './contact-duplicates.service';
 import { SequelizeModule } from '@nestjs/sequelize';
 import { Contact } from './entities/contact.entity';
 import { SelectionSession } from './entities/selection-session.entity';
+import { ContactImportMappingPreset } from './entities/contact-import-mapping-preset.entity';
+import { ContactFieldChange } from './entities/contact-field-change.entity';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
+import { EmailMessage } from 'src/resources/campaigns/entities/email-message.entity';
+import { InboxThread } from 'src/resources/inbox/entities/inbox-thread.entity';
 import { ExcelModule } from 'src/configuration/excel/excel.module';
 import { MulterModule } from 'src/configuration/multer/multer.module';
 import { ContactListsModule } from 'src/resources/contact-lists/contact-lists.module';
 import { WsModule } from 'src/resources/ws/ws.module';
 import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
+import { WebhooksModule } from 'src/resources/webhooks/webhooks.module';
+import { EmailVerificationModule } from 'src/resources/email-verification/email-verification.module';
 
 @Global()
 @Module({
   imports: [
-    SequelizeModule.forFeature([Contact, SelectionSession, ContactListMember]),
+    SequelizeModule.forFeature([
+      Contact,
+      SelectionSession,
+      ContactListMember,
+      ContactImportMappingPreset,
+      ContactFieldChange,
+      EmailMessage, // Re-pointed by contact merges
+      InboxThread,
+    ]),
     ExcelModule,
     MulterModule,
     ContactListsModule,
     WsModule,
     AuditLogsModule,
+    WebhooksModule, // For contact_import.completed webhooks
+    EmailVerificationModule, // For verifying imported contacts
   ],
   controllers: [ContactsController],
   providers: [
@@ -32,6 +50,8 @@ import { AuditLogsModule } from 'src/resources/audit-logs/audit-logs.module';
     SelectionSessionService,
     SelectionSessionRepository,
     SimpleBulkUploadService,
+    ContactImportService,
+    ContactDuplicatesService,
   ],
   exports: [
     ContactsService,
@@ -17,6 +17,10 @@ import { BaseService } from 'src/common/services/base.service';
 import { ExcelService } from 'src/configuration/excel/excel.service';
 import { MulterService } from 'src/configuration/multer/multer.service';
 import { SimpleBulkUploadService } from './simple-bulk-upload.service';
+import { PENDING_IMPORT_SUFFIX } from './contact-import.service';
+import { PendingContactImport } from './dto/contact-import.interface';
+import { ContactFieldChangeQueryDto } from './dto/contact-import.dto';
+import { ContactFieldChange } from './entities/contact-field-change.entity';
 import { ContactBulkUploadQueue } from 'src/configuration/bull/queues/contact-bulk-upload.queue';
 import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
 import { InjectModel } from '@nestjs/sequelize';
@@ -29,6 +33,8 @@ import {
   ALLOWED_FILE_EXTENSIONS,
   ALLOWED_MIME_TYPES,
   CONTACT_SEARCH_FIELDS,
+  IMPORT_ERROR_REPORT_RETENTION_DAYS,
+  IMPORT_ERROR_REPORT_SUFFIX,
   MAX_ROWS_PER_BULK_UPLOAD,
 } from './contacts.constants';
 import { Op } from 'sequelize';
@@ -50,6 +56,8 @@ export class ContactsService extends BaseService<Contact> implements OnModuleIni
     private readonly transactionManager: TransactionManager,
     @InjectModel(ContactListMember)
     private readonly contactListMemberModel: typeof ContactListMember,
+    @InjectModel(ContactFieldChange)
+    private readonly contactFieldChangeModel: typeof ContactFieldChange,
     @Inject(forwardRef(() => ContactListsService))
     private readonly contactListsService: ContactListsService,
   ) {
@@ -80,6 +88,8 @@ export class ContactsService extends BaseService<Contact> implements OnModuleIni
         return stats;
       }
 
+      stats.cleaned += this.cleanupExpiredImportFiles();
+
       const files = fs.readdirSync(this.bulkUploadDir);
       this.logger.log(`Found ${files.length} files in bulk upload directory`);
 
@@ -268,6 +278,30 @@ export class ContactsService extends BaseService<Contact> implements OnModuleIni
     return contact as Contact;
   }
 
+  /**
+   * Field changes made to a contact by imports, newest first
+   */
+  async findFieldChanges(id: string, query: ContactFieldChangeQueryDto) {
+    const contact = await this.findContactById(id);
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    const { rows, count } = await this.contactFieldChangeModel.findAndCountAll({
+      where: { contactId: contact.id, organizationId: contact.organizationId },
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      data: rows,
+      total: count,
+      page,
+      limit,
+      totalPages: Math.ceil(count / limit),
+    };
+  }
+
   async findByEmail(email: string, organizationId: string): Promise<Contact> {
     const contact = await this.contactRepository.findOne({
       where: { email, organizationId },
@@ -595,9 +629,81 @@ export class ContactsService extends BaseService<Contact> implements OnModuleIni
     }
   }
 
+  /**
+   * Remove previewed imports whose mapping was never confirmed and error reports past their retention
+   * Both hold contact data, ScheduledTasksService runs this hourly besides the startup recovery
+   * @returns Number of files removed
+   */
+  cleanupExpiredImportFiles(): number {
+    if (!fs.existsSync(this.bulkUploadDir)) {
+      return 0;
+    }
+
+    let cleaned = 0;
+    for (const file of fs.readdirSync(this.bulkUploadDir)) {
+      const filePath = path.join(this.bulkUploadDir, file);
+      if (file.endsWith(IMPORT_ERROR_REPORT_SUFFIX) && this.removeExpiredErrorReport(filePath)) {
+        cleaned++;
+      } else if (file.endsWith(PENDING_IMPORT_SUFFIX) && this.removeExpiredPendingImport(filePath)) {
+        cleaned++;
+      }
+    }
+    return cleaned;
+  }
+
+  /**
+   * Remove a pending import and its file once it is older than 24 hours
+   * @returns Whether it was removed
+   */
+  private removeExpiredPendingImport(pendingPath: string): boolean {
+    try {
+      const maxAge = 24 * 60 * 60 * 1000; // 24 hours
+      if (Date.now() - fs.statSync(pendingPath).mtimeMs <= maxAge) {
+        return false;
+      }
+
+      const pending = JSON.parse(fs.readFileSync(pendingPath, 'utf-8')) as PendingContactImport;
+      if (pending.filePath && fs.existsSync(pending.filePath)) {
+        fs.unlinkSync(pending.filePath);
+      }
+      fs.unlinkSync(pendingPath);
+      this.logger.log(`Pending import ${pending.fileId} is older than 24 hours, cleaned up`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error cleaning up pending import ${pendingPath}:`, error);
+      return false;
+    }
+  }
+
+  private removeExpiredErrorReport(reportPath: string): boolean {
+    try {
+      const maxAge = IMPORT_ERROR_REPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      if (Date.now() - fs.statSync(reportPath).mtimeMs <= maxAge) {
+        return false;
+      }
+
+      fs.unlinkSync(reportPath);
+      this.logger.log(`Error report ${path.basename(reportPath)} is older than ${IMPORT_ERROR_REPORT_RETENTION_DAYS} days, cleaned up`);
+      return true;
+    } catch (error) {
+      this.logger.error(`Error cleaning up error report ${reportPath}:`, error);
+      return false;
+    }
+  }
+
   async getUploadProgress(fileId: string): Promise<any> {
     try {
-      return await this.contactBulkUploadQueue.getJobStatus(fileId);
+      const status = await this.contactBulkUploadQueue.getJobStatus(fileId);
+      if (!status) {
+        return status;
+      }
+      // Rejected rows are downloadable from upload-progress/:fileId/error-report
+      return {
+        ...status,
+        errorReportAvailable: fs.existsSync(
+          path.join(this.bulkUploadDir, `${path.basename(fileId)}${IMPORT_ERROR_REPORT_SUFFIX}`),
+        ),
+      };
     } catch (error) {
       this.logger.warn(`Failed to get upload progress for fileId ${fileId}:`, error);
       return null;
@@ -0,0 +1,53 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { MAX_DUPLICATE_PAIRS_LIMIT } from '../contacts.constants';
+
+export class ContactDuplicateQueryDto {
+  /** Lowest score of a pair, 1-100 */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  minScore?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_DUPLICATE_PAIRS_LIMIT)
+  limit?: number;
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
+
+export class MergeContactsDto {
+  /** The two contacts to merge */
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsUUID(undefined, { each: true })
+  contactIds: string[];
+
+  /** Contact that survives the merge, picked from the two when left out */
+  @IsOptional()
+  @IsUUID()
+  survivorId?: string;
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,57 @@
+/**
+ * Why two contacts are considered the same person
+ * SAME_EMAIL: the addresses only differ by case, a +tag or Gmail dots,
+ * EMAIL_VARIANT: same domain and one local part extends the other (john@ and john.smith@),
+ * NAME_AND_COMPANY: same first and last name at the same company domain,
+ * LINKEDIN: same LinkedIn profile, PHONE: same phone number
+ */
+export enum DuplicateMatchReason {
+  SAME_EMAIL = 'SAME_EMAIL',
+  EMAIL_VARIANT = 'EMAIL_VARIANT',
+  NAME_AND_COMPANY = 'NAME_AND_COMPANY',
+  LINKEDIN = 'LINKEDIN',
+  PHONE = 'PHONE',
+}
+
+/** Contact fields the duplicate finder compares */
+export interface DuplicateCandidate {
+  id: string;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  companyDomain?: string | null;
+  linkedin?: string | null;
+  phone?: string | null;
+}
+
+export interface DuplicateMatch {
+  /** 1-100, the sum of the scores of the reasons */
+  score: number;
+  reasons: DuplicateMatchReason[];
+}
+
+export interface DuplicatePair extends DuplicateMatch {
+  contactIds: [string, string];
+}
+
+export interface ContactDuplicatePair extends DuplicateMatch {
+  contacts: Record<string, any>[];
+}
+
+export interface ContactDuplicatesResult {
+  /** Pairs at or above the minimum score, pairs holds the best of them */
+  total: number;
+  pairs: ContactDuplicatePair[];
+}
+
+export interface ContactMergeResult {
+  survivorId: string;
+  mergedContactId: string;
+  /** Fields of the surviving contact filled or changed from the merged one */
+  changedFields: string[];
+  listMembershipsMoved: number;
+  /** Memberships of lists the surviving contact was already in, removed */
+  listMembershipsRemoved: number;
+  emailMessagesMoved: number;
+  inboxThreadsMoved: number;
+}
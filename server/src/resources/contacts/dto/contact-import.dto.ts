@@ -0,0 +1,129 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { CUSTOM_FIELD_KEY_PATTERN } from 'src/resources/contact-lists/constants/dynamic-list.constants';
+import {
+  IMPORTABLE_CONTACT_FIELDS,
+  IMPORT_OVERWRITE_FIELD_PATTERN,
+} from '../contacts.constants';
+import {
+  ContactImportStrategy,
+  ImportColumnMapping,
+  ImportColumnTarget,
+  ImportableContactField,
+} from './contact-import.interface';
+
+export class ImportColumnMappingDto implements ImportColumnMapping {
+  @IsString()
+  @MaxLength(255)
+  column: string;
+
+  @IsEnum(ImportColumnTarget)
+  target: ImportColumnTarget;
+
+  @ValidateIf((mapping: ImportColumnMappingDto) => mapping.target === ImportColumnTarget.FIELD)
+  @IsIn(IMPORTABLE_CONTACT_FIELDS)
+  field?: ImportableContactField;
+
+  @ValidateIf((mapping: ImportColumnMappingDto) => mapping.target === ImportColumnTarget.CUSTOM_FIELD)
+  @IsString()
+  @Matches(CUSTOM_FIELD_KEY_PATTERN, {
+    message: 'customFieldName may only contain letters, digits, underscores and dashes',
+  })
+  customFieldName?: string;
+}
+
+export class ConfirmContactImportDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ImportColumnMappingDto)
+  mapping: ImportColumnMappingDto[];
+
+  /** What to do with rows whose email already belongs to an active contact, defaults to SKIP */
+  @IsOptional()
+  @IsEnum(ContactImportStrategy)
+  strategy?: ContactImportStrategy;
+
+  /** Fields replaced by OVERWRITE_SELECTED, custom fields as customFields.<key> */
+  @ValidateIf((dto: ConfirmContactImportDto) => dto.strategy === ContactImportStrategy.OVERWRITE_SELECTED)
+  @IsArray()
+  @ArrayMinSize(1)
+  @Matches(IMPORT_OVERWRITE_FIELD_PATTERN, {
+    each: true,
+    message: 'overwriteFields may only contain contact fields and customFields.<key> entries',
+  })
+  overwriteFields?: string[];
+
+  /** Also save the mapping as a preset under this name */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  savePresetName?: string;
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
+
+export class CreateImportMappingPresetDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ImportColumnMappingDto)
+  mapping: ImportColumnMappingDto[];
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
+
+export class ImportOrganizationQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
+
+export class ContactFieldChangeQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
+
+export class ImportErrorReportQueryDto extends ImportOrganizationQueryDto {
+  @IsOptional()
+  @IsIn(['csv', 'xlsx'])
+  format?: 'csv' | 'xlsx';
+}
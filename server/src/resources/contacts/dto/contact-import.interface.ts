@@ -0,0 +1,94 @@
+import { IMPORTABLE_CONTACT_FIELDS, MERGEABLE_IMPORT_FIELDS } from '../contacts.constants';
+
+export type ImportableContactField = (typeof IMPORTABLE_CONTACT_FIELDS)[number];
+
+export type MergeableContactField = (typeof MERGEABLE_IMPORT_FIELDS)[number];
+
+/**
+ * What an import does with rows whose email already belongs to an active contact
+ * SKIP: leave the contact as it is, OVERWRITE: replace every field the row has a value for,
+ * FILL_BLANKS: only set fields the contact has no value for,
+ * OVERWRITE_SELECTED: replace the fields listed in overwriteFields and leave the others
+ */
+export enum ContactImportStrategy {
+  SKIP = 'SKIP',
+  OVERWRITE = 'OVERWRITE',
+  FILL_BLANKS = 'FILL_BLANKS',
+  OVERWRITE_SELECTED = 'OVERWRITE_SELECTED',
+}
+
+export interface ContactImportOptions {
+  strategy: ContactImportStrategy;
+  /** Fields replaced by OVERWRITE_SELECTED, custom fields as customFields.<key> */
+  overwriteFields?: string[];
+}
+
+/** One field changed on an existing contact */
+export interface ContactFieldChangeEntry {
+  field: string;
+  previousValue: string | null;
+  newValue: string;
+}
+
+/**
+ * Where the values of an import column go
+ */
+export enum ImportColumnTarget {
+  FIELD = 'FIELD',
+  CUSTOM_FIELD = 'CUSTOM_FIELD',
+  IGNORE = 'IGNORE',
+}
+
+export interface ImportColumnMapping {
+  /** Header of the column in the file */
+  column: string;
+  target: ImportColumnTarget;
+  /** Contact field, for FIELD columns */
+  field?: ImportableContactField;
+  /** Contact.customFields key, for CUSTOM_FIELD columns */
+  customFieldName?: string;
+}
+
+export interface ContactImportPreview {
+  fileId: string;
+  fileName: string;
+  headers: string[];
+  /** First rows of the file, keyed by header */
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+  /** Preset whose columns match the file's headers, its mapping is the suggestion */
+  matchedPresetId: string | null;
+  suggestedMapping: ImportColumnMapping[];
+}
+
+/**
+ * Kept next to an uploaded file until its mapping is confirmed
+ */
+export interface PendingContactImport {
+  fileId: string;
+  fileName: string;
+  filePath: string;
+  organizationId: string;
+  headers: string[];
+  createdBy: string | null;
+  createdAt: string;
+}
+
+/** A row an import rejected, with the values it had in the file */
+export interface RejectedImportRow {
+  /** Line of the row in the file, the header is line 1 */
+  rowNumber: number;
+  values: Record<string, string>;
+  errors: string[];
+}
+
+/**
+ * Rejected rows of a finished import, kept next to the uploaded files for download
+ */
+export interface ImportErrorReport {
+  fileId: string;
+  organizationId: string;
+  headers: string[];
+  rows: RejectedImportRow[];
+  createdAt: string;
+}
@@ -189,6 +189,9 @@ export interface CleanedContactRow {
   companyIndustry?: string;
   companySize?: string;
   companyRevenue?: string;
+
+  /** Values of columns mapped to custom fields */
+  customFields?: Record<string, string>;
 }
 
 /**
@@ -205,6 +208,12 @@ export interface UploadProgress {
   duplicatesInDB: number;
   uploadedCount: number;
   restoredRows?: number; // NEW: Track restored soft-deleted contacts
+  /** Existing contacts changed by the import's upsert strategy */
+  updatedRows?: number;
+  /** Existing contacts left as they were */
+  unchangedRows?: number;
+  /** Rejected rows downloadable from upload-progress/:fileId/error-report */
+  errorReportRows?: number;
   timestamp: string;
   elapsedMs?: number;
   errors?: string[];
@@ -0,0 +1,82 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { Contact } from './contact.entity';
+
+/**
+ * A field of an existing contact changed by an import or a merge, one row per field
+ */
+@Table({
+  tableName: 'contact_field_changes',
+  timestamps: true,
+  underscored: true,
+  paranoid: false,
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'idx_contact_field_changes_contact_created',
+      fields: ['contact_id', 'created_at'],
+    },
+    {
+      name: 'idx_contact_field_changes_org_source',
+      fields: ['organization_id', 'source_id'],
+    },
+  ],
+})
+export class ContactFieldChange extends BaseEntity {
+  @ForeignKey(() => Contact)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  contactId: string;
+
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  /** Contact field, or customFields.<key> for custom fields */
+  @Column({
+    type: DataType.STRING(120),
+    allowNull: false,
+  })
+  field: string;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  previousValue: string | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  newValue: string | null;
+
+  @Column({
+    type: DataType.STRING(20),
+    allowNull: false,
+    defaultValue: 'IMPORT',
+  })
+  source: string;
+
+  /** File ID of the import that made the change, or the contact merged into it */
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: true,
+  })
+  sourceId: string | null;
+
+  @BelongsTo(() => Contact, { onDelete: 'CASCADE' })
+  contact: Contact;
+}
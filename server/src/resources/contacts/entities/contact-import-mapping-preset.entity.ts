@@ -0,0 +1,51 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { ImportColumnMapping } from '../dto/contact-import.interface';
+
+/**
+ * A saved column mapping, reused for files exported from the same tool
+ */
+@Table({
+  tableName: 'contact_import_mapping_presets',
+  timestamps: true,
+  underscored: true,
+  paranoid: false,
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'unique_contact_import_mapping_preset_org_name',
+      unique: true,
+      fields: ['organization_id', 'name'],
+    },
+  ],
+})
+export class ContactImportMappingPreset extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  @Column({
+    type: DataType.STRING(100),
+    allowNull: false,
+  })
+  name: string;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: false,
+  })
+  mapping: ImportColumnMapping[];
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+}
@@ -17,11 +17,17 @@ export enum ContactStatus {
   INACTIVE = 'INACTIVE',
 }
 
+/**
+ * Outcome of the last email verification, set by EmailVerifierService
+ * FAILED addresses can't receive mail, RISKY ones can but are disposable, role or catch-all addresses.
+ * emailVerificationSubStatus holds the EmailVerificationSubStatus explaining the outcome.
+ */
 export enum EmailVerificationStatus {
   VERIFIED = 'VERIFIED',
   UNVERIFIED = 'UNVERIFIED',
   PENDING = 'PENDING',
   FAILED = 'FAILED',
+  RISKY = 'RISKY',
 }
 
 @Table({
@@ -234,6 +240,13 @@ export class Contact extends BaseEntity {
   })
   recentlyReplyDate: Date;
 
+  /** Return date from an out-of-office reply, campaign emails to the contact wait until then */
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  outOfOfficeUntil: Date | null;
+
   @Column({
     type: DataType.STRING(255),
     allowNull: true,
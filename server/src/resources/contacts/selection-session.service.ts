@@ -143,6 +143,13 @@ export class SelectionSessionService {
   ): Promise<ApplyResult> {
     const session = await this.validateSession(sessionId, userId);
 
+    const list = (await this.contactListsRepository.findById(session.listId)) as any;
+    if (list?.isDynamic) {
+      throw new BadRequestException(
+        'Dynamic contact lists are computed from their filter conditions and cannot be edited manually',
+      );
+    }
+
     const addedContacts = this.getAddedContacts(session);
     const removedContacts = this.getRemovedContacts(session);
 
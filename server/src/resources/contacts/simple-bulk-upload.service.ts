@@ -1,12 +1,23 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
 import { ContactRepository } from './contacts.repository';
-import { ContactStatus } from './entities/contact.entity';
+import { Contact, ContactStatus } from './entities/contact.entity';
+import { ContactFieldChange } from './entities/contact-field-change.entity';
 import { WsGateway } from '../ws/ws.gateway';
 import { ExcelService } from 'src/configuration/excel/excel.service';
 import { UserContextService } from 'src/common/services/user-context.service';
 import { ContactListType } from '../contact-lists/enums/contact-list-type.enum';
 import { AuditLogsService } from 'src/resources/audit-logs/audit-logs.service';
 import { AuditAction } from 'src/resources/audit-logs/entities/audit-log.entity';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
+import { WebhookEvent } from 'src/resources/webhooks/entities/webhook-endpoint.entity';
+import { EmailVerificationService } from 'src/resources/email-verification/email-verification.service';
+import { EMAIL_VERIFICATION_JOB_SIZE } from 'src/resources/email-verification/email-verification.constants';
+import {
+  applyColumnMapping,
+  importCellToString,
+} from 'src/common/utils/contact-import-mapping.util';
+import { mergeImportedContact } from 'src/common/utils/contact-import-merge.util';
 import { plainToInstance } from 'class-transformer';
 import { validateSync } from 'class-validator';
 import {
@@ -14,13 +25,46 @@ import {
   CleanedContactRow,
   UploadProgress,
 } from './dto/contact-row.dto';
+import {
+  ContactImportOptions,
+  ContactImportStrategy,
+  ImportColumnMapping,
+  ImportErrorReport,
+  RejectedImportRow,
+} from './dto/contact-import.interface';
+import {
+  IMPORT_ERROR_REPORT_SUFFIX,
+  MERGEABLE_IMPORT_FIELDS,
+} from './contacts.constants';
 import * as fs from 'fs';
+import * as path from 'path';
 import { parse } from 'fast-csv';
 import { Op, QueryTypes } from 'sequelize';
 
+/** Profile fields beyond name, company, job title and phone that imports can set */
+const IMPORTED_PROFILE_FIELDS = [
+  'timezone',
+  'department',
+  'industry',
+  'experience',
+  'linkedin',
+  'twitter',
+  'facebook',
+  'website',
+  'city',
+  'state',
+  'country',
+  'companyDomain',
+  'companyWebsite',
+  'companyIndustry',
+  'companySize',
+  'companyRevenue',
+] as const;
+
 @Injectable()
 export class SimpleBulkUploadService {
   private readonly logger = new Logger(SimpleBulkUploadService.name);
+  private readonly bulkUploadDir = path.join(process.cwd(), 'uploads', 'contacts', 'bulk-upload');
 
   // ===== OPTIMIZATION: Adaptive batch configuration =====
   private batchSize: number = 500;
@@ -41,6 +85,10 @@ export class SimpleBulkUploadService {
     private readonly excelService: ExcelService,
     private readonly userContextService: UserContextService,
     private readonly auditLogsService: AuditLogsService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
+    private readonly emailVerificationService: EmailVerificationService,
+    @InjectModel(ContactFieldChange)
+    private readonly contactFieldChangeModel: typeof ContactFieldChange,
   ) {}
 
   /**
@@ -49,12 +97,16 @@ export class SimpleBulkUploadService {
    * 2. DTO validation (class-validator)
    * 3. Enhanced progress tracking
    * 4. Queue-ready architecture
+   * CSV files without a mapping are read with the fixed template headers
+   * Active contacts found in the file are updated following importOptions.strategy, SKIP by default
    */
   async processBulkUpload(
     fileId: string,
     filePath: string,
     organizationId: string,
     userId?: string,
+    mapping?: ImportColumnMapping[],
+    importOptions?: ContactImportOptions,
   ): Promise<void> {
     const startedAt = Date.now();
     let totalRows = 0;
@@ -63,9 +115,13 @@ export class SimpleBulkUploadService {
     let duplicatesInDB = 0;
     let insertedCount = 0;
     let restoredCount = 0; // NEW: Track restored soft-deleted contacts
+    let updatedCount = 0;
+    const strategy = importOptions?.strategy ?? ContactImportStrategy.SKIP;
     const batchSize = 500;
     const validEmails = new Set<string>();
     const allValidContacts: CleanedContactRow[] = [];
+    let headers: string[] = [];
+    const rejectedRows: RejectedImportRow[] = [];
 
     try {
       this.logger.log(`Starting bulk upload for fileId: ${fileId}`);
@@ -85,99 +141,145 @@ export class SimpleBulkUploadService {
         elapsedMs: Date.now() - startedAt,
       });
 
-      // ===== STEP 2: Parse CSV file using fast-csv =====
-      this.logger.log(`Reading CSV file: ${filePath}`);
-
-      // Parse CSV with fast-csv streaming
-      await new Promise<void>((resolve, reject) => {
-        const stream = fs.createReadStream(filePath);
-
-        stream
-          .pipe(parse({ headers: true }))
-          .on('error', (error) => {
-            this.logger.error(`CSV parsing error:`, error);
-            reject(error);
-          })
-          .on('data', async (rowData: any) => {
-            try {
-              totalRows++;
+      // ===== STEP 2: Parse the file =====
+      // Rejected rows keep their values for the downloadable error report
+      const rejectRow = (rowData: Record<string, unknown>, rowNumber: number, errors: string[]) => {
+        invalidCount++;
+        rejectedRows.push({
+          rowNumber,
+          values: Object.fromEntries(headers.map((header) => [header, importCellToString(rowData[header])])),
+          errors,
+        });
+      };
 
-              // Yield to event loop every 100 rows
-              if (totalRows % 100 === 0) {
-                await new Promise((resolve) => setImmediate(resolve));
-              }
+      // rowNumber is the line in the file, the header is line 1
+      const processRow = (rowData: Record<string, unknown>, rowNumber: number) => {
+        // Mapped imports apply the confirmed column mapping, others expect the template headers
+        const cleaned = mapping
+          ? applyColumnMapping(rowData, mapping)
+          : this.extractRowFromCsvData(rowData, totalRows <= 5);
+
+        // Skip empty rows
+        if (!cleaned) {
+          rejectRow(rowData, rowNumber, ['Row has no email, first name or last name']);
+          return;
+        }
 
-              // Extract row data from CSV row object
-              const cleaned = this.extractRowFromCsvData(rowData, totalRows <= 5);
+        // DTO Validation using class-validator
+        const dto = plainToInstance(ContactRowDto, cleaned);
+        const errors = validateSync(dto, {
+          whitelist: true,
+          skipMissingProperties: false,
+        });
 
-              // Skip empty rows
-              if (!cleaned) {
-                invalidCount++;
-                return;
-              }
+        if (errors.length > 0) {
+          rejectRow(
+            rowData,
+            rowNumber,
+            errors.flatMap((e) => Object.values(e.constraints || {})),
+          );
+          // Log detailed validation errors with actual values
+          const detailedErrors = errors.map((e) => {
+            const constraints = Object.values(e.constraints || {}).join(', ');
+            return `${e.property}: ${constraints} (actual value: "${e.value}")`;
+          });
+          this.logger.warn(
+            `Row ${totalRows} validation failed: ${detailedErrors.join('; ')}`,
+          );
+          return;
+        }
 
-              // DTO Validation using class-validator
-              const dto = plainToInstance(ContactRowDto, cleaned);
-              const errors = validateSync(dto, {
-                whitelist: true,
-                skipMissingProperties: false,
-              });
+        // Check for duplicates in file
+        const email = cleaned.email.toLowerCase();
+        if (validEmails.has(email)) {
+          duplicatesInFile++;
+          return;
+        }
 
-              if (errors.length > 0) {
-                invalidCount++;
-                // Log detailed validation errors with actual values
-                const detailedErrors = errors.map((e) => {
-                  const constraints = Object.values(e.constraints || {}).join(', ');
-                  return `${e.property}: ${constraints} (actual value: "${e.value}")`;
-                });
-                this.logger.warn(
-                  `Row ${totalRows} validation failed: ${detailedErrors.join('; ')}`,
-                );
-                return;
-              }
+        validEmails.add(email);
+        allValidContacts.push(cleaned);
+
+        // OPTIMIZATION: Throttled progress updates (time-based instead of count-based)
+        if (totalRows % 1000 === 0) {
+          const percentage = 10 + Math.min(35, (totalRows / 10000) * 35); // 10-45% for parsing
+          this.emitProgressThrottled(fileId, {
+            stage: 'parsing',
+            percentage: Math.round(percentage),
+            message: `Parsing row ${totalRows}...`,
+            parsedCount: totalRows,
+            validRows: validEmails.size,
+            validationErrorCount: invalidCount,
+            duplicatesInFile: duplicatesInFile,
+            duplicatesInDB: 0,
+            uploadedCount: 0,
+            timestamp: new Date().toISOString(),
+            elapsedMs: Date.now() - startedAt,
+          });
+        }
+      };
 
-              // Check for duplicates in file
-              const email = cleaned.email.toLowerCase();
-              if (validEmails.has(email)) {
-                duplicatesInFile++;
-                return;
-              }
+      if (path.extname(filePath).toLowerCase() === '.xlsx') {
+        this.logger.log(`Reading spreadsheet: ${filePath}`);
 
-              validEmails.add(email);
-              allValidContacts.push(cleaned);
-
-              // OPTIMIZATION: Throttled progress updates (time-based instead of count-based)
-              if (totalRows % 1000 === 0) {
-                const percentage = 10 + Math.min(35, (totalRows / 10000) * 35); // 10-45% for parsing
-                this.emitProgressThrottled(fileId, {
-                  stage: 'parsing',
-                  percentage: Math.round(percentage),
-                  message: `Parsing row ${totalRows}...`,
-                  parsedCount: totalRows,
-                  validRows: validEmails.size,
-                  validationErrorCount: invalidCount,
-                  duplicatesInFile: duplicatesInFile,
-                  duplicatesInDB: 0,
-                  uploadedCount: 0,
-                  timestamp: new Date().toISOString(),
-                  elapsedMs: Date.now() - startedAt,
-                });
+        const rows = await this.excelService.parseExcel(fs.readFileSync(filePath));
+        // parseExcel keys each row by header, columns without any value are not in the rows
+        headers = [...new Set(rows.flatMap((row) => Object.keys(row)))].filter(
+          (header) => header && header !== 'undefined',
+        );
+        for (const rowData of rows) {
+          totalRows++;
+          const rowNumber = totalRows + 1;
+          try {
+            processRow(rowData, rowNumber);
+          } catch (error) {
+            this.logger.error(`Error processing row ${totalRows}:`, error);
+            rejectRow(rowData, rowNumber, [this.rowProcessingError(error)]);
+          }
+        }
+      } else {
+        this.logger.log(`Reading CSV file: ${filePath}`);
+
+        // Parse CSV with fast-csv streaming
+        await new Promise<void>((resolve, reject) => {
+          const stream = fs.createReadStream(filePath);
+
+          stream
+            .pipe(parse({ headers: true }))
+            .on('error', (error) => {
+              this.logger.error(`CSV parsing error:`, error);
+              reject(error);
+            })
+            .on('headers', (parsedHeaders: string[]) => {
+              headers = parsedHeaders;
+            })
+            .on('data', async (rowData: any) => {
+              totalRows++;
+              const rowNumber = totalRows + 1;
+              try {
+                // Yield to event loop every 100 rows
+                if (totalRows % 100 === 0) {
+                  await new Promise((resolve) => setImmediate(resolve));
+                }
+
+                processRow(rowData, rowNumber);
+              } catch (error) {
+                this.logger.error(`Error processing row ${rowNumber - 1}:`, error);
+                rejectRow(rowData, rowNumber, [this.rowProcessingError(error)]);
               }
-            } catch (error) {
-              this.logger.error(`Error processing row ${totalRows}:`, error);
-              invalidCount++;
-            }
-          })
-          .on('end', () => {
-            this.logger.log(`CSV parsing complete`);
-            resolve();
-          });
-      });
+            })
+            .on('end', () => {
+              this.logger.log(`CSV parsing complete`);
+              resolve();
+            });
+        });
+      }
 
       this.logger.log(
         `Parsing complete: ${totalRows} rows, ${validEmails.size} valid, ${invalidCount} invalid, ${duplicatesInFile} duplicates in file`,
       );
 
+      const errorReportRows = this.saveErrorReport(fileId, organizationId, headers, rejectedRows);
+
       // ===== STEP 3: Check DB for duplicates (OPTIMIZED: CHUNKED QUERIES) =====
       this.emitProgressThrottled(fileId, {
         stage: 'deduplicating',
@@ -206,6 +308,7 @@ export class SimpleBulkUploadService {
       const newContacts = [];
       const contactsToRestore = [];
       const activeDuplicatesWithList = []; // Active duplicates that have list assignments
+      const contactsToUpdate: Array<CleanedContactRow & { id: string }> = [];
       
       for (const contact of allValidContacts) {
         const emailLower = contact.email.toLowerCase();
@@ -213,6 +316,12 @@ export class SimpleBulkUploadService {
         if (activeEmails.has(emailLower)) {
           // Active duplicate - skip insertion but include in list assignment if has list
           duplicatesInDB++;
+
+          // Upsert strategies merge the row into the existing contact
+          const existingId = activeContactIds.get(emailLower);
+          if (strategy !== ContactImportStrategy.SKIP && existingId) {
+            contactsToUpdate.push({ ...contact, id: existingId });
+          }
           
           // If contact has a list assignment, include it for list processing
           if (contact.list && contact.list.trim()) {
@@ -282,6 +391,32 @@ export class SimpleBulkUploadService {
         );
       }
 
+      // ===== STEP 4.6: Update existing contacts =====
+      if (contactsToUpdate.length > 0) {
+        updatedCount = await this.updateExistingContacts(
+          fileId,
+          contactsToUpdate,
+          organizationId,
+          userId,
+          importOptions!,
+          {
+            totalRows,
+            validRows: validEmails.size,
+            invalidCount,
+            duplicatesInFile,
+            duplicatesInDB,
+            insertedCount,
+            restoredCount,
+            startedAt,
+          },
+        );
+
+        this.logger.log(
+          `Updated ${updatedCount} of ${contactsToUpdate.length} existing contacts (strategy: ${strategy})`,
+        );
+      }
+      const unchangedCount = duplicatesInDB - updatedCount;
+
       // ===== STEP 5: Handle list assignments =====
       // Include new contacts, restored contacts, and active duplicates with list assignments
       const allProcessedContacts = [...newContacts, ...contactsToRestore, ...activeDuplicatesWithList];
@@ -302,6 +437,12 @@ export class SimpleBulkUploadService {
         },
       );
 
+      // ===== STEP 5.5: Verify new and restored email addresses =====
+      await this.queueEmailVerification(
+        [...newContacts, ...contactsToRestore].map((contact) => contact.email),
+        organizationId,
+      );
+
       // ===== STEP 6: Completion =====
       const completionMessage = listErrors.length > 0
         ? `Upload completed with ${listErrors.length} list error(s). See errors for details.`
@@ -318,6 +459,9 @@ export class SimpleBulkUploadService {
         duplicatesInDB: duplicatesInDB,
         uploadedCount: insertedCount,
         restoredRows: restoredCount, // NEW: Include restored count
+        updatedRows: updatedCount,
+        unchangedRows: unchangedCount,
+        errorReportRows,
         timestamp: new Date().toISOString(),
         elapsedMs: Date.now() - startedAt,
         errors: listErrors.length > 0 ? listErrors : undefined, // Include list errors in completion
@@ -327,7 +471,7 @@ export class SimpleBulkUploadService {
       fs.unlinkSync(filePath);
 
       this.logger.log(
-        `✅ Bulk upload complete - Parsed: ${totalRows}, Valid: ${validEmails.size}, Invalid: ${invalidCount}, Duplicates (file): ${duplicatesInFile}, Duplicates (DB): ${duplicatesInDB}, Inserted: ${insertedCount}, Restored: ${restoredCount}, Time: ${Date.now() - startedAt}ms`,
+        `✅ Bulk upload complete - Parsed: ${totalRows}, Valid: ${validEmails.size}, Invalid: ${invalidCount}, Duplicates (file): ${duplicatesInFile}, Duplicates (DB): ${duplicatesInDB}, Inserted: ${insertedCount}, Restored: ${restoredCount}, Updated: ${updatedCount}, Unchanged: ${unchangedCount}, Time: ${Date.now() - startedAt}ms`,
       );
 
       // Log final result in audit log with details
@@ -338,7 +482,7 @@ export class SimpleBulkUploadService {
           module: 'CONTACTS',
           action: AuditAction.CREATE,
           recordId: fileId,
-          description: `Bulk upload completed: ${insertedCount} contacts created, ${restoredCount} restored`,
+          description: `Bulk upload completed: ${insertedCount} contacts created, ${restoredCount} restored, ${updatedCount} updated`,
           details: {
             fileId: fileId,
             status: 'completed',
@@ -349,6 +493,10 @@ export class SimpleBulkUploadService {
             duplicatesInDB: duplicatesInDB,
             uploadedCount: insertedCount,
             restoredCount: restoredCount,
+            strategy,
+            updatedCount,
+            unchangedCount,
+            errorReportRows,
             listErrors: listErrors.length > 0 ? listErrors : undefined,
             elapsedMs: Date.now() - startedAt,
             completionMessage: completionMessage,
@@ -357,6 +505,22 @@ export class SimpleBulkUploadService {
       } catch (error) {
         this.logger.warn('Failed to log bulk upload completion:', error);
       }
+
+      await this.webhookDispatcherService.dispatch(organizationId, WebhookEvent.CONTACT_IMPORT_COMPLETED, {
+        fileId,
+        userId: userId ?? null,
+        totalRows,
+        validRows: validEmails.size,
+        invalidCount,
+        duplicatesInFile,
+        duplicatesInDB,
+        createdCount: insertedCount,
+        restoredCount,
+        updatedCount,
+        unchangedCount,
+        listErrors,
+        elapsedMs: Date.now() - startedAt,
+      });
     } catch (error) {
       this.logger.error(`❌ Bulk upload failed for ${fileId}:`, error);
 
@@ -413,6 +577,42 @@ export class SimpleBulkUploadService {
     }
   }
 
+  private rowProcessingError(error: unknown): string {
+    return `Row could not be processed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  /**
+   * Keep the rejected rows of an import so they can be downloaded, fixed and uploaded again
+   * @returns Number of rows in the report, 0 when there is none
+   */
+  private saveErrorReport(
+    fileId: string,
+    organizationId: string,
+    headers: string[],
+    rows: RejectedImportRow[],
+  ): number {
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    const report: ImportErrorReport = {
+      fileId,
+      organizationId,
+      headers,
+      rows,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      fs.mkdirSync(this.bulkUploadDir, { recursive: true });
+      fs.writeFileSync(path.join(this.bulkUploadDir, `${fileId}${IMPORT_ERROR_REPORT_SUFFIX}`), JSON.stringify(report));
+      return rows.length;
+    } catch (error) {
+      // The import itself goes on, only the download is missing
+      this.logger.warn(`Failed to save error report for ${fileId}:`, error);
+      return 0;
+    }
+  }
+
   /**
    * Extract row data from CSV row object
    * CSV columns: First Name, Last Name, Email, List, Company, Job Title, Phone, ...
@@ -662,6 +862,8 @@ export class SimpleBulkUploadService {
               company: c.company || '',
               jobTitle: c.jobTitle || '',
               phone: c.phone || '',
+              ...this.importedProfileAttributes(c),
+              customFields: c.customFields ?? null,
               source: 'IMPORT',
               status: ContactStatus.ACTIVE,
               subscribed: true,
@@ -728,6 +930,19 @@ export class SimpleBulkUploadService {
     return processedCount;
   }
 
+  /**
+   * Optional profile fields a mapped import can fill, only the ones present in the row
+   */
+  private importedProfileAttributes(contact: CleanedContactRow): Partial<CleanedContactRow> {
+    const attributes: Partial<CleanedContactRow> = {};
+    for (const field of IMPORTED_PROFILE_FIELDS) {
+      if (contact[field]) {
+        (attributes as any)[field] = contact[field];
+      }
+    }
+    return attributes;
+  }
+
   /**
    * Adjust batch size based on processing time
    * Implements a simple adaptive algorithm
@@ -815,6 +1030,15 @@ export class SimpleBulkUploadService {
                   company: contact.company || '',
                   jobTitle: contact.jobTitle || '',
                   phone: contact.phone || '',
+                  ...this.importedProfileAttributes(contact),
+                  ...(contact.customFields
+                    ? {
+                        customFields: {
+                          ...(typeof deletedContact.customFields === 'object' ? deletedContact.customFields : {}),
+                          ...contact.customFields,
+                        },
+                      }
+                    : {}),
                   source: 'IMPORT',
                   status: ContactStatus.ACTIVE,
                   subscribed: true,
@@ -869,6 +1093,113 @@ export class SimpleBulkUploadService {
     return restoredCount;
   }
 
+  /**
+   * Merge imported rows into the active contacts that have their email
+   * Every changed field is written to the contact's field change log with the import's fileId
+   * @returns Number of contacts that changed
+   */
+  private async updateExistingContacts(
+    fileId: string,
+    contacts: Array<CleanedContactRow & { id: string }>,
+    organizationId: string,
+    userId: string | undefined,
+    importOptions: ContactImportOptions,
+    stats: {
+      totalRows: number;
+      validRows: number;
+      invalidCount: number;
+      duplicatesInFile: number;
+      duplicatesInDB: number;
+      insertedCount: number;
+      restoredCount: number;
+      startedAt: number;
+    },
+  ): Promise<number> {
+    let updatedCount = 0;
+    const sequelize = this.contactRepository['model'].sequelize;
+    const currentUserId = userId || this.userContextService.getCurrentUserId();
+
+    for (let i = 0; i < contacts.length; i += this.batchSize) {
+      const batch = contacts.slice(i, i + this.batchSize);
+
+      try {
+        const existingContacts = await this.contactRepository['model'].findAll({
+          where: {
+            id: { [Op.in]: batch.map((contact) => contact.id) },
+            organizationId,
+          },
+          attributes: ['id', ...MERGEABLE_IMPORT_FIELDS, 'customFields'],
+        });
+        const existingById = new Map<string, Contact>(
+          existingContacts.map((contact: Contact) => [contact.id, contact]),
+        );
+
+        const batchUpdated = await sequelize.transaction(async (transaction) => {
+          let updated = 0;
+          const fieldChanges: Array<Partial<ContactFieldChange>> = [];
+
+          for (const contact of batch) {
+            const existing = existingById.get(contact.id);
+            if (!existing) {
+              continue;
+            }
+
+            const { attributes, changes } = mergeImportedContact(existing.get({ plain: true }), contact, importOptions);
+            if (changes.length === 0) {
+              continue;
+            }
+
+            await existing.update({ ...attributes, updatedBy: currentUserId }, { transaction });
+            fieldChanges.push(
+              ...changes.map((change) => ({
+                contactId: contact.id,
+                organizationId,
+                field: change.field,
+                previousValue: change.previousValue,
+                newValue: change.newValue,
+                source: 'IMPORT',
+                sourceId: fileId,
+                createdBy: currentUserId,
+              })),
+            );
+            updated++;
+          }
+
+          if (fieldChanges.length > 0) {
+            await this.contactFieldChangeModel.bulkCreate(fieldChanges as any[], { transaction });
+          }
+          return updated;
+        });
+
+        updatedCount += batchUpdated;
+      } catch (error) {
+        this.logger.error(
+          `Failed to update existing contacts batch ${Math.floor(i / this.batchSize) + 1}:`,
+          error,
+        );
+        // Continue with next batch, the contacts of this one count as unchanged
+      }
+
+      this.emitProgressThrottled(fileId, {
+        stage: 'inserting',
+        percentage: 95,
+        message: `Updating existing contacts... ${Math.min(i + batch.length, contacts.length)}/${contacts.length}`,
+        parsedCount: stats.totalRows,
+        validRows: stats.validRows,
+        validationErrorCount: stats.invalidCount,
+        duplicatesInFile: stats.duplicatesInFile,
+        duplicatesInDB: stats.duplicatesInDB,
+        uploadedCount: stats.insertedCount,
+        restoredRows: stats.restoredCount,
+        updatedRows: updatedCount,
+        timestamp: new Date().toISOString(),
+        elapsedMs: Date.now() - stats.startedAt,
+      });
+    }
+
+    return updatedCount;
+  }
+
   /**
    * Handle list assignments for contacts
    */
@@ -947,6 +1278,32 @@ export class SimpleBulkUploadService {
     return { listAssignments, listErrors };
   }
 
+  /**
+   * Queue verification of imported addresses
+   * A failure is logged and doesn't fail the import, the contacts can be verified from their list later
+   */
+  private async queueEmailVerification(emails: string[], organizationId: string): Promise<void> {
+    try {
+      const contactIds: string[] = [];
+      for (let i = 0; i < emails.length; i += EMAIL_VERIFICATION_JOB_SIZE) {
+        const contacts = await this.contactRepository['model'].findAll({
+          where: {
+            email: { [Op.in]: emails.slice(i, i + EMAIL_VERIFICATION_JOB_SIZE) },
+            organizationId,
+          },
+          attributes: ['id'],
+        });
+        contactIds.push(...contacts.map((contact) => contact.id));
+      }
+
+      await this.emailVerificationService.queueContacts(organizationId, contactIds, 'IMPORT');
+    } catch (error) {
+      this.logger.warn(
+        `Failed to queue email verification of imported contacts: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * Find or create a contact list
    */
@@ -14,5 +14,7 @@ export class EmailTemplatePreviewDto {
     companyWebsite?: string;
     companyIndustry?: string;
     companySize?: string;
+    /** Values for {{custom.<field>}} variables */
+    customFields?: Record<string, string>;
   };
 }
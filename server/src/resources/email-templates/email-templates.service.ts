@@ -20,6 +20,8 @@ import { User } from 'src/resources/users/entities/user.entity';
 import { BaseService } from 'src/common/services/base.service';
 import { UserContextService } from 'src/common/services/user-context.service';
 import { TransactionManager } from 'src/common/services/transaction-manager.service';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import { TemplateSyntaxError } from 'src/common/utils/personalization-template.util';
 import { WhereOptions } from 'sequelize';
 import {
   EMAIL_TEMPLATE_VARIABLE_FIELDS,
@@ -50,6 +52,7 @@ export class EmailTemplatesService extends BaseService<EmailTemplate> {
     private readonly campaignModel: typeof Campaign,
     @InjectModel(SystemTemplate)
     private readonly systemTemplateModel: typeof SystemTemplate,
+    private readonly emailPersonalizationService: EmailPersonalizationService,
   ) {
     super(emailTemplateRepository);
   }
@@ -357,15 +360,23 @@ export class EmailTemplatesService extends BaseService<EmailTemplate> {
     const contactData =
       previewDto.contactData || DEFAULT_EMAIL_TEMPLATE_CONTACT_DATA;
 
-    const renderedSubject = this.replaceVariables(template.subject, contactData);
-
-    const renderedHtmlContent = template.htmlContent
-      ? this.replaceVariables(template.htmlContent, contactData)
-      : null;
-
-    const renderedTextContent = template.textContent
-      ? this.replaceVariables(template.textContent, contactData)
-      : null;
+    let renderedSubject: string;
+    let renderedHtmlContent: string | null;
+    let renderedTextContent: string | null;
+    try {
+      renderedSubject = this.emailPersonalizationService.renderWithData(template.subject, contactData);
+      renderedHtmlContent = template.htmlContent
+        ? this.emailPersonalizationService.renderWithData(template.htmlContent, contactData)
+        : null;
+      renderedTextContent = template.textContent
+        ? this.emailPersonalizationService.renderWithData(template.textContent, contactData)
+        : null;
+    } catch (error) {
+      if (error instanceof TemplateSyntaxError) {
+        throw new BadRequestException(`Invalid template: ${error.message}`);
+      }
+      throw error;
+    }
 
     return {
       subject: renderedSubject,
@@ -374,11 +385,6 @@ export class EmailTemplatesService extends BaseService<EmailTemplate> {
     };
   }
 
-  private replaceVariables(content: string, contactData: Record<string, string>): string {
-    const varMap = new Map(Object.entries(contactData));
-    return content.replace(/\{\{(\w+)\}\}/g, (match, key) => varMap.get(key) || '');
-  }
-
   private buildAccessFilter(
     organizationId: string,
     userId?: string,
@@ -0,0 +1,127 @@
+/**
+ * Throwaway mailbox providers, bundled so verification needs no outside service
+ * Subdomains match too. Extra domains come from EMAIL_VERIFICATION_DISPOSABLE_DOMAINS.
+ */
+export const DISPOSABLE_EMAIL_DOMAINS: readonly string[] = [
+  '0-mail.com',
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonbox.net',
+  'anonymbox.com',
+  'binkmail.com',
+  'bobmail.info',
+  'burnermail.io',
+  'chammy.info',
+  'crazymailing.com',
+  'deadaddress.com',
+  'discard.email',
+  'discardmail.com',
+  'discardmail.de',
+  'dispostable.com',
+  'dodgeit.com',
+  'dodgit.com',
+  'dropmail.me',
+  'emailondeck.com',
+  'emailsensei.com',
+  'emailtemporanea.com',
+  'emailtemporario.com.br',
+  'fakeinbox.com',
+  'fakemail.net',
+  'fakemailgenerator.com',
+  'filzmail.com',
+  'getairmail.com',
+  'getnada.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'harakirimail.com',
+  'incognitomail.org',
+  'inboxbear.com',
+  'inboxkitten.com',
+  'jetable.org',
+  'kasmail.com',
+  'mail-temp.com',
+  'mailcatch.com',
+  'maildrop.cc',
+  'mailexpire.com',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailmetrash.com',
+  'mailnesia.com',
+  'mailnull.com',
+  'mailsac.com',
+  'mailtemp.net',
+  'meltmail.com',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mt2015.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'no-spam.ws',
+  'nospam.ze.tc',
+  'nwldx.com',
+  'owlymail.com',
+  'pokemail.net',
+  'rcpt.at',
+  'sharklasers.com',
+  'shieldemail.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamfree24.org',
+  'spamgourmet.com',
+  'spamherelots.com',
+  'spamhole.com',
+  'spaml.com',
+  'spammotel.com',
+  'spamspot.com',
+  'spamthis.co.uk',
+  'superrito.com',
+  'teleworm.us',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempemail.co',
+  'tempemail.net',
+  'tempinbox.com',
+  'tempmail.de',
+  'tempmail.net',
+  'tempmail.plus',
+  'tempmailaddress.com',
+  'tempmailo.com',
+  'tempr.email',
+  'thisisnotmyrealemail.com',
+  'throwam.com',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trash-mail.de',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.io',
+  'trashmail.me',
+  'trashmail.net',
+  'trashmailer.com',
+  'trbvm.com',
+  'wegwerfmail.de',
+  'wegwerfmail.net',
+  'wegwerfmail.org',
+  'yepmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+  'zoemail.org',
+];
@@ -0,0 +1,7 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class EmailVerificationOrganizationQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,50 @@
+import { EmailVerificationStatus } from 'src/resources/contacts/entities/contact.entity';
+
+/**
+ * Why an address got its verification status, stored in Contact.emailVerificationSubStatus
+ */
+export enum EmailVerificationSubStatus {
+  /** VERIFIED: the domain accepts mail and nothing marks the address as risky */
+  DELIVERABLE = 'DELIVERABLE',
+  /** FAILED: not an RFC 5322 address */
+  INVALID_SYNTAX = 'INVALID_SYNTAX',
+  /** FAILED: the domain doesn't exist, has no MX or A/AAAA records, or publishes a null MX */
+  NO_MAIL_SERVER = 'NO_MAIL_SERVER',
+  /** RISKY: throwaway mailbox provider */
+  DISPOSABLE_DOMAIN = 'DISPOSABLE_DOMAIN',
+  /** RISKY: shared mailbox such as info@ or sales@ */
+  ROLE_ACCOUNT = 'ROLE_ACCOUNT',
+  /** RISKY: the mail server accepts any address of the domain */
+  CATCH_ALL = 'CATCH_ALL',
+  /** UNVERIFIED: the DNS lookup timed out or failed, verifying again may succeed */
+  DNS_UNAVAILABLE = 'DNS_UNAVAILABLE',
+}
+
+export interface EmailVerificationResult {
+  status: EmailVerificationStatus;
+  subStatus: EmailVerificationSubStatus;
+}
+
+/** What the DNS and SMTP checks found out about a domain */
+export interface EmailDomainCheck {
+  /** null when the lookup failed */
+  acceptsMail: boolean | null;
+  /** Mail servers by MX preference, the domain itself when it only has A/AAAA records */
+  mailServers: string[];
+  /** null when the domain wasn't probed or the probe was inconclusive */
+  catchAll: boolean | null;
+}
+
+export interface EmailVerificationJobData {
+  organizationId: string;
+  contactIds: string[];
+  /** What queued the job, for logging */
+  trigger: EmailVerificationTrigger;
+}
+
+export type EmailVerificationTrigger = 'IMPORT' | 'LIST' | 'CONTACT';
+
+export interface EmailVerificationSummary {
+  total: number;
+  byStatus: Record<EmailVerificationStatus, number>;
+}
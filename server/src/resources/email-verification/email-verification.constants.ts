@@ -0,0 +1,87 @@
+/**
+ * Email verification constants
+ */
+
+/** Contacts verified by one queue job */
+export const EMAIL_VERIFICATION_JOB_SIZE = 500;
+
+/** Addresses checked at the same time by a job, addresses of one domain share its lookups */
+export const EMAIL_VERIFICATION_CONCURRENCY = 10;
+
+export const DEFAULT_DNS_TIMEOUT_MS = 5000;
+export const DEFAULT_DNS_TRIES = 2;
+
+export const DEFAULT_SMTP_PROBE_PORT = 25;
+export const DEFAULT_SMTP_PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Local parts of shared mailboxes rather than a person (info@, sales@)
+ * Compared without the +tag, dots, dashes and underscores kept.
+ */
+export const ROLE_ACCOUNT_LOCAL_PARTS: readonly string[] = [
+  'abuse',
+  'accounting',
+  'accounts',
+  'admin',
+  'administrator',
+  'billing',
+  'careers',
+  'contact',
+  'contactus',
+  'contact-us',
+  'customercare',
+  'customerservice',
+  'customer-service',
+  'dev',
+  'devnull',
+  'enquiries',
+  'enquiry',
+  'feedback',
+  'finance',
+  'help',
+  'helpdesk',
+  'hello',
+  'hostmaster',
+  'hr',
+  'info',
+  'information',
+  'inquiries',
+  'inquiry',
+  'invoice',
+  'invoices',
+  'it',
+  'jobs',
+  'legal',
+  'mail',
+  'mailer-daemon',
+  'marketing',
+  'media',
+  'newsletter',
+  'no-reply',
+  'noreply',
+  'do-not-reply',
+  'donotreply',
+  'office',
+  'operations',
+  'orders',
+  'postmaster',
+  'press',
+  'privacy',
+  'purchasing',
+  'recruiting',
+  'recruitment',
+  'root',
+  'sales',
+  'security',
+  'service',
+  'services',
+  'shop',
+  'spam',
+  'staff',
+  'support',
+  'sysadmin',
+  'team',
+  'tech',
+  'webmaster',
+  'welcome',
+];
@@ -0,0 +1,39 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailVerificationOrganizationQueryDto } from './dto/email-verification-query.dto';
+
+@Controller()
+export class EmailVerificationController {
+  constructor(private readonly emailVerificationService: EmailVerificationService) {}
+
+  @Post('lists/:listId')
+  verifyList(
+    @Param('listId', ParseUUIDPipe) listId: string,
+    @Query() query: EmailVerificationOrganizationQueryDto,
+  ) {
+    return this.emailVerificationService.verifyList(listId, query.organizationId);
+  }
+
+  @Get('lists/:listId/summary')
+  getListSummary(
+    @Param('listId', ParseUUIDPipe) listId: string,
+    @Query() query: EmailVerificationOrganizationQueryDto,
+  ) {
+    return this.emailVerificationService.getListSummary(listId, query.organizationId);
+  }
+
+  @Post('contacts/:contactId')
+  verifyContact(
+    @Param('contactId', ParseUUIDPipe) contactId: string,
+    @Query() query: EmailVerificationOrganizationQueryDto,
+  ) {
+    return this.emailVerificationService.verifyContact(contactId, query.organizationId);
+  }
+}
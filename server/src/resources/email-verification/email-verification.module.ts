@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { ContactList } from 'src/resources/contact-lists/entities/contact-list.entity';
+import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
+import { EmailVerificationController } from './email-verification.controller';
+import { EmailVerificationService } from './email-verification.service';
+import { EmailVerifierService } from './services/email-verifier.service';
+
+@Module({
+  imports: [
+    SequelizeModule.forFeature([Contact, ContactList, ContactListMember]),
+    // CommonModule and the queue modules are @Global, so their services are available without importing
+  ],
+  controllers: [EmailVerificationController],
+  providers: [EmailVerificationService, EmailVerifierService],
+  exports: [EmailVerificationService, EmailVerifierService],
+})
+export class EmailVerificationModule {}
@@ -0,0 +1,154 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { col, fn } from 'sequelize';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { EmailVerificationQueue } from 'src/configuration/bull/queues/email-verification.queue';
+import {
+  Contact,
+  EmailVerificationStatus,
+} from 'src/resources/contacts/entities/contact.entity';
+import { ContactList } from 'src/resources/contact-lists/entities/contact-list.entity';
+import { ContactListMember } from 'src/resources/contact-lists/entities/contact-list-member.entity';
+import { EMAIL_VERIFICATION_JOB_SIZE } from './email-verification.constants';
+import {
+  EmailVerificationSummary,
+  EmailVerificationTrigger,
+} from './dto/email-verification.interface';
+
+export interface EmailVerificationQueueResult {
+  queued: number;
+}
+
+@Injectable()
+export class EmailVerificationService {
+  private readonly logger = new Logger(EmailVerificationService.name);
+
+  constructor(
+    @InjectModel(Contact)
+    private readonly contactModel: typeof Contact,
+    @InjectModel(ContactList)
+    private readonly contactListModel: typeof ContactList,
+    @InjectModel(ContactListMember)
+    private readonly contactListMemberModel: typeof ContactListMember,
+    private readonly emailVerificationQueue: EmailVerificationQueue,
+    private readonly userContextService: UserContextService,
+  ) {}
+
+  /**
+   * Verify every contact of a list, dynamic lists by their current members
+   */
+  async verifyList(listId: string, requestedOrganizationId?: string): Promise<EmailVerificationQueueResult> {
+    const list = await this.findList(listId, requestedOrganizationId);
+    const members = await this.contactListMemberModel.findAll({
+      where: { contactListId: list.id },
+      attributes: ['contactId'],
+      raw: true,
+    });
+
+    const queued = await this.queueContacts(
+      list.organizationId,
+      members.map((member) => member.contactId),
+      'LIST',
+    );
+    return { queued };
+  }
+
+  async verifyContact(contactId: string, requestedOrganizationId?: string): Promise<EmailVerificationQueueResult> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const contact = await this.contactModel.findOne({
+      where: { id: contactId, organizationId },
+      attributes: ['id'],
+    });
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+
+    const queued = await this.queueContacts(organizationId, [contact.id], 'CONTACT');
+    return { queued };
+  }
+
+  /**
+   * Number of list members per verification status, contacts without a status count as UNVERIFIED
+   */
+  async getListSummary(listId: string, requestedOrganizationId?: string): Promise<EmailVerificationSummary> {
+    const list = await this.findList(listId, requestedOrganizationId);
+    const rows = (await this.contactListMemberModel.findAll({
+      where: { contactListId: list.id },
+      attributes: [
+        [col('contact.email_verification_status'), 'status'],
+        [fn('COUNT', col('contact.id')), 'count'],
+      ],
+      include: [{ model: this.contactModel, as: 'contact', attributes: [], required: true }],
+      group: [col('contact.email_verification_status')],
+      raw: true,
+    })) as unknown as Array<{ status: EmailVerificationStatus | null; count: string | number }>;
+
+    const byStatus = Object.fromEntries(
+      Object.values(EmailVerificationStatus).map((status) => [status, 0]),
+    ) as Record<EmailVerificationStatus, number>;
+    let total = 0;
+    for (const row of rows) {
+      const count = Number(row.count);
+      byStatus[row.status || EmailVerificationStatus.UNVERIFIED] += count;
+      total += count;
+    }
+
+    return { total, byStatus };
+  }
+
+  /**
+   * Mark contacts PENDING and queue their verification
+   * Marked before queueing, so a job that finishes first isn't overwritten.
+   * @returns Number of contacts queued
+   */
+  async queueContacts(
+    organizationId: string,
+    contactIds: string[],
+    trigger: EmailVerificationTrigger,
+  ): Promise<number> {
+    if (contactIds.length === 0) {
+      return 0;
+    }
+
+    for (let i = 0; i < contactIds.length; i += EMAIL_VERIFICATION_JOB_SIZE) {
+      await this.contactModel.update(
+        { emailVerificationStatus: EmailVerificationStatus.PENDING, emailVerificationSubStatus: null },
+        { where: { id: contactIds.slice(i, i + EMAIL_VERIFICATION_JOB_SIZE), organizationId } },
+      );
+    }
+    await this.emailVerificationQueue.addVerificationJobs(organizationId, contactIds, trigger);
+
+    this.logger.log(`Queued email verification of ${contactIds.length} contact(s) (${trigger})`);
+    return contactIds.length;
+  }
+
+  private async findList(listId: string, requestedOrganizationId?: string): Promise<ContactList> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const list = await this.contactListModel.findOne({
+      where: { id: listId, organizationId },
+    });
+    if (!list) {
+      throw new NotFoundException('Contact list not found');
+    }
+    return list;
+  }
+
+  /**
+   * Employees verify contacts of any organization, users only of their own
+   */
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+}
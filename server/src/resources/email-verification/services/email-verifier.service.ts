@@ -0,0 +1,283 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectModel } from '@nestjs/sequelize';
+import { promises as dnsPromises, NODATA, NOTFOUND } from 'dns';
+import * as net from 'net';
+import * as os from 'os';
+import { randomBytes } from 'crypto';
+import {
+  Contact,
+  EmailVerificationStatus,
+} from 'src/resources/contacts/entities/contact.entity';
+import {
+  isDisposableDomain,
+  isRoleAccount,
+  parseEmailAddress,
+} from 'src/common/utils/email-verification.util';
+import {
+  DEFAULT_DNS_TIMEOUT_MS,
+  DEFAULT_DNS_TRIES,
+  DEFAULT_SMTP_PROBE_PORT,
+  DEFAULT_SMTP_PROBE_TIMEOUT_MS,
+  EMAIL_VERIFICATION_CONCURRENCY,
+} from '../email-verification.constants';
+import {
+  EmailDomainCheck,
+  EmailVerificationResult,
+  EmailVerificationSubStatus,
+} from '../dto/email-verification.interface';
+
+/**
+ * Verifies addresses without an outside verification service: RFC 5322 syntax, bundled disposable domain
+ * and role account lists, and MX/A/AAAA lookups through its own DNS resolver.
+ *
+ * EMAIL_VERIFICATION_DNS_SERVERS (comma-separated, host or host:port) points the resolver at other servers
+ * than the system ones, such as a local DNS stand-in. EMAIL_VERIFICATION_DNS_TIMEOUT_MS bounds each query.
+ * Extra disposable domains come from EMAIL_VERIFICATION_DISPOSABLE_DOMAINS (comma-separated).
+ *
+ * Catch-all domains are found by asking the first mail server whether it accepts a random address of the
+ * domain. Outbound port 25 is blocked on most hosts, so the probe only runs with
+ * EMAIL_VERIFICATION_CATCH_ALL_PROBE=true (EMAIL_VERIFICATION_SMTP_PORT, EMAIL_VERIFICATION_HELO_NAME).
+ */
+@Injectable()
+export class EmailVerifierService {
+  private readonly logger = new Logger(EmailVerifierService.name);
+  private readonly resolver: dnsPromises.Resolver;
+  private readonly extraDisposableDomains: string[];
+  private readonly catchAllProbeEnabled: boolean;
+  private readonly smtpProbePort: number;
+  private readonly heloName: string;
+
+  constructor(
+    @InjectModel(Contact)
+    private readonly contactModel: typeof Contact,
+    private readonly configService: ConfigService,
+  ) {
+    this.resolver = new dnsPromises.Resolver({
+      timeout: Number(this.configService.get('EMAIL_VERIFICATION_DNS_TIMEOUT_MS')) || DEFAULT_DNS_TIMEOUT_MS,
+      tries: DEFAULT_DNS_TRIES,
+    });
+    const dnsServers = this.getList('EMAIL_VERIFICATION_DNS_SERVERS');
+    if (dnsServers.length > 0) {
+      this.resolver.setServers(dnsServers);
+    }
+
+    this.extraDisposableDomains = this.getList('EMAIL_VERIFICATION_DISPOSABLE_DOMAINS').map((domain) =>
+      domain.toLowerCase(),
+    );
+    this.catchAllProbeEnabled = this.configService.get('EMAIL_VERIFICATION_CATCH_ALL_PROBE') === 'true';
+    this.smtpProbePort = Number(this.configService.get('EMAIL_VERIFICATION_SMTP_PORT')) || DEFAULT_SMTP_PROBE_PORT;
+    this.heloName = this.configService.get('EMAIL_VERIFICATION_HELO_NAME') || os.hostname();
+  }
+
+  /**
+   * Verify contacts of an organization and store the outcome on them
+   * Contacts deleted or moved out of the organization since the job was queued are left out.
+   * @returns Number of contacts per status
+   */
+  async verifyContacts(
+    organizationId: string,
+    contactIds: string[],
+  ): Promise<Partial<Record<EmailVerificationStatus, number>>> {
+    const contacts = await this.contactModel.findAll({
+      where: { id: contactIds, organizationId },
+      attributes: ['id', 'email'],
+    });
+
+    const domainChecks = new Map<string, Promise<EmailDomainCheck>>();
+    const groups = new Map<string, { result: EmailVerificationResult; contactIds: string[] }>();
+
+    for (let i = 0; i < contacts.length; i += EMAIL_VERIFICATION_CONCURRENCY) {
+      const slice = contacts.slice(i, i + EMAIL_VERIFICATION_CONCURRENCY);
+      const results = await Promise.all(slice.map((contact) => this.verify(contact.email, domainChecks)));
+
+      slice.forEach((contact, index) => {
+        const result = results[index];
+        const key = `${result.status}:${result.subStatus}`;
+        const group = groups.get(key) ?? { result, contactIds: [] };
+        group.contactIds.push(contact.id);
+        groups.set(key, group);
+      });
+    }
+
+    const verifiedAt = new Date();
+    const counts: Partial<Record<EmailVerificationStatus, number>> = {};
+    for (const { result, contactIds: ids } of groups.values()) {
+      await this.contactModel.update(
+        {
+          emailVerificationStatus: result.status,
+          emailVerificationSubStatus: result.subStatus,
+          lastVerifiedAt: verifiedAt,
+        },
+        { where: { id: ids, organizationId } },
+      );
+      counts[result.status] = (counts[result.status] ?? 0) + ids.length;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Verify one address
+   * @param domainChecks - Lookups already made, shared by the addresses of a job
+   */
+  async verify(
+    email: string,
+    domainChecks: Map<string, Promise<EmailDomainCheck>> = new Map(),
+  ): Promise<EmailVerificationResult> {
+    const address = parseEmailAddress(email);
+    if (!address) {
+      return { status: EmailVerificationStatus.FAILED, subStatus: EmailVerificationSubStatus.INVALID_SYNTAX };
+    }
+
+    if (isDisposableDomain(address.domain, this.extraDisposableDomains)) {
+      return { status: EmailVerificationStatus.RISKY, subStatus: EmailVerificationSubStatus.DISPOSABLE_DOMAIN };
+    }
+
+    let check = domainChecks.get(address.domain);
+    if (!check) {
+      check = this.checkDomain(address.domain);
+      domainChecks.set(address.domain, check);
+    }
+    const domain = await check;
+
+    if (domain.acceptsMail === null) {
+      return { status: EmailVerificationStatus.UNVERIFIED, subStatus: EmailVerificationSubStatus.DNS_UNAVAILABLE };
+    }
+    if (!domain.acceptsMail) {
+      return { status: EmailVerificationStatus.FAILED, subStatus: EmailVerificationSubStatus.NO_MAIL_SERVER };
+    }
+    if (isRoleAccount(address.localPart)) {
+      return { status: EmailVerificationStatus.RISKY, subStatus: EmailVerificationSubStatus.ROLE_ACCOUNT };
+    }
+    if (domain.catchAll) {
+      return { status: EmailVerificationStatus.RISKY, subStatus: EmailVerificationSubStatus.CATCH_ALL };
+    }
+    return { status: EmailVerificationStatus.VERIFIED, subStatus: EmailVerificationSubStatus.DELIVERABLE };
+  }
+
+  private async checkDomain(domain: string): Promise<EmailDomainCheck> {
+    let mailServers: string[];
+    try {
+      mailServers = await this.findMailServers(domain);
+    } catch (error) {
+      const err = error as NodeJS.ErrnoException;
+      this.logger.warn(`DNS lookup of ${domain} failed: ${err.code || err.message}`);
+      return { acceptsMail: null, mailServers: [], catchAll: null };
+    }
+
+    if (mailServers.length === 0) {
+      return { acceptsMail: false, mailServers, catchAll: null };
+    }
+
+    const catchAll = this.catchAllProbeEnabled ? await this.probeCatchAll(mailServers[0], domain) : null;
+    return { acceptsMail: true, mailServers, catchAll };
+  }
+
+  /**
+   * Mail servers of a domain by MX preference (RFC 5321 section 5.1)
+   * Without MX records the domain's own A/AAAA records receive its mail, a null MX (RFC 7505) means it takes none.
+   * @returns empty when the domain doesn't exist or takes no mail
+   * @throws the resolver error when a lookup fails for another reason, such as a timeout
+   */
+  private async findMailServers(domain: string): Promise<string[]> {
+    try {
+      const records = await this.resolver.resolveMx(domain);
+      if (records.length > 0) {
+        return records
+          .filter((record) => record.exchange && record.exchange !== '.')
+          .sort((a, b) => a.priority - b.priority)
+          .map((record) => record.exchange);
+      }
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === NOTFOUND) {
+        return [];
+      }
+      if (code !== NODATA) {
+        throw error;
+      }
+    }
+
+    const [ipv4, ipv6] = await Promise.all([
+      this.resolveAddresses(() => this.resolver.resolve4(domain)),
+      this.resolveAddresses(() => this.resolver.resolve6(domain)),
+    ]);
+    return ipv4.length > 0 || ipv6.length > 0 ? [domain] : [];
+  }
+
+  private async resolveAddresses(lookup: () => Promise<string[]>): Promise<string[]> {
+    try {
+      return await lookup();
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === NODATA || code === NOTFOUND) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Whether the mail server accepts RCPT TO for a random address of the domain, no message is sent
+   * @returns null when the server can't be reached or answers anything but accept or permanent reject
+   */
+  private probeCatchAll(host: string, domain: string): Promise<boolean | null> {
+    const commands = [`EHLO ${this.heloName}`, 'MAIL FROM:<>', `RCPT TO:<${randomBytes(8).toString('hex')}@${domain}>`];
+
+    return new Promise((resolve) => {
+      const socket = net.createConnection({ host, port: this.smtpProbePort });
+      let buffer = '';
+      let replies = 0;
+      let settled = false;
+
+      const finish = (catchAll: boolean | null) => {
+        if (settled) return;
+        settled = true;
+        // The idle timeout below destroys the socket if the server doesn't close it after QUIT
+        socket.end('QUIT\r\n');
+        resolve(catchAll);
+      };
+
+      socket.setTimeout(DEFAULT_SMTP_PROBE_TIMEOUT_MS, () => {
+        finish(null);
+        socket.destroy();
+      });
+      socket.on('error', (error) => {
+        this.logger.debug(`Catch-all probe of ${domain} via ${host} failed: ${error.message}`);
+        finish(null);
+      });
+      socket.on('close', () => finish(null));
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let lineEnd: number;
+        while (!settled && (lineEnd = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, lineEnd).replace(/\r$/, '');
+          buffer = buffer.slice(lineEnd + 1);
+          // 250-... lines continue a multiline reply
+          if (/^\d{3}-/.test(line)) continue;
+
+          const code = Number(line.slice(0, 3));
+          if (replies === commands.length) {
+            // Reply to RCPT TO
+            finish(code === 250 || code === 251 ? true : code >= 500 && code < 600 ? false : null);
+            return;
+          }
+          if (code < 200 || code >= 300) {
+            finish(null);
+            return;
+          }
+          socket.write(`${commands[replies]}\r\n`);
+          replies++;
+        }
+      });
+    });
+  }
+
+  private getList(key: string): string[] {
+    return (this.configService.get<string>(key) || '')
+      .split(',')
+      .map((value) => value.trim())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,19 @@
+import { IsEnum, IsOptional, IsString, IsUUID } from 'class-validator';
+import { BaseQueryDto } from 'src/common/dto/base.query.dto';
+import { InboxThreadStatus } from '../entities/inbox-thread.entity';
+
+export class InboxThreadQueryDto extends BaseQueryDto {
+  @IsOptional()
+  @IsUUID()
+  campaignId?: string;
+
+  /** Sending mailbox (GmailOAuthToken id) */
+  @IsOptional()
+  @IsUUID()
+  mailboxId?: string;
+
+  /** Without a status archived threads are left out */
+  @IsOptional()
+  @IsEnum(InboxThreadStatus)
+  status?: InboxThreadStatus;
+}
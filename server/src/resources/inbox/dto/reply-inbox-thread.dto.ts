@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ReplyInboxThreadDto {
+  /** Plain text reply, sent as text and as HTML with line breaks kept */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50000)
+  body: string;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { InboxThreadStatus } from '../entities/inbox-thread.entity';
+
+export class UpdateInboxThreadDto {
+  @IsEnum(InboxThreadStatus)
+  status: InboxThreadStatus;
+}
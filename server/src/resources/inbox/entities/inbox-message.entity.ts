@@ -0,0 +1,138 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { MessageAttachment } from 'src/common/interfaces/message-content.interface';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { InboxThread } from './inbox-thread.entity';
+
+export enum InboxMessageDirection {
+  INBOUND = 'INBOUND',
+  OUTBOUND = 'OUTBOUND',
+}
+
+export interface InboxMessageAddress {
+  email: string;
+  name?: string;
+}
+
+@Table({
+  tableName: 'inbox_messages',
+  timestamps: true,
+  underscored: true,
+  paranoid: false,
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'unique_inbox_message_thread_provider_id',
+      unique: true,
+      fields: ['thread_id', 'provider_message_id'],
+    },
+  ],
+})
+export class InboxMessage extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  @ForeignKey(() => InboxThread)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  threadId: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(InboxMessageDirection)),
+    allowNull: false,
+  })
+  direction: InboxMessageDirection;
+
+  /** Gmail API message ID, or the Message-ID for messages fetched over IMAP */
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+  })
+  providerMessageId: string;
+
+  /** Message-ID header without < >, used for In-Reply-To/References when answering */
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  messageIdHeader: string | null;
+
+  @Column({
+    type: DataType.STRING(320),
+    allowNull: true,
+  })
+  fromEmail: string | null;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  fromName: string | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  toAddresses: InboxMessageAddress[] | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  ccAddresses: InboxMessageAddress[] | null;
+
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  subject: string | null;
+
+  @Column({
+    type: DataType.TEXT('long'),
+    allowNull: true,
+  })
+  textBody: string | null;
+
+  @Column({
+    type: DataType.TEXT('long'),
+    allowNull: true,
+  })
+  htmlBody: string | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  headers: Array<{ name: string; value: string }> | null;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  attachments: MessageAttachment[] | null;
+
+  /** When the message was sent or received */
+  @Column({
+    type: DataType.DATE,
+    allowNull: false,
+  })
+  messageAt: Date;
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+
+  @BelongsTo(() => InboxThread)
+  thread: InboxThread;
+}
@@ -0,0 +1,154 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { EmailMessage } from 'src/resources/campaigns/entities/email-message.entity';
+import { InboxMessage } from './inbox-message.entity';
+
+/**
+ * A new inbound message moves a thread back to UNREAD, answering it from the app to REPLIED
+ */
+export enum InboxThreadStatus {
+  UNREAD = 'UNREAD',
+  READ = 'READ',
+  REPLIED = 'REPLIED',
+  ARCHIVED = 'ARCHIVED',
+}
+
+/**
+ * Conversation of a sending mailbox with a prospect, one per provider thread (gmailThreadId)
+ */
+@Table({
+  tableName: 'inbox_threads',
+  timestamps: true,
+  underscored: true,
+  paranoid: false,
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'unique_inbox_thread_mailbox_thread',
+      unique: true,
+      fields: ['mailbox_id', 'gmail_thread_id'],
+    },
+    {
+      name: 'idx_inbox_threads_org_last_message',
+      fields: ['organization_id', 'last_message_at'],
+    },
+  ],
+})
+export class InboxThread extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  /** Sending mailbox the conversation belongs to */
+  @ForeignKey(() => GmailOAuthToken)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  mailboxId: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+  })
+  mailboxEmail: string;
+
+  /** Gmail thread ID, or the first Message-ID for SMTP mailboxes */
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: false,
+  })
+  gmailThreadId: string;
+
+  @ForeignKey(() => Campaign)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: true,
+  })
+  campaignId: string | null;
+
+  @ForeignKey(() => Contact)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: true,
+  })
+  contactId: string | null;
+
+  /** Most recent campaign email of the thread */
+  @ForeignKey(() => EmailMessage)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: true,
+  })
+  emailMessageId: string | null;
+
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  subject: string | null;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(InboxThreadStatus)),
+    allowNull: false,
+    defaultValue: InboxThreadStatus.UNREAD,
+  })
+  status: InboxThreadStatus;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  messageCount: number;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastMessageAt: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastInboundAt: Date | null;
+
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  lastMessageSnippet: string | null;
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+
+  @BelongsTo(() => GmailOAuthToken)
+  mailbox: GmailOAuthToken;
+
+  @BelongsTo(() => Campaign)
+  campaign: Campaign;
+
+  @BelongsTo(() => Contact)
+  contact: Contact;
+
+  @BelongsTo(() => EmailMessage)
+  emailMessage: EmailMessage;
+
+  @HasMany(() => InboxMessage)
+  messages: InboxMessage[];
+}
@@ -0,0 +1,45 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { InboxService } from './inbox.service';
+import { InboxThreadQueryDto } from './dto/inbox-thread-query.dto';
+import { UpdateInboxThreadDto } from './dto/update-inbox-thread.dto';
+import { ReplyInboxThreadDto } from './dto/reply-inbox-thread.dto';
+
+@Controller()
+export class InboxController {
+  constructor(private readonly inboxService: InboxService) {}
+
+  @Get('threads')
+  findAll(@Query() query: InboxThreadQueryDto) {
+    return this.inboxService.findAll(query);
+  }
+
+  @Get('threads/:id')
+  findOne(@Param('id', ParseUUIDPipe) id: string) {
+    return this.inboxService.findOne(id);
+  }
+
+  @Patch('threads/:id')
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateInboxThreadDto,
+  ) {
+    return this.inboxService.updateStatus(id, dto.status);
+  }
+
+  @Post('threads/:id/reply')
+  reply(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ReplyInboxThreadDto,
+  ) {
+    return this.inboxService.reply(id, dto.body);
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { InboxThread } from './entities/inbox-thread.entity';
+import { InboxMessage } from './entities/inbox-message.entity';
+import { GmailOAuthToken } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { User } from 'src/resources/users/entities/user.entity';
+import { InboxController } from './inbox.controller';
+import { InboxService } from './inbox.service';
+import { InboxThreadsRepository } from './inbox.repository';
+
+@Module({
+  imports: [SequelizeModule.forFeature([InboxThread, InboxMessage, GmailOAuthToken, User])],
+  controllers: [InboxController],
+  providers: [InboxService, InboxThreadsRepository],
+  exports: [InboxService],
+})
+export class InboxModule {}
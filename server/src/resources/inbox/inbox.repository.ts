@@ -0,0 +1,16 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from 'src/common/repository/base.repository';
+import { InjectModel } from '@nestjs/sequelize';
+import { InboxThread } from './entities/inbox-thread.entity';
+import { UserContextService } from 'src/common/services/user-context.service';
+
+@Injectable()
+export class InboxThreadsRepository extends BaseRepository<InboxThread> {
+  constructor(
+    @InjectModel(InboxThread)
+    inboxThreadModel: typeof InboxThread,
+    userContextService: UserContextService,
+  ) {
+    super(inboxThreadModel, undefined, userContextService);
+  }
+}
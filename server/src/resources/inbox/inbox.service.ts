@@ -0,0 +1,226 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op, WhereOptions } from 'sequelize';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { MailSenderService } from 'src/common/services/mail-sender.service';
+import { ConversationStoreService } from 'src/common/services/conversation-store.service';
+import { UserRole } from 'src/common/enums/roles.enum';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+} from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { User } from 'src/resources/users/entities/user.entity';
+import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+import { InboxThreadsRepository } from './inbox.repository';
+import { InboxThread, InboxThreadStatus } from './entities/inbox-thread.entity';
+import { InboxMessage, InboxMessageDirection } from './entities/inbox-message.entity';
+import { InboxThreadQueryDto } from './dto/inbox-thread-query.dto';
+
+const THREAD_INCLUDES = [
+  { model: Campaign, attributes: ['id', 'name'] },
+  { model: Contact, attributes: ['id', 'email', 'firstName', 'lastName', 'company'] },
+];
+
+@Injectable()
+export class InboxService {
+  private readonly logger = new Logger(InboxService.name);
+
+  constructor(
+    private readonly inboxThreadsRepository: InboxThreadsRepository,
+    @InjectModel(InboxThread)
+    private readonly inboxThreadModel: typeof InboxThread,
+    @InjectModel(InboxMessage)
+    private readonly inboxMessageModel: typeof InboxMessage,
+    @InjectModel(GmailOAuthToken)
+    private readonly gmailTokenModel: typeof GmailOAuthToken,
+    @InjectModel(User)
+    private readonly userModel: typeof User,
+    private readonly userContextService: UserContextService,
+    private readonly mailSenderService: MailSenderService,
+    private readonly conversationStoreService: ConversationStoreService,
+  ) {}
+
+  /**
+   * Threads across the organization's mailboxes, most recent activity first
+   * Regular users only see the threads of their own mailboxes.
+   */
+  async findAll(query: InboxThreadQueryDto) {
+    const where: any = {};
+    if (query.campaignId) {
+      where.campaignId = query.campaignId;
+    }
+    if (query.mailboxId) {
+      where.mailboxId = query.mailboxId;
+    }
+    where.status = query.status || { [Op.ne]: InboxThreadStatus.ARCHIVED };
+
+    const ownMailboxIds = await this.getOwnMailboxIds();
+    if (ownMailboxIds) {
+      where.mailboxId = query.mailboxId
+        ? ownMailboxIds.filter((id) => id === query.mailboxId)
+        : ownMailboxIds;
+    }
+
+    return this.inboxThreadsRepository.findAll({
+      where: where as WhereOptions<InboxThread>,
+      include: THREAD_INCLUDES,
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 25,
+        searchTerm: query.searchTerm || '',
+        searchFields: ['subject', 'mailboxEmail', 'lastMessageSnippet'],
+        sortBy: 'lastMessageAt',
+        sortOrder: query.sortOrder || 'DESC',
+      },
+      organizationId: query.organizationId,
+    });
+  }
+
+  /**
+   * Thread with its messages in order, opening an unread thread marks it read
+   */
+  async findOne(id: string) {
+    const thread = await this.getAccessibleThread(id);
+    if (thread.status === InboxThreadStatus.UNREAD) {
+      await thread.update({ status: InboxThreadStatus.READ });
+    }
+
+    const messages = await this.inboxMessageModel.findAll({
+      where: { threadId: thread.id },
+      order: [['messageAt', 'ASC']],
+    });
+
+    return {
+      ...thread.get({ plain: true }),
+      messages: messages.map((message) => message.get({ plain: true })),
+    };
+  }
+
+  async updateStatus(id: string, status: InboxThreadStatus) {
+    const thread = await this.getAccessibleThread(id);
+    await thread.update({ status });
+    return thread.get({ plain: true });
+  }
+
+  /**
+   * Answer the thread from its mailbox, threaded with In-Reply-To/References like campaign follow-ups
+   */
+  async reply(id: string, body: string) {
+    const thread = await this.getAccessibleThread(id);
+
+    const mailbox = await this.gmailTokenModel.findByPk(thread.mailboxId);
+    if (!mailbox || mailbox.status !== GmailTokenStatus.ACTIVE) {
+      throw new BadRequestException(`Mailbox ${thread.mailboxEmail} is not connected, reconnect it to reply`);
+    }
+
+    const messages = await this.inboxMessageModel.findAll({
+      where: { threadId: thread.id },
+      order: [['messageAt', 'ASC']],
+    });
+    const lastInbound = [...messages].reverse().find((message) => message.direction === InboxMessageDirection.INBOUND);
+    const to = lastInbound?.fromEmail || thread.contact?.email;
+    if (!to) {
+      throw new BadRequestException('This thread has no recipient to reply to');
+    }
+
+    const messageIds = messages
+      .map((message) => message.messageIdHeader)
+      .filter((messageId): messageId is string => !!messageId)
+      .map((messageId) => `<${messageId}>`);
+    const inReplyTo = lastInbound?.messageIdHeader ? `<${lastInbound.messageIdHeader}>` : messageIds[messageIds.length - 1];
+
+    const subject = this.toReplySubject(lastInbound?.subject || thread.subject || '');
+    const html = this.toHtml(body);
+    const owner = await this.userModel.findByPk(mailbox.userId, { attributes: ['firstName', 'lastName'] });
+    const fromName = [owner?.firstName, owner?.lastName].filter(Boolean).join(' ').trim() || undefined;
+
+    const sender = this.mailSenderService.forMailbox(mailbox);
+    const result = await sender.send(mailbox, {
+      to,
+      from: mailbox.email,
+      fromName,
+      subject,
+      html,
+      text: body,
+      threadHeaders: {
+        inReplyTo,
+        references: messageIds.length > 0 ? messageIds.join(' ') : undefined,
+        threadId: thread.gmailThreadId,
+      },
+    });
+
+    let messageIdHeader: string | null = null;
+    try {
+      messageIdHeader = await sender.getMessageIdHeader(mailbox, result.id);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.warn(`Could not read the Message-ID of reply ${result.id}: ${err.message}`);
+    }
+
+    const stored = await this.conversationStoreService.recordOutboundMessage(thread, {
+      providerMessageId: result.id,
+      messageIdHeader,
+      fromEmail: mailbox.email,
+      fromName,
+      to,
+      subject,
+      html,
+      text: body,
+      userId: this.userContextService.getCurrentUserId() || mailbox.userId,
+    });
+
+    this.logger.log(`📤 Replied to inbox thread ${thread.id} from ${mailbox.email}`);
+    return stored.get({ plain: true });
+  }
+
+  private async getAccessibleThread(id: string): Promise<InboxThread> {
+    const accessible = await this.inboxThreadsRepository.findById(id);
+    const thread = accessible
+      ? await this.inboxThreadModel.findByPk(id, { include: THREAD_INCLUDES })
+      : null;
+    if (!thread) {
+      throw new NotFoundException('Thread not found');
+    }
+
+    const ownMailboxIds = await this.getOwnMailboxIds();
+    if (ownMailboxIds && !ownMailboxIds.includes(thread.mailboxId)) {
+      throw new NotFoundException('Thread not found');
+    }
+    return thread;
+  }
+
+  /**
+   * Mailboxes of the current user when they only see their own conversations, undefined for admins and employees
+   */
+  private async getOwnMailboxIds(): Promise<string[] | undefined> {
+    const currentUser = this.userContextService.getCurrentUser();
+    if (!currentUser || currentUser.type === 'employee' || currentUser.role === UserRole.ADMIN) {
+      return undefined;
+    }
+
+    const mailboxes = await this.gmailTokenModel.findAll({
+      where: { userId: currentUser.sub },
+      attributes: ['id'],
+    });
+    return mailboxes.map((mailbox) => mailbox.id);
+  }
+
+  private toReplySubject(subject: string): string {
+    return /^re:/i.test(subject.trim()) ? subject.trim() : `Re: ${subject.trim()}`;
+  }
+
+  private toHtml(text: string): string {
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    return `<div>${escaped.replace(/\r?\n/g, '<br>')}</div>`;
+  }
+}
@@ -3,6 +3,7 @@ import { NotificationsService } from '../notifications.service';
 import { NotificationType } from 'src/common/enums/notification-type.enum';
 import { WsGateway } from 'src/resources/ws/ws.gateway';
 import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
 import { PushNotificationService } from './push-notification.service';
 
 @Injectable()
@@ -24,6 +25,7 @@ export class NotificationEventService {
     title: string,
     message: string,
     userId?: string,
+    options: { data?: Record<string, any>; link?: string } = {},
   ): Promise<void> {
     try {
       const targetUserId = userId || campaign.createdBy;
@@ -45,6 +47,7 @@ export class NotificationEventService {
           campaignId: campaign.id,
           campaignName: campaign.name,
           campaignStatus: campaign.status,
+          ...options.data,
         },
       });
 
@@ -67,7 +70,7 @@ export class NotificationEventService {
         {
           id: notification.id,
           type: notification.type,
-          link: `/dashboard/campaigns/${campaign.id}`,
+          link: options.link || `/dashboard/campaigns/${campaign.id}`,
           ...notification.data,
         },
       );
@@ -130,5 +133,22 @@ export class NotificationEventService {
       `Your campaign "${campaign.name}" has failed.${reason ? ` Reason: ${reason}` : ''}`,
     );
   }
-}
 
+  /**
+   * Notify the campaign owner when a contact replies with interest
+   */
+  async notifyInterestedReply(campaign: Campaign, contact: Contact, snippet?: string): Promise<void> {
+    const name = [contact.firstName, contact.lastName].filter(Boolean).join(' ') || contact.email;
+    await this.createCampaignNotification(
+      campaign,
+      NotificationType.REPLY_INTERESTED,
+      'Interested Reply',
+      `${name} replied with interest to your campaign "${campaign.name}".${snippet ? ` "${snippet.substring(0, 140)}"` : ''}`,
+      undefined,
+      {
+        data: { contactId: contact.id, contactEmail: contact.email },
+        link: '/dashboard/inbox',
+      },
+    );
+  }
+}
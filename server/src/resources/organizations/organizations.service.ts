@@ -10,6 +10,14 @@ import { OrganizationValidator } from './services/organization-validation.servic
 import { SubscriptionQueue } from 'src/configuration/bull/queues/subscription.queue';
 import { Transaction, WhereOptions } from 'sequelize';
 import { generateUniqueOrgSlug } from 'src/common/utils/slug-generator.util';
+import {
+  SEQUENCE_STOP_RULES_SETTING,
+  validateSequenceStopRules,
+} from 'src/resources/campaigns/services/sequence-stop.service';
+import {
+  CONTENT_LINT_SETTING,
+  validateContentLintSettings,
+} from 'src/resources/campaigns/services/content-lint.service';
 
 @Injectable()
 export class OrganizationsService {
@@ -167,6 +175,19 @@ export class OrganizationsService {
   }
 
   async updateSettings(id: string, settings: Record<string, any>): Promise<Organization> {
+    if (settings[SEQUENCE_STOP_RULES_SETTING] !== undefined) {
+      settings = {
+        ...settings,
+        [SEQUENCE_STOP_RULES_SETTING]: validateSequenceStopRules(settings[SEQUENCE_STOP_RULES_SETTING]),
+      };
+    }
+    if (settings[CONTENT_LINT_SETTING] !== undefined) {
+      settings = {
+        ...settings,
+        [CONTENT_LINT_SETTING]: validateContentLintSettings(settings[CONTENT_LINT_SETTING]),
+      };
+    }
+
     return this.transactionManager.execute(async (transaction) => {
       const organization = await this.organizationRepository.findOne({
         where: { id } as WhereOptions<Organization>,
@@ -0,0 +1,31 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { SuppressionType } from '../entities/suppression-entry.entity';
+
+export class CreateSuppressionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(320)
+  value: string;
+
+  /** Inferred from the value when omitted */
+  @IsOptional()
+  @IsEnum(SuppressionType)
+  type?: SuppressionType;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,40 @@
+import { IsEnum, IsInt, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { SuppressionSource, SuppressionType } from '../entities/suppression-entry.entity';
+
+export class SuppressionQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(SuppressionType)
+  type?: SuppressionType;
+
+  @IsOptional()
+  @IsEnum(SuppressionSource)
+  source?: SuppressionSource;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(500)
+  limit?: number;
+}
+
+export class SuppressionOrganizationQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,77 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+
+/**
+ * What a suppression entry blocks
+ * EMAIL: one address, DOMAIN: a domain and its subdomains, PATTERN: wildcard match on the address (`*`, `?`)
+ */
+export enum SuppressionType {
+  EMAIL = 'EMAIL',
+  DOMAIN = 'DOMAIN',
+  PATTERN = 'PATTERN',
+}
+
+export enum SuppressionSource {
+  MANUAL = 'MANUAL',
+  IMPORT = 'IMPORT',
+  REPLY = 'REPLY',
+}
+
+@Table({
+  tableName: 'suppression_entries',
+  timestamps: true,
+  underscored: true,
+  paranoid: false, // Removed entries are deleted so they can be added again
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'unique_suppression_org_type_value',
+      unique: true,
+      fields: ['organization_id', 'type', 'value'],
+    },
+  ],
+})
+export class SuppressionEntry extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(SuppressionType)),
+    allowNull: false,
+  })
+  type: SuppressionType;
+
+  /** Lowercase email, domain or pattern */
+  @Column({
+    type: DataType.STRING(320),
+    allowNull: false,
+  })
+  value: string;
+
+  @Column({
+    type: DataType.STRING(500),
+    allowNull: true,
+  })
+  reason: string | null;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(SuppressionSource)),
+    allowNull: false,
+    defaultValue: SuppressionSource.MANUAL,
+  })
+  source: SuppressionSource;
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+}
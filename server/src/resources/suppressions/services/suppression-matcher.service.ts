@@ -0,0 +1,173 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { Op } from 'sequelize';
+import { EmailSkipReason } from 'src/resources/campaigns/entities/email-message.entity';
+import { SuppressionEntry, SuppressionType } from '../entities/suppression-entry.entity';
+import { SUPPRESSION_MATCH_CHUNK_SIZE } from '../suppressions.constants';
+
+export interface SuppressionMatch {
+  entryId: string;
+  type: SuppressionType;
+  value: string;
+  reason: string | null;
+}
+
+export const SUPPRESSION_SKIP_REASONS: Record<SuppressionType, EmailSkipReason> = {
+  [SuppressionType.EMAIL]: EmailSkipReason.SUPPRESSED_EMAIL,
+  [SuppressionType.DOMAIN]: EmailSkipReason.SUPPRESSED_DOMAIN,
+  [SuppressionType.PATTERN]: EmailSkipReason.SUPPRESSED_PATTERN,
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DOMAIN_PATTERN = /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+const WILDCARD_PATTERN = /^[a-z0-9.@_+*?'-]+$/;
+
+/**
+ * Guess the type of a raw value: wildcards make a pattern, an @ an email, anything else a domain
+ */
+export function inferSuppressionType(value: string): SuppressionType {
+  const trimmed = (value || '').trim();
+  if (/[*?]/.test(trimmed)) return SuppressionType.PATTERN;
+  if (trimmed.includes('@') && !trimmed.startsWith('@')) return SuppressionType.EMAIL;
+  return SuppressionType.DOMAIN;
+}
+
+/**
+ * Lowercase and validate a value for its type
+ * Domains accept a leading `@` or `*.` (`@acme.com`, `*.acme.com`), both block the domain and its subdomains.
+ * @throws BadRequestException when the value is not valid for the type
+ */
+export function normalizeSuppressionValue(type: SuppressionType, value: string): string {
+  let normalized = (value || '').trim().toLowerCase();
+
+  switch (type) {
+    case SuppressionType.EMAIL:
+      if (!EMAIL_PATTERN.test(normalized)) {
+        throw new BadRequestException(`"${value}" is not a valid email address`);
+      }
+      return normalized;
+    case SuppressionType.DOMAIN:
+      normalized = normalized.replace(/^(@|\*\.)/, '');
+      if (!DOMAIN_PATTERN.test(normalized)) {
+        throw new BadRequestException(`"${value}" is not a valid domain`);
+      }
+      return normalized;
+    case SuppressionType.PATTERN:
+      if (!/[*?]/.test(normalized) || !WILDCARD_PATTERN.test(normalized) || /^[*?]+$/.test(normalized)) {
+        throw new BadRequestException(
+          `"${value}" is not a valid pattern, use * and ? wildcards with at least one literal character`,
+        );
+      }
+      return normalized;
+  }
+}
+
+export function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Domain of an address and its parent domains, e.g. eu.acme.com and acme.com
+ */
+export function getDomainCandidates(email: string): string[] {
+  const domain = email.slice(email.lastIndexOf('@') + 1);
+  const labels = domain.split('.');
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join('.'));
+  }
+  return candidates;
+}
+
+/**
+ * Matches recipient addresses against an organization's suppression list
+ * Used when campaign steps are materialized and again right before each send.
+ */
+@Injectable()
+export class SuppressionMatcherService {
+  constructor(
+    @InjectModel(SuppressionEntry)
+    private readonly suppressionEntryModel: typeof SuppressionEntry,
+  ) {}
+
+  /**
+   * @returns the matching entry per suppressed address, keyed by lowercase address
+   */
+  async findMatches(
+    organizationId: string,
+    emails: Array<string | null | undefined>,
+  ): Promise<Map<string, SuppressionMatch>> {
+    const matches = new Map<string, SuppressionMatch>();
+    const addresses = Array.from(
+      new Set(emails.filter((email): email is string => !!email).map((email) => email.trim().toLowerCase())),
+    );
+    if (addresses.length === 0) {
+      return matches;
+    }
+
+    const patterns = (await this.suppressionEntryModel.findAll({
+      where: { organizationId, type: SuppressionType.PATTERN },
+      attributes: ['id', 'type', 'value', 'reason'],
+    })).map((entry) => ({ entry, regExp: patternToRegExp(entry.value) }));
+
+    for (let i = 0; i < addresses.length; i += SUPPRESSION_MATCH_CHUNK_SIZE) {
+      const chunk = addresses.slice(i, i + SUPPRESSION_MATCH_CHUNK_SIZE);
+      const domains = Array.from(new Set(chunk.flatMap(getDomainCandidates)));
+
+      const entries = await this.suppressionEntryModel.findAll({
+        where: {
+          organizationId,
+          [Op.or]: [
+            { type: SuppressionType.EMAIL, value: { [Op.in]: chunk } },
+            { type: SuppressionType.DOMAIN, value: { [Op.in]: domains } },
+          ],
+        },
+        attributes: ['id', 'type', 'value', 'reason'],
+      });
+      const entriesByKey = new Map(entries.map((entry) => [`${entry.type}:${entry.value}`, entry]));
+
+      // The most specific entry wins: address, then domain, then pattern
+      for (const address of chunk) {
+        const entry =
+          entriesByKey.get(`${SuppressionType.EMAIL}:${address}`) ||
+          getDomainCandidates(address)
+            .map((domain) => entriesByKey.get(`${SuppressionType.DOMAIN}:${domain}`))
+            .find(Boolean) ||
+          patterns.find(({ regExp }) => regExp.test(address))?.entry;
+
+        if (entry) {
+          matches.set(address, this.toMatch(entry));
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  async findMatch(organizationId: string, email: string | null | undefined): Promise<SuppressionMatch | null> {
+    if (!email) return null;
+    const matches = await this.findMatches(organizationId, [email]);
+    return matches.get(email.trim().toLowerCase()) ?? null;
+  }
+
+  /**
+   * Message stored on the skipped email, e.g. `Suppressed by domain "acme.com": competitor`
+   */
+  describeMatch(match: SuppressionMatch): string {
+    const label = match.type === SuppressionType.EMAIL ? 'address' : match.type.toLowerCase();
+    return `Suppressed by ${label} "${match.value}"${match.reason ? `: ${match.reason}` : ''}`;
+  }
+
+  private toMatch(entry: SuppressionEntry): SuppressionMatch {
+    return {
+      entryId: entry.id,
+      type: entry.type,
+      value: entry.value,
+      reason: entry.reason,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Suppression list constants
+ */
+
+export const MAX_SUPPRESSION_IMPORT_ROWS = 50000;
+export const MAX_SUPPRESSION_FILE_SIZE_BYTES = 10 * 1024 * 1024;
+
+/** Addresses per query when matching contacts against the list */
+export const SUPPRESSION_MATCH_CHUNK_SIZE = 1000;
+
+/** Invalid rows listed in the import result */
+export const MAX_REPORTED_IMPORT_ERRORS = 100;
+
+export const SUPPRESSION_SEARCH_FIELDS = ['value', 'reason'];
+
+export const SUPPRESSION_EXPORT_HEADERS = ['type', 'value', 'reason', 'source', 'created_at'];
@@ -0,0 +1,65 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  Res,
+  UseInterceptors,
+  UploadedFile,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { SuppressionsService } from './suppressions.service';
+import { CreateSuppressionDto } from './dto/create-suppression.dto';
+import {
+  SuppressionOrganizationQueryDto,
+  SuppressionQueryDto,
+} from './dto/suppression-query.dto';
+
+@Controller()
+export class SuppressionsController {
+  constructor(private readonly suppressionsService: SuppressionsService) {}
+
+  @Post()
+  create(@Body() createSuppressionDto: CreateSuppressionDto) {
+    return this.suppressionsService.create(createSuppressionDto);
+  }
+
+  @Get()
+  findAll(@Query() query: SuppressionQueryDto) {
+    return this.suppressionsService.findAll(query);
+  }
+
+  @Post('import')
+  @UseInterceptors(FileInterceptor('file'))
+  import(
+    @UploadedFile() file: any,
+    @Query() query: SuppressionOrganizationQueryDto,
+  ) {
+    return this.suppressionsService.importCsv(file, query.organizationId);
+  }
+
+  @Get('export')
+  async export(
+    @Query() query: SuppressionOrganizationQueryDto,
+    @Res() res: Response,
+  ) {
+    const csv = await this.suppressionsService.exportCsv(query.organizationId);
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader(
+      'Content-Disposition',
+      'attachment; filename=suppression-list.csv',
+    );
+    res.send(csv);
+  }
+
+  @Delete(':id')
+  remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.suppressionsService.remove(id);
+  }
+}
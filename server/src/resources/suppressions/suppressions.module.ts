@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { ExcelModule } from 'src/configuration/excel/excel.module';
+import { SuppressionEntry } from './entities/suppression-entry.entity';
+import { SuppressionsController } from './suppressions.controller';
+import { SuppressionsService } from './suppressions.service';
+import { SuppressionsRepository } from './suppressions.repository';
+import { SuppressionMatcherService } from './services/suppression-matcher.service';
+
+@Module({
+  imports: [
+    SequelizeModule.forFeature([SuppressionEntry]),
+    ExcelModule, // For CSV import, also loaded where the app modules don't import it (scheduler)
+  ],
+  controllers: [SuppressionsController],
+  providers: [SuppressionsService, SuppressionsRepository, SuppressionMatcherService],
+  exports: [SuppressionsService, SuppressionMatcherService],
+})
+export class SuppressionsModule {}
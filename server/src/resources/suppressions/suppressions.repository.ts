@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { BaseRepository } from 'src/common/repository/base.repository';
+import { InjectModel } from '@nestjs/sequelize';
+import { SuppressionEntry } from './entities/suppression-entry.entity';
+import { UserContextService } from 'src/common/services/user-context.service';
+
+@Injectable()
+export class SuppressionsRepository extends BaseRepository<SuppressionEntry> {
+  constructor(
+    @InjectModel(SuppressionEntry)
+    suppressionEntryModel: typeof SuppressionEntry,
+    userContextService: UserContextService,
+  ) {
+    super(suppressionEntryModel, undefined, userContextService);
+  }
+
+  /**
+   * Insert entries, skipping the ones already on the list
+   * @returns number of entries inserted
+   */
+  async bulkCreateIgnoringDuplicates(
+    organizationId: string,
+    entries: Partial<SuppressionEntry>[],
+  ): Promise<number> {
+    if (entries.length === 0) return 0;
+
+    const before = await this.model.count({ where: { organizationId } });
+    await this.model.bulkCreate(
+      entries.map((entry) => ({ ...entry, organizationId })),
+      { ignoreDuplicates: true },
+    );
+    const after = await this.model.count({ where: { organizationId } });
+    return after - before;
+  }
+
+  async findAllForExport(organizationId: string): Promise<SuppressionEntry[]> {
+    return this.model.findAll({
+      where: { organizationId },
+      order: [['type', 'ASC'], ['value', 'ASC']],
+    });
+  }
+}
@@ -0,0 +1,280 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { WhereOptions } from 'sequelize';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { ExcelService } from 'src/configuration/excel/excel.service';
+import { SuppressionsRepository } from './suppressions.repository';
+import {
+  SuppressionEntry,
+  SuppressionSource,
+  SuppressionType,
+} from './entities/suppression-entry.entity';
+import { CreateSuppressionDto } from './dto/create-suppression.dto';
+import { SuppressionQueryDto } from './dto/suppression-query.dto';
+import {
+  inferSuppressionType,
+  normalizeSuppressionValue,
+} from './services/suppression-matcher.service';
+import {
+  MAX_REPORTED_IMPORT_ERRORS,
+  MAX_SUPPRESSION_FILE_SIZE_BYTES,
+  MAX_SUPPRESSION_IMPORT_ROWS,
+  SUPPRESSION_EXPORT_HEADERS,
+  SUPPRESSION_SEARCH_FIELDS,
+} from './suppressions.constants';
+
+export interface SuppressionImportResult {
+  success: boolean;
+  total: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  errors: Array<{ row: number; value: string; message: string }>;
+}
+
+/** Columns read from imported files, a type-named column also sets the type */
+const VALUE_COLUMNS: Array<{ name: string; type?: SuppressionType }> = [
+  { name: 'value' },
+  { name: 'email', type: SuppressionType.EMAIL },
+  { name: 'domain', type: SuppressionType.DOMAIN },
+  { name: 'pattern', type: SuppressionType.PATTERN },
+];
+
+@Injectable()
+export class SuppressionsService {
+  private readonly logger = new Logger(SuppressionsService.name);
+
+  constructor(
+    private readonly suppressionsRepository: SuppressionsRepository,
+    private readonly userContextService: UserContextService,
+    private readonly excelService: ExcelService,
+  ) {}
+
+  async create(dto: CreateSuppressionDto): Promise<SuppressionEntry> {
+    const organizationId = this.resolveOrganizationId(dto.organizationId);
+    const type = dto.type || inferSuppressionType(dto.value);
+    const value = normalizeSuppressionValue(type, dto.value);
+
+    const existing = await this.suppressionsRepository.findOne({
+      where: { organizationId, type, value },
+    });
+    if (existing) {
+      throw new ConflictException(`${type.toLowerCase()} "${value}" is already on the suppression list`);
+    }
+
+    const entry = await this.suppressionsRepository.create({
+      organizationId,
+      type,
+      value,
+      reason: dto.reason?.trim() || null,
+      source: SuppressionSource.MANUAL,
+    });
+
+    this.logger.log(`Added ${type} suppression "${value}" for organization ${organizationId}`);
+    return entry;
+  }
+
+  /**
+   * Suppress an address on behalf of the system (e.g. a "not interested" reply), no-op when it is already listed
+   * @returns true when a new entry was added
+   */
+  async suppressEmail(
+    organizationId: string,
+    email: string,
+    source: SuppressionSource,
+    reason?: string,
+  ): Promise<boolean> {
+    const value = normalizeSuppressionValue(SuppressionType.EMAIL, email);
+    const created = await this.suppressionsRepository.bulkCreateIgnoringDuplicates(organizationId, [
+      {
+        type: SuppressionType.EMAIL,
+        value,
+        reason: reason?.slice(0, 500) || null,
+        source,
+      },
+    ]);
+
+    if (created > 0) {
+      this.logger.log(`Added ${source} suppression "${value}" for organization ${organizationId}`);
+    }
+    return created > 0;
+  }
+
+  async findAll(query: SuppressionQueryDto) {
+    const where: WhereOptions<SuppressionEntry> = {};
+    if (query.type) {
+      (where as any).type = query.type;
+    }
+    if (query.source) {
+      (where as any).source = query.source;
+    }
+
+    return this.suppressionsRepository.findAll({
+      where,
+      pagination: {
+        page: query.page || 1,
+        limit: query.limit || 50,
+        searchTerm: query.search?.trim() || '',
+        searchFields: SUPPRESSION_SEARCH_FIELDS,
+        sortBy: 'createdAt',
+        sortOrder: 'DESC',
+      },
+      organizationId: query.organizationId,
+    });
+  }
+
+  async remove(id: string): Promise<{ success: boolean }> {
+    const entry = await this.suppressionsRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundException('Suppression entry not found');
+    }
+
+    await this.suppressionsRepository.forceDelete({ id } as WhereOptions<SuppressionEntry>);
+    return { success: true };
+  }
+
+  /**
+   * Import a CSV with a `value` column (or `email`, `domain`, `pattern`) and optional `type` and `reason` columns
+   * Rows already on the list are counted as duplicates, invalid rows are reported and skipped.
+   */
+  async importCsv(file: any, requestedOrganizationId?: string): Promise<SuppressionImportResult> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+
+    if (!file?.buffer) {
+      throw new BadRequestException('No file provided');
+    }
+    if (this.excelService.detectFileType(file.originalname) !== 'csv') {
+      throw new BadRequestException('Only CSV files can be imported');
+    }
+    if (file.size > MAX_SUPPRESSION_FILE_SIZE_BYTES) {
+      throw new BadRequestException(
+        `File exceeds the ${MAX_SUPPRESSION_FILE_SIZE_BYTES / 1024 / 1024} MB limit`,
+      );
+    }
+
+    const rows: Record<string, string>[] = await this.excelService.parseCSV(
+      file.buffer.toString('utf-8').replace(/^\uFEFF/, ''),
+    );
+    if (rows.length > MAX_SUPPRESSION_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `File has ${rows.length} rows, the maximum is ${MAX_SUPPRESSION_IMPORT_ROWS}`,
+      );
+    }
+
+    const result: SuppressionImportResult = {
+      success: true,
+      total: rows.length,
+      created: 0,
+      duplicates: 0,
+      invalid: 0,
+      errors: [],
+    };
+    const entries = new Map<string, Partial<SuppressionEntry>>();
+
+    rows.forEach((rawRow, index) => {
+      const row = this.lowercaseKeys(rawRow);
+      const column = VALUE_COLUMNS.find(({ name }) => row[name]);
+      const rawValue = column ? row[column.name] : '';
+
+      try {
+        if (!rawValue) {
+          throw new BadRequestException('Missing value');
+        }
+        const type = this.parseType(row.type) || column!.type || inferSuppressionType(rawValue);
+        const value = normalizeSuppressionValue(type, rawValue);
+
+        const key = `${type}:${value}`;
+        if (entries.has(key)) {
+          result.duplicates++;
+          return;
+        }
+        entries.set(key, {
+          type,
+          value,
+          reason: row.reason?.slice(0, 500) || null,
+          source: SuppressionSource.IMPORT,
+          createdBy: this.userContextService.getCurrentUserId(),
+        });
+      } catch (error) {
+        result.invalid++;
+        if (result.errors.length < MAX_REPORTED_IMPORT_ERRORS) {
+          result.errors.push({
+            row: index + 2, // 1-based, after the header row
+            value: rawValue,
+            message: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    });
+
+    result.created = await this.suppressionsRepository.bulkCreateIgnoringDuplicates(
+      organizationId,
+      Array.from(entries.values()),
+    );
+    result.duplicates += entries.size - result.created;
+
+    this.logger.log(
+      `Imported suppression list for organization ${organizationId}: ` +
+      `${result.created} added, ${result.duplicates} duplicates, ${result.invalid} invalid`,
+    );
+    return result;
+  }
+
+  /**
+   * Export the organization's suppression list as CSV, in the import format
+   */
+  async exportCsv(requestedOrganizationId?: string): Promise<string> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    const entries = await this.suppressionsRepository.findAllForExport(organizationId);
+
+    const lines = [
+      SUPPRESSION_EXPORT_HEADERS.join(','),
+      ...entries.map((entry) =>
+        [entry.type, entry.value, entry.reason || '', entry.source, new Date(entry.createdAt).toISOString()]
+          .map((cell) => this.toCsvCell(cell))
+          .join(','),
+      ),
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Employees manage any organization's list, users only their own
+   */
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+
+  private parseType(value?: string): SuppressionType | undefined {
+    if (!value) return undefined;
+    const type = value.trim().toUpperCase() as SuppressionType;
+    if (!Object.values(SuppressionType).includes(type)) {
+      throw new BadRequestException(`Unknown type "${value}", use EMAIL, DOMAIN or PATTERN`);
+    }
+    return type;
+  }
+
+  private lowercaseKeys(row: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), (value ?? '').toString().trim()]),
+    );
+  }
+
+  private toCsvCell(value: string): string {
+    // Prefix formula characters so spreadsheet apps don't evaluate user input
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
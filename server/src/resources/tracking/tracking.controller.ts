@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Param, Req, Res, Query, Logger, Headers } from '@nestjs/common';
+import { Controller, Get, Post, Param, Body, Req, Res, Query, Logger, Headers } from '@nestjs/common';
 import { Response, Request } from 'express';
 import { EmailTrackingService } from 'src/common/services/email-tracking.service';
 import { EmailEventType } from '../campaigns/entities/email-tracking-event.entity';
@@ -23,27 +23,31 @@ export class TrackingController {
 
   /**
    * Tracking pixel endpoint for email opens
-   * GET /api/v1/tracking/open/:emailMessageId
+   * GET /api/v1/tracking/open/:token
    */
   @Public()
-  @Get('open/:emailMessageId')
+  @Get('open/:token')
   async trackOpen(
-    @Param('emailMessageId') emailMessageId: string,
+    @Param('token') token: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
     try {
-      this.logger.log(`🔔 Open tracking request received for email: ${emailMessageId}`);
+      const emailMessageId = await this.emailTrackingService.resolveTrackingToken(token, 'open');
       const userAgent = req.headers['user-agent'] || 'Unknown';
       const ipAddress = req.ip || req.socket.remoteAddress || 'Unknown';
 
-      this.logger.debug(`📧 User-Agent: ${userAgent}, IP: ${ipAddress}`);
-
-      // Record the open event
-      await this.emailTrackingService.recordEvent(emailMessageId, EmailEventType.OPENED, {
-        userAgent,
-        ipAddress,
-      });
+      // Record the open event, the pixel is returned either way
+      if (emailMessageId) {
+        this.logger.log(`🔔 Open tracking request received for email: ${emailMessageId}`);
+        this.logger.debug(`📧 User-Agent: ${userAgent}, IP: ${ipAddress}`);
+        await this.emailTrackingService.recordEvent(emailMessageId, EmailEventType.OPENED, {
+          userAgent,
+          ipAddress,
+        });
+      } else {
+        this.logger.warn(`Ignoring open with an invalid tracking token`);
+      }
 
       // Return a 1x1 transparent GIF
       const pixel = Buffer.from(
@@ -57,7 +61,6 @@ export class TrackingController {
       res.setHeader('Expires', '0');
       res.send(pixel);
 
-      this.logger.debug(`Open tracked for email ${emailMessageId}`);
     } catch (error) {
       const err = error as Error;
       this.logger.error(`Failed to track open: ${err.message}`);
@@ -73,38 +76,43 @@ export class TrackingController {
 
   /**
    * Click tracking redirect endpoint
-   * GET /api/v1/tracking/click/:emailMessageId?url=...
+   * GET /api/v1/tracking/click/:token
+   * Redirects only to links of the email the token was signed for.
+   * `?url=` is only honoured for links sent before tracking links were signed.
    */
   @Public()
-  @Get('click/:emailMessageId')
+  @Get('click/:token')
   async trackClick(
-    @Param('emailMessageId') emailMessageId: string,
-    @Query('url') url: string,
+    @Param('token') token: string,
+    @Query('url') legacyUrl: string | undefined,
     @Req() req: Request,
     @Res() res: Response,
   ) {
     try {
+      const click = await this.emailTrackingService.resolveClick(token, legacyUrl);
+      if (!click || !/^https?:\/\//i.test(click.url)) {
+        this.logger.warn(`Rejected click with an invalid or unknown tracking token`);
+        res.status(404).send('Link not found');
+        return;
+      }
+
       const userAgent = req.headers['user-agent'] || 'Unknown';
       const ipAddress = req.ip || req.socket.remoteAddress || 'Unknown';
 
-      // Record the click event
-      await this.emailTrackingService.recordEvent(emailMessageId, EmailEventType.CLICKED, {
-        clickedUrl: url,
-        userAgent,
-        ipAddress,
-      });
-
-      // Decode and redirect
-      const decodedUrl = decodeURIComponent(url);
-      
-      // Validate URL to prevent open redirect attacks
-      if (decodedUrl.startsWith('http://') || decodedUrl.startsWith('https://') || decodedUrl.startsWith('//')) {
-        this.logger.debug(`Click tracked for email ${emailMessageId} - redirecting to ${decodedUrl}`);
-        res.redirect(decodedUrl);
-      } else {
-        this.logger.warn(`Invalid redirect URL: ${decodedUrl}`);
-        res.status(400).send('Invalid URL');
+      // Record the click event; the recipient is redirected even if recording fails
+      try {
+        await this.emailTrackingService.recordEvent(click.emailMessageId, EmailEventType.CLICKED, {
+          clickedUrl: click.url,
+          ...(click.linkId && { linkId: click.linkId }),
+          userAgent,
+          ipAddress,
+        });
+      } catch (recordError) {
+        this.logger.error(`Failed to record click: ${(recordError as Error).message}`);
       }
+
+      this.logger.debug(`Click tracked for email ${click.emailMessageId} - redirecting to ${click.url}`);
+      res.redirect(click.url);
     } catch (error) {
       const err = error as Error;
       this.logger.error(`Failed to track click: ${err.message}`);
@@ -114,16 +122,25 @@ export class TrackingController {
 
   /**
    * Unsubscribe endpoint
-   * GET /api/v1/tracking/unsubscribe/:emailMessageId
+   * GET /api/v1/tracking/unsubscribe/:token
    */
   @Public()
-  @Get('unsubscribe/:emailMessageId')
+  @Get('unsubscribe/:token')
   async unsubscribe(
-    @Param('emailMessageId') emailMessageId: string,
+    @Param('token') token: string,
     @Req() req: Request,
     @Res() res: Response,
   ) {
     try {
+      const emailMessageId = await this.emailTrackingService.resolveTrackingToken(token, 'unsubscribe');
+      if (!emailMessageId) {
+        this.logger.warn(`Rejected unsubscribe with an invalid or expired token`);
+        res.status(404).send(
+          this.renderUnsubscribeError('This unsubscribe link is invalid or has expired.'),
+        );
+        return;
+      }
+
       this.logger.log(`🔔 Unsubscribe GET request received for email: ${emailMessageId}`);
       await this.emailTrackingService.handleUnsubscribe(emailMessageId);
 
@@ -176,64 +193,90 @@ export class TrackingController {
       const err = error as Error;
       this.logger.error(`Failed to process unsubscribe: ${err.message}`);
 
-      // Return error page
-      const errorHtml = `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-          <meta charset="UTF-8" />
-          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-          <title>Unsubscribe Error - Inboz</title>
-          <link rel="icon" type="image/svg+xml" href="https://inboz.io/favicon.svg" />
-          <link rel="icon" type="image/x-icon" href="https://inboz.io/favicon.ico" />
-          <style>
-            body {
-              font-family: Arial, sans-serif;
-              display: flex;
-              justify-content: center;
-              align-items: center;
-              height: 100vh;
-              margin: 0;
-              background-color: #f5f5f5;
-            }
-            .container {
-              text-align: center;
-              padding: 40px;
-              background-color: white;
-              border-radius: 8px;
-              box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-            }
-            h1 { color: #d32f2f; margin-bottom: 20px; }
-            p { color: #666; font-size: 16px; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <h1>⚠ Unsubscribe Error</h1>
-            <p>We encountered an error processing your unsubscribe request.</p>
-            <p>Please contact support for assistance.</p>
-          </div>
-        </body>
-        </html>
-      `;
-
-      res.status(500).send(errorHtml);
+      res.status(500).send(
+        this.renderUnsubscribeError(
+          'We encountered an error processing your unsubscribe request.',
+          'Please contact support for assistance.',
+        ),
+      );
     }
   }
 
   /**
    * POST endpoint for unsubscribe (alternative to GET)
-   * POST /api/v1/tracking/unsubscribe/:emailMessageId
+   * POST /api/v1/tracking/unsubscribe/:token
+   * Mailbox providers POST `List-Unsubscribe=One-Click` (RFC 8058) from their own unsubscribe
+   * button, these get a plain response instead of the confirmation page.
    */
   @Public()
-  @Post('unsubscribe/:emailMessageId')
+  @Post('unsubscribe/:token')
   async unsubscribePost(
-    @Param('emailMessageId') emailMessageId: string,
+    @Param('token') token: string,
+    @Body() body: Record<string, string> | undefined,
     @Req() req: Request,
     @Res() res: Response,
   ) {
-    // Same logic as GET endpoint
-    return this.unsubscribe(emailMessageId, req, res);
+    if (body?.['List-Unsubscribe'] !== 'One-Click') {
+      // Same logic as GET endpoint
+      return this.unsubscribe(token, req, res);
+    }
+
+    try {
+      const emailMessageId = await this.emailTrackingService.resolveTrackingToken(token, 'unsubscribe');
+      if (!emailMessageId) {
+        this.logger.warn(`Rejected one-click unsubscribe with an invalid or expired token`);
+        res.status(404).send('Invalid or expired unsubscribe link');
+        return;
+      }
+
+      await this.emailTrackingService.handleUnsubscribe(emailMessageId);
+      this.logger.log(`One-click unsubscribe processed for email ${emailMessageId}`);
+      res.status(200).send('Unsubscribed');
+    } catch (error) {
+      this.logger.error(`Failed to process one-click unsubscribe: ${(error as Error).message}`);
+      res.status(500).send('Failed to unsubscribe');
+    }
+  }
+
+  private renderUnsubscribeError(...messages: string[]): string {
+    return `
+      <!DOCTYPE html>
+      <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>Unsubscribe Error - Inboz</title>
+        <link rel="icon" type="image/svg+xml" href="https://inboz.io/favicon.svg" />
+        <link rel="icon" type="image/x-icon" href="https://inboz.io/favicon.ico" />
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            display: flex;
+            justify-content: center;
+            align-items: center;
+            height: 100vh;
+            margin: 0;
+            background-color: #f5f5f5;
+          }
+          .container {
+            text-align: center;
+            padding: 40px;
+            background-color: white;
+            border-radius: 8px;
+            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+          }
+          h1 { color: #d32f2f; margin-bottom: 20px; }
+          p { color: #666; font-size: 16px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <h1>⚠ Unsubscribe Error</h1>
+          ${messages.map((message) => `<p>${message}</p>`).join('\n          ')}
+        </div>
+      </body>
+      </html>
+    `;
   }
 }
 
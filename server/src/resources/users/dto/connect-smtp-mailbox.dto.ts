@@ -0,0 +1,58 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export class ConnectSmtpMailboxDto {
+  @IsNotEmpty()
+  @IsEmail()
+  email: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 255)
+  smtpHost: string;
+
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  smtpPort: number;
+
+  @IsOptional()
+  @IsBoolean()
+  smtpSecure?: boolean;
+
+  // IMAP settings enable reply and bounce detection for the mailbox
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  imapHost?: string;
+
+  @ValidateIf((dto) => !!dto.imapHost)
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  imapPort?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  imapSecure?: boolean;
+
+  // Login for SMTP and IMAP, defaults to the mailbox email
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  username?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  password: string;
+}
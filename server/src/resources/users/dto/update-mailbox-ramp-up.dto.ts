@@ -0,0 +1,51 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { MailboxRampUpPreset } from '../entities/gmail-oauth-token.entity';
+import { MAX_RAMP_UP_CURVE_DAYS } from 'src/common/utils/mailbox-ramp-up.util';
+
+export class UpdateMailboxRampUpDto {
+  /** false removes the schedule, the mailbox then sends at the plan limit */
+  @IsBoolean()
+  enabled: boolean;
+
+  @ValidateIf((dto) => dto.enabled)
+  @IsEnum(MailboxRampUpPreset)
+  preset?: MailboxRampUpPreset;
+
+  // CUSTOM schedules without a curve grow from startVolume by dailyGrowthPercent
+  @ValidateIf((dto) => dto.enabled && dto.preset === MailboxRampUpPreset.CUSTOM && !dto.curve)
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  startVolume?: number;
+
+  @ValidateIf((dto) => dto.enabled && dto.preset === MailboxRampUpPreset.CUSTOM && !dto.curve)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  dailyGrowthPercent?: number;
+
+  /** Daily limit per ramp day, the plan limit applies after the last day */
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_RAMP_UP_CURVE_DAYS)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  curve?: number[];
+
+  /** Start the schedule again from day 1, otherwise a running ramp keeps its start date */
+  @IsOptional()
+  @IsBoolean()
+  restart?: boolean;
+}
@@ -17,6 +17,43 @@ export enum GmailTokenStatus {
   INVALID = 'INVALID',
 }
 
+/**
+ * Delivery backend of a connected mailbox
+ * GMAIL mailboxes use the OAuth tokens, SMTP mailboxes (Microsoft 365, generic hosts)
+ * use the SMTP/IMAP settings and the encrypted mailbox password
+ */
+export enum MailboxProvider {
+  GMAIL = 'GMAIL',
+  SMTP = 'SMTP',
+}
+
+/**
+ * Warm-up presets for new mailboxes, CUSTOM uses the schedule's own values or curve
+ */
+export enum MailboxRampUpPreset {
+  CONSERVATIVE = 'CONSERVATIVE',
+  STANDARD = 'STANDARD',
+  AGGRESSIVE = 'AGGRESSIVE',
+  CUSTOM = 'CUSTOM',
+}
+
+/**
+ * Daily sending limit schedule of a newly connected mailbox
+ * The limit starts at startVolume and grows by dailyGrowthPercent each UTC day (or follows
+ * curve), capped by the subscription plan's daily limit
+ */
+export interface MailboxRampUp {
+  preset: MailboxRampUpPreset;
+  /** Emails allowed on the first day */
+  startVolume: number;
+  /** Compound growth per day, e.g. 10 = +10% a day */
+  dailyGrowthPercent: number;
+  /** Daily limits per ramp day, overrides the growth; the plan limit applies after the last day */
+  curve?: number[] | null;
+  /** First day of the ramp (ISO date-time) */
+  startedAt: string;
+}
+
 @Table({
   tableName: 'gmail_oauth_tokens',
   timestamps: true,
@@ -46,16 +83,23 @@ export class GmailOAuthToken extends BaseEntity {
   email: string;
 
   @Column({
-    type: DataType.TEXT,
+    type: DataType.ENUM(...Object.values(MailboxProvider)),
     allowNull: false,
+    defaultValue: MailboxProvider.GMAIL,
   })
-  accessTokenEncrypted: string;
+  provider: MailboxProvider;
 
   @Column({
     type: DataType.TEXT,
-    allowNull: false,
+    allowNull: true,
   })
-  refreshTokenEncrypted: string;
+  accessTokenEncrypted: string | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  refreshTokenEncrypted: string | null;
 
   @Column({
     type: DataType.DATE,
@@ -137,6 +181,79 @@ export class GmailOAuthToken extends BaseEntity {
   })
   lastHistoryId: string;
 
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  smtpHost: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  smtpPort: number | null;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: false,
+  })
+  smtpSecure: boolean;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+    comment: 'IMAP host polled for replies and bounces of SMTP mailboxes',
+  })
+  imapHost: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  imapPort: number | null;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  })
+  imapSecure: boolean;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+    comment: 'SMTP/IMAP login, defaults to the mailbox email',
+  })
+  mailboxUsername: string | null;
+
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  mailboxPasswordEncrypted: string | null;
+
+  @Column({
+    type: DataType.STRING(32),
+    allowNull: true,
+    comment: 'IMAP UIDVALIDITY of INBOX when imapLastUid was recorded',
+  })
+  imapUidValidity: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+    comment: 'Last INBOX UID processed by the IMAP poller',
+  })
+  imapLastUid: number | null;
+
+  /** Warm-up schedule limiting the daily volume below the plan limit; null sends at the plan limit */
+  @Column({
+    type: DataType.JSON,
+    allowNull: true,
+  })
+  rampUp: MailboxRampUp | null;
+
   @BelongsTo(() => User)
   user: User;
 
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { UserRole } from 'src/common/enums/roles.enum';
+import { CryptoUtilityService } from 'src/common/services/crypto-utility.service';
+import { ImapMailboxService } from 'src/common/services/imap-mailbox.service';
+import { SmtpMailSenderService } from 'src/common/services/smtp-mail-sender.service';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { QuotaManagementService } from 'src/common/services/quota-management.service';
+import { validateEmailDomain } from 'src/common/utils/email-domain-validation.util';
+import {
+  createRampUp,
+  DEFAULT_RAMP_UP_PRESET,
+  MailboxRampUpProgress,
+} from 'src/common/utils/mailbox-ramp-up.util';
+import { ConnectSmtpMailboxDto } from './dto/connect-smtp-mailbox.dto';
+import { UpdateMailboxRampUpDto } from './dto/update-mailbox-ramp-up.dto';
+import {
+  GmailOAuthToken,
+  GmailTokenStatus,
+  MailboxProvider,
+  MailboxRampUp,
+  MailboxRampUpPreset,
+} from './entities/gmail-oauth-token.entity';
+
+// Mailbox fields safe to return to clients (no credentials)
+const MAILBOX_ATTRIBUTES = [
+  'id',
+  'userId',
+  'organizationId',
+  'email',
+  'provider',
+  'status',
+  'smtpHost',
+  'smtpPort',
+  'smtpSecure',
+  'imapHost',
+  'imapPort',
+  'imapSecure',
+  'mailboxUsername',
+  'dailyQuotaUsed',
+  'rampUp',
+  'lastUsedAt',
+  'createdAt',
+];
+
+export type MailboxWithRampUp = ReturnType<GmailOAuthToken['toJSON']> & {
+  rampUpProgress: MailboxRampUpProgress | null;
+};
+
+/**
+ * Connected sending mailboxes
+ * Gmail mailboxes are connected through Google sign-in, SMTP mailboxes through these endpoints
+ */
+@Injectable()
+export class MailboxesService {
+  private readonly logger = new Logger(MailboxesService.name);
+
+  constructor(
+    @InjectModel(GmailOAuthToken)
+    private readonly gmailTokenModel: typeof GmailOAuthToken,
+    private readonly userContextService: UserContextService,
+    private readonly cryptoUtilityService: CryptoUtilityService,
+    private readonly smtpMailSenderService: SmtpMailSenderService,
+    private readonly imapMailboxService: ImapMailboxService,
+    private readonly quotaManagementService: QuotaManagementService,
+  ) {}
+
+  async listMailboxes(organizationId?: string): Promise<MailboxWithRampUp[]> {
+    const currentUser = this.userContextService.getCurrentUser();
+    const isEmployee = currentUser?.type === 'employee';
+    const targetOrganizationId = isEmployee ? organizationId : currentUser?.organizationId;
+
+    if (!targetOrganizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+
+    const mailboxes = await this.gmailTokenModel.findAll({
+      where: { organizationId: targetOrganizationId },
+      attributes: MAILBOX_ATTRIBUTES,
+      order: [['email', 'ASC']],
+    });
+
+    return Promise.all(mailboxes.map((mailbox) => this.withRampUpProgress(mailbox)));
+  }
+
+  /**
+   * Connect an SMTP mailbox (Microsoft 365, generic SMTP) for the current user
+   * The SMTP login, and the IMAP login when configured, are verified before saving
+   */
+  async connectSmtpMailbox(dto: ConnectSmtpMailboxDto): Promise<GmailOAuthToken> {
+    const currentUser = this.userContextService.getCurrentUser();
+    if (!currentUser?.sub || !currentUser.organizationId || currentUser.type === 'employee') {
+      throw new ForbiddenException('Only organization users can connect mailboxes');
+    }
+
+    const email = dto.email.trim().toLowerCase();
+    validateEmailDomain(email, MailboxProvider.SMTP);
+
+    const connectedInOrganization = await this.gmailTokenModel.findOne({
+      where: {
+        organizationId: currentUser.organizationId,
+        email,
+        status: GmailTokenStatus.ACTIVE,
+      },
+      attributes: ['id', 'userId'],
+    });
+    if (connectedInOrganization && connectedInOrganization.userId !== currentUser.sub) {
+      throw new ConflictException(`Mailbox ${email} is already connected in this organization`);
+    }
+
+    const username = dto.username?.trim() || email;
+    const smtpSecure = dto.smtpSecure ?? dto.smtpPort === 465;
+    const imapSecure = dto.imapSecure ?? true;
+
+    try {
+      await this.smtpMailSenderService.verifyConnection({
+        host: dto.smtpHost,
+        port: dto.smtpPort,
+        secure: smtpSecure,
+        username,
+        password: dto.password,
+      });
+    } catch (error) {
+      const err = error as Error;
+      throw new BadRequestException(`SMTP connection failed: ${err.message}`);
+    }
+
+    if (dto.imapHost) {
+      try {
+        await this.imapMailboxService.verifyConnection({
+          host: dto.imapHost,
+          port: dto.imapPort,
+          secure: imapSecure,
+          username,
+          password: dto.password,
+        });
+      } catch (error) {
+        const err = error as Error;
+        throw new BadRequestException(`IMAP connection failed: ${err.message}`);
+      }
+    }
+
+    const settings = {
+      provider: MailboxProvider.SMTP,
+      status: GmailTokenStatus.ACTIVE,
+      smtpHost: dto.smtpHost,
+      smtpPort: dto.smtpPort,
+      smtpSecure,
+      imapHost: dto.imapHost || null,
+      imapPort: dto.imapHost ? dto.imapPort : null,
+      imapSecure,
+      mailboxUsername: username,
+      mailboxPasswordEncrypted: await this.cryptoUtilityService.encrypt(dto.password),
+      revokedAt: null,
+    };
+
+    // One row per user and address (unique_user_email): reconnecting updates the existing mailbox
+    const existing = await this.gmailTokenModel.findOne({
+      where: { userId: currentUser.sub, email },
+    });
+
+    let mailbox: GmailOAuthToken;
+    if (existing) {
+      if (existing.provider !== MailboxProvider.SMTP) {
+        throw new ConflictException(`Mailbox ${email} is already connected through Google`);
+      }
+      mailbox = await existing.update({
+        ...settings,
+        // Mailbox settings changed, restart IMAP polling from scratch
+        imapUidValidity: null,
+        imapLastUid: null,
+      });
+    } else {
+      mailbox = await this.gmailTokenModel.create({
+        ...settings,
+        userId: currentUser.sub,
+        organizationId: currentUser.organizationId,
+        email,
+        accessTokenEncrypted: null,
+        refreshTokenEncrypted: null,
+        scopes: [],
+        // New mailboxes have no sending reputation yet, warm them up
+        rampUp: createRampUp(DEFAULT_RAMP_UP_PRESET),
+        createdBy: currentUser.sub,
+      });
+    }
+
+    this.logger.log(`SMTP mailbox ${email} connected for user ${currentUser.sub}`);
+    return this.findMailbox(mailbox.id);
+  }
+
+  /**
+   * Disconnect an SMTP mailbox, the owner or an organization admin can disconnect it
+   * Gmail mailboxes are disconnected by revoking Google access
+   */
+  async disconnectMailbox(mailboxId: string): Promise<GmailOAuthToken> {
+    const currentUser = this.userContextService.getCurrentUser();
+    const isEmployee = currentUser?.type === 'employee';
+
+    const mailbox = await this.gmailTokenModel.findOne({
+      where: isEmployee
+        ? { id: mailboxId }
+        : { id: mailboxId, organizationId: currentUser?.organizationId },
+    });
+
+    if (!mailbox) {
+      throw new NotFoundException(`Mailbox with ID ${mailboxId} not found`);
+    }
+
+    if (mailbox.provider !== MailboxProvider.SMTP) {
+      throw new BadRequestException('Gmail mailboxes are disconnected by revoking Google access');
+    }
+
+    const isAdmin = isEmployee || currentUser?.role === UserRole.ADMIN;
+    if (!isAdmin && mailbox.userId !== currentUser?.sub) {
+      throw new ForbiddenException('You can only disconnect your own mailboxes');
+    }
+
+    await mailbox.update({
+      status: GmailTokenStatus.REVOKED,
+      revokedAt: new Date(),
+    });
+
+    return this.findMailbox(mailbox.id);
+  }
+
+  /**
+   * Set or remove the ramp-up schedule of a mailbox, the owner or an organization admin can change it
+   * Changing the schedule of a running ramp keeps its start date unless restart is set
+   */
+  async updateRampUp(mailboxId: string, dto: UpdateMailboxRampUpDto): Promise<MailboxWithRampUp> {
+    const currentUser = this.userContextService.getCurrentUser();
+    const isEmployee = currentUser?.type === 'employee';
+
+    const mailbox = await this.gmailTokenModel.findOne({
+      where: isEmployee
+        ? { id: mailboxId }
+        : { id: mailboxId, organizationId: currentUser?.organizationId },
+    });
+
+    if (!mailbox) {
+      throw new NotFoundException(`Mailbox with ID ${mailboxId} not found`);
+    }
+
+    const isAdmin = isEmployee || currentUser?.role === UserRole.ADMIN;
+    if (!isAdmin && mailbox.userId !== currentUser?.sub) {
+      throw new ForbiddenException('You can only change the ramp-up of your own mailboxes');
+    }
+
+    let rampUp: MailboxRampUp | null = null;
+    if (dto.enabled) {
+      const startedAt = !dto.restart && mailbox.rampUp?.startedAt ? mailbox.rampUp.startedAt : new Date().toISOString();
+
+      if (dto.preset === MailboxRampUpPreset.CUSTOM) {
+        rampUp = {
+          preset: MailboxRampUpPreset.CUSTOM,
+          startVolume: dto.curve ? dto.curve[0] : dto.startVolume,
+          dailyGrowthPercent: dto.curve ? 0 : dto.dailyGrowthPercent,
+          curve: dto.curve ?? null,
+          startedAt,
+        };
+      } else {
+        if (dto.curve) {
+          throw new BadRequestException('A custom curve requires the CUSTOM preset');
+        }
+        rampUp = { ...createRampUp(dto.preset ?? DEFAULT_RAMP_UP_PRESET), startedAt };
+      }
+    }
+
+    await mailbox.update({ rampUp });
+    this.logger.log(
+      `Ramp-up of mailbox ${mailbox.email} ${rampUp ? `set to ${rampUp.preset}` : 'removed'}`,
+    );
+
+    return this.withRampUpProgress(await this.findMailbox(mailbox.id));
+  }
+
+  private async withRampUpProgress(mailbox: GmailOAuthToken): Promise<MailboxWithRampUp> {
+    return {
+      ...mailbox.toJSON(),
+      rampUpProgress: await this.quotaManagementService.getMailboxRampUpProgress(mailbox),
+    };
+  }
+
+  private async findMailbox(mailboxId: string): Promise<GmailOAuthToken> {
+    return this.gmailTokenModel.findByPk(mailboxId, { attributes: MAILBOX_ATTRIBUTES });
+  }
+}
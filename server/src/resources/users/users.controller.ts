@@ -12,10 +12,40 @@ import { UsersService } from './users.service';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserQueryDto } from './dto/user-query.dto';
 import { InviteUserDto } from './dto/invite-user.dto';
+import { ConnectSmtpMailboxDto } from './dto/connect-smtp-mailbox.dto';
+import { UpdateMailboxRampUpDto } from './dto/update-mailbox-ramp-up.dto';
+import { MailboxesService } from './mailboxes.service';
 
 @Controller()
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly mailboxesService: MailboxesService,
+  ) {}
+
+  // Mailbox routes are declared before ':id' routes so they are not captured as user IDs
+  @Get('mailboxes')
+  listMailboxes(@Query('organizationId') organizationId?: string) {
+    return this.mailboxesService.listMailboxes(organizationId);
+  }
+
+  @Post('mailboxes/smtp')
+  connectSmtpMailbox(@Body() connectSmtpMailboxDto: ConnectSmtpMailboxDto) {
+    return this.mailboxesService.connectSmtpMailbox(connectSmtpMailboxDto);
+  }
+
+  @Patch('mailboxes/:mailboxId/ramp-up')
+  updateMailboxRampUp(
+    @Param('mailboxId') mailboxId: string,
+    @Body() updateMailboxRampUpDto: UpdateMailboxRampUpDto,
+  ) {
+    return this.mailboxesService.updateRampUp(mailboxId, updateMailboxRampUpDto);
+  }
+
+  @Delete('mailboxes/:mailboxId')
+  disconnectMailbox(@Param('mailboxId') mailboxId: string) {
+    return this.mailboxesService.disconnectMailbox(mailboxId);
+  }
 
   @Post('invite')
   inviteUser(@Body() inviteUserDto: InviteUserDto) {
@@ -0,0 +1,39 @@
+import {
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { WebhookEvent } from '../entities/webhook-endpoint.entity';
+
+export class CreateWebhookEndpointDto {
+  @IsUrl({ protocols: ['https', 'http'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsEnum(WebhookEvent, { each: true })
+  events: WebhookEvent[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  /** Required for employees, users always use their own organization */
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
@@ -0,0 +1,37 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { WebhookEvent } from '../entities/webhook-endpoint.entity';
+import { WebhookDeliveryStatus } from '../entities/webhook-delivery.entity';
+
+export class WebhookOrganizationQueryDto {
+  @IsOptional()
+  @IsUUID()
+  organizationId?: string;
+}
+
+export class WebhookDeliveryQueryDto extends WebhookOrganizationQueryDto {
+  @IsOptional()
+  @IsUUID()
+  endpointId?: string;
+
+  @IsOptional()
+  @IsEnum(WebhookEvent)
+  event?: WebhookEvent;
+
+  @IsOptional()
+  @IsEnum(WebhookDeliveryStatus)
+  status?: WebhookDeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number;
+}
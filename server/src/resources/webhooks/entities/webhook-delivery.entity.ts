@@ -0,0 +1,140 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { WebhookEndpoint, WebhookEvent } from './webhook-endpoint.entity';
+
+/**
+ * PENDING: waiting for its first attempt or a retry, SUCCEEDED: the endpoint answered 2xx,
+ * FAILED: every attempt failed, or the endpoint was disabled before delivery
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
+/** Body POSTed to endpoints */
+export interface WebhookPayload {
+  /** Event ID, the same for every endpoint and for redeliveries so receivers can drop duplicates */
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  organizationId: string;
+  data: Record<string, any>;
+}
+
+/**
+ * One event sent to one endpoint, with the outcome of its last attempt
+ */
+@Table({
+  tableName: 'webhook_deliveries',
+  timestamps: true,
+  underscored: true,
+  paranoid: false,
+  deletedAt: false,
+  indexes: [
+    {
+      name: 'idx_webhook_deliveries_org_created',
+      fields: ['organization_id', 'created_at'],
+    },
+    {
+      name: 'idx_webhook_deliveries_endpoint_created',
+      fields: ['endpoint_id', 'created_at'],
+    },
+  ],
+})
+export class WebhookDelivery extends BaseEntity {
+  @ForeignKey(() => WebhookEndpoint)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  endpointId: string;
+
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: false,
+  })
+  event: WebhookEvent;
+
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  eventId: string;
+
+  @Column({
+    type: DataType.JSON,
+    allowNull: false,
+  })
+  payload: WebhookPayload;
+
+  @Column({
+    type: DataType.ENUM(...Object.values(WebhookDeliveryStatus)),
+    allowNull: false,
+    defaultValue: WebhookDeliveryStatus.PENDING,
+  })
+  status: WebhookDeliveryStatus;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: false,
+    defaultValue: 0,
+  })
+  attempts: number;
+
+  /** HTTP status of the last attempt, null when the endpoint couldn't be reached */
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  responseStatus: number | null;
+
+  /** Start of the last response body */
+  @Column({
+    type: DataType.TEXT,
+    allowNull: true,
+  })
+  responseBody: string | null;
+
+  @Column({
+    type: DataType.STRING(1000),
+    allowNull: true,
+  })
+  error: string | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  lastAttemptAt: Date | null;
+
+  @Column({
+    type: DataType.DATE,
+    allowNull: true,
+  })
+  deliveredAt: Date | null;
+
+  /** Delivery this one was manually redelivered from */
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: true,
+  })
+  redeliveryOf: string | null;
+
+  @BelongsTo(() => WebhookEndpoint, { onDelete: 'CASCADE' })
+  endpoint: WebhookEndpoint;
+}
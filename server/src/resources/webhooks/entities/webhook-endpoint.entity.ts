@@ -0,0 +1,83 @@
+import {
+  Table,
+  Column,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+} from 'sequelize-typescript';
+import { BaseEntity } from 'src/common/entities/base.entity';
+import { Organization } from 'src/resources/organizations/entities/organization.entity';
+import { WebhookDelivery } from './webhook-delivery.entity';
+
+/**
+ * Events pushed to webhook endpoints
+ */
+export enum WebhookEvent {
+  EMAIL_SENT = 'email.sent',
+  EMAIL_OPENED = 'email.opened',
+  EMAIL_CLICKED = 'email.clicked',
+  EMAIL_REPLIED = 'email.replied',
+  EMAIL_BOUNCED = 'email.bounced',
+  CONTACT_UNSUBSCRIBED = 'contact.unsubscribed',
+  CAMPAIGN_STATUS_CHANGED = 'campaign.status_changed',
+  CONTACT_IMPORT_COMPLETED = 'contact_import.completed',
+}
+
+/**
+ * An organization's URL that receives the events it subscribed to, signed with its secret
+ */
+@Table({
+  tableName: 'webhook_endpoints',
+  timestamps: true,
+  underscored: true,
+  paranoid: false, // Deleted endpoints take their delivery log with them
+  deletedAt: false,
+})
+export class WebhookEndpoint extends BaseEntity {
+  @ForeignKey(() => Organization)
+  @Column({
+    type: DataType.CHAR(36),
+    allowNull: false,
+  })
+  organizationId: string;
+
+  @Column({
+    type: DataType.STRING(2048),
+    allowNull: false,
+  })
+  url: string;
+
+  @Column({
+    type: DataType.STRING(255),
+    allowNull: true,
+  })
+  description: string | null;
+
+  /** Events delivered to the endpoint */
+  @Column({
+    type: DataType.JSON,
+    allowNull: false,
+  })
+  events: WebhookEvent[];
+
+  /** Signing secret, encrypted with CryptoUtilityService */
+  @Column({
+    type: DataType.STRING(512),
+    allowNull: false,
+  })
+  secretEncrypted: string;
+
+  @Column({
+    type: DataType.BOOLEAN,
+    allowNull: false,
+    defaultValue: true,
+  })
+  isActive: boolean;
+
+  @BelongsTo(() => Organization)
+  organization: Organization;
+
+  @HasMany(() => WebhookDelivery)
+  deliveries: WebhookDelivery[];
+}
@@ -0,0 +1,165 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { HttpService } from '@nestjs/axios';
+import { firstValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as https from 'https';
+import { CryptoUtilityService } from 'src/common/services/crypto-utility.service';
+import { getLiteralAddressError, publicAddressLookup } from 'src/common/utils/public-address.util';
+import { WebhookEndpoint } from '../entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '../entities/webhook-delivery.entity';
+import {
+  MAX_WEBHOOK_RESPONSE_BODY_LENGTH,
+  WEBHOOK_HEADERS,
+  WEBHOOK_REQUEST_TIMEOUT_MS,
+  WEBHOOK_SECRET_PREFIX,
+} from '../webhooks.constants';
+
+export interface WebhookAttemptResult {
+  delivered: boolean;
+  /** false when another attempt can't succeed, e.g. the endpoint was disabled */
+  retry: boolean;
+  error?: string;
+}
+
+/**
+ * New signing secret of an endpoint
+ */
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature of a delivery: hex HMAC-SHA256 of `<timestamp>.<body>` with the endpoint secret
+ * Receivers recompute it from the X-Inboz-Timestamp header and the raw body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Sends webhook deliveries to their endpoint and records the outcome of each attempt
+ * Runs in the notification queue worker, which retries failed attempts
+ */
+@Injectable()
+export class WebhookDeliveryService {
+  private readonly logger = new Logger(WebhookDeliveryService.name);
+  /** Connections to endpoints only go to public addresses, whatever their host resolves to now */
+  private readonly httpAgent = new http.Agent({ lookup: publicAddressLookup });
+  private readonly httpsAgent = new https.Agent({ lookup: publicAddressLookup });
+
+  constructor(
+    @InjectModel(WebhookDelivery)
+    private readonly webhookDeliveryModel: typeof WebhookDelivery,
+    private readonly httpService: HttpService,
+    private readonly cryptoUtilityService: CryptoUtilityService,
+  ) {}
+
+  /**
+   * Attempt a delivery
+   * @param attempt Attempt number, 1 for the first one
+   * @param finalAttempt A failed final attempt marks the delivery as FAILED
+   */
+  async deliver(deliveryId: string, attempt: number, finalAttempt: boolean): Promise<WebhookAttemptResult> {
+    const delivery = await this.webhookDeliveryModel.findByPk(deliveryId, {
+      include: [{ model: WebhookEndpoint, required: false }],
+    });
+
+    if (!delivery) {
+      return { delivered: false, retry: false, error: `Webhook delivery ${deliveryId} not found` };
+    }
+    if (delivery.status !== WebhookDeliveryStatus.PENDING) {
+      return { delivered: delivery.status === WebhookDeliveryStatus.SUCCEEDED, retry: false };
+    }
+
+    const endpoint = delivery.endpoint;
+    if (!endpoint || !endpoint.isActive) {
+      const error = 'Endpoint was disabled before the delivery';
+      await delivery.update({ status: WebhookDeliveryStatus.FAILED, error });
+      return { delivered: false, retry: false, error };
+    }
+
+    const addressError = getLiteralAddressError(endpoint.url);
+    if (addressError) {
+      const error = `Endpoint URL is not allowed: ${addressError}`;
+      await delivery.update({ status: WebhookDeliveryStatus.FAILED, attempts: attempt, error, lastAttemptAt: new Date() });
+      this.logger.warn(`Webhook ${delivery.id} to ${endpoint.url} refused: ${addressError}`);
+      return { delivered: false, retry: false, error };
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = await this.cryptoUtilityService.decrypt(endpoint.secretEncrypted);
+
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post(endpoint.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Inboz-Webhooks/1.0',
+            [WEBHOOK_HEADERS.EVENT]: delivery.event,
+            [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+            [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+            [WEBHOOK_HEADERS.SIGNATURE]: `sha256=${signWebhookPayload(secret, timestamp, body)}`,
+          },
+          timeout: WEBHOOK_REQUEST_TIMEOUT_MS,
+          maxRedirects: 0,
+          httpAgent: this.httpAgent,
+          httpsAgent: this.httpsAgent,
+          responseType: 'text',
+          transformResponse: (data) => data,
+          validateStatus: () => true, // Any status is recorded, only 2xx counts as delivered
+        }),
+      );
+
+      responseStatus = response.status;
+      // Only bodies of accepted deliveries are kept, error pages of other servers aren't shown to users
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint answered HTTP ${response.status}`;
+      } else {
+        responseBody = this.truncateBody(response.data);
+      }
+    } catch (requestError) {
+      error = (requestError as Error).message || 'Request failed';
+    }
+
+    const delivered = error === null;
+    await delivery.update({
+      status: delivered
+        ? WebhookDeliveryStatus.SUCCEEDED
+        : finalAttempt
+          ? WebhookDeliveryStatus.FAILED
+          : WebhookDeliveryStatus.PENDING,
+      attempts: attempt,
+      responseStatus,
+      responseBody,
+      error: error?.substring(0, 1000) ?? null,
+      lastAttemptAt: new Date(),
+      deliveredAt: delivered ? new Date() : null,
+    });
+
+    if (delivered) {
+      this.logger.log(`Delivered ${delivery.event} webhook ${delivery.id} to ${endpoint.url} (attempt ${attempt})`);
+    } else {
+      this.logger.warn(`Webhook ${delivery.id} to ${endpoint.url} failed on attempt ${attempt}: ${error}`);
+    }
+
+    return { delivered, retry: !delivered, ...(error && { error }) };
+  }
+
+  private truncateBody(data: unknown): string | null {
+    if (data === undefined || data === null || data === '') {
+      return null;
+    }
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.substring(0, MAX_WEBHOOK_RESPONSE_BODY_LENGTH);
+  }
+}
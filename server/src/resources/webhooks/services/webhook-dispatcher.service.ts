@@ -0,0 +1,127 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { randomUUID } from 'crypto';
+import { NotificationQueue } from 'src/configuration/bull/queues/notification.queue';
+import { Campaign } from 'src/resources/campaigns/entities/campaign.entity';
+import { EmailMessage } from 'src/resources/campaigns/entities/email-message.entity';
+import { WebhookEndpoint, WebhookEvent } from '../entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from '../entities/webhook-delivery.entity';
+import {
+  WEBHOOK_DELIVERY_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_DELAY_MS,
+} from '../webhooks.constants';
+
+/**
+ * Fans events out to the organization's subscribed webhook endpoints
+ * Dispatching never throws, a webhook problem must not break sending or tracking
+ */
+@Injectable()
+export class WebhookDispatcherService {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+
+  constructor(
+    @InjectModel(WebhookEndpoint)
+    private readonly webhookEndpointModel: typeof WebhookEndpoint,
+    @InjectModel(WebhookDelivery)
+    private readonly webhookDeliveryModel: typeof WebhookDelivery,
+    private readonly notificationQueue: NotificationQueue,
+  ) {}
+
+  /**
+   * Queue a delivery of an event to every active endpoint of the organization subscribed to it
+   */
+  async dispatch(
+    organizationId: string | null | undefined,
+    event: WebhookEvent,
+    data: Record<string, any>,
+  ): Promise<void> {
+    if (!organizationId) {
+      return;
+    }
+
+    try {
+      const endpoints = await this.webhookEndpointModel.findAll({
+        where: { organizationId, isActive: true },
+        attributes: ['id', 'events'],
+      });
+      const subscribed = endpoints.filter((endpoint) => endpoint.events?.includes(event));
+      if (subscribed.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        id: randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        organizationId,
+        data,
+      };
+
+      for (const endpoint of subscribed) {
+        const delivery = await this.webhookDeliveryModel.create({
+          endpointId: endpoint.id,
+          organizationId,
+          event,
+          eventId: payload.id,
+          payload,
+          status: WebhookDeliveryStatus.PENDING,
+        });
+        await this.enqueue(delivery.id);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to dispatch ${event} webhooks for organization ${organizationId}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Dispatch an event of a campaign email, campaign name and contact email are added when loaded
+   */
+  async dispatchEmailEvent(
+    emailMessage: EmailMessage,
+    event: WebhookEvent,
+    data: Record<string, any> = {},
+  ): Promise<void> {
+    await this.dispatch(emailMessage.organizationId, event, {
+      emailMessageId: emailMessage.id,
+      campaignId: emailMessage.campaignId,
+      campaignName: emailMessage.campaign?.name ?? null,
+      campaignStepId: emailMessage.campaignStepId,
+      variantId: emailMessage.variantId ?? null,
+      contactId: emailMessage.contactId,
+      contactEmail: emailMessage.contact?.email ?? null,
+      sentFromEmail: emailMessage.sentFromEmail ?? null,
+      subject: emailMessage.subject ?? null,
+      ...data,
+    });
+  }
+
+  /**
+   * Dispatch campaign.status_changed, called after the new status was saved
+   */
+  async dispatchCampaignStatusChanged(
+    campaign: Pick<Campaign, 'id' | 'organizationId' | 'name'>,
+    previousStatus: string | null,
+    status: string,
+  ): Promise<void> {
+    await this.dispatch(campaign.organizationId, WebhookEvent.CAMPAIGN_STATUS_CHANGED, {
+      campaignId: campaign.id,
+      campaignName: campaign.name,
+      previousStatus,
+      status,
+    });
+  }
+
+  /**
+   * Queue an attempt of a delivery, retried with exponential backoff by the notification queue
+   */
+  async enqueue(deliveryId: string): Promise<void> {
+    await this.notificationQueue.sendWebhookDelivery(deliveryId, {
+      attempts: WEBHOOK_DELIVERY_ATTEMPTS,
+      backoff: { type: 'exponential', delay: WEBHOOK_RETRY_BASE_DELAY_MS },
+    });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Webhook constants
+ */
+
+export const MAX_WEBHOOK_ENDPOINTS_PER_ORGANIZATION = 10;
+
+/** Attempts per delivery, retried with exponential backoff on the notification queue */
+export const WEBHOOK_DELIVERY_ATTEMPTS = 6;
+
+/** First retry delay, doubled on every retry (10s, 20s, 40s, 80s, 160s) */
+export const WEBHOOK_RETRY_BASE_DELAY_MS = 10 * 1000;
+
+export const WEBHOOK_REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/** Response body characters kept in the delivery log */
+export const MAX_WEBHOOK_RESPONSE_BODY_LENGTH = 2000;
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+/** Request headers sent with every delivery */
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Inboz-Event',
+  DELIVERY: 'X-Inboz-Delivery',
+  TIMESTAMP: 'X-Inboz-Timestamp',
+  SIGNATURE: 'X-Inboz-Signature',
+};
+
+/** Endpoint columns returned by the API, the secret is only shown when created or rotated */
+export const WEBHOOK_ENDPOINT_ATTRIBUTES = [
+  'id',
+  'organizationId',
+  'url',
+  'description',
+  'events',
+  'isActive',
+  'createdAt',
+  'updatedAt',
+];
@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Delete,
+  Query,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import {
+  WebhookDeliveryQueryDto,
+  WebhookOrganizationQueryDto,
+} from './dto/webhook-query.dto';
+
+@Controller()
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  create(@Body() createWebhookEndpointDto: CreateWebhookEndpointDto) {
+    return this.webhooksService.create(createWebhookEndpointDto);
+  }
+
+  @Get()
+  findAll(@Query() query: WebhookOrganizationQueryDto) {
+    return this.webhooksService.findAll(query.organizationId);
+  }
+
+  @Get('deliveries')
+  findDeliveries(@Query() query: WebhookDeliveryQueryDto) {
+    return this.webhooksService.findDeliveries(query);
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  redeliver(@Param('deliveryId', ParseUUIDPipe) deliveryId: string) {
+    return this.webhooksService.redeliver(deliveryId);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateWebhookEndpointDto: UpdateWebhookEndpointDto,
+  ) {
+    return this.webhooksService.update(id, updateWebhookEndpointDto);
+  }
+
+  @Post(':id/rotate-secret')
+  rotateSecret(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.rotateSecret(id);
+  }
+
+  @Delete(':id')
+  remove(@Param('id', ParseUUIDPipe) id: string) {
+    return this.webhooksService.remove(id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { SequelizeModule } from '@nestjs/sequelize';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import { WebhookDelivery } from './entities/webhook-delivery.entity';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { WebhookDeliveryService } from './services/webhook-delivery.service';
+
+@Module({
+  imports: [
+    SequelizeModule.forFeature([WebhookEndpoint, WebhookDelivery]),
+    HttpModule, // For WebhookDeliveryService, which runs in the worker
+    // CommonModule and the queue modules are @Global, so their services are available without importing
+  ],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService, WebhookDeliveryService],
+  exports: [WebhookDispatcherService, WebhookDeliveryService],
+})
+export class WebhooksModule {}
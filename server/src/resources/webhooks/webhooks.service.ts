@@ -0,0 +1,247 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/sequelize';
+import { WhereOptions } from 'sequelize';
+import { UserRole } from 'src/common/enums/roles.enum';
+import { CryptoUtilityService } from 'src/common/services/crypto-utility.service';
+import { UserContextService } from 'src/common/services/user-context.service';
+import { getPublicUrlError } from 'src/common/utils/public-address.util';
+import { WebhookEndpoint } from './entities/webhook-endpoint.entity';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './entities/webhook-delivery.entity';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import { WebhookDeliveryQueryDto } from './dto/webhook-query.dto';
+import { WebhookDispatcherService } from './services/webhook-dispatcher.service';
+import { generateWebhookSecret } from './services/webhook-delivery.service';
+import {
+  MAX_WEBHOOK_ENDPOINTS_PER_ORGANIZATION,
+  WEBHOOK_ENDPOINT_ATTRIBUTES,
+} from './webhooks.constants';
+
+/** Endpoint with its plain signing secret, returned once when created or rotated */
+export type WebhookEndpointWithSecret = ReturnType<WebhookEndpoint['toJSON']> & { secret: string };
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    @InjectModel(WebhookEndpoint)
+    private readonly webhookEndpointModel: typeof WebhookEndpoint,
+    @InjectModel(WebhookDelivery)
+    private readonly webhookDeliveryModel: typeof WebhookDelivery,
+    private readonly userContextService: UserContextService,
+    private readonly cryptoUtilityService: CryptoUtilityService,
+    private readonly webhookDispatcherService: WebhookDispatcherService,
+  ) {}
+
+  async create(dto: CreateWebhookEndpointDto): Promise<WebhookEndpointWithSecret> {
+    const organizationId = this.resolveOrganizationId(dto.organizationId);
+
+    const count = await this.webhookEndpointModel.count({ where: { organizationId } });
+    if (count >= MAX_WEBHOOK_ENDPOINTS_PER_ORGANIZATION) {
+      throw new BadRequestException(
+        `An organization can have up to ${MAX_WEBHOOK_ENDPOINTS_PER_ORGANIZATION} webhook endpoints`,
+      );
+    }
+
+    await this.assertPublicUrl(dto.url.trim());
+
+    const secret = generateWebhookSecret();
+    const endpoint = await this.webhookEndpointModel.create({
+      organizationId,
+      url: dto.url.trim(),
+      description: dto.description?.trim() || null,
+      events: dto.events,
+      secretEncrypted: await this.cryptoUtilityService.encrypt(secret),
+      isActive: dto.isActive ?? true,
+      createdBy: this.userContextService.getCurrentUser()?.sub,
+    });
+
+    this.logger.log(`Added webhook endpoint ${endpoint.url} for organization ${organizationId}`);
+    return { ...(await this.findEndpoint(endpoint.id, organizationId)).toJSON(), secret };
+  }
+
+  async findAll(requestedOrganizationId?: string): Promise<WebhookEndpoint[]> {
+    const organizationId = this.resolveOrganizationId(requestedOrganizationId);
+    return this.webhookEndpointModel.findAll({
+      where: { organizationId },
+      attributes: WEBHOOK_ENDPOINT_ATTRIBUTES,
+      order: [['createdAt', 'ASC']],
+    });
+  }
+
+  async update(id: string, dto: UpdateWebhookEndpointDto): Promise<WebhookEndpoint> {
+    const endpoint = await this.findEndpoint(id);
+    if (dto.url !== undefined) {
+      await this.assertPublicUrl(dto.url.trim());
+    }
+
+    await endpoint.update({
+      ...(dto.url !== undefined && { url: dto.url.trim() }),
+      ...(dto.description !== undefined && { description: dto.description?.trim() || null }),
+      ...(dto.events !== undefined && { events: dto.events }),
+      ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      updatedBy: this.userContextService.getCurrentUser()?.sub,
+    });
+
+    return this.findEndpoint(endpoint.id);
+  }
+
+  async remove(id: string): Promise<{ success: boolean }> {
+    const endpoint = await this.findEndpoint(id);
+    await this.webhookDeliveryModel.destroy({ where: { endpointId: endpoint.id } });
+    await endpoint.destroy();
+
+    this.logger.log(`Removed webhook endpoint ${endpoint.url} of organization ${endpoint.organizationId}`);
+    return { success: true };
+  }
+
+  /**
+   * Replace the signing secret, deliveries already queued are signed with the new one
+   */
+  async rotateSecret(id: string): Promise<WebhookEndpointWithSecret> {
+    const endpoint = await this.findEndpoint(id);
+    const secret = generateWebhookSecret();
+
+    await this.webhookEndpointModel.update(
+      { secretEncrypted: await this.cryptoUtilityService.encrypt(secret) },
+      { where: { id: endpoint.id } },
+    );
+
+    this.logger.log(`Rotated the secret of webhook endpoint ${endpoint.id}`);
+    return { ...endpoint.toJSON(), secret };
+  }
+
+  async findDeliveries(query: WebhookDeliveryQueryDto) {
+    const organizationId = this.resolveOrganizationId(query.organizationId);
+    const page = query.page || 1;
+    const limit = query.limit || 50;
+
+    const where: WhereOptions<WebhookDelivery> = { organizationId };
+    if (query.endpointId) {
+      (where as any).endpointId = query.endpointId;
+    }
+    if (query.event) {
+      (where as any).event = query.event;
+    }
+    if (query.status) {
+      (where as any).status = query.status;
+    }
+
+    const { rows, count } = await this.webhookDeliveryModel.findAndCountAll({
+      where,
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      data: rows,
+      total: count,
+      page,
+      limit,
+      totalPages: Math.ceil(count / limit),
+    };
+  }
+
+  /**
+   * Send a delivery again as a new delivery with the same event ID and payload
+   */
+  async redeliver(deliveryId: string): Promise<WebhookDelivery> {
+    const currentUser = this.userContextService.getCurrentUser();
+    this.assertCanManage();
+
+    const original = await this.webhookDeliveryModel.findOne({
+      where:
+        currentUser?.type === 'employee'
+          ? { id: deliveryId }
+          : { id: deliveryId, organizationId: currentUser?.organizationId },
+      include: [{ model: WebhookEndpoint, attributes: ['id', 'isActive'], required: false }],
+    });
+    if (!original) {
+      throw new NotFoundException('Webhook delivery not found');
+    }
+    if (original.status === WebhookDeliveryStatus.PENDING) {
+      throw new BadRequestException('The delivery is still being attempted');
+    }
+    if (!original.endpoint?.isActive) {
+      throw new BadRequestException('Enable the endpoint before redelivering');
+    }
+
+    const delivery = await this.webhookDeliveryModel.create({
+      endpointId: original.endpointId,
+      organizationId: original.organizationId,
+      event: original.event,
+      eventId: original.eventId,
+      payload: original.payload,
+      status: WebhookDeliveryStatus.PENDING,
+      redeliveryOf: original.id,
+      createdBy: currentUser?.sub,
+    });
+    await this.webhookDispatcherService.enqueue(delivery.id);
+
+    this.logger.log(`Redelivering webhook ${original.id} as ${delivery.id}`);
+    return delivery;
+  }
+
+  private async findEndpoint(id: string, organizationId?: string): Promise<WebhookEndpoint> {
+    const currentUser = this.userContextService.getCurrentUser();
+    this.assertCanManage();
+
+    const endpoint = await this.webhookEndpointModel.findOne({
+      where:
+        organizationId || currentUser?.type !== 'employee'
+          ? { id, organizationId: organizationId ?? currentUser?.organizationId }
+          : { id },
+      attributes: WEBHOOK_ENDPOINT_ATTRIBUTES,
+    });
+    if (!endpoint) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+    return endpoint;
+  }
+
+  /**
+   * Employees manage any organization's webhooks, users only their own
+   */
+  private resolveOrganizationId(requestedOrganizationId?: string): string {
+    const currentUser = this.userContextService.getCurrentUser();
+    this.assertCanManage();
+
+    const organizationId =
+      currentUser?.type === 'employee' ? requestedOrganizationId : currentUser?.organizationId;
+    if (!organizationId) {
+      throw new BadRequestException('organizationId is required');
+    }
+    return organizationId;
+  }
+
+  /**
+   * Deliveries are server-side requests, endpoints must not point at internal services or cloud metadata
+   */
+  private async assertPublicUrl(url: string): Promise<void> {
+    const error = await getPublicUrlError(url);
+    if (error) {
+      throw new BadRequestException(`Webhook URL must be publicly reachable: ${error}`);
+    }
+  }
+
+  /**
+   * Webhooks send contact data out of the app, only organization admins and employees manage them
+   */
+  private assertCanManage(): void {
+    const currentUser = this.userContextService.getCurrentUser();
+    if (currentUser?.type !== 'employee' && currentUser?.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only organization admins can manage webhooks');
+    }
+  }
+}
@@ -16,6 +16,10 @@ import { AnalyticsModule } from 'src/resources/analytics/analytics.module';
 import { EmployeesModule } from 'src/resources/employees/employees.module';
 import { NotificationsModule } from 'src/resources/notifications/notifications.module';
 import { AssetsModule } from 'src/resources/assets/assets.module';
+import { SuppressionsModule } from 'src/resources/suppressions/suppressions.module';
+import { InboxModule } from 'src/resources/inbox/inbox.module';
+import { WebhooksModule } from 'src/resources/webhooks/webhooks.module';
+import { EmailVerificationModule } from 'src/resources/email-verification/email-verification.module';
 import { MulterModule } from 'src/configuration/multer/multer.module';
 
 export const routes: Routes = [
@@ -86,6 +90,22 @@ export const routes: Routes = [
         path: '/assets',
         module: AssetsModule,
       },
+      {
+        path: '/suppressions',
+        module: SuppressionsModule,
+      },
+      {
+        path: '/inbox',
+        module: InboxModule,
+      },
+      {
+        path: '/webhooks',
+        module: WebhooksModule,
+      },
+      {
+        path: '/email-verification',
+        module: EmailVerificationModule,
+      },
       {
         path: '/upload',
         module: MulterModule,
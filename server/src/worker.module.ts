@@ -12,6 +12,8 @@ import { ContactsModule } from './resources/contacts/contacts.module';
 import { ContactListsModule } from './resources/contact-lists/contact-lists.module';
 import { EmailTemplatesModule } from './resources/email-templates/email-templates.module';
 import { CampaignsModule } from './resources/campaigns/campaigns.module';
+import { SuppressionsModule } from './resources/suppressions/suppressions.module';
+import { EmailVerificationModule } from './resources/email-verification/email-verification.module';
 import { WsModule } from './resources/ws/ws.module';
 
 // Import only the worker-related components from BullModule
@@ -42,6 +44,8 @@ import { WorkerBullModule } from './configuration/bull/worker-bull.module';
     ContactListsModule, // Needed for ContactListMemberRepository
     EmailTemplatesModule, // Needed for EmailTemplateRepository
     CampaignsModule, // Needed for campaign entities and repositories
+    SuppressionsModule, // Needed for suppression checks in the campaign and sender processors
+    EmailVerificationModule, // Needed for EmailVerifierService in the email verification processor
     WorkerBullModule, // Contains ONLY processors (no controllers)
   ],
 })
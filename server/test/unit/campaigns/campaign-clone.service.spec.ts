@@ -0,0 +1,158 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { CampaignCloneService } from 'src/resources/campaigns/services/campaign-clone.service';
+import { FollowUpConditionService } from 'src/resources/campaigns/services/follow-up-condition.service';
+
+describe('CampaignCloneService', () => {
+  let service: CampaignCloneService;
+  let mockCampaignsRepository: any;
+  let mockCampaignModel: any;
+  let mockCampaignStepModel: any;
+  let mockCampaignBlueprintModel: any;
+  let mockContactListModel: any;
+  let mockSenderRotationService: any;
+
+  const campaign = {
+    id: 'campaign-1',
+    organizationId: 'org-1',
+    name: 'Launch',
+    description: 'Product launch',
+    contactListId: 'list-1',
+    sequenceSettings: { quotaDistribution: [{ day: 0, startIndex: 0, endIndex: 99 }], stopOnReply: true },
+    senderPool: [{ gmailTokenId: 'token-1' }],
+    senderRotation: 'ROUND_ROBIN',
+    sendingWindow: null,
+    trackingEnabled: true,
+    openTracking: true,
+    clickTracking: false,
+    humanEngagementOnly: true,
+    verificationFilter: 'EXCLUDE_RISKY',
+    unsubscribeTracking: true,
+    unsubscribeReplyEnabled: false,
+    unsubscribeCustomMessage: null,
+    autoAdvance: true,
+  };
+  const step = (id: string, stepOrder: number, overrides: Record<string, any> = {}) => ({
+    id,
+    stepOrder,
+    name: `Step ${stepOrder}`,
+    templateId: `template-${stepOrder}`,
+    triggerType: 'IMMEDIATE',
+    scheduleTime: null,
+    delayMinutes: '0.50',
+    timezone: 'UTC',
+    replyToStepId: null,
+    replyType: null,
+    sendConditions: null,
+    variants: null,
+    abTest: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockCampaignsRepository = {
+      findById: jest.fn().mockImplementation((id: string) =>
+        Promise.resolve(id === 'campaign-1' ? campaign : { id, name: 'Created' }),
+      ),
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn().mockResolvedValue({ id: 'campaign-2' }),
+    };
+    mockCampaignModel = { findAll: jest.fn().mockResolvedValue([{ name: 'Launch (Copy)' }]) };
+    mockCampaignStepModel = {
+      findAll: jest.fn().mockResolvedValue([
+        step('step-1', 1),
+        step('step-2', 2, {
+          replyToStepId: 'step-1',
+          replyType: 'OPENED',
+          sendConditions: { operator: 'OR', conditions: [{ stepId: 'step-1', event: 'NOT_REPLIED' }] },
+          abTest: { testPercentage: 20, waitHours: 4, winnerMetric: 'OPEN_RATE', winnerVariantId: 'a', decidedAt: '2026-10-01' },
+        }),
+      ]),
+      create: jest.fn().mockResolvedValue({}),
+    };
+    mockCampaignBlueprintModel = {
+      findOne: jest.fn().mockResolvedValue(null),
+      findByPk: jest.fn(),
+      create: jest.fn().mockImplementation((data) => Promise.resolve({ id: 'blueprint-1', ...data })),
+    };
+    mockContactListModel = { findOne: jest.fn().mockResolvedValue({ id: 'list-2' }) };
+    mockSenderRotationService = { validateSenderPool: jest.fn().mockResolvedValue(undefined) };
+
+    service = new CampaignCloneService(
+      mockCampaignsRepository,
+      { transaction: jest.fn((callback) => callback('tx')) } as any,
+      mockCampaignModel,
+      mockCampaignStepModel,
+      mockCampaignBlueprintModel,
+      mockContactListModel,
+      { countSubscribedContacts: jest.fn().mockResolvedValue(42) } as any,
+      new FollowUpConditionService({} as any, {} as any),
+      mockSenderRotationService,
+      { getCurrentUser: () => ({ sub: 'user-1', organizationId: 'org-1' }), getCurrentUserId: () => 'user-1' } as any,
+    );
+  });
+
+  describe('clone', () => {
+    it('should copy the settings into a draft without the sending state', async () => {
+      await service.clone('campaign-1', { contactListId: 'list-2' });
+
+      expect(mockCampaignsRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Launch (Copy 2)',
+          status: 'DRAFT',
+          contactListId: 'list-2',
+          sequenceSettings: { stopOnReply: true },
+          senderPool: [{ gmailTokenId: 'token-1' }],
+          humanEngagementOnly: true,
+          verificationFilter: 'EXCLUDE_RISKY',
+          clickTracking: false,
+          totalSteps: 2,
+          totalRecipients: 42,
+        }),
+        'tx',
+      );
+      expect(mockContactListModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: 'list-2', organizationId: 'org-1' } }),
+      );
+    });
+
+    it('should point follow-up steps at the copied steps', async () => {
+      await service.clone('campaign-1', {});
+
+      const [first, second] = mockCampaignStepModel.create.mock.calls.map(([data]: any[]) => data);
+      expect(first.id).not.toBe('step-1');
+      expect(first).toMatchObject({ campaignId: 'campaign-2', stepOrder: 1, templateId: 'template-1', delayMinutes: 0.5 });
+      expect(second).toMatchObject({
+        replyToStepId: first.id,
+        replyType: 'OPENED',
+        sendConditions: { operator: 'OR', conditions: [{ stepId: first.id, event: 'NOT_REPLIED' }] },
+        abTest: { testPercentage: 20, winnerVariantId: null, decidedAt: null },
+      });
+    });
+
+    it('should reject a name already used in the organization', async () => {
+      mockCampaignsRepository.findOne.mockResolvedValue({ id: 'campaign-9' });
+
+      await expect(service.clone('campaign-1', { name: 'Taken' })).rejects.toThrow(ConflictException);
+      expect(mockCampaignsRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('blueprints', () => {
+    it('should save the sequence without the sender pool or contact list', async () => {
+      const blueprint = await service.saveAsBlueprint('campaign-1', { name: 'Proven launch' });
+
+      expect(blueprint.settings).not.toHaveProperty('senderPool');
+      expect(blueprint.settings).not.toHaveProperty('contactListId');
+      expect(blueprint.steps.map((s) => s.id)).toEqual(['step-1', 'step-2']);
+      expect(blueprint).toMatchObject({ organizationId: 'org-1', description: 'Product launch', createdBy: 'user-1' });
+    });
+
+    it('should not start campaigns from blueprints of other organizations', async () => {
+      mockCampaignBlueprintModel.findByPk.mockResolvedValue({ id: 'blueprint-2', organizationId: 'org-2' });
+
+      await expect(
+        service.createFromBlueprint('blueprint-2', { name: 'New launch', contactListId: 'list-1' }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
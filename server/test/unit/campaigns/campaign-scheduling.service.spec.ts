@@ -0,0 +1,121 @@
+import { CampaignSchedulingService } from 'src/resources/campaigns/services/campaign-scheduling.service';
+import { SendingWindow } from 'src/resources/campaigns/entities/campaign.entity';
+
+describe('CampaignSchedulingService', () => {
+  let service: CampaignSchedulingService;
+  let mockRateLimiterService: any;
+
+  // Mon-Fri 09:00-17:00
+  const businessHours: SendingWindow = {
+    days: [1, 2, 3, 4, 5],
+    startTime: '09:00',
+    endTime: '17:00',
+  };
+
+  beforeEach(() => {
+    // Friday 2026-10-23 16:00 UTC
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-23T16:00:00Z'));
+
+    mockRateLimiterService = {
+      getRemainingQuotaForDays: jest.fn().mockImplementation(async (_userId: string, startDay: number, endDay: number) => {
+        const quota = new Map<number, number>();
+        for (let day = startDay; day <= endDay; day++) {
+          quota.set(day, 1000);
+        }
+        return quota;
+      }),
+    };
+
+    service = new CampaignSchedulingService(
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      mockRateLimiterService,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('calculateQuotaDistribution', () => {
+    it('should fill days up to the quota without a sending window', async () => {
+      const distribution = await service.calculateQuotaDistribution('user-1', 50, 1000, 1000, 'UTC');
+
+      expect(distribution).toEqual([{ day: 0, startIndex: 0, endIndex: 49, quotaUsed: 50 }]);
+    });
+
+    it('should skip the weekend and cap each day to the window', async () => {
+      const distribution = await service.calculateQuotaDistribution(
+        'user-1',
+        60,
+        1000,
+        1000,
+        'UTC',
+        undefined,
+        undefined,
+        businessHours,
+        10,
+      );
+
+      // Friday has one hour left (6 emails), Saturday and Sunday are closed, Monday fits 48
+      expect(distribution).toEqual([
+        { day: 0, startIndex: 0, endIndex: 5, quotaUsed: 6 },
+        { day: 3, startIndex: 6, endIndex: 53, quotaUsed: 48 },
+        { day: 4, startIndex: 54, endIndex: 59, quotaUsed: 6 },
+      ]);
+    });
+  });
+
+  describe('calculateSendTime', () => {
+    it('should start future days when the window opens', () => {
+      const step = { delayMinutes: 10, triggerType: 'IMMEDIATE' } as any;
+      const firstEmailTimeByDay = new Map<number, Date>();
+
+      const first = service.calculateSendTime(
+        step, 6, { day: 3, startIndex: 6, endIndex: 53 }, 6,
+        undefined, firstEmailTimeByDay, new Date(), undefined, 'UTC', businessHours,
+      );
+      const second = service.calculateSendTime(
+        step, 7, { day: 3, startIndex: 6, endIndex: 53 }, 7,
+        undefined, firstEmailTimeByDay, new Date(), undefined, 'UTC', businessHours,
+      );
+
+      expect(first).toEqual(new Date('2026-10-26T09:00:00Z'));
+      expect(second).toEqual(new Date('2026-10-26T09:10:00Z'));
+    });
+  });
+
+  describe('applySendingWindow', () => {
+    it('should deliver at the same local time in the recipient timezone', () => {
+      const window = { ...businessHours, useRecipientTimezone: true };
+
+      // Monday 09:00 UTC becomes Monday 09:00 in New York (EDT)
+      expect(
+        service.applySendingWindow(new Date('2026-10-26T09:00:00Z'), window, 'UTC', 'America/New_York'),
+      ).toEqual(new Date('2026-10-26T13:00:00Z'));
+    });
+
+    it('should roll to the next open slot when the local time already passed', () => {
+      const window = { ...businessHours, useRecipientTimezone: true };
+
+      // Friday 15:00 has already passed in Tokyo (Saturday 01:00 there), next slot is Monday 09:00 JST
+      expect(
+        service.applySendingWindow(new Date('2026-10-23T15:00:00Z'), window, 'UTC', 'Asia/Tokyo'),
+      ).toEqual(new Date('2026-10-26T00:00:00Z'));
+    });
+
+    it('should use the step timezone when the recipient has none', () => {
+      const window = { ...businessHours, useRecipientTimezone: true };
+
+      expect(service.applySendingWindow(new Date('2026-10-24T10:00:00Z'), window, 'UTC', null)).toEqual(
+        new Date('2026-10-26T09:00:00Z'),
+      );
+    });
+  });
+});
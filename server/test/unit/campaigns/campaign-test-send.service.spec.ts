@@ -0,0 +1,136 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { CampaignTestSendService } from 'src/resources/campaigns/services/campaign-test-send.service';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import { EmailSendFormat } from 'src/resources/email-templates/enums/email-send-format.enum';
+
+describe('CampaignTestSendService', () => {
+  let service: CampaignTestSendService;
+  let mockCampaignStepModel: any;
+  let mockEmailTemplateModel: any;
+  let mockContactModel: any;
+  let mockSenderRotationService: any;
+  let mockEmailTrackingService: any;
+  let mockMailSender: any;
+  let mockRateLimiterService: any;
+
+  const campaign = {
+    id: 'campaign-1',
+    organizationId: 'org-1',
+    createdBy: 'user-1',
+    openTracking: true,
+    clickTracking: true,
+    unsubscribeTracking: true,
+    unsubscribeReplyEnabled: false,
+    unsubscribeCustomMessage: null,
+  };
+  const token = { id: 'token-1', email: 'sales@acme.com', provider: 'GMAIL' };
+
+  beforeEach(() => {
+    mockCampaignStepModel = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 'step-1',
+        templateId: 'template-1',
+        variants: [{ id: 'B', templateId: 'template-2', subject: 'Other angle for {{company}}', weight: 1 }],
+      }),
+    };
+    mockEmailTemplateModel = {
+      findByPk: jest.fn().mockImplementation((id: string) =>
+        Promise.resolve({
+          id,
+          subject: 'Hi {{firstName}}',
+          htmlContent: '<p>Hello {{firstName}} at {{company}}</p>',
+          textContent: '',
+          sendFormat: EmailSendFormat.HTML,
+        }),
+      ),
+    };
+    mockContactModel = {
+      findOne: jest.fn().mockResolvedValue({ id: 'contact-1', firstName: 'Ada', company: 'Analytical', email: 'ada@example.com' }),
+    };
+    mockSenderRotationService = { getActiveSenders: jest.fn().mockResolvedValue([token]) };
+    mockEmailTrackingService = {
+      injectTracking: jest.fn((html: string, id: string) => `${html}<img src="/open/${id}">`),
+      injectTextTracking: jest.fn(),
+      generateListUnsubscribe: jest.fn((id: string) => ({ url: `/unsubscribe/${id}`, mailto: token.email })),
+    };
+    mockMailSender = {
+      prepare: jest.fn().mockResolvedValue(undefined),
+      send: jest.fn().mockResolvedValue({ id: 'gmail-1', threadId: 'thread-1' }),
+    };
+    mockRateLimiterService = {
+      checkSenderQuota: jest.fn().mockResolvedValue(true),
+      incrementSenderQuota: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new CampaignTestSendService(
+      { findById: jest.fn().mockResolvedValue(campaign) } as any,
+      mockCampaignStepModel,
+      mockEmailTemplateModel,
+      mockContactModel,
+      { findByPk: jest.fn().mockResolvedValue({ firstName: 'Grace', lastName: 'Hopper' }) } as any,
+      mockSenderRotationService,
+      new EmailPersonalizationService(),
+      mockEmailTrackingService,
+      { forMailbox: jest.fn().mockReturnValue(mockMailSender) } as any,
+      mockRateLimiterService,
+    );
+  });
+
+  it('should send the personalized and tracked email to every seed address', async () => {
+    const result = await service.sendTest('campaign-1', 'step-1', {
+      recipients: ['qa@acme.com', 'seed@inbox.test'],
+      contactId: 'contact-1',
+    });
+
+    expect(result.recipients).toEqual([
+      { email: 'qa@acme.com', success: true },
+      { email: 'seed@inbox.test', success: true },
+    ]);
+    expect(mockMailSender.send).toHaveBeenCalledTimes(2);
+    const [, request] = mockMailSender.send.mock.calls[0];
+    expect(request).toMatchObject({
+      to: 'qa@acme.com',
+      from: 'sales@acme.com',
+      fromName: 'Grace Hopper',
+      subject: '[TEST] Hi Ada',
+    });
+    expect(request.html).toMatch(/^<p>Hello Ada at Analytical<\/p><img src="\/open\/test-/);
+    expect(request.listUnsubscribe.url).toMatch(/^\/unsubscribe\/test-/);
+    expect(mockRateLimiterService.incrementSenderQuota).toHaveBeenCalledTimes(2);
+  });
+
+  it('should render a variant with sample data when no contact is chosen', async () => {
+    const result = await service.sendTest('campaign-1', 'step-1', { recipients: ['qa@acme.com'], variantId: 'B' });
+
+    expect(mockEmailTemplateModel.findByPk).toHaveBeenCalledWith('template-2');
+    expect(mockContactModel.findOne).not.toHaveBeenCalled();
+    expect(result.subject).toBe('[TEST] Other angle for Acme Corp');
+  });
+
+  it('should only send from active mailboxes of the campaign', async () => {
+    await expect(
+      service.sendTest('campaign-1', 'step-1', { recipients: ['qa@acme.com'], senderTokenId: 'token-9' }),
+    ).rejects.toThrow(BadRequestException);
+    expect(mockMailSender.send).not.toHaveBeenCalled();
+  });
+
+  it('should not personalize with contacts of other organizations', async () => {
+    mockContactModel.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.sendTest('campaign-1', 'step-1', { recipients: ['qa@acme.com'], contactId: 'contact-2' }),
+    ).rejects.toThrow(NotFoundException);
+    expect(mockContactModel.findOne).toHaveBeenCalledWith({
+      where: { id: 'contact-2', organizationId: 'org-1' },
+    });
+  });
+
+  it('should report the seed addresses over the mailbox quota', async () => {
+    mockRateLimiterService.checkSenderQuota.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const result = await service.sendTest('campaign-1', 'step-1', { recipients: ['a@acme.com', 'b@acme.com'] });
+
+    expect(result.recipients[1]).toEqual({ email: 'b@acme.com', success: false, error: 'Daily quota of sales@acme.com exceeded' });
+    expect(mockMailSender.send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ContentLintService,
+  validateContentLintSettings,
+} from 'src/resources/campaigns/services/content-lint.service';
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import { EmailSendFormat } from 'src/resources/email-templates/enums/email-send-format.enum';
+
+describe('ContentLintService', () => {
+  let service: ContentLintService;
+  let mockOrganizationModel: any;
+
+  const template = (id: string, subject: string, htmlContent: string) => ({
+    id,
+    subject,
+    htmlContent,
+    textContent: 'Plain version',
+    sendFormat: EmailSendFormat.HTML,
+  });
+  const steps = [
+    { id: 'step-1', stepOrder: 1, name: 'Intro', templateId: 'template-1', variants: null },
+    {
+      id: 'step-2',
+      stepOrder: 2,
+      name: 'Follow-up',
+      templateId: 'template-2',
+      variants: [
+        { id: 'A', templateId: 'template-2', subject: null, weight: 1 },
+        { id: 'B', templateId: 'template-3', subject: 'WIN BIG TODAY FRIENDS', weight: 1 },
+      ],
+    },
+  ] as any[];
+
+  beforeEach(() => {
+    mockOrganizationModel = { findByPk: jest.fn().mockResolvedValue({ settings: { contentLint: { minScore: 80 } } }) };
+    service = new ContentLintService(
+      {
+        findAll: jest.fn().mockResolvedValue([
+          template('template-1', 'Hi {{firstName}}', '<p>Hello {{firstName}} at {{company}}</p>'),
+          template('template-2', 'Following up', '<p>Any thoughts, {{firstName}}?</p>'),
+          template('template-3', 'Following up', '<p>Guaranteed results, act now!</p>'),
+        ]),
+      } as any,
+      mockOrganizationModel,
+      new EmailPersonalizationService(),
+      { get: jest.fn() } as any,
+    );
+  });
+
+  it('should score every variant of every step', async () => {
+    const report = await service.getCampaignReport({ organizationId: 'org-1' }, steps);
+
+    expect(report.steps.map((s) => [s.stepId, s.variantId, s.score])).toEqual([
+      ['step-1', null, 100],
+      ['step-2', 'A', 100],
+      ['step-2', 'B', 75],
+    ]);
+    expect(report).toMatchObject({ score: 75, minScore: 80, blocked: true });
+  });
+
+  it('should block activation below the organization minimum score', async () => {
+    await expect(service.assertActivationAllowed({ organizationId: 'org-1' }, steps)).rejects.toThrow(
+      'Content score is below the organization minimum of 80: Follow-up (variant B): 75',
+    );
+
+    mockOrganizationModel.findByPk.mockResolvedValue({ settings: {} });
+    await expect(service.assertActivationAllowed({ organizationId: 'org-1' }, steps)).resolves.toBeUndefined();
+  });
+
+  it('should validate the organization setting', () => {
+    expect(validateContentLintSettings({ minScore: 60 })).toEqual({ minScore: 60 });
+    expect(validateContentLintSettings({})).toEqual({ minScore: null });
+    expect(() => validateContentLintSettings({ minScore: 120 })).toThrow(BadRequestException);
+    expect(() => validateContentLintSettings({ threshold: 60 })).toThrow(BadRequestException);
+  });
+});
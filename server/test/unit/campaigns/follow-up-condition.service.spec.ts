@@ -0,0 +1,146 @@
+import { BadRequestException } from '@nestjs/common';
+import { FollowUpConditionService } from 'src/resources/campaigns/services/follow-up-condition.service';
+import { StepConditionGroup } from 'src/resources/campaigns/entities/campaign-step.entity';
+import { EmailMessageStatus, ReplyClassification } from 'src/resources/campaigns/entities/email-message.entity';
+
+describe('FollowUpConditionService', () => {
+  let service: FollowUpConditionService;
+  let mockEmailMessageModel: any;
+  let mockEmailTrackingEventModel: any;
+
+  const email = (contactId: string, campaignStepId: string, overrides: Record<string, any> = {}) => ({
+    contactId,
+    campaignStepId,
+    status: EmailMessageStatus.SENT,
+    openedAt: null,
+    clickCount: 0,
+    replyCount: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockEmailMessageModel = {
+      findAll: jest.fn().mockResolvedValue([
+        email('opened', 'step-1', { openedAt: new Date() }),
+        email('clicked', 'step-1', { openedAt: new Date(), clickCount: 1 }),
+        email('replied', 'step-1', { openedAt: new Date(), replyCount: 1 }),
+        email('ignored', 'step-1'),
+        email('bounced', 'step-1', { status: EmailMessageStatus.BOUNCED }),
+        email('opened', 'step-2'),
+        email('ignored', 'step-2', { openedAt: new Date() }),
+      ]),
+    };
+    mockEmailTrackingEventModel = {
+      findAll: jest.fn().mockResolvedValue([
+        { clickedUrl: 'https://example.com/Pricing/', emailMessage: { contactId: 'clicked', campaignStepId: 'step-1' } },
+      ]),
+    };
+
+    service = new FollowUpConditionService(mockEmailMessageModel, mockEmailTrackingEventModel);
+  });
+
+  const evaluate = async (conditions: StepConditionGroup) =>
+    Array.from((await service.evaluate('campaign-1', conditions)).eligibleContactIds).sort();
+
+  describe('getStepConditions', () => {
+    it('should translate the legacy OPENED reply type', () => {
+      expect(service.getStepConditions({ replyToStepId: 'step-1', replyType: 'OPENED', sendConditions: null })).toEqual({
+        operator: 'AND',
+        conditions: [
+          { stepId: 'step-1', event: 'OPENED' },
+          { stepId: 'step-1', event: 'NOT_CLICKED' },
+          { stepId: 'step-1', event: 'NOT_REPLIED' },
+        ],
+      });
+    });
+
+    it('should return null for steps sent to every contact', () => {
+      expect(service.getStepConditions({ replyToStepId: null, replyType: null, sendConditions: null })).toBeNull();
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should only match contacts that were sent the step for negative events', async () => {
+      await expect(evaluate({ conditions: [{ stepId: 'step-1', event: 'NOT_OPENED' }] })).resolves.toEqual(['ignored']);
+    });
+
+    it('should keep the legacy CLICKED semantics', async () => {
+      const conditions = service.getStepConditions({ replyToStepId: 'step-1', replyType: 'CLICKED', sendConditions: null })!;
+      await expect(evaluate(conditions)).resolves.toEqual(['clicked']);
+    });
+
+    it('should combine AND and OR groups across steps', async () => {
+      await expect(
+        evaluate({
+          operator: 'OR',
+          conditions: [
+            { stepId: 'step-1', event: 'REPLIED' },
+            {
+              operator: 'AND',
+              conditions: [
+                { stepId: 'step-1', event: 'NOT_OPENED' },
+                { stepId: 'step-2', event: 'OPENED' },
+              ],
+            },
+          ],
+        }),
+      ).resolves.toEqual(['ignored', 'replied']);
+    });
+
+    it('should match clicked links ignoring case and trailing slashes', async () => {
+      await expect(
+        evaluate({ conditions: [{ stepId: 'step-1', event: 'CLICKED_LINK', url: 'https://example.com/pricing' }] }),
+      ).resolves.toEqual(['clicked']);
+    });
+
+    it('should not count automatic replies as replied', async () => {
+      mockEmailMessageModel.findAll.mockResolvedValueOnce([
+        email('away', 'step-1', { replyCount: 1, replyClassification: ReplyClassification.OUT_OF_OFFICE }),
+        email('replied', 'step-1', { replyCount: 2, replyClassification: ReplyClassification.INTERESTED }),
+      ]);
+
+      await expect(evaluate({ conditions: [{ stepId: 'step-1', event: 'NOT_REPLIED' }] })).resolves.toEqual(['away']);
+    });
+
+    it('should only count human opens and clicks when asked to', async () => {
+      mockEmailMessageModel.findAll.mockResolvedValueOnce([
+        email('prefetched', 'step-1', { openedAt: new Date(), humanOpenedAt: null }),
+        email('scanned', 'step-1', { openedAt: new Date(), humanOpenedAt: new Date(), clickCount: 1, humanClickedAt: null }),
+        email('clicked', 'step-1', { openedAt: new Date(), humanOpenedAt: new Date(), clickCount: 1, humanClickedAt: new Date() }),
+      ]);
+
+      const { eligibleContactIds } = await service.evaluate(
+        'campaign-1',
+        { operator: 'AND', conditions: [{ stepId: 'step-1', event: 'OPENED' }, { stepId: 'step-1', event: 'NOT_CLICKED' }] },
+        { humanOnly: true },
+      );
+
+      expect(Array.from(eligibleContactIds)).toEqual(['scanned']);
+    });
+
+    it('should report referenced steps without emails', async () => {
+      const { pendingStepIds } = await service.evaluate('campaign-1', {
+        conditions: [
+          { stepId: 'step-1', event: 'SENT' },
+          { stepId: 'step-3', event: 'NOT_OPENED' },
+        ],
+      });
+
+      expect(pendingStepIds).toEqual(['step-3']);
+    });
+  });
+
+  describe('validateConditions', () => {
+    it('should reject steps that are not earlier in the campaign', () => {
+      expect(() =>
+        service.validateConditions({ conditions: [{ stepId: 'step-9', event: 'OPENED' }] }, ['step-1']),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should require a url for link conditions', () => {
+      expect(() =>
+        service.validateConditions({ conditions: [{ stepId: 'step-1', event: 'CLICKED_LINK' }] }, ['step-1']),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { BadRequestException } from '@nestjs/common';
+import { SenderRotationService } from 'src/resources/campaigns/services/sender-rotation.service';
+import { SenderRotationStrategy } from 'src/resources/campaigns/entities/campaign.entity';
+import { MailboxProvider } from 'src/resources/users/entities/gmail-oauth-token.entity';
+
+describe('SenderRotationService', () => {
+  let service: SenderRotationService;
+  let mockGmailTokenModel: any;
+  let mockEmailMessageModel: any;
+  let mockQuotaManagementService: any;
+
+  const alice = { id: 'token-a', email: 'alice@acme.io', userId: 'user-1' } as any;
+  const bob = { id: 'token-b', email: 'bob@acme.io', userId: 'user-2' } as any;
+
+  const buildCampaign = (overrides: any = {}) =>
+    ({
+      id: 'campaign-1',
+      organizationId: 'org-1',
+      createdBy: 'user-1',
+      senderPool: [{ gmailTokenId: 'token-a' }, { gmailTokenId: 'token-b' }],
+      senderRotation: SenderRotationStrategy.ROUND_ROBIN,
+      ...overrides,
+    }) as any;
+
+  beforeEach(() => {
+    mockGmailTokenModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+      findOne: jest.fn(),
+    };
+    mockEmailMessageModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+    mockQuotaManagementService = {
+      getMailboxDailyLimit: jest.fn().mockResolvedValue(100),
+    };
+    service = new SenderRotationService(mockGmailTokenModel, mockEmailMessageModel, mockQuotaManagementService);
+  });
+
+  describe('getPoolTokenIds', () => {
+    it('should return undefined when no pool is configured', () => {
+      expect(service.getPoolTokenIds({ senderPool: null })).toBeUndefined();
+      expect(service.getPoolTokenIds({ senderPool: [] })).toBeUndefined();
+    });
+
+    it('should return the pool token ids in order', () => {
+      expect(service.getPoolTokenIds(buildCampaign())).toEqual(['token-a', 'token-b']);
+    });
+  });
+
+  describe('validateSenderPool', () => {
+    it('should reject duplicate mailboxes', async () => {
+      await expect(
+        service.validateSenderPool('org-1', [{ gmailTokenId: 'token-a' }, { gmailTokenId: 'token-a' }]),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject mailboxes that are not active in the organization', async () => {
+      mockGmailTokenModel.findAll.mockResolvedValue([{ id: 'token-a' }]);
+
+      await expect(
+        service.validateSenderPool('org-1', [{ gmailTokenId: 'token-a' }, { gmailTokenId: 'token-b' }]),
+      ).rejects.toThrow(/token-b/);
+    });
+  });
+
+  describe('getActiveSenders', () => {
+    it('should fall back to the creator mailbox when no pool is configured', async () => {
+      mockGmailTokenModel.findOne.mockResolvedValue(alice);
+
+      const senders = await service.getActiveSenders(buildCampaign({ senderPool: null }));
+
+      expect(senders).toEqual([alice]);
+      expect(mockGmailTokenModel.findOne).toHaveBeenCalledWith({
+        where: { userId: 'user-1', provider: MailboxProvider.GMAIL, status: 'ACTIVE' },
+      });
+    });
+
+    it('should keep pool order', async () => {
+      mockGmailTokenModel.findAll.mockResolvedValue([bob, alice]);
+
+      const senders = await service.getActiveSenders(buildCampaign());
+
+      expect(senders.map((s) => s.id)).toEqual(['token-a', 'token-b']);
+    });
+  });
+
+  describe('assignSenders', () => {
+    it('should alternate mailboxes for new contacts in round-robin mode', async () => {
+      const assignments = await service.assignSenders(buildCampaign(), [alice, bob], ['c1', 'c2', 'c3', 'c4']);
+
+      expect(['c1', 'c2', 'c3', 'c4'].map((id) => assignments.get(id)?.email)).toEqual([
+        'alice@acme.io',
+        'bob@acme.io',
+        'alice@acme.io',
+        'bob@acme.io',
+      ]);
+    });
+
+    it('should continue rotation from the existing per-mailbox load', async () => {
+      mockEmailMessageModel.findAll
+        .mockResolvedValueOnce([]) // sticky lookup
+        .mockResolvedValueOnce([{ sentFromEmail: 'alice@acme.io', count: 3 }]); // assigned counts
+
+      const assignments = await service.assignSenders(buildCampaign(), [alice, bob], ['c1', 'c2']);
+
+      expect(assignments.get('c1')?.email).toBe('bob@acme.io');
+      expect(assignments.get('c2')?.email).toBe('bob@acme.io');
+    });
+
+    it('should distribute by weight in weighted mode', async () => {
+      const campaign = buildCampaign({
+        senderRotation: SenderRotationStrategy.WEIGHTED,
+        senderPool: [
+          { gmailTokenId: 'token-a', weight: 3 },
+          { gmailTokenId: 'token-b', weight: 1 },
+        ],
+      });
+      const contactIds = ['c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'c8'];
+
+      const assignments = await service.assignSenders(campaign, [alice, bob], contactIds);
+      const toAlice = contactIds.filter((id) => assignments.get(id)?.id === 'token-a').length;
+
+      expect(toAlice).toBe(6);
+    });
+
+    it('should skip mailboxes without quota left today', async () => {
+      const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      const busyAlice = { ...alice, dailyQuotaUsed: 99, quotaResetAt: tomorrow };
+
+      const assignments = await service.assignSenders(buildCampaign(), [busyAlice, bob], ['c1', 'c2', 'c3']);
+
+      expect(['c1', 'c2', 'c3'].map((id) => assignments.get(id)?.email)).toEqual([
+        'alice@acme.io',
+        'bob@acme.io',
+        'bob@acme.io',
+      ]);
+    });
+
+    it('should keep rotating when every mailbox is out of quota', async () => {
+      mockQuotaManagementService.getMailboxDailyLimit.mockResolvedValue(0);
+
+      const assignments = await service.assignSenders(buildCampaign(), [alice, bob], ['c1', 'c2']);
+
+      expect(assignments.get('c1')?.email).toBe('alice@acme.io');
+      expect(assignments.get('c2')?.email).toBe('bob@acme.io');
+    });
+
+    it('should keep follow-ups on the mailbox that sent the first email', async () => {
+      mockEmailMessageModel.findAll
+        .mockResolvedValueOnce([
+          { contactId: 'c1', sentFromEmail: 'bob@acme.io' },
+          { contactId: 'c1', sentFromEmail: 'alice@acme.io' },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const assignments = await service.assignSenders(buildCampaign(), [alice, bob], ['c1']);
+
+      expect(assignments.get('c1')?.email).toBe('bob@acme.io');
+    });
+
+    it('should keep threads on a mailbox that left the pool but is still connected', async () => {
+      const carol = { id: 'token-c', email: 'carol@acme.io', userId: 'user-3' } as any;
+      mockEmailMessageModel.findAll
+        .mockResolvedValueOnce([{ contactId: 'c1', sentFromEmail: 'carol@acme.io' }])
+        .mockResolvedValueOnce([]);
+      mockGmailTokenModel.findAll.mockResolvedValue([carol]);
+
+      const assignments = await service.assignSenders(buildCampaign(), [alice, bob], ['c1']);
+
+      expect(assignments.get('c1')).toBe(carol);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import { Op } from 'sequelize';
+import {
+  SequenceStopService,
+  getSequenceStopRules,
+  validateSequenceStopRules,
+} from 'src/resources/campaigns/services/sequence-stop.service';
+import { EmailSkipReason, ReplyClassification } from 'src/resources/campaigns/entities/email-message.entity';
+
+describe('SequenceStopService', () => {
+  let service: SequenceStopService;
+  let mockEmailMessageModel: any;
+  let mockOrganizationModel: any;
+
+  const sequenceStart = new Date('2026-10-01T09:00:00Z');
+  const emailMessage = {
+    id: 'email-2',
+    organizationId: 'org-1',
+    campaignId: 'campaign-b',
+    contactId: 'contact-1',
+    createdAt: new Date('2026-10-05T09:00:00Z'),
+  } as any;
+  const contact = { id: 'contact-1', companyDomain: 'Acme.com' } as any;
+
+  const withRules = (sequenceStopRules: Record<string, any>) =>
+    mockOrganizationModel.findByPk.mockResolvedValue({ id: 'org-1', settings: { sequenceStopRules } });
+
+  beforeEach(() => {
+    mockEmailMessageModel = {
+      findOne: jest.fn().mockResolvedValueOnce({ id: 'email-1', createdAt: sequenceStart }).mockResolvedValue(null),
+    };
+    mockOrganizationModel = { findByPk: jest.fn().mockResolvedValue({ id: 'org-1', settings: null }) };
+
+    service = new SequenceStopService(mockEmailMessageModel, mockOrganizationModel);
+  });
+
+  it('should not query replies when no rule is enabled', async () => {
+    await expect(service.findStopReason(emailMessage, contact)).resolves.toBeNull();
+    expect(mockEmailMessageModel.findOne).not.toHaveBeenCalled();
+  });
+
+  it('should stop on a reply to another campaign since the sequence started', async () => {
+    withRules({ contact: 'ANY_REPLY' });
+    mockEmailMessageModel.findOne.mockResolvedValueOnce({ campaignId: 'campaign-a', campaign: { name: 'Launch' } });
+
+    await expect(service.findStopReason(emailMessage, contact)).resolves.toEqual({
+      skipReason: EmailSkipReason.CONTACT_REPLIED,
+      message: 'Contact replied to campaign "Launch"',
+    });
+
+    const { where } = mockEmailMessageModel.findOne.mock.calls[1][0];
+    expect(where).toMatchObject({
+      contactId: 'contact-1',
+      campaignId: { [Op.ne]: 'campaign-b' },
+      repliedAt: { [Op.gte]: sequenceStart },
+    });
+    // Automatic replies never count
+    expect(where[Op.or]).toEqual([
+      { replyClassification: null },
+      { replyClassification: { [Op.notIn]: [ReplyClassification.OUT_OF_OFFICE, ReplyClassification.AUTO_REPLY] } },
+    ]);
+  });
+
+  it('should stop colleagues on a positive reply from the same company domain', async () => {
+    withRules({ company: 'POSITIVE_REPLY' });
+    mockEmailMessageModel.findOne.mockResolvedValueOnce({
+      campaignId: 'campaign-a',
+      campaign: { name: 'Launch' },
+      contact: { email: 'jane@acme.com' },
+    });
+
+    await expect(service.findStopReason(emailMessage, contact)).resolves.toEqual({
+      skipReason: EmailSkipReason.COMPANY_REPLIED,
+      message: 'jane@acme.com at acme.com replied with interest to campaign "Launch"',
+    });
+
+    const [{ where, include }] = mockEmailMessageModel.findOne.mock.calls[1];
+    expect(where).toMatchObject({
+      contactId: { [Op.ne]: 'contact-1' },
+      replyClassification: ReplyClassification.INTERESTED,
+    });
+    expect(include[0]).toMatchObject({ where: { companyDomain: 'acme.com' }, required: true });
+  });
+
+  it('should skip the company rule for contacts without a company domain', async () => {
+    withRules({ company: 'ANY_REPLY' });
+
+    await expect(service.findStopReason(emailMessage, { id: 'contact-1', companyDomain: null } as any)).resolves.toBeNull();
+    expect(mockEmailMessageModel.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  describe('stop rule settings', () => {
+    it('should fall back to NONE for missing or unknown values', () => {
+      expect(getSequenceStopRules({ sequenceStopRules: { contact: 'ALWAYS', company: 'ANY_REPLY' } })).toEqual({
+        contact: 'NONE',
+        company: 'ANY_REPLY',
+      });
+      expect(getSequenceStopRules(null)).toEqual({ contact: 'NONE', company: 'NONE' });
+    });
+
+    it('should reject unknown keys and values', () => {
+      expect(() => validateSequenceStopRules({ contact: 'ALWAYS' })).toThrow(BadRequestException);
+      expect(() => validateSequenceStopRules({ campaign: 'ANY_REPLY' })).toThrow(BadRequestException);
+      expect(validateSequenceStopRules({ company: 'POSITIVE_REPLY' })).toEqual({
+        contact: 'NONE',
+        company: 'POSITIVE_REPLY',
+      });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { StepVariantService } from 'src/resources/campaigns/services/step-variant.service';
+import { StepAbTest, StepVariant } from 'src/resources/campaigns/entities/campaign-step.entity';
+
+describe('StepVariantService', () => {
+  let service: StepVariantService;
+  let mockEmailTemplateModel: any;
+  let mockEmailMessagesRepository: any;
+
+  const variants: StepVariant[] = [
+    { id: 'A', templateId: 'template-a', weight: 3 },
+    { id: 'B', templateId: 'template-b', subject: 'Quick question', weight: 1 },
+  ];
+  const abTest: StepAbTest = { testPercentage: 20, waitHours: 24, winnerMetric: 'OPEN_RATE' };
+
+  beforeEach(() => {
+    mockEmailTemplateModel = { findAll: jest.fn() };
+    mockEmailMessagesRepository = {
+      aggregateByVariant: jest.fn().mockResolvedValue([
+        { variantId: 'A', total: 10, sent: 10, opened: 4, clicked: 1, replied: 0, bounced: 0 },
+        { variantId: 'B', total: 10, sent: 8, opened: 4, clicked: 2, replied: 1, bounced: 2 },
+      ]),
+    };
+
+    service = new StepVariantService(mockEmailTemplateModel, mockEmailMessagesRepository);
+  });
+
+  describe('createPicker', () => {
+    it('should split contacts by variant weight', () => {
+      const pick = service.createPicker(variants);
+      const picked = Array.from({ length: 8 }, () => pick().id);
+
+      expect(picked.filter((id) => id === 'A')).toHaveLength(6);
+      expect(picked.filter((id) => id === 'B')).toHaveLength(2);
+    });
+  });
+
+  describe('getTestSampleSize', () => {
+    it('should send the test percentage with at least one contact per variant', () => {
+      expect(service.getTestSampleSize(1000, { variants, abTest })).toBe(200);
+      expect(service.getTestSampleSize(3, { variants, abTest })).toBe(2);
+    });
+
+    it('should send to every contact without a test', () => {
+      expect(service.getTestSampleSize(1000, { variants, abTest: null })).toBe(1000);
+    });
+  });
+
+  describe('getActiveVariants', () => {
+    it('should only send the winner once the test is decided', () => {
+      const step = { variants, abTest: { ...abTest, winnerVariantId: 'B' } };
+
+      expect(service.getActiveVariants(step)).toEqual([variants[1]]);
+      expect(service.isTestPending(step)).toBe(false);
+    });
+
+    it('should return null for steps without variants', () => {
+      expect(service.getActiveVariants({ variants: null, abTest: null })).toBeNull();
+    });
+  });
+
+  describe('winner selection', () => {
+    it('should compute rates relative to sent emails', async () => {
+      const results = await service.getVariantResults('campaign-1', { id: 'step-1', variants, abTest });
+
+      expect(results.map((result) => [result.variantId, result.openRate, result.clickRate])).toEqual([
+        ['A', 40, 10],
+        ['B', 50, 25],
+      ]);
+    });
+
+    it('should break ties by the number of sent emails', () => {
+      const results = service.buildResults(
+        variants,
+        [
+          { variantId: 'A', total: 4, sent: 4, opened: 1, clicked: 0, replied: 0, bounced: 0 },
+          { variantId: 'B', total: 8, sent: 8, opened: 2, clicked: 0, replied: 0, bounced: 0 },
+        ],
+        null,
+      );
+
+      expect(service.chooseWinner(results, 'OPEN_RATE').variantId).toBe('B');
+      expect(service.chooseWinner(results, 'REPLY_RATE').variantId).toBe('B');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  findDuplicatePairs,
+  isEmailLocalPartVariant,
+  mergeDuplicateContact,
+  normalizeCompanyDomain,
+  normalizeEmailForMatching,
+  normalizeLinkedinUrl,
+  normalizePhone,
+  pickSurvivingContact,
+  scoreDuplicatePair,
+} from 'src/common/utils/contact-duplicates.util';
+import { DuplicateMatchReason } from 'src/resources/contacts/dto/contact-duplicates.interface';
+import { ContactStatus } from 'src/resources/contacts/entities/contact.entity';
+
+describe('contact duplicates util', () => {
+  describe('normalizers', () => {
+    it('should fold Gmail dots, +tags and case', () => {
+      expect(normalizeEmailForMatching('John.Smith+news@GoogleMail.com')).toBe('johnsmith@gmail.com');
+      expect(normalizeEmailForMatching('john.smith+crm@acme.com')).toBe('john.smith@acme.com');
+      expect(normalizeEmailForMatching('not-an-email')).toBeNull();
+    });
+
+    it('should reduce LinkedIn member URLs to their profile path', () => {
+      expect(normalizeLinkedinUrl('https://www.linkedin.com/in/John-Smith/?trk=x')).toBe('in/john-smith');
+      expect(normalizeLinkedinUrl('uk.linkedin.com/in/john-smith')).toBe('in/john-smith');
+      expect(normalizeLinkedinUrl('https://www.linkedin.com/company/acme')).toBeNull();
+    });
+
+    it('should compare phones by their last digits', () => {
+      expect(normalizePhone('+1 (415) 555-0100')).toBe(normalizePhone('415.555.0100'));
+      expect(normalizePhone('555')).toBeNull();
+    });
+
+    it('should reduce company websites to their host', () => {
+      expect(normalizeCompanyDomain('https://www.Acme.com/about')).toBe('acme.com');
+      expect(normalizeCompanyDomain('')).toBeNull();
+    });
+  });
+
+  describe('isEmailLocalPartVariant', () => {
+    it.each([
+      ['john@acme.com', 'john.smith@acme.com'],
+      ['john.smith@acme.com', 'john_smith@acme.com'],
+      ['jsmith@acme.com', 'john.smith@acme.com'],
+    ])('should match %s and %s', (first, second) => {
+      expect(isEmailLocalPartVariant(first, second)).toBe(true);
+    });
+
+    it.each([
+      ['john@acme.com', 'john@globex.com', 'different domains'],
+      ['john@gmail.com', 'john.smith@gmail.com', 'free mail domain'],
+      ['john.doe@acme.com', 'john.smith@acme.com', 'different last names'],
+      ['j@acme.com', 'j.smith@acme.com', 'single letter'],
+    ])('should not match %s and %s (%s)', (first, second) => {
+      expect(isEmailLocalPartVariant(first, second)).toBe(false);
+    });
+  });
+
+  describe('scoreDuplicatePair', () => {
+    it('should score Gmail spellings of one mailbox as the same email', () => {
+      expect(
+        scoreDuplicatePair(
+          { id: 'a', email: 'john.smith@gmail.com' },
+          { id: 'b', email: 'johnsmith+promo@gmail.com' },
+        ),
+      ).toEqual({ score: 100, reasons: [DuplicateMatchReason.SAME_EMAIL] });
+    });
+
+    it('should add up matches and cap the score', () => {
+      expect(
+        scoreDuplicatePair(
+          { id: 'a', email: 'john@acme.com', firstName: 'John', lastName: 'Smith', companyDomain: 'acme.com', phone: '415 555 0100' },
+          { id: 'b', email: 'john.smith@acme.com', firstName: 'john', lastName: 'Smith', companyDomain: 'www.acme.com', phone: '+1-415-555-0100' },
+        ),
+      ).toEqual({
+        score: 100,
+        reasons: [DuplicateMatchReason.EMAIL_VARIANT, DuplicateMatchReason.NAME_AND_COMPANY, DuplicateMatchReason.PHONE],
+      });
+    });
+
+    it('should not treat a local part variant of another person as a match', () => {
+      expect(
+        scoreDuplicatePair(
+          { id: 'a', email: 'j.smith@acme.com', firstName: 'Jane' },
+          { id: 'b', email: 'jsmith@acme.com', firstName: 'John' },
+        ),
+      ).toBeNull();
+    });
+
+    it('should match a shared LinkedIn profile across addresses', () => {
+      expect(
+        scoreDuplicatePair(
+          { id: 'a', email: 'john@acme.com', linkedin: 'linkedin.com/in/jsmith' },
+          { id: 'b', email: 'john@globex.com', linkedin: 'https://www.linkedin.com/in/JSmith/' },
+        ),
+      ).toEqual({ score: 90, reasons: [DuplicateMatchReason.LINKEDIN] });
+    });
+  });
+
+  describe('findDuplicatePairs', () => {
+    const contacts = [
+      { id: 'c1', email: 'john@acme.com', firstName: 'John' },
+      { id: 'c2', email: 'john.smith@acme.com', firstName: 'John', lastName: 'Smith' },
+      { id: 'c3', email: 'mary@acme.com', firstName: 'Mary', phone: '415 555 0100' },
+      { id: 'c4', email: 'mary.jones@globex.com', firstName: 'Mary', phone: '4155550100' },
+      { id: 'c5', email: 'JOHN.smith+crm@acme.com', firstName: 'John' },
+    ];
+
+    it('should return pairs at or above the minimum score, best first', () => {
+      expect(findDuplicatePairs(contacts, 50, 50)).toEqual([
+        { contactIds: ['c2', 'c5'], score: 100, reasons: [DuplicateMatchReason.SAME_EMAIL] },
+        { contactIds: ['c1', 'c2'], score: 50, reasons: [DuplicateMatchReason.EMAIL_VARIANT] },
+        { contactIds: ['c1', 'c5'], score: 50, reasons: [DuplicateMatchReason.EMAIL_VARIANT] },
+      ]);
+    });
+
+    it('should include weaker matches below the default score when asked', () => {
+      expect(findDuplicatePairs(contacts, 40, 50)).toContainEqual({
+        contactIds: ['c3', 'c4'],
+        score: 40,
+        reasons: [DuplicateMatchReason.PHONE],
+      });
+    });
+
+    it('should skip keys shared by too many contacts', () => {
+      expect(findDuplicatePairs(contacts, 50, 2)).toEqual([
+        { contactIds: ['c2', 'c5'], score: 100, reasons: [DuplicateMatchReason.SAME_EMAIL] },
+      ]);
+    });
+  });
+
+  describe('pickSurvivingContact', () => {
+    it('should keep the contact with more fields filled', () => {
+      const sparse = { id: 'a', firstName: 'John', createdAt: '2026-01-01' };
+      const complete = { id: 'b', firstName: 'John', company: 'Acme', customFields: { plan: 'pro' }, createdAt: '2026-06-01' };
+
+      expect(pickSurvivingContact(sparse, complete)).toBe(complete);
+    });
+
+    it('should keep the older contact when both are as complete', () => {
+      const newer = { id: 'a', firstName: 'John', createdAt: '2026-06-01' };
+      const older = { id: 'b', firstName: 'John', createdAt: '2026-01-01' };
+
+      expect(pickSurvivingContact(newer, older)).toBe(older);
+    });
+  });
+
+  describe('mergeDuplicateContact', () => {
+    const survivor = {
+      firstName: 'John',
+      lastName: null,
+      company: 'Acme',
+      phone: null,
+      status: ContactStatus.ACTIVE,
+      subscribed: true,
+      bounceCount: 1,
+      numberOfOpens: 2,
+      lastEmailOpenedAt: new Date('2026-05-01T00:00:00Z'),
+      customFields: { plan: 'pro', region: '' },
+    };
+    const duplicate = {
+      firstName: 'Johnny',
+      lastName: 'Smith',
+      company: 'Acme Inc',
+      phone: '415 555 0100',
+      phoneEncrypted: 'encrypted-phone',
+      status: ContactStatus.UNSUBSCRIBED,
+      subscribed: false,
+      unsubscribedAt: new Date('2026-04-01T00:00:00Z'),
+      bounceCount: 0,
+      numberOfOpens: 3,
+      lastEmailOpenedAt: new Date('2026-06-01T00:00:00Z'),
+      customFields: { plan: 'free', region: 'EU', seats: 5 },
+    };
+
+    it('should fill blanks, add up counters and keep the latest activity', () => {
+      const { attributes } = mergeDuplicateContact(survivor, duplicate);
+
+      expect(attributes).toMatchObject({
+        lastName: 'Smith',
+        phone: '415 555 0100',
+        phoneEncrypted: 'encrypted-phone',
+        numberOfOpens: 5,
+        lastEmailOpenedAt: new Date('2026-06-01T00:00:00Z'),
+        customFields: { plan: 'pro', region: 'EU', seats: 5 },
+      });
+      expect(attributes).not.toHaveProperty('firstName');
+      expect(attributes).not.toHaveProperty('company');
+      expect(attributes).not.toHaveProperty('bounceCount');
+    });
+
+    it('should keep the more restrictive status and subscription', () => {
+      const { attributes, changes } = mergeDuplicateContact(survivor, duplicate);
+
+      expect(attributes).toMatchObject({
+        status: ContactStatus.UNSUBSCRIBED,
+        subscribed: false,
+        unsubscribedAt: new Date('2026-04-01T00:00:00Z'),
+      });
+      expect(changes).toEqual([
+        { field: 'lastName', previousValue: null, newValue: 'Smith' },
+        { field: 'phone', previousValue: null, newValue: '415 555 0100' },
+        { field: 'customFields.region', previousValue: null, newValue: 'EU' },
+        { field: 'customFields.seats', previousValue: null, newValue: '5' },
+        { field: 'status', previousValue: ContactStatus.ACTIVE, newValue: ContactStatus.UNSUBSCRIBED },
+        { field: 'subscribed', previousValue: 'true', newValue: 'false' },
+      ]);
+    });
+
+    it('should not resubscribe an unsubscribed survivor', () => {
+      const { attributes } = mergeDuplicateContact(
+        { ...duplicate, customFields: null },
+        { ...survivor, customFields: null },
+      );
+
+      expect(attributes).not.toHaveProperty('status');
+      expect(attributes).not.toHaveProperty('subscribed');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  applyColumnMapping,
+  importCellToString,
+  suggestColumnMapping,
+  toCustomFieldKey,
+  validateColumnMapping,
+} from 'src/common/utils/contact-import-mapping.util';
+import { ImportColumnTarget } from 'src/resources/contacts/dto/contact-import.interface';
+
+describe('contact import mapping', () => {
+  const headers = ['E-mail Address', 'First Name', 'Surname', 'Title', 'Lead Score', 'Email', ''];
+
+  it('should suggest standard fields, custom fields for unknown columns and ignore blanks', () => {
+    expect(suggestColumnMapping(headers)).toEqual([
+      { column: 'E-mail Address', target: ImportColumnTarget.FIELD, field: 'email' },
+      { column: 'First Name', target: ImportColumnTarget.FIELD, field: 'firstName' },
+      { column: 'Surname', target: ImportColumnTarget.FIELD, field: 'lastName' },
+      { column: 'Title', target: ImportColumnTarget.FIELD, field: 'jobTitle' },
+      { column: 'Lead Score', target: ImportColumnTarget.CUSTOM_FIELD, customFieldName: 'lead_score' },
+      // Second email column keeps its data as a custom field
+      { column: 'Email', target: ImportColumnTarget.CUSTOM_FIELD, customFieldName: 'email' },
+      { column: '', target: ImportColumnTarget.IGNORE },
+    ]);
+    expect(toCustomFieldKey('  Plan (Tier) ')).toBe('plan_tier');
+    expect(suggestColumnMapping(['Email', 'Import Row', 'Import Errors'])).toEqual([
+      { column: 'Email', target: ImportColumnTarget.FIELD, field: 'email' },
+      { column: 'Import Row', target: ImportColumnTarget.IGNORE },
+      { column: 'Import Errors', target: ImportColumnTarget.IGNORE },
+    ]);
+  });
+
+  it('should reject mappings that do not fit the file', () => {
+    const errors = validateColumnMapping(
+      [
+        { column: 'E-mail Address', target: ImportColumnTarget.FIELD, field: 'email' },
+        { column: 'Surname', target: ImportColumnTarget.FIELD, field: 'email' },
+        { column: 'Lead Score', target: ImportColumnTarget.CUSTOM_FIELD, customFieldName: 'lead score' },
+        { column: 'Phone', target: ImportColumnTarget.IGNORE },
+      ],
+      headers,
+    );
+
+    expect(errors).toEqual([
+      'Field email is mapped from more than one column',
+      'Column "Lead Score" needs a custom field name of letters, digits, underscores and dashes',
+      'Column "Phone" is not in the file',
+      'First name must be mapped to a column',
+    ]);
+    expect(validateColumnMapping(suggestColumnMapping(headers), headers)).toEqual([]);
+  });
+
+  it('should apply a mapping to a row', () => {
+    const mapping = suggestColumnMapping(headers);
+
+    expect(
+      applyColumnMapping(
+        {
+          'E-mail Address': ' Jane@Acme.COM ',
+          'First Name': 'Jane',
+          Surname: '',
+          Title: 'CTO',
+          'Lead Score': 42,
+          Email: 'jane.doe@gmail.com',
+        },
+        mapping,
+      ),
+    ).toEqual({
+      email: 'jane@acme.com',
+      firstName: 'Jane',
+      jobTitle: 'CTO',
+      customFields: { lead_score: '42', email: 'jane.doe@gmail.com' },
+    });
+    expect(applyColumnMapping({ 'Lead Score': '7' }, mapping)).toBeNull();
+  });
+
+  it('should read spreadsheet cell values as strings', () => {
+    expect(importCellToString({ text: 'Acme', hyperlink: 'https://acme.com' })).toBe('Acme');
+    expect(importCellToString({ richText: [{ text: 'Jane ' }, { text: 'Doe' }] })).toBe('Jane Doe');
+    expect(importCellToString({ formula: 'A1*2', result: 84 })).toBe('84');
+    expect(importCellToString(new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-19T00:00:00.000Z');
+    expect(importCellToString(null)).toBe('');
+  });
+});
@@ -0,0 +1,74 @@
+import { mergeImportedContact } from 'src/common/utils/contact-import-merge.util';
+import { ContactImportStrategy } from 'src/resources/contacts/dto/contact-import.interface';
+
+describe('mergeImportedContact', () => {
+  const existing = {
+    firstName: 'Jane',
+    lastName: '',
+    company: 'Acme',
+    jobTitle: null,
+    customFields: { lead_score: '10', plan: 'pro' },
+  };
+  const row = {
+    email: 'jane@acme.com',
+    firstName: 'Jane',
+    lastName: 'Doe',
+    company: 'Acme Corp',
+    jobTitle: 'CTO',
+    list: 'Leads',
+    customFields: { lead_score: '42', region: 'EU' },
+  };
+
+  it('should leave the contact alone when skipping', () => {
+    expect(mergeImportedContact(existing, row, { strategy: ContactImportStrategy.SKIP })).toEqual({
+      attributes: {},
+      changes: [],
+    });
+  });
+
+  it('should replace every changed value when overwriting', () => {
+    const { attributes, changes } = mergeImportedContact(existing, row, {
+      strategy: ContactImportStrategy.OVERWRITE,
+    });
+
+    expect(attributes).toEqual({
+      lastName: 'Doe',
+      company: 'Acme Corp',
+      jobTitle: 'CTO',
+      customFields: { lead_score: '42', plan: 'pro', region: 'EU' },
+    });
+    expect(changes).toEqual([
+      { field: 'lastName', previousValue: null, newValue: 'Doe' },
+      { field: 'company', previousValue: 'Acme', newValue: 'Acme Corp' },
+      { field: 'jobTitle', previousValue: null, newValue: 'CTO' },
+      { field: 'customFields.lead_score', previousValue: '10', newValue: '42' },
+      { field: 'customFields.region', previousValue: null, newValue: 'EU' },
+    ]);
+  });
+
+  it('should only set blank fields when filling blanks', () => {
+    const { attributes, changes } = mergeImportedContact(existing, row, {
+      strategy: ContactImportStrategy.FILL_BLANKS,
+    });
+
+    expect(attributes).toEqual({
+      lastName: 'Doe',
+      jobTitle: 'CTO',
+      customFields: { lead_score: '10', plan: 'pro', region: 'EU' },
+    });
+    expect(changes.map((change) => change.field)).toEqual(['lastName', 'jobTitle', 'customFields.region']);
+  });
+
+  it('should only replace the selected fields', () => {
+    const { attributes, changes } = mergeImportedContact(existing, row, {
+      strategy: ContactImportStrategy.OVERWRITE_SELECTED,
+      overwriteFields: ['company', 'customFields.lead_score'],
+    });
+
+    expect(attributes).toEqual({
+      company: 'Acme Corp',
+      customFields: { lead_score: '42', plan: 'pro' },
+    });
+    expect(changes.map((change) => change.field)).toEqual(['company', 'customFields.lead_score']);
+  });
+});
@@ -0,0 +1,67 @@
+import { GMAIL_CLIP_BYTES, lintEmailContent } from 'src/common/utils/content-lint.util';
+
+describe('lintEmailContent', () => {
+  const codes = (result: ReturnType<typeof lintEmailContent>) => result.issues.map((issue) => issue.code);
+
+  it('should give clean content a perfect score', () => {
+    const result = lintEmailContent({
+      subject: 'Quick question about Acme Corp',
+      html: '<p>Hi John, I noticed <a href="https://acme.com/blog">your post</a> about onboarding.</p>',
+      text: 'Hi John, I noticed your post about onboarding: https://acme.com/blog',
+      isHtml: true,
+    });
+
+    expect(result).toMatchObject({ score: 100, issues: [], linkCount: 1, imageCount: 0 });
+  });
+
+  it('should flag spam phrases, shouting subjects and shortened links', () => {
+    const result = lintEmailContent({
+      subject: 'URGENT: ACT NOW BEFORE FRIDAY',
+      html: '<p>Click here for a free trial: <a href="https://bit.ly/x1">offer</a></p>',
+      text: 'Click here for a free trial: https://bit.ly/x1',
+      isHtml: true,
+    });
+
+    expect(codes(result)).toEqual(['SPAM_PHRASES', 'FLAGGED_LINK_DOMAIN', 'ALL_CAPS_SUBJECT']);
+    expect(result.issues[0].message).toBe('Spam-trigger phrases: act now, click here, free trial, urgent');
+    expect(result.score).toBe(100 - 20 - 20 - 15);
+  });
+
+  it('should flag image-only HTML without a plain-text version', () => {
+    const result = lintEmailContent({
+      subject: 'Our new catalog',
+      html: '<img src="https://acme.com/a.png"><img src="https://acme.com/b.png">',
+      isHtml: true,
+    });
+
+    expect(codes(result)).toEqual(['IMAGE_HEAVY', 'MISSING_PLAIN_TEXT']);
+    expect(result.issues[0].severity).toBe('ERROR');
+  });
+
+  it('should flag HTML Gmail clips and too many links', () => {
+    const links = Array.from({ length: 5 }, (_, i) => `<a href="https://acme.com/${i}">link ${i}</a>`).join(' ');
+    const result = lintEmailContent({
+      subject: 'Resources',
+      html: `<p>${links}</p><!-- ${'x'.repeat(GMAIL_CLIP_BYTES)} -->`,
+      text: 'Resources',
+      isHtml: true,
+    });
+
+    expect(codes(result)).toEqual(['TOO_MANY_LINKS', 'HTML_TOO_LARGE']);
+    expect(result.linkCount).toBe(5);
+  });
+
+  it('should report broken variables', () => {
+    const result = lintEmailContent({
+      subject: 'Hi {firstName}',
+      text: 'Hello {{firstName}} from {{compnay}}',
+      isHtml: false,
+      variableErrors: ['Unknown variable "compnay"'],
+    });
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({ code: 'BROKEN_VARIABLE', severity: 'ERROR', message: 'Unknown variable "compnay"' }),
+      expect.objectContaining({ code: 'BROKEN_VARIABLE', severity: 'WARNING', message: 'Variables need double braces: {firstName}' }),
+    ]);
+  });
+});
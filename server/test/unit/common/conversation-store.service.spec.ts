@@ -0,0 +1,154 @@
+import { Op } from 'sequelize';
+import { ConversationStoreService } from 'src/common/services/conversation-store.service';
+import { InboxThreadStatus } from 'src/resources/inbox/entities/inbox-thread.entity';
+import { InboxMessageDirection } from 'src/resources/inbox/entities/inbox-message.entity';
+
+describe('ConversationStoreService', () => {
+  let service: ConversationStoreService;
+  let mockInboxThreadModel: any;
+  let mockInboxMessageModel: any;
+  let mockGmailTokenModel: any;
+  let mockGmailService: any;
+  let thread: any;
+
+  const emailMessage = {
+    id: 'email-1',
+    organizationId: 'org-1',
+    campaignId: 'campaign-1',
+    contactId: 'contact-1',
+    gmailThreadId: 'thread-1',
+    gmailMessageId: 'gmail-msg-1',
+    sentFromEmail: 'sales@contoso.com',
+    subject: 'Quick question',
+    htmlContent: '<p>Hi Jane</p>',
+    textContent: 'Hi Jane',
+    sentAt: new Date('2026-10-18T10:00:00Z'),
+    contact: { email: 'jane@acme.io' },
+  } as any;
+
+  const reply = {
+    id: 'gmail-msg-2',
+    headers: [
+      { name: 'From', value: '"Jane Doe" <Jane@acme.io>' },
+      { name: 'To', value: 'sales@contoso.com' },
+      { name: 'Cc', value: 'Bob <bob@acme.io>, "Doe, John" <john@acme.io>' },
+      { name: 'Subject', value: 'Re: Quick question' },
+      { name: 'Message-ID', value: '<reply-1@acme.io>' },
+    ],
+    snippet: 'Sounds good',
+    payload: {},
+    internalDate: String(Date.parse('2026-10-19T09:00:00Z')),
+  };
+
+  beforeEach(() => {
+    thread = {
+      id: 'inbox-thread-1',
+      organizationId: 'org-1',
+      messageCount: 0,
+      lastMessageAt: null,
+      update: jest.fn(async function (this: any, changes: any) {
+        Object.assign(this, changes);
+      }),
+    };
+    mockInboxThreadModel = {
+      findOrCreate: jest.fn().mockResolvedValue([thread, true]),
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+    mockInboxMessageModel = {
+      findOne: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (data: any) => ({ id: `stored-${data.providerMessageId}`, ...data })),
+    };
+    mockGmailTokenModel = {
+      findOne: jest.fn().mockResolvedValue({ id: 'mailbox-1', email: 'sales@contoso.com' }),
+      findAll: jest.fn().mockResolvedValue([{ id: 'mailbox-1' }]),
+    };
+    mockGmailService = {
+      extractMessageContent: jest.fn().mockReturnValue({
+        text: 'Sounds good, call me tomorrow.',
+        html: '<p>Sounds good, call me tomorrow.</p>',
+        attachments: [{ filename: 'deck.pdf', mimeType: 'application/pdf', size: 2048, attachmentId: 'att-1' }],
+      }),
+    };
+    service = new ConversationStoreService(
+      mockInboxThreadModel,
+      mockInboxMessageModel,
+      mockGmailTokenModel,
+      mockGmailService,
+    );
+  });
+
+  describe('recordInboundMessage', () => {
+    it('should store the campaign email and the full reply in the thread', async () => {
+      const stored = await service.recordInboundMessage(emailMessage, reply, 'sales@contoso.com');
+
+      expect(mockInboxThreadModel.findOrCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { mailboxId: 'mailbox-1', gmailThreadId: 'thread-1' } }),
+      );
+      expect(mockInboxMessageModel.create).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          direction: InboxMessageDirection.OUTBOUND,
+          providerMessageId: 'gmail-msg-1',
+          htmlBody: '<p>Hi Jane</p>',
+        }),
+      );
+      expect(stored).toEqual(
+        expect.objectContaining({
+          direction: InboxMessageDirection.INBOUND,
+          messageIdHeader: 'reply-1@acme.io',
+          fromEmail: 'jane@acme.io',
+          fromName: 'Jane Doe',
+          ccAddresses: [
+            { email: 'bob@acme.io', name: 'Bob' },
+            { email: 'john@acme.io', name: 'Doe, John' },
+          ],
+          textBody: 'Sounds good, call me tomorrow.',
+          attachments: [expect.objectContaining({ filename: 'deck.pdf' })],
+        }),
+      );
+      expect(thread.status).toBe(InboxThreadStatus.UNREAD);
+      expect(thread.messageCount).toBe(2);
+      expect(thread.lastMessageSnippet).toBe('Sounds good, call me tomorrow.');
+    });
+
+    it('should not store the same reply twice', async () => {
+      const existing = { id: 'stored-gmail-msg-2' };
+      mockInboxMessageModel.findOne.mockResolvedValue(existing);
+
+      await expect(service.recordInboundMessage(emailMessage, reply, 'sales@contoso.com')).resolves.toBe(existing);
+      expect(mockInboxMessageModel.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip replies of unknown mailboxes', async () => {
+      mockGmailTokenModel.findOne.mockResolvedValue(null);
+
+      await expect(service.recordInboundMessage(emailMessage, reply, 'old@contoso.com')).resolves.toBeNull();
+      expect(mockInboxThreadModel.findOrCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findConversationThreadIds', () => {
+    it('should return the threads of the mailbox that have a conversation', async () => {
+      mockInboxThreadModel.findAll.mockResolvedValue([{ gmailThreadId: 'thread-1' }]);
+
+      const threadIds = await service.findConversationThreadIds('sales@contoso.com', ['thread-1', 'thread-2']);
+
+      expect(threadIds).toEqual(new Set(['thread-1']));
+      expect(mockInboxThreadModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            mailboxId: { [Op.in]: ['mailbox-1'] },
+            gmailThreadId: { [Op.in]: ['thread-1', 'thread-2'] },
+          },
+        }),
+      );
+    });
+
+    it('should not query threads of unknown mailboxes', async () => {
+      mockGmailTokenModel.findAll.mockResolvedValue([]);
+
+      await expect(service.findConversationThreadIds('old@contoso.com', ['thread-1'])).resolves.toEqual(new Set());
+      expect(mockInboxThreadModel.findAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { EmailPersonalizationService } from 'src/common/services/email-personalization.service';
+import { TemplateSyntaxError } from 'src/common/utils/personalization-template.util';
+import { Contact } from 'src/resources/contacts/entities/contact.entity';
+
+describe('EmailPersonalizationService', () => {
+  let service: EmailPersonalizationService;
+
+  const contact = (overrides: Record<string, any> = {}) =>
+    ({
+      id: 'contact-1',
+      email: 'ada@example.com',
+      firstName: 'ada',
+      lastName: null,
+      company: 'Analytical Engines',
+      customFields: { plan_tier: 'pro', renewal: '2026-11-05' },
+      ...overrides,
+    }) as unknown as Contact;
+
+  const render = (content: string, overrides: Record<string, any> = {}) =>
+    service.renderForContact(content, contact(overrides));
+
+  beforeEach(() => {
+    service = new EmailPersonalizationService();
+  });
+
+  describe('variables', () => {
+    it('should render contact fields, custom fields and filters', () => {
+      expect(
+        render('{{firstName | capitalize}} on {{ custom.plan_tier | upper }}, renews {{custom.renewal | date: "MMM D"}}')
+          .output,
+      ).toBe('Ada on PRO, renews Nov 5');
+    });
+
+    it('should keep matching contact fields case-insensitively', () => {
+      expect(render('Hi {{FirstName}}').output).toBe('Hi ada');
+    });
+
+    it('should use fallbacks and report empty variables without one', () => {
+      const result = render('Hi {{firstName | default: "there"}} {{lastName}}', { firstName: '' });
+
+      expect(result.output).toBe('Hi there ');
+      expect(result.missing).toEqual(['lastName']);
+    });
+
+    it('should read custom fields stored as JSON strings', () => {
+      expect(render('{{custom.plan_tier}}', { customFields: '{"plan_tier":"team"}' }).output).toBe('team');
+    });
+  });
+
+  describe('conditionals', () => {
+    it('should render the matching branch', () => {
+      const content = '{% if company %}at {{company}}{% else %}on your team{% endif %}';
+
+      expect(render(content).output).toBe('at Analytical Engines');
+      expect(render(content, { company: null }).output).toBe('on your team');
+    });
+
+    it('should support negation and comparisons', () => {
+      expect(render('{% if not lastName %}no last name{% endif %}').output).toBe('no last name');
+      expect(render('{% if custom.plan_tier == "PRO" %}pro{% endif %}{% if custom.plan_tier != "pro" %}other{% endif %}').output).toBe('pro');
+    });
+
+    it('should not report variables of branches that are not rendered', () => {
+      expect(render('{% if lastName %}{{lastName}}{% endif %}').missing).toEqual([]);
+    });
+  });
+
+  describe('spintax', () => {
+    it('should pick the same option for the same contact', () => {
+      const content = '{Hi|Hello|Hey} {{firstName}}';
+      const first = render(content).output;
+
+      expect(['Hi ada', 'Hello ada', 'Hey ada']).toContain(first);
+      expect(render(content).output).toBe(first);
+    });
+
+    it('should keep braces without options as text', () => {
+      expect(render('<style>p { color: red; }</style>').output).toBe('<style>p { color: red; }</style>');
+    });
+  });
+
+  describe('validateContent', () => {
+    it('should report syntax errors and unknown variables', () => {
+      expect(service.validateContent('{% if company %}Hi', '{{nickname}} {{custom.plan}}', '{{firstName | shout}}')).toEqual([
+        'Missing {% endif %} for {% if company %}',
+        'Unknown variable "nickname"',
+        'Unknown filter "shout"',
+      ]);
+    });
+
+    it('should throw syntax errors when rendering', () => {
+      expect(() => render('{{firstName')).toThrow(TemplateSyntaxError);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import { EmailTrackingService } from 'src/common/services/email-tracking.service';
+import { TrackingTokenService } from 'src/common/services/tracking-token.service';
+
+describe('EmailTrackingService', () => {
+  let service: EmailTrackingService;
+  let trackingTokenService: TrackingTokenService;
+  let mockEmailMessageModel: any;
+  const legacyId = '5b0c7a2e-1f3d-4c6b-9a8e-2d4f6a8c0e12';
+  const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  beforeEach(() => {
+    const config: Record<string, string> = { TRACKING_SECRET: 'tracking-secret', TRACKING_TOKEN_TTL_DAYS: '30' };
+    const configService = { get: (key: string) => config[key] } as unknown as ConfigService;
+    trackingTokenService = new TrackingTokenService(configService);
+    mockEmailMessageModel = { findByPk: jest.fn() };
+
+    service = new EmailTrackingService(
+      {} as any,
+      mockEmailMessageModel,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      configService,
+      trackingTokenService,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  describe('resolveTrackingToken', () => {
+    it('should accept signed tokens', async () => {
+      const token = trackingTokenService.sign('message-1', 'unsubscribe');
+
+      await expect(service.resolveTrackingToken(token, 'unsubscribe')).resolves.toBe('message-1');
+      expect(mockEmailMessageModel.findByPk).not.toHaveBeenCalled();
+    });
+
+    it('should accept raw message IDs of unsigned emails sent within the token lifetime', async () => {
+      mockEmailMessageModel.findByPk.mockResolvedValue({ id: legacyId, trackedLinks: null, sentAt: daysAgo(10) });
+
+      await expect(service.resolveTrackingToken(legacyId, 'unsubscribe')).resolves.toBe(legacyId);
+    });
+
+    it('should reject raw message IDs of emails sent before the token lifetime', async () => {
+      mockEmailMessageModel.findByPk.mockResolvedValue({ id: legacyId, trackedLinks: null, sentAt: daysAgo(31) });
+
+      await expect(service.resolveTrackingToken(legacyId, 'unsubscribe')).resolves.toBeNull();
+    });
+
+    it('should reject raw message IDs of emails sent with signed links', async () => {
+      mockEmailMessageModel.findByPk.mockResolvedValue({ id: legacyId, trackedLinks: {}, sentAt: daysAgo(1) });
+
+      await expect(service.resolveTrackingToken(legacyId, 'open')).resolves.toBeNull();
+    });
+  });
+});
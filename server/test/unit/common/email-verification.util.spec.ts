@@ -0,0 +1,94 @@
+import {
+  getExcludedVerificationStatuses,
+  getVerificationSkipReason,
+  isDisposableDomain,
+  isRoleAccount,
+  parseEmailAddress,
+} from 'src/common/utils/email-verification.util';
+import { CampaignVerificationFilter } from 'src/resources/campaigns/entities/campaign.entity';
+import { EmailSkipReason } from 'src/resources/campaigns/entities/email-message.entity';
+import { EmailVerificationStatus } from 'src/resources/contacts/entities/contact.entity';
+
+describe('email verification util', () => {
+  describe('parseEmailAddress', () => {
+    it.each([
+      ['jane.doe@acme.com', 'jane.doe', 'acme.com'],
+      ['Jane+news@Mail.Acme.co.uk', 'Jane+news', 'mail.acme.co.uk'],
+      ["o'brien!#$%&*=?^_`{|}~@acme.io", "o'brien!#$%&*=?^_`{|}~", 'acme.io'],
+      ['"jane doe"@acme.com', '"jane doe"', 'acme.com'],
+      ['"jane@home"@acme.com', '"jane@home"', 'acme.com'],
+      ['jane@xn--bcher-kva.de', 'jane', 'xn--bcher-kva.de'],
+    ])('should accept %s', (email, localPart, domain) => {
+      expect(parseEmailAddress(email)).toEqual({ localPart, domain });
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['jane', 'no @'],
+      ['@acme.com', 'no local part'],
+      ['jane@', 'no domain'],
+      ['.jane@acme.com', 'leading dot'],
+      ['jane..doe@acme.com', 'consecutive dots'],
+      ['jane doe@acme.com', 'unquoted space'],
+      ['"jane"doe"@acme.com', 'unescaped quote'],
+      ['jane@localhost', 'single-label domain'],
+      ['jane@acme.123', 'numeric top-level label'],
+      ['jane@-acme.com', 'label starting with a hyphen'],
+      ['jane@acme_corp.com', 'underscore in the domain'],
+      ['jane@[192.0.2.1]', 'address literal'],
+      [`${'a'.repeat(65)}@acme.com`, 'local part over 64 characters'],
+    ])('should reject %s (%s)', (email) => {
+      expect(parseEmailAddress(email)).toBeNull();
+    });
+  });
+
+  describe('isRoleAccount', () => {
+    it('should match shared mailboxes with or without a tag', () => {
+      expect(isRoleAccount('info')).toBe(true);
+      expect(isRoleAccount('Sales')).toBe(true);
+      expect(isRoleAccount('support+eu')).toBe(true);
+    });
+
+    it('should not match personal mailboxes', () => {
+      expect(isRoleAccount('jane')).toBe(false);
+      expect(isRoleAccount('information.desk')).toBe(false);
+    });
+  });
+
+  describe('isDisposableDomain', () => {
+    it('should match bundled domains and their subdomains', () => {
+      expect(isDisposableDomain('mailinator.com')).toBe(true);
+      expect(isDisposableDomain('eu.Mailinator.com')).toBe(true);
+      expect(isDisposableDomain('acme.com')).toBe(false);
+    });
+
+    it('should match extra domains', () => {
+      expect(isDisposableDomain('throwaway.test', ['throwaway.test'])).toBe(true);
+    });
+  });
+
+  describe('getVerificationSkipReason', () => {
+    it('should send to everyone without a filter', () => {
+      expect(getExcludedVerificationStatuses(CampaignVerificationFilter.ALL)).toEqual([]);
+      expect(getVerificationSkipReason(EmailVerificationStatus.FAILED, undefined)).toBeNull();
+    });
+
+    it('should skip failed and risky addresses when excluding risky contacts', () => {
+      const filter = CampaignVerificationFilter.EXCLUDE_RISKY;
+
+      expect(getVerificationSkipReason(EmailVerificationStatus.FAILED, filter)).toBe(EmailSkipReason.INVALID_EMAIL);
+      expect(getVerificationSkipReason(EmailVerificationStatus.RISKY, filter)).toBe(EmailSkipReason.RISKY_EMAIL);
+      expect(getVerificationSkipReason(EmailVerificationStatus.UNVERIFIED, filter)).toBeNull();
+      expect(getVerificationSkipReason(null, filter)).toBeNull();
+    });
+
+    it('should only send to verified addresses when required', () => {
+      const filter = CampaignVerificationFilter.VERIFIED_ONLY;
+
+      expect(getVerificationSkipReason(EmailVerificationStatus.VERIFIED, filter)).toBeNull();
+      expect(getVerificationSkipReason(EmailVerificationStatus.PENDING, filter)).toBe(EmailSkipReason.UNVERIFIED_EMAIL);
+      expect(getVerificationSkipReason(null, filter)).toBe(EmailSkipReason.UNVERIFIED_EMAIL);
+      expect(getVerificationSkipReason(EmailVerificationStatus.RISKY, filter)).toBe(EmailSkipReason.RISKY_EMAIL);
+    });
+  });
+});
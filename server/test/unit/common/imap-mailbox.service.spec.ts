@@ -0,0 +1,161 @@
+import { ImapMailboxService } from 'src/common/services/imap-mailbox.service';
+
+describe('ImapMailboxService', () => {
+  let service: ImapMailboxService;
+  let mockGmailTokenModel: any;
+  let mockReplyDetectionService: any;
+
+  beforeEach(() => {
+    mockGmailTokenModel = {
+      findOne: jest.fn(),
+    };
+    mockReplyDetectionService = {
+      processMailboxMessage: jest.fn(),
+    };
+    service = new ImapMailboxService(
+      mockGmailTokenModel,
+      { decrypt: jest.fn().mockResolvedValue('secret') } as any,
+      mockReplyDetectionService,
+    );
+  });
+
+  describe('pollMailbox', () => {
+    it('should skip mailboxes without IMAP settings', async () => {
+      mockGmailTokenModel.findOne.mockResolvedValue({ id: 'mailbox-1', email: 'sales@contoso.com', imapHost: null });
+
+      await expect(service.pollMailbox('mailbox-1')).resolves.toEqual({ fetched: 0, replies: 0, bounces: 0, unsubscribes: 0 });
+    });
+
+    describe('with IMAP settings', () => {
+      let mailbox: any;
+      let client: any;
+
+      beforeEach(() => {
+        mailbox = {
+          id: 'mailbox-1',
+          email: 'sales@contoso.com',
+          imapHost: 'imap.contoso.com',
+          imapPort: 993,
+          imapSecure: true,
+          mailboxPasswordEncrypted: 'encrypted',
+          imapUidValidity: '7',
+          imapLastUid: 10,
+          update: jest.fn(),
+        };
+        mockGmailTokenModel.findOne.mockResolvedValue(mailbox);
+
+        const release = jest.fn();
+        client = {
+          usable: true,
+          mailbox: { uidValidity: BigInt(7) },
+          connect: jest.fn().mockResolvedValue(undefined),
+          getMailboxLock: jest.fn().mockResolvedValue({ release }),
+          search: jest.fn().mockResolvedValue([11, 12, 13]),
+          fetch: jest.fn(async function* (uids: number[]) {
+            for (const uid of uids) {
+              yield { uid, source: `message ${uid}` };
+            }
+          }),
+          logout: jest.fn().mockResolvedValue(undefined),
+          close: jest.fn(),
+          release,
+        };
+        jest.spyOn(service as any, 'createClient').mockReturnValue(client);
+        jest
+          .spyOn(service, 'parseMessage')
+          .mockImplementation(async (source, uid) => ({ id: `message-${uid}` }) as any);
+      });
+
+      it('should record the last processed UID', async () => {
+        mockReplyDetectionService.processMailboxMessage.mockResolvedValueOnce('reply').mockResolvedValue(null);
+
+        await expect(service.pollMailbox('mailbox-1')).resolves.toEqual({ fetched: 3, replies: 1, bounces: 0, unsubscribes: 0 });
+
+        expect(mailbox.update).toHaveBeenCalledWith({ imapUidValidity: '7', imapLastUid: 13 });
+        expect(client.release).toHaveBeenCalled();
+        expect(client.logout).toHaveBeenCalled();
+      });
+
+      it('should stop before a message that failed so the next poll retries it', async () => {
+        mockReplyDetectionService.processMailboxMessage
+          .mockResolvedValueOnce(null)
+          .mockRejectedValueOnce(new Error('Database unavailable'))
+          .mockResolvedValue(null);
+
+        await service.pollMailbox('mailbox-1');
+
+        expect(mockReplyDetectionService.processMailboxMessage).toHaveBeenCalledTimes(2);
+        expect(mailbox.update).toHaveBeenCalledWith({ imapUidValidity: '7', imapLastUid: 11 });
+      });
+
+      it('should close the connection when connecting fails', async () => {
+        client.usable = false;
+        client.connect.mockRejectedValue(new Error('Connection refused'));
+
+        await expect(service.pollMailbox('mailbox-1')).rejects.toThrow('Connection refused');
+
+        expect(client.close).toHaveBeenCalled();
+        expect(client.logout).not.toHaveBeenCalled();
+        expect(mailbox.update).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('parseMessage', () => {
+    it('should map a reply to the Gmail message shape', async () => {
+      const source = [
+        'From: Lead <lead@acme.io>',
+        'To: sales@contoso.com',
+        'Subject: Re: Quick question',
+        'Message-ID: <reply-1@acme.io>',
+        'in-reply-to: <first@contoso.com>',
+        'References: <first@contoso.com>',
+        'Date: Mon, 19 Oct 2026 10:00:00 +0000',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        'Sounds good, let us talk tomorrow.',
+      ].join('\r\n');
+
+      const message = await service.parseMessage(source, 12, 'mailbox-1');
+
+      expect(message.id).toBe('reply-1@acme.io');
+      expect(message.headers).toEqual(
+        expect.arrayContaining([
+          { name: 'From', value: 'Lead <lead@acme.io>' },
+          { name: 'In-Reply-To', value: '<first@contoso.com>' },
+          { name: 'Message-ID', value: '<reply-1@acme.io>' },
+        ]),
+      );
+      expect(message.snippet).toBe('Sounds good, let us talk tomorrow.');
+      expect(message.internalDate).toBe(String(Date.parse('2026-10-19T10:00:00Z')));
+      expect(Buffer.from(message.payload.body.data, 'base64').toString('utf-8')).toContain('Sounds good');
+    });
+
+    it('should include the delivery status report of a bounce in the body', async () => {
+      const source = [
+        'From: Mail Delivery System <MAILER-DAEMON@contoso.com>',
+        'To: sales@contoso.com',
+        'Subject: Undelivered Mail Returned to Sender',
+        'Content-Type: multipart/report; report-type=delivery-status; boundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain',
+        '',
+        'Your message could not be delivered.',
+        '--b1',
+        'Content-Type: message/delivery-status',
+        '',
+        'Final-Recipient: rfc822; ghost@acme.io',
+        'Status: 5.1.1',
+        '--b1--',
+      ].join('\r\n');
+
+      const message = await service.parseMessage(source, 13, 'mailbox-1');
+      const body = Buffer.from(message.payload.body.data, 'base64').toString('utf-8');
+
+      expect(message.id).toBe('imap-mailbox-1-13');
+      expect(body).toContain('Your message could not be delivered.');
+      expect(body).toContain('ghost@acme.io');
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { buildListUnsubscribeHeaders } from 'src/common/utils/list-unsubscribe.util';
+
+describe('buildListUnsubscribeHeaders', () => {
+  const url = 'https://app.inboz.io/api/v1/tracking/unsubscribe/token';
+
+  it('should advertise the mailto target before the one-click URL', () => {
+    expect(buildListUnsubscribeHeaders({ url, mailto: 'sales@contoso.com' })).toEqual({
+      'List-Unsubscribe': `<mailto:sales@contoso.com?subject=unsubscribe>, <${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+
+  it('should advertise the one-click URL alone without a mailbox', () => {
+    expect(buildListUnsubscribeHeaders({ url })).toEqual({
+      'List-Unsubscribe': `<${url}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  createRampUp,
+  getRampUpDailyLimit,
+  getRampUpProgress,
+} from 'src/common/utils/mailbox-ramp-up.util';
+import { MailboxRampUpPreset } from 'src/resources/users/entities/gmail-oauth-token.entity';
+
+describe('mailbox ramp-up', () => {
+  const startedAt = new Date('2026-10-01T15:30:00Z');
+  const standard = createRampUp(MailboxRampUpPreset.STANDARD, startedAt);
+
+  it('should send at the plan limit without a schedule', () => {
+    expect(getRampUpDailyLimit(null, 200)).toBe(200);
+    expect(getRampUpProgress(null, 200)).toBeNull();
+  });
+
+  it('should grow the limit every UTC day up to the plan limit', () => {
+    // Start day, later the same UTC day, then 1, 2 and 10 days later
+    expect(getRampUpDailyLimit(standard, 200, new Date('2026-10-01T23:59:00Z'))).toBe(10);
+    expect(getRampUpDailyLimit(standard, 200, new Date('2026-10-02T00:00:00Z'))).toBe(11);
+    expect(getRampUpDailyLimit(standard, 200, new Date('2026-10-03T12:00:00Z'))).toBe(12);
+    expect(getRampUpDailyLimit(standard, 200, new Date('2026-10-11T12:00:00Z'))).toBe(26);
+    expect(getRampUpDailyLimit(standard, 50, new Date('2026-12-01T12:00:00Z'))).toBe(50);
+  });
+
+  it('should follow a custom curve, then the plan limit', () => {
+    const custom = {
+      preset: MailboxRampUpPreset.CUSTOM,
+      startVolume: 5,
+      dailyGrowthPercent: 0,
+      curve: [5, 15, 500],
+      startedAt: startedAt.toISOString(),
+    };
+
+    expect(getRampUpDailyLimit(custom, 100, new Date('2026-10-02T08:00:00Z'))).toBe(15);
+    expect(getRampUpDailyLimit(custom, 100, new Date('2026-10-03T08:00:00Z'))).toBe(100);
+    expect(getRampUpDailyLimit(custom, 100, new Date('2026-10-20T08:00:00Z'))).toBe(100);
+  });
+
+  it('should report the ramp day and when the plan limit is reached', () => {
+    expect(getRampUpProgress(standard, 30, new Date('2026-10-05T10:00:00Z'))).toEqual({
+      preset: MailboxRampUpPreset.STANDARD,
+      day: 5,
+      dailyLimit: 15,
+      planDailyLimit: 30,
+      completed: false,
+      // 10 * 1.1^12 = 31.4
+      completesOn: '2026-10-13',
+    });
+  });
+});
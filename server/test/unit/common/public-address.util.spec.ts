@@ -0,0 +1,79 @@
+import {
+  getLiteralAddressError,
+  getPublicUrlError,
+  isPublicAddress,
+  publicAddressLookup,
+} from 'src/common/utils/public-address.util';
+
+describe('public address util', () => {
+  describe('isPublicAddress', () => {
+    it.each(['8.8.8.8', '93.184.216.34', '2606:4700:4700::1111'])('should accept %s', (address) => {
+      expect(isPublicAddress(address)).toBe(true);
+    });
+
+    it.each([
+      '127.0.0.1',
+      '10.0.0.5',
+      '172.20.1.1',
+      '192.168.1.10',
+      '169.254.169.254',
+      '100.100.100.200',
+      '0.0.0.0',
+      '::1',
+      'fd00:ec2::254',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:a9fe:a9fe',
+      'not-an-ip',
+    ])('should refuse %s', (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+  });
+
+  describe('getLiteralAddressError', () => {
+    it('should refuse URLs on internal IP addresses', () => {
+      expect(getLiteralAddressError('http://169.254.169.254/latest/meta-data')).toMatch(/not a public address/);
+      expect(getLiteralAddressError('http://10.0.0.5:6379/')).toMatch(/not a public address/);
+      expect(getLiteralAddressError('http://[::1]:8080/')).toMatch(/not a public address/);
+    });
+
+    it('should leave host names to the DNS checks', () => {
+      expect(getLiteralAddressError('https://crm.example.com/hooks')).toBeNull();
+      expect(getLiteralAddressError('https://8.8.8.8/hooks')).toBeNull();
+    });
+  });
+
+  describe('getPublicUrlError', () => {
+    it('should accept hosts resolving to public addresses only', async () => {
+      const lookupAll = jest.fn().mockResolvedValue(['93.184.216.34', '2606:2800:220:1::1']);
+
+      await expect(getPublicUrlError('https://crm.example.com/hooks', lookupAll)).resolves.toBeNull();
+      expect(lookupAll).toHaveBeenCalledWith('crm.example.com');
+    });
+
+    it('should refuse hosts with any internal address', async () => {
+      const lookupAll = jest.fn().mockResolvedValue(['93.184.216.34', '10.0.0.5']);
+
+      await expect(getPublicUrlError('https://crm.example.com/hooks', lookupAll)).resolves.toBe(
+        'crm.example.com resolves to 10.0.0.5, which is not a public address',
+      );
+    });
+
+    it('should refuse hosts that do not resolve', async () => {
+      const lookupAll = jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+      await expect(getPublicUrlError('https://missing.example.com', lookupAll)).resolves.toBe(
+        'missing.example.com could not be resolved',
+      );
+    });
+  });
+
+  describe('publicAddressLookup', () => {
+    it('should fail connections to hosts resolving to loopback', (done) => {
+      publicAddressLookup('localhost', {}, (error) => {
+        expect(error?.code).toBe('ENONPUBLIC');
+        done();
+      });
+    });
+  });
+});
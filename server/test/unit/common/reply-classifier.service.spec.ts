@@ -0,0 +1,90 @@
+import { ReplyClassifierService } from 'src/common/services/reply-classifier.service';
+import { KeywordReplyClassifier } from 'src/common/services/keyword-reply-classifier.service';
+import { ReplyClassification } from 'src/resources/campaigns/entities/email-message.entity';
+import { extractReturnDate } from 'src/common/utils/return-date.util';
+
+describe('ReplyClassifierService', () => {
+  let service: ReplyClassifierService;
+  const receivedAt = new Date('2026-03-04T10:00:00Z'); // Wednesday
+
+  const classify = (text: string, subject = 'Re: Quick question', headers: Array<{ name: string; value: string }> = []) =>
+    service.classify({ subject, text, headers, receivedAt });
+
+  beforeEach(() => {
+    service = new ReplyClassifierService(new KeywordReplyClassifier());
+  });
+
+  it('should read out-of-office replies and their return date', async () => {
+    const result = await classify(
+      'I am out of the office with limited access to email. I will be back on March 16th.',
+      'Automatic reply: Quick question',
+      [{ name: 'Auto-Submitted', value: 'auto-replied' }],
+    );
+
+    expect(result.classification).toBe(ReplyClassification.OUT_OF_OFFICE);
+    expect(result.returnDate).toEqual(new Date('2026-03-16T00:00:00Z'));
+  });
+
+  it('should label other automatic replies from their headers', async () => {
+    const result = await classify('Thanks for your message, we will get back to you shortly.', 'Re: Quick question', [
+      { name: 'X-Autoreply', value: 'yes' },
+    ]);
+
+    expect(result.classification).toBe(ReplyClassification.AUTO_REPLY);
+  });
+
+  it('should tell not interested apart from interested', async () => {
+    await expect(classify('Thanks but we are not interested.')).resolves.toMatchObject({
+      classification: ReplyClassification.NOT_INTERESTED,
+    });
+    await expect(classify('Sounds good, can we set up a call next week?')).resolves.toMatchObject({
+      classification: ReplyClassification.INTERESTED,
+    });
+    await expect(classify("I'm not the right person, please reach out to our CTO.")).resolves.toMatchObject({
+      classification: ReplyClassification.WRONG_PERSON,
+    });
+  });
+
+  it('should ignore the quoted campaign email', async () => {
+    const result = await classify(
+      'Who is this?\n\nOn Tue, Mar 3, 2026 at 9:00 AM Jane <jane@acme.com> wrote:\n> Interested in a demo? Check our pricing.',
+    );
+
+    expect(result.classification).toBe(ReplyClassification.NEUTRAL);
+  });
+
+  it('should try registered classifiers first and fall back to keywords', async () => {
+    service.registerClassifier({ name: 'model', classify: jest.fn().mockResolvedValue(null) });
+    service.registerClassifier({
+      name: 'failing',
+      classify: jest.fn().mockRejectedValue(new Error('model unavailable')),
+    });
+
+    await expect(classify('Not interested, thanks')).resolves.toMatchObject({
+      classification: ReplyClassification.NOT_INTERESTED,
+      classifier: 'keyword',
+    });
+  });
+});
+
+describe('extractReturnDate', () => {
+  const receivedAt = new Date('2026-12-20T10:00:00Z'); // Sunday
+
+  it('should roll dates without a year into the next year', () => {
+    expect(extractReturnDate('Back on January 5', receivedAt)).toEqual(new Date('2027-01-05T00:00:00Z'));
+    expect(extractReturnDate('Out of office until 3rd of January 2027', receivedAt)).toEqual(
+      new Date('2027-01-03T00:00:00Z'),
+    );
+  });
+
+  it('should read numeric dates and weekdays', () => {
+    expect(extractReturnDate('Returning 2026-12-28.', receivedAt)).toEqual(new Date('2026-12-28T00:00:00Z'));
+    expect(extractReturnDate('Away until 28/12/2026', receivedAt)).toEqual(new Date('2026-12-28T00:00:00Z'));
+    expect(extractReturnDate("I'll be back Tuesday", receivedAt)).toEqual(new Date('2026-12-22T00:00:00Z'));
+  });
+
+  it('should return null without a usable date', () => {
+    expect(extractReturnDate('I am on vacation with no access to email.', receivedAt)).toBeNull();
+    expect(extractReturnDate('Back on March 40', receivedAt)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { ReplyDetectionService } from 'src/common/services/reply-detection.service';
+
+describe('ReplyDetectionService', () => {
+  let service: ReplyDetectionService;
+  let mockEmailMessageModel: any;
+  let mockEmailTrackingService: any;
+  let mockBounceDetectionService: any;
+
+  const unsubscribeRequest = (from: string) => ({
+    id: 'request-1@acme.io',
+    payload: {},
+    headers: [
+      { name: 'From', value: from },
+      { name: 'To', value: 'sales@contoso.com' },
+      { name: 'Subject', value: 'Unsubscribe' },
+    ],
+    snippet: '',
+    internalDate: String(Date.now()),
+  });
+
+  beforeEach(() => {
+    mockEmailMessageModel = {
+      findOne: jest.fn(),
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+    mockEmailTrackingService = {
+      handleUnsubscribe: jest.fn().mockResolvedValue(undefined),
+    };
+    mockBounceDetectionService = {
+      processBounce: jest.fn(),
+    };
+
+    service = new ReplyDetectionService(
+      {} as any,
+      mockEmailMessageModel,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      mockEmailTrackingService,
+      mockBounceDetectionService,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+      {} as any,
+    );
+  });
+
+  describe('processMailboxMessage', () => {
+    it('should unsubscribe the contact behind an email to the List-Unsubscribe mailto', async () => {
+      mockEmailMessageModel.findOne.mockResolvedValue({
+        id: 'email-1',
+        contactId: 'contact-1',
+        contact: { email: 'lead@acme.io', subscribed: true },
+      });
+
+      await expect(
+        service.processMailboxMessage(unsubscribeRequest('Lead <Lead@Acme.io>'), 'sales@contoso.com'),
+      ).resolves.toBe('unsubscribe');
+
+      expect(mockEmailMessageModel.findOne).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ sentFromEmail: 'sales@contoso.com' }),
+          include: [expect.objectContaining({ where: { email: 'lead@acme.io' }, required: true })],
+        }),
+      );
+      expect(mockEmailTrackingService.handleUnsubscribe).toHaveBeenCalledWith('email-1');
+      expect(mockBounceDetectionService.processBounce).not.toHaveBeenCalled();
+    });
+
+    it('should skip contacts that already unsubscribed', async () => {
+      mockEmailMessageModel.findOne.mockResolvedValue({
+        id: 'email-1',
+        contactId: 'contact-1',
+        contact: { email: 'lead@acme.io', subscribed: false },
+      });
+
+      await expect(
+        service.processMailboxMessage(unsubscribeRequest('lead@acme.io'), 'sales@contoso.com'),
+      ).resolves.toBeNull();
+
+      expect(mockEmailTrackingService.handleUnsubscribe).not.toHaveBeenCalled();
+    });
+
+    it('should ignore requests from addresses the mailbox never emailed', async () => {
+      mockEmailMessageModel.findOne.mockResolvedValue(null);
+
+      await expect(
+        service.processMailboxMessage(unsubscribeRequest('stranger@acme.io'), 'sales@contoso.com'),
+      ).resolves.toBeNull();
+
+      expect(mockEmailTrackingService.handleUnsubscribe).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  getNextSendingSlot,
+  getSendingWindowCapacity,
+  shiftToTimezone,
+  validateSendingWindow,
+} from 'src/common/utils/sending-window.util';
+import { SendingWindow } from 'src/resources/campaigns/entities/campaign.entity';
+
+describe('sending-window.util', () => {
+  // Mon-Fri 09:00-17:00
+  const businessHours: SendingWindow = {
+    days: [1, 2, 3, 4, 5],
+    startTime: '09:00',
+    endTime: '17:00',
+  };
+
+  describe('validateSendingWindow', () => {
+    it('should accept a business hours window', () => {
+      expect(() => validateSendingWindow({ ...businessHours, excludedDates: ['2026-12-25'] })).not.toThrow();
+    });
+
+    it('should reject windows that never open', () => {
+      expect(() => validateSendingWindow({ ...businessHours, days: [] })).toThrow(BadRequestException);
+      expect(() => validateSendingWindow({ ...businessHours, startTime: '17:00', endTime: '09:00' })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject invalid excluded dates', () => {
+      expect(() => validateSendingWindow({ ...businessHours, excludedDates: ['2026-02-30'] })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('getNextSendingSlot', () => {
+    it('should keep times inside the window', () => {
+      // Tuesday 10:30 UTC
+      const date = new Date('2026-10-20T10:30:00Z');
+      expect(getNextSendingSlot(date, businessHours, 'UTC')).toEqual(date);
+    });
+
+    it('should move early times to the window opening', () => {
+      expect(getNextSendingSlot(new Date('2026-10-20T06:00:00Z'), businessHours, 'UTC')).toEqual(
+        new Date('2026-10-20T09:00:00Z'),
+      );
+    });
+
+    it('should roll Friday evening to Monday morning', () => {
+      expect(getNextSendingSlot(new Date('2026-10-23T17:00:00Z'), businessHours, 'UTC')).toEqual(
+        new Date('2026-10-26T09:00:00Z'),
+      );
+    });
+
+    it('should skip holidays', () => {
+      const window = { ...businessHours, excludedDates: ['2026-10-26'] };
+      expect(getNextSendingSlot(new Date('2026-10-23T18:00:00Z'), window, 'UTC')).toEqual(
+        new Date('2026-10-27T09:00:00Z'),
+      );
+    });
+
+    it('should read window hours in the given timezone', () => {
+      // 12:00 UTC is 08:00 in New York (EDT), the window opens at 13:00 UTC
+      expect(getNextSendingSlot(new Date('2026-10-20T12:00:00Z'), businessHours, 'America/New_York')).toEqual(
+        new Date('2026-10-20T13:00:00Z'),
+      );
+    });
+
+    it('should leave times unchanged without a window', () => {
+      const date = new Date('2026-10-24T03:00:00Z');
+      expect(getNextSendingSlot(date, null)).toBe(date);
+    });
+  });
+
+  describe('getSendingWindowCapacity', () => {
+    beforeEach(() => {
+      // Tuesday 2026-10-20 12:00 UTC
+      jest.useFakeTimers().setSystemTime(new Date('2026-10-20T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fit a full window on future open days', () => {
+      expect(getSendingWindowCapacity(1, businessHours, 'UTC', 10)).toBe(48);
+    });
+
+    it('should only count the rest of today', () => {
+      expect(getSendingWindowCapacity(0, businessHours, 'UTC', 10, new Date())).toBe(30);
+    });
+
+    it('should have no capacity on closed days', () => {
+      // Day 4 is Saturday
+      expect(getSendingWindowCapacity(4, businessHours, 'UTC', 10)).toBe(0);
+    });
+  });
+
+  describe('shiftToTimezone', () => {
+    it('should keep the local wall-clock time', () => {
+      // 09:30 in London (BST) becomes 09:30 in New York (EDT)
+      expect(shiftToTimezone(new Date('2026-10-20T08:30:00Z'), 'Europe/London', 'America/New_York')).toEqual(
+        new Date('2026-10-20T13:30:00Z'),
+      );
+    });
+
+    it('should ignore unknown timezones', () => {
+      const date = new Date('2026-10-20T08:30:00Z');
+      expect(shiftToTimezone(date, 'UTC', 'Mars/Olympus')).toBe(date);
+    });
+  });
+});
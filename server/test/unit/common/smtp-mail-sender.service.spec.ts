@@ -0,0 +1,127 @@
+import * as nodemailer from 'nodemailer';
+import { SmtpMailSenderService } from 'src/common/services/smtp-mail-sender.service';
+import { MailboxProvider } from 'src/resources/users/entities/gmail-oauth-token.entity';
+
+jest.mock('nodemailer');
+
+describe('SmtpMailSenderService', () => {
+  let service: SmtpMailSenderService;
+  let mockCryptoUtilityService: any;
+  let mockTransporter: any;
+
+  const mailbox = {
+    id: 'mailbox-1',
+    email: 'sales@contoso.com',
+    provider: MailboxProvider.SMTP,
+    smtpHost: 'smtp.office365.com',
+    smtpPort: 587,
+    smtpSecure: false,
+    mailboxUsername: null,
+    mailboxPasswordEncrypted: 'encrypted',
+  } as any;
+
+  beforeEach(() => {
+    mockTransporter = {
+      sendMail: jest.fn().mockResolvedValue({ response: '250 OK' }),
+      verify: jest.fn().mockResolvedValue(true),
+      close: jest.fn(),
+    };
+    (nodemailer.createTransport as jest.Mock).mockReturnValue(mockTransporter);
+
+    mockCryptoUtilityService = {
+      decrypt: jest.fn().mockResolvedValue('secret'),
+    };
+    service = new SmtpMailSenderService(mockCryptoUtilityService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('send', () => {
+    it('should log in with the mailbox email when no username is set', async () => {
+      await service.send(mailbox, { to: 'lead@acme.io', from: mailbox.email, subject: 'Hi', text: 'Hello' });
+
+      expect(nodemailer.createTransport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          host: 'smtp.office365.com',
+          port: 587,
+          secure: false,
+          auth: { user: 'sales@contoso.com', pass: 'secret' },
+        }),
+      );
+      expect(mockTransporter.close).toHaveBeenCalled();
+    });
+
+    it('should use the generated Message-ID as message and thread ID of a new thread', async () => {
+      const result = await service.send(mailbox, {
+        to: 'lead@acme.io',
+        from: mailbox.email,
+        fromName: 'Sales',
+        subject: 'Hi',
+        html: '<p>Hello</p>',
+      });
+
+      const sent = mockTransporter.sendMail.mock.calls[0][0];
+      expect(result.id).toMatch(/@contoso\.com$/);
+      expect(result.threadId).toBe(result.id);
+      expect(sent.messageId).toBe(`<${result.id}>`);
+      expect(sent.from).toEqual({ name: 'Sales', address: 'sales@contoso.com' });
+    });
+
+    it('should keep the thread of the email being replied to', async () => {
+      const result = await service.send(mailbox, {
+        to: 'lead@acme.io',
+        from: mailbox.email,
+        subject: 'Hi',
+        text: 'Following up',
+        threadHeaders: { inReplyTo: '<first@contoso.com>', references: '<first@contoso.com>', threadId: 'first@contoso.com' },
+      });
+
+      const sent = mockTransporter.sendMail.mock.calls[0][0];
+      expect(result.threadId).toBe('first@contoso.com');
+      expect(sent.inReplyTo).toBe('<first@contoso.com>');
+      expect(sent.references).toBe('<first@contoso.com>');
+    });
+
+    it('should add one-click List-Unsubscribe headers', async () => {
+      await service.send(mailbox, {
+        to: 'lead@acme.io',
+        from: mailbox.email,
+        subject: 'Hi',
+        text: 'Hello',
+        listUnsubscribe: { url: 'https://app.inboz.io/api/v1/tracking/unsubscribe/token', mailto: mailbox.email },
+      });
+
+      expect(mockTransporter.sendMail.mock.calls[0][0].headers).toEqual({
+        'List-Unsubscribe':
+          '<mailto:sales@contoso.com?subject=unsubscribe>, <https://app.inboz.io/api/v1/tracking/unsubscribe/token>',
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      });
+    });
+
+    it('should refuse mailboxes with incomplete SMTP settings', async () => {
+      await expect(
+        service.send({ ...mailbox, smtpHost: null }, { to: 'lead@acme.io', from: mailbox.email, subject: 'Hi', text: 'Hello' }),
+      ).rejects.toThrow(/incomplete/);
+      expect(mockTransporter.sendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('isTemporaryError', () => {
+    it('should retry 4xx responses and connection failures only', () => {
+      expect(service.isTemporaryError({ responseCode: 421 })).toBe(true);
+      expect(service.isTemporaryError({ code: 'ETIMEDOUT' })).toBe(true);
+      expect(service.isTemporaryError({ responseCode: 550 })).toBe(false);
+      expect(service.isTemporaryError({ code: 'EAUTH' })).toBe(false);
+    });
+  });
+
+  describe('getErrorCode', () => {
+    it('should prefix SMTP response codes', () => {
+      expect(service.getErrorCode({ responseCode: 550, code: 'EENVELOPE' })).toBe('SMTP_550');
+      expect(service.getErrorCode({ code: 'EAUTH' })).toBe('EAUTH');
+      expect(service.getErrorCode({})).toBe('UNKNOWN_ERROR');
+    });
+  });
+});
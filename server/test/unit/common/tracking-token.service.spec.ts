@@ -0,0 +1,64 @@
+import { ConfigService } from '@nestjs/config';
+import { TrackingTokenService } from 'src/common/services/tracking-token.service';
+
+describe('TrackingTokenService', () => {
+  let service: TrackingTokenService;
+  const config: Record<string, string | undefined> = {};
+
+  beforeEach(() => {
+    config.TRACKING_SECRET = 'tracking-secret';
+    config.TRACKING_TOKEN_TTL_DAYS = undefined;
+    service = new TrackingTokenService({ get: (key: string) => config[key] } as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should verify its own tokens', () => {
+    const token = service.sign('message-1', 'click', 'abc123');
+
+    expect(service.verify(token, 'click')).toEqual(
+      expect.objectContaining({ emailMessageId: 'message-1', purpose: 'click', linkId: 'abc123' }),
+    );
+  });
+
+  it('should carry the destination of test send clicks', () => {
+    const token = service.sign('test-1', 'click', 'abc123', 'https://example.com/pricing');
+
+    expect(service.verify(token, 'click')).toEqual(
+      expect.objectContaining({ linkId: 'abc123', url: 'https://example.com/pricing' }),
+    );
+  });
+
+  it('should reject tampered payloads and signatures', () => {
+    const token = service.sign('message-1', 'unsubscribe');
+    const [payload, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url').toString()), m: 'message-2' }),
+    ).toString('base64url');
+
+    expect(service.verify(`${forged}.${signature}`, 'unsubscribe')).toBeNull();
+    expect(service.verify(`${payload}.${signature.slice(1)}x`, 'unsubscribe')).toBeNull();
+    expect(service.verify('message-1', 'unsubscribe')).toBeNull();
+  });
+
+  it('should reject tokens signed with another secret or for another purpose', () => {
+    const token = service.sign('message-1', 'open');
+
+    expect(service.verify(token, 'unsubscribe')).toBeNull();
+    config.TRACKING_SECRET = 'rotated-secret';
+    expect(service.verify(token, 'open')).toBeNull();
+  });
+
+  it('should reject expired tokens', () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    config.TRACKING_TOKEN_TTL_DAYS = '30';
+    const token = service.sign('message-1', 'open');
+
+    jest.setSystemTime(new Date('2026-01-30T00:00:00Z'));
+    expect(service.verify(token, 'open')).not.toBeNull();
+    jest.setSystemTime(new Date('2026-02-01T00:00:00Z'));
+    expect(service.verify(token, 'open')).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { HONEYPOT_LINK_ID, classifyTrackingTraffic } from 'src/common/utils/tracking-traffic.util';
+import { TrackingTrafficType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
+
+describe('classifyTrackingTraffic', () => {
+  const sentAt = new Date('2026-10-19T09:00:00Z');
+  const chrome =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36';
+  const minutesLater = (minutes: number) => new Date(sentAt.getTime() + minutes * 60 * 1000);
+
+  it('should treat a browser opening or clicking later as human', () => {
+    expect(
+      classifyTrackingTraffic({ eventType: 'OPENED', userAgent: chrome, ipAddress: '203.0.113.7', sentAt, occurredAt: minutesLater(30) }),
+    ).toEqual({ type: TrackingTrafficType.HUMAN, reason: null });
+    expect(
+      classifyTrackingTraffic({ eventType: 'CLICKED', userAgent: chrome, ipAddress: '203.0.113.7', sentAt, occurredAt: minutesLater(31) }).type,
+    ).toBe(TrackingTrafficType.HUMAN);
+  });
+
+  it('should recognize Apple Mail Privacy Protection and image proxies', () => {
+    expect(
+      classifyTrackingTraffic({ eventType: 'OPENED', userAgent: 'Mozilla/5.0', ipAddress: '::ffff:17.58.4.2', sentAt, occurredAt: minutesLater(2) }).type,
+    ).toBe(TrackingTrafficType.MACHINE_OPEN);
+    expect(
+      classifyTrackingTraffic({
+        eventType: 'OPENED',
+        userAgent: 'Mozilla/5.0 (Windows NT 5.1; rv:11.0) Gecko Firefox/11.0 (via ggpht.com GoogleImageProxy)',
+        ipAddress: '66.249.84.1',
+        sentAt,
+        occurredAt: minutesLater(10),
+      }).type,
+    ).toBe(TrackingTrafficType.PROXY);
+  });
+
+  it('should flag scanners by user agent, timing and the honeypot link', () => {
+    expect(
+      classifyTrackingTraffic({ eventType: 'CLICKED', userAgent: 'python-requests/2.31', sentAt, occurredAt: minutesLater(60) }).type,
+    ).toBe(TrackingTrafficType.SCANNER);
+    expect(
+      classifyTrackingTraffic({ eventType: 'CLICKED', userAgent: chrome, sentAt, occurredAt: new Date(sentAt.getTime() + 3000) }),
+    ).toEqual({ type: TrackingTrafficType.SCANNER, reason: 'Clicked 3s after sending' });
+    expect(
+      classifyTrackingTraffic({ eventType: 'CLICKED', userAgent: chrome, sentAt, occurredAt: minutesLater(60), linkId: HONEYPOT_LINK_ID }).type,
+    ).toBe(TrackingTrafficType.SCANNER);
+    expect(
+      classifyTrackingTraffic({ eventType: 'CLICKED', userAgent: chrome, sentAt, occurredAt: minutesLater(60), honeypotClickedFromIp: true }).type,
+    ).toBe(TrackingTrafficType.SCANNER);
+  });
+});
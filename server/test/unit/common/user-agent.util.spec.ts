@@ -0,0 +1,30 @@
+import { parseUserAgent } from 'src/common/utils/user-agent.util';
+import { DeviceType } from 'src/resources/campaigns/entities/email-tracking-event.entity';
+
+describe('parseUserAgent', () => {
+  it('should recognize desktop and mobile email clients', () => {
+    expect(
+      parseUserAgent('Mozilla/4.0 (compatible; ms-office; MSOffice 16; Microsoft Outlook 16.0.17928; Windows NT 10.0)'),
+    ).toEqual({ deviceType: DeviceType.DESKTOP, emailClient: 'Outlook' });
+    expect(
+      parseUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148'),
+    ).toEqual({ deviceType: DeviceType.MOBILE, emailClient: 'Apple Mail' });
+    expect(
+      parseUserAgent('Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 (KHTML, like Gecko) SamsungEmail/6.1 Chrome/126.0 Safari/537.36'),
+    ).toEqual({ deviceType: DeviceType.TABLET, emailClient: 'Samsung Email' });
+  });
+
+  it('should report webmail image proxies and browsers', () => {
+    expect(
+      parseUserAgent('Mozilla/5.0 (Windows NT 5.1; rv:11.0) Gecko Firefox/11.0 (via ggpht.com GoogleImageProxy)').emailClient,
+    ).toBe('Gmail');
+    expect(
+      parseUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36 Edg/129.0'),
+    ).toEqual({ deviceType: DeviceType.DESKTOP, emailClient: 'Edge' });
+  });
+
+  it('should return unknown without a user agent', () => {
+    expect(parseUserAgent(undefined)).toEqual({ deviceType: DeviceType.UNKNOWN, emailClient: null });
+    expect(parseUserAgent('curl/8.4.0')).toEqual({ deviceType: DeviceType.UNKNOWN, emailClient: null });
+  });
+});
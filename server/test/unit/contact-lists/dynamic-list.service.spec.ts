@@ -0,0 +1,161 @@
+import { BadRequestException } from '@nestjs/common';
+import { Op } from 'sequelize';
+import { DynamicListService } from 'src/resources/contact-lists/services/dynamic-list.service';
+import { FilterConditions } from 'src/resources/contact-lists/dto/filter-conditions.interface';
+
+describe('DynamicListService', () => {
+  let service: DynamicListService;
+  let mockContactListModel: any;
+  let mockMemberModel: any;
+  let mockContactModel: any;
+
+  beforeEach(() => {
+    mockContactListModel = {
+      findByPk: jest.fn(),
+      update: jest.fn().mockResolvedValue([1]),
+    };
+    mockMemberModel = {
+      findAll: jest.fn(),
+      destroy: jest.fn().mockResolvedValue(0),
+      bulkCreate: jest.fn().mockResolvedValue([]),
+    };
+    mockContactModel = {
+      count: jest.fn(),
+      findAll: jest.fn(),
+    };
+    service = new DynamicListService(mockContactListModel, mockMemberModel, mockContactModel);
+  });
+
+  describe('validateFilterConditions', () => {
+    it('should accept nested AND/OR groups with custom fields and date operators', () => {
+      const conditions: FilterConditions = {
+        operator: 'AND',
+        conditions: [
+          { field: 'lastEmailOpenedAt', operator: 'inLastDays', value: 30 },
+          {
+            operator: 'OR',
+            conditions: [
+              { field: 'customFields.plan_tier', operator: 'equals', value: 'gold' },
+              { field: 'company', operator: 'contains', value: 'Acme' },
+            ],
+          },
+        ],
+      };
+
+      expect(() => service.validateFilterConditions(conditions)).not.toThrow();
+    });
+
+    it('should reject fields that are not whitelisted', () => {
+      expect(() =>
+        service.validateFilterConditions({
+          conditions: [{ field: 'organizationId', operator: 'equals', value: 'x' }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject unsafe custom field keys', () => {
+      expect(() =>
+        service.validateFilterConditions({
+          conditions: [{ field: 'customFields.a") OR 1=1 --', operator: 'equals', value: 'x' }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject date operators on non-date fields', () => {
+      expect(() =>
+        service.validateFilterConditions({
+          conditions: [{ field: 'company', operator: 'inLastDays', value: 7 }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should reject empty groups', () => {
+      expect(() =>
+        service.validateFilterConditions({
+          conditions: [{ operator: 'OR', conditions: [] }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('buildContactWhere', () => {
+    it('should scope the conditions to the organization', () => {
+      const where: any = service.buildContactWhere(
+        { conditions: [{ field: 'company', operator: 'equals', value: 'Acme' }] },
+        'org-1',
+      );
+
+      expect(where[Op.and][0]).toEqual({ organizationId: 'org-1' });
+      expect(where[Op.and][1][Op.and][0]).toEqual({ company: { [Op.eq]: 'Acme' } });
+    });
+
+    it('should translate inLastDays relative to now', () => {
+      const now = new Date('2026-01-31T00:00:00.000Z');
+      const where: any = service.buildContactWhere(
+        { conditions: [{ field: 'lastEmailOpenedAt', operator: 'inLastDays', value: 30 }] },
+        'org-1',
+        now,
+      );
+
+      expect(where[Op.and][1][Op.and][0]).toEqual({
+        lastEmailOpenedAt: { [Op.gte]: new Date('2026-01-01T00:00:00.000Z') },
+      });
+    });
+
+    it('should use OR for OR groups', () => {
+      const where: any = service.buildContactWhere(
+        {
+          operator: 'OR',
+          conditions: [
+            { field: 'country', operator: 'in', value: ['US', 'CA'] },
+            { field: 'numberOfClicks', operator: 'greaterThan', value: 2 },
+          ],
+        },
+        'org-1',
+      );
+
+      expect(where[Op.and][1][Op.or]).toEqual([
+        { country: { [Op.in]: ['US', 'CA'] } },
+        { numberOfClicks: { [Op.gt]: 2 } },
+      ]);
+    });
+  });
+
+  describe('refreshMembership', () => {
+    it('should skip static lists', async () => {
+      mockContactListModel.findByPk.mockResolvedValue({ id: 'list-1', isDynamic: false });
+
+      const result = await service.refreshMembership('list-1');
+
+      expect(result).toBeNull();
+      expect(mockContactModel.findAll).not.toHaveBeenCalled();
+    });
+
+    it('should add new matches and remove contacts that no longer match', async () => {
+      mockContactListModel.findByPk.mockResolvedValue({
+        id: 'list-1',
+        organizationId: 'org-1',
+        isDynamic: true,
+        filterConditions: { conditions: [{ field: 'company', operator: 'equals', value: 'Acme' }] },
+      });
+      mockContactModel.findAll.mockResolvedValue([{ id: 'c1' }, { id: 'c2' }]);
+      mockMemberModel.findAll.mockResolvedValue([{ contactId: 'c2' }, { contactId: 'c3' }]);
+
+      const result = await service.refreshMembership('list-1');
+
+      expect(result).toEqual({ added: 1, removed: 1, total: 2 });
+      expect(mockMemberModel.destroy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { contactListId: 'list-1', contactId: { [Op.in]: ['c3'] } },
+        }),
+      );
+      expect(mockMemberModel.bulkCreate.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ contactListId: 'list-1', contactId: 'c1' }),
+      ]);
+      expect(mockContactListModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({ contactCount: 2 }),
+        expect.anything(),
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Op } from 'sequelize';
+import { ContactDuplicatesService } from 'src/resources/contacts/contact-duplicates.service';
+
+describe('ContactDuplicatesService', () => {
+  let service: ContactDuplicatesService;
+  let mockContactModel: any;
+  let mockContactListMemberModel: any;
+  let mockContactFieldChangeModel: any;
+  let mockEmailMessageModel: any;
+  let mockInboxThreadModel: any;
+  let mockContactListsService: any;
+  let mockAuditLogsService: any;
+  let mockUserContextService: any;
+  let mockTransactionManager: any;
+  const transaction = { LOCK: { UPDATE: 'UPDATE' } };
+
+  const contactRecord = (data: Record<string, any>) => ({
+    ...data,
+    get: jest.fn(() => data),
+    update: jest.fn().mockResolvedValue(undefined),
+    destroy: jest.fn().mockResolvedValue(undefined),
+  });
+
+  let survivor: any;
+  let duplicate: any;
+
+  beforeEach(() => {
+    survivor = contactRecord({
+      id: 'contact-1',
+      email: 'john.smith@acme.com',
+      firstName: 'John',
+      lastName: 'Smith',
+      company: 'Acme',
+      status: 'ACTIVE',
+      subscribed: true,
+      customFields: { plan: 'pro' },
+      createdAt: '2026-01-01',
+    });
+    duplicate = contactRecord({
+      id: 'contact-2',
+      email: 'john@acme.com',
+      firstName: 'John',
+      jobTitle: 'CTO',
+      status: 'ACTIVE',
+      subscribed: true,
+      createdAt: '2026-03-01',
+    });
+
+    mockContactModel = { findAll: jest.fn().mockResolvedValue([duplicate, survivor]) };
+    mockContactListMemberModel = {
+      findAll: jest.fn().mockImplementation(({ where }) =>
+        Promise.resolve(
+          where.contactId === 'contact-1'
+            ? [{ contactListId: 'list-1' }]
+            : [
+                { id: 'member-1', contactListId: 'list-1' },
+                { id: 'member-2', contactListId: 'list-2' },
+              ],
+        ),
+      ),
+      destroy: jest.fn().mockResolvedValue(1),
+      update: jest.fn().mockResolvedValue([1]),
+    };
+    mockContactFieldChangeModel = {
+      update: jest.fn().mockResolvedValue([0]),
+      bulkCreate: jest.fn().mockResolvedValue([]),
+    };
+    mockEmailMessageModel = { update: jest.fn().mockResolvedValue([3]) };
+    mockInboxThreadModel = { update: jest.fn().mockResolvedValue([1]) };
+    mockContactListsService = { updateContactCounts: jest.fn().mockResolvedValue(undefined) };
+    mockAuditLogsService = { createAuditLog: jest.fn().mockResolvedValue({}) };
+    mockUserContextService = {
+      getCurrentUser: jest.fn().mockReturnValue({ id: 'user-1', type: 'user', organizationId: 'org-1' }),
+      getCurrentUserId: jest.fn().mockReturnValue('user-1'),
+    };
+    mockTransactionManager = { execute: jest.fn((operation) => operation(transaction)) };
+
+    service = new ContactDuplicatesService(
+      mockContactModel,
+      mockContactListMemberModel,
+      mockContactFieldChangeModel,
+      mockEmailMessageModel,
+      mockInboxThreadModel,
+      mockContactListsService,
+      mockAuditLogsService,
+      mockUserContextService,
+      mockTransactionManager,
+    );
+  });
+
+  describe('merge', () => {
+    it('should merge the less complete contact into the other and re-point its records', async () => {
+      const result = await service.merge({ contactIds: ['contact-2', 'contact-1'] });
+
+      expect(result).toEqual({
+        survivorId: 'contact-1',
+        mergedContactId: 'contact-2',
+        changedFields: ['jobTitle'],
+        listMembershipsMoved: 1,
+        listMembershipsRemoved: 1,
+        emailMessagesMoved: 3,
+        inboxThreadsMoved: 1,
+      });
+      expect(mockContactModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: ['contact-2', 'contact-1'], organizationId: 'org-1' } }),
+      );
+      expect(survivor.update).toHaveBeenCalledWith({ jobTitle: 'CTO' }, { transaction });
+      expect(mockContactFieldChangeModel.bulkCreate).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({
+            contactId: 'contact-1',
+            field: 'jobTitle',
+            newValue: 'CTO',
+            source: 'MERGE',
+            sourceId: 'contact-2',
+          }),
+        ],
+        { transaction },
+      );
+      expect(mockContactListMemberModel.destroy).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { [Op.in]: ['member-1'] } } }),
+      );
+      expect(mockContactListsService.updateContactCounts).toHaveBeenCalledWith(['list-1'], transaction);
+      expect(mockContactListMemberModel.update).toHaveBeenCalledWith(
+        { contactId: 'contact-1' },
+        expect.objectContaining({ where: { id: { [Op.in]: ['member-2'] } } }),
+      );
+      expect(mockEmailMessageModel.update).toHaveBeenCalledWith(
+        { contactId: 'contact-1' },
+        { where: { contactId: 'contact-2' }, transaction },
+      );
+      expect(duplicate.destroy).toHaveBeenCalledWith({ transaction });
+      expect(survivor.destroy).not.toHaveBeenCalled();
+      expect(mockAuditLogsService.createAuditLog).toHaveBeenCalledWith(
+        expect.objectContaining({
+          organizationId: 'org-1',
+          performedByUserId: 'user-1',
+          module: 'CONTACTS',
+          recordId: 'contact-1',
+          description: 'Merged contact john@acme.com into john.smith@acme.com',
+        }),
+      );
+    });
+
+    it('should keep the requested survivor', async () => {
+      const result = await service.merge({ contactIds: ['contact-1', 'contact-2'], survivorId: 'contact-2' });
+
+      expect(result.survivorId).toBe('contact-2');
+      expect(survivor.destroy).toHaveBeenCalled();
+    });
+
+    it('should reject merging a contact with itself', async () => {
+      await expect(service.merge({ contactIds: ['contact-1', 'contact-1'] })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a survivor that is not one of the contacts', async () => {
+      await expect(
+        service.merge({ contactIds: ['contact-1', 'contact-2'], survivorId: 'contact-3' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should fail when a contact is not in the organization', async () => {
+      mockContactModel.findAll.mockResolvedValue([survivor]);
+
+      await expect(service.merge({ contactIds: ['contact-1', 'contact-2'] })).rejects.toThrow(NotFoundException);
+      expect(mockAuditLogsService.createAuditLog).not.toHaveBeenCalled();
+    });
+  });
+});
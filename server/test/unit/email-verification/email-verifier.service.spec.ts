@@ -0,0 +1,124 @@
+import { EmailVerifierService } from 'src/resources/email-verification/services/email-verifier.service';
+import { EmailVerificationSubStatus } from 'src/resources/email-verification/dto/email-verification.interface';
+import { EmailVerificationStatus } from 'src/resources/contacts/entities/contact.entity';
+
+const dnsError = (code: string) => Object.assign(new Error(`query ${code}`), { code });
+
+describe('EmailVerifierService', () => {
+  let service: EmailVerifierService;
+  let mockContactModel: any;
+  let mockResolver: any;
+  let config: Record<string, string>;
+
+  /** DNS zone of the local stand-in: domain -> records, or an error code */
+  const zone: Record<string, { mx?: any[] | string; a?: string[] | string; aaaa?: string[] | string }> = {
+    'acme.com': { mx: [{ exchange: 'mx2.acme.com', priority: 20 }, { exchange: 'mx1.acme.com', priority: 10 }] },
+    'a-only.com': { mx: 'ENODATA', a: ['192.0.2.10'], aaaa: 'ENODATA' },
+    'null-mx.com': { mx: [{ exchange: '', priority: 0 }] },
+    'parked.com': { mx: 'ENODATA', a: 'ENODATA', aaaa: 'ENODATA' },
+    'flaky.com': { mx: 'ETIMEOUT' },
+  };
+
+  const lookup = (domain: string, type: 'mx' | 'a' | 'aaaa') => {
+    const records = zone[domain]?.[type];
+    if (records === undefined) {
+      return Promise.reject(dnsError('ENOTFOUND'));
+    }
+    return typeof records === 'string' ? Promise.reject(dnsError(records)) : Promise.resolve(records);
+  };
+
+  beforeEach(() => {
+    config = {
+      EMAIL_VERIFICATION_DNS_SERVERS: '127.0.0.1:5353',
+      EMAIL_VERIFICATION_DISPOSABLE_DOMAINS: 'Burner.test',
+    };
+    mockContactModel = {
+      findAll: jest.fn(),
+      update: jest.fn().mockResolvedValue([1]),
+    };
+    const mockConfigService = { get: jest.fn((key: string) => config[key]) };
+    service = new EmailVerifierService(mockContactModel, mockConfigService as any);
+
+    mockResolver = {
+      resolveMx: jest.fn((domain: string) => lookup(domain, 'mx')),
+      resolve4: jest.fn((domain: string) => lookup(domain, 'a')),
+      resolve6: jest.fn((domain: string) => lookup(domain, 'aaaa')),
+    };
+    (service as any).resolver = mockResolver;
+  });
+
+  it('should point the resolver at the configured servers', () => {
+    const resolver = new EmailVerifierService(mockContactModel, { get: (key: string) => config[key] } as any)[
+      'resolver'
+    ];
+    expect(resolver.getServers()).toEqual(['127.0.0.1:5353']);
+  });
+
+  describe('verify', () => {
+    it.each([
+      ['jane@acme.com', EmailVerificationStatus.VERIFIED, EmailVerificationSubStatus.DELIVERABLE],
+      ['jane@a-only.com', EmailVerificationStatus.VERIFIED, EmailVerificationSubStatus.DELIVERABLE],
+      ['jane..doe@acme.com', EmailVerificationStatus.FAILED, EmailVerificationSubStatus.INVALID_SYNTAX],
+      ['jane@null-mx.com', EmailVerificationStatus.FAILED, EmailVerificationSubStatus.NO_MAIL_SERVER],
+      ['jane@parked.com', EmailVerificationStatus.FAILED, EmailVerificationSubStatus.NO_MAIL_SERVER],
+      ['jane@missing.com', EmailVerificationStatus.FAILED, EmailVerificationSubStatus.NO_MAIL_SERVER],
+      ['jane@yopmail.com', EmailVerificationStatus.RISKY, EmailVerificationSubStatus.DISPOSABLE_DOMAIN],
+      ['jane@burner.test', EmailVerificationStatus.RISKY, EmailVerificationSubStatus.DISPOSABLE_DOMAIN],
+      ['sales@acme.com', EmailVerificationStatus.RISKY, EmailVerificationSubStatus.ROLE_ACCOUNT],
+      ['jane@flaky.com', EmailVerificationStatus.UNVERIFIED, EmailVerificationSubStatus.DNS_UNAVAILABLE],
+    ])('should classify %s as %s (%s)', async (email, status, subStatus) => {
+      await expect(service.verify(email)).resolves.toEqual({ status, subStatus });
+    });
+
+    it('should flag catch-all domains when the probe accepts a random address', async () => {
+      (service as any).catchAllProbeEnabled = true;
+      const probe = jest.spyOn(service as any, 'probeCatchAll').mockResolvedValue(true);
+
+      await expect(service.verify('jane@acme.com')).resolves.toEqual({
+        status: EmailVerificationStatus.RISKY,
+        subStatus: EmailVerificationSubStatus.CATCH_ALL,
+      });
+      expect(probe).toHaveBeenCalledWith('mx1.acme.com', 'acme.com');
+    });
+
+    it('should not probe without opting in', async () => {
+      const probe = jest.spyOn(service as any, 'probeCatchAll');
+
+      await service.verify('jane@acme.com');
+
+      expect(probe).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyContacts', () => {
+    it('should look each domain up once and store the outcome per status', async () => {
+      mockContactModel.findAll.mockResolvedValue([
+        { id: 'contact-1', email: 'jane@acme.com' },
+        { id: 'contact-2', email: 'john@acme.com' },
+        { id: 'contact-3', email: 'info@acme.com' },
+        { id: 'contact-4', email: 'not-an-email' },
+      ]);
+
+      const counts = await service.verifyContacts('org-1', ['contact-1', 'contact-2', 'contact-3', 'contact-4']);
+
+      expect(counts).toEqual({
+        [EmailVerificationStatus.VERIFIED]: 2,
+        [EmailVerificationStatus.RISKY]: 1,
+        [EmailVerificationStatus.FAILED]: 1,
+      });
+      expect(mockResolver.resolveMx).toHaveBeenCalledTimes(1);
+      expect(mockContactModel.findAll).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: ['contact-1', 'contact-2', 'contact-3', 'contact-4'], organizationId: 'org-1' } }),
+      );
+      expect(mockContactModel.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          emailVerificationStatus: EmailVerificationStatus.VERIFIED,
+          emailVerificationSubStatus: EmailVerificationSubStatus.DELIVERABLE,
+          lastVerifiedAt: expect.any(Date),
+        }),
+        { where: { id: ['contact-1', 'contact-2'], organizationId: 'org-1' } },
+      );
+      expect(mockContactModel.update).toHaveBeenCalledTimes(3);
+    });
+  });
+});
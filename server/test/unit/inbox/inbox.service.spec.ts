@@ -0,0 +1,119 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { InboxService } from 'src/resources/inbox/inbox.service';
+import { InboxMessageDirection } from 'src/resources/inbox/entities/inbox-message.entity';
+import { GmailTokenStatus } from 'src/resources/users/entities/gmail-oauth-token.entity';
+import { UserRole } from 'src/common/enums/roles.enum';
+
+describe('InboxService', () => {
+  let service: InboxService;
+  let mockRepository: any;
+  let mockInboxThreadModel: any;
+  let mockInboxMessageModel: any;
+  let mockGmailTokenModel: any;
+  let mockUserModel: any;
+  let mockUserContextService: any;
+  let mockProvider: any;
+  let mockConversationStoreService: any;
+  let thread: any;
+
+  const mailbox = { id: 'mailbox-1', userId: 'user-1', email: 'sales@contoso.com', status: GmailTokenStatus.ACTIVE };
+
+  beforeEach(() => {
+    thread = {
+      id: 'inbox-thread-1',
+      mailboxId: 'mailbox-1',
+      mailboxEmail: 'sales@contoso.com',
+      gmailThreadId: 'thread-1',
+      subject: 'Quick question',
+      contact: { email: 'jane@acme.io' },
+      update: jest.fn(),
+      get: jest.fn().mockReturnValue({ id: 'inbox-thread-1' }),
+    };
+    mockRepository = {
+      findById: jest.fn().mockResolvedValue({ id: 'inbox-thread-1' }),
+    };
+    mockInboxThreadModel = {
+      findByPk: jest.fn().mockResolvedValue(thread),
+    };
+    mockInboxMessageModel = {
+      findAll: jest.fn().mockResolvedValue([
+        { direction: InboxMessageDirection.OUTBOUND, messageIdHeader: 'first@contoso.com', subject: 'Quick question' },
+        {
+          direction: InboxMessageDirection.INBOUND,
+          messageIdHeader: 'reply-1@acme.io',
+          fromEmail: 'jane@acme.io',
+          subject: 'Re: Quick question',
+        },
+      ]),
+    };
+    mockGmailTokenModel = {
+      findByPk: jest.fn().mockResolvedValue(mailbox),
+      findAll: jest.fn().mockResolvedValue([{ id: 'mailbox-1' }]),
+    };
+    mockUserModel = {
+      findByPk: jest.fn().mockResolvedValue({ firstName: 'Sam', lastName: 'Seller' }),
+    };
+    mockUserContextService = {
+      getCurrentUser: jest.fn().mockReturnValue({ sub: 'user-1', role: UserRole.ADMIN, type: 'user' }),
+      getCurrentUserId: jest.fn().mockReturnValue('user-1'),
+    };
+    mockProvider = {
+      send: jest.fn().mockResolvedValue({ id: 'gmail-msg-3', threadId: 'thread-1' }),
+      getMessageIdHeader: jest.fn().mockResolvedValue('answer-1@contoso.com'),
+    };
+    mockConversationStoreService = {
+      recordOutboundMessage: jest.fn().mockResolvedValue({ get: () => ({ id: 'stored-1' }) }),
+    };
+
+    service = new InboxService(
+      mockRepository,
+      mockInboxThreadModel,
+      mockInboxMessageModel,
+      mockGmailTokenModel,
+      mockUserModel,
+      mockUserContextService,
+      { forMailbox: jest.fn().mockReturnValue(mockProvider) } as any,
+      mockConversationStoreService,
+    );
+  });
+
+  describe('reply', () => {
+    it('should answer in the thread of the last inbound message', async () => {
+      await service.reply('inbox-thread-1', 'Tomorrow at 10?\nSam');
+
+      expect(mockProvider.send).toHaveBeenCalledWith(mailbox, {
+        to: 'jane@acme.io',
+        from: 'sales@contoso.com',
+        fromName: 'Sam Seller',
+        subject: 'Re: Quick question',
+        html: '<div>Tomorrow at 10?<br>Sam</div>',
+        text: 'Tomorrow at 10?\nSam',
+        threadHeaders: {
+          inReplyTo: '<reply-1@acme.io>',
+          references: '<first@contoso.com> <reply-1@acme.io>',
+          threadId: 'thread-1',
+        },
+      });
+      expect(mockConversationStoreService.recordOutboundMessage).toHaveBeenCalledWith(
+        thread,
+        expect.objectContaining({ providerMessageId: 'gmail-msg-3', messageIdHeader: 'answer-1@contoso.com' }),
+      );
+    });
+
+    it('should refuse to reply from a disconnected mailbox', async () => {
+      mockGmailTokenModel.findByPk.mockResolvedValue({ ...mailbox, status: GmailTokenStatus.REVOKED });
+
+      await expect(service.reply('inbox-thread-1', 'Hello')).rejects.toThrow(BadRequestException);
+      expect(mockProvider.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should hide threads of other users mailboxes from regular users', async () => {
+      mockUserContextService.getCurrentUser.mockReturnValue({ sub: 'user-2', role: UserRole.USER, type: 'user' });
+      mockGmailTokenModel.findAll.mockResolvedValue([{ id: 'mailbox-2' }]);
+
+      await expect(service.findOne('inbox-thread-1')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  SuppressionMatcherService,
+  getDomainCandidates,
+  inferSuppressionType,
+  normalizeSuppressionValue,
+  patternToRegExp,
+} from 'src/resources/suppressions/services/suppression-matcher.service';
+import { SuppressionType } from 'src/resources/suppressions/entities/suppression-entry.entity';
+
+describe('SuppressionMatcherService', () => {
+  let service: SuppressionMatcherService;
+  let mockSuppressionEntryModel: any;
+
+  const entry = (id: string, type: SuppressionType, value: string, reason: string | null = null) =>
+    ({ id, type, value, reason }) as any;
+
+  beforeEach(() => {
+    mockSuppressionEntryModel = {
+      findAll: jest.fn().mockResolvedValue([]),
+    };
+    service = new SuppressionMatcherService(mockSuppressionEntryModel);
+  });
+
+  describe('inferSuppressionType', () => {
+    it('should infer the type from the value', () => {
+      expect(inferSuppressionType('jane@acme.com')).toBe(SuppressionType.EMAIL);
+      expect(inferSuppressionType('acme.com')).toBe(SuppressionType.DOMAIN);
+      expect(inferSuppressionType('@acme.com')).toBe(SuppressionType.DOMAIN);
+      expect(inferSuppressionType('*@acme.*')).toBe(SuppressionType.PATTERN);
+    });
+  });
+
+  describe('normalizeSuppressionValue', () => {
+    it('should lowercase values and strip domain prefixes', () => {
+      expect(normalizeSuppressionValue(SuppressionType.EMAIL, ' Jane@Acme.com ')).toBe('jane@acme.com');
+      expect(normalizeSuppressionValue(SuppressionType.DOMAIN, '@Acme.com')).toBe('acme.com');
+      expect(normalizeSuppressionValue(SuppressionType.DOMAIN, '*.acme.com')).toBe('acme.com');
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => normalizeSuppressionValue(SuppressionType.EMAIL, 'acme.com')).toThrow(BadRequestException);
+      expect(() => normalizeSuppressionValue(SuppressionType.DOMAIN, 'localhost')).toThrow(BadRequestException);
+      expect(() => normalizeSuppressionValue(SuppressionType.PATTERN, '*')).toThrow(BadRequestException);
+      expect(() => normalizeSuppressionValue(SuppressionType.PATTERN, 'acme.com')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('patternToRegExp', () => {
+    it('should treat * and ? as wildcards and everything else literally', () => {
+      expect(patternToRegExp('info@*').test('info@acme.com')).toBe(true);
+      expect(patternToRegExp('info@*').test('sales@acme.com')).toBe(false);
+      expect(patternToRegExp('user?@acme.com').test('user1@acme.com')).toBe(true);
+      expect(patternToRegExp('*@acme.com').test('jane@acmeXcom')).toBe(false);
+    });
+  });
+
+  describe('getDomainCandidates', () => {
+    it('should return the domain and its parent domains without the TLD', () => {
+      expect(getDomainCandidates('jane@eu.acme.co.uk')).toEqual(['eu.acme.co.uk', 'acme.co.uk', 'co.uk']);
+      expect(getDomainCandidates('jane@acme.com')).toEqual(['acme.com']);
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should prefer address entries over domain entries over patterns', async () => {
+      mockSuppressionEntryModel.findAll
+        .mockResolvedValueOnce([entry('p1', SuppressionType.PATTERN, '*@*.acme.com')])
+        .mockResolvedValueOnce([
+          entry('e1', SuppressionType.EMAIL, 'jane@eu.acme.com', 'asked to stop'),
+          entry('d1', SuppressionType.DOMAIN, 'eu.acme.com'),
+        ]);
+
+      const matches = await service.findMatches('org-1', [
+        'Jane@EU.acme.com',
+        'john@eu.acme.com',
+        'mia@us.acme.com',
+        'lead@other.io',
+        null,
+      ]);
+
+      expect(matches.get('jane@eu.acme.com')?.entryId).toBe('e1');
+      expect(matches.get('john@eu.acme.com')?.entryId).toBe('d1');
+      expect(matches.get('mia@us.acme.com')?.entryId).toBe('p1');
+      expect(matches.has('lead@other.io')).toBe(false);
+    });
+
+    it('should not query when there are no addresses', async () => {
+      const matches = await service.findMatches('org-1', [null, undefined]);
+
+      expect(matches.size).toBe(0);
+      expect(mockSuppressionEntryModel.findAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('describeMatch', () => {
+    it('should include the entry and its reason', () => {
+      expect(
+        service.describeMatch({ entryId: 'd1', type: SuppressionType.DOMAIN, value: 'acme.com', reason: 'competitor' }),
+      ).toBe('Suppressed by domain "acme.com": competitor');
+    });
+  });
+});
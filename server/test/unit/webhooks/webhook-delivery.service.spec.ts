@@ -0,0 +1,161 @@
+import * as crypto from 'crypto';
+import { of, throwError } from 'rxjs';
+import {
+  WebhookDeliveryService,
+  generateWebhookSecret,
+  signWebhookPayload,
+} from 'src/resources/webhooks/services/webhook-delivery.service';
+import { WebhookDispatcherService } from 'src/resources/webhooks/services/webhook-dispatcher.service';
+import { WebhookEvent } from 'src/resources/webhooks/entities/webhook-endpoint.entity';
+import { WebhookDeliveryStatus } from 'src/resources/webhooks/entities/webhook-delivery.entity';
+
+describe('webhooks', () => {
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const body = JSON.stringify({ event: 'email.opened' });
+      const expected = crypto.createHmac('sha256', 'whsec_test').update(`1760000000.${body}`).digest('hex');
+
+      expect(signWebhookPayload('whsec_test', 1760000000, body)).toBe(expected);
+      expect(signWebhookPayload('whsec_other', 1760000000, body)).not.toBe(expected);
+    });
+
+    it('should generate prefixed random secrets', () => {
+      const secret = generateWebhookSecret();
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(generateWebhookSecret()).not.toBe(secret);
+    });
+  });
+
+  describe('WebhookDeliveryService', () => {
+    let service: WebhookDeliveryService;
+    let mockHttpService: any;
+    let delivery: any;
+
+    beforeEach(() => {
+      delivery = {
+        id: 'delivery-1',
+        event: WebhookEvent.EMAIL_OPENED,
+        status: WebhookDeliveryStatus.PENDING,
+        payload: { id: 'event-1', event: WebhookEvent.EMAIL_OPENED, data: { emailMessageId: 'email-1' } },
+        endpoint: { url: 'https://crm.example.com/hooks', isActive: true, secretEncrypted: 'encrypted' },
+        update: jest.fn().mockResolvedValue(undefined),
+      };
+      mockHttpService = { post: jest.fn().mockReturnValue(of({ status: 200, data: 'ok' })) };
+
+      service = new WebhookDeliveryService(
+        { findByPk: jest.fn().mockResolvedValue(delivery) } as any,
+        mockHttpService,
+        { decrypt: jest.fn().mockResolvedValue('whsec_test') } as any,
+      );
+    });
+
+    it('should post the signed payload and mark the delivery as succeeded', async () => {
+      const result = await service.deliver('delivery-1', 1, false);
+
+      expect(result).toEqual({ delivered: true, retry: false });
+      const [url, body, config] = mockHttpService.post.mock.calls[0];
+      expect(url).toBe('https://crm.example.com/hooks');
+      expect(body).toBe(JSON.stringify(delivery.payload));
+      const timestamp = Number(config.headers['X-Inboz-Timestamp']);
+      expect(config.headers['X-Inboz-Signature']).toBe(`sha256=${signWebhookPayload('whsec_test', timestamp, body)}`);
+      expect(config.headers['X-Inboz-Event']).toBe('email.opened');
+      expect(delivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: WebhookDeliveryStatus.SUCCEEDED, attempts: 1, responseStatus: 200 }),
+      );
+    });
+
+    it('should keep the delivery pending until the final attempt fails', async () => {
+      mockHttpService.post.mockReturnValue(of({ status: 503, data: 'unavailable' }));
+
+      const retried = await service.deliver('delivery-1', 2, false);
+      expect(retried).toEqual({ delivered: false, retry: true, error: 'Endpoint answered HTTP 503' });
+      expect(delivery.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookDeliveryStatus.PENDING, attempts: 2 }),
+      );
+
+      mockHttpService.post.mockReturnValue(throwError(() => new Error('connect ECONNREFUSED')));
+      const failed = await service.deliver('delivery-1', 6, true);
+      expect(failed).toEqual({ delivered: false, retry: true, error: 'connect ECONNREFUSED' });
+      expect(delivery.update).toHaveBeenLastCalledWith(
+        expect.objectContaining({ status: WebhookDeliveryStatus.FAILED, attempts: 6, responseStatus: null }),
+      );
+    });
+
+    it('should not retry deliveries of disabled endpoints', async () => {
+      delivery.endpoint.isActive = false;
+
+      const result = await service.deliver('delivery-1', 1, false);
+
+      expect(result.retry).toBe(false);
+      expect(mockHttpService.post).not.toHaveBeenCalled();
+      expect(delivery.update).toHaveBeenCalledWith(expect.objectContaining({ status: WebhookDeliveryStatus.FAILED }));
+    });
+
+    it('should refuse endpoints on internal addresses', async () => {
+      delivery.endpoint.url = 'http://169.254.169.254/latest/meta-data';
+
+      const result = await service.deliver('delivery-1', 1, false);
+
+      expect(result).toEqual(expect.objectContaining({ delivered: false, retry: false }));
+      expect(mockHttpService.post).not.toHaveBeenCalled();
+      expect(delivery.update).toHaveBeenCalledWith(expect.objectContaining({ status: WebhookDeliveryStatus.FAILED }));
+    });
+
+    it('should connect through agents that refuse internal addresses and drop error bodies', async () => {
+      mockHttpService.post.mockReturnValue(of({ status: 500, data: 'internal error page' }));
+
+      await service.deliver('delivery-1', 1, false);
+
+      const [, , config] = mockHttpService.post.mock.calls[0];
+      expect(config.httpAgent.options.lookup).toBeDefined();
+      expect(config.httpsAgent.options.lookup).toBeDefined();
+      expect(delivery.update).toHaveBeenCalledWith(
+        expect.objectContaining({ responseStatus: 500, responseBody: null }),
+      );
+    });
+  });
+
+  describe('WebhookDispatcherService', () => {
+    it('should queue one delivery per endpoint subscribed to the event', async () => {
+      const mockDeliveryModel = {
+        create: jest.fn().mockImplementation((data: any) => Promise.resolve({ id: `delivery-${data.endpointId}`, ...data })),
+      };
+      const mockNotificationQueue = { sendWebhookDelivery: jest.fn().mockResolvedValue(undefined) };
+      const dispatcher = new WebhookDispatcherService(
+        {
+          findAll: jest.fn().mockResolvedValue([
+            { id: 'crm', events: [WebhookEvent.EMAIL_REPLIED, WebhookEvent.EMAIL_BOUNCED] },
+            { id: 'analytics', events: [WebhookEvent.EMAIL_OPENED] },
+          ]),
+        } as any,
+        mockDeliveryModel as any,
+        mockNotificationQueue as any,
+      );
+
+      await dispatcher.dispatch('org-1', WebhookEvent.EMAIL_REPLIED, { classification: 'INTERESTED' });
+
+      expect(mockDeliveryModel.create).toHaveBeenCalledTimes(1);
+      expect(mockDeliveryModel.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          endpointId: 'crm',
+          organizationId: 'org-1',
+          payload: expect.objectContaining({ event: 'email.replied', data: { classification: 'INTERESTED' } }),
+        }),
+      );
+      expect(mockNotificationQueue.sendWebhookDelivery).toHaveBeenCalledWith(
+        'delivery-crm',
+        expect.objectContaining({ backoff: expect.objectContaining({ type: 'exponential' }) }),
+      );
+    });
+
+    it('should not throw when dispatching fails', async () => {
+      const dispatcher = new WebhookDispatcherService(
+        { findAll: jest.fn().mockRejectedValue(new Error('connection lost')) } as any,
+        {} as any,
+        {} as any,
+      );
+
+      await expect(dispatcher.dispatch('org-1', WebhookEvent.EMAIL_SENT, {})).resolves.toBeUndefined();
+    });
+  });
+});
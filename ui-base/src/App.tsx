@@ -29,6 +29,8 @@ import SubscriptionDetailPage from "@/pages/subscriptions/SubscriptionDetailPage
 import { InvoicesPage } from "@/pages/invoices";
 import { AnalyticsPage } from "@/pages/analytics";
 import { AssetsPage } from "@/pages/assets";
+import { InboxPage } from "@/pages/inbox";
+import { WebhooksPage } from "@/pages/webhooks";
 import { TermsOfServicePage, PrivacyPolicyPage, SupportPage } from "@/pages/legal";
 import { ProtectedRouteWithRole } from "@/components/auth";
 import { ThemeProvider } from "@/components/providers";
@@ -119,10 +121,12 @@ function App() {
               <Route path="campaigns" element={<CampaignListPage />} />
               <Route path="campaigns/new" element={<CampaignBuilderPage />} />
               <Route path="campaigns/:id" element={<CampaignBuilderPage />} />
+              <Route path="inbox" element={<InboxPage />} />
               <Route path="subscriptions" element={<SubscriptionsPage />} />
               <Route path="subscriptions/:id" element={<SubscriptionDetailPage />} />
               <Route path="invoices" element={<InvoicesPage />} />
               <Route path="audit-logs" element={<AuditLogsPage />} />
+              <Route path="webhooks" element={<WebhooksPage />} />
               <Route path="analytics" element={<AnalyticsPage />} />
               <Route path="profile" element={<ProfilePage />} />
               <Route path="platform/employees" element={<PlatformEmployeesPage />} />
@@ -10,6 +10,7 @@ import type {
   PaginatedAnalyticsResponse,
   AnalyticsUser,
   OrganizationAnalytics,
+  EngagementBreakdown,
 } from "./analyticsTypes";
 
 class AnalyticsService {
@@ -38,6 +39,9 @@ class AnalyticsService {
     if (params?.platformView !== undefined) {
       queryParams.platformView = params.platformView.toString();
     }
+    if (params?.excludeNonHuman) {
+      queryParams.excludeNonHuman = "true";
+    }
     return apiService.get<KpiStats>(`${this.baseUrl}/kpis`, queryParams);
   }
 
@@ -134,6 +138,38 @@ class AnalyticsService {
     );
   }
 
+  /**
+   * Get opens and clicks by email client, device and country
+   * @param params Optional date range, campaign and step parameters
+   */
+  async getEngagementBreakdown(
+    params?: AnalyticsQueryParams
+  ): Promise<BaseResponse<EngagementBreakdown>> {
+    const queryParams: Record<string, string> = {};
+    if (params?.startDate) {
+      queryParams.startDate = params.startDate;
+    }
+    if (params?.endDate) {
+      queryParams.endDate = params.endDate;
+    }
+    if (params?.organizationId) {
+      queryParams.organizationId = params.organizationId;
+    }
+    if (params?.campaignId) {
+      queryParams.campaignId = params.campaignId;
+    }
+    if (params?.campaignStepId) {
+      queryParams.campaignStepId = params.campaignStepId;
+    }
+    if (params?.excludeNonHuman) {
+      queryParams.excludeNonHuman = "true";
+    }
+    return apiService.get<EngagementBreakdown>(
+      `${this.baseUrl}/engagement-breakdown`,
+      queryParams
+    );
+  }
+
   /**
    * Get campaign status distribution
    * @param params Optional date range parameters
@@ -183,6 +219,7 @@ class AnalyticsService {
       userId: string;
       organizationId?: string;
       eventType?: string;
+      replyClassification?: string;
       page?: number;
       limit?: number;
       startDate?: string;
@@ -193,6 +230,7 @@ class AnalyticsService {
     if (params.userId) queryParams.userId = params.userId;
     if (params.organizationId) queryParams.organizationId = params.organizationId;
     if (params.eventType) queryParams.eventType = params.eventType;
+    if (params.replyClassification) queryParams.replyClassification = params.replyClassification;
     if (params.page) queryParams.page = params.page.toString();
     if (params.limit) queryParams.limit = params.limit.toString();
     if (params.startDate) queryParams.startDate = params.startDate;
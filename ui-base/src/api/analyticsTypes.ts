@@ -61,6 +61,9 @@ export interface AnalyticsQueryParams {
   status?: string[]; // For filtering campaigns by status
   userId?: string; // Filter analytics by specific user (campaigns created by this user)
   platformView?: boolean; // Platform-wide view (SUPERADMIN only) - aggregates across all organizations
+  excludeNonHuman?: boolean; // Only count opens and clicks classified as human (KPIs)
+  campaignId?: string; // Engagement breakdown for a single campaign
+  campaignStepId?: string; // Engagement breakdown for a single step of the campaign
 }
 
 export interface AnalyticsUser {
@@ -148,3 +151,15 @@ export interface OrganizationAnalytics {
   revenue: number; // Revenue from subscription (0 for trial)
 }
 
+
+export interface EngagementBreakdownRow {
+  value: string; // Email client, device type or country code, 'Unknown' when not detected
+  opens: number;
+  clicks: number;
+}
+
+export interface EngagementBreakdown {
+  clients: EngagementBreakdownRow[];
+  devices: EngagementBreakdownRow[];
+  countries: EngagementBreakdownRow[];
+}
@@ -1,4 +1,80 @@
 import { apiService } from './apiService';
+import type { BaseResponse, PaginatedData } from './types';
+
+export type SenderRotation = 'ROUND_ROBIN' | 'WEIGHTED';
+export type CampaignVerificationFilter = 'ALL' | 'EXCLUDE_RISKY' | 'VERIFIED_ONLY';
+
+export type CampaignSender = {
+  gmailTokenId: string;
+  weight?: number;
+};
+
+export type SendingWindow = {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  excludedDates?: string[]; // YYYY-MM-DD
+  useRecipientTimezone?: boolean;
+};
+
+export type ReplyClassification =
+  | 'INTERESTED'
+  | 'NOT_INTERESTED'
+  | 'OUT_OF_OFFICE'
+  | 'WRONG_PERSON'
+  | 'AUTO_REPLY'
+  | 'NEUTRAL';
+
+export const ReplyClassificationLabels: Record<ReplyClassification, string> = {
+  INTERESTED: 'Interested',
+  NOT_INTERESTED: 'Not interested',
+  OUT_OF_OFFICE: 'Out of office',
+  WRONG_PERSON: 'Wrong person',
+  AUTO_REPLY: 'Auto-reply',
+  NEUTRAL: 'Neutral',
+};
+
+export type MailboxRampUpPreset = 'CONSERVATIVE' | 'STANDARD' | 'AGGRESSIVE' | 'CUSTOM';
+
+// Warm-up schedule of a new mailbox, the daily limit grows until it reaches the plan limit
+export type MailboxRampUp = {
+  preset: MailboxRampUpPreset;
+  startVolume: number; // Emails allowed on the first day
+  dailyGrowthPercent: number; // Compound growth per day
+  curve?: number[] | null; // Daily limit per ramp day (CUSTOM), overrides the growth
+  startedAt: string; // ISO datetime of the first ramp day
+};
+
+export type MailboxRampUpProgress = {
+  preset: MailboxRampUpPreset;
+  day: number; // Ramp day, 1 on the start day
+  dailyLimit: number; // Today's limit with the ramp applied
+  planDailyLimit: number;
+  completed: boolean;
+  completesOn: string | null; // YYYY-MM-DD the plan limit is reached
+};
+
+export type UpdateMailboxRampUpPayload = {
+  enabled: boolean;
+  preset?: MailboxRampUpPreset;
+  startVolume?: number;
+  dailyGrowthPercent?: number;
+  curve?: number[];
+  restart?: boolean; // Start again from day 1
+};
+
+export type SenderMailbox = {
+  id: string;
+  userId: string;
+  email: string;
+  provider?: "GMAIL" | "SMTP";
+  status: string;
+  dailyQuotaUsed: number;
+  quotaResetAt?: string;
+  rampUp?: MailboxRampUp | null;
+  rampUpProgress?: MailboxRampUpProgress | null;
+  lastUsedAt?: string | null;
+};
 
 export type Campaign = {
   id: string;
@@ -12,6 +88,8 @@ export type Campaign = {
   trackingEnabled?: boolean;
   openTracking?: boolean;
   clickTracking?: boolean;
+  humanEngagementOnly?: boolean;
+  verificationFilter?: CampaignVerificationFilter; // Email verification statuses the campaign sends to
   unsubscribeTracking?: boolean;
   unsubscribeReplyEnabled?: boolean;
   unsubscribeCustomMessage?: string;
@@ -22,6 +100,9 @@ export type Campaign = {
   createdAt?: string; // Campaign creation timestamp
   updatedAt?: string; // Campaign update timestamp
   sequenceSettings?: any;
+  senderPool?: CampaignSender[] | null; // Mailboxes to rotate through; empty sends from the creator's mailbox
+  senderRotation?: SenderRotation;
+  sendingWindow?: SendingWindow | null; // Days and hours emails may go out; empty sends around the clock
   // analytics (readonly)
   totalRecipients: number;
   emailsSent: number;
@@ -48,6 +129,112 @@ export type Campaign = {
   };
 };
 
+export type StepConditionEvent =
+  | 'SENT'
+  | 'OPENED'
+  | 'NOT_OPENED'
+  | 'CLICKED'
+  | 'NOT_CLICKED'
+  | 'CLICKED_LINK'
+  | 'REPLIED'
+  | 'NOT_REPLIED';
+
+export type StepCondition = {
+  stepId: string;
+  event: StepConditionEvent;
+  url?: string; // Required for CLICKED_LINK
+};
+
+export type StepConditionGroup = {
+  operator?: 'AND' | 'OR';
+  conditions: Array<StepCondition | StepConditionGroup>;
+};
+
+export type AbTestWinnerMetric = 'OPEN_RATE' | 'CLICK_RATE' | 'REPLY_RATE';
+
+export type StepVariant = {
+  id: string; // Single capital letter (A, B, C...)
+  templateId: string;
+  subject?: string | null; // Overrides the template subject
+  weight: number; // Relative share of the split
+};
+
+export type StepAbTest = {
+  testPercentage: number; // Share of contacts receiving the test sample
+  waitHours: number; // Hours after the sample is sent before the winner is picked
+  winnerMetric: AbTestWinnerMetric;
+  winnerVariantId?: string | null; // Set by the server once the test is decided
+  decidedAt?: string | null;
+};
+
+export type StepVariantResult = {
+  variantId: string;
+  templateId: string;
+  subject: string | null;
+  weight: number;
+  total: number;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+  isWinner: boolean;
+};
+
+export type StepVariantResults = {
+  stepId: string;
+  winnerMetric: AbTestWinnerMetric | null;
+  winnerVariantId: string | null;
+  decidedAt: string | null;
+  testPending: boolean;
+  variants: StepVariantResult[];
+};
+
+export type PersonalizationReport = {
+  contactsChecked: number;
+  contactsWithMissingValues: number;
+  missingByVariable: Record<string, number>; // Variable -> contacts rendering it empty
+  contacts: Array<{ contactId: string; email: string; stepIds: string[]; variables: string[] }>; // First contacts only
+};
+
+export type ContentIssue = {
+  code:
+    | 'BROKEN_VARIABLE'
+    | 'SPAM_PHRASES'
+    | 'TOO_MANY_LINKS'
+    | 'FLAGGED_LINK_DOMAIN'
+    | 'IMAGE_HEAVY'
+    | 'MISSING_PLAIN_TEXT'
+    | 'HTML_TOO_LARGE'
+    | 'ALL_CAPS_SUBJECT';
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+  penalty: number; // Points taken off the score of 100
+};
+
+export type StepContentReport = {
+  stepId: string;
+  stepOrder: number;
+  name: string | null;
+  templateId: string;
+  variantId: string | null; // A/B variant, null for the step template
+  score: number;
+  issues: ContentIssue[];
+  linkCount: number;
+  imageCount: number;
+  htmlBytes: number;
+};
+
+export type CampaignContentReport = {
+  score: number; // Lowest step score
+  minScore: number | null; // Organization minimum, steps below it block activation
+  blocked: boolean;
+  steps: StepContentReport[];
+};
+
 export type CampaignStep = {
   id: string;
   timezone?: string;
@@ -60,6 +247,9 @@ export type CampaignStep = {
   delayMinutes: number; // Delay in minutes between each email sent (minimum 1)
   replyToStepId?: string | null; // ID of previous step to reply to
   replyType?: 'OPENED' | 'CLICKED' | 'SENT' | null; // Type of reply: OPENED (only opened, no clicks/replies), CLICKED (only clicked, no replies), SENT (all sent, excludes bounced)
+  sendConditions?: StepConditionGroup | null; // AND/OR engagement conditions on earlier steps, overrides replyType
+  variants?: StepVariant[] | null; // A/B variants, replace templateId when set
+  abTest?: StepAbTest | null; // Send a test sample first, then the winning variant
   // Analytics fields
   emailsSent: number;
   emailsDelivered: number;
@@ -79,6 +269,57 @@ export type CampaignStep = {
   progressPercentage?: number; // Progress percentage for this step
 };
 
+export type CampaignBlueprintStep = {
+  id: string; // Step the blueprint was saved from
+  stepOrder: number;
+  name: string | null;
+  templateId: string | null;
+  delayMinutes: number;
+};
+
+export type CampaignBlueprint = {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string | null;
+  steps: CampaignBlueprintStep[];
+  createdAt: string;
+};
+
+export type TestSendPayload = {
+  recipients: string[]; // Seed addresses, at most 10
+  contactId?: string; // Contact whose data personalizes the email, sample data otherwise
+  variantId?: string;
+  senderTokenId?: string; // Mailbox of the sender pool, the first active one otherwise
+};
+
+export type TestSendResult = {
+  sentFrom: string;
+  subject: string;
+  recipients: Array<{ email: string; success: boolean; error?: string }>;
+};
+
+type CampaignsApiError = Error & {
+  statusCode?: number;
+  error?: BaseResponse['error'];
+  response?: { data: unknown; status: number };
+};
+
+// Payload of a response, whether or not the server nested it in another `data` envelope
+const unwrapData = (r: BaseResponse<unknown>): unknown =>
+  (r.data as { data?: unknown } | null | undefined)?.data ?? r.data;
+
+const unwrapOrThrow = (r: BaseResponse<unknown>, fallbackMessage: string): unknown => {
+  if ((r.statusCode && r.statusCode >= 400) || r.success === false) {
+    const error: CampaignsApiError = new Error(r.message || fallbackMessage);
+    error.statusCode = r.statusCode || 400;
+    error.error = r.error;
+    error.response = { data: r, status: r.statusCode || 400 };
+    throw error;
+  }
+  return unwrapData(r);
+};
+
 export const CampaignsApi = {
   create(payload: Partial<Campaign>) {
     return apiService.post('/campaigns', payload).then(r => {
@@ -104,7 +345,7 @@ export const CampaignsApi = {
     });
   },
   list(params?: any) {
-    return apiService.get('/campaigns', params);
+    return apiService.get<PaginatedData<Campaign>>('/campaigns', params);
   },
   get(id: string) {
     return apiService.get(`/campaigns/${id}`).then(r => ((r.data as any)?.data ?? (r.data as any)) as any);
@@ -135,6 +376,30 @@ export const CampaignsApi = {
   remove(id: string) {
     return apiService.delete(`/campaigns/${id}`);
   },
+  clone(id: string, payload: { name?: string; contactListId?: string }) {
+    return apiService.post(`/campaigns/${id}/clone`, payload).then(r => unwrapOrThrow(r, 'Failed to clone campaign') as Campaign);
+  },
+  saveAsBlueprint(id: string, payload: { name: string; description?: string }) {
+    return apiService.post(`/campaigns/${id}/blueprints`, payload).then(r => unwrapOrThrow(r, 'Failed to save blueprint') as CampaignBlueprint);
+  },
+  listBlueprints(organizationId?: string) {
+    return apiService
+      .get('/campaigns/blueprints', organizationId ? { organizationId } : undefined)
+      .then(r => (unwrapOrThrow(r, 'Failed to load blueprints') || []) as CampaignBlueprint[]);
+  },
+  deleteBlueprint(blueprintId: string) {
+    return apiService.delete(`/campaigns/blueprints/${blueprintId}`);
+  },
+  createFromBlueprint(blueprintId: string, payload: { name: string; contactListId: string }) {
+    return apiService
+      .post(`/campaigns/blueprints/${blueprintId}/campaigns`, payload)
+      .then(r => unwrapOrThrow(r, 'Failed to create campaign') as Campaign);
+  },
+  testSendStep(campaignId: string, stepId: string, payload: TestSendPayload) {
+    return apiService
+      .post(`/campaigns/${campaignId}/steps/${stepId}/test-send`, payload)
+      .then(r => unwrapOrThrow(r, 'Failed to send test email') as TestSendResult);
+  },
   addStep(campaignId: string, payload: Partial<CampaignStep>) {
     return apiService.post(`/campaigns/${campaignId}/steps`, payload).then(r => {
       // Check for error response
@@ -238,21 +503,41 @@ export const CampaignsApi = {
       return ((r.data as any)?.data ?? r.data) as any;
     });
   },
+  listSenderMailboxes(organizationId?: string) {
+    return apiService
+      .get('/campaigns/sender-mailboxes', organizationId ? { organizationId } : undefined)
+      .then(r => unwrapData(r) as SenderMailbox[]);
+  },
+  updateMailboxRampUp(mailboxId: string, payload: UpdateMailboxRampUpPayload) {
+    return apiService
+      .patch(`/users/mailboxes/${mailboxId}/ramp-up`, payload)
+      .then(r => unwrapOrThrow(r, 'Failed to update mailbox ramp-up') as SenderMailbox);
+  },
   getProgress(campaignId: string) {
     return apiService.get(`/campaigns/${campaignId}/progress`).then(r => ((r.data as any)?.data ?? r.data) as any);
   },
-  getStepEmails(campaignId: string, stepId: string, eventType?: string, page?: number, limit?: number, status?: string) {
+  getStepEmails(campaignId: string, stepId: string, eventType?: string, page?: number, limit?: number, status?: string, replyClassification?: string) {
     const params: Record<string, string> = {};
     if (eventType) params.eventType = eventType;
     if (page) params.page = page.toString();
     if (limit) params.limit = limit.toString();
     if (status && status !== 'ALL') params.status = status;
+    if (replyClassification && replyClassification !== 'ALL') params.replyClassification = replyClassification;
     return apiService.get(`/campaigns/${campaignId}/steps/${stepId}/emails`, Object.keys(params).length > 0 ? params : undefined).then(r => {
       // Return the full response object to preserve pagination data (total, totalPages, etc.)
       // r.data contains { success: true, data: [...], total: 1152, totalPages: 29, ... }
       return (r.data as any) ?? r;
     });
   },
+  getPersonalizationReport(campaignId: string) {
+    return apiService.get(`/campaigns/${campaignId}/personalization-report`).then(r => unwrapData(r) as PersonalizationReport);
+  },
+  getContentReport(campaignId: string) {
+    return apiService.get(`/campaigns/${campaignId}/content-report`).then(r => unwrapOrThrow(r, 'Failed to check content') as CampaignContentReport);
+  },
+  getStepVariantResults(campaignId: string, stepId: string) {
+    return apiService.get(`/campaigns/${campaignId}/steps/${stepId}/variants`).then(r => unwrapData(r) as StepVariantResults);
+  },
 };
 
 
@@ -9,6 +9,9 @@ import type {
   AddContactsResponse,
   RemoveContactsResponse,
   GetListContactsResponse,
+  FilterConditions,
+  PreviewFilterConditionsResponse,
+  RefreshDynamicListResponse,
 } from "./contactListTypes";
 import type { BaseResponse, PaginatedData } from "./types";
 
@@ -107,6 +110,35 @@ class ContactListService {
     return apiService.delete(`${this.baseUrl}/${id}/contacts`, data);
   }
 
+  /**
+   * Count the contacts matching a set of filter conditions (dynamic list preview)
+   */
+  async previewFilterConditions(
+    filterConditions: FilterConditions,
+    organizationId?: string
+  ): Promise<BaseResponse<PreviewFilterConditionsResponse>> {
+    return apiService.post(`${this.baseUrl}/preview-count`, {
+      filterConditions,
+      organizationId,
+    });
+  }
+
+  /**
+   * Re-evaluate a dynamic list's filter conditions
+   */
+  async refreshDynamicList(
+    id: string
+  ): Promise<BaseResponse<RefreshDynamicListResponse>> {
+    return apiService.post(`${this.baseUrl}/${id}/refresh`);
+  }
+
+  /**
+   * Freeze a dynamic list into a static list with its current members
+   */
+  async freezeContactList(id: string): Promise<BaseResponse<ContactList>> {
+    return apiService.post(`${this.baseUrl}/${id}/freeze`);
+  }
+
   /**
    * Get all contacts in a list
    */
@@ -3,12 +3,43 @@ export enum ContactListType {
   PUBLIC = 'PUBLIC',
 }
 
+export type FilterOperator =
+  | "equals"
+  | "notEquals"
+  | "contains"
+  | "notContains"
+  | "startsWith"
+  | "endsWith"
+  | "greaterThan"
+  | "lessThan"
+  | "in"
+  | "notIn"
+  | "isEmpty"
+  | "isNotEmpty"
+  | "before"
+  | "after"
+  | "inLastDays"
+  | "notInLastDays";
+
+export interface FilterCondition {
+  field: string; // Contact attribute or "customFields.<key>"
+  operator: FilterOperator;
+  value?: string | number | string[] | number[];
+}
+
+export interface FilterConditions {
+  operator?: "AND" | "OR";
+  conditions: Array<FilterCondition | FilterConditions>;
+}
+
 export interface ContactList {
   id: string;
   organizationId: string;
   name: string;
   description?: string;
-  filterConditions?: any;
+  filterConditions?: FilterConditions | null;
+  isDynamic?: boolean;
+  lastEvaluatedAt?: string | null;
   contactCount: number;
   type: ContactListType;
   createdBy?: string;
@@ -26,7 +57,8 @@ export interface ContactList {
 export interface CreateContactListRequest {
   name: string;
   description?: string;
-  filterConditions?: any;
+  filterConditions?: FilterConditions;
+  isDynamic?: boolean;
   type?: ContactListType;
   organizationId?: string;
 }
@@ -34,7 +66,8 @@ export interface CreateContactListRequest {
 export interface UpdateContactListRequest {
   name?: string;
   description?: string;
-  filterConditions?: any;
+  filterConditions?: FilterConditions;
+  isDynamic?: boolean;
   type?: ContactListType;
 }
 
@@ -72,3 +105,17 @@ export interface GetListContactsResponse {
   total: number;
   data: any[]; // Array of Contact objects
 }
+
+export interface PreviewFilterConditionsResponse {
+  success: boolean;
+  count: number;
+  sample: any[]; // First few matching Contact objects
+}
+
+export interface RefreshDynamicListResponse {
+  success: boolean;
+  message: string;
+  added: number;
+  removed: number;
+  total: number;
+}
@@ -5,6 +5,14 @@ import type {
   CreateContactRequest,
   UpdateContactRequest,
   GetContactsParams,
+  ContactImportPreview,
+  ConfirmContactImportRequest,
+  ImportColumnMapping,
+  ImportMappingPreset,
+  ContactFieldChange,
+  ContactDuplicatesResponse,
+  MergeContactsRequest,
+  ContactMergeResult,
 } from "./contactTypes";
 import type { BaseResponse, PaginatedData } from "./types";
 
@@ -265,6 +273,131 @@ class ContactService {
     return await response.json();
   }
 
+  /**
+   * Upload a CSV or XLSX file and get its headers, sample rows and suggested column mapping
+   */
+  async previewImport(
+    file: File,
+    organizationId?: string
+  ): Promise<BaseResponse<ContactImportPreview>> {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const queryParams = new URLSearchParams();
+    if (organizationId) {
+      queryParams.append("organizationId", organizationId);
+    }
+
+    const fullUrl = `${API_CONFIG.baseUrl}${this.baseUrl}/import/preview?${queryParams.toString()}`;
+    const response = await fetch(fullUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${sessionStorage.getItem("accessToken")}`,
+      },
+      body: formData,
+    });
+
+    const result = await response.json().catch(() => ({ message: "Failed to read file" }));
+    if (!response.ok) {
+      const error = new Error(result?.message || "Failed to read file");
+      (error as any).response = { data: result };
+      throw error;
+    }
+    return result;
+  }
+
+  /**
+   * Queue a previewed import with the confirmed column mapping
+   */
+  async confirmImport(
+    fileId: string,
+    payload: ConfirmContactImportRequest
+  ): Promise<BaseResponse<{ fileId: string; jobId: string; message: string }>> {
+    return apiService.post(`${this.baseUrl}/import/${fileId}/confirm`, payload);
+  }
+
+  /**
+   * Get the field changes imports made to a contact, newest first
+   */
+  async getContactFieldChanges(
+    id: string,
+    params: { page?: number; limit?: number } = {}
+  ): Promise<BaseResponse<PaginatedData<ContactFieldChange>>> {
+    const queryParams = new URLSearchParams();
+    if (params.page) queryParams.append("page", params.page.toString());
+    if (params.limit) queryParams.append("limit", params.limit.toString());
+
+    return apiService.get(`${this.baseUrl}/${id}/field-changes?${queryParams.toString()}`);
+  }
+
+  /**
+   * Pairs of contacts likely to be the same person, best matches first
+   */
+  async getDuplicates(
+    params: { minScore?: number; limit?: number } = {}
+  ): Promise<BaseResponse<ContactDuplicatesResponse>> {
+    const queryParams = new URLSearchParams();
+    if (params.minScore) queryParams.append("minScore", params.minScore.toString());
+    if (params.limit) queryParams.append("limit", params.limit.toString());
+
+    return apiService.get(`${this.baseUrl}/duplicates?${queryParams.toString()}`);
+  }
+
+  /**
+   * Merge two contacts, the one not kept is deleted
+   */
+  async mergeContacts(
+    payload: MergeContactsRequest
+  ): Promise<BaseResponse<ContactMergeResult>> {
+    return apiService.post(`${this.baseUrl}/merge`, payload);
+  }
+
+  async getImportMappingPresets(): Promise<BaseResponse<ImportMappingPreset[]>> {
+    return apiService.get(`${this.baseUrl}/import/mapping-presets`);
+  }
+
+  async saveImportMappingPreset(payload: {
+    name: string;
+    mapping: ImportColumnMapping[];
+    organizationId?: string;
+  }): Promise<BaseResponse<ImportMappingPreset>> {
+    return apiService.post(`${this.baseUrl}/import/mapping-presets`, payload);
+  }
+
+  async deleteImportMappingPreset(
+    id: string,
+    organizationId?: string
+  ): Promise<BaseResponse<{ success: boolean }>> {
+    const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : "";
+    return apiService.delete(`${this.baseUrl}/import/mapping-presets/${id}${query}`);
+  }
+
+  /**
+   * Download the rejected rows of an import, with the row number and errors of each row
+   */
+  async downloadImportErrorReport(
+    fileId: string,
+    format: "csv" | "xlsx",
+    organizationId?: string
+  ): Promise<Blob> {
+    const queryParams = new URLSearchParams({ format });
+    if (organizationId) queryParams.append("organizationId", organizationId);
+    const fullUrl = `${API_CONFIG.baseUrl}${this.baseUrl}/upload-progress/${fileId}/error-report?${queryParams.toString()}`;
+
+    const response = await fetch(fullUrl, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${sessionStorage.getItem("accessToken")}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    return await response.blob();
+  }
+
   /**
    * Download contact import template
    */
@@ -201,3 +201,192 @@ export const ContactSourceLabels: Record<string, string> = {
   REFERRAL: "Referral",
   OTHER: "Other",
 };
+
+export type ImportColumnTarget = "FIELD" | "CUSTOM_FIELD" | "IGNORE";
+
+export type ImportableContactField =
+  | "email"
+  | "firstName"
+  | "lastName"
+  | "list"
+  | "company"
+  | "jobTitle"
+  | "phone"
+  | "timezone"
+  | "department"
+  | "industry"
+  | "experience"
+  | "linkedin"
+  | "twitter"
+  | "facebook"
+  | "website"
+  | "city"
+  | "state"
+  | "country"
+  | "companyDomain"
+  | "companyWebsite"
+  | "companyIndustry"
+  | "companySize"
+  | "companyRevenue";
+
+export interface ImportColumnMapping {
+  column: string;
+  target: ImportColumnTarget;
+  field?: ImportableContactField;
+  customFieldName?: string;
+}
+
+export interface ContactImportPreview {
+  fileId: string;
+  fileName: string;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+  matchedPresetId: string | null;
+  suggestedMapping: ImportColumnMapping[];
+}
+
+export interface ImportMappingPreset {
+  id: string;
+  organizationId: string;
+  name: string;
+  mapping: ImportColumnMapping[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ContactImportStrategy =
+  | "SKIP"
+  | "OVERWRITE"
+  | "FILL_BLANKS"
+  | "OVERWRITE_SELECTED";
+
+export interface ConfirmContactImportRequest {
+  mapping: ImportColumnMapping[];
+  /** What happens to contacts that already exist, defaults to SKIP */
+  strategy?: ContactImportStrategy;
+  /** Fields replaced by OVERWRITE_SELECTED, custom fields as customFields.<key> */
+  overwriteFields?: string[];
+  savePresetName?: string;
+  organizationId?: string;
+}
+
+export const ContactImportStrategyLabels: Record<
+  ContactImportStrategy,
+  { label: string; description: string }
+> = {
+  SKIP: {
+    label: "Skip existing contacts",
+    description: "Contacts that already exist are left as they are",
+  },
+  OVERWRITE: {
+    label: "Overwrite all fields",
+    description: "Values from the file replace the values of existing contacts",
+  },
+  FILL_BLANKS: {
+    label: "Fill blank fields only",
+    description: "Only fields existing contacts have no value for are set",
+  },
+  OVERWRITE_SELECTED: {
+    label: "Overwrite selected fields",
+    description: "Only the fields you pick are replaced",
+  },
+};
+
+/** A field of a contact changed by an import or a merge */
+export interface ContactFieldChange {
+  id: string;
+  contactId: string;
+  organizationId: string;
+  /** Contact field, or customFields.<key> for custom fields */
+  field: string;
+  previousValue: string | null;
+  newValue: string | null;
+  source: string;
+  /** File ID of the import, or the contact merged into this one */
+  sourceId: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export const ImportableContactFieldLabels: Record<ImportableContactField, string> = {
+  email: "Email",
+  firstName: "First Name",
+  lastName: "Last Name",
+  list: "List",
+  company: "Company",
+  jobTitle: "Job Title",
+  phone: "Phone",
+  timezone: "Timezone",
+  department: "Department",
+  industry: "Industry",
+  experience: "Experience",
+  linkedin: "LinkedIn",
+  twitter: "Twitter",
+  facebook: "Facebook",
+  website: "Website",
+  city: "City",
+  state: "State",
+  country: "Country",
+  companyDomain: "Company Domain",
+  companyWebsite: "Company Website",
+  companyIndustry: "Company Industry",
+  companySize: "Company Size",
+  companyRevenue: "Company Revenue",
+};
+
+/** Fields every import must map a column to */
+export const RequiredImportFields: ImportableContactField[] = ["email", "firstName"];
+
+export type DuplicateMatchReason =
+  | "SAME_EMAIL"
+  | "EMAIL_VARIANT"
+  | "NAME_AND_COMPANY"
+  | "LINKEDIN"
+  | "PHONE";
+
+export const DuplicateMatchReasonLabels: Record<DuplicateMatchReason, string> = {
+  SAME_EMAIL: "Same email",
+  EMAIL_VARIANT: "Similar email",
+  NAME_AND_COMPANY: "Same name and company",
+  LINKEDIN: "Same LinkedIn",
+  PHONE: "Same phone",
+};
+
+export type DuplicateContactSummary = Pick<
+  Contact,
+  "id" | "email" | "firstName" | "lastName" | "company" | "jobTitle" | "phone" | "status" | "createdAt"
+> & {
+  companyDomain?: string | null;
+  linkedin?: string | null;
+  subscribed?: boolean;
+};
+
+export interface ContactDuplicatePair {
+  /** 1-100 */
+  score: number;
+  reasons: DuplicateMatchReason[];
+  contacts: DuplicateContactSummary[];
+}
+
+export interface ContactDuplicatesResponse {
+  total: number;
+  pairs: ContactDuplicatePair[];
+}
+
+export interface MergeContactsRequest {
+  contactIds: [string, string];
+  /** Picked from the two when left out */
+  survivorId?: string;
+  organizationId?: string;
+}
+
+export interface ContactMergeResult {
+  survivorId: string;
+  mergedContactId: string;
+  changedFields: string[];
+  listMembershipsMoved: number;
+  listMembershipsRemoved: number;
+  emailMessagesMoved: number;
+  inboxThreadsMoved: number;
+}
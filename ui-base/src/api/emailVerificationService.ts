@@ -0,0 +1,38 @@
+import { apiService } from "./apiService";
+import type {
+  EmailVerificationQueueResult,
+  EmailVerificationSummary,
+} from "./emailVerificationTypes";
+import type { BaseResponse } from "./types";
+
+class EmailVerificationService {
+  private baseUrl = "/email-verification";
+
+  /**
+   * Queue every contact of a list for verification
+   */
+  async verifyList(
+    listId: string,
+    organizationId?: string
+  ): Promise<BaseResponse<EmailVerificationQueueResult>> {
+    const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : "";
+    return apiService.post(`${this.baseUrl}/lists/${listId}${query}`);
+  }
+
+  /**
+   * Number of contacts of a list per verification status
+   */
+  async getListSummary(listId: string): Promise<BaseResponse<EmailVerificationSummary>> {
+    return apiService.get(`${this.baseUrl}/lists/${listId}/summary`);
+  }
+
+  async verifyContact(
+    contactId: string,
+    organizationId?: string
+  ): Promise<BaseResponse<EmailVerificationQueueResult>> {
+    const query = organizationId ? `?organizationId=${encodeURIComponent(organizationId)}` : "";
+    return apiService.post(`${this.baseUrl}/contacts/${contactId}${query}`);
+  }
+}
+
+export const emailVerificationService = new EmailVerificationService();
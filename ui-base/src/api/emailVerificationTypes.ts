@@ -0,0 +1,23 @@
+export type EmailVerificationStatus =
+  | "VERIFIED"
+  | "UNVERIFIED"
+  | "PENDING"
+  | "FAILED"
+  | "RISKY";
+
+export interface EmailVerificationQueueResult {
+  queued: number;
+}
+
+export interface EmailVerificationSummary {
+  total: number;
+  byStatus: Record<EmailVerificationStatus, number>;
+}
+
+export const EmailVerificationStatusLabels: Record<EmailVerificationStatus, string> = {
+  VERIFIED: "Verified",
+  UNVERIFIED: "Unverified",
+  PENDING: "Pending",
+  FAILED: "Invalid",
+  RISKY: "Risky",
+};
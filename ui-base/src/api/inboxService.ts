@@ -0,0 +1,45 @@
+import { apiService } from "./apiService";
+import type {
+  GetInboxThreadsParams,
+  InboxMessage,
+  InboxThread,
+  InboxThreadDetail,
+  InboxThreadStatus,
+} from "./inboxTypes";
+import type { BaseResponse, PaginatedData } from "./types";
+
+class InboxService {
+  private baseUrl = "/inbox";
+
+  async getThreads(
+    params: GetInboxThreadsParams = {}
+  ): Promise<BaseResponse<PaginatedData<InboxThread>>> {
+    const queryParams = new URLSearchParams();
+    if (params.page) queryParams.append("page", params.page.toString());
+    if (params.limit) queryParams.append("limit", params.limit.toString());
+    if (params.searchTerm) queryParams.append("searchTerm", params.searchTerm);
+    if (params.campaignId) queryParams.append("campaignId", params.campaignId);
+    if (params.mailboxId) queryParams.append("mailboxId", params.mailboxId);
+    if (params.status) queryParams.append("status", params.status);
+
+    const url = `${this.baseUrl}/threads?${queryParams.toString()}`;
+    return apiService.get(url);
+  }
+
+  async getThread(id: string): Promise<BaseResponse<InboxThreadDetail>> {
+    return apiService.get(`${this.baseUrl}/threads/${id}`);
+  }
+
+  async updateThread(
+    id: string,
+    status: InboxThreadStatus
+  ): Promise<BaseResponse<InboxThread>> {
+    return apiService.patch(`${this.baseUrl}/threads/${id}`, { status });
+  }
+
+  async reply(id: string, body: string): Promise<BaseResponse<InboxMessage>> {
+    return apiService.post(`${this.baseUrl}/threads/${id}/reply`, { body });
+  }
+}
+
+export const inboxService = new InboxService();
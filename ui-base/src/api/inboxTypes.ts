@@ -0,0 +1,78 @@
+export type InboxThreadStatus = "UNREAD" | "READ" | "REPLIED" | "ARCHIVED";
+
+export type InboxMessageDirection = "INBOUND" | "OUTBOUND";
+
+export interface InboxMessageAddress {
+  email: string;
+  name?: string;
+}
+
+export interface InboxMessageAttachment {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string;
+}
+
+export interface InboxMessage {
+  id: string;
+  threadId: string;
+  direction: InboxMessageDirection;
+  providerMessageId: string;
+  messageIdHeader?: string | null;
+  fromEmail?: string | null;
+  fromName?: string | null;
+  toAddresses: InboxMessageAddress[];
+  ccAddresses: InboxMessageAddress[];
+  subject?: string | null;
+  textBody?: string | null;
+  htmlBody?: string | null;
+  attachments: InboxMessageAttachment[];
+  messageAt: string;
+}
+
+export interface InboxThread {
+  id: string;
+  organizationId: string;
+  mailboxId: string;
+  mailboxEmail: string;
+  gmailThreadId: string;
+  campaignId?: string | null;
+  contactId?: string | null;
+  subject?: string | null;
+  status: InboxThreadStatus;
+  messageCount: number;
+  lastMessageAt?: string | null;
+  lastInboundAt?: string | null;
+  lastMessageSnippet?: string | null;
+  campaign?: { id: string; name: string } | null;
+  contact?: {
+    id: string;
+    email: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    company?: string | null;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InboxThreadDetail extends InboxThread {
+  messages: InboxMessage[];
+}
+
+export interface GetInboxThreadsParams {
+  page?: number;
+  limit?: number;
+  searchTerm?: string;
+  campaignId?: string;
+  mailboxId?: string;
+  status?: InboxThreadStatus;
+}
+
+export const InboxThreadStatusLabels: Record<InboxThreadStatus, string> = {
+  UNREAD: "Unread",
+  READ: "Read",
+  REPLIED: "Replied",
+  ARCHIVED: "Archived",
+};
@@ -214,6 +214,38 @@ export type {
   PaginatedEmailTemplatesResponse,
 } from "./emailTemplateTypes";
 
+// Inbox Service
+export { inboxService } from "./inboxService";
+export type {
+  InboxThread,
+  InboxThreadDetail,
+  InboxMessage,
+  InboxThreadStatus,
+  GetInboxThreadsParams,
+} from "./inboxTypes";
+export { InboxThreadStatusLabels } from "./inboxTypes";
+
+// Webhook Service
+export { webhookService } from "./webhookService";
+export type {
+  WebhookEndpoint,
+  WebhookEndpointWithSecret,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookDeliveryStatus,
+  GetWebhookDeliveriesParams,
+} from "./webhookTypes";
+export { WebhookEventLabels, WebhookDeliveryStatusLabels } from "./webhookTypes";
+
+// Email Verification Service
+export { emailVerificationService } from "./emailVerificationService";
+export type {
+  EmailVerificationStatus,
+  EmailVerificationQueueResult,
+  EmailVerificationSummary,
+} from "./emailVerificationTypes";
+export { EmailVerificationStatusLabels } from "./emailVerificationTypes";
+
 // Subscription Service
 export { subscriptionService } from "./subscriptionService";
 // Re-export all subscription types and values
@@ -35,6 +35,15 @@ export interface OrganizationSettings {
     academicYearEnd?: string;
     gradingSystem?: string;
   };
+  /** Stop a contact's campaigns when they, or a colleague sharing their companyDomain, reply */
+  sequenceStopRules?: {
+    contact?: "NONE" | "ANY_REPLY";
+    company?: "NONE" | "POSITIVE_REPLY" | "ANY_REPLY";
+  };
+  /** Campaign steps whose content scores below minScore (0-100) can't be activated */
+  contentLint?: {
+    minScore?: number | null;
+  };
   [key: string]: unknown;
 }
 
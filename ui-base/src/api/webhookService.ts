@@ -0,0 +1,58 @@
+import { apiService } from "./apiService";
+import type {
+  GetWebhookDeliveriesParams,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointPayload,
+  WebhookEndpointWithSecret,
+} from "./webhookTypes";
+import type { BaseResponse, PaginatedData } from "./types";
+
+class WebhookService {
+  private baseUrl = "/webhooks";
+
+  async getEndpoints(): Promise<BaseResponse<WebhookEndpoint[]>> {
+    return apiService.get(this.baseUrl);
+  }
+
+  async createEndpoint(
+    payload: WebhookEndpointPayload
+  ): Promise<BaseResponse<WebhookEndpointWithSecret>> {
+    return apiService.post(this.baseUrl, payload);
+  }
+
+  async updateEndpoint(
+    id: string,
+    payload: Partial<WebhookEndpointPayload>
+  ): Promise<BaseResponse<WebhookEndpoint>> {
+    return apiService.patch(`${this.baseUrl}/${id}`, payload);
+  }
+
+  async deleteEndpoint(id: string): Promise<BaseResponse<{ success: boolean }>> {
+    return apiService.delete(`${this.baseUrl}/${id}`);
+  }
+
+  async rotateSecret(id: string): Promise<BaseResponse<WebhookEndpointWithSecret>> {
+    return apiService.post(`${this.baseUrl}/${id}/rotate-secret`);
+  }
+
+  async getDeliveries(
+    params: GetWebhookDeliveriesParams = {}
+  ): Promise<BaseResponse<PaginatedData<WebhookDelivery>>> {
+    const queryParams = new URLSearchParams();
+    if (params.page) queryParams.append("page", params.page.toString());
+    if (params.limit) queryParams.append("limit", params.limit.toString());
+    if (params.endpointId) queryParams.append("endpointId", params.endpointId);
+    if (params.event) queryParams.append("event", params.event);
+    if (params.status) queryParams.append("status", params.status);
+
+    const url = `${this.baseUrl}/deliveries?${queryParams.toString()}`;
+    return apiService.get(url);
+  }
+
+  async redeliver(deliveryId: string): Promise<BaseResponse<WebhookDelivery>> {
+    return apiService.post(`${this.baseUrl}/deliveries/${deliveryId}/redeliver`);
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,85 @@
+export type WebhookEvent =
+  | "email.sent"
+  | "email.opened"
+  | "email.clicked"
+  | "email.replied"
+  | "email.bounced"
+  | "contact.unsubscribed"
+  | "campaign.status_changed"
+  | "contact_import.completed";
+
+export type WebhookDeliveryStatus = "PENDING" | "SUCCEEDED" | "FAILED";
+
+export interface WebhookEndpoint {
+  id: string;
+  organizationId: string;
+  url: string;
+  description?: string | null;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Returned once when an endpoint is created or its secret rotated */
+export interface WebhookEndpointWithSecret extends WebhookEndpoint {
+  secret: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  organizationId: string;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  organizationId: string;
+  event: WebhookEvent;
+  eventId: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  lastAttemptAt?: string | null;
+  deliveredAt?: string | null;
+  redeliveryOf?: string | null;
+  createdAt: string;
+}
+
+export interface WebhookEndpointPayload {
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  isActive?: boolean;
+}
+
+export interface GetWebhookDeliveriesParams {
+  page?: number;
+  limit?: number;
+  endpointId?: string;
+  event?: WebhookEvent;
+  status?: WebhookDeliveryStatus;
+}
+
+export const WebhookEventLabels: Record<WebhookEvent, string> = {
+  "email.sent": "Email sent",
+  "email.opened": "Email opened",
+  "email.clicked": "Link clicked",
+  "email.replied": "Email replied",
+  "email.bounced": "Email bounced",
+  "contact.unsubscribed": "Contact unsubscribed",
+  "campaign.status_changed": "Campaign status changed",
+  "contact_import.completed": "Contact import completed",
+};
+
+export const WebhookDeliveryStatusLabels: Record<WebhookDeliveryStatus, string> = {
+  PENDING: "Pending",
+  SUCCEEDED: "Succeeded",
+  FAILED: "Failed",
+};
@@ -7,7 +7,17 @@ import {
   DialogDescription,
 } from "./ui/dialog";
 import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Checkbox } from "./ui/checkbox";
 import { Progress } from "./ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import ImportColumnMapping from "./ImportColumnMapping";
 import {
   Upload,
   FileText,
@@ -16,6 +26,8 @@ import {
   CheckCircle,
   AlertCircle,
   Clock,
+  ArrowLeft,
+  RotateCcw,
 } from "lucide-react";
 import {
   useExcelUpload,
@@ -27,6 +39,15 @@ import { useUploadStore } from "@/stores/uploadStore";
 import { toast } from "sonner";
 import { API_CONFIG } from "@/config/constants";
 import { contactService } from "@/api/contactService";
+import {
+  ContactImportStrategyLabels,
+  ImportableContactFieldLabels,
+  RequiredImportFields,
+  type ContactImportPreview,
+  type ContactImportStrategy,
+  type ImportColumnMapping as ColumnMapping,
+  type ImportMappingPreset,
+} from "@/api/contactTypes";
 import { PlanLimitWarningDialog } from "@/components/plan-limit-warning-dialog";
 
 interface ExcelUploadModalProps {
@@ -52,13 +73,30 @@ export default function ExcelUploadModal({
     estimatedCount?: number;
   } | null>(null);
 
-  const { uploadFile, progress, isUploading, error, reset, cancelCurrentJob, currentJobId } = useExcelUpload();
+  const [preview, setPreview] = useState<ContactImportPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [presets, setPresets] = useState<ImportMappingPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string>("none");
+  const [savePresetName, setSavePresetName] = useState("");
+  const [strategy, setStrategy] = useState<ContactImportStrategy>("SKIP");
+  const [overwriteFields, setOverwriteFields] = useState<string[]>([]);
+  // Settings of the last import, reused when its fixed error report is uploaded
+  const [retrySettings, setRetrySettings] = useState<{
+    mapping: ColumnMapping[];
+    strategy: ContactImportStrategy;
+    overwriteFields: string[];
+  } | null>(null);
+
+  const { confirmImport, progress, isUploading, error, reset, cancelCurrentJob } = useExcelUpload();
   
   // Use global upload store
   const { 
     selectedFile, 
     hasActiveUpload, 
     uploadStartTime,
+    currentFileId,
     setSelectedFile 
   } = useUploadStore();
 
@@ -73,10 +111,22 @@ export default function ExcelUploadModal({
         reset();
         setSelectedFile(null);
         setDragActive(false);
+        clearPreview();
+        setRetrySettings(null);
       }
     }
   }, [isOpen, hasActiveUpload, reset, setSelectedFile]);
 
+  const clearPreview = () => {
+    setPreview(null);
+    setMapping([]);
+    setPreviewError(null);
+    setSelectedPresetId("none");
+    setSavePresetName("");
+    setStrategy("SKIP");
+    setOverwriteFields([]);
+  };
+
   const handleFileSelect = (file: File) => {
     // Prevent new file selection if there's an active upload
     if (hasActiveUpload()) {
@@ -85,6 +135,7 @@ export default function ExcelUploadModal({
 
     // Reset any previous state when selecting a new file
     reset();
+    clearPreview();
     
     // Validate file
     try {
@@ -123,17 +174,100 @@ export default function ExcelUploadModal({
     }
   };
 
-  const handleUpload = async () => {
+  const handlePreview = async () => {
     if (!selectedFile) return;
 
-    console.log("🔍 Modal upload details:", {
-      organizationId,
-      filename: selectedFile.name,
-      fileSize: selectedFile.size,
-    });
+    try {
+      setPreviewing(true);
+      setPreviewError(null);
+      const [previewRes, presetsRes] = await Promise.all([
+        contactService.previewImport(selectedFile, organizationId),
+        contactService.getImportMappingPresets(),
+      ]);
+      if (!previewRes.success || !previewRes.data) {
+        setPreviewError(previewRes.message || "Failed to read file");
+        return;
+      }
+      setPreview(previewRes.data);
+      const headers = previewRes.data.headers;
+      if (retrySettings && retrySettings.mapping.every((entry) => headers.includes(entry.column))) {
+        // A fixed error report has the columns of the last import plus the report's own, which are ignored
+        setMapping(
+          headers.map(
+            (column) =>
+              retrySettings.mapping.find((entry) => entry.column === column) || {
+                column,
+                target: "IGNORE",
+              }
+          )
+        );
+        setStrategy(retrySettings.strategy);
+        setOverwriteFields(retrySettings.overwriteFields);
+      } else {
+        setMapping(previewRes.data.suggestedMapping);
+        setSelectedPresetId(previewRes.data.matchedPresetId || "none");
+      }
+      setPresets(presetsRes.success && presetsRes.data ? presetsRes.data : []);
+    } catch (error: any) {
+      setPreviewError(error?.response?.data?.message || error?.message || "Failed to read file");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const applyPreset = (presetId: string) => {
+    setSelectedPresetId(presetId);
+    const preset = presets.find((p) => p.id === presetId);
+    if (!preset || !preview) return;
+
+    // Columns the preset does not know are left out of the import
+    setMapping(
+      preview.headers.map(
+        (column) =>
+          preset.mapping.find((entry) => entry.column === column) || {
+            column,
+            target: "IGNORE",
+          }
+      )
+    );
+  };
+
+  const missingRequiredFields = RequiredImportFields.filter(
+    (field) => !mapping.some((entry) => entry.target === "FIELD" && entry.field === field)
+  );
+
+  // Email identifies existing contacts and list is a membership, neither can be overwritten
+  const overwritableFields = mapping.flatMap((entry) => {
+    if (entry.target === "FIELD" && entry.field && entry.field !== "email" && entry.field !== "list") {
+      return [{ value: entry.field as string, label: ImportableContactFieldLabels[entry.field] }];
+    }
+    if (entry.target === "CUSTOM_FIELD" && entry.customFieldName) {
+      return [{ value: `customFields.${entry.customFieldName}`, label: entry.customFieldName }];
+    }
+    return [];
+  });
+  const selectedOverwriteFields = overwriteFields.filter((field) =>
+    overwritableFields.some((option) => option.value === field)
+  );
+
+  const toggleOverwriteField = (field: string, checked: boolean) => {
+    setOverwriteFields((current) =>
+      checked ? [...current, field] : current.filter((value) => value !== field)
+    );
+  };
+
+  const handleStartImport = async () => {
+    if (!selectedFile || !preview || missingRequiredFields.length > 0) return;
 
+    setRetrySettings({ mapping, strategy, overwriteFields: selectedOverwriteFields });
     try {
-      await uploadFile(selectedFile, organizationId);
+      await confirmImport(selectedFile, preview.fileId, {
+        mapping,
+        strategy,
+        overwriteFields: strategy === "OVERWRITE_SELECTED" ? selectedOverwriteFields : undefined,
+        savePresetName: savePresetName.trim() || undefined,
+        organizationId,
+      });
     } catch (error: any) {
       // Check if error is a plan limit exceeded error
       const errorData = error?.response?.data || error?.data;
@@ -144,16 +278,8 @@ export default function ExcelUploadModal({
           planName: errorData.planName || "Current Plan",
         });
         setLimitWarningOpen(true);
-      } else {
-        // Error is already handled by the hook, but we can show additional info
-        const errorMessage =
-          errorData?.message ||
-          error?.message ||
-          "An error occurred during upload";
-        if (errorMessage && !error) {
-          toast.error(errorMessage);
-        }
       }
+      // Other errors are shown by the hook
     }
   };
 
@@ -168,6 +294,8 @@ export default function ExcelUploadModal({
     if (!hasActiveUpload()) {
       setSelectedFile(null);
       setDragActive(false);
+      clearPreview();
+      setRetrySettings(null);
     }
 
     // Don't call reset() - this preserves the upload state
@@ -192,18 +320,46 @@ export default function ExcelUploadModal({
       );
     }
 
-    // Only allow CSV files
-    const allowedExtensions = [".csv"];
+    // CSV and Excel files, columns are mapped after upload
+    const allowedExtensions = [".csv", ".xlsx"];
 
     const fileExtension = file.name
       .toLowerCase()
       .substring(file.name.lastIndexOf("."));
 
     if (!allowedExtensions.includes(fileExtension)) {
-      throw new Error("Please select a valid CSV (.csv) file only");
+      throw new Error("Please select a CSV (.csv) or Excel (.xlsx) file");
     }
   };
 
+  const downloadErrorReport = async (format: "csv" | "xlsx") => {
+    if (!currentFileId) return;
+
+    try {
+      const blob = await contactService.downloadImportErrorReport(currentFileId, format, organizationId);
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `contact-import-errors.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download error report:", error);
+      toast.error("Failed to download error report");
+    }
+  };
+
+  // Start over with the fixed error report, the last import's mapping and options are kept
+  const handleReuploadFailures = () => {
+    reset();
+    setSelectedFile(null);
+    setDragActive(false);
+    clearPreview();
+  };
+
   const downloadTemplate = async () => {
     try {
       const blob = await contactService.downloadTemplate();
@@ -229,7 +385,7 @@ export default function ExcelUploadModal({
           <DialogTitle>Bulk Upload Contacts</DialogTitle>
           <div className="flex items-center justify-between">
             <DialogDescription>
-              Import multiple contacts at once using CSV file
+              Import multiple contacts at once from a CSV or Excel file
             </DialogDescription>
             <Button
               variant="ghost"
@@ -277,6 +433,13 @@ export default function ExcelUploadModal({
             </div>
           )}
 
+          {retrySettings && !selectedFile && !progress && !isUploading && (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+              Upload the fixed error report. Its Import Row and Import Errors columns are ignored, and
+              the columns and options of the last import are used again.
+            </div>
+          )}
+
           {/* File Upload Area */}
           {!selectedFile && !progress && !isUploading && !hasActiveUpload() && (
             <div
@@ -308,22 +471,22 @@ export default function ExcelUploadModal({
                 </button>
               </p>
               <p className="text-sm text-muted-foreground">
-                CSV files only • Up to 10,000 rows
+                CSV or Excel (.xlsx) files • Up to 10,000 rows
               </p>
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".csv"
+                accept=".csv,.xlsx"
                 onChange={handleFileInputChange}
                 className="hidden"
                 disabled={hasActiveUpload()}
-                title={hasActiveUpload() ? "Please wait for current upload to complete" : "Select CSV file for bulk upload"}
+                title={hasActiveUpload() ? "Please wait for current upload to complete" : "Select CSV or Excel file for bulk upload"}
               />
             </div>
           )}
 
           {/* Selected File */}
-          {selectedFile && !progress && !isUploading && (
+          {selectedFile && !preview && !progress && !isUploading && (
             <div className="space-y-4">
               <div className="flex items-center justify-between p-4 bg-muted/50 rounded-lg border">
                 <div className="flex items-center space-x-3">
@@ -338,22 +501,139 @@ export default function ExcelUploadModal({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setSelectedFile(null)}
+                  onClick={() => {
+                    setSelectedFile(null);
+                    clearPreview();
+                  }}
                 >
                   <X className="h-4 w-4" />
                 </Button>
               </div>
 
+              {previewError && (
+                <div className="flex items-center space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <AlertCircle className="h-4 w-4 text-red-500" />
+                  <p className="text-sm text-red-700">{previewError}</p>
+                </div>
+              )}
+
               <Button
-                onClick={handleUpload}
-                disabled={isUploading || hasActiveUpload()}
+                onClick={handlePreview}
+                disabled={previewing || hasActiveUpload()}
                 className="w-full"
               >
-                {isUploading ? "Uploading..." : "Start Upload"}
+                {previewing ? "Reading file..." : "Continue to column mapping"}
               </Button>
             </div>
           )}
 
+          {/* Column Mapping */}
+          {selectedFile && preview && !progress && !isUploading && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <p className="text-sm font-medium">{preview.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {preview.totalRows} rows • {preview.headers.length} columns
+                  </p>
+                </div>
+                {presets.length > 0 && (
+                  <Select value={selectedPresetId} onValueChange={applyPreset}>
+                    <SelectTrigger className="h-8 w-[200px]">
+                      <SelectValue placeholder="Mapping preset" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Suggested mapping</SelectItem>
+                      {presets.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <ImportColumnMapping preview={preview} mapping={mapping} onChange={setMapping} />
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Existing contacts</p>
+                <Select
+                  value={strategy}
+                  onValueChange={(value) => setStrategy(value as ContactImportStrategy)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ContactImportStrategyLabels) as ContactImportStrategy[]).map(
+                      (value) => (
+                        <SelectItem key={value} value={value}>
+                          {ContactImportStrategyLabels[value].label}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {ContactImportStrategyLabels[strategy].description}
+                </p>
+                {strategy === "OVERWRITE_SELECTED" && (
+                  <div className="grid grid-cols-2 gap-2 rounded-lg border p-3">
+                    {overwritableFields.map((option) => (
+                      <label
+                        key={option.value}
+                        className="flex items-center gap-2 text-sm"
+                      >
+                        <Checkbox
+                          checked={selectedOverwriteFields.includes(option.value)}
+                          onCheckedChange={(checked) =>
+                            toggleOverwriteField(option.value, checked === true)
+                          }
+                        />
+                        <span className="truncate">{option.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <Input
+                placeholder="Save this mapping as a preset (optional)"
+                value={savePresetName}
+                onChange={(e) => setSavePresetName(e.target.value)}
+              />
+
+              {missingRequiredFields.length > 0 && (
+                <p className="text-sm text-red-600">
+                  Map a column to{" "}
+                  {missingRequiredFields
+                    .map((field) => ImportableContactFieldLabels[field])
+                    .join(" and ")}{" "}
+                  to continue.
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={clearPreview}>
+                  <ArrowLeft className="h-4 w-4" />
+                  Back
+                </Button>
+                <Button
+                  onClick={handleStartImport}
+                  disabled={
+                    missingRequiredFields.length > 0 ||
+                    (strategy === "OVERWRITE_SELECTED" && selectedOverwriteFields.length === 0) ||
+                    hasActiveUpload()
+                  }
+                  className="flex-1"
+                >
+                  Start Import
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Uploading State - Show when uploading but no progress yet */}
           {isUploading && !progress && (
             <div className="space-y-4">
@@ -445,6 +725,22 @@ export default function ExcelUploadModal({
                         </span>
                       </div>
                     )}
+                    {progress.updatedRows !== undefined && progress.updatedRows > 0 && (
+                      <div className="flex items-center gap-1">
+                        <span className="text-muted-foreground">Updated:</span>
+                        <span className="font-bold text-purple-600">
+                          {progress.updatedRows}
+                        </span>
+                      </div>
+                    )}
+                    {progress.unchangedRows !== undefined && progress.unchangedRows > 0 && (
+                      <div className="flex items-center gap-1">
+                        <span className="text-muted-foreground">Unchanged:</span>
+                        <span className="font-bold text-gray-600">
+                          {progress.unchangedRows}
+                        </span>
+                      </div>
+                    )}
                     {(progress.duplicatesInFile !== undefined ||
                       progress.duplicatesInDB !== undefined) && (
                       <>
@@ -469,6 +765,32 @@ export default function ExcelUploadModal({
                   </div>
                 )}
 
+                {progress.stage === "completed" &&
+                  progress.errorReportRows !== undefined &&
+                  progress.errorReportRows > 0 && (
+                  <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg space-y-3">
+                    <p className="text-sm text-amber-800">
+                      {progress.errorReportRows} row{progress.errorReportRows === 1 ? " was" : "s were"}{" "}
+                      not imported. Download them with the reason for each row, fix them and upload
+                      the file again.
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={() => downloadErrorReport("csv")}>
+                        <Download className="h-4 w-4" />
+                        CSV
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => downloadErrorReport("xlsx")}>
+                        <Download className="h-4 w-4" />
+                        Excel
+                      </Button>
+                      <Button size="sm" onClick={handleReuploadFailures}>
+                        <RotateCcw className="h-4 w-4" />
+                        Fix and re-upload failures
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {progress.errors && progress.errors.length > 0 && (
                   <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
                     <h4 className="text-sm font-medium text-red-800 mb-2">
@@ -491,6 +813,8 @@ export default function ExcelUploadModal({
                     reset();
                     setSelectedFile(null);
                     setDragActive(false);
+                    clearPreview();
+                    setRetrySettings(null);
                     handleClose();
                   }} 
                   className="w-full"
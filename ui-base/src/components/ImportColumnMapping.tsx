@@ -0,0 +1,145 @@
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  ImportableContactFieldLabels,
+  type ContactImportPreview,
+  type ImportColumnMapping as ColumnMapping,
+  type ImportableContactField,
+} from "@/api/contactTypes";
+
+interface ImportColumnMappingProps {
+  preview: ContactImportPreview;
+  mapping: ColumnMapping[];
+  onChange: (mapping: ColumnMapping[]) => void;
+}
+
+const IGNORE_VALUE = "ignore";
+const CUSTOM_VALUE = "custom";
+const FIELD_PREFIX = "field:";
+
+const ALL_FIELDS = Object.keys(ImportableContactFieldLabels) as ImportableContactField[];
+
+function toSelectValue(entry: ColumnMapping): string {
+  if (entry.target === "FIELD" && entry.field) return `${FIELD_PREFIX}${entry.field}`;
+  if (entry.target === "CUSTOM_FIELD") return CUSTOM_VALUE;
+  return IGNORE_VALUE;
+}
+
+function toCustomFieldKey(column: string): string {
+  return column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 100);
+}
+
+/**
+ * One row per file column: a sample value and where the column goes
+ */
+export default function ImportColumnMapping({
+  preview,
+  mapping,
+  onChange,
+}: ImportColumnMappingProps) {
+  const usedFields = new Set(
+    mapping.filter((entry) => entry.target === "FIELD").map((entry) => entry.field)
+  );
+
+  const updateEntry = (column: string, value: string) => {
+    onChange(
+      mapping.map((entry) => {
+        if (entry.column !== column) return entry;
+        if (value.startsWith(FIELD_PREFIX)) {
+          return {
+            column,
+            target: "FIELD",
+            field: value.slice(FIELD_PREFIX.length) as ImportableContactField,
+          };
+        }
+        if (value === CUSTOM_VALUE) {
+          return {
+            column,
+            target: "CUSTOM_FIELD",
+            customFieldName: entry.customFieldName || toCustomFieldKey(column),
+          };
+        }
+        return { column, target: "IGNORE" };
+      })
+    );
+  };
+
+  const updateCustomFieldName = (column: string, customFieldName: string) => {
+    onChange(
+      mapping.map((entry) =>
+        entry.column === column ? { ...entry, customFieldName } : entry
+      )
+    );
+  };
+
+  const sampleValue = (column: string) =>
+    preview.sampleRows.map((row) => row[column]).find((value) => value) || "";
+
+  return (
+    <div className="rounded-lg border divide-y">
+      <div className="grid grid-cols-[1fr_1fr_1.2fr] gap-3 px-3 py-2 text-xs font-medium text-muted-foreground">
+        <span>Column</span>
+        <span>Sample</span>
+        <span>Import as</span>
+      </div>
+      {mapping.map((entry) => (
+        <div
+          key={entry.column}
+          className="grid grid-cols-[1fr_1fr_1.2fr] items-start gap-3 px-3 py-2"
+        >
+          <span className="truncate text-sm font-medium pt-2" title={entry.column}>
+            {entry.column || "(blank header)"}
+          </span>
+          <span
+            className="truncate text-sm text-muted-foreground pt-2"
+            title={sampleValue(entry.column)}
+          >
+            {sampleValue(entry.column) || "—"}
+          </span>
+          <div className="space-y-2">
+            <Select
+              value={toSelectValue(entry)}
+              onValueChange={(value) => updateEntry(entry.column, value)}
+            >
+              <SelectTrigger className="h-8 w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={IGNORE_VALUE}>Don't import</SelectItem>
+                <SelectItem value={CUSTOM_VALUE}>Custom field</SelectItem>
+                {ALL_FIELDS.map((field) => (
+                  <SelectItem
+                    key={field}
+                    value={`${FIELD_PREFIX}${field}`}
+                    disabled={usedFields.has(field) && entry.field !== field}
+                  >
+                    {ImportableContactFieldLabels[field]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {entry.target === "CUSTOM_FIELD" && (
+              <Input
+                className="h-8"
+                placeholder="custom_field_name"
+                value={entry.customFieldName || ""}
+                onChange={(e) => updateCustomFieldName(entry.column, e.target.value)}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -51,6 +51,13 @@ export const ROUTE_PERMISSIONS: RoutePermission[] = [
     description: "Audit logs - Superadmin, Admin, and Support",
   },
 
+  // Webhooks
+  {
+    path: "/dashboard/webhooks",
+    roles: ["SUPERADMIN", "ADMIN", "SUPPORT"],
+    description: "Webhook endpoints and delivery log - Superadmin, Admin, and Support",
+  },
+
   // Analytics
   {
     path: "/dashboard/analytics",
@@ -100,6 +107,11 @@ export const ROUTE_PERMISSIONS: RoutePermission[] = [
     roles: ["SUPERADMIN", "ADMIN", "USER", "SUPPORT"],
     description: "Edit campaign - Superadmin, Admin, User, and Support",
   },
+  {
+    path: "/dashboard/inbox",
+    roles: ["SUPERADMIN", "ADMIN", "USER", "SUPPORT"],
+    description: "Campaign reply inbox - Superadmin, Admin, User, and Support",
+  },
 
   // Subscription Management
   {
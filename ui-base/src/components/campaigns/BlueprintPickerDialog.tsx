@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { CampaignsApi } from "@/api/campaigns";
+import type { Campaign, CampaignBlueprint } from "@/api/campaigns";
+import { contactListService } from "@/api/contactListService";
+
+interface BlueprintPickerDialogProps {
+  open: boolean;
+  organizationId?: string;
+  canDelete?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (campaign: Campaign) => void;
+}
+
+export function BlueprintPickerDialog({
+  open,
+  organizationId,
+  canDelete,
+  onOpenChange,
+  onCreated,
+}: BlueprintPickerDialogProps) {
+  const [blueprints, setBlueprints] = useState<CampaignBlueprint[]>([]);
+  const [lists, setLists] = useState<Array<{ id: string; name: string }>>([]);
+  const [blueprintId, setBlueprintId] = useState<string>("");
+  const [name, setName] = useState("");
+  const [contactListId, setContactListId] = useState<string>("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setBlueprintId("");
+    setName("");
+    setContactListId("");
+
+    setLoading(true);
+    CampaignsApi.listBlueprints(organizationId)
+      .then(setBlueprints)
+      .catch((error: unknown) => {
+        setBlueprints([]);
+        toast.error(error instanceof Error ? error.message : "Failed to load blueprints");
+      })
+      .finally(() => setLoading(false));
+
+    contactListService
+      .getContactLists({ organizationId, page: 1, limit: 100 })
+      .then((r) => {
+        const arr = r.data?.data ?? [];
+        setLists(arr.map((l) => ({ id: l.id, name: l.name })));
+      })
+      .catch(() => setLists([]));
+  }, [open, organizationId]);
+
+  const selected = blueprints.find((b) => b.id === blueprintId);
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await CampaignsApi.deleteBlueprint(selected.id);
+      setBlueprints((prev) => prev.filter((b) => b.id !== selected.id));
+      setBlueprintId("");
+      toast.success("Blueprint deleted");
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete blueprint");
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!selected || !name.trim() || !contactListId) return;
+    setSubmitting(true);
+    try {
+      const created = await CampaignsApi.createFromBlueprint(selected.id, {
+        name: name.trim(),
+        contactListId,
+      });
+      toast.success(`Campaign "${created.name}" created from blueprint`);
+      onOpenChange(false);
+      onCreated(created);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to create campaign");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>New Campaign from Blueprint</DialogTitle>
+          <DialogDescription>
+            Start a draft campaign with the steps and settings of a saved sequence.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Blueprint</Label>
+            <div className="flex items-center gap-2">
+              <Select value={blueprintId} onValueChange={setBlueprintId} disabled={loading}>
+                <SelectTrigger className="w-full">
+                  <SelectValue
+                    placeholder={
+                      loading ? "Loading..." : blueprints.length === 0 ? "No blueprints saved yet" : "Select blueprint"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {blueprints.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>
+                      {b.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canDelete && selected && (
+                <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete blueprint">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              )}
+            </div>
+            {selected && (
+              <p className="text-sm text-muted-foreground">
+                {selected.steps.length} {selected.steps.length === 1 ? "step" : "steps"}
+                {selected.description ? ` · ${selected.description}` : ""}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="blueprint-campaign-name">Campaign Name</Label>
+            <Input
+              id="blueprint-campaign-name"
+              value={name}
+              maxLength={255}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Contact List</Label>
+            <Select value={contactListId} onValueChange={setContactListId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select contact list" />
+              </SelectTrigger>
+              <SelectContent>
+                {lists.map((l) => (
+                  <SelectItem key={l.id} value={l.id}>
+                    {l.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={submitting || !selected || !name.trim() || !contactListId}>
+            {submitting ? "Creating..." : "Create Campaign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CampaignsApi } from "@/api/campaigns";
+import type { Campaign } from "@/api/campaigns";
+import { contactListService } from "@/api/contactListService";
+
+interface CampaignCopyDialogProps {
+  /** clone: copy into a new draft campaign, blueprint: save the sequence to the blueprint library */
+  mode: "clone" | "blueprint";
+  campaign: Campaign | null;
+  organizationId?: string;
+  onOpenChange: (open: boolean) => void;
+  onCloned?: (campaign: Campaign) => void;
+}
+
+export function CampaignCopyDialog({
+  mode,
+  campaign,
+  organizationId,
+  onOpenChange,
+  onCloned,
+}: CampaignCopyDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [contactListId, setContactListId] = useState<string>("same");
+  const [lists, setLists] = useState<Array<{ id: string; name: string }>>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!campaign) return;
+    setName(mode === "clone" ? `${campaign.name} (Copy)` : campaign.name);
+    setDescription(campaign.description || "");
+    setContactListId("same");
+
+    if (mode === "clone") {
+      contactListService
+        .getContactLists({ organizationId, page: 1, limit: 100 })
+        .then((r) => {
+          const arr = r.data?.data ?? [];
+          setLists(arr.map((l) => ({ id: l.id, name: l.name })));
+        })
+        .catch(() => setLists([]));
+    }
+  }, [campaign, mode, organizationId]);
+
+  const handleSubmit = async () => {
+    if (!campaign || !name.trim()) return;
+    setSubmitting(true);
+    try {
+      if (mode === "clone") {
+        const created = await CampaignsApi.clone(campaign.id, {
+          name: name.trim(),
+          ...(contactListId !== "same" && { contactListId }),
+        });
+        toast.success(`Campaign cloned as "${created.name}"`);
+        onCloned?.(created);
+      } else {
+        await CampaignsApi.saveAsBlueprint(campaign.id, {
+          name: name.trim(),
+          description: description.trim() || undefined,
+        });
+        toast.success("Blueprint saved");
+      }
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : mode === "clone"
+            ? "Failed to clone campaign"
+            : "Failed to save blueprint"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!campaign} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{mode === "clone" ? "Clone Campaign" : "Save as Blueprint"}</DialogTitle>
+          <DialogDescription>
+            {mode === "clone"
+              ? "Creates a draft copy with the same steps, conditions and settings."
+              : "Saves the steps and settings so new campaigns can start from this sequence."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="copy-name">{mode === "clone" ? "Campaign Name" : "Blueprint Name"}</Label>
+            <Input
+              id="copy-name"
+              value={name}
+              maxLength={255}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {mode === "clone" ? (
+            <div className="space-y-2">
+              <Label>Contact List</Label>
+              <Select value={contactListId} onValueChange={setContactListId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select contact list" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="same">Same as the original campaign</SelectItem>
+                  {lists
+                    .filter((l) => l.id !== campaign?.contactListId)
+                    .map((l) => (
+                      <SelectItem key={l.id} value={l.id}>
+                        {l.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="copy-description">Description</Label>
+              <Textarea
+                id="copy-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="When to use this sequence"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={submitting || !name.trim()}>
+            {submitting ? "Saving..." : mode === "clone" ? "Clone" : "Save Blueprint"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
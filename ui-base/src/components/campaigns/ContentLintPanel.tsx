@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useState } from "react";
+import { CampaignsApi } from "@/api/campaigns";
+import type { CampaignContentReport } from "@/api/campaigns";
+import { organizationService } from "@/api/organizationService";
+import { UserRole } from "@/api/userTypes";
+import { useAppStore } from "@/stores/appStore";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+
+interface ContentLintPanelProps {
+  campaignId: string;
+  organizationId?: string;
+  /** Changes whenever steps are added, edited or removed so the report is refreshed */
+  stepsKey: string;
+}
+
+function scoreClassName(score: number): string {
+  if (score >= 80) return "bg-green-100 text-green-800";
+  if (score >= 60) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+}
+
+export function ContentLintPanel({ campaignId, organizationId, stepsKey }: ContentLintPanelProps) {
+  const { user } = useAppStore();
+  const canEditMinScore = user?.type === "employee" || user?.role === UserRole.ADMIN;
+  const [report, setReport] = useState<CampaignContentReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [minScore, setMinScore] = useState("");
+  const [savingMinScore, setSavingMinScore] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await CampaignsApi.getContentReport(campaignId);
+      setReport(result);
+      setMinScore(result.minScore === null ? "" : String(result.minScore));
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to check content");
+    } finally {
+      setLoading(false);
+    }
+  }, [campaignId]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport, stepsKey]);
+
+  const parsedMinScore = minScore.trim() === "" ? null : Number(minScore);
+  const minScoreValid =
+    parsedMinScore === null || (Number.isInteger(parsedMinScore) && parsedMinScore >= 0 && parsedMinScore <= 100);
+
+  const handleSaveMinScore = async () => {
+    if (!organizationId || !minScoreValid) return;
+    setSavingMinScore(true);
+    try {
+      const response = await organizationService.updateOrganizationSettings(organizationId, {
+        contentLint: { minScore: parsedMinScore },
+      });
+      if (!response.success) {
+        throw new Error(response.message || "Failed to save minimum score");
+      }
+      toast.success(parsedMinScore === null ? "Activation is no longer blocked by content score" : `Activation now requires a score of ${parsedMinScore}`);
+      await loadReport();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save minimum score");
+    } finally {
+      setSavingMinScore(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          Content Check
+          {report && <Badge className={scoreClassName(report.score)}>{report.score}/100</Badge>}
+          {report?.blocked && <Badge variant="destructive">Blocks activation</Badge>}
+        </CardTitle>
+        <Button variant="outline" size="sm" onClick={loadReport} disabled={loading}>
+          {loading ? "Checking..." : "Re-check"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Each step is rendered with sample data and checked for spam-trigger phrases, links, images, a missing
+          plain-text version, Gmail clipping, broken variables and shouting subjects.
+        </p>
+
+        {report && report.steps.length === 0 && <p className="text-sm text-muted-foreground">No step content to check.</p>}
+
+        {report?.steps.map((step) => (
+          <div key={`${step.stepId}-${step.variantId ?? "default"}`} className="rounded-md border p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">
+                {step.name || `Step ${step.stepOrder}`}
+                {step.variantId && <span className="text-muted-foreground"> (variant {step.variantId})</span>}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>{step.linkCount} link(s)</span>
+                <span>{step.imageCount} image(s)</span>
+                <span>{Math.round(step.htmlBytes / 1024)}KB</span>
+                <Badge className={scoreClassName(step.score)}>{step.score}</Badge>
+              </div>
+            </div>
+            {step.issues.length === 0 ? (
+              <p className="text-sm text-green-700">No issues found</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {step.issues.map((issue, index) => (
+                  <li key={`${issue.code}-${index}`} className="flex items-start gap-2">
+                    <Badge variant={issue.severity === "ERROR" ? "destructive" : "secondary"}>{issue.severity}</Badge>
+                    <span className="flex-1">{issue.message}</span>
+                    <span className="text-muted-foreground">-{issue.penalty}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        <div className="space-y-2 border-t pt-4">
+          <Label htmlFor="content-lint-min-score">Block activation below score</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="content-lint-min-score"
+              type="number"
+              min={0}
+              max={100}
+              className="w-32"
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              placeholder="Off"
+              disabled={!canEditMinScore || savingMinScore}
+            />
+            {canEditMinScore && (
+              <Button size="sm" onClick={handleSaveMinScore} disabled={savingMinScore || !minScoreValid || !organizationId}>
+                {savingMinScore ? "Saving..." : "Save"}
+              </Button>
+            )}
+          </div>
+          {!minScoreValid && <p className="text-sm text-red-600">Enter a whole number between 0 and 100</p>}
+          <p className="text-xs text-muted-foreground">
+            Applies to all campaigns of the organization. Leave empty to only report scores.
+            {!canEditMinScore && " Only admins can change it."}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import type { CampaignStep, StepCondition, StepConditionEvent, StepConditionGroup } from "@/api/campaigns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, X } from "lucide-react";
+import { isConditionGroup } from "./followUpConditions";
+
+const EVENTS: { value: StepConditionEvent; label: string }[] = [
+  { value: "SENT", label: "Was sent" },
+  { value: "OPENED", label: "Opened" },
+  { value: "NOT_OPENED", label: "Did not open" },
+  { value: "CLICKED", label: "Clicked any link" },
+  { value: "NOT_CLICKED", label: "Did not click" },
+  { value: "CLICKED_LINK", label: "Clicked a specific link" },
+  { value: "REPLIED", label: "Replied" },
+  { value: "NOT_REPLIED", label: "Did not reply" },
+];
+
+interface FollowUpConditionsBuilderProps {
+  conditions: StepConditionGroup;
+  steps: CampaignStep[];
+  disabled?: boolean;
+  onChange: (conditions: StepConditionGroup) => void;
+  /** Nested groups can't contain further groups */
+  nested?: boolean;
+}
+
+export function FollowUpConditionsBuilder({ conditions, steps, disabled, onChange, nested }: FollowUpConditionsBuilderProps) {
+  const defaultStepId = steps[steps.length - 1]?.id || "";
+
+  const updateNode = (index: number, node: StepCondition | StepConditionGroup) =>
+    onChange({ ...conditions, conditions: conditions.conditions.map((n, i) => (i === index ? node : n)) });
+
+  const removeNode = (index: number) =>
+    onChange({ ...conditions, conditions: conditions.conditions.filter((_, i) => i !== index) });
+
+  const addCondition = () =>
+    onChange({ ...conditions, conditions: [...conditions.conditions, { stepId: defaultStepId, event: "NOT_OPENED" }] });
+
+  const addGroup = () =>
+    onChange({
+      ...conditions,
+      conditions: [
+        ...conditions.conditions,
+        { operator: "OR", conditions: [{ stepId: defaultStepId, event: "OPENED" }] },
+      ],
+    });
+
+  return (
+    <div className={nested ? "space-y-2 rounded-md border p-3" : "space-y-2"}>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Match</span>
+        <Select
+          value={conditions.operator || "AND"}
+          onValueChange={(value) => onChange({ ...conditions, operator: value as "AND" | "OR" })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-[90px]" disabled={disabled}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AND">All</SelectItem>
+            <SelectItem value="OR">Any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">of these conditions</span>
+      </div>
+
+      {conditions.conditions.map((node, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1">
+            {isConditionGroup(node) ? (
+              <FollowUpConditionsBuilder
+                conditions={node}
+                steps={steps}
+                disabled={disabled}
+                onChange={(group) => updateNode(index, group)}
+                nested
+              />
+            ) : (
+              <div className="flex flex-wrap items-center gap-2">
+                <Select
+                  value={node.event}
+                  onValueChange={(value) => updateNode(index, { ...node, event: value as StepConditionEvent })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-[190px]" disabled={disabled}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EVENTS.map((event) => (
+                      <SelectItem key={event.value} value={event.value}>
+                        {event.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">in</span>
+                <Select
+                  value={node.stepId || undefined}
+                  onValueChange={(value) => updateNode(index, { ...node, stepId: value })}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="w-[170px]" disabled={disabled}>
+                    <SelectValue placeholder="Select sequence" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {steps.map((step) => (
+                      <SelectItem key={step.id} value={step.id}>
+                        {step.name || `Sequence ${step.stepOrder}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {node.event === "CLICKED_LINK" && (
+                  <Input
+                    className="w-full"
+                    placeholder="https://example.com/pricing"
+                    value={node.url || ""}
+                    onChange={(e) => updateNode(index, { ...node, url: e.target.value })}
+                    disabled={disabled}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+          {!disabled && conditions.conditions.length > 1 && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => removeNode(index)}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+
+      {!disabled && (
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" onClick={addCondition}>
+            <Plus className="mr-1 h-3 w-3" />
+            Condition
+          </Button>
+          {!nested && (
+            <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+              <Plus className="mr-1 h-3 w-3" />
+              Group
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
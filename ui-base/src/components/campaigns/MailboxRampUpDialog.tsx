@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { CampaignsApi } from "@/api/campaigns";
+import type { MailboxRampUpPreset, SenderMailbox } from "@/api/campaigns";
+
+const PRESETS: Array<{ value: MailboxRampUpPreset; label: string }> = [
+  { value: "CONSERVATIVE", label: "Conservative (5/day, +5% daily)" },
+  { value: "STANDARD", label: "Standard (10/day, +10% daily)" },
+  { value: "AGGRESSIVE", label: "Aggressive (20/day, +20% daily)" },
+  { value: "CUSTOM", label: "Custom" },
+];
+
+interface MailboxRampUpDialogProps {
+  mailbox: SenderMailbox | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (mailbox: SenderMailbox) => void;
+}
+
+export function MailboxRampUpDialog({ mailbox, onOpenChange, onSaved }: MailboxRampUpDialogProps) {
+  const [enabled, setEnabled] = useState(true);
+  const [preset, setPreset] = useState<MailboxRampUpPreset>("STANDARD");
+  const [startVolume, setStartVolume] = useState("10");
+  const [dailyGrowthPercent, setDailyGrowthPercent] = useState("10");
+  const [curveText, setCurveText] = useState("");
+  const [restart, setRestart] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!mailbox) return;
+    const rampUp = mailbox.rampUp;
+    setEnabled(!!rampUp);
+    setPreset(rampUp?.preset ?? "STANDARD");
+    setStartVolume(String(rampUp?.startVolume ?? 10));
+    setDailyGrowthPercent(String(rampUp?.dailyGrowthPercent ?? 10));
+    setCurveText(rampUp?.curve?.join(", ") ?? "");
+    setRestart(false);
+  }, [mailbox]);
+
+  const curve = curveText
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map((value) => Number(value));
+  const curveValid = curve.every((value) => Number.isInteger(value) && value >= 1) && curve.length <= 90;
+  const start = Number(startVolume);
+  const growth = Number(dailyGrowthPercent);
+  const customValid =
+    curve.length > 0
+      ? curveValid
+      : Number.isInteger(start) && start >= 1 && Number.isInteger(growth) && growth >= 1 && growth <= 100;
+  const canSave = !enabled || preset !== "CUSTOM" || customValid;
+
+  const handleSave = async () => {
+    if (!mailbox || !canSave) return;
+    setSaving(true);
+    try {
+      const updated = await CampaignsApi.updateMailboxRampUp(mailbox.id, {
+        enabled,
+        ...(enabled && { preset, restart }),
+        ...(enabled && preset === "CUSTOM" && (curve.length > 0 ? { curve } : { startVolume: start, dailyGrowthPercent: growth })),
+      });
+      toast.success(enabled ? `Ramp-up of ${mailbox.email} saved` : `${mailbox.email} now sends at the plan limit`);
+      onSaved(updated);
+      onOpenChange(false);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to update mailbox ramp-up");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!mailbox} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Mailbox Ramp-Up</DialogTitle>
+          <DialogDescription>
+            New mailboxes send fewer emails per day at first and grow daily up to your plan limit, which protects
+            the deliverability of {mailbox?.email}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Switch checked={enabled} onCheckedChange={setEnabled} />
+            <Label className="font-normal">Ramp up the daily volume</Label>
+          </div>
+
+          {enabled && (
+            <>
+              <div className="space-y-2">
+                <Label>Schedule</Label>
+                <Select value={preset} onValueChange={(value) => setPreset(value as MailboxRampUpPreset)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRESETS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {preset === "CUSTOM" && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="ramp-up-start">Emails on day 1</Label>
+                      <Input
+                        id="ramp-up-start"
+                        type="number"
+                        min={1}
+                        value={startVolume}
+                        onChange={(e) => setStartVolume(e.target.value)}
+                        disabled={curve.length > 0}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="ramp-up-growth">Daily growth (%)</Label>
+                      <Input
+                        id="ramp-up-growth"
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={dailyGrowthPercent}
+                        onChange={(e) => setDailyGrowthPercent(e.target.value)}
+                        disabled={curve.length > 0}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ramp-up-curve">Or a daily curve</Label>
+                    <Input
+                      id="ramp-up-curve"
+                      value={curveText}
+                      onChange={(e) => setCurveText(e.target.value)}
+                      placeholder="10, 15, 20, 30, 40"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Emails per day, one value per day (up to 90). The plan limit applies after the last day.
+                    </p>
+                    {!curveValid && <p className="text-sm text-red-600">Use whole numbers of at least 1</p>}
+                  </div>
+                </>
+              )}
+
+              {mailbox?.rampUp && (
+                <div className="flex items-center gap-2">
+                  <Checkbox checked={restart} onCheckedChange={(checked) => setRestart(checked === true)} />
+                  <Label className="font-normal">Restart from day 1</Label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !canSave}>
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { CampaignsApi } from "@/api/campaigns";
+import type { CampaignSender, SenderMailbox, SenderRotation } from "@/api/campaigns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MailboxRampUpDialog } from "./MailboxRampUpDialog";
+
+interface SenderPoolSettingsProps {
+  organizationId?: string;
+  senderPool?: CampaignSender[] | null;
+  senderRotation?: SenderRotation;
+  disabled?: boolean;
+  onChange: (value: { senderPool: CampaignSender[]; senderRotation: SenderRotation }) => void;
+}
+
+export function SenderPoolSettings({
+  organizationId,
+  senderPool,
+  senderRotation = "ROUND_ROBIN",
+  disabled,
+  onChange,
+}: SenderPoolSettingsProps) {
+  const [mailboxes, setMailboxes] = useState<SenderMailbox[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [rampUpMailbox, setRampUpMailbox] = useState<SenderMailbox | null>(null);
+  const pool = senderPool || [];
+
+  useEffect(() => {
+    setLoading(true);
+    CampaignsApi.listSenderMailboxes(organizationId)
+      .then((data) => setMailboxes(Array.isArray(data) ? data : []))
+      .catch((err) => {
+        console.error("Failed to load sender mailboxes:", err);
+        setMailboxes([]);
+      })
+      .finally(() => setLoading(false));
+  }, [organizationId]);
+
+  const toggleMailbox = (mailboxId: string, checked: boolean) => {
+    const next = checked
+      ? [...pool, { gmailTokenId: mailboxId, weight: 1 }]
+      : pool.filter((sender) => sender.gmailTokenId !== mailboxId);
+    onChange({ senderPool: next, senderRotation });
+  };
+
+  const setWeight = (mailboxId: string, weight: number) => {
+    const next = pool.map((sender) =>
+      sender.gmailTokenId === mailboxId ? { ...sender, weight: Math.min(100, Math.max(1, weight || 1)) } : sender
+    );
+    onChange({ senderPool: next, senderRotation });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-semibold">Sending Mailboxes</Label>
+        <p className="text-xs text-muted-foreground mt-1">
+          Rotate this campaign across several connected mailboxes. Follow-up steps are always sent from the
+          mailbox that sent the first email. Leave empty to send from your own mailbox.
+        </p>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label className="font-normal">Rotation</Label>
+        <Select
+          value={senderRotation}
+          onValueChange={(value) => onChange({ senderPool: pool, senderRotation: value as SenderRotation })}
+          disabled={disabled || pool.length < 2}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="ROUND_ROBIN">Round-robin</SelectItem>
+            <SelectItem value="WEIGHTED">Weighted</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-muted-foreground">Loading mailboxes...</p>
+      ) : mailboxes.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No connected mailboxes found in this organization.</p>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {mailboxes.map((mailbox) => {
+            const selected = pool.find((sender) => sender.gmailTokenId === mailbox.id);
+            const progress = mailbox.rampUpProgress;
+            return (
+              <div key={mailbox.id} className="space-y-1">
+                <div className="flex items-center gap-3">
+                  <Checkbox
+                    checked={!!selected}
+                    onCheckedChange={(checked) => toggleMailbox(mailbox.id, checked === true)}
+                    disabled={disabled}
+                  />
+                  <span className="text-sm flex-1 truncate">{mailbox.email}</span>
+                  {mailbox.provider === "SMTP" && (
+                    <span className="text-xs text-muted-foreground">SMTP</span>
+                  )}
+                  {selected && senderRotation === "WEIGHTED" && (
+                    <Input
+                      type="number"
+                      min={1}
+                      max={100}
+                      className="w-20 h-8"
+                      value={selected.weight ?? 1}
+                      onChange={(e) => setWeight(mailbox.id, parseInt(e.target.value, 10))}
+                      disabled={disabled}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => setRampUpMailbox(mailbox)}
+                    disabled={disabled}
+                  >
+                    Ramp-up
+                  </Button>
+                </div>
+                {progress && !progress.completed && (
+                  <div className="ml-7 flex items-center gap-3">
+                    <Progress value={progress.dailyLimit} max={progress.planDailyLimit} className="h-1.5 flex-1" />
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      Warm-up day {progress.day}: {progress.dailyLimit}/{progress.planDailyLimit} per day
+                      {progress.completesOn && `, full volume on ${progress.completesOn}`}
+                    </span>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <MailboxRampUpDialog
+        mailbox={rampUpMailbox}
+        onOpenChange={(open) => !open && setRampUpMailbox(null)}
+        onSaved={(updated) =>
+          setMailboxes((current) => current.map((mailbox) => (mailbox.id === updated.id ? { ...mailbox, ...updated } : mailbox)))
+        }
+      />
+    </div>
+  );
+}
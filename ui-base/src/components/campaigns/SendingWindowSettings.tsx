@@ -0,0 +1,151 @@
+import { useState } from "react";
+import type { SendingWindow } from "@/api/campaigns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { X } from "lucide-react";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+const DEFAULT_WINDOW: SendingWindow = {
+  days: [1, 2, 3, 4, 5],
+  startTime: "09:00",
+  endTime: "17:00",
+  excludedDates: [],
+  useRecipientTimezone: false,
+};
+
+interface SendingWindowSettingsProps {
+  sendingWindow?: SendingWindow | null;
+  disabled?: boolean;
+  onChange: (sendingWindow: SendingWindow | null) => void;
+}
+
+export function SendingWindowSettings({ sendingWindow, disabled, onChange }: SendingWindowSettingsProps) {
+  const [holiday, setHoliday] = useState("");
+  const current = sendingWindow || DEFAULT_WINDOW;
+  const excludedDates = current.excludedDates || [];
+
+  const update = (changes: Partial<SendingWindow>) => onChange({ ...current, ...changes });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    const days = checked ? [...current.days, day] : current.days.filter((d) => d !== day);
+    update({ days: days.sort() });
+  };
+
+  const addHoliday = () => {
+    if (!holiday || excludedDates.includes(holiday)) return;
+    update({ excludedDates: [...excludedDates, holiday].sort() });
+    setHoliday("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <Switch
+          checked={!!sendingWindow}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_WINDOW : null)}
+          disabled={disabled}
+        />
+        <div className="flex-1">
+          <Label className="font-normal cursor-pointer">Limit sending hours</Label>
+          <p className="text-xs text-muted-foreground">
+            Emails falling outside these days and hours move to the next open slot. Hours use the step timezone.
+          </p>
+        </div>
+      </div>
+
+      {sendingWindow && (
+        <>
+          <div className="flex flex-wrap gap-3">
+            {WEEKDAYS.map((day) => (
+              <label key={day.value} className="flex items-center gap-1.5 text-sm">
+                <Checkbox
+                  checked={current.days.includes(day.value)}
+                  onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                  disabled={disabled}
+                />
+                {day.label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              className="w-[120px]"
+              value={current.startTime}
+              onChange={(e) => update({ startTime: e.target.value })}
+              disabled={disabled}
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="time"
+              className="w-[120px]"
+              value={current.endTime}
+              onChange={(e) => update({ endTime: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sm">Holidays</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-[170px]"
+                value={holiday}
+                onChange={(e) => setHoliday(e.target.value)}
+                disabled={disabled}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={addHoliday} disabled={disabled || !holiday}>
+                Add
+              </Button>
+            </div>
+            {excludedDates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {excludedDates.map((date) => (
+                  <span key={date} className="flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs">
+                    {date}
+                    {!disabled && (
+                      <button
+                        type="button"
+                        onClick={() => update({ excludedDates: excludedDates.filter((d) => d !== date) })}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              checked={!!current.useRecipientTimezone}
+              onCheckedChange={(checked) => update({ useRecipientTimezone: checked })}
+              disabled={disabled}
+            />
+            <div className="flex-1">
+              <Label className="font-normal cursor-pointer">Deliver in recipient's timezone</Label>
+              <p className="text-xs text-muted-foreground">
+                Apply the sending hours in each contact's own timezone when it is known
+              </p>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
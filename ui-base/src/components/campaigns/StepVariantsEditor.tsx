@@ -0,0 +1,195 @@
+import type { AbTestWinnerMetric, StepAbTest, StepVariant, StepVariantResult } from "@/api/campaigns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trophy, X } from "lucide-react";
+import { DEFAULT_AB_TEST } from "./stepVariants";
+
+const MAX_VARIANTS = 5;
+
+const METRICS: { value: AbTestWinnerMetric; label: string }[] = [
+  { value: "OPEN_RATE", label: "Open rate" },
+  { value: "CLICK_RATE", label: "Click rate" },
+  { value: "REPLY_RATE", label: "Reply rate" },
+];
+
+const nextVariantId = (variants: StepVariant[]): string => {
+  const used = new Set(variants.map((variant) => variant.id));
+  for (let code = 65; code <= 90; code++) {
+    const id = String.fromCharCode(code);
+    if (!used.has(id)) return id;
+  }
+  return "";
+};
+
+interface StepVariantsEditorProps {
+  variants: StepVariant[];
+  abTest: StepAbTest | null;
+  templates: { id: string; name: string }[];
+  results?: StepVariantResult[];
+  disabled?: boolean;
+  onVariantsChange: (variants: StepVariant[]) => void;
+  onAbTestChange: (abTest: StepAbTest | null) => void;
+}
+
+export function StepVariantsEditor({
+  variants,
+  abTest,
+  templates,
+  results,
+  disabled,
+  onVariantsChange,
+  onAbTestChange,
+}: StepVariantsEditorProps) {
+  const totalWeight = variants.reduce((sum, variant) => sum + (variant.weight || 0), 0);
+
+  const updateVariant = (index: number, changes: Partial<StepVariant>) =>
+    onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+
+  const removeVariant = (index: number) => onVariantsChange(variants.filter((_, i) => i !== index));
+
+  const addVariant = () =>
+    onVariantsChange([...variants, { id: nextVariantId(variants), templateId: "", subject: null, weight: 1 }]);
+
+  const parseNumber = (value: string, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? fallback : parsed;
+  };
+
+  return (
+    <div className="space-y-3">
+      {variants.map((variant, index) => {
+        const result = results?.find((r) => r.variantId === variant.id);
+        return (
+          <div key={variant.id} className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">
+                Variant {variant.id}
+                {result?.isWinner && <Trophy className="ml-2 inline h-4 w-4 text-yellow-500" />}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">
+                  {totalWeight > 0 ? Math.round((variant.weight / totalWeight) * 100) : 0}% of sends
+                </span>
+                {!disabled && variants.length > 2 && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => removeVariant(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-[1fr_90px] gap-2">
+              <Select
+                value={variant.templateId || undefined}
+                onValueChange={(value) => updateVariant(index, { templateId: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-full" disabled={disabled}>
+                  <SelectValue placeholder="Select template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min="1"
+                max="100"
+                title="Weight"
+                value={variant.weight}
+                onChange={(e) => updateVariant(index, { weight: parseNumber(e.target.value, 1) })}
+                disabled={disabled}
+              />
+            </div>
+            <Input
+              placeholder="Subject override (optional)"
+              value={variant.subject || ""}
+              onChange={(e) => updateVariant(index, { subject: e.target.value || null })}
+              disabled={disabled}
+            />
+            {result && result.sent > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {result.sent} sent · {result.openRate}% opened · {result.clickRate}% clicked · {result.replyRate}% replied
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      {!disabled && variants.length < MAX_VARIANTS && (
+        <Button type="button" variant="outline" size="sm" onClick={addVariant}>
+          <Plus className="mr-1 h-3 w-3" />
+          Variant
+        </Button>
+      )}
+
+      <div className="space-y-2 rounded-md border p-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={!!abTest}
+            onChange={(e) => onAbTestChange(e.target.checked ? DEFAULT_AB_TEST : null)}
+            disabled={disabled}
+          />
+          Test on a sample first, then send the winner to the rest
+        </label>
+        {abTest && (
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Test sample (%)</Label>
+              <Input
+                type="number"
+                min="5"
+                max="50"
+                value={abTest.testPercentage}
+                onChange={(e) => onAbTestChange({ ...abTest, testPercentage: parseNumber(e.target.value, 20) })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Wait (hours)</Label>
+              <Input
+                type="number"
+                min="1"
+                max="168"
+                value={abTest.waitHours}
+                onChange={(e) => onAbTestChange({ ...abTest, waitHours: parseNumber(e.target.value, 24) })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Winner by</Label>
+              <Select
+                value={abTest.winnerMetric}
+                onValueChange={(value) => onAbTestChange({ ...abTest, winnerMetric: value as AbTestWinnerMetric })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-full" disabled={disabled}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {METRICS.map((metric) => (
+                    <SelectItem key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+        {abTest?.winnerVariantId && (
+          <p className="text-xs text-muted-foreground">
+            Variant {abTest.winnerVariantId} won
+            {abTest.decidedAt ? ` on ${new Date(abTest.decidedAt).toLocaleString()}` : ""}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
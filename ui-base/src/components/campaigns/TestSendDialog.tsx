@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { CampaignsApi } from "@/api/campaigns";
+import type { Campaign, CampaignStep, SenderMailbox } from "@/api/campaigns";
+import { contactListService } from "@/api/contactListService";
+import type { Contact } from "@/api/contactTypes";
+
+const MAX_RECIPIENTS = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface TestSendDialogProps {
+  campaign: Partial<Campaign>;
+  step: CampaignStep | null;
+  organizationId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TestSendDialog({ campaign, step, organizationId, onOpenChange }: TestSendDialogProps) {
+  const [recipientsText, setRecipientsText] = useState("");
+  const [contactId, setContactId] = useState<string>("sample");
+  const [variantId, setVariantId] = useState<string>("default");
+  const [senderTokenId, setSenderTokenId] = useState<string>("first");
+  const [contacts, setContacts] = useState<Array<{ id: string; label: string }>>([]);
+  const [mailboxes, setMailboxes] = useState<SenderMailbox[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!step) return;
+    setContactId("sample");
+    setVariantId("default");
+    setSenderTokenId("first");
+
+    if (campaign.contactListId) {
+      contactListService
+        .getListContacts(campaign.contactListId)
+        .then((r) => {
+          const arr: Contact[] = r.data?.data ?? [];
+          setContacts(
+            arr.slice(0, 100).map((c) => {
+              const name = [c.firstName, c.lastName].filter(Boolean).join(" ");
+              return { id: c.id, label: name ? `${name} <${c.email}>` : c.email };
+            })
+          );
+        })
+        .catch(() => setContacts([]));
+    }
+
+    const poolIds = (campaign.senderPool || []).map((s) => s.gmailTokenId);
+    if (poolIds.length > 1) {
+      CampaignsApi.listSenderMailboxes(organizationId)
+        .then((all) => setMailboxes((all || []).filter((m) => poolIds.includes(m.id) && m.status === "ACTIVE")))
+        .catch(() => setMailboxes([]));
+    } else {
+      setMailboxes([]);
+    }
+  }, [step, campaign.contactListId, campaign.senderPool, organizationId]);
+
+  const recipients = Array.from(
+    new Set(
+      recipientsText
+        .split(/[\s,;]+/)
+        .map((email) => email.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+  const invalid = recipients.filter((email) => !EMAIL_PATTERN.test(email));
+  const canSend = recipients.length > 0 && recipients.length <= MAX_RECIPIENTS && invalid.length === 0;
+
+  const handleSend = async () => {
+    if (!campaign.id || !step || !canSend) return;
+    setSubmitting(true);
+    try {
+      const result = await CampaignsApi.testSendStep(campaign.id, step.id, {
+        recipients,
+        ...(contactId !== "sample" && { contactId }),
+        ...(variantId !== "default" && { variantId }),
+        ...(senderTokenId !== "first" && { senderTokenId }),
+      });
+      const failed = result.recipients.filter((r) => !r.success);
+      if (failed.length === 0) {
+        toast.success(`Test email sent from ${result.sentFrom} to ${result.recipients.length} address(es)`);
+        onOpenChange(false);
+      } else {
+        toast.error(`Test email failed for ${failed.map((r) => `${r.email}: ${r.error}`).join(", ")}`);
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test email");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!step} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Send Test Email</DialogTitle>
+          <DialogDescription>
+            Sends {step?.name || `step ${step?.stepOrder ?? ""}`} exactly as contacts receive it, with tracking,
+            signature and unsubscribe footer. Test emails are not counted in the campaign stats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="test-send-recipients">Seed Addresses</Label>
+            <Textarea
+              id="test-send-recipients"
+              value={recipientsText}
+              onChange={(e) => setRecipientsText(e.target.value)}
+              placeholder="qa@yourcompany.com, seed@inbox-test.com"
+            />
+            {invalid.length > 0 && <p className="text-sm text-red-600">Invalid: {invalid.join(", ")}</p>}
+            {recipients.length > MAX_RECIPIENTS && (
+              <p className="text-sm text-red-600">At most {MAX_RECIPIENTS} addresses per test send</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Personalize With</Label>
+            <Select value={contactId} onValueChange={setContactId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select contact" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="sample">Sample data (John Doe, Acme Corp)</SelectItem>
+                {contacts.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {step?.variants && step.variants.length > 0 && (
+            <div className="space-y-2">
+              <Label>Variant</Label>
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select variant" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Step template</SelectItem>
+                  {step.variants.map((v) => (
+                    <SelectItem key={v.id} value={v.id}>
+                      Variant {v.id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {mailboxes.length > 1 && (
+            <div className="space-y-2">
+              <Label>Send From</Label>
+              <Select value={senderTokenId} onValueChange={setSenderTokenId}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select mailbox" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="first">First mailbox of the sender pool</SelectItem>
+                  {mailboxes.map((m) => (
+                    <SelectItem key={m.id} value={m.id}>
+                      {m.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={submitting || !canSend}>
+            {submitting ? "Sending..." : "Send Test"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,15 @@
+import type { StepCondition, StepConditionGroup } from "@/api/campaigns";
+
+export const isConditionGroup = (node: StepCondition | StepConditionGroup): node is StepConditionGroup =>
+  Array.isArray((node as StepConditionGroup).conditions);
+
+/**
+ * Every group has at least one condition and link conditions have a URL
+ */
+export const areConditionsComplete = (group: StepConditionGroup): boolean =>
+  group.conditions.length > 0 &&
+  group.conditions.every((node) =>
+    isConditionGroup(node)
+      ? areConditionsComplete(node)
+      : !!node.stepId && (node.event !== "CLICKED_LINK" || !!node.url?.trim())
+  );
@@ -0,0 +1,9 @@
+import type { StepAbTest, StepVariant } from "@/api/campaigns";
+
+export const DEFAULT_AB_TEST: StepAbTest = { testPercentage: 20, waitHours: 24, winnerMetric: "OPEN_RATE" };
+
+/**
+ * Every variant has a template and a positive weight
+ */
+export const areVariantsComplete = (variants: StepVariant[]): boolean =>
+  variants.length >= 2 && variants.every((variant) => !!variant.templateId && variant.weight >= 1);
@@ -43,7 +43,10 @@ const navData = {
     {
       title: "System",
       url: "#",
-      items: [{ title: "Audit Logs", url: "/dashboard/audit-logs" }],
+      items: [
+        { title: "Audit Logs", url: "/dashboard/audit-logs" },
+        { title: "Webhooks", url: "/dashboard/webhooks" },
+      ],
     },
   ],
 };
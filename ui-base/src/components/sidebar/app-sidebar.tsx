@@ -68,7 +68,8 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
               location.pathname.startsWith("/dashboard/contact-lists") ||
               location.pathname.startsWith("/dashboard/templates") ||
               location.pathname.startsWith("/dashboard/assets") ||
-              location.pathname.startsWith("/dashboard/campaigns"),
+              location.pathname.startsWith("/dashboard/campaigns") ||
+              location.pathname.startsWith("/dashboard/inbox"),
             items: [
               {
                 title: "Contacts",
@@ -90,6 +91,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                 title: "Campaigns",
                 url: "/dashboard/campaigns",
               },
+              {
+                title: "Inbox",
+                url: "/dashboard/inbox",
+              },
             ],
             requiredRoutes: [
               "/dashboard/contacts",
@@ -97,6 +102,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
               "/dashboard/templates",
               "/dashboard/assets",
               "/dashboard/campaigns",
+              "/dashboard/inbox",
             ],
           },
         ];
@@ -170,7 +176,8 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             location.pathname.startsWith("/dashboard/contact-lists") ||
             location.pathname.startsWith("/dashboard/templates") ||
             location.pathname.startsWith("/dashboard/assets") ||
-            location.pathname.startsWith("/dashboard/campaigns"),
+            location.pathname.startsWith("/dashboard/campaigns") ||
+            location.pathname.startsWith("/dashboard/inbox"),
           items: [
             {
               title: "Contacts",
@@ -192,6 +199,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
               title: "Campaigns",
               url: "/dashboard/campaigns",
             },
+            {
+              title: "Inbox",
+              url: "/dashboard/inbox",
+            },
           ],
           requiredRoutes: [
             "/dashboard/contacts",
@@ -199,6 +210,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             "/dashboard/templates",
             "/dashboard/assets",
             "/dashboard/campaigns",
+            "/dashboard/inbox",
           ],
         },
         {
@@ -227,14 +239,20 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           title: "System",
           url: "#",
           icon: Command,
-          isActive: location.pathname.startsWith("/dashboard/audit-logs"),
+          isActive:
+            location.pathname.startsWith("/dashboard/audit-logs") ||
+            location.pathname.startsWith("/dashboard/webhooks"),
           items: [
             {
               title: "Audit Logs",
               url: "/dashboard/audit-logs",
             },
+            {
+              title: "Webhooks",
+              url: "/dashboard/webhooks",
+            },
           ],
-          requiredRoute: "/dashboard/audit-logs",
+          requiredRoutes: ["/dashboard/audit-logs", "/dashboard/webhooks"],
         },
       ];
     };
@@ -3,6 +3,8 @@ import { io, Socket } from "socket.io-client";
 import { toast } from "sonner";
 import { API_CONFIG } from "@/config/constants";
 import { useUploadStore } from "@/stores/uploadStore";
+import { contactService } from "@/api/contactService";
+import type { ConfirmContactImportRequest } from "@/api/contactTypes";
 
 export interface UploadProgress {
   stage:
@@ -27,6 +29,9 @@ export interface UploadProgress {
   duplicateCount?: number; // Legacy field
   uploadedCount?: number;
   restoredRows?: number; // 🆕 NEW: Restored soft-deleted contacts
+  updatedRows?: number; // Existing contacts changed by the upsert strategy
+  unchangedRows?: number; // Existing contacts left as they were
+  errorReportRows?: number; // Rejected rows in the downloadable error report
   errors?: string[];
   timestamp?: Date | string;
   elapsedMs?: number; // Elapsed time in milliseconds
@@ -46,6 +51,11 @@ export interface UploadResult {
 
 export interface UseExcelUploadReturn {
   uploadFile: (file: File, organizationId?: string) => Promise<UploadResult>;
+  confirmImport: (
+    file: File,
+    fileId: string,
+    payload: ConfirmContactImportRequest
+  ) => Promise<void>;
   progress: UploadProgress | null;
   isUploading: boolean;
   error: string | null;
@@ -397,6 +407,40 @@ export const useExcelUpload = (): UseExcelUploadReturn => {
     });
   }, []);
 
+  // Queue a previewed import with its confirmed mapping, then follow it like a direct upload
+  const confirmImport = useCallback(
+    async (file: File, fileId: string, payload: ConfirmContactImportRequest) => {
+      if (hasActiveUpload()) {
+        throw new Error("Another upload is already in progress. Please wait for it to complete.");
+      }
+
+      setUploading(true);
+      setError(null);
+      setProgress(null);
+      setSelectedFile(file);
+      setOrganizationId(payload.organizationId || null);
+      setUploadStartTime(Date.now());
+
+      try {
+        const result = await contactService.confirmImport(fileId, payload);
+        if (!result.success || !result.data) {
+          throw new Error(result.message || "Failed to start import");
+        }
+
+        currentFileIdRef.current = fileId;
+        setCurrentJob(result.data.jobId, fileId);
+        connectToProgressUpdates(fileId);
+      } catch (err: any) {
+        const errorMessage =
+          err?.response?.data?.message || (err instanceof Error ? err.message : "Failed to start import");
+        setError(errorMessage);
+        setUploading(false);
+        throw err;
+      }
+    },
+    [connectToProgressUpdates]
+  );
+
   const cancelCurrentJob = useCallback(async () => {
     if (!currentJobId) {
       console.log("No job to cancel");
@@ -482,6 +526,7 @@ export const useExcelUpload = (): UseExcelUploadReturn => {
 
   return {
     uploadFile,
+    confirmImport,
     progress,
     isUploading,
     error,
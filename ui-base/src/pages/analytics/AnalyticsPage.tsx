@@ -14,6 +14,7 @@ import { DateFilter } from "./components/DateFilter";
 import { UserFilter } from "./components/UserFilter";
 import { UserAnalyticsTable } from "./components/UserAnalyticsTable";
 import { CampaignPerformanceTable } from "./components/CampaignPerformanceTable";
+import { EngagementBreakdown } from "./components/EngagementBreakdown";
 import { OrganizationAnalyticsTable } from "./components/OrganizationAnalyticsTable";
 import { useAppStore } from "@/stores/appStore";
 import { Button } from "@/components/ui/button";
@@ -82,6 +83,11 @@ export default function AnalyticsPage() {
     return sessionStorage.getItem('analytics_userId') || null;
   });
 
+  // Only count opens and clicks classified as human in the KPIs
+  const [excludeNonHuman, setExcludeNonHuman] = React.useState<boolean>(() => {
+    return sessionStorage.getItem('analytics_excludeNonHuman') === 'true';
+  });
+
   // Fetch KPI data (depends on date range and user filter)
   const fetchKpiData = React.useCallback(async () => {
     // Platform view doesn't require organizationId
@@ -98,9 +104,10 @@ export default function AnalyticsPage() {
       }
     }
 
-    const baseParams: { startDate?: string; endDate?: string; organizationId?: string; userId?: string; platformView?: boolean } = {};
+    const baseParams: { startDate?: string; endDate?: string; organizationId?: string; userId?: string; platformView?: boolean; excludeNonHuman?: boolean } = {};
     if (startDate) baseParams.startDate = startDate;
     if (endDate) baseParams.endDate = endDate;
+    if (excludeNonHuman) baseParams.excludeNonHuman = true;
     if (platformView) {
       baseParams.platformView = true;
     } else {
@@ -129,7 +136,7 @@ export default function AnalyticsPage() {
       toast.error("An error occurred while loading KPI statistics");
       setKpiStats(null);
     }
-  }, [startDate, endDate, effectiveOrganizationId, selectedUserId, platformView, isEmployee, selectedOrganizationId]);
+  }, [startDate, endDate, effectiveOrganizationId, selectedUserId, platformView, isEmployee, selectedOrganizationId, excludeNonHuman]);
 
   // Fetch Campaign analytics (depends on date range, campaign pagination, and user filter)
   const fetchCampaignData = React.useCallback(async () => {
@@ -336,6 +343,12 @@ export default function AnalyticsPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [startDate, endDate, effectiveOrganizationId, selectedUserId, platformView, isEmployee, selectedOrganizationId]);
 
+  // Update only KPI data when the human-only toggle changes
+  React.useEffect(() => {
+    fetchKpiData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [excludeNonHuman]);
+
   // Update only campaign data when campaign pagination changes
   React.useEffect(() => {
     // For regular users, require organizationId. For employees, allow without
@@ -456,6 +469,19 @@ export default function AnalyticsPage() {
               </Label>
             </div>
           )}
+          <div className="flex items-center gap-2 px-3 py-2 border rounded-md" title="Leave out Apple Mail prefetches, image proxies and link scanners">
+            <Switch
+              id="exclude-non-human"
+              checked={excludeNonHuman}
+              onCheckedChange={(checked) => {
+                setExcludeNonHuman(checked);
+                sessionStorage.setItem('analytics_excludeNonHuman', String(checked));
+              }}
+            />
+            <Label htmlFor="exclude-non-human" className="text-sm font-medium cursor-pointer">
+              Human Only
+            </Label>
+          </div>
           {!platformView && user?.role === UserRole.ADMIN ? (
             <UserFilter
               organizationId={user?.organizationId || ''}
@@ -506,6 +532,17 @@ export default function AnalyticsPage() {
         />
       )}
 
+      {/* Engagement Breakdown - Show if platform view is off and an organization is selected */}
+      {!platformView && effectiveOrganizationId && (
+        <EngagementBreakdown
+          campaigns={campaignAnalytics}
+          startDate={startDate}
+          endDate={endDate}
+          organizationId={!isEmployee ? user?.organizationId : undefined}
+          excludeNonHuman={excludeNonHuman}
+        />
+      )}
+
       {/* User Analytics Table - Show if platform view is off */}
       {!platformView && (
         <UserAnalyticsTable 
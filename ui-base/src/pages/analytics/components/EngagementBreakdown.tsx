@@ -0,0 +1,212 @@
+"use client";
+
+import * as React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { analyticsService } from "@/api/analyticsService";
+import { CampaignsApi, type CampaignStep } from "@/api/campaigns";
+import type {
+  AnalyticsQueryParams,
+  CampaignAnalytics,
+  EngagementBreakdown as EngagementBreakdownData,
+  EngagementBreakdownRow,
+} from "@/api/analyticsTypes";
+import { toast } from "sonner";
+
+interface EngagementBreakdownProps {
+  campaigns: CampaignAnalytics[];
+  startDate?: string;
+  endDate?: string;
+  organizationId?: string;
+  excludeNonHuman?: boolean;
+}
+
+const DEVICE_LABELS: Record<string, string> = {
+  DESKTOP: "Desktop",
+  MOBILE: "Mobile",
+  TABLET: "Tablet",
+};
+
+function BreakdownTable({
+  title,
+  rows,
+  formatValue,
+}: {
+  title: string;
+  rows: EngagementBreakdownRow[];
+  formatValue?: (value: string) => string;
+}) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{title}</TableHead>
+            <TableHead className="text-center">Opens</TableHead>
+            <TableHead className="text-center">Clicks</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length > 0 ? (
+            rows.map((row) => (
+              <TableRow key={row.value}>
+                <TableCell className="font-medium">
+                  {formatValue ? formatValue(row.value) : row.value}
+                </TableCell>
+                <TableCell className="text-center">{row.opens.toLocaleString()}</TableCell>
+                <TableCell className="text-center">{row.clicks.toLocaleString()}</TableCell>
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={3} className="h-16 text-center text-muted-foreground">
+                No opens or clicks
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export function EngagementBreakdown({
+  campaigns,
+  startDate,
+  endDate,
+  organizationId,
+  excludeNonHuman,
+}: EngagementBreakdownProps) {
+  const [campaignId, setCampaignId] = React.useState<string | null>(null);
+  const [campaignStepId, setCampaignStepId] = React.useState<string | null>(null);
+  const [steps, setSteps] = React.useState<CampaignStep[]>([]);
+  const [data, setData] = React.useState<EngagementBreakdownData | null>(null);
+  const [loading, setLoading] = React.useState(true);
+
+  React.useEffect(() => {
+    setCampaignStepId(null);
+    setSteps([]);
+    if (!campaignId) return;
+
+    CampaignsApi.get(campaignId)
+      .then((campaign) => {
+        const campaignSteps = ((campaign as any)?.steps || []) as CampaignStep[];
+        setSteps([...campaignSteps].sort((a, b) => a.stepOrder - b.stepOrder));
+      })
+      .catch((error) => {
+        console.error("Error fetching campaign steps:", error);
+      });
+  }, [campaignId]);
+
+  React.useEffect(() => {
+    const fetchBreakdown = async () => {
+      const params: AnalyticsQueryParams = {};
+      if (startDate) params.startDate = startDate;
+      if (endDate) params.endDate = endDate;
+      if (organizationId) params.organizationId = organizationId;
+      if (campaignId) params.campaignId = campaignId;
+      if (campaignStepId) params.campaignStepId = campaignStepId;
+      if (excludeNonHuman) params.excludeNonHuman = true;
+
+      setLoading(true);
+      try {
+        const response = await analyticsService.getEngagementBreakdown(params);
+        if (response.success && response.data) {
+          const nestedData = (response.data as any).data;
+          setData((nestedData && nestedData.clients ? nestedData : response.data) as EngagementBreakdownData);
+        } else {
+          toast.error(response.message || "Failed to load engagement breakdown");
+          setData(null);
+        }
+      } catch (error) {
+        console.error("Error fetching engagement breakdown:", error);
+        toast.error("An error occurred while loading the engagement breakdown");
+        setData(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchBreakdown();
+  }, [startDate, endDate, organizationId, campaignId, campaignStepId, excludeNonHuman]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold">Engagement Breakdown</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Opens and clicks by email client, device and country
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={campaignId || "all"}
+            onValueChange={(value) => setCampaignId(value === "all" ? null : value)}
+          >
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Select Campaign" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Campaigns</SelectItem>
+              {campaigns.map((campaign) => (
+                <SelectItem key={campaign.campaignId} value={campaign.campaignId}>
+                  {campaign.campaignName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={campaignStepId || "all"}
+            onValueChange={(value) => setCampaignStepId(value === "all" ? null : value)}
+            disabled={!campaignId || steps.length === 0}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Select Step" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Steps</SelectItem>
+              {steps.map((step) => (
+                <SelectItem key={step.id} value={step.id}>
+                  {step.name || `Step ${step.stepOrder}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="grid gap-4 md:grid-cols-3">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3">
+          <BreakdownTable title="Email Client" rows={data?.clients || []} />
+          <BreakdownTable
+            title="Device"
+            rows={data?.devices || []}
+            formatValue={(value) => DEVICE_LABELS[value] || value}
+          />
+          <BreakdownTable title="Country" rows={data?.countries || []} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useEffect, useMemo, useState, useCallback } from 'react';
 import { CampaignsApi } from '../../api/campaigns';
-import type { Campaign, CampaignStep } from '../../api/campaigns';
+import type { Campaign, CampaignStep, CampaignVerificationFilter, PersonalizationReport } from '../../api/campaigns';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
 import { Label } from '../../components/ui/label';
@@ -27,10 +27,15 @@ import { CampaignMetricsModal } from './CampaignMetricsModal';
 import { ConfirmDeleteDialog } from '@/components/common/ConfirmDeleteDialog';
 import { QuotaModeSelectionDialog } from '@/components/campaigns/QuotaModeSelectionDialog';
 import { QuotaWarningDialog } from '@/components/campaigns/QuotaWarningDialog';
+import { SenderPoolSettings } from '@/components/campaigns/SenderPoolSettings';
+import { SendingWindowSettings } from '@/components/campaigns/SendingWindowSettings';
+import { TestSendDialog } from '@/components/campaigns/TestSendDialog';
+import { ContentLintPanel } from '@/components/campaigns/ContentLintPanel';
 import { userService } from '@/api/userService';
 import {
   AlertDialog,
   AlertDialogAction,
+  AlertDialogCancel,
   AlertDialogContent,
   AlertDialogDescription,
   AlertDialogFooter,
@@ -59,7 +64,10 @@ export function CampaignBuilderPage() {
   const [isViewingStep, setIsViewingStep] = useState(false);
   const [isDeleteStepDialogOpen, setIsDeleteStepDialogOpen] = useState(false);
   const [stepToDelete, setStepToDelete] = useState<CampaignStep | null>(null);
+  const [testSendStep, setTestSendStep] = useState<CampaignStep | null>(null);
   const [overdueStepsAlertOpen, setOverdueStepsAlertOpen] = useState(false);
+  // Contacts rendering empty personalization variables, shown before activating a DRAFT campaign
+  const [personalizationReport, setPersonalizationReport] = useState<PersonalizationReport | null>(null);
   const [overdueSteps, setOverdueSteps] = useState<Array<{ stepId: string; stepName: string; scheduleTime: Date }>>([]);
   const [quotaDialogOpen, setQuotaDialogOpen] = useState(false);
   const [quotaStats, setQuotaStats] = useState<{
@@ -323,7 +331,7 @@ export function CampaignBuilderPage() {
     }
   };
 
-  const toggleActive = async (checked: boolean) => {
+  const toggleActive = async (checked: boolean, skipPersonalizationCheck = false) => {
     if (!campaign?.id) return;
 
     console.log('🔄 toggleActive called:', {
@@ -363,6 +371,19 @@ export function CampaignBuilderPage() {
             return;
           }
 
+          // Warn about contacts whose emails would render with empty variables
+          if (!skipPersonalizationCheck) {
+            try {
+              const report = await CampaignsApi.getPersonalizationReport(campaign.id);
+              if (report.contactsWithMissingValues > 0) {
+                setPersonalizationReport(report);
+                return; // Wait for the user to confirm
+              }
+            } catch (reportError) {
+              console.warn('Could not check personalization, proceeding with activation:', reportError);
+            }
+          }
+
           // Check if campaign has scheduled steps - if so, check quota for scheduled date
           const scheduledSteps = steps.filter(
             step => step.triggerType === 'SCHEDULE' && step.scheduleTime
@@ -863,6 +884,35 @@ export function CampaignBuilderPage() {
                             <p className="text-xs text-muted-foreground">Track when recipients click links in your emails</p>
                           </div>
                         </div>
+                        <div className="flex items-center space-x-2">
+                          <Switch
+                            checked={campaign.humanEngagementOnly ?? false}
+                            onCheckedChange={(checked) => setCampaign({ ...campaign, humanEngagementOnly: checked })}
+                            disabled={isViewMode}
+                          />
+                          <div className="flex-1">
+                            <Label className="font-normal cursor-pointer">Human Engagement Only</Label>
+                            <p className="text-xs text-muted-foreground">Follow-up conditions ignore opens and clicks from Apple Mail prefetches, image proxies and link scanners</p>
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <Label className="font-normal">Email Verification</Label>
+                          <Select
+                            value={campaign.verificationFilter ?? 'ALL'}
+                            onValueChange={(v) => setCampaign({ ...campaign, verificationFilter: v as CampaignVerificationFilter })}
+                            disabled={isViewMode}
+                          >
+                            <SelectTrigger className="w-full" disabled={isViewMode}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ALL">Send to all contacts</SelectItem>
+                              <SelectItem value="EXCLUDE_RISKY">Skip invalid and risky addresses</SelectItem>
+                              <SelectItem value="VERIFIED_ONLY">Send to verified addresses only</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">Skipped contacts are recorded with the reason instead of being emailed</p>
+                        </div>
                       </div>
                     </div>
 
@@ -923,6 +973,42 @@ export function CampaignBuilderPage() {
                   </div>
                 </AccordionContent>
               </AccordionItem>
+              <AccordionItem value="sender-pool-settings" className="border-none">
+                <AccordionTrigger className="py-2 hover:no-underline">
+                  <div className="text-left">
+                    <Label className="text-base font-semibold">Sender Rotation</Label>
+                    <p className="text-sm text-muted-foreground mt-1">Send from multiple mailboxes to go beyond one mailbox's daily limit</p>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="pt-4">
+                    <SenderPoolSettings
+                      organizationId={effectiveOrgId || undefined}
+                      senderPool={campaign.senderPool}
+                      senderRotation={campaign.senderRotation}
+                      disabled={isViewMode}
+                      onChange={({ senderPool, senderRotation }) => setCampaign({ ...campaign, senderPool, senderRotation })}
+                    />
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+              <AccordionItem value="sending-window-settings" className="border-none">
+                <AccordionTrigger className="py-2 hover:no-underline">
+                  <div className="text-left">
+                    <Label className="text-base font-semibold">Sending Window</Label>
+                    <p className="text-sm text-muted-foreground mt-1">Send only on business days and hours, skipping holidays</p>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="pt-4">
+                    <SendingWindowSettings
+                      sendingWindow={campaign.sendingWindow}
+                      disabled={isViewMode}
+                      onChange={(sendingWindow) => setCampaign({ ...campaign, sendingWindow })}
+                    />
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
             </Accordion>
           </div>
 
@@ -1026,7 +1112,9 @@ export function CampaignBuilderPage() {
                                   <Badge variant="outline" className="text-xs">
                                     <span className="mr-1 text-muted-foreground">↩</span>
                                     Follow up to {replyStepName}
-                                    {replyType && (
+                                    {(step as any).sendConditions ? (
+                                      <span className="ml-1 text-muted-foreground">(Custom conditions)</span>
+                                    ) : replyType && (
                                       <span className="ml-1 text-muted-foreground">
                                         ({replyType === 'OPENED' ? 'Opened' : replyType === 'CLICKED' ? 'Clicked' : 'Sent'})
                                       </span>
@@ -1036,7 +1124,15 @@ export function CampaignBuilderPage() {
                               })()}
                             </div>
                           </TableCell>
-                          <TableCell className="text-left py-1 px-2">{getTemplateName(step.templateId)}</TableCell>
+                          <TableCell className="text-left py-1 px-2">
+                            {getTemplateName(step.templateId)}
+                            {step.variants && step.variants.length > 0 && (
+                              <Badge variant="outline" className="ml-1 text-xs">
+                                A/B · {step.variants.length} variants
+                                {step.abTest?.winnerVariantId && ` · ${step.abTest.winnerVariantId} won`}
+                              </Badge>
+                            )}
+                          </TableCell>
                           <TableCell className="text-left py-1 px-2">
                             {(() => {
                               // Show progress for campaigns that have been started (ACTIVE, PAUSED, or COMPLETED)
@@ -1120,6 +1216,9 @@ export function CampaignBuilderPage() {
                                 >
                                   View
                                 </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setTestSendStep(step)}>
+                                  Send Test
+                                </DropdownMenuItem>
                                 {!isViewMode && (
                                   <>
                                     <DropdownMenuItem
@@ -1172,6 +1271,14 @@ export function CampaignBuilderPage() {
         </CardContent>
       </Card>
 
+      {campaign.id && steps.length > 0 && (
+        <ContentLintPanel
+          campaignId={campaign.id}
+          organizationId={effectiveOrgId || undefined}
+          stepsKey={JSON.stringify(steps.map((s) => [s.id, s.name, s.templateId, s.variants]))}
+        />
+      )}
+
       <StepModal
         open={stepModalOpen}
         onClose={() => {
@@ -1187,6 +1294,13 @@ export function CampaignBuilderPage() {
         readOnly={isViewingStep}
       />
 
+      <TestSendDialog
+        campaign={campaign}
+        step={testSendStep}
+        organizationId={effectiveOrgId || undefined}
+        onOpenChange={(open) => !open && setTestSendStep(null)}
+      />
+
       {
         campaign.id && emailModalStepId && (
           <EmailMessagesModal
@@ -1290,6 +1404,46 @@ export function CampaignBuilderPage() {
         itemType="campaign sequence"
       />
 
+      <AlertDialog open={!!personalizationReport} onOpenChange={(open) => !open && setPersonalizationReport(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Missing Personalization Values</AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div>
+                <p className="mb-3">
+                  {personalizationReport?.contactsWithMissingValues} of {personalizationReport?.contactsChecked} contact
+                  {personalizationReport?.contactsChecked === 1 ? '' : 's'} would receive emails with empty variables.
+                  Add a fallback such as {'{{firstName | default: "there"}}'} or fill in the contact data.
+                </p>
+                <ul className="list-disc list-inside space-y-1 text-sm">
+                  {Object.entries(personalizationReport?.missingByVariable || {}).map(([variable, count]) => (
+                    <li key={variable}>
+                      <strong>{variable}</strong> - empty for {count} contact{count === 1 ? '' : 's'}
+                    </li>
+                  ))}
+                </ul>
+                {personalizationReport && personalizationReport.contacts.length > 0 && (
+                  <p className="mt-3 text-xs text-muted-foreground">
+                    e.g. {personalizationReport.contacts.slice(0, 5).map((contact) => contact.email).join(', ')}
+                  </p>
+                )}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setPersonalizationReport(null);
+                toggleActive(true, true);
+              }}
+            >
+              Activate anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog open={overdueStepsAlertOpen} onOpenChange={setOverdueStepsAlertOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -20,6 +20,8 @@ import { useCampaignProgress } from '@/hooks/useCampaignProgress';
 import { Spinner } from '@/components/ui/spinner';
 import { ConfirmDeleteDialog } from '@/components/common/ConfirmDeleteDialog';
 import { QuotaModeSelectionDialog } from '@/components/campaigns/QuotaModeSelectionDialog';
+import { CampaignCopyDialog } from '@/components/campaigns/CampaignCopyDialog';
+import { BlueprintPickerDialog } from '@/components/campaigns/BlueprintPickerDialog';
 import { userService } from '@/api/userService';
 import { roleService } from '@/api/roleService';
 import { ActionType, ModuleName } from '@/api/roleTypes';
@@ -60,6 +62,8 @@ export function CampaignListPage() {
   const [hasGmailScopes, setHasGmailScopes] = useState<boolean | null>(null);
   const [checkingScopes, setCheckingScopes] = useState(true);
   const [gmailModalOpen, setGmailModalOpen] = useState(false);
+  const [copyTarget, setCopyTarget] = useState<{ campaign: Campaign; mode: 'clone' | 'blueprint' } | null>(null);
+  const [blueprintPickerOpen, setBlueprintPickerOpen] = useState(false);
 
   const handleDeleteClick = (campaign: Campaign) => {
     setCampaignToDelete(campaign);
@@ -406,6 +410,13 @@ export function CampaignListPage() {
                   : "Gmail required — click to continue with Google"}
               </TooltipContent>
             </Tooltip>
+            <Button
+              variant="outline"
+              onClick={() => setBlueprintPickerOpen(true)}
+              disabled={hasGmailScopes !== true}
+            >
+              From Blueprint
+            </Button>
             <Button 
               onClick={() => navigate('/dashboard/campaigns/new')}
               disabled={hasGmailScopes !== true}
@@ -445,6 +456,7 @@ export function CampaignListPage() {
                     onToggleActive={toggleActive}
                     navigate={navigate}
                     onDelete={handleDeleteClick}
+                    onCopy={(campaign, mode) => setCopyTarget({ campaign, mode })}
                     canPerformAction={canPerformAction}
                     timezone={timezone}
                   />
@@ -587,6 +599,24 @@ export function CampaignListPage() {
         />
       )}
 
+      {/* Clone / Save as Blueprint Dialog */}
+      <CampaignCopyDialog
+        mode={copyTarget?.mode ?? 'clone'}
+        campaign={copyTarget?.campaign ?? null}
+        organizationId={organizationId || undefined}
+        onOpenChange={(open) => !open && setCopyTarget(null)}
+        onCloned={(created) => navigate(`/dashboard/campaigns/${created.id}`)}
+      />
+
+      {/* New Campaign from Blueprint Dialog */}
+      <BlueprintPickerDialog
+        open={blueprintPickerOpen}
+        organizationId={organizationId || undefined}
+        canDelete={canPerformAction(ActionType.DELETE)}
+        onOpenChange={setBlueprintPickerOpen}
+        onCreated={(created) => navigate(`/dashboard/campaigns/${created.id}`)}
+      />
+
       {/* Gmail Scope Modal */}
       <GmailScopeModal
         open={gmailModalOpen}
@@ -604,6 +634,7 @@ function CampaignRow({
   onToggleActive,
   navigate,
   onDelete,
+  onCopy,
   canPerformAction,
   timezone
 }: { 
@@ -611,6 +642,7 @@ function CampaignRow({
   onToggleActive: (c: Campaign, checked: boolean) => void;
   navigate: (path: string) => void;
   onDelete: (campaign: Campaign) => void;
+  onCopy: (campaign: Campaign, mode: 'clone' | 'blueprint') => void;
   canPerformAction: (action: ActionType) => boolean;
   timezone: string;
 }) {
@@ -709,6 +741,12 @@ function CampaignRow({
             {canPerformAction(ActionType.UPDATE) && (
               <DropdownMenuItem onClick={() => navigate(`/dashboard/campaigns/${campaign.id}`)}>Edit</DropdownMenuItem>
             )}
+            {canPerformAction(ActionType.CREATE) && (
+              <DropdownMenuItem onClick={() => onCopy(campaign, 'clone')}>Clone</DropdownMenuItem>
+            )}
+            {canPerformAction(ActionType.CREATE) && (campaign.totalSteps || 0) > 0 && (
+              <DropdownMenuItem onClick={() => onCopy(campaign, 'blueprint')}>Save as Blueprint</DropdownMenuItem>
+            )}
             {canPerformAction(ActionType.DELETE) && (campaign.status === 'DRAFT' || campaign.status === 'COMPLETED') && (
               <DropdownMenuItem 
                 className="text-red-600" 
@@ -7,7 +7,7 @@ import {
 } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { CampaignsApi } from '@/api/campaigns';
+import { CampaignsApi, ReplyClassificationLabels, type ReplyClassification } from '@/api/campaigns';
 import { formatDateTime } from '@/utils/dateFormat';
 import { useOrganizationTimezone } from '@/hooks/useOrganizationTimezone';
 import { DataTablePagination } from '@/components/common';
@@ -40,6 +40,7 @@ interface EmailMessage {
   unsubscribedAt?: string;
   openedAt?: string;
   repliedAt?: string;
+  replyClassification?: ReplyClassification | null;
 }
 
 interface EmailMessagesModalProps {
@@ -62,6 +63,7 @@ export function EmailMessagesModal({
   const [emails, setEmails] = useState<EmailMessage[]>([]);
   const [loading, setLoading] = useState(false);
   const [eventTypeFilter, setEventTypeFilter] = useState<string>(initialEventType || 'ALL');
+  const [replyClassificationFilter, setReplyClassificationFilter] = useState<string>('ALL');
   const [totalItems, setTotalItems] = useState(0);
   
   // Pagination state
@@ -80,7 +82,7 @@ export function EmailMessagesModal({
   // Reset to first page when event type filter changes
   useEffect(() => {
     setPagination(prev => ({ ...prev, pageIndex: 0 }));
-  }, [eventTypeFilter]);
+  }, [eventTypeFilter, replyClassificationFilter]);
 
   // Get organization timezone
   const timezone = useOrganizationTimezone();
@@ -133,7 +135,7 @@ export function EmailMessagesModal({
       // For 'ALL', both eventType and status remain undefined
       
       // Fetch emails with pagination and filter
-      CampaignsApi.getStepEmails(campaignId, stepId, eventType, currentPage, pageSize, status || 'ALL')
+      CampaignsApi.getStepEmails(campaignId, stepId, eventType, currentPage, pageSize, status || 'ALL', replyClassificationFilter)
         .then((response: any) => {
           // Response structure from backend: { success: true, data: [...], total: 1152, totalPages: 29, page: 1, limit: 40 }
           // After apiService.get() wrapper: { success: true, data: { success: true, data: [...], total: 1152, ... } }
@@ -182,7 +184,7 @@ export function EmailMessagesModal({
       setTotalItems(0);
       setEventTypeFilter(initialEventType || 'ALL');
     }
-  }, [open, campaignId, stepId, pagination.pageIndex, pagination.pageSize, eventTypeFilter, initialEventType]);
+  }, [open, campaignId, stepId, pagination.pageIndex, pagination.pageSize, eventTypeFilter, replyClassificationFilter, initialEventType]);
 
   // No client-side filtering - backend handles filtering
   const filteredEmails = emails;
@@ -309,6 +311,16 @@ export function EmailMessagesModal({
       ),
       size: 150,
     },
+    {
+      accessorKey: 'replyClassification',
+      header: 'Reply Label',
+      cell: ({ row }) => (
+        <span className="text-xs font-medium">
+          {row.original.replyClassification ? ReplyClassificationLabels[row.original.replyClassification] : '-'}
+        </span>
+      ),
+      size: 120,
+    },
     {
       accessorKey: 'bouncedAt',
       header: 'Bounced At',
@@ -371,6 +383,19 @@ export function EmailMessagesModal({
                   <SelectItem value="CANCELLED">Cancelled</SelectItem>
                 </SelectContent>
               </Select>
+              <Select value={replyClassificationFilter} onValueChange={setReplyClassificationFilter}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="All Reply Labels" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ALL">All Reply Labels</SelectItem>
+                  {(Object.keys(ReplyClassificationLabels) as ReplyClassification[]).map((classification) => (
+                    <SelectItem key={classification} value={classification}>
+                      {ReplyClassificationLabels[classification]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
           </div>
         </DialogHeader>
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import type { CampaignStep } from '../../api/campaigns';
+import { CampaignsApi, type CampaignStep, type StepAbTest, type StepConditionGroup, type StepVariant, type StepVariantResult } from '../../api/campaigns';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,6 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { DateTimePicker } from '@/components/ui/date-time-picker';
 import { format } from 'date-fns';
 import { CommonTimezones } from '@/api/organizationTypes';
+import { FollowUpConditionsBuilder } from '@/components/campaigns/FollowUpConditionsBuilder';
+import { areConditionsComplete } from '@/components/campaigns/followUpConditions';
+import { StepVariantsEditor } from '@/components/campaigns/StepVariantsEditor';
+import { areVariantsComplete } from '@/components/campaigns/stepVariants';
 
 interface StepModalProps {
   open: boolean;
@@ -28,7 +32,13 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
   const [delayMinutes, setDelayMinutes] = useState<string>('0.5');
   const [timezone, setTimezone] = useState<string>('UTC');
   const [replyToStepId, setReplyToStepId] = useState<string>('');
-  const [replyType, setReplyType] = useState<'OPENED' | 'CLICKED' | 'SENT' | ''>('');
+  // CUSTOM selects sendConditions instead of one of the legacy reply types
+  const [replyType, setReplyType] = useState<'OPENED' | 'CLICKED' | 'SENT' | 'CUSTOM' | ''>('');
+  const [sendConditions, setSendConditions] = useState<StepConditionGroup | null>(null);
+  // Variant A always uses the step template
+  const [variants, setVariants] = useState<StepVariant[]>([]);
+  const [abTest, setAbTest] = useState<StepAbTest | null>(null);
+  const [variantResults, setVariantResults] = useState<StepVariantResult[]>([]);
 
   useEffect(() => {
     if (editingStep) {
@@ -44,7 +54,10 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
       setTimezone((editingStep as any).timezone || 'UTC');
       const stepReplyToStepId = (editingStep as any).replyToStepId || '';
       setReplyToStepId(stepReplyToStepId);
-      setReplyType((editingStep as any).replyType || '');
+      setSendConditions(editingStep.sendConditions || null);
+      setReplyType(editingStep.sendConditions ? 'CUSTOM' : (editingStep as any).replyType || '');
+      setVariants(editingStep.variants || []);
+      setAbTest(editingStep.abTest || null);
       // Parse scheduleTime if it exists (stored in UTC)
       // Convert UTC to step timezone for display using browser's Intl API (no calculations)
       if (editingStep.scheduleTime && stepTriggerType === 'SCHEDULE') {
@@ -86,9 +99,20 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
       setTimezone('UTC');
       setReplyToStepId('');
       setReplyType('');
+      setSendConditions(null);
+      setVariants([]);
+      setAbTest(null);
     }
   }, [editingStep, open]);
 
+  useEffect(() => {
+    setVariantResults([]);
+    if (!open || !editingStep?.id || !editingStep.variants?.length) return;
+    CampaignsApi.getStepVariantResults(editingStep.campaignId, editingStep.id)
+      .then((results) => setVariantResults(results.variants))
+      .catch(() => setVariantResults([]));
+  }, [editingStep, open]);
+
   // When replyToStepId is set, clear schedule time (reply steps don't use schedule)
   useEffect(() => {
     if (replyToStepId && scheduledDateTime) {
@@ -126,7 +150,10 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
       delayMinutes: delayValue,
       timezone: timezone || 'UTC', // Send timezone separately
       replyToStepId: replyToStepId || null,
-      replyType: replyType || null,
+      replyType: replyType && replyType !== 'CUSTOM' ? replyType : null,
+      sendConditions: replyType === 'CUSTOM' ? sendConditions : null,
+      variants: variants.length > 0 ? variants : null,
+      abTest: variants.length > 0 ? abTest : null,
     });
     handleClose();
   };
@@ -140,6 +167,9 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
     setTimezone('UTC');
     setReplyToStepId('');
     setReplyType('');
+    setSendConditions(null);
+    setVariants([]);
+    setAbTest(null);
     onClose();
   };
 
@@ -167,7 +197,42 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
   const canSave = name.trim() && templateId && delayMinutes && parseFloat(delayMinutes) >= 0.5 &&
     (triggerType === 'IMMEDIATE' ||
       (triggerType === 'SCHEDULE' && scheduledDateTime)) &&
-    (!replyToStepId || replyType); // If replyToStepId is set, replyType must be set
+    (!replyToStepId || replyType) && // If replyToStepId is set, replyType must be set
+    (replyType !== 'CUSTOM' || (sendConditions && areConditionsComplete(sendConditions))) &&
+    (variants.length === 0 || areVariantsComplete(variants));
+
+  const handleTemplateChange = (value: string) => {
+    setTemplateId(value);
+    if (variants.length > 0) {
+      setVariants(variants.map((variant, index) => (index === 0 ? { ...variant, templateId: value } : variant)));
+    }
+  };
+
+  const handleVariantsChange = (value: StepVariant[]) => {
+    setVariants(value);
+    if (value[0]?.templateId) {
+      setTemplateId(value[0].templateId);
+    }
+  };
+
+  const handleAbToggle = (enabled: boolean) => {
+    if (enabled) {
+      setVariants([
+        { id: 'A', templateId, subject: null, weight: 1 },
+        { id: 'B', templateId: '', subject: null, weight: 1 },
+      ]);
+    } else {
+      setVariants([]);
+      setAbTest(null);
+    }
+  };
+
+  const handleReplyTypeChange = (value: 'OPENED' | 'CLICKED' | 'SENT' | 'CUSTOM') => {
+    setReplyType(value);
+    if (value === 'CUSTOM' && !sendConditions) {
+      setSendConditions({ operator: 'AND', conditions: [{ stepId: replyToStepId, event: 'NOT_OPENED' }] });
+    }
+  };
 
   return (
     <Dialog open={open} onOpenChange={(open) => !open && handleClose()}>
@@ -195,7 +260,7 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
             </div>
             <div className="space-y-2">
               <Label htmlFor="step-template">Email Template *</Label>
-              <Select value={templateId} onValueChange={setTemplateId} disabled={readOnly}>
+              <Select value={templateId} onValueChange={handleTemplateChange} disabled={readOnly}>
                 <SelectTrigger id="step-template" className="w-full" disabled={readOnly}>
                   <SelectValue placeholder="Select template" />
                 </SelectTrigger>
@@ -209,6 +274,28 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
               </Select>
             </div>
           </div>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={variants.length > 0}
+                onChange={(e) => handleAbToggle(e.target.checked)}
+                disabled={readOnly || !templateId}
+              />
+              A/B test subject lines and templates
+            </label>
+            {variants.length > 0 && (
+              <StepVariantsEditor
+                variants={variants}
+                abTest={abTest}
+                templates={templates}
+                results={variantResults}
+                disabled={readOnly}
+                onVariantsChange={handleVariantsChange}
+                onAbTestChange={setAbTest}
+              />
+            )}
+          </div>
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="trigger-type">Trigger Type *</Label>
@@ -314,7 +401,7 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
               {replyToStepId && (
                 <div className="space-y-2">
                   <Label htmlFor="reply-type">Filter Follow Up List *</Label>
-                  <Select value={replyType} onValueChange={(v) => setReplyType(v as 'OPENED' | 'CLICKED' | 'SENT')} disabled={readOnly}>
+                  <Select value={replyType} onValueChange={(v) => handleReplyTypeChange(v as 'OPENED' | 'CLICKED' | 'SENT' | 'CUSTOM')} disabled={readOnly}>
                     <SelectTrigger id="reply-type" className="w-full" disabled={readOnly}>
                       <SelectValue placeholder="Select type" />
                     </SelectTrigger>
@@ -322,6 +409,7 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
                       <SelectItem value="SENT">Sent (All Except Bounced)</SelectItem>
                       <SelectItem value="OPENED">Opened Only</SelectItem>
                       <SelectItem value="CLICKED">Clicked Only</SelectItem>
+                      <SelectItem value="CUSTOM">Custom Conditions</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-muted-foreground">
@@ -331,8 +419,18 @@ export function StepModal({ open, onClose, onSave, templates, editingStep, exist
                         ? 'Only who clicked (excludes replies)'
                         : replyType === 'SENT'
                           ? 'All who were sent (excludes bounced & replies)'
-                          : 'Required when follow up to sequence'}
+                          : replyType === 'CUSTOM'
+                            ? 'Combine opens, clicks and replies across earlier sequences'
+                            : 'Required when follow up to sequence'}
                   </p>
+                  {replyType === 'CUSTOM' && sendConditions && (
+                    <FollowUpConditionsBuilder
+                      conditions={sendConditions}
+                      steps={previousSteps}
+                      disabled={readOnly}
+                      onChange={setSendConditions}
+                    />
+                  )}
                 </div>
               )}
             </div>
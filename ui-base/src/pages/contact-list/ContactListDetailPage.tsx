@@ -4,7 +4,7 @@ import { useState, useEffect, useMemo } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import type { ColumnDef } from "@tanstack/react-table";
 import { getCoreRowModel, useReactTable } from "@tanstack/react-table";
-import { Edit, Trash2, Search } from "lucide-react";
+import { Edit, Trash2, Search, RefreshCw, Snowflake } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -222,6 +222,45 @@ export default function ContactListDetailPage() {
     setIsEditModalOpen(true);
   };
 
+  const handleRefreshDynamicList = async () => {
+    if (!contactList) return;
+
+    try {
+      setSubmitting(true);
+      const response = await contactListService.refreshDynamicList(contactList.id);
+      if (response.success && response.data) {
+        toast.success(response.data.message);
+        await refreshContactListData();
+      } else {
+        toast.error(response.message || "Failed to refresh contact list");
+      }
+    } catch (error) {
+      toast.error("Error refreshing contact list");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleFreezeList = async () => {
+    if (!contactList) return;
+
+    try {
+      setSubmitting(true);
+      const response = await contactListService.freezeContactList(contactList.id);
+      if (response.success) {
+        toast.success("Contact list frozen into a static list");
+        await refreshContactListData();
+        await initializeSession();
+      } else {
+        toast.error(response.message || "Failed to freeze contact list");
+      }
+    } catch (error) {
+      toast.error("Error freezing contact list");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
   const handleDelete = () => {
     setIsDeleteDialogOpen(true);
   };
@@ -443,13 +482,38 @@ export default function ContactListDetailPage() {
         {/* Header */}
         <div className="flex flex-col space-y-4 lg:flex-row lg:items-center lg:justify-between lg:space-y-0">
           <div>
-            <h1 className="text-2xl font-bold">{contactList.name}</h1>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-bold">{contactList.name}</h1>
+              {contactList.isDynamic && <Badge variant="secondary">Dynamic</Badge>}
+            </div>
             {contactList.description && (
               <p className="text-muted-foreground">{contactList.description}</p>
             )}
           </div>
 
           <div className="flex space-x-2">
+            {contactList.isDynamic && canPerformAction(ActionType.UPDATE) && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={handleRefreshDynamicList}
+                  disabled={submitting}
+                  className="cursor-pointer"
+                >
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Re-evaluate
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleFreezeList}
+                  disabled={submitting}
+                  className="cursor-pointer"
+                >
+                  <Snowflake className="mr-2 h-4 w-4" />
+                  Freeze to Static List
+                </Button>
+              </>
+            )}
             {canPerformAction(ActionType.UPDATE) && (
               <Button
                 variant="outline"
@@ -525,8 +589,8 @@ export default function ContactListDetailPage() {
             />
           </div>
 
-          {/* Selection Action Buttons */}
-          {selectionState && (
+          {/* Selection Action Buttons (dynamic list membership comes from its filters) */}
+          {selectionState && !contactList.isDynamic && (
             <div className="flex items-center gap-2">
               {(selectionState.addedCount > 0 ||
                 selectionState.removedCount > 0) && (
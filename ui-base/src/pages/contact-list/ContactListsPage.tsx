@@ -31,6 +31,7 @@ import {
 import type { ContactList } from "@/api/contactListTypes";
 import { ContactListType } from "@/api/contactListTypes";
 import { contactListService } from "@/api/contactListService";
+import { emailVerificationService } from "@/api/emailVerificationService";
 import { ActionType, ModuleName } from "@/api/roleTypes";
 import { toast } from "sonner";
 import ContactListModal from "./ContactListModal";
@@ -224,6 +225,26 @@ export default function ContactListsPage() {
     }
   };
 
+  const handleVerifyEmails = async (list: ContactList) => {
+    try {
+      const response = await emailVerificationService.verifyList(list.id, list.organizationId);
+
+      if (response.success && response.data) {
+        const { queued } = response.data;
+        toast.success(
+          queued > 0
+            ? `Verifying ${queued.toLocaleString()} ${queued === 1 ? "contact" : "contacts"} of ${list.name}`
+            : `${list.name} has no contacts to verify`
+        );
+      } else {
+        toast.error(response.message || "Failed to start email verification");
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to start email verification";
+      toast.error(errorMessage);
+    }
+  };
+
   const handleDeleteClick = (list: ContactList) => {
     setListToDelete(list);
     setIsDeleteDialogOpen(true);
@@ -274,6 +295,7 @@ export default function ContactListsPage() {
         onEditList: handleEditList,
         onDeleteList: handleDeleteClick,
         onManageContacts: handleViewList,
+        onVerifyEmails: handleVerifyEmails,
         timezone,
       }),
     [canPerformAction, timezone]
@@ -1,7 +1,7 @@
 "use client";
 
 import type { ColumnDef } from "@tanstack/react-table";
-import { ArrowUpDown, MoreHorizontal, Trash2, Users, Edit } from "lucide-react";
+import { ArrowUpDown, MoreHorizontal, Trash2, Users, Edit, MailCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -23,6 +23,7 @@ interface ContactListColumnsProps {
   onEditList: (list: ContactList) => void;
   onDeleteList: (list: ContactList) => void;
   onManageContacts: (list: ContactList) => void;
+  onVerifyEmails: (list: ContactList) => void;
   timezone?: string; // Organization timezone
 }
 
@@ -33,6 +34,7 @@ export const createContactListColumns = ({
   onDeleteList,
   timezone = 'UTC',
   onManageContacts,
+  onVerifyEmails,
 }: ContactListColumnsProps): ColumnDef<ContactList>[] => [
   {
     accessorKey: "name",
@@ -172,6 +174,15 @@ export const createContactListColumns = ({
                   Edit
                 </DropdownMenuItem>
               )}
+              {canPerformAction(ActionType.UPDATE) && (
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => onVerifyEmails(list)}
+                >
+                  <MailCheck className="mr-2 h-4 w-4" />
+                  Verify emails
+                </DropdownMenuItem>
+              )}
               {canPerformAction(ActionType.DELETE) && (
                 <>
                   <DropdownMenuSeparator />
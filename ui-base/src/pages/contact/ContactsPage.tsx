@@ -12,7 +12,7 @@ import {
   getSortedRowModel,
   useReactTable,
 } from "@tanstack/react-table";
-import { UserPlus, Download, Upload, ListPlus } from "lucide-react";
+import { UserPlus, Download, Upload, ListPlus, Users } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -40,6 +40,7 @@ import { toast } from "sonner";
 import ContactModal from "./ContactModal";
 import ExcelUploadModal from "@/components/ExcelUploadModal";
 import AddToListModal from "./AddToListModal";
+import DuplicateContactsModal from "./DuplicateContactsModal";
 import { useAppStore } from "@/stores/appStore";
 import { createContactColumns } from "./columns";
 import { useOrganizationTimezone } from "@/hooks/useOrganizationTimezone";
@@ -65,6 +66,7 @@ export default function ContactsPage() {
   const [isBulkUploadOpen, setIsBulkUploadOpen] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isAddToListOpen, setIsAddToListOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
 
   const [moduleActions, setModuleActions] = useState<ActionType[]>([]);
 
@@ -714,6 +716,16 @@ export default function ContactsPage() {
                 )}
               </>
             )}
+            {canPerformAction(ActionType.READ) && (
+              <Button
+                variant="outline"
+                className="cursor-pointer w-full sm:w-auto"
+                onClick={() => setIsDuplicatesOpen(true)}
+              >
+                <Users className="mr-2 h-4 w-4" />
+                <span>Find Duplicates</span>
+              </Button>
+            )}
             {canPerformAction(ActionType.CREATE) && (
               <>
                 <Button
@@ -819,6 +831,17 @@ export default function ContactsPage() {
         organizationId={user?.organizationId}
         onSuccess={handleAddToListSuccess}
       />
+
+      {/* Duplicate Contacts Modal */}
+      <DuplicateContactsModal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        organizationId={
+          user?.type === "employee" ? selectedOrganizationId ?? undefined : user?.organizationId
+        }
+        canMerge={canPerformAction(ActionType.UPDATE)}
+        onMerged={refreshContacts}
+      />
     </div>
   );
 }
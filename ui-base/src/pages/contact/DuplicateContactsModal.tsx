@@ -0,0 +1,185 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { contactService } from "@/api/contactService";
+import type {
+  ContactDuplicatePair,
+  DuplicateContactSummary,
+} from "@/api/contactTypes";
+import { DuplicateMatchReasonLabels } from "@/api/contactTypes";
+import { toast } from "sonner";
+import { Users } from "lucide-react";
+
+interface DuplicateContactsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  organizationId?: string;
+  canMerge: boolean;
+  onMerged?: () => void;
+}
+
+const pairKey = (pair: ContactDuplicatePair) =>
+  pair.contacts.map((contact) => contact.id).join(":");
+
+const contactName = (contact: DuplicateContactSummary) =>
+  [contact.firstName, contact.lastName].filter(Boolean).join(" ") || "No name";
+
+export default function DuplicateContactsModal({
+  isOpen,
+  onClose,
+  organizationId,
+  canMerge,
+  onMerged,
+}: DuplicateContactsModalProps) {
+  const [pairs, setPairs] = useState<ContactDuplicatePair[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchDuplicates();
+    }
+  }, [isOpen]);
+
+  const fetchDuplicates = async () => {
+    try {
+      setLoading(true);
+      const response = await contactService.getDuplicates();
+      if (response.success && response.data) {
+        setPairs(response.data.pairs);
+        setTotal(response.data.total);
+      } else {
+        toast.error(response.message || "Failed to find duplicate contacts");
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to find duplicate contacts";
+      toast.error(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async (pair: ContactDuplicatePair, survivor: DuplicateContactSummary) => {
+    const merged = pair.contacts.find((contact) => contact.id !== survivor.id);
+    if (!merged) return;
+
+    try {
+      setMergingKey(pairKey(pair));
+      const response = await contactService.mergeContacts({
+        contactIds: [survivor.id, merged.id],
+        survivorId: survivor.id,
+        organizationId,
+      });
+
+      if (response.success) {
+        toast.success(`Merged ${merged.email} into ${survivor.email}`);
+        // Pairs of the deleted contact are gone, its records now belong to the survivor
+        const remaining = pairs.filter(
+          (item) => !item.contacts.some((contact) => contact.id === merged.id)
+        );
+        setTotal((current) => Math.max(current - (pairs.length - remaining.length), 0));
+        setPairs(remaining);
+        onMerged?.();
+      } else {
+        toast.error(response.message || "Failed to merge contacts");
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to merge contacts";
+      toast.error(errorMessage);
+    } finally {
+      setMergingKey(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Duplicate Contacts
+          </DialogTitle>
+          <DialogDescription>
+            Contacts that are likely the same person. Keep one of them to merge the other into it: blank fields,
+            list memberships and sent emails move to the kept contact and the other is deleted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : pairs.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No duplicate contacts found.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {total > pairs.length && (
+              <p className="text-sm text-muted-foreground">
+                Showing the {pairs.length} best matches of {total.toLocaleString()}.
+              </p>
+            )}
+            {pairs.map((pair) => {
+              const key = pairKey(pair);
+              return (
+                <div key={key} className="rounded-md border p-3 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant={pair.score >= 90 ? "default" : "secondary"}>
+                      {pair.score}% match
+                    </Badge>
+                    {pair.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline">
+                        {DuplicateMatchReasonLabels[reason]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {pair.contacts.map((contact) => (
+                      <div key={contact.id} className="rounded-md bg-muted/40 p-3 space-y-1">
+                        <p className="font-medium">{contactName(contact)}</p>
+                        <p className="text-sm">{contact.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[contact.jobTitle, contact.company || contact.companyDomain, contact.phone]
+                            .filter(Boolean)
+                            .join(" · ") || "No other details"}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {contact.status}
+                          {contact.subscribed === false && " · Unsubscribed"}
+                          {" · Added "}
+                          {new Date(contact.createdAt).toLocaleDateString()}
+                        </p>
+                        {canMerge && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="cursor-pointer mt-2"
+                            disabled={mergingKey !== null}
+                            onClick={() => handleMerge(pair, contact)}
+                          >
+                            {mergingKey === key ? "Merging..." : "Keep this contact"}
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -54,11 +54,19 @@ export default function EmailTemplatesPage() {
           <ul className="space-y-2 text-sm text-muted-foreground">
             <li className="flex items-start gap-2">
               <span className="text-primary mt-1">•</span>
-              <span>Standard variables: {"{{firstName}}"}, {"{{lastName}}"}, {"{{email}}"}, {"{{companyName}}"}</span>
+              <span>Standard variables: {"{{firstName}}"}, {"{{lastName}}"}, {"{{email}}"}, {"{{company}}"}</span>
             </li>
             <li className="flex items-start gap-2">
               <span className="text-primary mt-1">•</span>
-              <span>Custom field variables based on contact custom fields</span>
+              <span>Custom field variables based on contact custom fields: {"{{custom.plan_tier}}"}</span>
+            </li>
+            <li className="flex items-start gap-2">
+              <span className="text-primary mt-1">•</span>
+              <span>Filters for fallbacks and formatting: {"{{firstName | default: \"there\"}}"}, {"{{company | upper}}"}</span>
+            </li>
+            <li className="flex items-start gap-2">
+              <span className="text-primary mt-1">•</span>
+              <span>Conditionals and spintax: {"{% if company %}…{% else %}…{% endif %}"}, {"{Hi|Hello|Hey}"}</span>
             </li>
             <li className="flex items-start gap-2">
               <span className="text-primary mt-1">•</span>
@@ -244,7 +252,12 @@ export default function EmailTemplatesPage() {
             double curly brace syntax ({"{{variableName}}"}) for variable placeholders. When
             emails are sent, the email sending service automatically replaces these variables
             with actual contact data from the contact record, supporting both standard fields
-            and custom fields.
+            and custom fields ({"{{custom.fieldName}}"}). Variables accept the filters default,
+            capitalize, title, upper, lower, trim and date, e.g. {"{{firstName | default: \"there\"}}"}.
+            Blocks can be shown per contact with {"{% if company %}…{% endif %}"}, {"{% if not company %}"}
+            or {"{% if custom.plan == \"pro\" %}"}, and spintax such as {"{Hi|Hello|Hey}"} picks one
+            variation per recipient. Campaign steps using a variable that is not a contact field or
+            a custom field are rejected as unknown variables.
           </p>
         </div>
 
@@ -0,0 +1,404 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Archive, Inbox, MailOpen, Paperclip, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { NoDataState } from "@/components/common/NoDataState";
+import { inboxService } from "@/api/inboxService";
+import { InboxThreadStatusLabels } from "@/api/inboxTypes";
+import type {
+  InboxMessage,
+  InboxThread,
+  InboxThreadDetail,
+  InboxThreadStatus,
+} from "@/api/inboxTypes";
+import { CampaignsApi, type SenderMailbox } from "@/api/campaigns";
+import { useAppStore } from "@/stores/appStore";
+import { formatDateTime } from "@/utils/dateFormat";
+
+const PAGE_SIZE = 25;
+
+function contactName(thread: InboxThread): string {
+  const name = [thread.contact?.firstName, thread.contact?.lastName]
+    .filter(Boolean)
+    .join(" ");
+  return name || thread.contact?.email || thread.mailboxEmail;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function MessageBody({ message }: { message: InboxMessage }) {
+  // HTML bodies come from outside the app, render them without scripts in an isolated frame
+  if (message.htmlBody) {
+    return (
+      <iframe
+        title={`message-${message.id}`}
+        sandbox=""
+        srcDoc={message.htmlBody}
+        className="w-full min-h-[240px] rounded border bg-white"
+      />
+    );
+  }
+  return (
+    <p className="whitespace-pre-wrap text-sm">{message.textBody || ""}</p>
+  );
+}
+
+export default function InboxPage() {
+  const { user, selectedOrganizationId } = useAppStore();
+  const [threads, setThreads] = useState<InboxThread[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [campaignFilter, setCampaignFilter] = useState<string>("all");
+  const [mailboxFilter, setMailboxFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+
+  const [campaigns, setCampaigns] = useState<Array<{ id: string; name: string }>>([]);
+  const [mailboxes, setMailboxes] = useState<SenderMailbox[]>([]);
+
+  const [selectedThread, setSelectedThread] = useState<InboxThreadDetail | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [debouncedSearchTerm, campaignFilter, mailboxFilter, statusFilter]);
+
+  useEffect(() => {
+    CampaignsApi.list({ page: 1, limit: 100 })
+      .then((res) => setCampaigns(res.success && res.data ? res.data.data || [] : []))
+      .catch(() => setCampaigns([]));
+    CampaignsApi.listSenderMailboxes()
+      .then((list) => setMailboxes(Array.isArray(list) ? list : []))
+      .catch(() => setMailboxes([]));
+  }, [user, selectedOrganizationId]);
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setLoading(true);
+      const res = await inboxService.getThreads({
+        page: currentPage,
+        limit: PAGE_SIZE,
+        searchTerm: debouncedSearchTerm || undefined,
+        campaignId: campaignFilter !== "all" ? campaignFilter : undefined,
+        mailboxId: mailboxFilter !== "all" ? mailboxFilter : undefined,
+        status: statusFilter !== "all" ? (statusFilter as InboxThreadStatus) : undefined,
+      });
+      if (res.success && res.data) {
+        setThreads(res.data.data || []);
+        setTotalPages(res.data.totalPages ?? 1);
+      } else {
+        setThreads([]);
+        setTotalPages(0);
+      }
+    } catch {
+      toast.error("Failed to load inbox");
+      setThreads([]);
+      setTotalPages(0);
+    } finally {
+      setLoading(false);
+    }
+  }, [currentPage, debouncedSearchTerm, campaignFilter, mailboxFilter, statusFilter]);
+
+  // The organization is sent by apiService, reload when it changes
+  useEffect(() => {
+    loadThreads();
+  }, [loadThreads, selectedOrganizationId]);
+
+  const openThread = async (thread: InboxThread) => {
+    try {
+      const res = await inboxService.getThread(thread.id);
+      if (res.success && res.data) {
+        setSelectedThread(res.data);
+        setReplyBody("");
+        // Opening a thread marks it read on the server
+        if (thread.status === "UNREAD") {
+          setThreads((prev) =>
+            prev.map((t) => (t.id === thread.id ? { ...t, status: "READ" } : t))
+          );
+        }
+      } else {
+        toast.error(res.message || "Failed to load conversation");
+      }
+    } catch {
+      toast.error("Failed to load conversation");
+    }
+  };
+
+  const updateStatus = async (status: InboxThreadStatus) => {
+    if (!selectedThread) return;
+    try {
+      const res = await inboxService.updateThread(selectedThread.id, status);
+      if (res.success) {
+        toast.success(`Conversation marked ${InboxThreadStatusLabels[status].toLowerCase()}`);
+        setSelectedThread(status === "ARCHIVED" ? null : { ...selectedThread, status });
+        loadThreads();
+      } else {
+        toast.error(res.message || "Failed to update conversation");
+      }
+    } catch {
+      toast.error("Failed to update conversation");
+    }
+  };
+
+  const sendReply = async () => {
+    if (!selectedThread || !replyBody.trim()) return;
+    try {
+      setSending(true);
+      const res = await inboxService.reply(selectedThread.id, replyBody);
+      if (res.success && res.data) {
+        toast.success("Reply sent");
+        setReplyBody("");
+        setSelectedThread({
+          ...selectedThread,
+          status: "REPLIED",
+          messages: [...selectedThread.messages, res.data],
+        });
+        loadThreads();
+      } else {
+        toast.error(res.message || "Failed to send reply");
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to send reply");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div>
+        <h1 className="text-2xl font-bold">Inbox</h1>
+        <p className="text-muted-foreground">
+          Replies to your campaigns across all sending mailboxes
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Input
+          placeholder="Search conversations..."
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="max-w-xs"
+        />
+        <Select value={campaignFilter} onValueChange={setCampaignFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Campaign" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All campaigns</SelectItem>
+            {campaigns.map((campaign) => (
+              <SelectItem key={campaign.id} value={campaign.id}>
+                {campaign.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={mailboxFilter} onValueChange={setMailboxFilter}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Sender" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All senders</SelectItem>
+            {mailboxes.map((mailbox) => (
+              <SelectItem key={mailbox.id} value={mailbox.id}>
+                {mailbox.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Open</SelectItem>
+            {(Object.keys(InboxThreadStatusLabels) as InboxThreadStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {InboxThreadStatusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid flex-1 gap-4 md:grid-cols-[360px_1fr]">
+        <div className="flex flex-col rounded-md border">
+          {loading ? (
+            <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+          ) : threads.length === 0 ? (
+            <NoDataState
+              title="No conversations"
+              description="Replies to your campaigns will show up here."
+              showAction={false}
+              icon={<Inbox className="h-12 w-12 text-muted-foreground" />}
+            />
+          ) : (
+            <div className="divide-y">
+              {threads.map((thread) => (
+                <button
+                  key={thread.id}
+                  type="button"
+                  onClick={() => openThread(thread)}
+                  className={`w-full p-3 text-left hover:bg-muted/50 ${
+                    selectedThread?.id === thread.id ? "bg-muted" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`truncate text-sm ${thread.status === "UNREAD" ? "font-semibold" : ""}`}>
+                      {contactName(thread)}
+                    </span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {thread.lastMessageAt ? formatDateTime(thread.lastMessageAt) : ""}
+                    </span>
+                  </div>
+                  <div className="truncate text-sm">{thread.subject || "(no subject)"}</div>
+                  <div className="truncate text-xs text-muted-foreground">
+                    {thread.lastMessageSnippet}
+                  </div>
+                  <div className="mt-1 flex flex-wrap gap-1">
+                    {thread.campaign && <Badge variant="outline">{thread.campaign.name}</Badge>}
+                    <Badge variant={thread.status === "UNREAD" ? "default" : "secondary"}>
+                      {InboxThreadStatusLabels[thread.status]}
+                    </Badge>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          {totalPages > 1 && (
+            <div className="mt-auto flex items-center justify-between border-t p-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage <= 1}
+                onClick={() => setCurrentPage((page) => page - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                Page {currentPage} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={currentPage >= totalPages}
+                onClick={() => setCurrentPage((page) => page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-col rounded-md border">
+          {!selectedThread ? (
+            <NoDataState
+              title="Select a conversation"
+              description="Pick a conversation to read it and reply."
+              showAction={false}
+              icon={<MailOpen className="h-12 w-12 text-muted-foreground" />}
+            />
+          ) : (
+            <>
+              <div className="flex items-start justify-between gap-2 border-b p-4">
+                <div className="min-w-0">
+                  <h2 className="truncate text-lg font-semibold">
+                    {selectedThread.subject || "(no subject)"}
+                  </h2>
+                  <p className="text-sm text-muted-foreground">
+                    {contactName(selectedThread)} · via {selectedThread.mailboxEmail}
+                    {selectedThread.campaign ? ` · ${selectedThread.campaign.name}` : ""}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => updateStatus("UNREAD")}>
+                    <MailOpen className="h-4 w-4" />
+                    Mark unread
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => updateStatus("ARCHIVED")}>
+                    <Archive className="h-4 w-4" />
+                    Archive
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex-1 space-y-4 overflow-y-auto p-4">
+                {selectedThread.messages.map((message) => (
+                  <div
+                    key={message.id}
+                    className={`rounded-md border p-3 ${
+                      message.direction === "OUTBOUND" ? "bg-muted/40" : ""
+                    }`}
+                  >
+                    <div className="mb-2 flex items-center justify-between gap-2 text-sm">
+                      <span className="font-medium">
+                        {message.fromName
+                          ? `${message.fromName} <${message.fromEmail}>`
+                          : message.fromEmail}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDateTime(message.messageAt)}
+                      </span>
+                    </div>
+                    <MessageBody message={message} />
+                    {message.attachments?.length > 0 && (
+                      <div className="mt-2 flex flex-wrap gap-2">
+                        {message.attachments.map((attachment, index) => (
+                          <Badge key={`${attachment.filename}-${index}`} variant="outline">
+                            <Paperclip className="h-3 w-3" />
+                            {attachment.filename} ({formatFileSize(attachment.size)})
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2 border-t p-4">
+                <Textarea
+                  placeholder={`Reply from ${selectedThread.mailboxEmail}...`}
+                  value={replyBody}
+                  onChange={(e) => setReplyBody(e.target.value)}
+                  rows={5}
+                />
+                <div className="flex justify-end">
+                  <Button onClick={sendReply} disabled={sending || !replyBody.trim()}>
+                    <Send className="h-4 w-4" />
+                    {sending ? "Sending..." : "Send reply"}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
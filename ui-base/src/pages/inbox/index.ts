@@ -0,0 +1 @@
+export { default as InboxPage } from "./InboxPage";
@@ -0,0 +1,616 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { Copy, KeyRound, Pencil, Plus, RotateCw, Trash2, Webhook } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { NoDataState } from "@/components/common/NoDataState";
+import { webhookService } from "@/api/webhookService";
+import { WebhookDeliveryStatusLabels, WebhookEventLabels } from "@/api/webhookTypes";
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEndpoint,
+  WebhookEndpointWithSecret,
+  WebhookEvent,
+} from "@/api/webhookTypes";
+import { useAppStore } from "@/stores/appStore";
+import { formatDateTime } from "@/utils/dateFormat";
+
+const PAGE_SIZE = 25;
+
+const ALL_EVENTS = Object.keys(WebhookEventLabels) as WebhookEvent[];
+
+const STATUS_BADGE_VARIANTS: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive"> = {
+  PENDING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+};
+
+interface EndpointForm {
+  url: string;
+  description: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+}
+
+const EMPTY_FORM: EndpointForm = { url: "", description: "", events: [], isActive: true };
+
+export default function WebhooksPage() {
+  const { selectedOrganizationId } = useAppStore();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [loadingEndpoints, setLoadingEndpoints] = useState(true);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  const [revealedSecret, setRevealedSecret] = useState<WebhookEndpointWithSecret | null>(null);
+  const [endpointToDelete, setEndpointToDelete] = useState<WebhookEndpoint | null>(null);
+
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loadingDeliveries, setLoadingDeliveries] = useState(true);
+  const [endpointFilter, setEndpointFilter] = useState<string>("all");
+  const [eventFilter, setEventFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      setLoadingEndpoints(true);
+      const res = await webhookService.getEndpoints();
+      setEndpoints(res.success && res.data ? res.data : []);
+    } catch {
+      toast.error("Failed to load webhook endpoints");
+      setEndpoints([]);
+    } finally {
+      setLoadingEndpoints(false);
+    }
+  }, []);
+
+  // The organization is sent by apiService, reload when it changes
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints, selectedOrganizationId]);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [endpointFilter, eventFilter, statusFilter, selectedOrganizationId]);
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      setLoadingDeliveries(true);
+      const res = await webhookService.getDeliveries({
+        page: currentPage,
+        limit: PAGE_SIZE,
+        endpointId: endpointFilter !== "all" ? endpointFilter : undefined,
+        event: eventFilter !== "all" ? (eventFilter as WebhookEvent) : undefined,
+        status: statusFilter !== "all" ? (statusFilter as WebhookDeliveryStatus) : undefined,
+      });
+      if (res.success && res.data) {
+        setDeliveries(res.data.data || []);
+        setTotalPages(res.data.totalPages ?? 1);
+      } else {
+        setDeliveries([]);
+        setTotalPages(0);
+      }
+    } catch {
+      toast.error("Failed to load webhook deliveries");
+      setDeliveries([]);
+      setTotalPages(0);
+    } finally {
+      setLoadingDeliveries(false);
+    }
+  }, [currentPage, endpointFilter, eventFilter, statusFilter]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries, selectedOrganizationId]);
+
+  const openCreate = () => {
+    setEditingEndpoint(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+  };
+
+  const openEdit = (endpoint: WebhookEndpoint) => {
+    setEditingEndpoint(endpoint);
+    setForm({
+      url: endpoint.url,
+      description: endpoint.description || "",
+      events: endpoint.events,
+      isActive: endpoint.isActive,
+    });
+    setFormOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter((e) => e !== event),
+    }));
+  };
+
+  const saveEndpoint = async () => {
+    if (!form.url.trim() || form.events.length === 0) return;
+    const payload = {
+      url: form.url.trim(),
+      description: form.description.trim() || undefined,
+      events: form.events,
+      isActive: form.isActive,
+    };
+    try {
+      setSaving(true);
+      if (editingEndpoint) {
+        const res = await webhookService.updateEndpoint(editingEndpoint.id, payload);
+        if (!res.success) {
+          toast.error(res.message || "Failed to update endpoint");
+          return;
+        }
+        toast.success("Endpoint updated");
+      } else {
+        const res = await webhookService.createEndpoint(payload);
+        if (!res.success || !res.data) {
+          toast.error(res.message || "Failed to create endpoint");
+          return;
+        }
+        toast.success("Endpoint created");
+        setRevealedSecret(res.data);
+      }
+      setFormOpen(false);
+      loadEndpoints();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to save endpoint");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const rotateSecret = async (endpoint: WebhookEndpoint) => {
+    try {
+      const res = await webhookService.rotateSecret(endpoint.id);
+      if (res.success && res.data) {
+        setRevealedSecret(res.data);
+      } else {
+        toast.error(res.message || "Failed to rotate secret");
+      }
+    } catch {
+      toast.error("Failed to rotate secret");
+    }
+  };
+
+  const deleteEndpoint = async () => {
+    if (!endpointToDelete) return;
+    try {
+      const res = await webhookService.deleteEndpoint(endpointToDelete.id);
+      if (res.success) {
+        toast.success("Endpoint deleted");
+        loadEndpoints();
+        loadDeliveries();
+      } else {
+        toast.error(res.message || "Failed to delete endpoint");
+      }
+    } catch {
+      toast.error("Failed to delete endpoint");
+    } finally {
+      setEndpointToDelete(null);
+    }
+  };
+
+  const redeliver = async (delivery: WebhookDelivery) => {
+    try {
+      const res = await webhookService.redeliver(delivery.id);
+      if (res.success) {
+        toast.success("Delivery queued again");
+        loadDeliveries();
+      } else {
+        toast.error(res.message || "Failed to redeliver");
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "Failed to redeliver");
+    }
+  };
+
+  const copySecret = async () => {
+    if (!revealedSecret) return;
+    await navigator.clipboard.writeText(revealedSecret.secret);
+    toast.success("Secret copied");
+  };
+
+  const endpointUrl = (endpointId: string) =>
+    endpoints.find((endpoint) => endpoint.id === endpointId)?.url || endpointId;
+
+  return (
+    <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Push email, campaign and import events to your CRM or automation tools
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4" />
+          Add endpoint
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        {loadingEndpoints ? (
+          <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+        ) : endpoints.length === 0 ? (
+          <NoDataState
+            title="No endpoints"
+            description="Add an endpoint to start receiving signed event notifications."
+            showAction={false}
+            icon={<Webhook className="h-12 w-12 text-muted-foreground" />}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Events</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.map((endpoint) => (
+                <TableRow key={endpoint.id}>
+                  <TableCell className="max-w-[360px]">
+                    <div className="truncate font-medium">{endpoint.url}</div>
+                    {endpoint.description && (
+                      <div className="truncate text-xs text-muted-foreground">
+                        {endpoint.description}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {endpoint.events.map((event) => (
+                        <Badge key={event} variant="outline">
+                          {WebhookEventLabels[event] || event}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={endpoint.isActive ? "default" : "secondary"}>
+                      {endpoint.isActive ? "Active" : "Disabled"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" size="sm" onClick={() => openEdit(endpoint)}>
+                        <Pencil className="h-4 w-4" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => rotateSecret(endpoint)}>
+                        <KeyRound className="h-4 w-4" />
+                        Rotate secret
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setEndpointToDelete(endpoint)}>
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div>
+        <h2 className="text-lg font-semibold">Delivery log</h2>
+        <p className="text-sm text-muted-foreground">
+          Failed deliveries are retried with exponential backoff and can be redelivered by hand
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+          <SelectTrigger className="w-[260px]">
+            <SelectValue placeholder="Endpoint" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All endpoints</SelectItem>
+            {endpoints.map((endpoint) => (
+              <SelectItem key={endpoint.id} value={endpoint.id}>
+                {endpoint.url}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={eventFilter} onValueChange={setEventFilter}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue placeholder="Event" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {ALL_EVENTS.map((event) => (
+              <SelectItem key={event} value={event}>
+                {WebhookEventLabels[event]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {(Object.keys(WebhookDeliveryStatusLabels) as WebhookDeliveryStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>
+                {WebhookDeliveryStatusLabels[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-col rounded-md border">
+        {loadingDeliveries ? (
+          <p className="p-4 text-sm text-muted-foreground">Loading...</p>
+        ) : deliveries.length === 0 ? (
+          <NoDataState
+            title="No deliveries"
+            description="Events sent to your endpoints will show up here."
+            showAction={false}
+            icon={<Webhook className="h-12 w-12 text-muted-foreground" />}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Response</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <Fragment key={delivery.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() =>
+                      setExpandedDeliveryId((id) => (id === delivery.id ? null : delivery.id))
+                    }
+                  >
+                    <TableCell>{WebhookEventLabels[delivery.event] || delivery.event}</TableCell>
+                    <TableCell className="max-w-[260px] truncate">
+                      {endpointUrl(delivery.endpointId)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_BADGE_VARIANTS[delivery.status]}>
+                        {WebhookDeliveryStatusLabels[delivery.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell>{delivery.responseStatus ?? "—"}</TableCell>
+                    <TableCell>{formatDateTime(delivery.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      {delivery.status !== "PENDING" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            redeliver(delivery);
+                          }}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                          Redeliver
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expandedDeliveryId === delivery.id && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="space-y-2 bg-muted/40">
+                        {delivery.error && (
+                          <p className="text-sm text-destructive">{delivery.error}</p>
+                        )}
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground">Payload</p>
+                          <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded border bg-background p-2 text-xs">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                        {delivery.responseBody && (
+                          <div>
+                            <p className="text-xs font-medium text-muted-foreground">Response</p>
+                            <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded border bg-background p-2 text-xs">
+                              {delivery.responseBody}
+                            </pre>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {totalPages > 1 && (
+          <div className="mt-auto flex items-center justify-between border-t p-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage <= 1}
+              onClick={() => setCurrentPage((page) => page - 1)}
+            >
+              Previous
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              Page {currentPage} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={currentPage >= totalPages}
+              onClick={() => setCurrentPage((page) => page + 1)}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingEndpoint ? "Edit endpoint" : "Add endpoint"}</DialogTitle>
+            <DialogDescription>
+              Events are sent as signed JSON POST requests to this URL
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/webhooks/inboz"
+                value={form.url}
+                onChange={(e) => setForm((prev) => ({ ...prev, url: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="CRM sync"
+                value={form.description}
+                onChange={(e) => setForm((prev) => ({ ...prev, description: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {ALL_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    {WebhookEventLabels[event]}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="webhook-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked }))}
+              />
+              <Label htmlFor="webhook-active">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={saveEndpoint}
+              disabled={saving || !form.url.trim() || form.events.length === 0}
+            >
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing secret</DialogTitle>
+            <DialogDescription>
+              Copy this secret now, it will not be shown again. Verify the X-Inboz-Signature
+              header as the HMAC-SHA256 of the timestamp and body joined with a dot.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedSecret?.secret || ""} className="font-mono" />
+            <Button variant="outline" onClick={copySecret}>
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!endpointToDelete} onOpenChange={(open) => !open && setEndpointToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete endpoint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {endpointToDelete?.url} will stop receiving events and its delivery log will be removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={deleteEndpoint}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
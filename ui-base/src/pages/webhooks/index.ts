@@ -0,0 +1 @@
+export { default as WebhooksPage } from "./WebhooksPage";